@@ -20,6 +20,7 @@ import OCPIPushEVSEStatusesAsyncTask from './tasks/ocpi/OCPIPushEVSEStatusesAsyn
 import OCPIPushTokensAsyncTask from './tasks/ocpi/OCPIPushTokensAsyncTask';
 import { ServerAction } from '../types/Server';
 import SynchronizeCarCatalogsAsyncTask from './tasks/SynchronizeCarCatalogsAsyncTask';
+import SynchronizeLocalAuthorizationListsAsyncTask from './tasks/SynchronizeLocalAuthorizationListsAsyncTask';
 import TagsImportAsyncTask from './tasks/TagsImportAsyncTask';
 import UsersImportAsyncTask from './tasks/UsersImportAsyncTask';
 import Utils from '../utils/Utils';
@@ -88,6 +89,9 @@ export default class AsyncTaskManager {
               case AsyncTasks.SYNCHRONIZE_CAR_CATALOGS:
                 abstractAsyncTask = new SynchronizeCarCatalogsAsyncTask(asyncTask);
                 break;
+              case AsyncTasks.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS:
+                abstractAsyncTask = new SynchronizeLocalAuthorizationListsAsyncTask(asyncTask);
+                break;
               case AsyncTasks.OCPI_PUSH_TOKENS:
                 abstractAsyncTask = new OCPIPushTokensAsyncTask(asyncTask);
                 break;
@@ -203,6 +207,19 @@ export default class AsyncTaskManager {
     }
   }
 
+  public static async createAndSaveAsyncTaskIfNotPending(asyncTask: Omit<AsyncTask, 'id'>): Promise<void> {
+    // Already planned?
+    const pendingAsyncTasks = await AsyncTaskStorage.getAsyncTasks({
+      name: asyncTask.name,
+      status: AsyncTaskStatus.PENDING,
+      tenantID: asyncTask.tenantID,
+    }, Constants.DB_PARAMS_COUNT_ONLY);
+    if (pendingAsyncTasks.count > 0) {
+      return;
+    }
+    await AsyncTaskManager.createAndSaveAsyncTasks(asyncTask);
+  }
+
   public static async createAndSaveAsyncTasks(asyncTask: Omit<AsyncTask, 'id'>): Promise<void> {
     // Check
     if (Utils.isNullOrUndefined(asyncTask)) {
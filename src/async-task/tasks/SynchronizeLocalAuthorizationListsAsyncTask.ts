@@ -0,0 +1,34 @@
+import AbstractAsyncTask from '../AsyncTask';
+import LockingHelper from '../../locking/LockingHelper';
+import LockingManager from '../../locking/LockingManager';
+import Logging from '../../utils/Logging';
+import OCPPUtils from '../../server/ocpp/utils/OCPPUtils';
+import { ServerAction } from '../../types/Server';
+import TenantStorage from '../../storage/mongodb/TenantStorage';
+
+const MODULE_NAME = 'SynchronizeLocalAuthorizationListsAsyncTask';
+
+export default class SynchronizeLocalAuthorizationListsAsyncTask extends AbstractAsyncTask {
+  protected async executeAsyncTask(): Promise<void> {
+    const tenant = await TenantStorage.getTenant(this.asyncTask.tenantID);
+    const syncLocalListsLock = await LockingHelper.acquireSyncLocalAuthorizationListsLock(tenant.id);
+    if (syncLocalListsLock) {
+      try {
+        // Push the changes to the Charging Stations
+        const result = await OCPPUtils.synchronizeLocalAuthorizationLists(tenant);
+        await Logging.logActionsResponse(tenant.id, ServerAction.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS,
+          MODULE_NAME, 'executeAsyncTask', result,
+          '{{inSuccess}} Local Authorization List(s) were successfully synchronized',
+          '{{inError}} Local Authorization List(s) failed to be synchronized',
+          '{{inSuccess}} Local Authorization List(s) were successfully synchronized and {{inError}} failed to be synchronized',
+          'All the Local Authorization Lists are up to date'
+        );
+      } catch (error) {
+        await Logging.logActionExceptionMessage(tenant.id, ServerAction.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS, error);
+      } finally {
+        // Release the lock
+        await LockingManager.release(syncLocalListsLock);
+      }
+    }
+  }
+}
@@ -622,6 +622,38 @@ export default class Authorizations {
     return Authorizations.canPerformAction(loggedUser, Entity.PRICING, Action.UPDATE);
   }
 
+  public static async canListTariffs(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.TARIFFS, Action.LIST);
+  }
+
+  public static async canReadTariff(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.TARIFF, Action.READ);
+  }
+
+  public static async canCreateTariff(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.TARIFF, Action.CREATE);
+  }
+
+  public static async canUpdateTariff(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.TARIFF, Action.UPDATE);
+  }
+
+  public static async canDeleteTariff(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.TARIFF, Action.DELETE);
+  }
+
+  public static async canListEnergyPrices(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.ENERGY_PRICES, Action.LIST);
+  }
+
+  public static async canImportEnergyPrices(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.ENERGY_PRICES, Action.IMPORT);
+  }
+
+  public static async canDeleteEnergyPrices(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.ENERGY_PRICES, Action.DELETE);
+  }
+
   public static async canClearBillingTestData(loggedUser: UserToken): Promise<boolean> {
     return Authorizations.canPerformAction(loggedUser, Entity.BILLING, Action.CLEAR_BILLING_TEST_DATA);
   }
@@ -664,6 +696,83 @@ export default class Authorizations {
       { user: userID, owner: loggedUser.id });
   }
 
+  public static async canPayInvoiceBilling(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.INVOICE, Action.BILLING_PAY_INVOICE);
+  }
+
+  public static async canCreateCreditNoteBilling(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.INVOICE, Action.BILLING_CREATE_CREDIT_NOTE);
+  }
+
+  public static async canListBillingAccounts(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNTS, Action.LIST);
+  }
+
+  public static async canReadBillingAccount(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNT, Action.READ);
+  }
+
+  public static async canCreateBillingAccount(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNT, Action.CREATE);
+  }
+
+  public static async canUpdateBillingAccount(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNT, Action.UPDATE);
+  }
+
+  public static async canDeleteBillingAccount(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNT, Action.DELETE);
+  }
+
+  public static async canAssignUsersToBillingAccount(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNT, Action.ASSIGN_USERS_TO_BILLING_ACCOUNT);
+  }
+
+  public static async canUnassignUsersFromBillingAccount(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.BILLING_ACCOUNT, Action.UNASSIGN_USERS_TO_BILLING_ACCOUNT);
+  }
+
+  public static async canListSubscriptionPlans(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION_PLANS, Action.LIST);
+  }
+
+  public static async canReadSubscriptionPlan(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION_PLAN, Action.READ);
+  }
+
+  public static async canCreateSubscriptionPlan(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION_PLAN, Action.CREATE);
+  }
+
+  public static async canUpdateSubscriptionPlan(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION_PLAN, Action.UPDATE);
+  }
+
+  public static async canDeleteSubscriptionPlan(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION_PLAN, Action.DELETE);
+  }
+
+  public static async canListSubscriptions(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTIONS, Action.LIST);
+  }
+
+  public static async canCreateSubscription(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION, Action.CREATE);
+  }
+
+  public static async canUpdateSubscription(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.SUBSCRIPTION, Action.UPDATE);
+  }
+
+  public static async canReadWalletBilling(loggedUser: UserToken, userID: string): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.WALLET, Action.READ,
+      { user: userID, owner: loggedUser.id });
+  }
+
+  public static async canTopUpWalletBilling(loggedUser: UserToken): Promise<boolean> {
+    return Authorizations.canPerformAction(loggedUser, Entity.WALLET, Action.BILLING_WALLET_TOP_UP);
+  }
+
   public static async canCheckAssetConnection(loggedUser: UserToken): Promise<boolean> {
     return Authorizations.canPerformAction(loggedUser, Entity.ASSET, Action.CHECK_CONNECTION);
   }
@@ -28,7 +28,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       {
         resource: Entity.USER, action: Action.READ,
         attributes: [
-          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID',
+          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID', 'smartChargingPriority',
           'notificationsActive', 'notifications', 'phone', 'mobile', 'iNumber', 'costCenter', 'address'
         ]
       },
@@ -70,7 +70,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
         attributes: [
           'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'createdOn', 'createdBy',
           'lastChangedOn', 'lastChangedBy', 'eulaAcceptedOn', 'eulaAcceptedVersion', 'locale',
-          'billingData.customerID', 'billingData.lastChangedOn'
+          'billingData.customerID', 'billingData.lastChangedOn', 'billingAccountID'
         ]
       },
       {
@@ -91,7 +91,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       {
         resource: Entity.USER, action: Action.READ,
         attributes: [
-          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID',
+          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID', 'smartChargingPriority',
           'notificationsActive', 'notifications', 'phone', 'mobile', 'iNumber', 'costCenter', 'address'
         ]
       },
@@ -106,7 +106,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       {
         resource: Entity.TAGS, action: Action.LIST,
         attributes: [
-          'id', 'userID', 'active', 'ocpiToken', 'description', 'visualID', 'issuer', 'default',
+          'id', 'userID', 'active', 'ocpiToken', 'description', 'visualID', 'issuer', 'default', 'smartChargingPriority',
           'user.name', 'user.firstName', 'user.email', 'createdOn', 'lastChangedOn'
         ]
       },
@@ -157,7 +157,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       {
         resource: Entity.SITE_AREAS, action: Action.LIST,
         attributes: [
-          'id', 'name', 'siteID', 'maximumPower', 'voltage', 'numberOfPhases', 'accessControl', 'smartCharging',
+          'id', 'name', 'siteID', 'parentSiteAreaID', 'maximumPower', 'voltage', 'numberOfPhases', 'phaseAssignmentToGrid', 'solarChargingMode', 'accessControl', 'smartCharging',
           'address.address1', 'address.address2', 'address.postalCode', 'address.city', 'address.country',
           'address.coordinates', 'site.id', 'site.name', 'issuer', 'distanceMeters', 'createdOn', 'createdBy', 'lastChangedOn', 'lastChangedBy'
         ]
@@ -166,7 +166,8 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
         resource: Entity.SITE_AREA, action: Action.READ,
         attributes: [
           'id', 'name', 'issuer', 'image', 'address', 'maximumPower', 'numberOfPhases',
-          'voltage', 'smartCharging', 'accessControl', 'connectorStats', 'siteID', 'site.name'
+          'voltage', 'smartCharging', 'accessControl', 'connectorStats', 'siteID', 'site.name', 'openingTimes',
+          'parentSiteAreaID', 'parentSiteArea.name', 'phaseAssignmentToGrid', 'solarChargingMode'
         ]
       },
       {
@@ -196,7 +197,9 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           Action.REMOTE_STOP_TRANSACTION, Action.STOP_TRANSACTION, Action.START_TRANSACTION,
           Action.UNLOCK_CONNECTOR, Action.AUTHORIZE, Action.SET_CHARGING_PROFILE, Action.GET_COMPOSITE_SCHEDULE,
           Action.CLEAR_CHARGING_PROFILE, Action.GET_DIAGNOSTICS, Action.UPDATE_FIRMWARE, Action.EXPORT,
-          Action.CHANGE_AVAILABILITY
+          Action.CHANGE_AVAILABILITY, Action.RESERVE_NOW, Action.CANCEL_RESERVATION, Action.SEND_LOCAL_LIST,
+          Action.GET_LOCAL_LIST_VERSION, Action.TRIGGER_MESSAGE, Action.INSTALL_CERTIFICATE,
+          Action.GET_INSTALLED_CERTIFICATE_IDS, Action.DELETE_CERTIFICATE
         ]
       },
       { resource: Entity.TRANSACTIONS, action: [Action.LIST, Action.EXPORT, Action.IN_ERROR] },
@@ -210,6 +213,9 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       { resource: Entity.LOGGINGS, action: Action.LIST },
       { resource: Entity.LOGGING, action: Action.READ },
       { resource: Entity.PRICING, action: [Action.READ, Action.UPDATE] },
+      { resource: Entity.TARIFFS, action: Action.LIST },
+      { resource: Entity.TARIFF, action: [Action.CREATE, Action.READ, Action.UPDATE, Action.DELETE] },
+      { resource: Entity.ENERGY_PRICES, action: [Action.LIST, Action.IMPORT, Action.DELETE] },
       { resource: Entity.BILLING, action: [Action.CHECK_CONNECTION, Action.CLEAR_BILLING_TEST_DATA] },
       { resource: Entity.TAXES, action: [Action.LIST] },
       // ---------------------------------------------------------------------------------------------------
@@ -218,7 +224,17 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       // { resource: Entity.INVOICES, action: [Action.LIST, Action.SYNCHRONIZE] },
       // { resource: Entity.INVOICE, action: [Action.DOWNLOAD, Action.CREATE] },
       { resource: Entity.INVOICES, action: [Action.LIST] },
-      { resource: Entity.INVOICE, action: [Action.DOWNLOAD, Action.READ] },
+      { resource: Entity.INVOICE, action: [Action.DOWNLOAD, Action.READ, Action.BILLING_PAY_INVOICE, Action.BILLING_CREATE_CREDIT_NOTE] },
+      { resource: Entity.WALLET, action: [Action.READ, Action.BILLING_WALLET_TOP_UP] },
+      { resource: Entity.BILLING_ACCOUNTS, action: [Action.LIST] },
+      {
+        resource: Entity.BILLING_ACCOUNT, action: [Action.CREATE, Action.READ, Action.UPDATE, Action.DELETE,
+          Action.ASSIGN_USERS_TO_BILLING_ACCOUNT, Action.UNASSIGN_USERS_TO_BILLING_ACCOUNT]
+      },
+      { resource: Entity.SUBSCRIPTION_PLANS, action: [Action.LIST] },
+      { resource: Entity.SUBSCRIPTION_PLAN, action: [Action.CREATE, Action.READ, Action.UPDATE, Action.DELETE] },
+      { resource: Entity.SUBSCRIPTIONS, action: [Action.LIST] },
+      { resource: Entity.SUBSCRIPTION, action: [Action.CREATE, Action.READ, Action.UPDATE] },
       {
         resource: Entity.ASSET, action: [Action.CREATE, Action.READ, Action.UPDATE, Action.DELETE,
           Action.CHECK_CONNECTION, Action.RETRIEVE_CONSUMPTION, Action.CREATE_CONSUMPTION]
@@ -317,7 +333,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['OwnUser'] }
         },
         attributes: [
-          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID',
+          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID', 'smartChargingPriority',
           'notificationsActive', 'notifications', 'phone', 'mobile', 'iNumber', 'costCenter', 'address'
         ]
       },
@@ -435,6 +451,15 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['OwnUser'] }
         }
       },
+      {
+        resource: Entity.WALLET, action: [Action.READ],
+        condition: {
+          Fn: 'EQUALS',
+          args: { 'user': '$.owner' }
+        }
+      },
+      { resource: Entity.SUBSCRIPTION_PLANS, action: [Action.LIST] },
+      { resource: Entity.SUBSCRIPTIONS, action: [Action.LIST] },
       { resource: Entity.PAYMENT_METHODS, action: Action.LIST },
       { resource: Entity.PAYMENT_METHOD, action: [Action.READ, Action.CREATE, Action.DELETE] },
       {
@@ -467,7 +492,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['AssignedSites', 'LocalIssuer'] }
         },
         attributes: [
-          'id', 'name', 'siteID', 'maximumPower', 'voltage', 'numberOfPhases', 'accessControl', 'smartCharging',
+          'id', 'name', 'siteID', 'parentSiteAreaID', 'maximumPower', 'voltage', 'numberOfPhases', 'phaseAssignmentToGrid', 'solarChargingMode', 'accessControl', 'smartCharging',
           'address.address1', 'address.address2', 'address.postalCode', 'address.city', 'address.country',
           'address.coordinates', 'site.id', 'site.name', 'issuer', 'distanceMeters', 'createdOn', 'lastChangedOn'
         ],
@@ -480,7 +505,8 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
         },
         attributes: [
           'id', 'name', 'issuer', 'image', 'address', 'maximumPower', 'numberOfPhases',
-          'voltage', 'smartCharging', 'accessControl', 'connectorStats', 'siteID', 'site.name'
+          'voltage', 'smartCharging', 'accessControl', 'connectorStats', 'siteID', 'site.name', 'openingTimes',
+          'parentSiteAreaID', 'parentSiteArea.name', 'phaseAssignmentToGrid', 'solarChargingMode'
         ],
       },
       {
@@ -497,7 +523,8 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       { resource: Entity.CHARGING_STATION, action: [Action.READ] },
       {
         resource: Entity.CHARGING_STATION,
-        action: [Action.REMOTE_START_TRANSACTION, Action.AUTHORIZE, Action.START_TRANSACTION],
+        action: [Action.REMOTE_START_TRANSACTION, Action.AUTHORIZE, Action.START_TRANSACTION,
+          Action.RESERVE_NOW, Action.CANCEL_RESERVATION],
         condition: {
           Fn: 'OR',
           args: [
@@ -521,7 +548,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['OwnUser'] }
         },
         attributes: [
-          'id', 'userID', 'active', 'ocpiToken', 'description', 'visualID', 'issuer', 'default',
+          'id', 'userID', 'active', 'ocpiToken', 'description', 'visualID', 'issuer', 'default', 'smartChargingPriority',
           'createdOn', 'lastChangedOn'
         ],
       },
@@ -591,7 +618,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['OwnUser'] }
         },
         attributes: [
-          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID',
+          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID', 'smartChargingPriority',
           'notificationsActive', 'notifications', 'phone', 'mobile', 'iNumber', 'costCenter', 'address'
         ],
       },
@@ -673,7 +700,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
       {
         resource: Entity.SITE_AREAS, action: Action.LIST,
         attributes: [
-          'id', 'name', 'siteID', 'maximumPower', 'voltage', 'numberOfPhases', 'accessControl', 'smartCharging',
+          'id', 'name', 'siteID', 'parentSiteAreaID', 'maximumPower', 'voltage', 'numberOfPhases', 'phaseAssignmentToGrid', 'solarChargingMode', 'accessControl', 'smartCharging',
           'address.address1', 'address.address2', 'address.postalCode', 'address.city', 'address.country',
           'address.coordinates', 'site.id', 'site.name', 'issuer', 'distanceMeters', 'createdOn', 'lastChangedOn'
         ]
@@ -682,7 +709,8 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
         resource: Entity.SITE_AREA, action: Action.READ,
         attributes: [
           'id', 'name', 'issuer', 'image', 'address', 'maximumPower', 'numberOfPhases',
-          'voltage', 'smartCharging', 'accessControl', 'connectorStats', 'siteID', 'site.name'
+          'voltage', 'smartCharging', 'accessControl', 'connectorStats', 'siteID', 'site.name', 'openingTimes',
+          'parentSiteAreaID', 'parentSiteArea.name', 'phaseAssignmentToGrid', 'solarChargingMode'
         ]
       },
       {
@@ -725,7 +753,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['SitesAdmin', 'LocalIssuer'] }
         },
         attributes: [
-          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID',
+          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID', 'smartChargingPriority',
           'notificationsActive', 'notifications', 'phone', 'mobile', 'iNumber', 'costCenter', 'address'
         ],
       },
@@ -820,7 +848,9 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
         action: [Action.UPDATE, Action.DELETE, Action.RESET, Action.CLEAR_CACHE, Action.GET_CONFIGURATION,
           Action.CHANGE_CONFIGURATION, Action.SET_CHARGING_PROFILE, Action.GET_COMPOSITE_SCHEDULE,
           Action.CLEAR_CHARGING_PROFILE, Action.GET_DIAGNOSTICS, Action.UPDATE_FIRMWARE, Action.REMOTE_STOP_TRANSACTION,
-          Action.STOP_TRANSACTION, Action.EXPORT, Action.CHANGE_AVAILABILITY],
+          Action.STOP_TRANSACTION, Action.EXPORT, Action.CHANGE_AVAILABILITY, Action.RESERVE_NOW, Action.CANCEL_RESERVATION,
+          Action.SEND_LOCAL_LIST, Action.GET_LOCAL_LIST_VERSION, Action.TRIGGER_MESSAGE, Action.INSTALL_CERTIFICATE,
+          Action.GET_INSTALLED_CERTIFICATE_IDS, Action.DELETE_CERTIFICATE],
         condition: { Fn: 'LIST_CONTAINS', args: { 'sitesAdmin': '$.site' } },
       },
       { resource: Entity.CHARGING_PROFILES, action: Action.LIST },
@@ -848,7 +878,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['SitesAdmin', 'LocalIssuer'] }
         },
         attributes: [
-          'id', 'userID', 'active', 'ocpiToken', 'description', 'visualID', 'issuer', 'default',
+          'id', 'userID', 'active', 'ocpiToken', 'description', 'visualID', 'issuer', 'default', 'smartChargingPriority',
           'user.name', 'user.firstName', 'user.email', 'createdOn', 'lastChangedOn'
         ],
       },
@@ -897,7 +927,7 @@ const AUTHORIZATION_DEFINITION: AuthorizationDefinition = {
           args: { filters: ['SitesOwner', 'LocalIssuer'] }
         },
         attributes: [
-          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID',
+          'id', 'name', 'firstName', 'email', 'role', 'status', 'issuer', 'locale', 'plateID', 'smartChargingPriority',
           'notificationsActive', 'notifications', 'phone', 'mobile', 'iNumber', 'costCenter', 'address'
         ],
       },
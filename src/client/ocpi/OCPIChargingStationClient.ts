@@ -1,4 +1,4 @@
-import { OCPPAvailabilityStatus, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPChargingProfileStatus, OCPPClearCacheCommandResult, OCPPClearCacheStatus, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPClearChargingProfileStatus, OCPPConfigurationStatus, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetCompositeScheduleStatus, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPRemoteStartStopStatus, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPResetStatus, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUnlockStatus, OCPPUpdateFirmwareCommandParam } from '../../types/ocpp/OCPPClient';
+import { OCPPAvailabilityStatus, OCPPCancelReservationCommandParam, OCPPCancelReservationCommandResult, OCPPCancelReservationStatus, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPCertificateSignedStatus, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPChargingProfileStatus, OCPPClearCacheCommandResult, OCPPClearCacheStatus, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPClearChargingProfileStatus, OCPPConfigurationStatus, OCPPDeleteCertificateCommandParam, OCPPDeleteCertificateCommandResult, OCPPDeleteCertificateStatus, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetCompositeScheduleStatus, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPGetInstalledCertificateIdsCommandParam, OCPPGetInstalledCertificateIdsCommandResult, OCPPGetInstalledCertificateStatus, OCPPGetLocalListVersionCommandResult, OCPPInstallCertificateCommandParam, OCPPInstallCertificateCommandResult, OCPPInstallCertificateStatus, OCPPRemoteStartStopStatus, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPReservationStatus, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPResetStatus, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPTriggerMessageStatus, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUnlockStatus, OCPPUpdateFirmwareCommandParam, OCPPUpdateStatus } from '../../types/ocpp/OCPPClient';
 
 import ChargingStation from '../../types/ChargingStation';
 import ChargingStationClient from '../ocpp/ChargingStationClient';
@@ -96,4 +96,58 @@ export default class OCPIChargingStationClient extends ChargingStationClient {
   }
 
   async updateFirmware(params: OCPPUpdateFirmwareCommandParam): Promise<void> { }
+
+  async reserveNow(params: OCPPReserveNowCommandParam): Promise<OCPPReserveNowCommandResult> {
+    return {
+      status: OCPPReservationStatus.REJECTED
+    };
+  }
+
+  async cancelReservation(params: OCPPCancelReservationCommandParam): Promise<OCPPCancelReservationCommandResult> {
+    return {
+      status: OCPPCancelReservationStatus.REJECTED
+    };
+  }
+
+  async sendLocalList(params: OCPPSendLocalListCommandParam): Promise<OCPPSendLocalListCommandResult> {
+    return {
+      status: OCPPUpdateStatus.NOT_SUPPORTED
+    };
+  }
+
+  async getLocalListVersion(): Promise<OCPPGetLocalListVersionCommandResult> {
+    return {
+      listVersion: -1
+    };
+  }
+
+  async triggerMessage(params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult> {
+    return {
+      status: OCPPTriggerMessageStatus.NOT_IMPLEMENTED
+    };
+  }
+
+  async certificateSigned(params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult> {
+    return {
+      status: OCPPCertificateSignedStatus.REJECTED
+    };
+  }
+
+  async installCertificate(params: OCPPInstallCertificateCommandParam): Promise<OCPPInstallCertificateCommandResult> {
+    return {
+      status: OCPPInstallCertificateStatus.REJECTED
+    };
+  }
+
+  async getInstalledCertificateIds(params: OCPPGetInstalledCertificateIdsCommandParam): Promise<OCPPGetInstalledCertificateIdsCommandResult> {
+    return {
+      status: OCPPGetInstalledCertificateStatus.NOT_FOUND
+    };
+  }
+
+  async deleteCertificate(params: OCPPDeleteCertificateCommandParam): Promise<OCPPDeleteCertificateCommandResult> {
+    return {
+      status: OCPPDeleteCertificateStatus.NOT_FOUND
+    };
+  }
 }
@@ -1,4 +1,4 @@
-import { OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../types/ocpp/OCPPClient';
+import { OCPPCancelReservationCommandParam, OCPPCancelReservationCommandResult, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPDeleteCertificateCommandParam, OCPPDeleteCertificateCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPGetInstalledCertificateIdsCommandParam, OCPPGetInstalledCertificateIdsCommandResult, OCPPGetLocalListVersionCommandResult, OCPPInstallCertificateCommandParam, OCPPInstallCertificateCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../types/ocpp/OCPPClient';
 
 export default abstract class ChargingStationClient {
   public abstract reset(params: OCPPResetCommandParam): Promise<OCPPResetCommandResult>;
@@ -26,4 +26,22 @@ export default abstract class ChargingStationClient {
   public abstract getDiagnostics(params: OCPPGetDiagnosticsCommandParam): Promise<OCPPGetDiagnosticsCommandResult>;
 
   public abstract updateFirmware(params: OCPPUpdateFirmwareCommandParam): Promise<void>;
+
+  public abstract reserveNow(params: OCPPReserveNowCommandParam): Promise<OCPPReserveNowCommandResult>;
+
+  public abstract cancelReservation(params: OCPPCancelReservationCommandParam): Promise<OCPPCancelReservationCommandResult>;
+
+  public abstract sendLocalList(params: OCPPSendLocalListCommandParam): Promise<OCPPSendLocalListCommandResult>;
+
+  public abstract getLocalListVersion(): Promise<OCPPGetLocalListVersionCommandResult>;
+
+  public abstract triggerMessage(params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult>;
+
+  public abstract certificateSigned(params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult>;
+
+  public abstract installCertificate(params: OCPPInstallCertificateCommandParam): Promise<OCPPInstallCertificateCommandResult>;
+
+  public abstract getInstalledCertificateIds(params: OCPPGetInstalledCertificateIdsCommandParam): Promise<OCPPGetInstalledCertificateIdsCommandResult>;
+
+  public abstract deleteCertificate(params: OCPPDeleteCertificateCommandParam): Promise<OCPPDeleteCertificateCommandResult>;
 }
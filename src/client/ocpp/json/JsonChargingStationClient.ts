@@ -1,4 +1,4 @@
-import { OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
+import { OCPPCancelReservationCommandParam, OCPPCancelReservationCommandResult, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPDeleteCertificateCommandParam, OCPPDeleteCertificateCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPGetInstalledCertificateIdsCommandParam, OCPPGetInstalledCertificateIdsCommandResult, OCPPGetLocalListVersionCommandResult, OCPPInstallCertificateCommandParam, OCPPInstallCertificateCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
 
 import ChargingStationClient from '../../ocpp/ChargingStationClient';
 import { Command } from '../../../types/ChargingStation';
@@ -78,6 +78,42 @@ export default class JsonChargingStationClient extends ChargingStationClient {
     return this.sendMessage(params, Command.UPDATE_FIRMWARE);
   }
 
+  public async reserveNow(params: OCPPReserveNowCommandParam): Promise<OCPPReserveNowCommandResult> {
+    return this.sendMessage(params, Command.RESERVE_NOW);
+  }
+
+  public async cancelReservation(params: OCPPCancelReservationCommandParam): Promise<OCPPCancelReservationCommandResult> {
+    return this.sendMessage(params, Command.CANCEL_RESERVATION);
+  }
+
+  public async sendLocalList(params: OCPPSendLocalListCommandParam): Promise<OCPPSendLocalListCommandResult> {
+    return this.sendMessage(params, Command.SEND_LOCAL_LIST);
+  }
+
+  public async getLocalListVersion(): Promise<OCPPGetLocalListVersionCommandResult> {
+    return this.sendMessage({}, Command.GET_LOCAL_LIST_VERSION);
+  }
+
+  public async triggerMessage(params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult> {
+    return this.sendMessage(params, Command.TRIGGER_MESSAGE);
+  }
+
+  public async certificateSigned(params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult> {
+    return this.sendMessage(params, Command.CERTIFICATE_SIGNED);
+  }
+
+  public async installCertificate(params: OCPPInstallCertificateCommandParam): Promise<OCPPInstallCertificateCommandResult> {
+    return this.sendMessage(params, Command.INSTALL_CERTIFICATE);
+  }
+
+  public async getInstalledCertificateIds(params: OCPPGetInstalledCertificateIdsCommandParam): Promise<OCPPGetInstalledCertificateIdsCommandResult> {
+    return this.sendMessage(params, Command.GET_INSTALLED_CERTIFICATE_IDS);
+  }
+
+  public async deleteCertificate(params: OCPPDeleteCertificateCommandParam): Promise<OCPPDeleteCertificateCommandResult> {
+    return this.sendMessage(params, Command.DELETE_CERTIFICATE);
+  }
+
   private async sendMessage(params: any, commandName: Command): Promise<any> {
     // Log
     await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStationID, `ChargingStation${commandName}` as ServerAction, params);
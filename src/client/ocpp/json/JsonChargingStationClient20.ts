@@ -0,0 +1,353 @@
+import { ChargingProfilePurposeType, Profile } from '../../../types/ChargingProfile';
+import { OCPP20ChargingProfile, OCPP20ChargingProfilePurpose, OCPP20Command, OCPP20GetInstalledCertificateIdsResponse, OCPP20GetVariableStatus, OCPP20GetVariablesResponse, OCPP20InstallCertificateUse, OCPP20OperationalStatus, OCPP20ReportBase, OCPP20RequestStartStopStatus, OCPP20RequestStartStopTransactionResponse, OCPP20ResetResponse, OCPP20ResetStatus, OCPP20ResetType, OCPP20SetVariableStatus, OCPP20SetVariablesResponse, OCPP20UnlockConnectorResponse, OCPP20UnlockStatus, OCPP20VariableData } from '../../../types/ocpp/OCPP20Client';
+import { OCPP20EVSE, OCPP20IdTokenType } from '../../../types/ocpp/OCPP20Server';
+import { OCPPCancelReservationCommandParam, OCPPCancelReservationCommandResult, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPCertificateUse, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPChargingProfilePurposeType, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPConfigurationStatus, OCPPDeleteCertificateCommandParam, OCPPDeleteCertificateCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPGetInstalledCertificateIdsCommandParam, OCPPGetInstalledCertificateIdsCommandResult, OCPPGetInstalledCertificateStatus, OCPPGetLocalListVersionCommandResult, OCPPInstallCertificateCommandParam, OCPPInstallCertificateCommandResult, OCPPMessageTrigger, OCPPRemoteStartStopStatus, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPResetStatus, OCPPResetType, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUnlockStatus, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
+
+import BackendError from '../../../exception/BackendError';
+import ChargingStationClient from '../../ocpp/ChargingStationClient';
+import ChargingStationStorage from '../../../storage/mongodb/ChargingStationStorage';
+import { Command } from '../../../types/ChargingStation';
+import JsonWSConnection from '../../../server/ocpp/json/JsonWSConnection';
+import Logging from '../../../utils/Logging';
+import { OCPPMessageType } from '../../../types/ocpp/OCPPCommon';
+import { ServerAction } from '../../../types/Server';
+import TransactionStorage from '../../../storage/mongodb/TransactionStorage';
+import Utils from '../../../utils/Utils';
+
+const MODULE_NAME = 'JsonChargingStationClient20';
+
+/**
+ * OCPP 2.0.1 Charging Station client: the OCPP 1.6 commands used by the backend are converted
+ * to their OCPP 2.0.1 counterpart and the connectors are mapped to their EVSE.
+ * Commands without OCPP 2.0.1 counterpart are refused.
+ */
+export default class JsonChargingStationClient20 extends ChargingStationClient {
+  private chargingStationID: string;
+  private tenantID: string;
+  private wsConnection: JsonWSConnection;
+
+  constructor(wsConnection: JsonWSConnection, tenantID: string, chargingStationID: string) {
+    super();
+    this.wsConnection = wsConnection;
+    this.tenantID = tenantID;
+    this.chargingStationID = chargingStationID;
+  }
+
+  getChargingStationID(): string {
+    return this.wsConnection.getChargingStationID();
+  }
+
+  public async remoteStartTransaction(params: OCPPRemoteStartTransactionCommandParam): Promise<OCPPRemoteStartTransactionCommandResult> {
+    const evse = await this.getEvse(params.connectorId);
+    const result: OCPP20RequestStartStopTransactionResponse = await this.sendMessage({
+      evseId: evse.id,
+      remoteStartId: Utils.getRandomIntSafe(),
+      idToken: { idToken: params.idTag, type: OCPP20IdTokenType.CENTRAL },
+      ...(params.chargingProfile && { chargingProfile: await this.convertChargingProfile(params.chargingProfile) })
+    }, Command.REMOTE_START_TRANSACTION, OCPP20Command.REQUEST_START_TRANSACTION);
+    return {
+      status: result.status === OCPP20RequestStartStopStatus.ACCEPTED ? OCPPRemoteStartStopStatus.ACCEPTED : OCPPRemoteStartStopStatus.REJECTED
+    };
+  }
+
+  public async remoteStopTransaction(params: OCPPRemoteStopTransactionCommandParam): Promise<OCPPRemoteStopTransactionCommandResult> {
+    // The Charging Station only knows its own Transaction ID
+    const ocppTransactionID = await this.getOcppTransactionID(params.transactionId);
+    if (!ocppTransactionID) {
+      return { status: OCPPRemoteStartStopStatus.REJECTED };
+    }
+    const result: OCPP20RequestStartStopTransactionResponse = await this.sendMessage({
+      transactionId: ocppTransactionID
+    }, Command.REMOTE_STOP_TRANSACTION, OCPP20Command.REQUEST_STOP_TRANSACTION);
+    return {
+      status: result.status === OCPP20RequestStartStopStatus.ACCEPTED ? OCPPRemoteStartStopStatus.ACCEPTED : OCPPRemoteStartStopStatus.REJECTED
+    };
+  }
+
+  public async reset(params: OCPPResetCommandParam): Promise<OCPPResetCommandResult> {
+    const result: OCPP20ResetResponse = await this.sendMessage({
+      type: params.type === OCPPResetType.HARD ? OCPP20ResetType.IMMEDIATE : OCPP20ResetType.ON_IDLE
+    }, Command.RESET, OCPP20Command.RESET);
+    return {
+      status: result.status === OCPP20ResetStatus.REJECTED ? OCPPResetStatus.REJECTED : OCPPResetStatus.ACCEPTED
+    };
+  }
+
+  public async clearCache(): Promise<OCPPClearCacheCommandResult> {
+    return this.sendMessage({}, Command.CLEAR_CACHE, OCPP20Command.CLEAR_CACHE);
+  }
+
+  public async getConfiguration(params: OCPPGetConfigurationCommandParam = {}): Promise<OCPPGetConfigurationCommandResult> {
+    // All the variables are sent in the Notify Report requests
+    if (Utils.isEmptyArray(params.key)) {
+      await this.sendMessage({
+        requestId: Utils.getRandomIntSafe(),
+        reportBase: OCPP20ReportBase.FULL_INVENTORY
+      }, Command.GET_CONFIGURATION, OCPP20Command.GET_BASE_REPORT);
+      const ocppParameters = await ChargingStationStorage.getOcppParameters(this.tenantID, this.chargingStationID);
+      return { configurationKey: ocppParameters.result };
+    }
+    const unknownKey = params.key.filter((key) => !this.convertKeyToVariableData(key));
+    const configurationKey = [];
+    const getVariableData = params.key.map((key) => this.convertKeyToVariableData(key)).filter((variableData) => variableData);
+    if (!Utils.isEmptyArray(getVariableData)) {
+      const result: OCPP20GetVariablesResponse = await this.sendMessage({ getVariableData },
+        Command.GET_CONFIGURATION, OCPP20Command.GET_VARIABLES);
+      for (const getVariableResult of result.getVariableResult) {
+        const key = this.convertVariableDataToKey(getVariableResult);
+        if (getVariableResult.attributeStatus === OCPP20GetVariableStatus.ACCEPTED) {
+          configurationKey.push({ key, value: getVariableResult.attributeValue, readonly: false });
+        } else {
+          unknownKey.push(key);
+        }
+      }
+    }
+    return { configurationKey, unknownKey };
+  }
+
+  public async changeConfiguration(params: OCPPChangeConfigurationCommandParam): Promise<OCPPChangeConfigurationCommandResult> {
+    const variableData = this.convertKeyToVariableData(params.key);
+    if (!variableData) {
+      return { status: OCPPConfigurationStatus.NOT_SUPPORTED };
+    }
+    const result: OCPP20SetVariablesResponse = await this.sendMessage({
+      setVariableData: [{ ...variableData, attributeValue: params.value }]
+    }, Command.CHANGE_CONFIGURATION, OCPP20Command.SET_VARIABLES);
+    switch (result.setVariableResult[0]?.attributeStatus) {
+      case OCPP20SetVariableStatus.ACCEPTED:
+        return { status: OCPPConfigurationStatus.ACCEPTED };
+      case OCPP20SetVariableStatus.REBOOT_REQUIRED:
+        return { status: OCPPConfigurationStatus.REBOOT_REQUIRED };
+      case OCPP20SetVariableStatus.REJECTED:
+        return { status: OCPPConfigurationStatus.REJECTED };
+      default:
+        return { status: OCPPConfigurationStatus.NOT_SUPPORTED };
+    }
+  }
+
+  public async unlockConnector(params: OCPPUnlockConnectorCommandParam): Promise<OCPPUnlockConnectorCommandResult> {
+    const evse = await this.getEvse(params.connectorId);
+    const result: OCPP20UnlockConnectorResponse = await this.sendMessage({
+      evseId: evse.id,
+      connectorId: evse.connectorId ?? 1
+    }, Command.UNLOCK_CONNECTOR, OCPP20Command.UNLOCK_CONNECTOR);
+    switch (result.status) {
+      case OCPP20UnlockStatus.UNLOCKED:
+        return { status: OCPPUnlockStatus.UNLOCKED };
+      case OCPP20UnlockStatus.UNKNOWN_CONNECTOR:
+        return { status: OCPPUnlockStatus.NOT_SUPPORTED };
+      default:
+        return { status: OCPPUnlockStatus.UNLOCK_FAILED };
+    }
+  }
+
+  public async setChargingProfile(params: OCPPSetChargingProfileCommandParam): Promise<OCPPSetChargingProfileCommandResult> {
+    // Connector 0 is the whole Charging Station
+    const evse = params.connectorId ? await this.getEvse(params.connectorId) : { id: 0 };
+    return this.sendMessage({
+      evseId: evse.id,
+      chargingProfile: await this.convertChargingProfile(params.csChargingProfiles)
+    }, Command.SET_CHARGING_PROFILE, OCPP20Command.SET_CHARGING_PROFILE);
+  }
+
+  public async getCompositeSchedule(params: OCPPGetCompositeScheduleCommandParam): Promise<OCPPGetCompositeScheduleCommandResult> {
+    return await this.refuseCommand(Command.GET_COMPOSITE_SCHEDULE, params);
+  }
+
+  public async clearChargingProfile(params: OCPPClearChargingProfileCommandParam): Promise<OCPPClearChargingProfileCommandResult> {
+    const chargingProfileCriteria = {};
+    if (params.connectorId || params.connectorId === 0) {
+      chargingProfileCriteria['evseId'] = params.connectorId ? (await this.getEvse(params.connectorId)).id : 0;
+    }
+    if (params.chargingProfilePurpose) {
+      chargingProfileCriteria['chargingProfilePurpose'] = this.convertChargingProfilePurpose(params.chargingProfilePurpose);
+    }
+    if (Utils.objectHasProperty(params, 'stackLevel')) {
+      chargingProfileCriteria['stackLevel'] = params.stackLevel;
+    }
+    return this.sendMessage({
+      ...(params.id && { chargingProfileId: params.id }),
+      ...(!Utils.isEmptyJSon(chargingProfileCriteria) && { chargingProfileCriteria })
+    }, Command.CLEAR_CHARGING_PROFILE, OCPP20Command.CLEAR_CHARGING_PROFILE);
+  }
+
+  public async changeAvailability(params: OCPPChangeAvailabilityCommandParam): Promise<OCPPChangeAvailabilityCommandResult> {
+    return this.sendMessage({
+      operationalStatus: params.type as unknown as OCPP20OperationalStatus,
+      ...(params.connectorId && { evse: await this.getEvse(params.connectorId) })
+    }, Command.CHANGE_AVAILABILITY, OCPP20Command.CHANGE_AVAILABILITY);
+  }
+
+  public async getDiagnostics(params: OCPPGetDiagnosticsCommandParam): Promise<OCPPGetDiagnosticsCommandResult> {
+    return await this.refuseCommand(Command.GET_DIAGNOSTICS, params);
+  }
+
+  public async updateFirmware(params: OCPPUpdateFirmwareCommandParam): Promise<void> {
+    return await this.refuseCommand(Command.UPDATE_FIRMWARE, params);
+  }
+
+  public async reserveNow(params: OCPPReserveNowCommandParam): Promise<OCPPReserveNowCommandResult> {
+    return await this.refuseCommand(Command.RESERVE_NOW, params);
+  }
+
+  public async cancelReservation(params: OCPPCancelReservationCommandParam): Promise<OCPPCancelReservationCommandResult> {
+    return await this.refuseCommand(Command.CANCEL_RESERVATION, params);
+  }
+
+  public async sendLocalList(params: OCPPSendLocalListCommandParam): Promise<OCPPSendLocalListCommandResult> {
+    return await this.refuseCommand(Command.SEND_LOCAL_LIST, params);
+  }
+
+  public async getLocalListVersion(): Promise<OCPPGetLocalListVersionCommandResult> {
+    return await this.refuseCommand(Command.GET_LOCAL_LIST_VERSION, {});
+  }
+
+  public async triggerMessage(params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult> {
+    return this.sendMessage({
+      // Diagnostics are replaced by the Logs
+      requestedMessage: params.requestedMessage === OCPPMessageTrigger.DIAGNOSTICS_STATUS_NOTIFICATION ?
+        'LogStatusNotification' : params.requestedMessage,
+      ...(params.connectorId && { evse: await this.getEvse(params.connectorId) })
+    }, Command.TRIGGER_MESSAGE, OCPP20Command.TRIGGER_MESSAGE);
+  }
+
+  public async certificateSigned(params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult> {
+    return this.sendMessage(params, Command.CERTIFICATE_SIGNED, OCPP20Command.CERTIFICATE_SIGNED);
+  }
+
+  public async installCertificate(params: OCPPInstallCertificateCommandParam): Promise<OCPPInstallCertificateCommandResult> {
+    return this.sendMessage({
+      certificateType: this.convertCertificateUse(params.certificateType),
+      certificate: params.certificate
+    }, Command.INSTALL_CERTIFICATE, OCPP20Command.INSTALL_CERTIFICATE);
+  }
+
+  public async getInstalledCertificateIds(params: OCPPGetInstalledCertificateIdsCommandParam): Promise<OCPPGetInstalledCertificateIdsCommandResult> {
+    const result: OCPP20GetInstalledCertificateIdsResponse = await this.sendMessage({
+      certificateType: [this.convertCertificateUse(params.certificateType)]
+    }, Command.GET_INSTALLED_CERTIFICATE_IDS, OCPP20Command.GET_INSTALLED_CERTIFICATE_IDS);
+    return {
+      status: result.status as OCPPGetInstalledCertificateStatus,
+      certificateHashData: (result.certificateHashDataChain ?? []).map((certificateHashDataChain) => certificateHashDataChain.certificateHashData)
+    };
+  }
+
+  public async deleteCertificate(params: OCPPDeleteCertificateCommandParam): Promise<OCPPDeleteCertificateCommandResult> {
+    return this.sendMessage(params, Command.DELETE_CERTIFICATE, OCPP20Command.DELETE_CERTIFICATE);
+  }
+
+  private async getEvse(connectorID: number): Promise<OCPP20EVSE> {
+    const chargingStation = await ChargingStationStorage.getChargingStation(this.tenantID, this.chargingStationID, {}, ['id', 'connectors']);
+    const connector = Utils.getConnectorFromID(chargingStation, connectorID);
+    // Connectors reported before their EVSE was kept are the EVSE itself
+    const evse: OCPP20EVSE = { id: connector?.ocppEvseID ?? connectorID };
+    if (connector?.ocppConnectorID) {
+      evse.connectorId = connector.ocppConnectorID;
+    }
+    return evse;
+  }
+
+  private async getOcppTransactionID(transactionID: number): Promise<string> {
+    if (!transactionID) {
+      return null;
+    }
+    const transaction = await TransactionStorage.getTransaction(this.tenantID, transactionID, {}, ['id', 'ocppTransactionID']);
+    return transaction?.ocppTransactionID ?? null;
+  }
+
+  private async convertChargingProfile(profile: Profile): Promise<OCPP20ChargingProfile> {
+    const chargingProfile: OCPP20ChargingProfile = {
+      id: profile.chargingProfileId,
+      stackLevel: profile.stackLevel,
+      chargingProfilePurpose: this.convertChargingProfilePurpose(profile.chargingProfilePurpose),
+      chargingProfileKind: profile.chargingProfileKind,
+      chargingSchedule: [{
+        id: profile.chargingProfileId,
+        chargingRateUnit: profile.chargingSchedule.chargingRateUnit,
+        chargingSchedulePeriod: profile.chargingSchedule.chargingSchedulePeriod,
+      }]
+    };
+    if (profile.recurrencyKind) {
+      chargingProfile.recurrencyKind = profile.recurrencyKind;
+    }
+    if (profile.validFrom) {
+      chargingProfile.validFrom = profile.validFrom;
+    }
+    if (profile.validTo) {
+      chargingProfile.validTo = profile.validTo;
+    }
+    if (profile.transactionId) {
+      chargingProfile.transactionId = await this.getOcppTransactionID(profile.transactionId);
+    }
+    if (profile.chargingSchedule.startSchedule) {
+      chargingProfile.chargingSchedule[0].startSchedule = profile.chargingSchedule.startSchedule;
+    }
+    if (Utils.objectHasProperty(profile.chargingSchedule, 'duration')) {
+      chargingProfile.chargingSchedule[0].duration = profile.chargingSchedule.duration;
+    }
+    if (Utils.objectHasProperty(profile.chargingSchedule, 'minChargeRate')) {
+      chargingProfile.chargingSchedule[0].minChargingRate = profile.chargingSchedule.minChargeRate;
+    }
+    return chargingProfile;
+  }
+
+  private convertChargingProfilePurpose(chargingProfilePurpose: ChargingProfilePurposeType | OCPPChargingProfilePurposeType): OCPP20ChargingProfilePurpose {
+    switch (chargingProfilePurpose) {
+      case ChargingProfilePurposeType.CHARGE_POINT_MAX_PROFILE:
+        return OCPP20ChargingProfilePurpose.CHARGING_STATION_MAX_PROFILE;
+      case ChargingProfilePurposeType.TX_DEFAULT_PROFILE:
+        return OCPP20ChargingProfilePurpose.TX_DEFAULT_PROFILE;
+      default:
+        return OCPP20ChargingProfilePurpose.TX_PROFILE;
+    }
+  }
+
+  private convertCertificateUse(certificateUse: OCPPCertificateUse): OCPP20InstallCertificateUse {
+    return certificateUse === OCPPCertificateUse.MANUFACTURER_ROOT_CERTIFICATE ?
+      OCPP20InstallCertificateUse.MANUFACTURER_ROOT_CERTIFICATE : OCPP20InstallCertificateUse.CSMS_ROOT_CERTIFICATE;
+  }
+
+  private convertKeyToVariableData(key: string): OCPP20VariableData {
+    // Keys of the Notify Report are Component[.EVSE].Variable (instances are not supported)
+    const keyParts = key.split('.');
+    if (keyParts.length === 2) {
+      return { component: { name: keyParts[0] }, variable: { name: keyParts[1] } };
+    }
+    const evseMatch = keyParts.length === 3 && /^EVSE(\d+)$/.exec(keyParts[1]);
+    if (evseMatch) {
+      return { component: { name: keyParts[0], evse: { id: Utils.convertToInt(evseMatch[1]) } }, variable: { name: keyParts[2] } };
+    }
+    return null;
+  }
+
+  private convertVariableDataToKey(variableData: OCPP20VariableData): string {
+    const keyParts = [variableData.component.name];
+    if (variableData.component.evse) {
+      keyParts.push(`EVSE${variableData.component.evse.id}`);
+    }
+    keyParts.push(variableData.variable.name);
+    return keyParts.join('.');
+  }
+
+  private async refuseCommand(commandName: Command, params: any): Promise<never> {
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStationID, `ChargingStation${commandName}` as ServerAction, params);
+    throw new BackendError({
+      source: this.chargingStationID,
+      module: MODULE_NAME, method: 'refuseCommand',
+      action: `ChargingStation${commandName}` as ServerAction,
+      message: `Command '${commandName}' is not supported in OCPP 2.0.1`,
+      detailedMessages: { params }
+    });
+  }
+
+  private async sendMessage(params: any, commandName: Command, ocpp20CommandName: OCPP20Command): Promise<any> {
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStationID, `ChargingStation${commandName}` as ServerAction, params);
+    // Execute
+    const result = await this.wsConnection.sendMessage(Utils.generateUUID(), params, OCPPMessageType.CALL_MESSAGE, ocpp20CommandName);
+    // Log
+    await Logging.logChargingStationClientReceiveAction(MODULE_NAME, this.tenantID, this.chargingStationID, `ChargingStation${commandName}` as ServerAction, result);
+    return result;
+  }
+}
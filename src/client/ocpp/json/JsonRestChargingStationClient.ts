@@ -1,5 +1,5 @@
 import ChargingStation, { Command } from '../../../types/ChargingStation';
-import { OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPStatus, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
+import { OCPPCancelReservationCommandParam, OCPPCancelReservationCommandResult, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPDeleteCertificateCommandParam, OCPPDeleteCertificateCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPGetInstalledCertificateIdsCommandParam, OCPPGetInstalledCertificateIdsCommandResult, OCPPGetLocalListVersionCommandResult, OCPPInstallCertificateCommandParam, OCPPInstallCertificateCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPStatus, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
 import { OCPPIncomingRequest, OCPPMessageType, OCPPOutgoingRequest } from '../../../types/ocpp/OCPPCommon';
 import { ServerAction, WSServerProtocol } from '../../../types/Server';
 
@@ -97,6 +97,42 @@ export default class JsonRestChargingStationClient extends ChargingStationClient
     return this.sendMessage(this.buildRequest(Command.UPDATE_FIRMWARE, params));
   }
 
+  public async reserveNow(params: OCPPReserveNowCommandParam): Promise<OCPPReserveNowCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.RESERVE_NOW, params));
+  }
+
+  public async cancelReservation(params: OCPPCancelReservationCommandParam): Promise<OCPPCancelReservationCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.CANCEL_RESERVATION, params));
+  }
+
+  public async sendLocalList(params: OCPPSendLocalListCommandParam): Promise<OCPPSendLocalListCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.SEND_LOCAL_LIST, params));
+  }
+
+  public async getLocalListVersion(): Promise<OCPPGetLocalListVersionCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.GET_LOCAL_LIST_VERSION));
+  }
+
+  public async triggerMessage(params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.TRIGGER_MESSAGE, params));
+  }
+
+  public async certificateSigned(params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.CERTIFICATE_SIGNED, params));
+  }
+
+  public async installCertificate(params: OCPPInstallCertificateCommandParam): Promise<OCPPInstallCertificateCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.INSTALL_CERTIFICATE, params));
+  }
+
+  public async getInstalledCertificateIds(params: OCPPGetInstalledCertificateIdsCommandParam): Promise<OCPPGetInstalledCertificateIdsCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.GET_INSTALLED_CERTIFICATE_IDS, params));
+  }
+
+  public async deleteCertificate(params: OCPPDeleteCertificateCommandParam): Promise<OCPPDeleteCertificateCommandResult> {
+    return this.sendMessage(this.buildRequest(Command.DELETE_CERTIFICATE, params));
+  }
+
   private async openConnection(): Promise<unknown> {
     // Log
     await Logging.logInfo({
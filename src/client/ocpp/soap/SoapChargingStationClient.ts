@@ -1,5 +1,5 @@
 import ChargingStation, { Command } from '../../../types/ChargingStation';
-import { OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
+import { OCPPCancelReservationCommandParam, OCPPCancelReservationCommandResult, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPChangeAvailabilityCommandParam, OCPPChangeAvailabilityCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPClearCacheCommandResult, OCPPClearChargingProfileCommandParam, OCPPClearChargingProfileCommandResult, OCPPDeleteCertificateCommandParam, OCPPDeleteCertificateCommandResult, OCPPGetCompositeScheduleCommandParam, OCPPGetCompositeScheduleCommandResult, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPGetDiagnosticsCommandParam, OCPPGetDiagnosticsCommandResult, OCPPGetInstalledCertificateIdsCommandParam, OCPPGetInstalledCertificateIdsCommandResult, OCPPGetLocalListVersionCommandResult, OCPPInstallCertificateCommandParam, OCPPInstallCertificateCommandResult, OCPPRemoteStartTransactionCommandParam, OCPPRemoteStartTransactionCommandResult, OCPPRemoteStopTransactionCommandParam, OCPPRemoteStopTransactionCommandResult, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandParam, OCPPResetCommandResult, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPSetChargingProfileCommandParam, OCPPSetChargingProfileCommandResult, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPUnlockConnectorCommandParam, OCPPUnlockConnectorCommandResult, OCPPUpdateFirmwareCommandParam } from '../../../types/ocpp/OCPPClient';
 
 import ChargingStationClient from '../ChargingStationClient';
 import Configuration from '../../../utils/Configuration';
@@ -328,6 +328,174 @@ export default class SoapChargingStationClient extends ChargingStationClient {
     return result;
   }
 
+  public async reserveNow(params: OCPPReserveNowCommandParam): Promise<OCPPReserveNowCommandResult> {
+    // Init SOAP Headers with the action
+    this.initSoapHeaders(Command.RESERVE_NOW);
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_RESERVE_NOW,
+      [params, { headers: this.client.getSoapHeaders() }]);
+    // Execute
+    const { error, result, envelope } = await this.client.ReserveNow({
+      'reserveNowRequest': params
+    });
+    if (error) {
+      // Log
+      await Logging.logError({
+        tenantID: this.tenantID,
+        action: ServerAction.CHARGING_STATION_RESERVE_NOW,
+        source: this.chargingStation.id,
+        module: MODULE_NAME, method: 'reserveNow',
+        message: `Error when trying to reserve the connector '${params.connectorId}': ${error.message as string}`,
+        detailedMessages: [
+          { 'stack': error.stack },
+          { result },
+          { envelope }
+        ]
+      });
+      throw error;
+    }
+    // Log
+    await Logging.logChargingStationClientReceiveAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_RESERVE_NOW, [
+      { result },
+      { envelope }
+    ]);
+    return result;
+  }
+
+  public async cancelReservation(params: OCPPCancelReservationCommandParam): Promise<OCPPCancelReservationCommandResult> {
+    // Init SOAP Headers with the action
+    this.initSoapHeaders(Command.CANCEL_RESERVATION);
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_CANCEL_RESERVATION,
+      [params, { headers: this.client.getSoapHeaders() }]);
+    // Execute
+    const { error, result, envelope } = await this.client.CancelReservation({
+      'cancelReservationRequest': params
+    });
+    if (error) {
+      // Log
+      await Logging.logError({
+        tenantID: this.tenantID,
+        action: ServerAction.CHARGING_STATION_CANCEL_RESERVATION,
+        source: this.chargingStation.id,
+        module: MODULE_NAME, method: 'cancelReservation',
+        message: `Error when trying to cancel the reservation ID ${params.reservationId}: ${error.message as string}`,
+        detailedMessages: [
+          { 'stack': error.stack },
+          { result },
+          { envelope }
+        ]
+      });
+      throw error;
+    }
+    // Log
+    await Logging.logChargingStationClientReceiveAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_CANCEL_RESERVATION, [
+      { result },
+      { envelope }
+    ]);
+    return result;
+  }
+
+  public async sendLocalList(params: OCPPSendLocalListCommandParam): Promise<OCPPSendLocalListCommandResult> {
+    // Init SOAP Headers with the action
+    this.initSoapHeaders(Command.SEND_LOCAL_LIST);
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+      [params, { headers: this.client.getSoapHeaders() }]);
+    // Execute
+    const { error, result, envelope } = await this.client.SendLocalList({
+      'sendLocalListRequest': params
+    });
+    if (error) {
+      // Log
+      await Logging.logError({
+        tenantID: this.tenantID,
+        action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+        source: this.chargingStation.id,
+        module: MODULE_NAME, method: 'sendLocalList',
+        message: `Error when trying to send the local list version ${params.listVersion}: ${error.message as string}`,
+        detailedMessages: [
+          { 'stack': error.stack },
+          { result },
+          { envelope }
+        ]
+      });
+      throw error;
+    }
+    // Log
+    await Logging.logChargingStationClientReceiveAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_SEND_LOCAL_LIST, [
+      { result },
+      { envelope }
+    ]);
+    return result;
+  }
+
+  public async getLocalListVersion(): Promise<OCPPGetLocalListVersionCommandResult> {
+    // Init SOAP Headers with the action
+    this.initSoapHeaders(Command.GET_LOCAL_LIST_VERSION);
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_GET_LOCAL_LIST_VERSION,
+      { headers: this.client.getSoapHeaders() });
+    // Execute
+    const { error, result, envelope } = await this.client.GetLocalListVersion({ getLocalListVersionRequest: {} });
+    if (error) {
+      // Log
+      await Logging.logError({
+        tenantID: this.tenantID,
+        action: ServerAction.CHARGING_STATION_GET_LOCAL_LIST_VERSION,
+        source: this.chargingStation.id,
+        module: MODULE_NAME, method: 'getLocalListVersion',
+        message: `Error when trying to get the local list version: ${error.message as string}`,
+        detailedMessages: [
+          { 'stack': error.stack },
+          { result },
+          { envelope }
+        ]
+      });
+      throw error;
+    }
+    // Log
+    await Logging.logChargingStationClientReceiveAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_GET_LOCAL_LIST_VERSION, [
+      { result },
+      { envelope }
+    ]);
+    return result;
+  }
+
+  public async triggerMessage(params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult> {
+    // Init SOAP Headers with the action
+    this.initSoapHeaders(Command.TRIGGER_MESSAGE);
+    // Log
+    await Logging.logChargingStationClientSendAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_TRIGGER_MESSAGE,
+      [params, { headers: this.client.getSoapHeaders() }]);
+    // Execute
+    const { error, result, envelope } = await this.client.TriggerMessage({
+      'triggerMessageRequest': params
+    });
+    if (error) {
+      // Log
+      await Logging.logError({
+        tenantID: this.tenantID,
+        action: ServerAction.CHARGING_STATION_TRIGGER_MESSAGE,
+        source: this.chargingStation.id,
+        module: MODULE_NAME, method: 'triggerMessage',
+        message: `Error when trying to trigger the message '${params.requestedMessage}': ${error.message as string}`,
+        detailedMessages: [
+          { 'stack': error.stack },
+          { result },
+          { envelope }
+        ]
+      });
+      throw error;
+    }
+    // Log
+    await Logging.logChargingStationClientReceiveAction(MODULE_NAME, this.tenantID, this.chargingStation.id, ServerAction.CHARGING_STATION_TRIGGER_MESSAGE, [
+      { result },
+      { envelope }
+    ]);
+    return result;
+  }
+
   public getChargingStation(): ChargingStation {
     return this.chargingStation;
   }
@@ -362,6 +530,26 @@ export default class SoapChargingStationClient extends ChargingStationClient {
     throw new Error('Method not implemented.');
   }
 
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async certificateSigned(params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult> {
+    throw new Error('Method not implemented.');
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async installCertificate(params: OCPPInstallCertificateCommandParam): Promise<OCPPInstallCertificateCommandResult> {
+    throw new Error('Method not implemented.');
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async getInstalledCertificateIds(params: OCPPGetInstalledCertificateIdsCommandParam): Promise<OCPPGetInstalledCertificateIdsCommandResult> {
+    throw new Error('Method not implemented.');
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async deleteCertificate(params: OCPPDeleteCertificateCommandParam): Promise<OCPPDeleteCertificateCommandResult> {
+    throw new Error('Method not implemented.');
+  }
+
   private getWSDLEndpointBaseSecureUrl() {
     return this.wsdlEndpointConfig?.baseSecureUrl;
   }
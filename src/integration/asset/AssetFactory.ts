@@ -5,6 +5,8 @@ import GreencomAssetIntegration from './greencom/GreencomAssetIntegration';
 import IothinkAssetIntegration from './iothink/IothinkAssetIntegration';
 import LacroixAssetIntegration from './lacroix/LacroixAssetIntegration';
 import Logging from '../../utils/Logging';
+import MQTTAssetIntegration from './mqtt/MQTTAssetIntegration';
+import ModbusAssetIntegration from './modbus/ModbusAssetIntegration';
 import SchneiderAssetIntegration from './schneider/SchneiderAssetIntegration';
 import { ServerAction } from '../../types/Server';
 import SettingStorage from '../../storage/mongodb/SettingStorage';
@@ -42,6 +44,12 @@ export default class AssetFactory {
             case AssetConnectionType.LACROIX:
               assetIntegrationImpl = new LacroixAssetIntegration(tenant, settings.asset, foundConnection);
               break;
+            case AssetConnectionType.MODBUS:
+              assetIntegrationImpl = new ModbusAssetIntegration(tenant, settings.asset, foundConnection);
+              break;
+            case AssetConnectionType.MQTT:
+              assetIntegrationImpl = new MQTTAssetIntegration(tenant, settings.asset, foundConnection);
+              break;
           }
           return assetIntegrationImpl;
         }
@@ -0,0 +1,106 @@
+import Consumption, { AbstractCurrentConsumption } from '../../types/Consumption';
+
+import Asset from '../../types/Asset';
+import AssetStorage from '../../storage/mongodb/AssetStorage';
+import ConsumptionStorage from '../../storage/mongodb/ConsumptionStorage';
+import Decimal from 'decimal.js';
+import LockingHelper from '../../locking/LockingHelper';
+import LockingManager from '../../locking/LockingManager';
+import OCPPUtils from '../../server/ocpp/utils/OCPPUtils';
+import SiteArea from '../../types/SiteArea';
+import SmartChargingFactory from '../smart-charging/SmartChargingFactory';
+import Tenant from '../../types/Tenant';
+import TenantComponents from '../../types/TenantComponents';
+import Utils from '../../utils/Utils';
+import moment from 'moment';
+
+export default class AssetUtils {
+  public static async saveAssetConsumptions(tenant: Tenant, asset: Asset, consumptions: AbstractCurrentConsumption[]): Promise<boolean> {
+    // Create helper for site area limit
+    const siteAreaLimitConsumption = {} as Consumption;
+    await OCPPUtils.addSiteLimitationToConsumption(tenant, asset.siteArea, siteAreaLimitConsumption);
+    // Create Consumptions
+    for (const consumption of consumptions) {
+      // Check if last consumption already exists
+      if (asset.lastConsumption?.timestamp && moment(consumption.lastConsumption.timestamp).diff(moment(asset.lastConsumption.timestamp), 'seconds') < 50) {
+        continue;
+      }
+      // Create Consumption to save
+      const consumptionToSave: Consumption = {
+        startedAt: asset.lastConsumption?.timestamp ? asset.lastConsumption.timestamp : moment(consumption.lastConsumption.timestamp).subtract(1, 'minutes').toDate(),
+        endedAt: consumption.lastConsumption.timestamp,
+        assetID: asset.id,
+        siteAreaID: asset.siteAreaID,
+        siteID: asset.siteArea.siteID,
+        cumulatedConsumptionWh: consumption.currentConsumptionWh,
+        cumulatedConsumptionAmps: Math.floor(consumption.currentConsumptionWh / asset.siteArea.voltage),
+        instantAmps: consumption.currentInstantAmps,
+        instantWatts: consumption.currentInstantWatts,
+        stateOfCharge: consumption.currentStateOfCharge,
+        limitSiteAreaWatts: siteAreaLimitConsumption.limitSiteAreaWatts,
+        limitSiteAreaAmps: siteAreaLimitConsumption.limitSiteAreaAmps,
+        limitSiteAreaSource: siteAreaLimitConsumption.limitSiteAreaSource,
+        smartChargingActive: siteAreaLimitConsumption.smartChargingActive,
+      };
+      // Save Consumption
+      await ConsumptionStorage.saveConsumption(tenant.id, consumptionToSave);
+      // Set Consumption to Asset
+      AssetUtils.assignAssetConsumption(asset, consumption);
+    }
+    // Save Asset
+    await AssetStorage.saveAsset(tenant, asset);
+    // Check if variation since last smart charging run exceeds the variation threshold
+    return Utils.isTenantComponentActive(tenant, TenantComponents.SMART_CHARGING) && AssetUtils.checkVariationSinceLastSmartChargingRun(asset);
+  }
+
+  public static async triggerSmartCharging(tenant: Tenant, siteArea: SiteArea): Promise<void> {
+    const siteAreaLock = await LockingHelper.acquireSiteAreaSmartChargingLock(tenant.id, siteArea, 30);
+    if (siteAreaLock) {
+      try {
+        const smartCharging = await SmartChargingFactory.getSmartChargingImpl(tenant);
+        if (smartCharging) {
+          await smartCharging.computeAndApplyChargingProfiles(siteArea);
+        }
+      } finally {
+        // Release lock
+        await LockingManager.release(siteAreaLock);
+      }
+    }
+  }
+
+  private static checkVariationSinceLastSmartChargingRun(asset: Asset): boolean {
+    // Check if smart charging active for site area
+    if (asset.siteArea?.smartCharging) {
+      // Calculate consumption variation since last smart charging run
+      const consumptionVariation = asset.currentInstantWatts - asset.powerWattsLastSmartChargingRun;
+      if (consumptionVariation === 0 || !(asset.variationThresholdPercent > 0)) {
+        return false;
+      }
+      // Calculate the variation threshold in Watts
+      const variationThreshold = new Decimal(asset.staticValueWatt).mul(asset.variationThresholdPercent / 100).toNumber();
+      if (variationThreshold < Math.abs(consumptionVariation)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private static assignAssetConsumption(asset: Asset, consumption: AbstractCurrentConsumption): void {
+    // Assign
+    asset.lastConsumption = consumption.lastConsumption;
+    asset.currentConsumptionWh = consumption.currentConsumptionWh;
+    asset.currentInstantAmps = consumption.currentInstantAmps;
+    asset.currentInstantAmpsL1 = consumption.currentInstantAmpsL1;
+    asset.currentInstantAmpsL2 = consumption.currentInstantAmpsL2;
+    asset.currentInstantAmpsL3 = consumption.currentInstantAmpsL3;
+    asset.currentInstantVolts = consumption.currentInstantVolts;
+    asset.currentInstantVoltsL1 = consumption.currentInstantVoltsL1;
+    asset.currentInstantVoltsL2 = consumption.currentInstantVoltsL2;
+    asset.currentInstantVoltsL3 = consumption.currentInstantVoltsL3;
+    asset.currentInstantWatts = consumption.currentInstantWatts;
+    asset.currentInstantWattsL1 = consumption.currentInstantWattsL1;
+    asset.currentInstantWattsL2 = consumption.currentInstantWattsL2;
+    asset.currentInstantWattsL3 = consumption.currentInstantWattsL3;
+    asset.currentStateOfCharge = consumption.currentStateOfCharge;
+  }
+}
@@ -0,0 +1,242 @@
+import Asset, { AssetType } from '../../../types/Asset';
+import { AssetConnectionSetting, AssetModbusDataType, AssetModbusRegister, AssetModbusRegisterType, AssetModbusRegisters, AssetSetting } from '../../../types/Setting';
+
+import { AbstractCurrentConsumption } from '../../../types/Consumption';
+import AssetIntegration from '../AssetIntegration';
+import BackendError from '../../../exception/BackendError';
+import Constants from '../../../utils/Constants';
+import Logging from '../../../utils/Logging';
+import ModbusRTU from 'modbus-serial';
+import { ServerAction } from '../../../types/Server';
+import Tenant from '../../../types/Tenant';
+import Utils from '../../../utils/Utils';
+
+const MODULE_NAME = 'ModbusAssetIntegration';
+
+const MODBUS_DEFAULT_PORT = 502;
+const MODBUS_TIMEOUT_MILLIS = 5000;
+
+export default class ModbusAssetIntegration extends AssetIntegration<AssetSetting> {
+  public constructor(tenant: Tenant, settings: AssetSetting, connection: AssetConnectionSetting) {
+    super(tenant, settings, connection);
+  }
+
+  public async checkConnection(): Promise<void> {
+    const modbusClient = await this.connect();
+    this.close(modbusClient);
+  }
+
+  public async retrieveConsumptions(asset: Asset, manualCall: boolean): Promise<AbstractCurrentConsumption[]> {
+    // Check if refresh interval of connection is exceeded
+    if (!manualCall && !this.checkIfIntervalExceeded(asset)) {
+      return [];
+    }
+    const unitID = this.getUnitID(asset);
+    const modbusClient = await this.connect();
+    try {
+      // Poll the configured registers
+      const values: Partial<Record<keyof AssetModbusRegisters, number>> = {};
+      for (const [registerName, register] of Object.entries(this.connection.modbusConnection.registers ?? {})) {
+        if (register) {
+          values[registerName as keyof AssetModbusRegisters] = await this.readRegisterValue(modbusClient, unitID, register);
+        }
+      }
+      await Logging.logDebug({
+        tenantID: this.tenant.id,
+        source: Constants.CENTRAL_SERVER,
+        action: ServerAction.RETRIEVE_ASSET_CONSUMPTION,
+        message: `${asset.name} > Modbus device has been polled successfully`,
+        module: MODULE_NAME, method: 'retrieveConsumption',
+        detailedMessages: { unitID, values }
+      });
+      return this.filterConsumptionRequest(asset, values);
+    } catch (error) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'retrieveConsumption',
+        action: ServerAction.RETRIEVE_ASSET_CONSUMPTION,
+        message: 'Error while retrieving the asset consumption',
+        detailedMessages: { url: this.connection.url, unitID, error: error.stack, asset }
+      });
+    } finally {
+      this.close(modbusClient);
+    }
+  }
+
+  private filterConsumptionRequest(asset: Asset, values: Partial<Record<keyof AssetModbusRegisters, number>>): AbstractCurrentConsumption[] {
+    const consumption = {} as AbstractCurrentConsumption;
+    const energyDirection = asset.assetType === AssetType.PRODUCTION ? -1 : 1;
+    // Energy: the meter index is the imported minus the exported one
+    if (!Utils.isNullOrUndefined(values.importedEnergyWh) || !Utils.isNullOrUndefined(values.exportedEnergyWh)) {
+      // Keep the raw meter index, the direction only applies to the delta
+      const meterIndexWh = (values.importedEnergyWh ?? 0) - (values.exportedEnergyWh ?? 0);
+      if (asset.lastConsumption) {
+        const consumptionWh = (meterIndexWh - asset.lastConsumption.value) * energyDirection;
+        if (consumptionWh > 0) {
+          consumption.currentConsumptionWh = consumptionWh;
+        }
+      }
+      consumption.lastConsumption = {
+        value: meterIndexWh,
+        timestamp: new Date()
+      };
+    } else {
+      consumption.lastConsumption = {
+        value: asset.lastConsumption?.value ?? 0,
+        timestamp: new Date()
+      };
+    }
+    // Power
+    consumption.currentInstantWattsL1 = this.getPowerValue(values.instantWattsL1, energyDirection);
+    consumption.currentInstantWattsL2 = this.getPowerValue(values.instantWattsL2, energyDirection);
+    consumption.currentInstantWattsL3 = this.getPowerValue(values.instantWattsL3, energyDirection);
+    consumption.currentInstantWatts = !Utils.isNullOrUndefined(values.instantWatts) ? values.instantWatts * energyDirection :
+      (consumption.currentInstantWattsL1 ?? 0) + (consumption.currentInstantWattsL2 ?? 0) + (consumption.currentInstantWattsL3 ?? 0);
+    // Amperage
+    if (asset.siteArea?.voltage) {
+      consumption.currentInstantAmps = Utils.createDecimal(consumption.currentInstantWatts).div(asset.siteArea.voltage).toNumber();
+      consumption.currentInstantAmpsL1 = this.getAmpsValue(consumption.currentInstantWattsL1, asset.siteArea.voltage);
+      consumption.currentInstantAmpsL2 = this.getAmpsValue(consumption.currentInstantWattsL2, asset.siteArea.voltage);
+      consumption.currentInstantAmpsL3 = this.getAmpsValue(consumption.currentInstantWattsL3, asset.siteArea.voltage);
+    }
+    // State of charge
+    if (!Utils.isNullOrUndefined(values.stateOfCharge)) {
+      consumption.currentStateOfCharge = values.stateOfCharge;
+    }
+    return [consumption];
+  }
+
+  private getPowerValue(watts: number, energyDirection: number): number {
+    return !Utils.isNullOrUndefined(watts) ? watts * energyDirection : null;
+  }
+
+  private getAmpsValue(watts: number, voltage: number): number {
+    return !Utils.isNullOrUndefined(watts) ? Utils.createDecimal(watts).div(voltage).toNumber() : null;
+  }
+
+  private async readRegisterValue(modbusClient: ModbusRTU, unitID: number, register: AssetModbusRegister): Promise<number> {
+    const dataType = register.dataType ?? AssetModbusDataType.UINT16;
+    const registers = await this.readRegisters(modbusClient, unitID, register.registerType, register.address, this.getRegisterQuantity(dataType));
+    let value: number;
+    switch (dataType) {
+      case AssetModbusDataType.INT16:
+        value = registers.readInt16BE(0);
+        // SunSpec not implemented value
+        if (value === -0x8000) {
+          return null;
+        }
+        break;
+      case AssetModbusDataType.UINT16:
+        value = registers.readUInt16BE(0);
+        if (value === 0xFFFF) {
+          return null;
+        }
+        break;
+      case AssetModbusDataType.INT32:
+        value = registers.readInt32BE(0);
+        if (value === -0x80000000) {
+          return null;
+        }
+        break;
+      case AssetModbusDataType.UINT32:
+        value = registers.readUInt32BE(0);
+        if (value === 0xFFFFFFFF) {
+          return null;
+        }
+        break;
+      case AssetModbusDataType.FLOAT32:
+        value = registers.readFloatBE(0);
+        if (!Number.isFinite(value)) {
+          return null;
+        }
+        break;
+    }
+    // SunSpec scale factor
+    if (!Utils.isNullOrUndefined(register.scaleFactorAddress)) {
+      const scaleFactor = (await this.readRegisters(modbusClient, unitID, register.registerType, register.scaleFactorAddress, 1)).readInt16BE(0);
+      if (scaleFactor === -0x8000) {
+        return null;
+      }
+      value *= Math.pow(10, scaleFactor);
+    }
+    if (!Utils.isNullOrUndefined(register.scaleFactor)) {
+      value *= register.scaleFactor;
+    }
+    return value;
+  }
+
+  private async readRegisters(modbusClient: ModbusRTU, unitID: number, registerType: AssetModbusRegisterType, address: number, quantity: number): Promise<Buffer> {
+    // Pending requests are rejected on time out, do not send new ones once the socket is closed
+    if (!modbusClient.isOpen) {
+      throw new Error(`Connection to the Modbus device '${this.connection.url}' is closed`);
+    }
+    modbusClient.setID(unitID);
+    const result = registerType === AssetModbusRegisterType.INPUT ?
+      await modbusClient.readInputRegisters(address, quantity) :
+      await modbusClient.readHoldingRegisters(address, quantity);
+    return result.buffer;
+  }
+
+  private getRegisterQuantity(dataType: AssetModbusDataType): number {
+    switch (dataType) {
+      case AssetModbusDataType.INT32:
+      case AssetModbusDataType.UINT32:
+      case AssetModbusDataType.FLOAT32:
+        return 2;
+      default:
+        return 1;
+    }
+  }
+
+  private getUnitID(asset: Asset): number {
+    // Several meters can be behind the same gateway
+    const meterUnitID = Utils.convertToInt(asset.meterID);
+    if (meterUnitID > 0 && meterUnitID < 248) {
+      return meterUnitID;
+    }
+    return this.connection.modbusConnection.unitID ?? 1;
+  }
+
+  private async connect(): Promise<ModbusRTU> {
+    // Check if connection is initialized
+    this.checkConnectionIsProvided();
+    // Url like tcp://192.168.1.10:502
+    const url = new URL(this.connection.url.includes('://') ? this.connection.url : `tcp://${this.connection.url}`);
+    const modbusClient = new ModbusRTU();
+    // Time out of each request
+    modbusClient.setTimeout(MODBUS_TIMEOUT_MILLIS);
+    try {
+      await Utils.executePromiseWithTimeout(MODBUS_TIMEOUT_MILLIS,
+        modbusClient.connectTCP(url.hostname, { port: url.port ? Utils.convertToInt(url.port) : MODBUS_DEFAULT_PORT }),
+        `Time out error (${MODBUS_TIMEOUT_MILLIS / 1000}s) when connecting to the Modbus device`);
+    } catch (error) {
+      this.close(modbusClient);
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'connect',
+        action: ServerAction.CHECK_CONNECTION,
+        message: `Cannot connect to the Modbus device with the connection URL '${this.connection.url}'`,
+        detailedMessages: { error: error.stack }
+      });
+    }
+    return modbusClient;
+  }
+
+  private close(modbusClient: ModbusRTU): void {
+    modbusClient.close(() => null);
+  }
+
+  private checkConnectionIsProvided(): void {
+    if (!this.connection?.modbusConnection) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'checkConnectionIsProvided',
+        action: ServerAction.CHECK_CONNECTION,
+        message: 'No connection provided'
+      });
+    }
+  }
+}
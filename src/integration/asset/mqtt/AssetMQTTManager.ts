@@ -0,0 +1,197 @@
+import { AssetConnectionSetting, AssetConnectionType, AssetSetting } from '../../../types/Setting';
+
+import AssetMQTTConfiguration from '../../../types/configuration/AssetMQTTConfiguration';
+import AssetStorage from '../../../storage/mongodb/AssetStorage';
+import AssetUtils from '../AssetUtils';
+import Configuration from '../../../utils/Configuration';
+import Constants from '../../../utils/Constants';
+import LockingHelper from '../../../locking/LockingHelper';
+import LockingManager from '../../../locking/LockingManager';
+import Logging from '../../../utils/Logging';
+import MQTTAssetIntegration from './MQTTAssetIntegration';
+import { MqttClient } from 'mqtt';
+import { ServerAction } from '../../../types/Server';
+import SettingStorage from '../../../storage/mongodb/SettingStorage';
+import Tenant from '../../../types/Tenant';
+import TenantComponents from '../../../types/TenantComponents';
+import TenantStorage from '../../../storage/mongodb/TenantStorage';
+import Utils from '../../../utils/Utils';
+
+const MODULE_NAME = 'AssetMQTTManager';
+
+// Wait for the Asset being processed by another message or server
+const ASSET_LOCK_TIMEOUT_SECS = 30;
+
+interface AssetMQTTSubscriber {
+  tenant: Tenant;
+  connection: AssetConnectionSetting;
+  mqttIntegration: MQTTAssetIntegration;
+  mqttClient: MqttClient;
+  // Assets publishing on each topic
+  topicAssetIDs: Map<string, string[]>;
+}
+
+export default class AssetMQTTManager {
+  private static assetMQTTConfig: AssetMQTTConfiguration;
+  private static subscribers = new Map<string, AssetMQTTSubscriber>();
+  private static checkInProgress = false;
+  // Messages of each Asset are processed in sequence
+  private static assetMessageQueues = new Map<string, Promise<void>>();
+
+  public static async init(): Promise<void> {
+    // Get the conf
+    AssetMQTTManager.assetMQTTConfig = Configuration.getAssetMQTTConfig();
+    // Active?
+    if (AssetMQTTManager.assetMQTTConfig.active) {
+      await AssetMQTTManager.checkSubscribers();
+      // Follow the changes of settings and Assets
+      setInterval(() => void AssetMQTTManager.checkSubscribers(), AssetMQTTManager.assetMQTTConfig.checkIntervalSecs * 1000);
+    }
+  }
+
+  public static async checkSubscribers(): Promise<void> {
+    // Connections can take longer than the check interval
+    if (AssetMQTTManager.checkInProgress) {
+      return;
+    }
+    AssetMQTTManager.checkInProgress = true;
+    try {
+      await AssetMQTTManager.checkTenantSubscribers();
+    } finally {
+      AssetMQTTManager.checkInProgress = false;
+    }
+  }
+
+  private static async checkTenantSubscribers(): Promise<void> {
+    const subscriberKeys: string[] = [];
+    const tenants = await TenantStorage.getTenants({}, Constants.DB_PARAMS_MAX_LIMIT);
+    for (const tenant of tenants.result) {
+      if (!Utils.isTenantComponentActive(tenant, TenantComponents.ASSET)) {
+        continue;
+      }
+      try {
+        const assetSettings = await SettingStorage.getAssetsSettings(tenant.id);
+        const mqttConnections = (assetSettings?.asset?.connections ?? []).filter((connection) => connection.type === AssetConnectionType.MQTT);
+        if (Utils.isEmptyArray(mqttConnections)) {
+          continue;
+        }
+        const assets = await AssetStorage.getAssets(tenant, { dynamicOnly: true }, Constants.DB_PARAMS_MAX_LIMIT, ['id', 'connectionID', 'meterID']);
+        for (const connection of mqttConnections) {
+          // The Meter ID of the Asset is its topic
+          const topicAssetIDs = new Map<string, string[]>();
+          for (const asset of assets.result) {
+            if (asset.connectionID === connection.id && asset.meterID) {
+              topicAssetIDs.set(asset.meterID, [...topicAssetIDs.get(asset.meterID) ?? [], asset.id]);
+            }
+          }
+          subscriberKeys.push(AssetMQTTManager.getSubscriberKey(tenant, connection));
+          try {
+            await AssetMQTTManager.checkSubscriber(tenant, assetSettings.asset, connection, topicAssetIDs);
+          } catch (error) {
+            await Logging.logActionExceptionMessage(tenant.id, ServerAction.ASSET_MQTT, error);
+          }
+        }
+      } catch (error) {
+        await Logging.logActionExceptionMessage(tenant.id, ServerAction.ASSET_MQTT, error);
+      }
+    }
+    // Removed connections
+    for (const [subscriberKey, subscriber] of AssetMQTTManager.subscribers) {
+      if (!subscriberKeys.includes(subscriberKey)) {
+        subscriber.mqttIntegration.close(subscriber.mqttClient);
+        AssetMQTTManager.subscribers.delete(subscriberKey);
+      }
+    }
+  }
+
+  private static async checkSubscriber(tenant: Tenant, assetSetting: AssetSetting, connection: AssetConnectionSetting,
+      topicAssetIDs: Map<string, string[]>): Promise<void> {
+    const subscriberKey = AssetMQTTManager.getSubscriberKey(tenant, connection);
+    let subscriber = AssetMQTTManager.subscribers.get(subscriberKey);
+    // Settings changed, lost connections are restored by the client
+    if (subscriber && Utils.convertToDate(subscriber.connection.timestamp)?.getTime() !== Utils.convertToDate(connection.timestamp)?.getTime()) {
+      subscriber.mqttIntegration.close(subscriber.mqttClient);
+      AssetMQTTManager.subscribers.delete(subscriberKey);
+      subscriber = null;
+    }
+    if (!subscriber) {
+      const mqttIntegration = new MQTTAssetIntegration(tenant, assetSetting, connection);
+      const newSubscriber: AssetMQTTSubscriber = {
+        tenant, connection, mqttIntegration, mqttClient: null, topicAssetIDs: new Map(),
+      };
+      newSubscriber.mqttClient = await mqttIntegration.connect(AssetMQTTManager.assetMQTTConfig.keepAliveSecs,
+        (topic: string, payload: Buffer) => AssetMQTTManager.queueMessage(newSubscriber, topic, payload),
+        (error: Error) => void Logging.logActionExceptionMessage(tenant.id, ServerAction.ASSET_MQTT, error));
+      subscriber = newSubscriber;
+      AssetMQTTManager.subscribers.set(subscriberKey, subscriber);
+      await Logging.logInfo({
+        tenantID: tenant.id,
+        action: ServerAction.ASSET_MQTT,
+        module: MODULE_NAME, method: 'checkSubscriber',
+        message: `Connected to the MQTT broker of the Asset connection '${connection.name}'`
+      });
+    }
+    // Follow the Assets
+    const removedTopics = [...subscriber.topicAssetIDs.keys()].filter((topic) => !topicAssetIDs.has(topic));
+    const addedTopics = [...topicAssetIDs.keys()].filter((topic) => !subscriber.topicAssetIDs.has(topic));
+    if (!Utils.isEmptyArray(removedTopics)) {
+      await subscriber.mqttIntegration.unsubscribe(subscriber.mqttClient, removedTopics);
+    }
+    if (!Utils.isEmptyArray(addedTopics)) {
+      await subscriber.mqttIntegration.subscribe(subscriber.mqttClient, addedTopics);
+    }
+    subscriber.topicAssetIDs = topicAssetIDs;
+  }
+
+  private static queueMessage(subscriber: AssetMQTTSubscriber, topic: string, payload: Buffer): void {
+    for (const assetID of subscriber.topicAssetIDs.get(topic) ?? []) {
+      const queueKey = `${subscriber.tenant.id}|${assetID}`;
+      const previousMessage = AssetMQTTManager.assetMessageQueues.get(queueKey) ?? Promise.resolve();
+      const message = previousMessage.then(async () => AssetMQTTManager.handleMessage(subscriber, assetID, payload));
+      AssetMQTTManager.assetMessageQueues.set(queueKey, message);
+      void message.then(() => {
+        // Last message of the Asset
+        if (AssetMQTTManager.assetMessageQueues.get(queueKey) === message) {
+          AssetMQTTManager.assetMessageQueues.delete(queueKey);
+        }
+      });
+    }
+  }
+
+  private static async handleMessage(subscriber: AssetMQTTSubscriber, assetID: string, payload: Buffer): Promise<void> {
+    const tenant = subscriber.tenant;
+    try {
+      const asset = await AssetStorage.getAsset(tenant, assetID, { withSiteArea: true });
+      if (!asset?.siteArea) {
+        return;
+      }
+      const assetLock = await LockingHelper.acquireAssetRetrieveConsumptionsLock(tenant.id, asset, ASSET_LOCK_TIMEOUT_SECS);
+      if (!assetLock) {
+        await Logging.logWarning({
+          tenantID: tenant.id,
+          action: ServerAction.ASSET_CONSUMPTION,
+          module: MODULE_NAME, method: 'handleMessage',
+          message: `${asset.name} > Consumption published on topic '${asset.meterID}' has been ignored, the Asset is locked`,
+          detailedMessages: { payload: payload.toString('utf8') }
+        });
+        return;
+      }
+      try {
+        const consumption = subscriber.mqttIntegration.buildConsumption(asset, payload);
+        // Save the Consumption and check the variation since last smart charging run
+        if (await AssetUtils.saveAssetConsumptions(tenant, asset, [consumption])) {
+          await AssetUtils.triggerSmartCharging(tenant, asset.siteArea);
+        }
+      } finally {
+        // Release the lock
+        await LockingManager.release(assetLock);
+      }
+    } catch (error) {
+      await Logging.logActionExceptionMessage(tenant.id, ServerAction.ASSET_CONSUMPTION, error);
+    }
+  }
+
+  private static getSubscriberKey(tenant: Tenant, connection: AssetConnectionSetting): string {
+    return `${tenant.id}|${connection.id}`;
+  }
+}
@@ -0,0 +1,196 @@
+import { AssetConnectionSetting, AssetSetting } from '../../../types/Setting';
+import mqtt, { ISubscriptionGrant, MqttClient } from 'mqtt';
+
+import { AbstractCurrentConsumption } from '../../../types/Consumption';
+import Asset from '../../../types/Asset';
+import AssetIntegration from '../AssetIntegration';
+import BackendError from '../../../exception/BackendError';
+import Constants from '../../../utils/Constants';
+import Cypher from '../../../utils/Cypher';
+import { ServerAction } from '../../../types/Server';
+import Tenant from '../../../types/Tenant';
+import Utils from '../../../utils/Utils';
+import _ from 'lodash';
+import moment from 'moment';
+
+const MODULE_NAME = 'MQTTAssetIntegration';
+
+const MQTT_TIMEOUT_MILLIS = 5000;
+const MQTT_RECONNECT_PERIOD_MILLIS = 10000;
+
+export default class MQTTAssetIntegration extends AssetIntegration<AssetSetting> {
+  public constructor(tenant: Tenant, settings: AssetSetting, connection: AssetConnectionSetting) {
+    super(tenant, settings, connection);
+  }
+
+  public async checkConnection(): Promise<void> {
+    const mqttClient = await this.connect(60, () => null, () => null);
+    this.close(mqttClient);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async retrieveConsumptions(): Promise<AbstractCurrentConsumption[]> {
+    // Consumptions are published by the Assets
+    return [];
+  }
+
+  public async connect(keepAliveSecs: number, onMessage: (topic: string, payload: Buffer) => void,
+      onError: (error: Error) => void): Promise<MqttClient> {
+    // Check if connection is initialized
+    this.checkConnectionIsProvided();
+    // Url like mqtt://broker:1883 or mqtts://broker:8883
+    const mqttClient = mqtt.connect(this.connection.url, {
+      // Unique per server instance
+      clientId: `e-mobility-${this.tenant.id}-${this.connection.id}-${Utils.getHostname()}`,
+      username: this.connection.mqttConnection.user,
+      password: this.connection.mqttConnection.password ?
+        await Cypher.decrypt(this.tenant.id, this.connection.mqttConnection.password) : null,
+      keepalive: keepAliveSecs,
+      connectTimeout: MQTT_TIMEOUT_MILLIS,
+      // Lost connections are restored and the topics subscribed again by the client
+      reconnectPeriod: MQTT_RECONNECT_PERIOD_MILLIS,
+    });
+    let onConnect: () => void, onConnectError: (error: Error) => void, onConnectClose: () => void;
+    try {
+      await Utils.executePromiseWithTimeout(MQTT_TIMEOUT_MILLIS, new Promise<void>((resolve, reject) => {
+        onConnect = () => resolve();
+        onConnectError = (error: Error) => reject(error);
+        onConnectClose = () => reject(new Error(`Connection closed by the MQTT broker '${this.connection.url}'`));
+        mqttClient.once('connect', onConnect);
+        mqttClient.once('error', onConnectError);
+        mqttClient.once('close', onConnectClose);
+      }), `Time out error (${MQTT_TIMEOUT_MILLIS / 1000}s) with the MQTT broker '${this.connection.url}'`);
+    } catch (error) {
+      this.close(mqttClient);
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'connect',
+        action: ServerAction.CHECK_CONNECTION,
+        message: `Cannot connect to the MQTT broker with the connection URL '${this.connection.url}'`,
+        detailedMessages: { error: error.stack }
+      });
+    } finally {
+      // Keep the listeners of the client
+      mqttClient.removeListener('connect', onConnect);
+      mqttClient.removeListener('error', onConnectError);
+      mqttClient.removeListener('close', onConnectClose);
+    }
+    mqttClient.on('message', onMessage);
+    mqttClient.on('error', onError);
+    mqttClient.on('offline', () => onError(new Error(`Connection lost with the MQTT broker '${this.connection.url}'`)));
+    return mqttClient;
+  }
+
+  public async subscribe(mqttClient: MqttClient, topics: string[]): Promise<void> {
+    // At least once delivery
+    const grants = await new Promise<ISubscriptionGrant[]>((resolve, reject) => {
+      mqttClient.subscribe(topics.map((topic) => this.getSharedTopic(topic)), { qos: 1 },
+        (error, granted) => (error ? reject(error) : resolve(granted)));
+    });
+    const refusedTopics = grants.filter((grant) => grant.qos === 0x80).map((grant) => grant.topic);
+    if (!Utils.isEmptyArray(refusedTopics)) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'subscribe',
+        action: ServerAction.ASSET_MQTT,
+        message: `MQTT broker '${this.connection.url}' refused the subscription to '${refusedTopics.join(', ')}'`
+      });
+    }
+  }
+
+  public async unsubscribe(mqttClient: MqttClient, topics: string[]): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      mqttClient.unsubscribe(topics.map((topic) => this.getSharedTopic(topic)), {},
+        (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  public close(mqttClient: MqttClient): void {
+    // Ignore the errors of the closed connection
+    mqttClient.on('error', () => null);
+    mqttClient.end(true);
+  }
+
+  public buildConsumption(asset: Asset, payload: Buffer): AbstractCurrentConsumption {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(payload.toString('utf8'));
+    } catch (error) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'buildConsumption',
+        action: ServerAction.ASSET_CONSUMPTION,
+        message: `${asset.name} > Invalid Json payload published on topic '${asset.meterID}'`,
+        detailedMessages: { payload: payload.toString('utf8'), error: error.stack }
+      });
+    }
+    const payloadPaths = this.connection.mqttConnection.payloadPaths ?? {};
+    const consumption = {} as AbstractCurrentConsumption;
+    const timestamp = payloadPaths.timestamp ? moment(_.get(data, payloadPaths.timestamp) as string) : null;
+    consumption.lastConsumption = {
+      value: 0,
+      timestamp: timestamp?.isValid() ? timestamp.toDate() : new Date()
+    };
+    // Power
+    consumption.currentInstantWattsL1 = this.getPayloadValue(data, payloadPaths.instantWattsL1);
+    consumption.currentInstantWattsL2 = this.getPayloadValue(data, payloadPaths.instantWattsL2);
+    consumption.currentInstantWattsL3 = this.getPayloadValue(data, payloadPaths.instantWattsL3);
+    consumption.currentInstantWatts = this.getPayloadValue(data, payloadPaths.instantWatts) ??
+      (consumption.currentInstantWattsL1 ?? 0) + (consumption.currentInstantWattsL2 ?? 0) + (consumption.currentInstantWattsL3 ?? 0);
+    // Amperage
+    consumption.currentInstantAmpsL1 = this.getPayloadValue(data, payloadPaths.instantAmpsL1) ?? this.getAmpsValue(asset, consumption.currentInstantWattsL1);
+    consumption.currentInstantAmpsL2 = this.getPayloadValue(data, payloadPaths.instantAmpsL2) ?? this.getAmpsValue(asset, consumption.currentInstantWattsL2);
+    consumption.currentInstantAmpsL3 = this.getPayloadValue(data, payloadPaths.instantAmpsL3) ?? this.getAmpsValue(asset, consumption.currentInstantWattsL3);
+    consumption.currentInstantAmps = this.getPayloadValue(data, payloadPaths.instantAmps) ?? this.getAmpsValue(asset, consumption.currentInstantWatts);
+    // Energy
+    const meterValueWh = this.getPayloadValue(data, payloadPaths.consumptionWh);
+    if (!Utils.isNullOrUndefined(meterValueWh)) {
+      if (asset.lastConsumption && asset.lastConsumption.value < meterValueWh) {
+        consumption.currentConsumptionWh = meterValueWh - asset.lastConsumption.value;
+      }
+      consumption.lastConsumption.value = meterValueWh;
+    } else {
+      // Estimated with the power since the last consumption
+      const timePeriodMins = asset.lastConsumption?.timestamp ?
+        moment(consumption.lastConsumption.timestamp).diff(moment(asset.lastConsumption.timestamp), 'minutes', true) : 1;
+      consumption.currentConsumptionWh = Utils.createDecimal(consumption.currentInstantWatts).mul(timePeriodMins).div(60).toNumber();
+      consumption.lastConsumption.value = consumption.currentConsumptionWh;
+    }
+    // State of charge
+    consumption.currentStateOfCharge = this.getPayloadValue(data, payloadPaths.stateOfCharge);
+    return consumption;
+  }
+
+  private getPayloadValue(data: Record<string, unknown>, payloadPath: string): number {
+    if (!payloadPath) {
+      return null;
+    }
+    const value = _.get(data, payloadPath);
+    return !Utils.isNullOrUndefined(value) ? Utils.convertToFloat(value) : null;
+  }
+
+  private getAmpsValue(asset: Asset, watts: number): number {
+    return !Utils.isNullOrUndefined(watts) && asset.siteArea?.voltage ?
+      Utils.createDecimal(watts).div(asset.siteArea.voltage).toNumber() : null;
+  }
+
+  private getSharedTopic(topic: string): string {
+    // Each message is delivered to only one of the server instances
+    return `$share/e-mobility-${this.tenant.id}-${this.connection.id}/${topic}`;
+  }
+
+  private checkConnectionIsProvided(): void {
+    if (!this.connection?.mqttConnection) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'checkConnectionIsProvided',
+        action: ServerAction.CHECK_CONNECTION,
+        message: 'No connection provided'
+      });
+    }
+  }
+}
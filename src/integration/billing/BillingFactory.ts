@@ -1,5 +1,6 @@
 import BillingIntegration from './BillingIntegration';
 import { BillingSettingsType } from '../../types/Setting';
+import LocalBillingIntegration from './local/LocalBillingIntegration';
 import Logging from '../../utils/Logging';
 import { ServerAction } from '../../types/Server';
 import SettingStorage from '../../storage/mongodb/SettingStorage';
@@ -23,6 +24,9 @@ export default class BillingFactory {
           case BillingSettingsType.STRIPE:
             billingIntegrationImpl = StripeBillingIntegration.getInstance(tenant, settings);
             break;
+          case BillingSettingsType.LOCAL_BILLING:
+            billingIntegrationImpl = LocalBillingIntegration.getInstance(tenant, settings);
+            break;
         }
         return billingIntegrationImpl;
       }
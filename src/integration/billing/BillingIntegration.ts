@@ -1,4 +1,4 @@
-import { BillingChargeInvoiceAction, BillingDataTransactionStart, BillingDataTransactionStop, BillingDataTransactionUpdate, BillingInvoice, BillingInvoiceItem, BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingStatus, BillingTax, BillingUser, BillingUserSynchronizeAction } from '../../types/Billing';
+import { BillingAccount, BillingChargeInvoiceAction, BillingCreditNote, BillingDataTransactionStart, BillingDataTransactionStop, BillingDataTransactionUpdate, BillingInvoice, BillingInvoiceItem, BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingStatus, BillingSubscription, BillingSubscriptionStatus, BillingTax, BillingUser, BillingUserSynchronizeAction, BillingWallet, BillingWalletOperation, BillingWalletOperationType } from '../../types/Billing';
 import FeatureToggles, { Feature } from '../../utils/FeatureToggles';
 import Transaction, { StartTransactionErrorCode } from '../../types/Transaction';
 import User, { UserStatus } from '../../types/User';
@@ -9,6 +9,9 @@ import BillingStorage from '../../storage/mongodb/BillingStorage';
 import Constants from '../../utils/Constants';
 import { DataResult } from '../../types/DataResult';
 import { Decimal } from 'decimal.js';
+import I18nManager from '../../utils/I18nManager';
+import LockingHelper from '../../locking/LockingHelper';
+import LockingManager from '../../locking/LockingManager';
 import Logging from '../../utils/Logging';
 import NotificationHandler from '../../notification/NotificationHandler';
 import { Request } from 'express';
@@ -232,7 +235,45 @@ export default abstract class BillingIntegration {
     return actionsDone;
   }
 
+  public async chargeSubscriptions(): Promise<BillingChargeInvoiceAction> {
+    const actionsDone: BillingChargeInvoiceAction = {
+      inSuccess: 0,
+      inError: 0
+    };
+    // Check connection
+    await this.checkConnection();
+    // Fees are charged at the beginning of each period
+    const subscriptions = await BillingStorage.getSubscriptions(this.tenant, {
+      statuses: [BillingSubscriptionStatus.ACTIVE],
+      periodEndBefore: new Date(),
+      withPlan: true,
+      withUser: true,
+    }, Constants.DB_PARAMS_MAX_LIMIT);
+    for (const subscription of subscriptions.result) {
+      try {
+        await this.chargeSubscription(subscription);
+        actionsDone.inSuccess++;
+      } catch (error) {
+        actionsDone.inError++;
+        await Logging.logError({
+          tenantID: this.tenant.id,
+          source: Constants.CENTRAL_SERVER,
+          action: ServerAction.BILLING_PERFORM_OPERATIONS,
+          actionOnUser: subscription.user,
+          module: MODULE_NAME, method: 'chargeSubscriptions',
+          message: `Failed to charge the subscription '${subscription.id}'`,
+          detailedMessages: { error: error.stack }
+        });
+      }
+    }
+    return actionsDone;
+  }
+
   public async sendInvoiceNotification(billingInvoice: BillingInvoice): Promise<boolean> {
+    // Consolidated invoices are not sent to the drivers of the billing account
+    if (billingInvoice.billingAccountID) {
+      return false;
+    }
     try {
       // Do not send notifications for invoices that are not yet finalized!
       if (billingInvoice.status === BillingInvoiceStatus.OPEN || billingInvoice.status === BillingInvoiceStatus.PAID) {
@@ -331,6 +372,426 @@ export default abstract class BillingIntegration {
     }
   }
 
+  public async getWallet(user: User): Promise<BillingWallet> {
+    // Prepaid wallets must be activated in the billing settings
+    if (!this.settings.billing?.isWalletActivated || !user?.id) {
+      return null;
+    }
+    // Sessions of the drivers attached to a billing account are invoiced to the account
+    if (user.billingAccountID) {
+      return null;
+    }
+    return BillingStorage.getWallet(this.tenant, user.id);
+  }
+
+  public async topUpWallet(user: User, amount: number, currency: string, description: string,
+      createdByID: string = null, externalID: string = null): Promise<BillingWalletOperation> {
+    if (!this.settings.billing?.isWalletActivated) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'topUpWallet',
+        action: ServerAction.BILLING_WALLET_TOP_UP,
+        message: 'Prepaid wallets are not activated in the billing settings'
+      });
+    }
+    if (!(amount > 0) || !currency) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'topUpWallet',
+        action: ServerAction.BILLING_WALLET_TOP_UP,
+        message: `Invalid top-up amount '${amount}' '${currency}' - user: '${user.id}'`
+      });
+    }
+    const walletOperation = await this.saveWalletOperation(user.id, BillingWalletOperationType.TOP_UP, amount, currency, {
+      description, externalID, createdBy: createdByID ? { id: createdByID } : null
+    });
+    // The billing provider may notify the same payment several times
+    if (!walletOperation) {
+      const walletOperations = await BillingStorage.getWalletOperations(this.tenant, { externalID }, Constants.DB_PARAMS_SINGLE_RECORD);
+      return walletOperations.result[0];
+    }
+    await Logging.logInfo({
+      tenantID: this.tenant.id,
+      user: createdByID, actionOnUser: user,
+      action: ServerAction.BILLING_WALLET_TOP_UP,
+      module: MODULE_NAME, method: 'topUpWallet',
+      message: `Wallet has been topped up with ${amount} ${currency} - new balance: ${walletOperation.balance} ${walletOperation.currency}`
+    });
+    return walletOperation;
+  }
+
+  public isWalletBalanceSufficient(wallet: BillingWallet): boolean {
+    const minimumBalance = this.settings.billing?.walletMinimumBalance ?? 0;
+    return wallet.balance > 0 && wallet.balance >= minimumBalance;
+  }
+
+  public async creditTransaction(transaction: Transaction, amount: number, reason: string, createdByID: string = null): Promise<BillingCreditNote> {
+    // Only billed sessions can be credited - either invoiced or paid with the wallet
+    if (transaction.billingData?.stop?.status !== BillingStatus.BILLED ||
+        (!transaction.billingData.stop.invoiceID && !transaction.billingData.stop.walletOperationID)) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'creditTransaction',
+        action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+        message: `The session has not been billed - transaction ID: '${transaction.id}'`
+      });
+    }
+    // Concurrent credit notes could exceed the billed amount of the session
+    const lock = await LockingHelper.acquireCreditTransactionLock(this.tenant.id, transaction.id);
+    if (!lock) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'creditTransaction',
+        action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+        message: `Another credit note is being issued for the session - transaction ID: '${transaction.id}'`
+      });
+    }
+    try {
+      // The session cannot be credited more than what has been billed
+      const creditNotes = await BillingStorage.getCreditNotes(this.tenant, { transactionIDs: [transaction.id] });
+      const creditedAmount = creditNotes.reduce((total, creditNote) => total.plus(creditNote.sessionAmount), Utils.createDecimal(0));
+      const remainingAmount = Utils.createDecimal(transaction.stop?.roundedPrice ?? 0).minus(creditedAmount).toNumber();
+      // No amount means the whole session
+      const sessionAmount = Utils.isNullOrUndefined(amount) ? remainingAmount : Utils.truncTo(amount, 2);
+      if (!(sessionAmount > 0) || sessionAmount > remainingAmount) {
+        throw new BackendError({
+          source: Constants.CENTRAL_SERVER,
+          module: MODULE_NAME, method: 'creditTransaction',
+          action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+          message: `Invalid credit note amount '${sessionAmount}' - remaining amount of the session: '${remainingAmount}' - transaction ID: '${transaction.id}'`
+        });
+      }
+      // Sessions paid with the wallet are refunded to the wallet, the other ones by the billing provider
+      const creditNote = transaction.billingData.stop.invoiceID ?
+        await this.creditInvoicedTransaction(transaction, sessionAmount, reason) :
+        await this.refundWalletTransaction(transaction, sessionAmount, reason, createdByID);
+      creditNote.userID = transaction.userID;
+      creditNote.transactionID = transaction.id;
+      creditNote.sessionAmount = sessionAmount;
+      creditNote.reason = reason;
+      creditNote.createdBy = createdByID ? { id: createdByID } : null;
+      creditNote.createdOn = new Date();
+      creditNote.id = await BillingStorage.saveCreditNote(this.tenant, creditNote);
+      // Keep track of it in the session
+      transaction.billingData.creditNotes = [
+        ...creditNotes,
+        creditNote
+      ].map((sessionCreditNote) => ({
+        creditNoteID: sessionCreditNote.id,
+        // eslint-disable-next-line id-blacklist
+        number: sessionCreditNote.number,
+        sessionAmount: sessionCreditNote.sessionAmount,
+        currency: sessionCreditNote.currency,
+        createdOn: sessionCreditNote.createdOn,
+      }));
+      transaction.billingData.lastUpdate = new Date();
+      await TransactionStorage.saveTransactionBillingData(this.tenant.id, transaction.id, transaction.billingData);
+      await Logging.logInfo({
+        tenantID: this.tenant.id,
+        user: createdByID, actionOnUser: transaction.userID,
+        action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+        module: MODULE_NAME, method: 'creditTransaction',
+        message: `Credit note '${creditNote.number ?? creditNote.creditNoteID}' of ${sessionAmount} ${creditNote.currency} has been issued - transaction ID: '${transaction.id}'`
+      });
+      return creditNote;
+    } finally {
+      await LockingManager.release(lock);
+    }
+  }
+
+  protected async getBillingAccount(user: User): Promise<BillingAccount> {
+    if (!user?.billingAccountID) {
+      return null;
+    }
+    const billingAccount = await BillingStorage.getBillingAccount(this.tenant, user.billingAccountID.toString());
+    if (!billingAccount) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'getBillingAccount',
+        action: ServerAction.BILLING_TRANSACTION,
+        message: `Billing account '${user.billingAccountID.toString()}' does not exist - user: '${user.id}'`
+      });
+    }
+    return billingAccount;
+  }
+
+  protected checkWalletBalance(wallet: BillingWallet): void {
+    if (!this.isWalletBalanceSufficient(wallet)) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'checkWalletBalance',
+        action: ServerAction.BILLING_TRANSACTION,
+        message: `Wallet balance is below the minimum - balance: ${wallet.balance} ${wallet.currency} - minimum: ${this.settings.billing?.walletMinimumBalance ?? 0}`
+      });
+    }
+  }
+
+  protected async isWalletBalanceExhausted(transaction: Transaction): Promise<boolean> {
+    // Check whether the session is paid with the prepaid wallet
+    if (!transaction.billingData?.withWallet) {
+      return false;
+    }
+    const wallet = await BillingStorage.getWallet(this.tenant, transaction.userID);
+    // The wallet is charged at the end of the sessions: the other ongoing ones of the user are paid with the same balance
+    const ongoingTransactions = await TransactionStorage.getTransactions(this.tenant.id, {
+      userIDs: [transaction.userID], stop: { $exists: false }
+    }, Constants.DB_PARAMS_MAX_LIMIT, ['id', 'currentCumulatedPrice', 'billingData']);
+    const ongoingPrice = ongoingTransactions.result.reduce((price, ongoingTransaction) =>
+      (ongoingTransaction.id !== transaction.id && ongoingTransaction.billingData?.withWallet ?
+        price.plus(ongoingTransaction.currentCumulatedPrice ?? 0) : price), Utils.createDecimal(transaction.currentCumulatedPrice ?? 0));
+    return ongoingPrice.greaterThanOrEqualTo(wallet?.balance ?? 0);
+  }
+
+  protected async chargeWallet(transaction: Transaction): Promise<BillingDataTransactionStop> {
+    // Check whether the session was started with the prepaid wallet
+    if (!transaction.billingData?.withWallet) {
+      return null;
+    }
+    const amount = Utils.createDecimal(transaction.stop?.roundedPrice ?? 0).negated().toNumber();
+    let walletOperation = await this.saveWalletOperation(transaction.userID, BillingWalletOperationType.CHARGE, amount, transaction.stop?.priceUnit, {
+      transactionID: transaction.id,
+      description: transaction.user ? this.buildLineItemDescription(transaction) : null,
+    });
+    // A session is charged only once - and may have been refunded since
+    if (!walletOperation) {
+      const walletOperations = await BillingStorage.getWalletOperations(this.tenant,
+        { transactionIDs: [transaction.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      walletOperation = walletOperations.result.find((operation) => operation.type === BillingWalletOperationType.CHARGE);
+    }
+    return {
+      status: BillingStatus.BILLED,
+      walletOperationID: walletOperation.id
+    };
+  }
+
+  protected async _updateTransactionsBillingData(billingInvoice: BillingInvoice): Promise<void> {
+    await Promise.all(billingInvoice.sessions.map(async (session) => {
+      const transactionID = session.transactionID;
+      try {
+        const transaction = await TransactionStorage.getTransaction(this.tenant.id, Number(transactionID));
+        // Update Billing Data
+        transaction.billingData.stop.invoiceStatus = billingInvoice.status;
+        transaction.billingData.stop.invoiceNumber = billingInvoice.number;
+        transaction.billingData.lastUpdate = new Date();
+        // Save
+        await TransactionStorage.saveTransactionBillingData(this.tenant.id, transaction.id, transaction.billingData);
+      } catch (error) {
+        await Logging.logError({
+          tenantID: this.tenant.id,
+          action: ServerAction.BILLING_PERFORM_OPERATIONS,
+          module: MODULE_NAME, method: '_updateTransactionsBillingData',
+          message: 'Failed to update transaction billing data',
+          detailedMessages: { error: error.stack }
+        });
+      }
+    }));
+  }
+
+  protected buildLineItemIdleFeeDescription(transaction: Transaction): string {
+    const i18nManager = I18nManager.getInstanceForLocale(transaction.user.locale);
+    // Get the translated line item description
+    return i18nManager.translate('billing.idleFee', {
+      sessionID: String(transaction?.id),
+      chargeBoxID: transaction.chargeBoxID
+    });
+  }
+
+  protected buildLineItemDescription(transaction: Transaction): string {
+    const chargeBox = transaction.chargeBox;
+    const i18nManager = I18nManager.getInstanceForLocale(transaction.user.locale);
+    const sessionID = String(transaction?.id);
+    const startDate = i18nManager.formatDateTime(transaction.timestamp, 'LL', transaction.timezone);
+    const startTime = i18nManager.formatDateTime(transaction.timestamp, 'LT', transaction.timezone);
+    const stopTime = i18nManager.formatDateTime(transaction.stop.timestamp, 'LT', transaction.timezone);
+    const formattedConsumptionkWh = this.formatConsumptionToKWh(transaction);
+    const timeSpent = this.convertTimeSpentToString(transaction);
+    const descriptionPattern = (chargeBox?.siteArea?.name) ? 'billing.chargingAtSiteArea' : 'billing.chargingAtChargeBox';
+    // Get the translated line item description
+    const description = i18nManager.translate(descriptionPattern, {
+      sessionID,
+      startDate,
+      startTime,
+      timeSpent,
+      totalConsumption: formattedConsumptionkWh,
+      siteAreaName: chargeBox?.siteArea?.name,
+      chargeBoxID: transaction?.chargeBoxID,
+      stopTime,
+    });
+    // Consolidated invoices are broken down per driver
+    if (transaction.user?.billingAccountID) {
+      return `${Utils.buildUserFullName(transaction.user, false, false)} - ${description}`;
+    }
+    return description;
+  }
+
+  protected formatConsumptionToKWh(transaction: Transaction): string {
+    // ACHTUNG: consumed energy shown in the line item might be slightly different from the billed energy
+    return Utils.createDecimal(transaction.stop.totalConsumptionWh).dividedBy(1000).toNumber().toLocaleString(this.getUserLocale(transaction));
+  }
+
+  protected getUserLocale(transaction: Transaction): string {
+    return transaction.user.locale ? transaction.user.locale.replace('_', '-') : Constants.DEFAULT_LOCALE.replace('_', '-');
+  }
+
+  protected computeTimeSpentInSeconds(transaction: Transaction): number {
+    let totalDuration: number;
+    if (!transaction.stop) {
+      totalDuration = moment.duration(moment(transaction.lastConsumption.timestamp).diff(moment(transaction.timestamp))).asSeconds();
+    } else {
+      totalDuration = moment.duration(moment(transaction.stop.timestamp).diff(moment(transaction.timestamp))).asSeconds();
+    }
+    return totalDuration;
+  }
+
+  protected convertTimeSpentToString(transaction: Transaction): string {
+    const totalDuration = this.computeTimeSpentInSeconds(transaction);
+    return moment.duration(totalDuration, 's').format('h[h]mm', { trim: false });
+  }
+
+  private async creditInvoicedTransaction(transaction: Transaction, sessionAmount: number, reason: string): Promise<BillingCreditNote> {
+    // The invoice ID is stored as an ObjectID in the session
+    const invoiceID = transaction.billingData.stop.invoiceID.toString();
+    const billingInvoice = await BillingStorage.getInvoice(this.tenant, invoiceID);
+    if (billingInvoice?.status !== BillingInvoiceStatus.OPEN && billingInvoice?.status !== BillingInvoiceStatus.PAID) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'creditInvoicedTransaction',
+        action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+        message: `Credit notes can only be issued on finalized invoices - invoice: '${invoiceID}' - status: '${billingInvoice?.status}'`
+      });
+    }
+    // Let the billing provider issue the credit note
+    const creditNote = await this.createCreditNote(billingInvoice, transaction, sessionAmount, reason);
+    creditNote.invoiceID = billingInvoice.id;
+    creditNote.liveMode = billingInvoice.liveMode;
+    return creditNote;
+  }
+
+  private async refundWalletTransaction(transaction: Transaction, sessionAmount: number, reason: string, createdByID: string): Promise<BillingCreditNote> {
+    const walletOperation = await this.saveWalletOperation(transaction.userID, BillingWalletOperationType.REFUND, sessionAmount,
+      transaction.stop?.priceUnit, {
+        transactionID: transaction.id,
+        description: reason,
+        createdBy: createdByID ? { id: createdByID } : null
+      });
+    await Logging.logInfo({
+      tenantID: this.tenant.id,
+      user: createdByID, actionOnUser: transaction.userID,
+      action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+      module: MODULE_NAME, method: 'refundWalletTransaction',
+      message: `Wallet has been refunded with ${sessionAmount} ${walletOperation.currency} - new balance: ${walletOperation.balance} ${walletOperation.currency} - transaction ID: '${transaction.id}'`
+    });
+    return {
+      creditNoteID: walletOperation.id,
+      userID: transaction.userID,
+      transactionID: transaction.id,
+      // The wallet is charged with the rounded price of the session
+      amount: Utils.createDecimal(sessionAmount).times(100).round().toNumber(),
+      sessionAmount,
+      currency: walletOperation.currency,
+      liveMode: Utils.convertToBoolean(transaction.user?.billingData?.liveMode),
+    };
+  }
+
+  private async saveWalletOperation(userID: string, type: BillingWalletOperationType, amount: number, currency: string,
+      walletOperationData: Partial<BillingWalletOperation>): Promise<BillingWalletOperation> {
+    // Wallets are never mixing currencies
+    currency = currency?.toUpperCase();
+    const wallet = await BillingStorage.getWallet(this.tenant, userID);
+    if (wallet && currency && wallet.currency !== currency) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'saveWalletOperation',
+        action: ServerAction.BILLING_WALLET_TOP_UP,
+        message: `Wallet currency '${wallet.currency}' does not match the operation currency '${currency}' - user: '${userID}'`
+      });
+    }
+    const walletOperation: BillingWalletOperation = {
+      ...walletOperationData,
+      userID,
+      type,
+      amount,
+      currency: wallet?.currency ?? currency,
+      // The balance of the wallet is the sum of its operations, this one is the balance when the operation is recorded
+      balance: Utils.createDecimal(wallet?.balance ?? 0).plus(amount).toNumber(),
+      createdOn: new Date(),
+    };
+    walletOperation.id = await BillingStorage.saveWalletOperation(this.tenant, walletOperation);
+    // Already recorded
+    if (!walletOperation.id) {
+      return null;
+    }
+    return walletOperation;
+  }
+
+  private async chargeSubscription(subscription: BillingSubscription): Promise<void> {
+    // The subscription starts later or has not been renewed after its cancellation
+    const periodStart = subscription.periodEnd ?? subscription.startDate;
+    if (moment(periodStart).isAfter(moment())) {
+      return;
+    }
+    if (subscription.endDate && !moment(periodStart).isBefore(subscription.endDate)) {
+      subscription.status = BillingSubscriptionStatus.ENDED;
+      await BillingStorage.saveSubscription(this.tenant, subscription);
+      await Logging.logInfo({
+        tenantID: this.tenant.id,
+        source: Constants.CENTRAL_SERVER,
+        action: ServerAction.BILLING_PERFORM_OPERATIONS,
+        actionOnUser: subscription.user,
+        module: MODULE_NAME, method: 'chargeSubscription',
+        message: `Subscription '${subscription.plan?.name}' has ended`
+      });
+      return;
+    }
+    if (!subscription.user || !subscription.plan) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'chargeSubscription',
+        action: ServerAction.BILLING_PERFORM_OPERATIONS,
+        message: `Unexpected situation - the user or the plan of the subscription '${subscription.id}' does not exist`
+      });
+    }
+    const periodEnd = moment(periodStart).add(1, 'month').toDate();
+    // Get the translated line item description
+    const i18nManager = I18nManager.getInstanceForLocale(subscription.user.locale);
+    const description = i18nManager.translate('billing.subscriptionFee', {
+      planName: subscription.plan.name,
+      periodStart: i18nManager.formatDateTime(periodStart, 'LL'),
+      periodEnd: i18nManager.formatDateTime(periodEnd, 'LL'),
+    });
+    // Plans without fee only provide the member rates
+    if (subscription.plan.fee > 0) {
+      const billingInvoiceItem: BillingInvoiceItem = {
+        description,
+        transactionID: null,
+        pricingData: {
+          quantity: 1,
+          amount: subscription.plan.fee,
+          currency: subscription.plan.currency
+        },
+        taxes: this.settings.billing.taxID ? [this.settings.billing.taxID] : [],
+        metadata: {
+          tenantID: this.tenant.id,
+          userID: subscription.userID,
+          subscriptionID: subscription.id,
+        }
+      };
+      await this.billInvoiceItem(subscription.user, billingInvoiceItem, `subscription_${subscription.id}_${periodStart.getTime()}`);
+    }
+    // Start a new period
+    subscription.periodStart = periodStart;
+    subscription.periodEnd = periodEnd;
+    await BillingStorage.startSubscriptionPeriod(this.tenant, subscription.id, periodStart, periodEnd);
+    await Logging.logInfo({
+      tenantID: this.tenant.id,
+      source: Constants.CENTRAL_SERVER,
+      action: ServerAction.BILLING_PERFORM_OPERATIONS,
+      actionOnUser: subscription.user,
+      module: MODULE_NAME, method: 'chargeSubscription',
+      message: `Subscription fee has been charged - ${description}`
+    });
+  }
+
   private async _getUsersWithNoBillingData(): Promise<User[]> {
     const newUsers = await UserStorage.getUsers(this.tenant.id,
       {
@@ -443,6 +904,7 @@ export default abstract class BillingIntegration {
       });
     }
     await this._clearTransactionsTestData(billingInvoice);
+    await BillingStorage.deleteCreditNotes(this.tenant, billingInvoice.id);
     await BillingStorage.deleteInvoice(this.tenant, billingInvoice.id);
   }
 
@@ -623,6 +1085,10 @@ export default abstract class BillingIntegration {
 
   abstract chargeInvoice(invoice: BillingInvoice): Promise<BillingInvoice>;
 
+  abstract markInvoiceAsPaid(invoice: BillingInvoice): Promise<BillingInvoice>;
+
+  abstract createCreditNote(invoice: BillingInvoice, transaction: Transaction, sessionAmount: number, reason: string): Promise<BillingCreditNote>;
+
   abstract consumeBillingEvent(req: Request): Promise<boolean>;
 
   abstract setupPaymentMethod(user: User, paymentMethodId: string): Promise<BillingOperationResult>;
@@ -0,0 +1,124 @@
+import { BillingCustomer, BillingInvoice, BillingInvoiceLineItem, BillingInvoiceStatus } from '../../../types/Billing';
+
+import { Decimal } from 'decimal.js';
+import I18nManager from '../../../utils/I18nManager';
+import { LocalBillingSetting } from '../../../types/Setting';
+import PDFDocument from 'pdfkit';
+import Utils from '../../../utils/Utils';
+
+export interface LocalBillingInvoiceAmounts {
+  // Amounts in the currency unit - e.g.: 12.34 EUR
+  subtotal: number;
+  taxes: { displayName: string; percentage: number; amount: number }[];
+  total: number;
+}
+
+export default class LocalBillingHelpers {
+  public static computeInvoiceAmounts(lineItems: BillingInvoiceLineItem[]): LocalBillingInvoiceAmounts {
+    let subtotal = Utils.createDecimal(0);
+    let total = Utils.createDecimal(0);
+    const taxes = new Map<string, { displayName: string; percentage: number; amount: number }>();
+    for (const lineItem of lineItems) {
+      // Each line is rounded to the cent as printed on the invoice
+      const lineAmount = Utils.createDecimal(lineItem.pricingData.amount).toDecimalPlaces(2);
+      subtotal = subtotal.plus(lineAmount);
+      total = total.plus(lineAmount);
+      for (const tax of lineItem.taxes ?? []) {
+        const taxAmount = lineAmount.times(tax.percentage).dividedBy(100).toDecimalPlaces(2);
+        const taxKey = `${tax.displayName}|${tax.percentage}`;
+        const invoiceTax = taxes.get(taxKey) ?? { displayName: tax.displayName, percentage: tax.percentage, amount: 0 };
+        invoiceTax.amount = Utils.createDecimal(invoiceTax.amount).plus(taxAmount).toNumber();
+        taxes.set(taxKey, invoiceTax);
+        total = total.plus(taxAmount);
+      }
+    }
+    return {
+      subtotal: subtotal.toNumber(),
+      taxes: [...taxes.values()],
+      total: total.toNumber(),
+    };
+  }
+
+  public static async buildInvoiceDocument(localBillingSetting: LocalBillingSetting, billingInvoice: BillingInvoice,
+      customer: BillingCustomer, lineItems: BillingInvoiceLineItem[]): Promise<Buffer> {
+    const i18nManager = I18nManager.getInstanceForLocale(billingInvoice.user?.locale);
+    const currency = billingInvoice.currency?.toUpperCase();
+    const amounts = LocalBillingHelpers.computeInvoiceAmounts(lineItems);
+    return new Promise<Buffer>((resolve, reject) => {
+      const pdfDocument = new PDFDocument({ size: 'A4', margin: 50 });
+      const chunks: Buffer[] = [];
+      pdfDocument.on('data', (chunk: Buffer) => chunks.push(chunk));
+      pdfDocument.on('end', () => resolve(Buffer.concat(chunks)));
+      pdfDocument.on('error', reject);
+      // Issuer
+      pdfDocument.fontSize(20).text(i18nManager.translate('billing.invoiceDocument.title'), { align: 'right' });
+      pdfDocument.fontSize(10).moveDown();
+      pdfDocument.text(`${i18nManager.translate('billing.invoiceDocument.number')}: ${billingInvoice.number}`, { align: 'right' });
+      pdfDocument.text(`${i18nManager.translate('billing.invoiceDocument.date')}: ${i18nManager.formatDateTime(billingInvoice.finalizedOn ?? billingInvoice.createdOn, 'LL')}`, { align: 'right' });
+      pdfDocument.moveUp(3).fontSize(12).text(localBillingSetting.companyName, 50);
+      pdfDocument.fontSize(10);
+      if (localBillingSetting.companyAddress) {
+        pdfDocument.text(localBillingSetting.companyAddress, { width: 250 });
+      }
+      if (localBillingSetting.companyTaxNumber) {
+        pdfDocument.text(`${i18nManager.translate('billing.invoiceDocument.taxNumber')}: ${localBillingSetting.companyTaxNumber}`, { width: 250 });
+      }
+      // Customer
+      pdfDocument.moveDown(2).fontSize(10).text(i18nManager.translate('billing.invoiceDocument.billedTo'), 300, pdfDocument.y, { underline: true });
+      pdfDocument.text(customer?.name ?? Utils.buildUserFullName(billingInvoice.user, false, false));
+      pdfDocument.text(customer?.email ?? billingInvoice.user?.email);
+      const address = customer?.address;
+      if (address) {
+        for (const addressLine of [address.address1, address.address2, `${address.postalCode ?? ''} ${address.city ?? ''}`.trim(), address.country]) {
+          if (addressLine) {
+            pdfDocument.text(addressLine);
+          }
+        }
+      }
+      // Line items
+      pdfDocument.moveDown(2);
+      LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, i18nManager.translate('billing.invoiceDocument.description'),
+        i18nManager.translate('billing.invoiceDocument.quantity'), i18nManager.translate('billing.invoiceDocument.amount'), true);
+      for (const lineItem of lineItems) {
+        LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, lineItem.description,
+          `${i18nManager.formatNumber(Utils.truncTo(lineItem.pricingData.quantity, 2))}`,
+          i18nManager.formatCurrency(Utils.createDecimal(lineItem.pricingData.amount).toDecimalPlaces(2).toNumber(), currency));
+      }
+      // Totals
+      pdfDocument.moveDown();
+      LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, i18nManager.translate('billing.invoiceDocument.subtotal'), '',
+        i18nManager.formatCurrency(amounts.subtotal, currency));
+      for (const tax of amounts.taxes) {
+        LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, `${tax.displayName} (${i18nManager.formatNumber(tax.percentage)} %)`, '',
+          i18nManager.formatCurrency(tax.amount, currency));
+      }
+      LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, i18nManager.translate('billing.invoiceDocument.total'), '',
+        i18nManager.formatCurrency(amounts.total, currency), true);
+      LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, i18nManager.translate('billing.invoiceDocument.amountPaid'), '',
+        i18nManager.formatCurrency(Utils.createDecimal(billingInvoice.amountPaid ?? 0).dividedBy(100).toNumber(), currency));
+      for (const creditNote of billingInvoice.creditNotes ?? []) {
+        LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, `${i18nManager.translate('billing.invoiceDocument.creditNote')} ${creditNote.number}`, '',
+          i18nManager.formatCurrency(Utils.createDecimal(creditNote.amount).dividedBy(100).negated().toNumber(), currency));
+      }
+      LocalBillingHelpers.addInvoiceDocumentRow(pdfDocument, i18nManager.translate('billing.invoiceDocument.amountDue'), '',
+        i18nManager.formatCurrency(Decimal.max(Utils.createDecimal(billingInvoice.amount ?? 0).minus(billingInvoice.amountPaid ?? 0)
+          .minus(billingInvoice.creditedAmount ?? 0), 0).dividedBy(100).toNumber(), currency), true);
+      // Payment
+      if (localBillingSetting.paymentInstructions && billingInvoice.status !== BillingInvoiceStatus.PAID) {
+        pdfDocument.moveDown(2).fontSize(10).text(localBillingSetting.paymentInstructions, 50, pdfDocument.y, { width: 495 });
+      }
+      pdfDocument.end();
+    });
+  }
+
+  private static addInvoiceDocumentRow(pdfDocument: PDFKit.PDFDocument, description: string, quantity: string, amount: string, bold = false): void {
+    const top = pdfDocument.y;
+    pdfDocument.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    pdfDocument.text(description, 50, top, { width: 315 });
+    const bottom = pdfDocument.y;
+    pdfDocument.text(quantity, 375, top, { width: 70, align: 'right' });
+    pdfDocument.text(amount, 455, top, { width: 90, align: 'right' });
+    // Descriptions can be wrapped on several lines
+    pdfDocument.y = Math.max(bottom, pdfDocument.y) + 4;
+  }
+}
@@ -0,0 +1,720 @@
+import { AsyncTaskType, AsyncTasks } from '../../../types/AsyncTask';
+import { BillingAccount, BillingCreditNote, BillingCustomer, BillingDataTransactionStart, BillingDataTransactionStop, BillingDataTransactionUpdate, BillingInvoice, BillingInvoiceItem, BillingInvoiceLineItem, BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingStatus, BillingTax, BillingUser, BillingUserData } from '../../../types/Billing';
+import FeatureToggles, { Feature } from '../../../utils/FeatureToggles';
+import Transaction, { StartTransactionErrorCode } from '../../../types/Transaction';
+
+import AsyncTaskManager from '../../../async-task/AsyncTaskManager';
+import BackendError from '../../../exception/BackendError';
+import BillingIntegration from '../BillingIntegration';
+import { BillingSettings } from '../../../types/Setting';
+import BillingStorage from '../../../storage/mongodb/BillingStorage';
+import Constants from '../../../utils/Constants';
+import LocalBillingHelpers from './LocalBillingHelpers';
+import Logging from '../../../utils/Logging';
+import { Request } from 'express';
+import { ServerAction } from '../../../types/Server';
+import SettingStorage from '../../../storage/mongodb/SettingStorage';
+import Tenant from '../../../types/Tenant';
+import User from '../../../types/User';
+import UserStorage from '../../../storage/mongodb/UserStorage';
+import Utils from '../../../utils/Utils';
+import moment from 'moment';
+
+const MODULE_NAME = 'LocalBillingIntegration';
+
+export default class LocalBillingIntegration extends BillingIntegration {
+  constructor(tenant: Tenant, settings: BillingSettings) {
+    super(tenant, settings);
+    // Invoices are issued by the server itself
+    this.productionMode = Utils.isProductionEnv();
+  }
+
+  public static getInstance(tenant: Tenant, settings: BillingSettings): LocalBillingIntegration {
+    if (settings.localBilling?.companyName) {
+      return new LocalBillingIntegration(tenant, settings);
+    }
+    // Issuer of the invoices is not set
+    return null;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async checkConnection(): Promise<void> {
+    // No payment platform - only the issuer of the invoices is needed
+    if (!this.settings.localBilling?.companyName) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'checkConnection',
+        action: ServerAction.CHECK_BILLING_CONNECTION,
+        message: 'Billing settings are not consistent - company name is mandatory'
+      });
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async checkActivationPrerequisites(): Promise<void> {
+    this.checkTaxPrerequisites();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async checkTestDataCleanupPrerequisites(): Promise<void> {
+    // Invoices issued in production are legal documents
+    if (this.productionMode) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'checkTestDataCleanupPrerequisites',
+        action: ServerAction.BILLING_TEST_DATA_CLEANUP,
+        message: 'Invoices are issued in production - Test data cleanup has been aborted'
+      });
+    }
+  }
+
+  public async resetConnectionSettings(): Promise<BillingSettings> {
+    // Reset billing settings - the issuer of the invoices is preserved
+    const newBillingsSettings = this.settings;
+    newBillingsSettings.billing = {
+      isTransactionBillingActivated: false,
+      immediateBillingAllowed: false,
+      periodicBillingAllowed: false,
+      taxID: null
+    };
+    await SettingStorage.saveBillingSetting(this.tenant.id, newBillingsSettings);
+    return newBillingsSettings;
+  }
+
+  public async clearTestData(): Promise<void> {
+    // Line items and customers are only known by this integration
+    const invoices = await BillingStorage.getInvoices(this.tenant, { liveMode: false }, Constants.DB_PARAMS_MAX_LIMIT, ['id', 'liveMode']);
+    for (const invoice of invoices.result) {
+      if (!invoice.liveMode) {
+        await BillingStorage.deleteInvoiceLineItems(this.tenant, invoice.id);
+      }
+    }
+    const users = await UserStorage.getUsers(this.tenant.id, { withTestBillingData: true }, Constants.DB_PARAMS_MAX_LIMIT, ['id', 'billingData']);
+    for (const user of users.result) {
+      if (user.billingData?.customerID) {
+        await BillingStorage.deleteCustomer(this.tenant, user.billingData.customerID);
+      }
+    }
+    await super.clearTestData();
+  }
+
+  public async startTransaction(transaction: Transaction): Promise<BillingDataTransactionStart> {
+    if (!this.settings.billing.isTransactionBillingActivated) {
+      return {
+        // Keeps track whether the billing was activated or not on start transaction
+        withBillingActive: false
+      };
+    }
+    await this.checkConnection();
+    // Customers do not need any payment method - create it on the fly
+    if (transaction.user && !transaction.user.billingData?.customerID) {
+      await this.synchronizeUser(transaction.user);
+    }
+    // Check Transaction
+    this.checkStartTransaction(transaction);
+    // Check the prepaid wallet
+    const wallet = await this.getWallet(transaction.user);
+    if (wallet) {
+      this.checkWalletBalance(wallet);
+    }
+    return {
+      withBillingActive: true,
+      withWallet: !!wallet
+    };
+  }
+
+  public async updateTransaction(transaction: Transaction): Promise<BillingDataTransactionUpdate> {
+    // Check User
+    if (!transaction.userID || !transaction.user) {
+      throw new BackendError({
+        message: 'User is not provided',
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME,
+        method: 'updateTransaction',
+        action: ServerAction.BILLING_TRANSACTION
+      });
+    }
+    return {
+      // Just propagate the initial state
+      withBillingActive: transaction.billingData?.withBillingActive,
+      walletBalanceExhausted: await this.isWalletBalanceExhausted(transaction)
+    };
+  }
+
+  public async stopTransaction(transaction: Transaction): Promise<BillingDataTransactionStop> {
+    // Check whether the billing was activated on start transaction
+    if (!transaction.billingData?.withBillingActive) {
+      return {
+        status: BillingStatus.UNBILLED
+      };
+    }
+    // Prepaid sessions are charged on the wallet
+    const walletBillingData = await this.chargeWallet(transaction);
+    if (walletBillingData) {
+      return walletBillingData;
+    }
+    // Create and Save async task
+    await AsyncTaskManager.createAndSaveAsyncTasks({
+      name: AsyncTasks.BILL_TRANSACTION,
+      action: ServerAction.BILLING_TRANSACTION,
+      type: AsyncTaskType.TASK,
+      tenantID: this.tenant.id,
+      parameters: {
+        transactionID: String(transaction.id),
+        userID: transaction.userID
+      },
+      module: MODULE_NAME,
+      method: 'stopTransaction',
+    });
+    // Inform the calling layer that the operation has been postponed
+    return {
+      status: BillingStatus.PENDING
+    };
+  }
+
+  public async billTransaction(transaction: Transaction): Promise<BillingDataTransactionStop> {
+    await this.checkConnection();
+    // Check object
+    this.checkStopTransaction(transaction);
+    try {
+      await Logging.logInfo({
+        tenantID: this.tenant.id,
+        user: transaction.userID,
+        source: Constants.CENTRAL_SERVER,
+        action: ServerAction.BILLING_TRANSACTION,
+        module: MODULE_NAME, method: 'billTransaction',
+        message: `Billing process is about to start - transaction ID: ${transaction.id}`
+      });
+      const invoiceItem = this.convertToBillingInvoiceItem(transaction);
+      const billingInvoice = await this.billInvoiceItem(transaction.user, invoiceItem, `${transaction.id}`);
+      // Send a notification to the user
+      void this.sendInvoiceNotification(billingInvoice);
+      const { description, transactionID, pricingData } = invoiceItem;
+      return {
+        status: BillingStatus.BILLED,
+        invoiceID: billingInvoice.id,
+        invoiceStatus: billingInvoice.status,
+        invoiceNumber: billingInvoice.number,
+        invoiceItem: { description, transactionID, pricingData },
+      };
+    } catch (error) {
+      await Logging.logError({
+        tenantID: this.tenant.id,
+        user: transaction.userID,
+        source: Constants.CENTRAL_SERVER,
+        action: ServerAction.BILLING_TRANSACTION,
+        module: MODULE_NAME, method: 'billTransaction',
+        message: `Failed to bill the transaction - Transaction ID '${transaction.id}'`,
+        detailedMessages: { error: error.stack }
+      });
+    }
+    return {
+      status: BillingStatus.FAILED
+    };
+  }
+
+  public async billInvoiceItem(user: User, billingInvoiceItem: BillingInvoiceItem, idemPotencyKey?: string): Promise<BillingInvoice> {
+    // A transaction is billed only once
+    if (idemPotencyKey && billingInvoiceItem.transactionID) {
+      const billedLineItems = await BillingStorage.getInvoiceLineItems(this.tenant, { transactionID: billingInvoiceItem.transactionID });
+      if (!Utils.isEmptyArray(billedLineItems)) {
+        return BillingStorage.getInvoice(this.tenant, billedLineItems[0].invoiceID);
+      }
+    }
+    // Sessions of the drivers attached to a billing account are consolidated in a monthly invoice
+    const billingAccount = await this.getBillingAccount(user);
+    let billingInvoice: BillingInvoice = null;
+    if (billingAccount || !this.settings.billing?.immediateBillingAllowed) {
+      // immediateBillingAllowed is OFF - let's add to the latest DRAFT invoice (if any)
+      billingInvoice = await this._getLatestDraftInvoiceOfTheMonth(user.id, billingAccount);
+    }
+    let invoiceCreated = false;
+    if (!billingInvoice) {
+      billingInvoice = await this._createInvoice(user, billingInvoiceItem.pricingData.currency, billingAccount);
+      invoiceCreated = true;
+    }
+    // Energy and idle fee are billed on separate lines
+    const taxes = this.getTaxes4LineItem(billingInvoiceItem);
+    const lineItemID = await this._createInvoiceLineItem(billingInvoice, billingInvoiceItem.transactionID, billingInvoiceItem.description,
+      billingInvoiceItem.pricingData.quantity, billingInvoiceItem.pricingData.amount, billingInvoiceItem.pricingData.currency, taxes);
+    if (!lineItemID) {
+      // The session has been billed in the meantime
+      if (invoiceCreated) {
+        await BillingStorage.deleteInvoice(this.tenant, billingInvoice.id);
+      }
+      const billedLineItems = await BillingStorage.getInvoiceLineItems(this.tenant, { transactionID: billingInvoiceItem.transactionID });
+      return BillingStorage.getInvoice(this.tenant, billedLineItems[0].invoiceID);
+    }
+    const lineItemIDs = [lineItemID];
+    if (billingInvoiceItem.idleFeeData) {
+      const { description, pricingData } = billingInvoiceItem.idleFeeData;
+      lineItemIDs.push(await this._createInvoiceLineItem(billingInvoice, billingInvoiceItem.transactionID, description,
+        pricingData.quantity, pricingData.amount, pricingData.currency, taxes, true));
+    }
+    // The draft can be issued in the meantime, its lines are then moved to a new draft
+    while (!await this._updateDraftInvoiceAmount(billingInvoice)) {
+      billingInvoice = await this._createInvoice(user, billingInvoiceItem.pricingData.currency, billingAccount);
+      await BillingStorage.moveInvoiceLineItems(this.tenant, lineItemIDs, billingInvoice.id);
+    }
+    // Keep track of the charging session (subscription fees are not related to a session)
+    if (billingInvoiceItem.transactionID) {
+      await BillingStorage.updateInvoiceAdditionalData(this.tenant, billingInvoice, {
+        session: {
+          transactionID: billingInvoiceItem.transactionID,
+          description: billingInvoiceItem.description,
+          pricingData: billingInvoiceItem.pricingData,
+        }
+      });
+    }
+    if (!billingAccount && this.settings.billing?.immediateBillingAllowed) {
+      // immediateBillingAllowed is ON - the invoice is issued right away
+      await this._finalizeInvoice(billingInvoice);
+    }
+    return BillingStorage.getInvoice(this.tenant, billingInvoice.id);
+  }
+
+  public async chargeInvoice(billingInvoice: BillingInvoice): Promise<BillingInvoice> {
+    await this.checkConnection();
+    if (billingInvoice.status === BillingInvoiceStatus.DRAFT) {
+      const issued = await this._finalizeInvoice(billingInvoice);
+      billingInvoice = await BillingStorage.getInvoice(this.tenant, billingInvoice.id);
+      // Issued concurrently by another server which notifies the user
+      if (issued) {
+        // Send a notification to the user
+        void this.sendInvoiceNotification(billingInvoice);
+        await this._updateTransactionsBillingData(billingInvoice);
+      }
+    }
+    // Open invoices are paid outside of the platform and marked as paid by an admin
+    return billingInvoice;
+  }
+
+  public async markInvoiceAsPaid(billingInvoice: BillingInvoice): Promise<BillingInvoice> {
+    await this.checkConnection();
+    // The invoice is issued before being paid
+    if (billingInvoice.status === BillingInvoiceStatus.DRAFT) {
+      await this._finalizeInvoice(billingInvoice);
+      billingInvoice = await BillingStorage.getInvoice(this.tenant, billingInvoice.id);
+    }
+    // The credited amount is not to be paid
+    if (billingInvoice.status !== BillingInvoiceStatus.OPEN || !await BillingStorage.payOpenInvoice(this.tenant, billingInvoice.id,
+      Math.max(billingInvoice.amount - (billingInvoice.creditedAmount ?? 0), 0))) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'markInvoiceAsPaid',
+        action: ServerAction.BILLING_PAY_INVOICE,
+        message: `Invoice cannot be marked as paid - invoice: '${billingInvoice.id}' - status: '${billingInvoice.status}'`
+      });
+    }
+    billingInvoice = await BillingStorage.getInvoice(this.tenant, billingInvoice.id);
+    // Send a notification to the user
+    void this.sendInvoiceNotification(billingInvoice);
+    await this._updateTransactionsBillingData(billingInvoice);
+    return billingInvoice;
+  }
+
+  public async createCreditNote(billingInvoice: BillingInvoice, transaction: Transaction, sessionAmount: number, reason: string): Promise<BillingCreditNote> {
+    await this.checkConnection();
+    const lineItems = await BillingStorage.getInvoiceLineItems(this.tenant, { invoiceIDs: [billingInvoice.id], transactionID: transaction.id });
+    if (Utils.isEmptyArray(lineItems)) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'createCreditNote',
+        action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+        message: `The session is not part of the invoice - transaction ID: '${transaction.id}' - invoice: '${billingInvoice.id}'`
+      });
+    }
+    // The credited amount is taxed the same way as the session
+    const amounts = LocalBillingHelpers.computeInvoiceAmounts([{
+      ...lineItems[0],
+      pricingData: { ...lineItems[0].pricingData, quantity: 1, amount: sessionAmount }
+    }]);
+    const amount = Utils.createDecimal(amounts.total).times(100).round().toNumber();
+    // Credit notes are numbered in their own sequence
+    const sequence = await BillingStorage.getNextInvoiceSequence(this.tenant, 'creditNote');
+    // eslint-disable-next-line id-blacklist
+    const number = `CN-${this.settings.localBilling.invoiceNumberPrefix ?? ''}${sequence.toString().padStart(6, '0')}`;
+    // The issued invoice is left untouched: the credit notes reduce its amount due - a paid invoice is refunded outside of the platform
+    return {
+      creditNoteID: Utils.generateUUID(),
+      invoiceID: billingInvoice.id,
+      userID: transaction.userID,
+      transactionID: transaction.id,
+      // eslint-disable-next-line id-blacklist
+      number,
+      amount,
+      sessionAmount,
+      currency: billingInvoice.currency,
+      reason,
+      liveMode: billingInvoice.liveMode,
+    };
+  }
+
+  public async downloadInvoiceDocument(billingInvoice: BillingInvoice): Promise<Buffer> {
+    // Draft invoices are not yet issued
+    if (billingInvoice.status === BillingInvoiceStatus.DRAFT || !billingInvoice.number) {
+      return null;
+    }
+    const lineItems = await BillingStorage.getInvoiceLineItems(this.tenant, { invoiceIDs: [billingInvoice.id] });
+    let customer: BillingCustomer = null;
+    if (billingInvoice.billingAccount) {
+      // Consolidated invoices are issued to the billing account
+      const { id, name, email, address } = billingInvoice.billingAccount;
+      customer = { id, userID: null, name, email, address, liveMode: billingInvoice.liveMode, createdOn: billingInvoice.createdOn };
+    } else if (billingInvoice.customerID) {
+      customer = await BillingStorage.getCustomer(this.tenant, billingInvoice.customerID);
+    }
+    return LocalBillingHelpers.buildInvoiceDocument(this.settings.localBilling, billingInvoice, customer, lineItems);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
+  public async consumeBillingEvent(req: Request): Promise<boolean> {
+    // No payment platform sending events
+    return false;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async getTaxes(): Promise<BillingTax[]> {
+    return this.settings.localBilling?.taxes ?? [];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
+  public async checkIfUserCanBeCreated(user: User): Promise<boolean> {
+    return true;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
+  public async checkIfUserCanBeUpdated(user: User): Promise<boolean> {
+    return true;
+  }
+
+  public async checkIfUserCanBeDeleted(user: User): Promise<boolean> {
+    // No billing in progress
+    if (!user.billingData?.customerID) {
+      return true;
+    }
+    // Check DRAFT and OPEN invoices
+    const invoices = await BillingStorage.getInvoices(this.tenant, {
+      userIDs: [user.id],
+      invoiceStatus: [BillingInvoiceStatus.DRAFT, BillingInvoiceStatus.OPEN]
+    }, Constants.DB_PARAMS_COUNT_ONLY);
+    if (invoices.count > 0) {
+      await Logging.logError({
+        tenantID: this.tenant.id,
+        action: ServerAction.USER_DELETE,
+        actionOnUser: user,
+        module: MODULE_NAME, method: 'checkIfUserCanBeDeleted',
+        message: 'Draft or opened invoices still exist'
+      });
+      return false;
+    }
+    return true;
+  }
+
+  public async isUserSynchronized(user: User): Promise<boolean> {
+    // Make sure to get fresh data
+    user = await UserStorage.getUser(this.tenant.id, user.id);
+    // returns true when the customerID is properly set!
+    return !!user?.billingData?.customerID;
+  }
+
+  public async getUser(user: User): Promise<BillingUser> {
+    // Make sure the billing data has been provided
+    if (!user.billingData) {
+      user = await UserStorage.getUser(this.tenant.id, user.id);
+    }
+    const customerID: string = user.billingData?.customerID;
+    if (customerID) {
+      const customer = await this.getCustomer(customerID);
+      return this.convertToBillingUser(customer, user);
+    }
+    // customerID is not set - do not throw exceptions in that case
+    return null;
+  }
+
+  public async createUser(user: User): Promise<BillingUser> {
+    return this._createUser(user, false);
+  }
+
+  public async repairUser(user: User): Promise<BillingUser> {
+    return this._createUser(user, true);
+  }
+
+  public async updateUser(user: User): Promise<BillingUser> {
+    await this.checkIfUserCanBeUpdated(user);
+    const customerID: string = user?.billingData?.customerID;
+    if (!customerID) {
+      throw new Error('Unexpected situation - the customerID is NOT set');
+    }
+    const customer = await this.getCustomer(customerID);
+    if (customer.userID !== user.id) {
+      throw new Error('Unexpected situation - the customer does not match');
+    }
+    // Update changed data
+    customer.name = Utils.buildUserFullName(user, false, false);
+    customer.email = user.email;
+    customer.address = user.address;
+    customer.lastChangedOn = new Date();
+    await BillingStorage.saveCustomer(this.tenant, customer);
+    // Let's update the Billing Data of our customer
+    user.billingData.lastChangedOn = new Date();
+    await UserStorage.saveUserBillingData(this.tenant.id, user.id, user.billingData);
+    return this.convertToBillingUser(customer, user);
+  }
+
+  public async deleteUser(user: User): Promise<void> {
+    if (FeatureToggles.isFeatureActive(Feature.BILLING_PREVENT_CUSTOMER_DELETION)) {
+      // To be on the SAFE side - we preserve the customer
+      return;
+    }
+    if (user.billingData?.customerID) {
+      await BillingStorage.deleteCustomer(this.tenant, user.billingData.customerID);
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
+  public async setupPaymentMethod(user: User, paymentMethodId: string): Promise<BillingOperationResult> {
+    return this.buildPaymentMethodNotSupportedResult('setupPaymentMethod', ServerAction.BILLING_SETUP_PAYMENT_METHOD);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
+  public async getPaymentMethods(user: User): Promise<BillingPaymentMethod[]> {
+    // Invoices are paid outside of the platform
+    return [];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
+  public async deletePaymentMethod(user: User, paymentMethodId: string): Promise<BillingOperationResult> {
+    return this.buildPaymentMethodNotSupportedResult('deletePaymentMethod', ServerAction.BILLING_DELETE_PAYMENT_METHOD);
+  }
+
+  public async precheckStartTransactionPrerequisites(user: User): Promise<StartTransactionErrorCode[]> {
+    const errorCodes: StartTransactionErrorCode[] = [];
+    if (!this.settings.billing.isTransactionBillingActivated) {
+      // Nothing to check - billing of transactions is not yet ON
+      return errorCodes;
+    }
+    try {
+      await this.checkConnection();
+    } catch (error) {
+      await Logging.logError({
+        tenantID: this.tenant.id,
+        action: ServerAction.BILLING_TRANSACTION,
+        module: MODULE_NAME, method: 'precheckStartTransactionPrerequisites',
+        message: 'Billing prerequisites to start a transaction are not met',
+        detailedMessages: { error: error.stack }
+      });
+      return [StartTransactionErrorCode.BILLING_NO_SETTINGS];
+    }
+    try {
+      this.checkTaxPrerequisites();
+    } catch (error) {
+      await Logging.logError({
+        tenantID: this.tenant.id,
+        action: ServerAction.BILLING_TRANSACTION,
+        module: MODULE_NAME, method: 'precheckStartTransactionPrerequisites',
+        message: 'Billing setting prerequisites to start a transaction are not met',
+        detailedMessages: { error: error.stack }
+      });
+      errorCodes.push(StartTransactionErrorCode.BILLING_NO_TAX);
+    }
+    // Check the prepaid wallet
+    const wallet = await this.getWallet(user);
+    if (wallet && !this.isWalletBalanceSufficient(wallet)) {
+      errorCodes.push(StartTransactionErrorCode.BILLING_INSUFFICIENT_WALLET_BALANCE);
+    }
+    // Customers are created on the fly and do not need any payment method
+    return errorCodes;
+  }
+
+  private checkTaxPrerequisites(): void {
+    const taxID = this.settings.billing?.taxID;
+    if (!taxID) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'checkTaxPrerequisites',
+        action: ServerAction.BILLING_TAXES,
+        message: 'Billing prerequisites are not consistent - taxID is mandatory'
+      });
+    }
+    if (!this.getTaxRate(taxID)) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'checkTaxPrerequisites',
+        action: ServerAction.BILLING_TAXES,
+        message: `Billing prerequisites are not consistent - taxID is not found - taxID: '${taxID}'`
+      });
+    }
+  }
+
+  private getTaxRate(taxID: string): BillingTax {
+    return this.settings.localBilling?.taxes?.find((tax) => tax.id === taxID) ?? null;
+  }
+
+  private getTaxes4LineItem(billingInvoiceItem: BillingInvoiceItem): BillingTax[] {
+    return (billingInvoiceItem.taxes ?? []).map((taxID) => this.getTaxRate(taxID)).filter((tax) => !!tax);
+  }
+
+  private async getCustomer(customerID: string): Promise<BillingCustomer> {
+    const customer = await BillingStorage.getCustomer(this.tenant, customerID);
+    if (!customer) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'getCustomer',
+        action: ServerAction.BILLING,
+        message: `Customer ID is inconsistent - ${customerID}`
+      });
+    }
+    return customer;
+  }
+
+  private async _createUser(user: User, forceUserCreation: boolean): Promise<BillingUser> {
+    await this.checkIfUserCanBeCreated(user);
+    if (user.billingData?.customerID) {
+      // The customerID should be preserved - unless the creation is forced
+      if (!forceUserCreation) {
+        throw new Error('Unexpected situation - the customerID is already set');
+      }
+    }
+    const customer: BillingCustomer = {
+      id: null,
+      userID: user.id,
+      name: Utils.buildUserFullName(user, false, false),
+      email: user.email,
+      address: user.address,
+      liveMode: this.productionMode,
+      createdOn: new Date(),
+    };
+    customer.id = await BillingStorage.saveCustomer(this.tenant, customer);
+    // Let's populate the initial Billing Data of our new customer
+    const billingData: BillingUserData = {
+      customerID: customer.id,
+      liveMode: customer.liveMode,
+      lastChangedOn: new Date(),
+      hasSynchroError: false,
+      invoicesLastSynchronizedOn: null
+    };
+    // Save the billing data
+    user.billingData = billingData;
+    await UserStorage.saveUserBillingData(this.tenant.id, user.id, user.billingData);
+    return this.convertToBillingUser(customer, user);
+  }
+
+  private convertToBillingUser(customer: BillingCustomer, user: User): BillingUser {
+    return {
+      userID: customer.userID,
+      name: customer.name,
+      billingData: {
+        ...user.billingData
+      }
+    };
+  }
+
+  private convertToBillingInvoiceItem(transaction: Transaction): BillingInvoiceItem {
+    const { roundedPrice, priceUnit, totalConsumptionWh } = transaction.stop;
+    const quantity = Utils.createDecimal(totalConsumptionWh).dividedBy(1000).toNumber(); // Total consumption in kW.h
+    // The idle fee is billed on a separate line
+    const idleFeeAmount = Utils.truncTo(transaction.pricingData?.idleFeeAmount ?? 0, 2);
+    const amount = Utils.createDecimal(roundedPrice).minus(idleFeeAmount).toNumber();
+    const billingInvoiceItem: BillingInvoiceItem = {
+      description: this.buildLineItemDescription(transaction),
+      transactionID: transaction.id,
+      pricingData: {
+        quantity,
+        amount,
+        currency: priceUnit
+      },
+      taxes: this.settings.billing.taxID ? [this.settings.billing.taxID] : [],
+    };
+    if (idleFeeAmount > 0) {
+      billingInvoiceItem.idleFeeData = {
+        description: this.buildLineItemIdleFeeDescription(transaction),
+        pricingData: {
+          quantity: 1,
+          amount: idleFeeAmount,
+          currency: priceUnit
+        }
+      };
+    }
+    return billingInvoiceItem;
+  }
+
+  private async _getLatestDraftInvoiceOfTheMonth(userID: string, billingAccount: BillingAccount = null): Promise<BillingInvoice> {
+    const invoices = await BillingStorage.getInvoices(this.tenant, {
+      userIDs: !billingAccount ? [userID] : null,
+      billingAccountIDs: billingAccount ? [billingAccount.id] : null,
+      invoiceStatus: [BillingInvoiceStatus.DRAFT],
+      // We do not want to mix in the same invoice charging sessions from different months
+      startDateTime: moment().startOf('month').toDate(),
+    }, { ...Constants.DB_PARAMS_SINGLE_RECORD, sort: { createdOn: -1 } });
+    return !Utils.isEmptyArray(invoices.result) ? invoices.result[0] : null;
+  }
+
+  private async _createInvoice(user: User, currency: string, billingAccount: BillingAccount = null): Promise<BillingInvoice> {
+    const invoiceToSave: BillingInvoice = {
+      id: null,
+      invoiceID: Utils.generateUUID(),
+      liveMode: this.productionMode,
+      userID: !billingAccount ? user.id : null,
+      billingAccountID: billingAccount?.id,
+      customerID: !billingAccount ? user.billingData?.customerID : null,
+      status: BillingInvoiceStatus.DRAFT,
+      amount: 0,
+      amountPaid: 0,
+      currency: currency?.toUpperCase(),
+      createdOn: new Date(),
+      downloadable: false,
+    };
+    const invoiceID = await BillingStorage.saveInvoice(this.tenant, invoiceToSave);
+    return BillingStorage.getInvoice(this.tenant, invoiceID);
+  }
+
+  private async _createInvoiceLineItem(billingInvoice: BillingInvoice, transactionID: number, description: string,
+      quantity: number, amount: number, currency: string, taxes: BillingTax[], idleFee = false): Promise<string> {
+    const lineItem: BillingInvoiceLineItem = {
+      invoiceID: billingInvoice.id,
+      transactionID,
+      description,
+      pricingData: { quantity, amount, currency },
+      taxes,
+      idleFee,
+      liveMode: billingInvoice.liveMode,
+      createdOn: new Date(),
+    };
+    // The line of a session is inserted only once
+    if (transactionID && !idleFee) {
+      return BillingStorage.insertSessionInvoiceLineItem(this.tenant, lineItem);
+    }
+    return BillingStorage.saveInvoiceLineItem(this.tenant, lineItem);
+  }
+
+  private async _updateDraftInvoiceAmount(billingInvoice: BillingInvoice): Promise<boolean> {
+    // Amount of the invoice in cents
+    const lineItems = await BillingStorage.getInvoiceLineItems(this.tenant, { invoiceIDs: [billingInvoice.id] });
+    const amounts = LocalBillingHelpers.computeInvoiceAmounts(lineItems);
+    billingInvoice.amount = Utils.createDecimal(amounts.total).times(100).round().toNumber();
+    return BillingStorage.updateDraftInvoiceAmount(this.tenant, billingInvoice.id, billingInvoice.amount);
+  }
+
+  private async _finalizeInvoice(billingInvoice: BillingInvoice): Promise<boolean> {
+    if (!await BillingStorage.openDraftInvoice(this.tenant, billingInvoice.id, new Date())) {
+      return false;
+    }
+    // Invoices are numbered once issued to get a sequence without gaps
+    const sequence = await BillingStorage.getNextInvoiceSequence(this.tenant);
+    await BillingStorage.saveInvoiceNumber(this.tenant, billingInvoice.id,
+      `${this.settings.localBilling.invoiceNumberPrefix ?? ''}${sequence.toString().padStart(6, '0')}`);
+    return true;
+  }
+
+  private buildPaymentMethodNotSupportedResult(method: string, action: ServerAction): BillingOperationResult {
+    return {
+      succeeded: false,
+      error: new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method, action,
+        message: 'Payment methods are not supported - invoices are paid outside of the platform'
+      })
+    };
+  }
+}
@@ -1,6 +1,6 @@
 import { AsyncTaskType, AsyncTasks } from '../../../types/AsyncTask';
 /* eslint-disable @typescript-eslint/member-ordering */
-import { BillingDataTransactionStart, BillingDataTransactionStop, BillingDataTransactionUpdate, BillingInvoice, BillingInvoiceItem, BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingStatus, BillingTax, BillingUser, BillingUserData } from '../../../types/Billing';
+import { BillingAccount, BillingCreditNote, BillingDataTransactionStart, BillingDataTransactionStop, BillingDataTransactionUpdate, BillingInvoice, BillingInvoiceItem, BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingStatus, BillingTax, BillingUser, BillingUserData } from '../../../types/Billing';
 import FeatureToggles, { Feature } from '../../../utils/FeatureToggles';
 import StripeHelpers, { StripeChargeOperationResult } from './StripeHelpers';
 import Transaction, { StartTransactionErrorCode } from '../../../types/Transaction';
@@ -14,14 +14,12 @@ import { BillingSettings } from '../../../types/Setting';
 import BillingStorage from '../../../storage/mongodb/BillingStorage';
 import Constants from '../../../utils/Constants';
 import Cypher from '../../../utils/Cypher';
-import I18nManager from '../../../utils/I18nManager';
 import Logging from '../../../utils/Logging';
 import { Request } from 'express';
 import { ServerAction } from '../../../types/Server';
 import SettingStorage from '../../../storage/mongodb/SettingStorage';
 import Stripe from 'stripe';
 import Tenant from '../../../types/Tenant';
-import TransactionStorage from '../../../storage/mongodb/TransactionStorage';
 import User from '../../../types/User';
 import UserStorage from '../../../storage/mongodb/UserStorage';
 import Utils from '../../../utils/Utils';
@@ -277,9 +275,8 @@ export default class StripeBillingIntegration extends BillingIntegration {
     return stripeInvoice;
   }
 
-  private async _createStripeInvoice(customerID: string, userID: string, idempotencyKey?: string | number): Promise<Stripe.Invoice> {
-    // Let's create the STRIPE invoice
-    const stripeInvoice: Stripe.Invoice = await this.stripe.invoices.create({
+  private async _createStripeInvoice(customerID: string, userID: string, idempotencyKey?: string | number, billingAccount: BillingAccount = null): Promise<Stripe.Invoice> {
+    const parameters: Stripe.InvoiceCreateParams = {
       customer: customerID,
       // collection_method: 'send_invoice', //Default option is 'charge_automatically'
       // days_until_due: 30, // Optional when using default settings
@@ -288,7 +285,18 @@ export default class StripeBillingIntegration extends BillingIntegration {
         tenantID: this.tenant.id,
         userID
       }
-    }, {
+    };
+    if (billingAccount) {
+      // Consolidated invoices are sent to the billing account and paid by bank transfer
+      parameters.collection_method = 'send_invoice';
+      parameters.days_until_due = 30;
+      parameters.metadata = {
+        tenantID: this.tenant.id,
+        billingAccountID: billingAccount.id
+      };
+    }
+    // Let's create the STRIPE invoice
+    const stripeInvoice: Stripe.Invoice = await this.stripe.invoices.create(parameters, {
       // idempotency_key: idempotencyKey?.toString(),
       idempotencyKey: idempotencyKey?.toString(), // STRIPE version 8.137.0 - property as been renamed!!!
     });
@@ -312,15 +320,16 @@ export default class StripeBillingIntegration extends BillingIntegration {
     // The invoice date may change when finalizing a DRAFT invoice
     const epoch = stripeInvoice.status_transitions?.finalized_at || stripeInvoice.created;
     const createdOn = moment.unix(epoch).toDate(); // epoch to Date!
-    // Check metadata consistency - userID is mandatory!
+    // Check metadata consistency - userID is mandatory unless the invoice is issued to a billing account!
     const userID = metadata?.userID;
-    if (!userID) {
+    const billingAccountID = metadata?.billingAccountID;
+    if (!userID && !billingAccountID) {
       throw new BackendError({
         message: `Unexpected situation - invoice is not an e-Mobility invoice - ${stripeInvoiceID}`,
         source: Constants.CENTRAL_SERVER, module: MODULE_NAME, action: ServerAction.BILLING,
         method: 'synchronizeAsBillingInvoice',
       });
-    } else if (checkUserExists) {
+    } else if (userID && checkUserExists) {
       // Let's make sure the userID is still valid
       const user = await UserStorage.getUser(this.tenant.id, userID);
       if (!user) {
@@ -337,7 +346,7 @@ export default class StripeBillingIntegration extends BillingIntegration {
       id: billingInvoice?.id, // ACHTUNG: billingInvoice is null when creating the Billing Invoice
       // eslint-disable-next-line id-blacklist
       userID, invoiceID, customerID, liveMode, number, amount, amountPaid, currency, createdOn, downloadUrl, downloadable: !!downloadUrl,
-      status: status as BillingInvoiceStatus, payInvoiceUrl,
+      status: status as BillingInvoiceStatus, payInvoiceUrl, billingAccountID,
     };
     // Let's persist the up-to-date data
     const freshInvoiceId = await BillingStorage.saveInvoice(this.tenant, invoiceToSave);
@@ -401,8 +410,12 @@ export default class StripeBillingIntegration extends BillingIntegration {
     }
     if (event.type === 'payment_intent.succeeded') {
       // The payment was complete
-      // Fulfill any orders, e-mail receipts, etc
-      console.log('💰 Payment succeeded with payment method ' + event.data.object.payment_method);
+      if (event.data.object.metadata?.walletTopUp) {
+        await this.topUpWalletFromPaymentIntent(event.data.object.id);
+      } else {
+        // Fulfill any orders, e-mail receipts, etc
+        console.log('💰 Payment succeeded with payment method ' + event.data.object.payment_method);
+      }
     } else if (event.type === 'payment_intent.payment_failed') {
       // The payment failed to go through due to decline or authentication request
       const error = event.data.object.last_payment_error.message;
@@ -416,6 +429,33 @@ export default class StripeBillingIntegration extends BillingIntegration {
     return true;
   }
 
+  private async topUpWalletFromPaymentIntent(paymentIntentID: string): Promise<void> {
+    // Events are not always signed - get the payment from STRIPE
+    await this.checkConnection();
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentID);
+    if (paymentIntent.status !== 'succeeded' || !paymentIntent.metadata?.userID) {
+      await Logging.logWarning({
+        tenantID: this.tenant.id,
+        action: ServerAction.BILLING_WALLET_TOP_UP,
+        module: MODULE_NAME, method: 'topUpWalletFromPaymentIntent',
+        message: `Payment intent cannot be used to top up a wallet - payment intent: '${paymentIntentID}' - status: '${paymentIntent.status}'`
+      });
+      return;
+    }
+    const user = await UserStorage.getUser(this.tenant.id, paymentIntent.metadata.userID);
+    if (!user || user.billingData?.customerID !== paymentIntent.customer) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'topUpWalletFromPaymentIntent',
+        action: ServerAction.BILLING_WALLET_TOP_UP,
+        message: `Payment intent does not match the user - payment intent: '${paymentIntentID}' - user: '${paymentIntent.metadata.userID}'`
+      });
+    }
+    // Idempotent - the payment intent ID is the external reference of the top-up
+    await this.topUpWallet(user, Utils.createDecimal(paymentIntent.amount_received).dividedBy(100).toNumber(),
+      paymentIntent.currency, paymentIntent.description ?? 'Stripe payment', null, paymentIntent.id);
+  }
+
   public async chargeInvoice(billingInvoice: BillingInvoice): Promise<BillingInvoice> {
     await this.checkConnection();
     const operationResult = await this.chargeStripeInvoice(billingInvoice.invoiceID);
@@ -450,29 +490,69 @@ export default class StripeBillingIntegration extends BillingIntegration {
     return billingInvoice;
   }
 
-  // TODO - move this method to the billing abstraction to make it common to all billing implementation
-  private async _updateTransactionsBillingData(billingInvoice: BillingInvoice): Promise<void> {
-    await Promise.all(billingInvoice.sessions.map(async (session) => {
-      const transactionID = session.transactionID;
-      try {
-        const transaction = await TransactionStorage.getTransaction(this.tenant.id, Number(transactionID));
-        // Update Billing Data
-        transaction.billingData.stop.invoiceStatus = billingInvoice.status;
-        transaction.billingData.stop.invoiceNumber = billingInvoice.number;
-        transaction.billingData.lastUpdate = new Date();
-        // Save
-        await TransactionStorage.saveTransactionBillingData(this.tenant.id, transaction.id, transaction.billingData);
-      } catch (error) {
-        // Catch stripe errors and send the information back to the client
-        await Logging.logError({
-          tenantID: this.tenant.id,
-          action: ServerAction.BILLING_PERFORM_OPERATIONS,
-          module: MODULE_NAME, method: '_updateTransactionsBillingData',
-          message: 'Failed to update transaction billing data',
-          detailedMessages: { error: error.stack }
-        });
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async markInvoiceAsPaid(billingInvoice: BillingInvoice): Promise<BillingInvoice> {
+    // Payments are collected by STRIPE
+    throw new BackendError({
+      source: Constants.CENTRAL_SERVER,
+      module: MODULE_NAME, method: 'markInvoiceAsPaid',
+      action: ServerAction.BILLING_PAY_INVOICE,
+      message: `Stripe invoices cannot be marked as paid manually - invoice: '${billingInvoice.id}'`
+    });
+  }
+
+  public async createCreditNote(billingInvoice: BillingInvoice, transaction: Transaction, sessionAmount: number, reason: string): Promise<BillingCreditNote> {
+    await this.checkConnection();
+    // Fetch the invoice from stripe (do NOT TRUST the local copy)
+    const stripeInvoice = await this.getStripeInvoice(billingInvoice.invoiceID);
+    // The session line items are tagged with the transaction ID
+    const stripeLineItems = await this.stripe.invoices.listLineItems(stripeInvoice.id, { limit: 100 });
+    const sessionLineItem = stripeLineItems.data.find((lineItem) => lineItem.metadata?.transactionID === String(transaction.id));
+    if (!sessionLineItem) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        module: MODULE_NAME, method: 'createCreditNote',
+        action: ServerAction.BILLING_CREATE_CREDIT_NOTE,
+        message: `The session is not part of the stripe invoice - transaction ID: '${transaction.id}' - stripe invoice: '${stripeInvoice.id}'`
+      });
+    }
+    // The credited amount is taxed the same way as the session
+    const parameters: Stripe.CreditNoteCreateParams = {
+      invoice: stripeInvoice.id,
+      lines: [{
+        type: 'custom_line_item',
+        description: this.buildLineItemDescription(transaction),
+        quantity: 1,
+        unit_amount: Utils.createDecimal(sessionAmount).times(100).round().toNumber(), // In cents
+        tax_rates: sessionLineItem.tax_rates?.map((taxRate) => taxRate.id) ?? [],
+      }],
+      memo: reason,
+      metadata: {
+        tenantID: this.tenant.id,
+        transactionID: transaction.id,
+        userID: transaction.userID,
       }
-    }));
+    };
+    if (stripeInvoice.status === BillingInvoiceStatus.PAID) {
+      // The customer is refunded on the payment method used to pay the invoice
+      const creditNotePreview = await this.stripe.creditNotes.preview(parameters);
+      parameters.refund_amount = creditNotePreview.total;
+    }
+    const stripeCreditNote = await this.stripe.creditNotes.create(parameters);
+    // Let's replicate the new amount due of the invoice
+    await this.synchronizeAsBillingInvoice(await this.getStripeInvoice(stripeInvoice.id), false);
+    return {
+      creditNoteID: stripeCreditNote.id,
+      invoiceID: billingInvoice.id,
+      userID: transaction.userID,
+      transactionID: transaction.id,
+      // eslint-disable-next-line id-blacklist
+      number: stripeCreditNote.number,
+      amount: stripeCreditNote.total,
+      sessionAmount,
+      currency: stripeCreditNote.currency?.toUpperCase(),
+      liveMode: stripeCreditNote.livemode,
+    };
   }
 
   private async chargeStripeInvoice(invoiceID: string): Promise<StripeChargeOperationResult> {
@@ -484,10 +564,14 @@ export default class StripeBillingIntegration extends BillingIntegration {
         // Finalize the invoice (if necessary)
         if (stripeInvoice.status === BillingInvoiceStatus.DRAFT) {
           stripeInvoice = await this.stripe.invoices.finalizeInvoice(invoiceID);
+          // Consolidated invoices are emailed by STRIPE to the billing account
+          if (stripeInvoice.collection_method === 'send_invoice') {
+            stripeInvoice = await this.stripe.invoices.sendInvoice(invoiceID);
+          }
         }
         // Once finalized, the invoice is in the "open" state!
-        if (stripeInvoice.status === BillingInvoiceStatus.OPEN
-          || stripeInvoice.status === BillingInvoiceStatus.UNCOLLECTIBLE) {
+        if (stripeInvoice.collection_method === 'charge_automatically' && (stripeInvoice.status === BillingInvoiceStatus.OPEN
+          || stripeInvoice.status === BillingInvoiceStatus.UNCOLLECTIBLE)) {
           // Set the payment options
           const paymentOptions: Stripe.InvoicePayParams = {};
           stripeInvoice = await this.stripe.invoices.pay(invoiceID, paymentOptions);
@@ -790,6 +874,21 @@ export default class StripeBillingIntegration extends BillingIntegration {
     await this.checkConnection();
     // Check Transaction
     this.checkStartTransaction(transaction);
+    // Prepaid users do not need any payment method
+    const wallet = await this.getWallet(transaction.user);
+    if (wallet) {
+      this.checkWalletBalance(wallet);
+      return {
+        withBillingActive: true,
+        withWallet: true
+      };
+    }
+    // Sessions of the drivers attached to a billing account are invoiced to the account
+    if (transaction.user?.billingAccountID) {
+      return {
+        withBillingActive: true
+      };
+    }
     // Check Start Transaction Prerequisites
     const customerID: string = transaction.user?.billingData?.customerID;
     // Check whether the customer exists or not
@@ -838,7 +937,6 @@ export default class StripeBillingIntegration extends BillingIntegration {
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/require-await
   public async updateTransaction(transaction: Transaction): Promise<BillingDataTransactionUpdate> {
     // Check User
     if (!transaction.userID || !transaction.user) {
@@ -852,7 +950,8 @@ export default class StripeBillingIntegration extends BillingIntegration {
     }
     return {
       // Just propagate the initial state
-      withBillingActive: transaction.billingData?.withBillingActive
+      withBillingActive: transaction.billingData?.withBillingActive,
+      walletBalanceExhausted: await this.isWalletBalanceExhausted(transaction)
     };
   }
 
@@ -877,6 +976,26 @@ export default class StripeBillingIntegration extends BillingIntegration {
     return parameters;
   }
 
+  private _buildInvoiceItemIdleFeeParameters(customerID: string, billingInvoiceItem: BillingInvoiceItem, invoiceID?: string): Stripe.InvoiceItemCreateParams {
+    const { idleFeeData, taxes } = billingInvoiceItem;
+    const currency = idleFeeData.pricingData.currency.toLowerCase();
+    // Build stripe parameters for the idle fee
+    const parameters: Stripe.InvoiceItemCreateParams = {
+      invoice: invoiceID,
+      customer: customerID,
+      currency,
+      description: idleFeeData.description,
+      tax_rates: taxes,
+      amount: Utils.createDecimal(idleFeeData.pricingData.amount).times(100).round().toNumber(), // In cents
+      metadata: { ...billingInvoiceItem?.metadata }
+    };
+    if (!parameters.invoice) {
+      // STRIPE throws an exception when invoice is set to null.
+      delete parameters.invoice;
+    }
+    return parameters;
+  }
+
   private _buildInvoiceItemParameters(customerID: string, billingInvoiceItem: BillingInvoiceItem, invoiceID?: string): Stripe.InvoiceItemCreateParams {
     /* --------------------------------------------------------------------------------
      Convert pricing information to STRIPE expected data
@@ -939,6 +1058,11 @@ export default class StripeBillingIntegration extends BillingIntegration {
         status: BillingStatus.UNBILLED
       };
     }
+    // Prepaid sessions are charged on the wallet
+    const walletBillingData = await this.chargeWallet(transaction);
+    if (walletBillingData) {
+      return walletBillingData;
+    }
     // Do not bill suspicious StopTransaction events
     if (FeatureToggles.isFeatureActive(Feature.BILLING_CHECK_THRESHOLD_ON_STOP) && !Utils.isDevelopmentEnv()) {
       // Suspicious StopTransaction may occur after a 'Housing temperature approaching limit' error on some charging stations
@@ -984,7 +1108,8 @@ export default class StripeBillingIntegration extends BillingIntegration {
     this.checkStopTransaction(transaction);
     try {
       // Check that the customer STRIPE exists
-      const customerID: string = transaction.user?.billingData?.customerID;
+      const billingAccount = await this.getBillingAccount(transaction.user);
+      const customerID: string = billingAccount ? await this.getBillingAccountCustomerID(billingAccount) : transaction.user?.billingData?.customerID;
       const customer = await this.getStripeCustomer(customerID);
       if (customer) {
         await Logging.logInfo({
@@ -1068,7 +1193,9 @@ export default class StripeBillingIntegration extends BillingIntegration {
     // ACHTUNG - STRIPE expects the amount and prices in CENTS!
     // -------------------------------------------------------------------------------
     const quantity = Utils.createDecimal(transaction.stop.totalConsumptionWh).dividedBy(1000).toNumber(); // Total consumption in kW.h
-    const amount = roundedPrice; // Total amount for the line item
+    // The idle fee is billed on a separate line
+    const idleFeeAmount = Utils.truncTo(transaction.pricingData?.idleFeeAmount ?? 0, 2);
+    const amount = Utils.createDecimal(roundedPrice).minus(idleFeeAmount).toNumber(); // Total amount for the line item
     const currency = priceUnit;
     // -------------------------------------------------------------------------------
     const taxes = this.getTaxRateIds(); // TODO - take into account SITE settings
@@ -1091,10 +1218,22 @@ export default class StripeBillingIntegration extends BillingIntegration {
         roundedPrice,
         priceUnit,
         totalConsumptionWh,
+        idleFeeAmount,
         begin: transaction.timestamp?.valueOf(),
         end: timestamp?.valueOf()
       }
     };
+    // Add Idle Fee information
+    if (idleFeeAmount > 0) {
+      billingInvoiceItem.idleFeeData = {
+        description: this.buildLineItemIdleFeeDescription(transaction),
+        pricingData: {
+          quantity: 1,
+          amount: idleFeeAmount,
+          currency
+        }
+      };
+    }
     // Add Parking Time information
     if (FeatureToggles.isFeatureActive(Feature.BILLING_ITEM_WITH_PARKING_TIME)) {
       // TODO - draft implementation - behind a feature toggle - not yet activated
@@ -1115,10 +1254,12 @@ export default class StripeBillingIntegration extends BillingIntegration {
     // Let's collect the required information
     let refreshDataRequired = false;
     const userID: string = user.id;
-    const customerID: string = user.billingData?.customerID;
+    // Sessions of the drivers attached to a billing account are consolidated in a monthly invoice
+    const billingAccount = await this.getBillingAccount(user);
+    const customerID: string = billingAccount ? await this.getBillingAccountCustomerID(billingAccount) : user.billingData?.customerID;
     // Check whether a DRAFT invoice can be used
     let stripeInvoice: Stripe.Invoice;
-    if (this.settings.billing?.immediateBillingAllowed) {
+    if (!billingAccount && this.settings.billing?.immediateBillingAllowed) {
       // immediateBillingAllowed is ON - we want an invoice per transaction
       // Because of some STRIPE constraints the invoice creation must be postpone!
       stripeInvoice = null;
@@ -1142,6 +1283,20 @@ export default class StripeBillingIntegration extends BillingIntegration {
         });
       }
     }
+    if (billingInvoiceItem.idleFeeData) {
+      const invoiceItemParameters: Stripe.InvoiceItemCreateParams = this._buildInvoiceItemIdleFeeParameters(customerID, billingInvoiceItem, stripeInvoice?.id);
+      const stripeInvoiceItem = await this._createStripeInvoiceItem(invoiceItemParameters, this.buildIdemPotencyKey(idemPotencyKey, 'idleFee'));
+      if (!stripeInvoiceItem) {
+        await Logging.logError({
+          tenantID: this.tenant.id,
+          user: user.id,
+          source: Constants.CENTRAL_SERVER,
+          action: ServerAction.BILLING_TRANSACTION,
+          module: MODULE_NAME, method: 'billInvoiceItem',
+          message: `Unexpected situation - stripe invoice item is null - stripe invoice id: '${stripeInvoice?.id}'`
+        });
+      }
+    }
     const invoiceItemParameters: Stripe.InvoiceItemCreateParams = this._buildInvoiceItemParameters(customerID, billingInvoiceItem, stripeInvoice?.id);
     const stripeInvoiceItem = await this._createStripeInvoiceItem(invoiceItemParameters, this.buildIdemPotencyKey(idemPotencyKey, 'energy'));
     if (!stripeInvoiceItem) {
@@ -1156,13 +1311,13 @@ export default class StripeBillingIntegration extends BillingIntegration {
     }
     if (!stripeInvoice) {
       // Let's create a new DRAFT invoice (if none has been found)
-      stripeInvoice = await this._createStripeInvoice(customerID, userID, this.buildIdemPotencyKey(idemPotencyKey));
+      stripeInvoice = await this._createStripeInvoice(customerID, userID, this.buildIdemPotencyKey(idemPotencyKey), billingAccount);
     } else {
       // Here an existing invoice is being reused
       refreshDataRequired = true;
     }
     let operationResult: StripeChargeOperationResult;
-    if (this.settings.billing?.immediateBillingAllowed) {
+    if (!billingAccount && this.settings.billing?.immediateBillingAllowed) {
       // Let's try to bill the stripe invoice using the default payment method of the customer
       operationResult = await this.chargeStripeInvoice(stripeInvoice.id);
       if (!operationResult?.succeeded && operationResult?.error) {
@@ -1212,54 +1367,6 @@ export default class StripeBillingIntegration extends BillingIntegration {
     return description;
   }
 
-  private buildLineItemDescription(transaction: Transaction) {
-    const chargeBox = transaction.chargeBox;
-    const i18nManager = I18nManager.getInstanceForLocale(transaction.user.locale);
-    const sessionID = String(transaction?.id);
-    const startDate = i18nManager.formatDateTime(transaction.timestamp, 'LL', transaction.timezone);
-    const startTime = i18nManager.formatDateTime(transaction.timestamp, 'LT', transaction.timezone);
-    const stopTime = i18nManager.formatDateTime(transaction.stop.timestamp, 'LT', transaction.timezone);
-    const formattedConsumptionkWh = this.formatConsumptionToKWh(transaction);
-    const timeSpent = this.convertTimeSpentToString(transaction);
-    const descriptionPattern = (chargeBox?.siteArea?.name) ? 'billing.chargingAtSiteArea' : 'billing.chargingAtChargeBox';
-    // Get the translated line item description
-    const description = i18nManager.translate(descriptionPattern, {
-      sessionID,
-      startDate,
-      startTime,
-      timeSpent,
-      totalConsumption: formattedConsumptionkWh,
-      siteAreaName: chargeBox?.siteArea?.name,
-      chargeBoxID: transaction?.chargeBoxID,
-      stopTime,
-    });
-    return description;
-  }
-
-  private formatConsumptionToKWh(transaction: Transaction): string {
-    // ACHTUNG: consumed energy shown in the line item might be slightly different from the billed energy
-    return Utils.createDecimal(transaction.stop.totalConsumptionWh).dividedBy(1000).toNumber().toLocaleString(this.getUserLocale(transaction));
-  }
-
-  private getUserLocale(transaction: Transaction) {
-    return transaction.user.locale ? transaction.user.locale.replace('_', '-') : Constants.DEFAULT_LOCALE.replace('_', '-');
-  }
-
-  private computeTimeSpentInSeconds(transaction: Transaction): number {
-    let totalDuration: number;
-    if (!transaction.stop) {
-      totalDuration = moment.duration(moment(transaction.lastConsumption.timestamp).diff(moment(transaction.timestamp))).asSeconds();
-    } else {
-      totalDuration = moment.duration(moment(transaction.stop.timestamp).diff(moment(transaction.timestamp))).asSeconds();
-    }
-    return totalDuration;
-  }
-
-  private convertTimeSpentToString(transaction: Transaction): string {
-    const totalDuration = this.computeTimeSpentInSeconds(transaction);
-    return moment.duration(totalDuration, 's').format('h[h]mm', { trim: false });
-  }
-
   // eslint-disable-next-line @typescript-eslint/require-await, @typescript-eslint/no-unused-vars
   public async checkIfUserCanBeCreated(user: User): Promise<boolean> {
     // throw new BackendError({
@@ -1427,6 +1534,31 @@ export default class StripeBillingIntegration extends BillingIntegration {
     }
   }
 
+  private async getBillingAccountCustomerID(billingAccount: BillingAccount): Promise<string> {
+    if (billingAccount.billingData?.customerID) {
+      return billingAccount.billingData.customerID;
+    }
+    // The STRIPE customer of the billing account is created with its first invoice
+    const customer: Stripe.Customer = await this.stripe.customers.create({
+      name: billingAccount.name,
+      email: billingAccount.email,
+      address: StripeHelpers.buildStripeAddress({ address: billingAccount.address }),
+      metadata: {
+        tenantID: this.tenant.id,
+        billingAccountID: billingAccount.id // IMPORTANT - keep track on the stripe side of the original billing account
+      }
+    }, {
+      idempotencyKey: this.buildIdemPotencyKey(billingAccount.id, 'billingAccount'),
+    });
+    billingAccount.billingData = {
+      customerID: customer.id,
+      liveMode: customer.livemode,
+      lastChangedOn: new Date(),
+    };
+    await BillingStorage.saveBillingAccountBillingData(this.tenant, billingAccount.id, billingAccount.billingData);
+    return customer.id;
+  }
+
   private async getStripeCustomer(customerID: string): Promise<Stripe.Customer> {
     if (customerID) {
       try {
@@ -1502,6 +1634,18 @@ export default class StripeBillingIntegration extends BillingIntegration {
       });
       errorCodes.push(StartTransactionErrorCode.BILLING_NO_TAX);
     }
+    // Prepaid users do not need any payment method
+    const wallet = await this.getWallet(user);
+    if (wallet) {
+      if (!this.isWalletBalanceSufficient(wallet)) {
+        errorCodes.push(StartTransactionErrorCode.BILLING_INSUFFICIENT_WALLET_BALANCE);
+      }
+      return errorCodes;
+    }
+    // Sessions of the drivers attached to a billing account are invoiced to the account
+    if (user?.billingAccountID) {
+      return errorCodes;
+    }
     // Check user prerequisites
     const customerID: string = user?.billingData?.customerID;
     try {
@@ -27,9 +27,9 @@ export default class StripeHelpers {
       // The operation failed
       billingError = StripeHelpers.convertToBillingError(operationResult.error);
     }
-    // Do we have a new charging session?
+    // Do we have a new charging session? (subscription fees are not related to a session)
     let session: BillingSessionData;
-    if (billingInvoiceItem) {
+    if (billingInvoiceItem?.transactionID) {
       session = {
         transactionID: billingInvoiceItem.transactionID,
         description: billingInvoiceItem.description,
@@ -162,7 +162,7 @@ export default class StripeHelpers {
     return billingDetails;
   }
 
-  public static buildStripeAddress(user: User): Stripe.Address {
+  public static buildStripeAddress(user: Partial<User>): Stripe.Address {
     if (!user.address?.country) {
       // Stripe does not support addresses where the country is not set!
       return null;
@@ -0,0 +1,361 @@
+import { IdleFeePolicy, PricedDimensionData, Pricing, PricingComponent, PricingDimensionType, PricingModel, PricingRestriction, TransactionPricingData, UserGroupPricing } from '../../types/Pricing';
+
+import { BillingSubscription } from '../../types/Billing';
+import { ChargePointStatus } from '../../types/ocpp/OCPPServer';
+import Consumption from '../../types/Consumption';
+import { OpeningTimes } from '../../types/OpeningTimes';
+import { SimplePricingSetting } from '../../types/Setting';
+import Tariff from '../../types/Tariff';
+import Transaction from '../../types/Transaction';
+import User from '../../types/User';
+import Utils from '../../utils/Utils';
+import moment from 'moment-timezone';
+
+interface PricingContext {
+  timestamp: Date;
+  timezone: string;
+  consumedEnergyWh: number;
+  instantWatts: number;
+  durationSecs: number;
+}
+
+export default class PricingEngine {
+  public static buildSimplePricingModel(simplePricingSetting: SimplePricingSetting): PricingModel {
+    return {
+      id: 'simple',
+      description: 'Simple Pricing',
+      currency: simplePricingSetting.currency,
+      timestamp: simplePricingSetting.last_updated,
+      pricings: !Utils.isEmptyArray(simplePricingSetting.pricings) ? simplePricingSetting.pricings : [
+        {
+          components: [
+            { type: PricingDimensionType.ENERGY, price: simplePricingSetting.price, stepSize: 1 }
+          ]
+        }
+      ],
+      userGroupPricings: simplePricingSetting.userGroupPricings ?? [],
+      idleFee: simplePricingSetting.idleFee
+    };
+  }
+
+  public static buildTariffPricingModel(tariff: Tariff): PricingModel {
+    return {
+      id: tariff.id,
+      description: tariff.description,
+      currency: tariff.currency,
+      timestamp: tariff.lastChangedOn ?? tariff.createdOn,
+      pricings: tariff.pricings ?? [],
+      userGroupPricings: tariff.userGroupPricings ?? [],
+      idleFee: tariff.idleFee
+    };
+  }
+
+  public static resolveUserGroupPricingModel(pricingModel: PricingModel, user: User, tagID: string, userSiteIDs: string[]): PricingModel {
+    // The first user group that matches replaces the default pricings
+    const userGroupPricing = pricingModel.userGroupPricings?.find(
+      (groupPricing) => PricingEngine.checkUserGroup(groupPricing, user, tagID, userSiteIDs));
+    return {
+      id: pricingModel.id,
+      description: pricingModel.description,
+      currency: pricingModel.currency,
+      timestamp: pricingModel.timestamp,
+      pricings: userGroupPricing ? userGroupPricing.pricings : pricingModel.pricings,
+      userGroup: userGroupPricing?.name,
+      idleFee: pricingModel.idleFee,
+    };
+  }
+
+  public static resolveSubscriptionPricingModel(pricingModel: PricingModel, subscription: BillingSubscription): PricingModel {
+    if (!subscription?.plan) {
+      return pricingModel;
+    }
+    // Energy included in the plan is shared by all the sessions of the period
+    const includedEnergyWh = Utils.createDecimal(Utils.convertToFloat(subscription.plan.includedEnergyKWh)).mul(1000).toNumber();
+    return {
+      ...pricingModel,
+      subscription: {
+        subscriptionID: subscription.id,
+        planName: subscription.plan.name,
+        includedEnergyWh: Math.max(0, includedEnergyWh),
+        energyPrice: subscription.plan.energyPrice,
+        energyDiscountPercent: subscription.plan.energyDiscountPercent,
+      }
+    };
+  }
+
+  public static initPricingData(): TransactionPricingData {
+    return {
+      energyWh: 0,
+      chargingTimeSecs: 0,
+      parkingTimeSecs: 0,
+      idleTimeSecs: 0,
+      idleFeeAmount: 0,
+    };
+  }
+
+  public static priceSessionStart(pricingModel: PricingModel, transaction: Transaction): PricedDimensionData[] {
+    const pricedDimensions: PricedDimensionData[] = [];
+    // Flat fee is charged once when the session starts
+    const component = PricingEngine.getMatchingComponent(pricingModel, PricingDimensionType.FLAT, {
+      timestamp: transaction.timestamp,
+      timezone: transaction.timezone,
+      consumedEnergyWh: 0,
+      instantWatts: 0,
+      durationSecs: 0,
+    });
+    if (component) {
+      pricedDimensions.push({
+        type: PricingDimensionType.FLAT,
+        quantity: 1,
+        amount: Utils.convertToFloat(component.price),
+      });
+    }
+    return pricedDimensions;
+  }
+
+  public static priceConsumption(pricingModel: PricingModel, transaction: Transaction, consumption: Consumption,
+      connectorStatus?: ChargePointStatus, includedEnergyWh = 0): PricedDimensionData[] {
+    const pricedDimensions: PricedDimensionData[] = [];
+    if (!transaction.pricingData) {
+      transaction.pricingData = PricingEngine.initPricingData();
+    }
+    const pricingData = transaction.pricingData;
+    // Restrictions are evaluated at the beginning of the consumption
+    const context: PricingContext = {
+      timestamp: consumption.startedAt ?? consumption.endedAt,
+      timezone: transaction.timezone,
+      consumedEnergyWh: pricingData.energyWh,
+      instantWatts: Utils.convertToFloat(consumption.instantWatts),
+      durationSecs: Utils.createDecimal(pricingData.chargingTimeSecs).plus(pricingData.parkingTimeSecs).toNumber(),
+    };
+    const consumptionWh = Utils.convertToFloat(consumption.consumptionWh);
+    const durationSecs = consumption.startedAt && consumption.endedAt ?
+      Utils.createDecimal(moment(consumption.endedAt).diff(consumption.startedAt, 'milliseconds')).div(1000).toNumber() : 0;
+    // Energy
+    if (consumptionWh > 0) {
+      pricedDimensions.push(pricingModel.subscription ?
+        PricingEngine.priceMemberEnergy(pricingModel, context, pricingData, consumptionWh, includedEnergyWh) :
+        PricingEngine.priceDimension(pricingModel, PricingDimensionType.ENERGY, context, pricingData.energyWh, consumptionWh, 1000));
+      pricingData.energyWh = Utils.createDecimal(pricingData.energyWh).plus(consumptionWh).toNumber();
+    }
+    if (durationSecs > 0) {
+      // Charging time
+      if (consumptionWh > 0) {
+        pricedDimensions.push(PricingEngine.priceDimension(pricingModel, PricingDimensionType.TIME, context,
+          pricingData.chargingTimeSecs, durationSecs, 3600));
+        pricingData.chargingTimeSecs = Utils.createDecimal(pricingData.chargingTimeSecs).plus(durationSecs).toNumber();
+      // Parking time (plugged without charging)
+      } else {
+        pricedDimensions.push(PricingEngine.priceDimension(pricingModel, PricingDimensionType.PARKING_TIME, context,
+          pricingData.parkingTimeSecs, durationSecs, 3600));
+        pricingData.parkingTimeSecs = Utils.createDecimal(pricingData.parkingTimeSecs).plus(durationSecs).toNumber();
+      }
+      // Idle fee (plugged after the end of the charge, the EVSE suspending the charge is not idle)
+      if (pricingModel.idleFee?.enabled) {
+        if (consumptionWh > 0 || connectorStatus === ChargePointStatus.CHARGING) {
+          pricingData.idleTimeSecs = 0;
+        } else if (pricingData.energyWh > 0 && PricingEngine.isConnectorIdle(connectorStatus)) {
+          const pricedIdleFee = PricingEngine.priceIdleFee(pricingModel.idleFee, pricingData, context, durationSecs);
+          if (pricedIdleFee) {
+            pricedDimensions.push(pricedIdleFee);
+          }
+        }
+      }
+    }
+    return pricedDimensions;
+  }
+
+  public static isConnectorIdle(connectorStatus: ChargePointStatus): boolean {
+    return connectorStatus === ChargePointStatus.SUSPENDED_EV || connectorStatus === ChargePointStatus.FINISHING;
+  }
+
+  public static getIdleFeeRemainingGraceSecs(idleFee: IdleFeePolicy, pricingData: TransactionPricingData): number {
+    return Math.max(0, Utils.createDecimal(idleFee.gracePeriodMins).mul(60).minus(Utils.convertToFloat(pricingData.idleTimeSecs)).toNumber());
+  }
+
+  public static computeAmount(pricedDimensions: PricedDimensionData[]): number {
+    let amount = Utils.createDecimal(0);
+    for (const pricedDimension of pricedDimensions) {
+      amount = amount.plus(pricedDimension.amount);
+    }
+    return amount.toNumber();
+  }
+
+  private static priceMemberEnergy(pricingModel: PricingModel, context: PricingContext, pricingData: TransactionPricingData,
+      consumptionWh: number, includedEnergyWh: number): PricedDimensionData {
+    const subscription = pricingModel.subscription;
+    // The energy reserved on the included energy of the subscription is free
+    const includedWh = Math.max(0, Math.min(consumptionWh, includedEnergyWh));
+    pricingData.includedEnergyWh = Utils.createDecimal(Utils.convertToFloat(pricingData.includedEnergyWh)).plus(includedWh).toNumber();
+    const pricedEnergy = PricingEngine.priceDimension(pricingModel, PricingDimensionType.ENERGY, context,
+      pricingData.energyWh + includedWh, consumptionWh - includedWh, 1000, subscription.energyPrice);
+    // The member price takes precedence over the discount
+    if (Utils.isNullOrUndefined(subscription.energyPrice) && subscription.energyDiscountPercent > 0) {
+      pricedEnergy.amount = Utils.createDecimal(pricedEnergy.amount).mul(100 - subscription.energyDiscountPercent).div(100).toNumber();
+    }
+    return { ...pricedEnergy, quantity: consumptionWh };
+  }
+
+  private static priceDimension(pricingModel: PricingModel, type: PricingDimensionType, context: PricingContext,
+      cumulatedQuantity: number, quantity: number, unitDivider: number, memberPrice?: number): PricedDimensionData {
+    const component = PricingEngine.getMatchingComponent(pricingModel, type, context);
+    // The member price also applies when the tariff does not price the dimension
+    if (!component && Utils.isNullOrUndefined(memberPrice)) {
+      return { type, quantity, amount: 0 };
+    }
+    const price = !Utils.isNullOrUndefined(memberPrice) ? Utils.convertToFloat(memberPrice) : Utils.convertToFloat(component.price);
+    // Bill the blocks of step size that have been started with this consumption
+    const billedQuantity = Utils.createDecimal(PricingEngine.roundUpToStepSize(cumulatedQuantity + quantity, component?.stepSize))
+      .minus(PricingEngine.roundUpToStepSize(cumulatedQuantity, component?.stepSize)).toNumber();
+    return {
+      type,
+      quantity,
+      amount: Utils.createDecimal(price).mul(billedQuantity).div(unitDivider).toNumber(),
+    };
+  }
+
+  private static priceIdleFee(idleFee: IdleFeePolicy, pricingData: TransactionPricingData, context: PricingContext,
+      durationSecs: number): PricedDimensionData {
+    // The idle time is not counted while the site area is closed
+    if (idleFee.exemptOutsideOpeningTimes && idleFee.openingTimes &&
+        !PricingEngine.checkOpeningTimes(idleFee.openingTimes, context.timestamp, context.timezone)) {
+      return null;
+    }
+    const gracePeriodSecs = Utils.createDecimal(idleFee.gracePeriodMins).mul(60).toNumber();
+    const previousIdleTimeSecs = Utils.convertToFloat(pricingData.idleTimeSecs);
+    pricingData.idleTimeSecs = Utils.createDecimal(previousIdleTimeSecs).plus(durationSecs).toNumber();
+    const previousFeeSecs = Math.max(0, previousIdleTimeSecs - gracePeriodSecs);
+    const feeSecs = Math.max(0, pricingData.idleTimeSecs - gracePeriodSecs);
+    if (feeSecs === 0) {
+      return null;
+    }
+    // Bill the minutes that have been started with this consumption
+    const billedMins = Math.ceil(feeSecs / 60) - Math.ceil(previousFeeSecs / 60);
+    let amount = Utils.createDecimal(Utils.convertToFloat(idleFee.pricePerMin)).mul(billedMins).toNumber();
+    if (!Utils.isNullOrUndefined(idleFee.maxAmount)) {
+      amount = Math.max(0, Math.min(amount, Utils.createDecimal(idleFee.maxAmount).minus(Utils.convertToFloat(pricingData.idleFeeAmount)).toNumber()));
+    }
+    pricingData.idleFeeAmount = Utils.createDecimal(Utils.convertToFloat(pricingData.idleFeeAmount)).plus(amount).toNumber();
+    return {
+      type: PricingDimensionType.IDLE_FEE,
+      quantity: Utils.createDecimal(feeSecs).minus(previousFeeSecs).toNumber(),
+      amount,
+    };
+  }
+
+  private static checkOpeningTimes(openingTimes: OpeningTimes, timestamp: Date, timezone: string): boolean {
+    if (openingTimes.twentyFourBySeven) {
+      return true;
+    }
+    // Exceptions take precedence over the regular hours
+    const date = moment(timestamp);
+    if (openingTimes.exceptionalClosings?.some((period) => date.isBetween(period.periodBegin, period.periodEnd, null, '[)'))) {
+      return false;
+    }
+    if (openingTimes.exceptionalOpenings?.some((period) => date.isBetween(period.periodBegin, period.periodEnd, null, '[)'))) {
+      return true;
+    }
+    const localTime = timezone ? moment(timestamp).tz(timezone) : moment.utc(timestamp);
+    const time = localTime.format('HH:mm');
+    return openingTimes.regularHours?.some((regularHour) => regularHour.weekday === localTime.isoWeekday() &&
+      time >= regularHour.periodBegin && time < regularHour.periodEnd) ?? false;
+  }
+
+  private static roundUpToStepSize(quantity: number, stepSize: number): number {
+    if (!stepSize || stepSize <= 1) {
+      return quantity;
+    }
+    return Math.ceil(quantity / stepSize) * stepSize;
+  }
+
+  private static getMatchingComponent(pricingModel: PricingModel, type: PricingDimensionType, context: PricingContext): PricingComponent {
+    // The first tariff element that matches and contains the dimension is used
+    for (const pricing of pricingModel.pricings ?? []) {
+      const component = pricing.components?.find((pricingComponent) => pricingComponent.type === type);
+      if (component && PricingEngine.checkPricingRestrictions(pricing, context)) {
+        return component;
+      }
+    }
+    return null;
+  }
+
+  private static checkPricingRestrictions(pricing: Pricing, context: PricingContext): boolean {
+    const restrictions: PricingRestriction = pricing.restrictions;
+    if (!restrictions) {
+      return true;
+    }
+    const localTime = context.timezone ? moment(context.timestamp).tz(context.timezone) : moment.utc(context.timestamp);
+    // Time of day (the end time can be the day after)
+    if (restrictions.startTime || restrictions.endTime) {
+      const time = localTime.format('HH:mm');
+      const startTime = restrictions.startTime ?? '00:00';
+      const endTime = restrictions.endTime ?? '24:00';
+      if (startTime <= endTime) {
+        if (time < startTime || time >= endTime) {
+          return false;
+        }
+      } else if (time < startTime && time >= endTime) {
+        return false;
+      }
+    }
+    // Dates
+    const date = localTime.format('YYYY-MM-DD');
+    if (restrictions.startDate && date < restrictions.startDate) {
+      return false;
+    }
+    if (restrictions.endDate && date >= restrictions.endDate) {
+      return false;
+    }
+    // Day of week
+    if (!Utils.isEmptyArray(restrictions.daysOfWeek) && !restrictions.daysOfWeek.includes(localTime.isoWeekday())) {
+      return false;
+    }
+    // Energy
+    const consumedKWh = Utils.createDecimal(context.consumedEnergyWh).div(1000).toNumber();
+    if (!Utils.isNullOrUndefined(restrictions.minKWh) && consumedKWh < restrictions.minKWh) {
+      return false;
+    }
+    if (!Utils.isNullOrUndefined(restrictions.maxKWh) && consumedKWh >= restrictions.maxKWh) {
+      return false;
+    }
+    // Power
+    const powerkW = Utils.createDecimal(context.instantWatts).div(1000).toNumber();
+    if (!Utils.isNullOrUndefined(restrictions.minPowerkW) && powerkW < restrictions.minPowerkW) {
+      return false;
+    }
+    if (!Utils.isNullOrUndefined(restrictions.maxPowerkW) && powerkW >= restrictions.maxPowerkW) {
+      return false;
+    }
+    // Duration
+    if (!Utils.isNullOrUndefined(restrictions.minDurationSecs) && context.durationSecs < restrictions.minDurationSecs) {
+      return false;
+    }
+    if (!Utils.isNullOrUndefined(restrictions.maxDurationSecs) && context.durationSecs >= restrictions.maxDurationSecs) {
+      return false;
+    }
+    return true;
+  }
+
+  private static checkUserGroup(userGroupPricing: UserGroupPricing, user: User, tagID: string, userSiteIDs: string[]): boolean {
+    // All the criteria that are set must match
+    const hasCriteria = !Utils.isEmptyArray(userGroupPricing.userRoles) || !Utils.isEmptyArray(userGroupPricing.costCenters) ||
+      !Utils.isEmptyArray(userGroupPricing.siteIDs) || !Utils.isEmptyArray(userGroupPricing.tagIDs);
+    if (!hasCriteria) {
+      return false;
+    }
+    if (!Utils.isEmptyArray(userGroupPricing.userRoles) && !userGroupPricing.userRoles.includes(user?.role)) {
+      return false;
+    }
+    if (!Utils.isEmptyArray(userGroupPricing.costCenters) && !userGroupPricing.costCenters.includes(user?.costCenter)) {
+      return false;
+    }
+    if (!Utils.isEmptyArray(userGroupPricing.siteIDs) &&
+        !userGroupPricing.siteIDs.some((siteID) => userSiteIDs?.includes(siteID))) {
+      return false;
+    }
+    if (!Utils.isEmptyArray(userGroupPricing.tagIDs) && !userGroupPricing.tagIDs.includes(tagID)) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,128 @@
+import ChargingStation, { CurrentType } from '../../types/ChargingStation';
+import { PricedDimensionData, PricingEstimation } from '../../types/Pricing';
+
+import { CarCatalog } from '../../types/Car';
+import { ChargePointStatus } from '../../types/ocpp/OCPPServer';
+import Consumption from '../../types/Consumption';
+import PricingEngine from './PricingEngine';
+import SimplePricingIntegration from './simple-pricing/SimplePricingIntegration';
+import Transaction from '../../types/Transaction';
+import User from '../../types/User';
+import Utils from '../../utils/Utils';
+import moment from 'moment';
+
+const CONSUMPTION_INTERVAL_SECS = 60;
+const MAX_CONSUMPTION_INTERVALS = 1440;
+
+export default class PricingEstimator {
+  public static getEstimatedPowerWatts(chargingStation: ChargingStation, connectorID: number, carCatalog?: CarCatalog): number {
+    const connectorPowerWatts = Utils.getChargingStationPower(chargingStation, null, connectorID);
+    if (!carCatalog) {
+      return connectorPowerWatts;
+    }
+    // The car's on-board charger limits AC charging, its maximum fast charging power limits DC charging
+    const carPowerKW = Utils.getChargingStationCurrentType(chargingStation, null, connectorID) === CurrentType.DC ?
+      carCatalog.fastChargePowerMax : carCatalog.chargeStandardPower;
+    if (!carPowerKW) {
+      return connectorPowerWatts;
+    }
+    return Math.min(connectorPowerWatts, Utils.createDecimal(carPowerKW).mul(1000).toNumber());
+  }
+
+  public static async estimateSession(pricingImpl: SimplePricingIntegration, chargingStation: ChargingStation, connectorID: number,
+      params: { user: User; tagID?: string; carCatalog?: CarCatalog; targetEnergyWh?: number; targetDurationSecs?: number }): Promise<PricingEstimation> {
+    const powerWatts = PricingEstimator.getEstimatedPowerWatts(chargingStation, connectorID, params.carCatalog);
+    // The battery cannot take more than its usable capacity
+    let energyWh = params.targetEnergyWh;
+    if (params.carCatalog?.batteryCapacityUseable) {
+      const batteryCapacityWh = Utils.createDecimal(params.carCatalog.batteryCapacityUseable).mul(1000).toNumber();
+      energyWh = energyWh ? Math.min(energyWh, batteryCapacityWh) : batteryCapacityWh;
+    }
+    // Charge at constant power until the energy is delivered or the duration is over, the remaining time is parking
+    let chargingTimeSecs = energyWh ? Math.ceil(Utils.createDecimal(energyWh).mul(3600).div(powerWatts).toNumber()) : params.targetDurationSecs;
+    if (params.targetDurationSecs) {
+      chargingTimeSecs = Math.min(chargingTimeSecs, params.targetDurationSecs);
+    }
+    const parkingTimeSecs = params.targetDurationSecs ? params.targetDurationSecs - chargingTimeSecs : 0;
+    const totalDurationSecs = chargingTimeSecs + parkingTimeSecs;
+    // Long sessions are priced with longer intervals, the end of the charge can split one of them
+    const intervalSecs = Math.max(CONSUMPTION_INTERVAL_SECS, Math.ceil(totalDurationSecs / (MAX_CONSUMPTION_INTERVALS - 1)));
+    // Quote only: nothing is reserved on the subscription of the user
+    const readOnlyPricingImpl = pricingImpl.getReadOnlyPricing();
+    // Simulate a session starting now
+    const startDate = new Date();
+    const transaction = {
+      timestamp: startDate,
+      timezone: Utils.getTimezone(chargingStation.coordinates),
+      chargeBoxID: chargingStation.id,
+      connectorId: connectorID,
+      siteID: chargingStation.siteID,
+      siteAreaID: chargingStation.siteAreaID,
+      userID: params.user?.id,
+      user: params.user,
+      tagID: params.tagID,
+    } as Transaction;
+    const pricedDimensions: PricedDimensionData[] = [];
+    let remainingEnergyWh = energyWh ?? Utils.createDecimal(powerWatts).mul(chargingTimeSecs).div(3600).toNumber();
+    let elapsedSecs = 0;
+    let nbrOfIntervals = 0;
+    do {
+      const consumption = PricingEstimator.buildConsumption(startDate, elapsedSecs,
+        Math.min(intervalSecs, totalDurationSecs - elapsedSecs), chargingTimeSecs, powerWatts, remainingEnergyWh);
+      remainingEnergyWh = Utils.createDecimal(remainingEnergyWh).minus(consumption.consumptionWh).toNumber();
+      elapsedSecs += moment(consumption.endedAt).diff(consumption.startedAt, 'seconds');
+      // Same pricing as a real session, the car stays plugged after the end of the charge
+      const pricedConsumption = !transaction.pricingModel ?
+        await readOnlyPricingImpl.startSession(transaction, consumption) :
+        await readOnlyPricingImpl.updateSession(transaction, consumption,
+          consumption.consumptionWh > 0 ? ChargePointStatus.CHARGING : ChargePointStatus.SUSPENDED_EV);
+      pricedDimensions.push(...pricedConsumption.pricedDimensions);
+      nbrOfIntervals++;
+    } while (elapsedSecs < totalDurationSecs && nbrOfIntervals < MAX_CONSUMPTION_INTERVALS);
+    const amount = PricingEngine.computeAmount(pricedDimensions);
+    return {
+      currencyCode: transaction.pricingModel.currency,
+      pricingModelID: transaction.pricingModel.id,
+      pricingModelDescription: transaction.pricingModel.description,
+      userGroup: transaction.pricingModel.userGroup,
+      subscriptionPlan: transaction.pricingModel.subscription?.planName,
+      carCatalogID: params.carCatalog?.id,
+      powerWatts,
+      energyWh: transaction.pricingData.energyWh,
+      chargingTimeSecs: transaction.pricingData.chargingTimeSecs,
+      parkingTimeSecs: transaction.pricingData.parkingTimeSecs,
+      pricedDimensions: PricingEstimator.aggregatePricedDimensions(pricedDimensions),
+      amount,
+      roundedAmount: Utils.truncTo(amount, 2),
+    };
+  }
+
+  private static buildConsumption(startDate: Date, elapsedSecs: number, durationSecs: number, chargingTimeSecs: number,
+      powerWatts: number, remainingEnergyWh: number): Consumption {
+    // Split the interval at the end of the charge
+    const chargingSecs = Math.max(0, Math.min(durationSecs, chargingTimeSecs - elapsedSecs));
+    const sliceSecs = chargingSecs > 0 ? chargingSecs : durationSecs;
+    const consumptionWh = chargingSecs > 0 ?
+      Math.min(remainingEnergyWh, Utils.createDecimal(powerWatts).mul(chargingSecs).div(3600).toNumber()) : 0;
+    return {
+      startedAt: moment(startDate).add(elapsedSecs, 'seconds').toDate(),
+      endedAt: moment(startDate).add(elapsedSecs + sliceSecs, 'seconds').toDate(),
+      consumptionWh,
+      instantWatts: consumptionWh > 0 ? powerWatts : 0,
+    } as Consumption;
+  }
+
+  private static aggregatePricedDimensions(pricedDimensions: PricedDimensionData[]): PricedDimensionData[] {
+    const aggregatedDimensions: PricedDimensionData[] = [];
+    for (const pricedDimension of pricedDimensions) {
+      const aggregatedDimension = aggregatedDimensions.find((dimension) => dimension.type === pricedDimension.type);
+      if (aggregatedDimension) {
+        aggregatedDimension.quantity = Utils.createDecimal(aggregatedDimension.quantity).plus(pricedDimension.quantity).toNumber();
+        aggregatedDimension.amount = Utils.createDecimal(aggregatedDimension.amount).plus(pricedDimension.amount).toNumber();
+      } else {
+        aggregatedDimensions.push({ ...pricedDimension });
+      }
+    }
+    return aggregatedDimensions;
+  }
+}
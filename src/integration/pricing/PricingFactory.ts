@@ -1,16 +1,20 @@
 import { PricingSetting, PricingSettingsType } from '../../types/Setting';
+import Tariff, { TariffEntityType } from '../../types/Tariff';
 
+import ChargingStation from '../../types/ChargingStation';
+import Constants from '../../utils/Constants';
 import ConvergentChargingPricingIntegration from './export/convergent-charging';
 import DummyPricingIntegration from './dummy/DummyPricingIntegration';
 import PricingIntegration from './PricingIntegration';
 import SettingStorage from '../../storage/mongodb/SettingStorage';
 import SimplePricingIntegration from './simple-pricing/SimplePricingIntegration';
+import TariffStorage from '../../storage/mongodb/TariffStorage';
 import Tenant from '../../types/Tenant';
 import TenantComponents from '../../types/TenantComponents';
 import Utils from '../../utils/Utils';
 
 export default class PricingFactory {
-  static async getPricingImpl(tenant: Tenant): Promise<PricingIntegration<PricingSetting>> {
+  static async getPricingImpl(tenant: Tenant, chargingStation?: ChargingStation): Promise<PricingIntegration<PricingSetting>> {
     // Check if the pricing is active
     if (Utils.isTenantComponentActive(tenant, TenantComponents.PRICING)) {
       // Get the pricing's settings
@@ -27,7 +31,8 @@ export default class PricingFactory {
           // Simple Pricing
           case PricingSettingsType.SIMPLE:
             // Simple Pricing implementation
-            pricingIntegrationImpl = new SimplePricingIntegration(tenant, pricingSetting.simple);
+            pricingIntegrationImpl = new SimplePricingIntegration(tenant, pricingSetting.simple,
+              chargingStation ? await PricingFactory.getChargingStationTariff(tenant, chargingStation) : null);
             break;
           default:
             pricingIntegrationImpl = null;
@@ -44,5 +49,29 @@ export default class PricingFactory {
     // Pricing is not active
     return null;
   }
-}
 
+  static async getChargingStationTariff(tenant: Tenant, chargingStation: ChargingStation): Promise<Tariff> {
+    const entityIDs = [chargingStation.id, chargingStation.siteAreaID, chargingStation.siteID, chargingStation.companyID]
+      .filter((entityID) => entityID);
+    const tariffs = await TariffStorage.getTariffs(tenant.id, { entityIDs }, Constants.DB_PARAMS_MAX_LIMIT);
+    return PricingFactory.resolveChargingStationTariff(chargingStation, tariffs.result);
+  }
+
+  static resolveChargingStationTariff(chargingStation: ChargingStation, tariffs: Tariff[]): Tariff {
+    // Most specific first, the tenant's pricing setting applies when none is found
+    const resolutionOrder = [
+      { entityType: TariffEntityType.CHARGING_STATION, entityID: chargingStation.id },
+      { entityType: TariffEntityType.SITE_AREA, entityID: chargingStation.siteAreaID },
+      { entityType: TariffEntityType.SITE, entityID: chargingStation.siteID },
+      { entityType: TariffEntityType.COMPANY, entityID: chargingStation.companyID },
+    ];
+    for (const entity of resolutionOrder) {
+      const tariff = entity.entityID && tariffs.find((locationTariff) =>
+        locationTariff.entityType === entity.entityType && locationTariff.entityID === entity.entityID);
+      if (tariff) {
+        return tariff;
+      }
+    }
+    return null;
+  }
+}
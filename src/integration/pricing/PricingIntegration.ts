@@ -1,3 +1,4 @@
+import { ChargePointStatus } from '../../types/ocpp/OCPPServer';
 import Consumption from '../../types/Consumption';
 import { PricedConsumption } from '../../types/Pricing';
 import { PricingSetting } from '../../types/Setting';
@@ -19,7 +20,7 @@ export default abstract class PricingIntegration<T extends PricingSetting> {
 
   public abstract startSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption>;
 
-  public abstract updateSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption>;
+  public abstract updateSession(transaction: Transaction, consumptionData: Consumption, connectorStatus?: ChargePointStatus): Promise<PricedConsumption>;
 
-  public abstract stopSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption>;
+  public abstract stopSession(transaction: Transaction, consumptionData: Consumption, connectorStatus?: ChargePointStatus): Promise<PricedConsumption>;
 }
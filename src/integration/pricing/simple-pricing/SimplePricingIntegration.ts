@@ -1,46 +1,164 @@
-import { PricedConsumption, PricingSource } from '../../../types/Pricing';
+import { BillingSubscription, BillingSubscriptionStatus } from '../../../types/Billing';
+import { PricedConsumption, PricedDimensionData, PricingModel, PricingSource } from '../../../types/Pricing';
 
+import BillingStorage from '../../../storage/mongodb/BillingStorage';
+import Constants from '../../../utils/Constants';
 import Consumption from '../../../types/Consumption';
+import PricingEngine from '../PricingEngine';
 import PricingIntegration from '../PricingIntegration';
+import SiteAreaStorage from '../../../storage/mongodb/SiteAreaStorage';
+import { ChargePointStatus } from '../../../types/ocpp/OCPPServer';
 import { SimplePricingSetting } from '../../../types/Setting';
+import Tariff from '../../../types/Tariff';
 import Tenant from '../../../types/Tenant';
+import TenantComponents from '../../../types/TenantComponents';
 import Transaction from '../../../types/Transaction';
+import UserStorage from '../../../storage/mongodb/UserStorage';
 import Utils from '../../../utils/Utils';
+import moment from 'moment-timezone';
 
 export default class SimplePricingIntegration extends PricingIntegration<SimplePricingSetting> {
-  constructor(tenant: Tenant, readonly settings: SimplePricingSetting) {
+  private availableIncludedEnergyWh: number = null;
+
+  constructor(tenant: Tenant, readonly settings: SimplePricingSetting, readonly tariff?: Tariff, readonly readOnly = false) {
     super(tenant, settings);
   }
 
+  public getReadOnlyPricing(): SimplePricingIntegration {
+    // Same settings and tariff, the quotes do not reserve the included energy of the subscriptions
+    return new SimplePricingIntegration(this.tenant, this.settings, this.tariff, true);
+  }
+
   public async startSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption> {
-    return this.computePrice(transaction, consumptionData);
+    // Keep the tariff of the start for the whole session
+    transaction.pricingModel = await this.getUserPricingModel(transaction);
+    transaction.pricingData = PricingEngine.initPricingData();
+    const pricedDimensions = PricingEngine.priceSessionStart(transaction.pricingModel, transaction);
+    pricedDimensions.push(...await this.priceConsumption(transaction, consumptionData));
+    return this.computePrice(transaction, pricedDimensions);
   }
 
-  public async updateSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption> {
-    return this.computePrice(transaction, consumptionData);
+  public async updateSession(transaction: Transaction, consumptionData: Consumption, connectorStatus?: ChargePointStatus): Promise<PricedConsumption> {
+    return this.computePrice(transaction, await this.priceConsumption(transaction, consumptionData, connectorStatus));
   }
 
-  public async stopSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption> {
-    return this.computePrice(transaction, consumptionData);
+  public async stopSession(transaction: Transaction, consumptionData: Consumption, connectorStatus?: ChargePointStatus): Promise<PricedConsumption> {
+    return this.computePrice(transaction, await this.priceConsumption(transaction, consumptionData, connectorStatus));
   }
 
-  // eslint-disable-next-line @typescript-eslint/require-await
-  private async computePrice(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption> {
-    let amount: number;
-    let roundedAmount: number;
-    if (consumptionData.consumptionWh && typeof consumptionData.consumptionWh === 'number') {
-      amount = Utils.computeSimplePrice(this.settings.price, consumptionData.consumptionWh);
-      roundedAmount = Utils.truncTo(amount, 2);
-    } else {
-      amount = 0;
-      roundedAmount = 0;
+  private async priceConsumption(transaction: Transaction, consumptionData: Consumption, connectorStatus?: ChargePointStatus): Promise<PricedDimensionData[]> {
+    const pricingModel = this.getTransactionPricingModel(transaction);
+    if (!transaction.pricingData) {
+      transaction.pricingData = PricingEngine.initPricingData();
+    }
+    let includedEnergyWh = 0;
+    const consumptionWh = Utils.convertToFloat(consumptionData.consumptionWh);
+    if (pricingModel.subscription && pricingModel.subscription.includedEnergyWh > 0 && consumptionWh > 0) {
+      includedEnergyWh = this.readOnly ?
+        await this.getAvailableIncludedEnergy(transaction, consumptionData) :
+        await this.reserveIncludedEnergy(transaction, consumptionData);
+    }
+    return PricingEngine.priceConsumption(pricingModel, transaction, consumptionData, connectorStatus, includedEnergyWh);
+  }
+
+  private async reserveIncludedEnergy(transaction: Transaction, consumptionData: Consumption): Promise<number> {
+    const subscription = transaction.pricingModel.subscription;
+    const pricingData = transaction.pricingData;
+    // The included energy is shared with the other sessions of the user: only the consumption not reserved yet is deducted
+    const consumptionWh = Utils.convertToFloat(consumptionData.consumptionWh);
+    const cumulatedConsumptionWh = !Utils.isNullOrUndefined(consumptionData.cumulatedConsumptionWh) ?
+      Utils.convertToFloat(consumptionData.cumulatedConsumptionWh) :
+      Utils.createDecimal(pricingData.energyWh).plus(consumptionWh).toNumber();
+    const reservedConsumptionWh = Utils.convertToFloat(pricingData.reservedConsumptionWh);
+    const energyToReserveWh = Math.min(consumptionWh, Utils.createDecimal(cumulatedConsumptionWh).minus(reservedConsumptionWh).toNumber());
+    if (energyToReserveWh <= 0) {
+      return 0;
     }
+    const reservedEnergyWh = await BillingStorage.reserveSubscriptionPeriodEnergy(this.tenant, subscription.subscriptionID,
+      consumptionData.endedAt ?? consumptionData.startedAt, energyToReserveWh, subscription.includedEnergyWh);
+    pricingData.reservedConsumptionWh = cumulatedConsumptionWh;
+    return reservedEnergyWh;
+  }
+
+  private async getAvailableIncludedEnergy(transaction: Transaction, consumptionData: Consumption): Promise<number> {
+    const subscription = transaction.pricingModel.subscription;
+    // Read once, then deducted locally as the quote consumes it
+    if (this.availableIncludedEnergyWh === null) {
+      this.availableIncludedEnergyWh = await BillingStorage.getSubscriptionPeriodAvailableEnergy(this.tenant, subscription.subscriptionID,
+        consumptionData.endedAt ?? consumptionData.startedAt, subscription.includedEnergyWh);
+    }
+    return Math.max(0, Utils.createDecimal(this.availableIncludedEnergyWh)
+      .minus(Utils.convertToFloat(transaction.pricingData.includedEnergyWh)).toNumber());
+  }
+
+  private getPricingModel(): PricingModel {
+    // Tariff of the charging station's location takes precedence over the tenant's setting
+    if (this.tariff) {
+      return PricingEngine.buildTariffPricingModel(this.tariff);
+    }
+    return PricingEngine.buildSimplePricingModel(this.settings);
+  }
+
+  private async getUserPricingModel(transaction: Transaction): Promise<PricingModel> {
+    const pricingModel = this.getPricingModel();
+    // Site assignments are only needed when a user group is based on them
+    let userSiteIDs: string[] = [];
+    if (transaction.userID && pricingModel.userGroupPricings?.some((userGroupPricing) => !Utils.isEmptyArray(userGroupPricing.siteIDs))) {
+      const userSites = await UserStorage.getUserSites(this.tenant.id, { userIDs: [transaction.userID] },
+        Constants.DB_PARAMS_MAX_LIMIT, ['siteID']);
+      userSiteIDs = userSites.result.map((userSite) => userSite.siteID);
+    }
+    let userPricingModel = PricingEngine.resolveUserGroupPricingModel(pricingModel, transaction.user, transaction.tagID, userSiteIDs);
+    // Subscribed users are charged the member rates of their plan
+    const subscription = await this.getUserSubscription(transaction);
+    if (subscription) {
+      userPricingModel = PricingEngine.resolveSubscriptionPricingModel(userPricingModel, subscription);
+    }
+    // Opening times of the site area are frozen with the idle fee policy
+    if (userPricingModel.idleFee?.exemptOutsideOpeningTimes && transaction.siteAreaID) {
+      const siteArea = await SiteAreaStorage.getSiteArea(this.tenant.id, transaction.siteAreaID, {}, ['openingTimes']);
+      userPricingModel.idleFee = { ...userPricingModel.idleFee, openingTimes: siteArea?.openingTimes };
+    }
+    return userPricingModel;
+  }
+
+  private async getUserSubscription(transaction: Transaction): Promise<BillingSubscription> {
+    // Subscriptions are managed by the billing
+    if (!transaction.userID || !Utils.isTenantComponentActive(this.tenant, TenantComponents.BILLING)) {
+      return null;
+    }
+    const subscriptions = await BillingStorage.getSubscriptions(this.tenant, {
+      userIDs: [transaction.userID],
+      statuses: [BillingSubscriptionStatus.ACTIVE],
+      withPlan: true,
+    }, Constants.DB_PARAMS_SINGLE_RECORD);
+    const subscription = !Utils.isEmptyArray(subscriptions.result) ? subscriptions.result[0] : null;
+    // Member rates apply from the start date of the subscription and until its end date
+    if (!subscription || moment(transaction.timestamp).isBefore(subscription.startDate) ||
+        (subscription.endDate && !moment(transaction.timestamp).isBefore(subscription.endDate))) {
+      return null;
+    }
+    return subscription;
+  }
+
+  private getTransactionPricingModel(transaction: Transaction): PricingModel {
+    // Sessions started before the tariff engine have no pricing model
+    if (!transaction.pricingModel) {
+      transaction.pricingModel = this.getPricingModel();
+    }
+    return transaction.pricingModel;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  private async computePrice(transaction: Transaction, pricedDimensions: PricedDimensionData[]): Promise<PricedConsumption> {
+    const amount = PricingEngine.computeAmount(pricedDimensions);
     const pricedConsumption: PricedConsumption = {
       pricingSource: PricingSource.SIMPLE,
       amount: amount,
-      roundedAmount: roundedAmount,
-      currencyCode: this.settings.currency,
-      cumulatedAmount: transaction.currentCumulatedPrice ? Utils.createDecimal(transaction.currentCumulatedPrice).plus(amount).toNumber() : amount
+      roundedAmount: Utils.truncTo(amount, 2),
+      currencyCode: transaction.pricingModel.currency ?? this.settings.currency,
+      cumulatedAmount: transaction.currentCumulatedPrice ? Utils.createDecimal(transaction.currentCumulatedPrice).plus(amount).toNumber() : amount,
+      pricedDimensions
     };
     return pricedConsumption;
   }
@@ -1,6 +1,7 @@
 import { SmartChargingSetting, SmartChargingSettingsType } from '../../types/Setting';
 
 import DummySapSmartChargingIntegration from './dummy/DummySmartChargingIntegration';
+import LocalSmartChargingIntegration from './local-smart-charging/LocalSmartChargingIntegration';
 import SapSmartChargingIntegration from './export/sap-smart-charging';
 import SettingStorage from '../../storage/mongodb/SettingStorage';
 import SmartChargingIntegration from './SmartChargingIntegration';
@@ -21,6 +22,10 @@ export default class SmartChargingFactory {
           case SmartChargingSettingsType.SAP_SMART_CHARGING:
             smartChargingIntegrationImpl = new SapSmartChargingIntegration(tenant, smartChargingSetting.sapSmartCharging);
             break;
+          // Local Smart Charging
+          case SmartChargingSettingsType.LOCAL_SMART_CHARGING:
+            smartChargingIntegrationImpl = new LocalSmartChargingIntegration(tenant, smartChargingSetting.localSmartCharging);
+            break;
         }
         // Check if missing implementation
         if (smartChargingIntegrationImpl instanceof DummySapSmartChargingIntegration) {
@@ -1,24 +1,48 @@
+import { ChargingProfile, ChargingRateUnitType } from '../../types/ChargingProfile';
+import ChargingStation, { ChargePoint, PhaseAssignmentToGrid, Voltage } from '../../types/ChargingStation';
+import { SimulatedConnector, SmartChargingLimitViolation, SmartChargingLimitViolationType, SmartChargingSimulation } from '../../types/SmartCharging';
+import Transaction, { CSPhasesUsed } from '../../types/Transaction';
+
 import { ActionsResponse } from '../../types/GlobalType';
 import BackendError from '../../exception/BackendError';
-import { ChargingProfile } from '../../types/ChargingProfile';
 import ChargingStationStorage from '../../storage/mongodb/ChargingStationStorage';
 import Constants from '../../utils/Constants';
 import Logging from '../../utils/Logging';
 import NotificationHandler from '../../notification/NotificationHandler';
+import { OCPPPhase } from '../../types/ocpp/OCPPServer';
 import OCPPUtils from '../../server/ocpp/utils/OCPPUtils';
 import { ServerAction } from '../../types/Server';
 import SiteArea from '../../types/SiteArea';
+import SiteAreaStorage from '../../storage/mongodb/SiteAreaStorage';
 import { SmartChargingSetting } from '../../types/Setting';
 import Tenant from '../../types/Tenant';
+import TransactionStorage from '../../storage/mongodb/TransactionStorage';
 import Utils from '../../utils/Utils';
-import { Voltage } from '../../types/ChargingStation';
 
 const MODULE_NAME = 'SmartChargingIntegration';
 
+const GRID_PHASES = [OCPPPhase.L1, OCPPPhase.L2, OCPPPhase.L3];
+
+interface ConnectorLoad {
+  chargingStation: ChargingStation;
+  chargePoint: ChargePoint;
+  connectorID: number;
+  // From the Site Area of the Charging Station up to the root
+  siteAreaIDs: string[];
+  // Grid phases really used by the car
+  gridPhases: OCPPPhase[];
+  numberOfPhases: number;
+  maxAmps: number;
+  // Limits in Amps for all the phases over time
+  limits: { time: number; limitAmps: number }[];
+}
+
 export default abstract class SmartChargingIntegration<T extends SmartChargingSetting> {
   protected readonly tenant: Tenant;
   protected readonly setting: T;
   private excludedChargingStations: string[] = [];
+  private simulation = false;
+  private simulatedConnectors: SimulatedConnector[] = null;
 
   protected constructor(tenant: Tenant, setting: T) {
     this.tenant = tenant;
@@ -86,7 +110,139 @@ export default abstract class SmartChargingIntegration<T extends SmartChargingSe
     return actionsResponse;
   }
 
-  protected checkIfSiteAreaIsValid(siteArea: SiteArea): void {
+  public async simulateChargingProfiles(siteArea: SiteArea, simulatedConnectors?: SimulatedConnector[]): Promise<SmartChargingSimulation> {
+    // Nothing is sent to the Charging Stations nor saved
+    this.simulation = true;
+    this.simulatedConnectors = simulatedConnectors ?? null;
+    try {
+      const computedOn = new Date();
+      const chargingProfiles = await this.buildChargingProfiles(siteArea) ?? [];
+      // Check the profiles against the limits of the whole tree
+      const rootSiteArea = await this.getSiteAreaTree(siteArea);
+      const phasesUsed = await this.getTransactionPhasesUsed(rootSiteArea);
+      return {
+        siteAreaID: siteArea.id,
+        computedOn,
+        chargingProfiles,
+        ...this.checkChargingProfiles(rootSiteArea, chargingProfiles, phasesUsed, computedOn)
+      };
+    } finally {
+      this.simulation = false;
+      this.simulatedConnectors = null;
+    }
+  }
+
+  protected isSimulation(): boolean {
+    return this.simulation;
+  }
+
+  protected getSiteAreaAssetWatts(): Map<string, number> {
+    // Assets are not followed by default
+    return new Map();
+  }
+
+  protected getSafetyMarginPercent(): number {
+    return 0;
+  }
+
+  protected getSimulatedTransactions(): Transaction[] {
+    if (!this.simulatedConnectors) {
+      return null;
+    }
+    return this.simulatedConnectors.map((simulatedConnector, index) => ({
+      id: this.getSimulatedTransactionID(index),
+      smartChargingPriority: simulatedConnector.smartChargingPriority,
+      chargingNeeds: {
+        departureTime: simulatedConnector.departureTime,
+        targetEnergyWh: simulatedConnector.targetEnergyWh,
+        solarChargingMode: simulatedConnector.solarChargingMode,
+      },
+      currentTotalConsumptionWh: simulatedConnector.consumedEnergyWh ?? 0,
+      phasesUsed: simulatedConnector.phasesUsed,
+    } as Transaction));
+  }
+
+  protected async getSiteAreaTree(siteArea: SiteArea): Promise<SiteArea> {
+    // Sub Site Areas belong to the same Site
+    const siteAreas = new Map<string, SiteArea>();
+    for (const siteAreaOfSite of (await SiteAreaStorage.getSiteAreas(this.tenant.id,
+      { siteIDs: [siteArea.siteID] }, Constants.DB_PARAMS_MAX_LIMIT)).result) {
+      siteAreaOfSite.childSiteAreas = [];
+      siteAreas.set(siteAreaOfSite.id, siteAreaOfSite);
+    }
+    if (!siteAreas.has(siteArea.id)) {
+      siteArea.childSiteAreas = [];
+      siteAreas.set(siteArea.id, siteArea);
+    }
+    for (const siteAreaOfSite of siteAreas.values()) {
+      if (siteAreaOfSite.parentSiteAreaID && siteAreas.has(siteAreaOfSite.parentSiteAreaID)) {
+        siteAreas.get(siteAreaOfSite.parentSiteAreaID).childSiteAreas.push(siteAreaOfSite);
+      }
+    }
+    // Go up to the main feeder
+    let rootSiteArea = siteAreas.get(siteArea.id);
+    const visitedSiteAreaIDs = new Set<string>([rootSiteArea.id]);
+    while (rootSiteArea.parentSiteAreaID && siteAreas.has(rootSiteArea.parentSiteAreaID) &&
+           !visitedSiteAreaIDs.has(rootSiteArea.parentSiteAreaID)) {
+      rootSiteArea = siteAreas.get(rootSiteArea.parentSiteAreaID);
+      visitedSiteAreaIDs.add(rootSiteArea.id);
+    }
+    // Get the Charging Stations of the whole tree
+    const treeSiteAreas = this.getTreeSiteAreas(rootSiteArea);
+    const chargingStations = await ChargingStationStorage.getChargingStations(this.tenant.id,
+      { siteAreaIDs: treeSiteAreas.map((treeSiteArea) => treeSiteArea.id), withSiteArea: true }, Constants.DB_PARAMS_MAX_LIMIT);
+    // Replace the ongoing sessions by the simulated ones
+    if (this.simulatedConnectors) {
+      this.applySimulatedConnectors(chargingStations.result);
+    }
+    for (const treeSiteArea of treeSiteAreas) {
+      treeSiteArea.chargingStations = chargingStations.result.filter((chargingStation) => chargingStation.siteAreaID === treeSiteArea.id);
+    }
+    return rootSiteArea;
+  }
+
+  protected getTreeSiteAreas(siteArea: SiteArea, treeSiteAreas: SiteArea[] = []): SiteArea[] {
+    // Guard against a loop in the tree
+    if (!treeSiteAreas.includes(siteArea)) {
+      treeSiteAreas.push(siteArea);
+      for (const childSiteArea of siteArea.childSiteAreas ?? []) {
+        this.getTreeSiteAreas(childSiteArea, treeSiteAreas);
+      }
+    }
+    return treeSiteAreas;
+  }
+
+  protected getParentPhase(phaseAssignmentToGrid: PhaseAssignmentToGrid, numberOfPhases: number, phase: OCPPPhase): OCPPPhase {
+    // Single phased: everything is wired on the first phase
+    switch (numberOfPhases === 1 ? OCPPPhase.L1 : phase) {
+      case OCPPPhase.L1:
+        return phaseAssignmentToGrid?.csPhaseL1 ?? OCPPPhase.L1;
+      case OCPPPhase.L2:
+        return phaseAssignmentToGrid?.csPhaseL2 ?? OCPPPhase.L2;
+      default:
+        return phaseAssignmentToGrid?.csPhaseL3 ?? OCPPPhase.L3;
+    }
+  }
+
+  protected getConnectorPhasesInUse(chargingStation: ChargingStation, chargePoint: ChargePoint, connectorID: number, phasesUsed?: CSPhasesUsed): OCPPPhase[] {
+    const connectedPhases = GRID_PHASES.slice(0, Utils.getNumberOfConnectedPhases(chargingStation, chargePoint, connectorID));
+    // Phases detected from the Meter Values of the session
+    if (connectedPhases.length > 1 && phasesUsed) {
+      const phasesInUse = connectedPhases.filter((phase, index) => [phasesUsed.csPhase1, phasesUsed.csPhase2, phasesUsed.csPhase3][index]);
+      if (!Utils.isEmptyArray(phasesInUse)) {
+        return phasesInUse;
+      }
+    }
+    return connectedPhases;
+  }
+
+  protected getConnectorGridPhases(siteAreaGridPhases: OCPPPhase[], phaseAssignmentToGrid: PhaseAssignmentToGrid,
+      numberOfPhases: number, phasesInUse: OCPPPhase[]): OCPPPhase[] {
+    // Follow the rotation of the Charging Station then the one of the Site Area
+    return phasesInUse.map((phase) => siteAreaGridPhases[GRID_PHASES.indexOf(this.getParentPhase(phaseAssignmentToGrid, numberOfPhases, phase))]);
+  }
+
+  protected checkIfSiteAreaIsValid(siteArea: SiteArea, parentSiteArea?: SiteArea): void {
     if (!siteArea.maximumPower) {
       throw new BackendError({
         source: Constants.CENTRAL_SERVER,
@@ -120,6 +276,235 @@ export default abstract class SmartChargingIntegration<T extends SmartChargingSe
         message: `No Charging Stations found in Site Area '${siteArea.name}'`
       });
     }
+    // Sub Site Area
+    if (parentSiteArea) {
+      if (siteArea.voltage !== parentSiteArea.voltage) {
+        throw new BackendError({
+          source: Constants.CENTRAL_SERVER,
+          action: ServerAction.SMART_CHARGING,
+          module: MODULE_NAME, method: 'checkIfSiteAreaIsValid',
+          message: `Voltage of Site Area '${siteArea.name}' differs from its parent Site Area '${parentSiteArea.name}'`
+        });
+      }
+      if (siteArea.numberOfPhases > parentSiteArea.numberOfPhases) {
+        throw new BackendError({
+          source: Constants.CENTRAL_SERVER,
+          action: ServerAction.SMART_CHARGING,
+          module: MODULE_NAME, method: 'checkIfSiteAreaIsValid',
+          message: `Site Area '${siteArea.name}' has more phases than its parent Site Area '${parentSiteArea.name}'`
+        });
+      }
+    }
+    // Check every level of the tree
+    if (siteArea.childSiteAreas) {
+      for (const childSiteArea of siteArea.childSiteAreas) {
+        this.checkIfSiteAreaIsValid(childSiteArea, siteArea);
+      }
+    }
+  }
+
+  private applySimulatedConnectors(chargingStations: ChargingStation[]): void {
+    for (const chargingStation of chargingStations) {
+      for (const connector of chargingStation.connectors) {
+        if (connector) {
+          connector.currentTransactionID = null;
+          connector.currentTransactionDate = null;
+          connector.currentTotalConsumptionWh = 0;
+        }
+      }
+    }
+    for (const [index, simulatedConnector] of this.simulatedConnectors.entries()) {
+      const chargingStation = chargingStations.find((chargingStationOfTree) => chargingStationOfTree.id === simulatedConnector.chargingStationID);
+      const connector = chargingStation ? Utils.getConnectorFromID(chargingStation, simulatedConnector.connectorID) : null;
+      if (!connector) {
+        throw new BackendError({
+          source: simulatedConnector.chargingStationID,
+          action: ServerAction.SMART_CHARGING,
+          module: MODULE_NAME, method: 'applySimulatedConnectors',
+          message: `Connector ID '${simulatedConnector.connectorID}' of Charging Station '${simulatedConnector.chargingStationID}' is not part of the Site Area tree`
+        });
+      }
+      connector.currentTransactionID = this.getSimulatedTransactionID(index);
+      connector.currentTransactionDate = new Date();
+      connector.currentTotalConsumptionWh = simulatedConnector.consumedEnergyWh ?? 0;
+    }
+  }
+
+  private getSimulatedTransactionID(index: number): number {
+    // Negative to never match a real Transaction
+    return -(index + 1);
+  }
+
+  private async getTransactionPhasesUsed(rootSiteArea: SiteArea): Promise<Map<number, CSPhasesUsed>> {
+    const transactions = this.getSimulatedTransactions() ?? [];
+    const transactionIDs = this.getTreeSiteAreas(rootSiteArea).flatMap((siteArea) => (siteArea.chargingStations ?? []).flatMap(
+      (chargingStation) => chargingStation.connectors.filter((connector) => connector?.currentTransactionID > 0)
+        .map((connector) => connector.currentTransactionID)));
+    if (!Utils.isEmptyArray(transactionIDs)) {
+      transactions.push(...(await TransactionStorage.getTransactions(this.tenant.id, { transactionIDs },
+        Constants.DB_PARAMS_MAX_LIMIT, ['id', 'phasesUsed'])).result);
+    }
+    return new Map(transactions.filter((transaction) => transaction.phasesUsed)
+      .map((transaction) => [transaction.id, transaction.phasesUsed]));
+  }
+
+  private checkChargingProfiles(rootSiteArea: SiteArea, chargingProfiles: ChargingProfile[], phasesUsed: Map<number, CSPhasesUsed>,
+      computedOn: Date): Pick<SmartChargingSimulation, 'siteAreaPhaseTotals' | 'limitViolations'> {
+    const treeSiteAreas = this.getTreeSiteAreas(rootSiteArea);
+    // Grid phases of each Site Area, parents are before their children
+    const parentSiteAreas = new Map<string, SiteArea>();
+    const siteAreaGridPhases = new Map<string, OCPPPhase[]>();
+    for (const siteArea of treeSiteAreas) {
+      const parentSiteArea = parentSiteAreas.get(siteArea.id);
+      siteAreaGridPhases.set(siteArea.id, GRID_PHASES.map((phase) => {
+        const parentPhase = this.getParentPhase(siteArea.phaseAssignmentToGrid, siteArea.numberOfPhases, phase);
+        return parentSiteArea ? siteAreaGridPhases.get(parentSiteArea.id)[GRID_PHASES.indexOf(parentPhase)] : parentPhase;
+      }));
+      for (const childSiteArea of siteArea.childSiteAreas ?? []) {
+        parentSiteAreas.set(childSiteArea.id, siteArea);
+      }
+    }
+    // Load of every ongoing session, the ones without profile draw their maximum
+    const connectorLoads: ConnectorLoad[] = [];
+    for (const siteArea of treeSiteAreas) {
+      const siteAreaIDs: string[] = [];
+      for (let pathSiteArea = siteArea; pathSiteArea && !siteAreaIDs.includes(pathSiteArea.id); pathSiteArea = parentSiteAreas.get(pathSiteArea.id)) {
+        siteAreaIDs.push(pathSiteArea.id);
+      }
+      for (const chargingStation of siteArea.chargingStations ?? []) {
+        for (const connector of chargingStation.connectors) {
+          if (!connector?.currentTransactionID) {
+            continue;
+          }
+          const chargePoint = Utils.getChargePointFromID(chargingStation, connector.chargePointID);
+          const numberOfPhases = Utils.getNumberOfConnectedPhases(chargingStation, chargePoint, connector.connectorId);
+          const phasesInUse = this.getConnectorPhasesInUse(chargingStation, chargePoint, connector.connectorId,
+            phasesUsed.get(connector.currentTransactionID));
+          const maxAmps = Utils.getChargingStationAmperage(chargingStation, chargePoint, connector.connectorId);
+          const chargingProfile = chargingProfiles.find((profile) =>
+            profile.chargingStationID === chargingStation.id && profile.connectorID === connector.connectorId);
+          connectorLoads.push({
+            chargingStation,
+            chargePoint,
+            connectorID: connector.connectorId,
+            siteAreaIDs,
+            gridPhases: this.getConnectorGridPhases(siteAreaGridPhases.get(siteArea.id), connector.phaseAssignmentToGrid, numberOfPhases, phasesInUse),
+            numberOfPhases,
+            maxAmps,
+            limits: chargingProfile ? this.getChargingProfileLimits(chargingStation, chargePoint, chargingProfile, computedOn) :
+              [{ time: computedOn.getTime(), limitAmps: maxAmps }],
+          });
+        }
+      }
+    }
+    // Assets consume (or produce if negative) on their level and above
+    const siteAreaAssetWatts = this.getSiteAreaAssetWatts();
+    const siteAreaAssetAmps = new Map<string, number[]>(treeSiteAreas.map((siteArea) => [siteArea.id, GRID_PHASES.map((gridPhase) =>
+      this.getTreeSiteAreas(siteArea).reduce((amps, subSiteArea) =>
+        (siteAreaGridPhases.get(subSiteArea.id).slice(0, subSiteArea.numberOfPhases).includes(gridPhase) ?
+          amps + (siteAreaAssetWatts.get(subSiteArea.id) ?? 0) / subSiteArea.voltage / subSiteArea.numberOfPhases : amps), 0))]));
+    const safetyMarginPercent = this.getSafetyMarginPercent();
+    // Check every change of limit
+    const checkTimes = [...new Set([computedOn.getTime(), ...connectorLoads.flatMap((connectorLoad) =>
+      connectorLoad.limits.map((limit) => limit.time).filter((time) => time > computedOn.getTime()))])].sort((a, b) => a - b);
+    const siteAreaPhaseTotals: SmartChargingSimulation['siteAreaPhaseTotals'] = [];
+    const limitViolations = new Map<string, SmartChargingLimitViolation>();
+    const addLimitViolation = (key: string, limitViolation: SmartChargingLimitViolation) => {
+      // Keep the worst one
+      const existingLimitViolation = limitViolations.get(key);
+      if (limitViolation.limitAmps > limitViolation.maximumAmps && (!existingLimitViolation ||
+          limitViolation.limitAmps - limitViolation.maximumAmps > existingLimitViolation.limitAmps - existingLimitViolation.maximumAmps)) {
+        limitViolations.set(key, { ...limitViolation, limitAmps: Utils.truncTo(limitViolation.limitAmps, 2), maximumAmps: Utils.truncTo(limitViolation.maximumAmps, 2) });
+      }
+    };
+    for (const checkTime of checkTimes) {
+      const date = new Date(checkTime);
+      const connectorLimitAmps = connectorLoads.map((connectorLoad) => this.getConnectorLimitAmps(connectorLoad, checkTime));
+      const chargePointLimitAmps = new Map<string, number>();
+      for (let i = 0; i < connectorLoads.length; i++) {
+        const connectorLoad = connectorLoads[i];
+        addLimitViolation(`${SmartChargingLimitViolationType.CONNECTOR}|${connectorLoad.chargingStation.id}|${connectorLoad.connectorID}`, {
+          type: SmartChargingLimitViolationType.CONNECTOR, date,
+          chargingStationID: connectorLoad.chargingStation.id,
+          connectorID: connectorLoad.connectorID,
+          limitAmps: connectorLimitAmps[i],
+          maximumAmps: connectorLoad.maxAmps,
+        });
+        if (connectorLoad.chargePoint) {
+          const chargePointKey = `${connectorLoad.chargingStation.id}|${connectorLoad.chargePoint.chargePointID}`;
+          // Only the phases in use draw from the Charge Point
+          chargePointLimitAmps.set(chargePointKey, (chargePointLimitAmps.get(chargePointKey) ?? 0) +
+            connectorLimitAmps[i] / connectorLoad.numberOfPhases * connectorLoad.gridPhases.length);
+          addLimitViolation(`${SmartChargingLimitViolationType.CHARGE_POINT}|${chargePointKey}`, {
+            type: SmartChargingLimitViolationType.CHARGE_POINT, date,
+            chargingStationID: connectorLoad.chargingStation.id,
+            chargePointID: connectorLoad.chargePoint.chargePointID,
+            limitAmps: chargePointLimitAmps.get(chargePointKey),
+            maximumAmps: Utils.getChargingStationAmperage(connectorLoad.chargingStation, connectorLoad.chargePoint),
+          });
+        }
+      }
+      for (const siteArea of treeSiteAreas) {
+        const gridPhases = siteAreaGridPhases.get(siteArea.id).slice(0, siteArea.numberOfPhases);
+        for (const gridPhase of GRID_PHASES) {
+          // Every session and Asset below the Site Area on this phase of the grid
+          let limitAmps = siteAreaAssetAmps.get(siteArea.id)[GRID_PHASES.indexOf(gridPhase)];
+          for (let i = 0; i < connectorLoads.length; i++) {
+            if (connectorLoads[i].siteAreaIDs.includes(siteArea.id)) {
+              limitAmps += connectorLimitAmps[i] / connectorLoads[i].numberOfPhases *
+                connectorLoads[i].gridPhases.filter((connectorGridPhase) => connectorGridPhase === gridPhase).length;
+            }
+          }
+          const maximumAmps = gridPhases.includes(gridPhase) ?
+            siteArea.maximumPower * (1 - safetyMarginPercent / 100) / siteArea.voltage / siteArea.numberOfPhases : 0;
+          if (!gridPhases.includes(gridPhase) && limitAmps <= 0) {
+            continue;
+          }
+          if (checkTime === computedOn.getTime()) {
+            siteAreaPhaseTotals.push({
+              siteAreaID: siteArea.id,
+              siteAreaName: siteArea.name,
+              phase: gridPhase,
+              limitAmps: Utils.truncTo(limitAmps, 2),
+              maximumAmps: Utils.truncTo(maximumAmps, 2),
+            });
+          }
+          addLimitViolation(`${SmartChargingLimitViolationType.SITE_AREA}|${siteArea.id}|${gridPhase}`, {
+            type: SmartChargingLimitViolationType.SITE_AREA, date,
+            siteAreaID: siteArea.id,
+            phase: gridPhase,
+            limitAmps,
+            maximumAmps,
+          });
+        }
+      }
+    }
+    return {
+      siteAreaPhaseTotals,
+      limitViolations: [...limitViolations.values()],
+    };
+  }
+
+  private getChargingProfileLimits(chargingStation: ChargingStation, chargePoint: ChargePoint, chargingProfile: ChargingProfile,
+      computedOn: Date): ConnectorLoad['limits'] {
+    const chargingSchedule = chargingProfile.profile.chargingSchedule;
+    const startTime = chargingSchedule.startSchedule ? Utils.convertToDate(chargingSchedule.startSchedule).getTime() : computedOn.getTime();
+    return chargingSchedule.chargingSchedulePeriod.map((chargingSchedulePeriod) => ({
+      time: startTime + chargingSchedulePeriod.startPeriod * 1000,
+      limitAmps: chargingSchedule.chargingRateUnit === ChargingRateUnitType.WATT ?
+        Utils.convertWattToAmp(chargingStation, chargePoint, chargingProfile.connectorID, chargingSchedulePeriod.limit) : chargingSchedulePeriod.limit,
+    }));
+  }
+
+  private getConnectorLimitAmps(connectorLoad: ConnectorLoad, time: number): number {
+    // Limit of the last period started
+    let limitAmps = connectorLoad.limits[0]?.limitAmps ?? 0;
+    for (const limit of connectorLoad.limits) {
+      if (limit.time <= time) {
+        limitAmps = limit.limitAmps;
+      }
+    }
+    return limitAmps;
   }
 
   private async handleRefusedChargingProfile(tenant: Tenant, chargingProfile: ChargingProfile, siteAreaName: string): Promise<boolean> {
@@ -0,0 +1,820 @@
+import Asset, { AssetBatteryMode, AssetBatteryPlan, AssetBatteryPlanPeriod, AssetType } from '../../../types/Asset';
+import { ChargingPlan, ChargingPlanPeriod, SimulatedConnector, SmartChargingPriority, SmartChargingSimulation, SolarChargingMode } from '../../../types/SmartCharging';
+import { ChargingProfile, ChargingProfileKindType, ChargingProfilePurposeType, ChargingRateUnitType } from '../../../types/ChargingProfile';
+import { ChargingScheduleOptimization, LocalSmartChargingSetting } from '../../../types/Setting';
+import ChargingStation, { ChargePoint, StaticLimitAmps } from '../../../types/ChargingStation';
+
+import { ActionsResponse } from '../../../types/GlobalType';
+import AssetStorage from '../../../storage/mongodb/AssetStorage';
+import Constants from '../../../utils/Constants';
+import EnergyPrice from '../../../types/EnergyPrice';
+import EnergyPriceStorage from '../../../storage/mongodb/EnergyPriceStorage';
+import Logging from '../../../utils/Logging';
+import { OCPPPhase } from '../../../types/ocpp/OCPPServer';
+import { ServerAction } from '../../../types/Server';
+import SiteArea from '../../../types/SiteArea';
+import SmartChargingIntegration from '../SmartChargingIntegration';
+import Tenant from '../../../types/Tenant';
+import Transaction from '../../../types/Transaction';
+import TransactionStorage from '../../../storage/mongodb/TransactionStorage';
+import Utils from '../../../utils/Utils';
+import moment from 'moment';
+
+const MODULE_NAME = 'LocalSmartChargingIntegration';
+
+const TX_PROFILE_ID = 1;
+const TX_PROFILE_STACK_LEVEL = 2;
+// Kept below the usual ChargingScheduleMaxPeriods of the Charging Stations
+const TX_PROFILE_MAX_PERIODS = 24;
+
+const GRID_PHASES = [OCPPPhase.L1, OCPPPhase.L2, OCPPPhase.L3];
+
+interface SiteAreaNode {
+  siteArea: SiteArea;
+  parent?: SiteAreaNode;
+  // Grid phase of each phase of the Site Area
+  gridPhases: OCPPPhase[];
+  // Amps of the level on each phase of the grid
+  maximumAmps: number[];
+  // Amps left on each phase of the grid
+  remainingAmps: number[];
+  // Consumption (or production if negative) of the Assets of this level
+  assetWatts: number;
+  // Batteries of this level, their measured power is part of the Assets one
+  batteryAssets: Asset[];
+}
+
+interface BatteryAllocation {
+  asset: Asset;
+  siteAreaNode: SiteAreaNode;
+  gridPhaseIndexes: number[];
+  // Power allowed by the state of charge limits
+  maxChargeWatts: number;
+  maxDischargeWatts: number;
+  // Positive when charging, negative when discharging
+  measuredPowerWatts: number;
+  powerWatts: number;
+}
+
+interface ScheduleSlot {
+  startTime: number;
+  endTime: number;
+  energyPrice?: EnergyPrice;
+  chargingMillis: number;
+}
+
+interface ConnectorSchedule {
+  periods: ChargingPlanPeriod[];
+  energyWh: number;
+  cost?: number;
+  co2Grams?: number;
+}
+
+interface ConnectorAllocation {
+  chargingStation: ChargingStation;
+  chargePoint: ChargePoint;
+  connectorID: number;
+  // From the Site Area of the Charging Station up to the root
+  siteAreaNodes: SiteAreaNode[];
+  // Grid phase of each phase of the connector
+  gridPhaseIndexes: number[];
+  transactionID: number;
+  transactionDate: Date;
+  priority: SmartChargingPriority;
+  solarChargingMode: SolarChargingMode;
+  previousLimitAmps?: number;
+  departureTime?: Date;
+  targetEnergyWh?: number;
+  consumedEnergyWh: number;
+  numberOfPhases: number;
+  // Phases the car really draws from, single phased cars use only one
+  numberOfPhasesInUse: number;
+  minAmpsPerPhase: number;
+  maxAmpsPerPhase: number;
+  requiredAmpsPerPhase?: number;
+  chargePointMaxAmps: number;
+  ampsPerPhase: number;
+  // Periods shifted to the cheapest hours before the departure
+  schedule?: ConnectorSchedule;
+}
+
+export default class LocalSmartChargingIntegration extends SmartChargingIntegration<LocalSmartChargingSetting> {
+  private chargingPlans: ChargingPlan[] = [];
+  private batteryPlans: AssetBatteryPlan[] = [];
+  private siteAreaAssetWatts = new Map<string, number>();
+  // PV surplus left to the solar sessions in Amps for all the phases
+  private solarSurplusAmps = 0;
+
+  constructor(tenant: Tenant, setting: LocalSmartChargingSetting) {
+    super(tenant, setting);
+  }
+
+  public async computeAndApplyChargingProfiles(siteArea: SiteArea, retry = false): Promise<ActionsResponse> {
+    const actionsResponse = await super.computeAndApplyChargingProfiles(siteArea, retry);
+    // Keep the plan of each Transaction
+    for (const chargingPlan of this.chargingPlans) {
+      await TransactionStorage.saveTransactionChargingPlan(this.tenant.id, chargingPlan.transactionID, chargingPlan);
+    }
+    this.chargingPlans = [];
+    // Keep the plan of each battery
+    for (const batteryPlan of this.batteryPlans) {
+      await AssetStorage.saveAssetBatteryPlan(this.tenant, batteryPlan.assetID, batteryPlan);
+    }
+    this.batteryPlans = [];
+    return actionsResponse;
+  }
+
+  public async simulateChargingProfiles(siteArea: SiteArea, simulatedConnectors?: SimulatedConnector[]): Promise<SmartChargingSimulation> {
+    const smartChargingSimulation = await super.simulateChargingProfiles(siteArea, simulatedConnectors);
+    // Plans are returned instead of being kept
+    smartChargingSimulation.chargingPlans = this.chargingPlans;
+    smartChargingSimulation.batteryPlans = this.batteryPlans;
+    this.chargingPlans = [];
+    this.batteryPlans = [];
+    return smartChargingSimulation;
+  }
+
+  public async buildChargingProfiles(siteArea: SiteArea, excludedChargingStations: string[] = []): Promise<ChargingProfile[]> {
+    this.chargingPlans = [];
+    this.batteryPlans = [];
+    // The power is shared with the whole tree of Site Areas
+    const rootSiteArea = await this.getSiteAreaTree(siteArea);
+    this.checkIfSiteAreaIsValid(rootSiteArea);
+    // Power left to the Charging Stations in Amps for each level
+    const siteAreaNodes = await this.buildSiteAreaNodes(rootSiteArea);
+    this.siteAreaAssetWatts = new Map(siteAreaNodes.map((siteAreaNode) => [siteAreaNode.siteArea.id, siteAreaNode.assetWatts]));
+    // Production not consumed by the Assets of the tree
+    this.solarSurplusAmps = Math.max(-siteAreaNodes.reduce((watts, siteAreaNode) => watts + siteAreaNode.assetWatts, 0), 0) / rootSiteArea.voltage;
+    // Get the priority and the needs of the ongoing Transactions
+    const transactions = await this.getOngoingTransactions(siteAreaNodes);
+    // Collect the connectors to share the power with
+    const connectorAllocations: ConnectorAllocation[] = [];
+    for (const siteAreaNode of siteAreaNodes) {
+      for (const chargingStation of siteAreaNode.siteArea.chargingStations) {
+        const chargingStationExcluded = !siteAreaNode.siteArea.smartCharging || chargingStation.inactive || chargingStation.excludeFromSmartCharging ||
+          !chargingStation.capabilities?.supportChargingProfiles || excludedChargingStations.includes(chargingStation.id);
+        for (const connector of chargingStation.connectors) {
+          if (!connector?.currentTransactionID) {
+            continue;
+          }
+          const chargePoint = Utils.getChargePointFromID(chargingStation, connector.chargePointID);
+          const connectorMaxAmps = Utils.getChargingStationAmperage(chargingStation, chargePoint, connector.connectorId);
+          const numberOfPhases = Utils.getNumberOfConnectedPhases(chargingStation, chargePoint, connector.connectorId);
+          const transaction = transactions.get(connector.currentTransactionID);
+          // Load on the grid phases really used by the car
+          const phasesInUse = this.getConnectorPhasesInUse(chargingStation, chargePoint, connector.connectorId, transaction?.phasesUsed);
+          const gridPhaseIndexes = this.getConnectorGridPhases(siteAreaNode.gridPhases, connector.phaseAssignmentToGrid, numberOfPhases, phasesInUse)
+            .map((gridPhase) => GRID_PHASES.indexOf(gridPhase));
+          // Not controlled: keep its power out of the shared one
+          if (chargingStationExcluded || !chargePoint || chargePoint.excludeFromPowerLimitation) {
+            this.consumeSiteAreaAmps(siteAreaNode, gridPhaseIndexes, connectorMaxAmps / numberOfPhases);
+            continue;
+          }
+          const siteAreaNodePath = this.getSiteAreaNodePath(siteAreaNode);
+          const connectorAllocation: ConnectorAllocation = {
+            chargingStation,
+            chargePoint,
+            connectorID: connector.connectorId,
+            siteAreaNodes: siteAreaNodePath,
+            gridPhaseIndexes,
+            transactionID: connector.currentTransactionID,
+            transactionDate: connector.currentTransactionDate,
+            priority: transaction?.smartChargingPriority ?? SmartChargingPriority.NORMAL,
+            solarChargingMode: this.getSolarChargingMode(siteAreaNodePath, transaction),
+            previousLimitAmps: transaction?.chargingPlan?.limitAmps,
+            departureTime: transaction?.chargingNeeds?.departureTime,
+            targetEnergyWh: transaction?.chargingNeeds?.targetEnergyWh,
+            consumedEnergyWh: transaction?.currentTotalConsumptionWh ?? connector.currentTotalConsumptionWh ?? 0,
+            numberOfPhases,
+            numberOfPhasesInUse: phasesInUse.length,
+            minAmpsPerPhase: StaticLimitAmps.MIN_LIMIT_PER_PHASE,
+            maxAmpsPerPhase: Math.max(connectorMaxAmps / numberOfPhases, StaticLimitAmps.MIN_LIMIT_PER_PHASE),
+            chargePointMaxAmps: Utils.getChargingStationAmperage(chargingStation, chargePoint),
+            ampsPerPhase: 0,
+          };
+          connectorAllocation.requiredAmpsPerPhase = this.computeRequiredAmpsPerPhase(connectorAllocation);
+          connectorAllocations.push(connectorAllocation);
+        }
+      }
+    }
+    const computedOn = new Date();
+    if (!Utils.isEmptyArray(connectorAllocations)) {
+      this.shareAvailableAmps(rootSiteArea, connectorAllocations);
+    }
+    // Advise the batteries to cover the power the sessions miss and to store the surplus
+    const batteryAllocations = this.buildBatteryAllocations(siteAreaNodes);
+    this.dispatchBatteries(siteAreaNodes, batteryAllocations, connectorAllocations);
+    this.batteryPlans = batteryAllocations.map((batteryAllocation) => this.buildBatteryPlan(batteryAllocation, computedOn));
+    if (Utils.isEmptyArray(connectorAllocations)) {
+      return [];
+    }
+    // Shift the sessions into the cheapest or cleanest hours
+    await this.buildChargingSchedules(connectorAllocations, computedOn);
+    // Build the Charging Plans and Profiles
+    this.chargingPlans = connectorAllocations.map((connectorAllocation) => this.buildChargingPlan(connectorAllocation, computedOn));
+    return connectorAllocations.map((connectorAllocation) => this.buildChargingProfile(connectorAllocation, computedOn));
+  }
+
+  public async checkConnection(): Promise<void> {
+    // Computed in-process: nothing to connect to
+  }
+
+  protected getSiteAreaAssetWatts(): Map<string, number> {
+    return this.siteAreaAssetWatts;
+  }
+
+  protected getSafetyMarginPercent(): number {
+    return this.setting.safetyMarginPercent > 0 ? this.setting.safetyMarginPercent : 0;
+  }
+
+  private async buildSiteAreaNodes(rootSiteArea: SiteArea): Promise<SiteAreaNode[]> {
+    const safetyMarginPercent = this.getSafetyMarginPercent();
+    const siteAreaNodes: SiteAreaNode[] = [];
+    // Parents are built before their children
+    const siteAreasToBuild: { siteArea: SiteArea; parent?: SiteAreaNode }[] = [{ siteArea: rootSiteArea }];
+    while (!Utils.isEmptyArray(siteAreasToBuild)) {
+      const { siteArea, parent } = siteAreasToBuild.shift();
+      if (siteAreaNodes.some((siteAreaNode) => siteAreaNode.siteArea === siteArea)) {
+        continue;
+      }
+      const assets = await AssetStorage.getAssets(this.tenant, { siteAreaIDs: [siteArea.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      // Batteries are not controlled, only their measured power is shared with the sessions
+      const batteryAssets = assets.result.filter((asset) => asset.battery && !asset.excludeFromSmartCharging);
+      const siteAreaNode: SiteAreaNode = {
+        siteArea,
+        parent,
+        gridPhases: GRID_PHASES.map((phase) => {
+          const parentPhase = this.getParentPhase(siteArea.phaseAssignmentToGrid, siteArea.numberOfPhases, phase);
+          return parent ? parent.gridPhases[GRID_PHASES.indexOf(parentPhase)] : parentPhase;
+        }),
+        maximumAmps: GRID_PHASES.map(() => 0),
+        remainingAmps: GRID_PHASES.map(() => 0),
+        assetWatts: await this.getAssetConsumptionWatts(assets.result),
+        batteryAssets,
+      };
+      siteAreaNodes.push(siteAreaNode);
+      // Power of the Site Area on each of its phases
+      const siteAreaGridPhaseIndexes = this.getSiteAreaGridPhaseIndexes(siteAreaNode);
+      for (const gridPhaseIndex of siteAreaGridPhaseIndexes) {
+        siteAreaNode.maximumAmps[gridPhaseIndex] += siteArea.maximumPower * (1 - safetyMarginPercent / 100) / siteArea.voltage / siteArea.numberOfPhases;
+      }
+      siteAreaNode.remainingAmps = [...siteAreaNode.maximumAmps];
+      // Assets consume on this level and above
+      const assetAmpsPerPhase = siteAreaNode.assetWatts / siteArea.voltage / siteArea.numberOfPhases;
+      this.consumeSiteAreaAmps(siteAreaNode, siteAreaGridPhaseIndexes, assetAmpsPerPhase);
+      for (const childSiteArea of siteArea.childSiteAreas ?? []) {
+        siteAreasToBuild.push({ siteArea: childSiteArea, parent: siteAreaNode });
+      }
+    }
+    return siteAreaNodes;
+  }
+
+  private getSiteAreaGridPhaseIndexes(siteAreaNode: SiteAreaNode): number[] {
+    return siteAreaNode.gridPhases.slice(0, siteAreaNode.siteArea.numberOfPhases).map((gridPhase) => GRID_PHASES.indexOf(gridPhase));
+  }
+
+  private buildBatteryAllocations(siteAreaNodes: SiteAreaNode[]): BatteryAllocation[] {
+    const batteryAllocations: BatteryAllocation[] = [];
+    for (const siteAreaNode of siteAreaNodes) {
+      for (const asset of siteAreaNode.batteryAssets) {
+        // The state of charge limits cannot be checked without the state of charge
+        if (Utils.isNullOrUndefined(asset.currentStateOfCharge)) {
+          continue;
+        }
+        batteryAllocations.push({
+          asset,
+          siteAreaNode,
+          gridPhaseIndexes: this.getSiteAreaGridPhaseIndexes(siteAreaNode),
+          maxChargeWatts: asset.currentStateOfCharge < asset.battery.maxStateOfChargePercent ? Math.max(asset.battery.maxChargeWatts, 0) : 0,
+          maxDischargeWatts: asset.currentStateOfCharge > asset.battery.minStateOfChargePercent ? Math.max(asset.battery.maxDischargeWatts, 0) : 0,
+          measuredPowerWatts: this.getAssetWatts(asset),
+          powerWatts: 0,
+        });
+      }
+    }
+    return batteryAllocations;
+  }
+
+  private dispatchBatteries(siteAreaNodes: SiteAreaNode[], batteryAllocations: BatteryAllocation[], connectorAllocations: ConnectorAllocation[]): void {
+    // The measured power of the batteries is already in the load: the plans are relative to it
+    let coveredWatts = 0;
+    for (const batteryAllocation of batteryAllocations) {
+      const siteArea = batteryAllocation.siteAreaNode.siteArea;
+      // Power the sessions below the battery miss to reach their maximum
+      const missingWatts = connectorAllocations
+        .filter((connectorAllocation) => connectorAllocation.siteAreaNodes.includes(batteryAllocation.siteAreaNode) &&
+          connectorAllocation.solarChargingMode !== SolarChargingMode.SOLAR_ONLY)
+        .reduce((watts, connectorAllocation) => watts + Math.max(connectorAllocation.maxAmpsPerPhase - connectorAllocation.ampsPerPhase, 0) *
+          connectorAllocation.numberOfPhasesInUse * siteArea.voltage, 0);
+      // Power not used by the sessions is given back
+      const unusedWatts = Math.max(this.getSiteAreaPathRemainingAmpsPerPhase(batteryAllocation.siteAreaNode, batteryAllocation.gridPhaseIndexes), 0) *
+        siteArea.voltage * siteArea.numberOfPhases;
+      const measuredDischargeWatts = Math.max(-batteryAllocation.measuredPowerWatts, 0);
+      const dischargeWatts = Math.min(Math.max(measuredDischargeWatts + missingWatts - coveredWatts - unusedWatts, 0), batteryAllocation.maxDischargeWatts);
+      coveredWatts += Math.max(dischargeWatts - measuredDischargeWatts, 0);
+      batteryAllocation.powerWatts = -dischargeWatts;
+    }
+    // Production exported by the tree, the batteries do not charge each other
+    const rootSiteAreaNode = siteAreaNodes[0];
+    let surplusWatts = -rootSiteAreaNode.maximumAmps.reduce((amps, maximumAmps, gridPhaseIndex) =>
+      amps + maximumAmps - rootSiteAreaNode.remainingAmps[gridPhaseIndex], 0) * rootSiteAreaNode.siteArea.voltage;
+    for (const batteryAllocation of batteryAllocations) {
+      if (batteryAllocation.powerWatts < 0 || batteryAllocation.maxChargeWatts <= 0) {
+        continue;
+      }
+      const siteArea = batteryAllocation.siteAreaNode.siteArea;
+      const measuredChargeWatts = Math.max(batteryAllocation.measuredPowerWatts, 0);
+      const remainingWatts = this.getSiteAreaPathRemainingAmpsPerPhase(batteryAllocation.siteAreaNode, batteryAllocation.gridPhaseIndexes) *
+        siteArea.voltage * siteArea.numberOfPhases;
+      const chargeWatts = Math.min(Math.max(measuredChargeWatts + Math.min(surplusWatts, remainingWatts), 0), batteryAllocation.maxChargeWatts);
+      this.consumeSiteAreaAmps(batteryAllocation.siteAreaNode, batteryAllocation.gridPhaseIndexes,
+        (chargeWatts - measuredChargeWatts) / siteArea.voltage / siteArea.numberOfPhases);
+      batteryAllocation.powerWatts = chargeWatts;
+      surplusWatts -= chargeWatts - measuredChargeWatts;
+    }
+  }
+
+  private getSiteAreaPathRemainingAmpsPerPhase(siteAreaNode: SiteAreaNode, gridPhaseIndexes: number[]): number {
+    let remainingAmpsPerPhase = Number.MAX_SAFE_INTEGER;
+    for (const pathSiteAreaNode of this.getSiteAreaNodePath(siteAreaNode)) {
+      for (const gridPhaseIndex of gridPhaseIndexes) {
+        remainingAmpsPerPhase = Math.min(remainingAmpsPerPhase, pathSiteAreaNode.remainingAmps[gridPhaseIndex]);
+      }
+    }
+    return remainingAmpsPerPhase;
+  }
+
+  private buildBatteryPlan(batteryAllocation: BatteryAllocation, computedOn: Date): AssetBatteryPlan {
+    const asset = batteryAllocation.asset;
+    const powerWatts = Math.round(batteryAllocation.powerWatts);
+    const schedule: AssetBatteryPlanPeriod[] = [{ startDate: computedOn, powerWatts }];
+    // Stop once the state of charge limit is reached
+    if (powerWatts !== 0 && asset.battery.capacityWh > 0) {
+      const energyWh = (powerWatts > 0 ? asset.battery.maxStateOfChargePercent - asset.currentStateOfCharge :
+        asset.currentStateOfCharge - asset.battery.minStateOfChargePercent) / 100 * asset.battery.capacityWh;
+      schedule.push({
+        startDate: new Date(computedOn.getTime() + Math.round(energyWh / Math.abs(powerWatts) * 3600) * 1000),
+        powerWatts: 0
+      });
+    }
+    return {
+      computedOn,
+      assetID: asset.id,
+      siteAreaID: batteryAllocation.siteAreaNode.siteArea.id,
+      mode: powerWatts > 0 ? AssetBatteryMode.SURPLUS_CHARGING : (powerWatts < 0 ? AssetBatteryMode.PEAK_SHAVING : AssetBatteryMode.IDLE),
+      stateOfChargePercent: asset.currentStateOfCharge,
+      powerWatts,
+      schedule,
+    };
+  }
+
+  private getSolarChargingMode(siteAreaNodePath: SiteAreaNode[], transaction: Transaction): SolarChargingMode {
+    // Mode of the session takes precedence over the one of the closest Site Area
+    return transaction?.chargingNeeds?.solarChargingMode ??
+      siteAreaNodePath.find((siteAreaNode) => siteAreaNode.siteArea.solarChargingMode)?.siteArea.solarChargingMode ??
+      SolarChargingMode.NONE;
+  }
+
+  private getSiteAreaNodePath(siteAreaNode: SiteAreaNode): SiteAreaNode[] {
+    const siteAreaNodePath: SiteAreaNode[] = [];
+    for (let currentSiteAreaNode = siteAreaNode; currentSiteAreaNode; currentSiteAreaNode = currentSiteAreaNode.parent) {
+      siteAreaNodePath.push(currentSiteAreaNode);
+    }
+    return siteAreaNodePath;
+  }
+
+  private consumeSiteAreaAmps(siteAreaNode: SiteAreaNode, gridPhaseIndexes: number[], ampsPerPhase: number): void {
+    // Every level up to the main feeder carries the load
+    for (const pathSiteAreaNode of this.getSiteAreaNodePath(siteAreaNode)) {
+      for (const gridPhaseIndex of gridPhaseIndexes) {
+        pathSiteAreaNode.remainingAmps[gridPhaseIndex] -= ampsPerPhase;
+      }
+    }
+  }
+
+  private getSiteAreaRemainingAmpsPerPhase(connectorAllocation: ConnectorAllocation, connectorsToFill?: ConnectorAllocation[]): number {
+    let remainingAmpsPerPhase = Number.MAX_SAFE_INTEGER;
+    for (const siteAreaNode of connectorAllocation.siteAreaNodes) {
+      for (const gridPhaseIndex of new Set(connectorAllocation.gridPhaseIndexes)) {
+        // Share the phase with the other connectors to fill below this level
+        const numberOfPhasesToFill = (connectorsToFill ?? [connectorAllocation])
+          .filter((otherConnectorAllocation) => otherConnectorAllocation.siteAreaNodes.includes(siteAreaNode))
+          .reduce((phases, otherConnectorAllocation) =>
+            phases + otherConnectorAllocation.gridPhaseIndexes.filter((otherGridPhaseIndex) => otherGridPhaseIndex === gridPhaseIndex).length, 0);
+        remainingAmpsPerPhase = Math.min(remainingAmpsPerPhase, siteAreaNode.remainingAmps[gridPhaseIndex] / numberOfPhasesToFill);
+      }
+    }
+    return remainingAmpsPerPhase;
+  }
+
+  private getSolarSurplusAmpsPerPhase(connectorAllocation: ConnectorAllocation, connectorsToFill?: ConnectorAllocation[]): number {
+    if (connectorAllocation.solarChargingMode === SolarChargingMode.NONE) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    // Share the surplus with the other solar connectors to fill
+    const numberOfPhasesToFill = (connectorsToFill ?? [connectorAllocation])
+      .filter((otherConnectorAllocation) => otherConnectorAllocation.solarChargingMode !== SolarChargingMode.NONE)
+      .reduce((phases, otherConnectorAllocation) => phases + otherConnectorAllocation.numberOfPhasesInUse, 0);
+    return Math.max(this.solarSurplusAmps, 0) / numberOfPhasesToFill;
+  }
+
+  private addConnectorAmpsPerPhase(connectorAllocation: ConnectorAllocation, ampsPerPhase: number): void {
+    connectorAllocation.ampsPerPhase += ampsPerPhase;
+    this.consumeSiteAreaAmps(connectorAllocation.siteAreaNodes[0], connectorAllocation.gridPhaseIndexes, ampsPerPhase);
+    if (connectorAllocation.solarChargingMode !== SolarChargingMode.NONE) {
+      this.solarSurplusAmps -= ampsPerPhase * connectorAllocation.numberOfPhasesInUse;
+    }
+  }
+
+  private async getOngoingTransactions(siteAreaNodes: SiteAreaNode[]): Promise<Map<number, Transaction>> {
+    const transactionIDs: number[] = [];
+    for (const siteAreaNode of siteAreaNodes) {
+      for (const chargingStation of siteAreaNode.siteArea.chargingStations) {
+        for (const connector of chargingStation.connectors) {
+          if (connector?.currentTransactionID) {
+            transactionIDs.push(connector.currentTransactionID);
+          }
+        }
+      }
+    }
+    const transactions = new Map<number, Transaction>();
+    // Hypothetical sessions of a simulation
+    const simulatedTransactions = this.getSimulatedTransactions();
+    if (simulatedTransactions) {
+      for (const simulatedTransaction of simulatedTransactions) {
+        transactions.set(simulatedTransaction.id, simulatedTransaction);
+      }
+    } else if (!Utils.isEmptyArray(transactionIDs)) {
+      const ongoingTransactions = await TransactionStorage.getTransactions(this.tenant.id, { transactionIDs },
+        Constants.DB_PARAMS_MAX_LIMIT, ['id', 'smartChargingPriority', 'chargingNeeds', 'chargingPlan.limitAmps', 'currentTotalConsumptionWh', 'phasesUsed']);
+      for (const transaction of ongoingTransactions.result) {
+        transactions.set(transaction.id, transaction);
+      }
+    }
+    return transactions;
+  }
+
+  private computeRequiredAmpsPerPhase(connectorAllocation: ConnectorAllocation): number {
+    // Both the target and the departure are needed to plan the session
+    if (!connectorAllocation.targetEnergyWh || !connectorAllocation.departureTime) {
+      return null;
+    }
+    const remainingEnergyWh = connectorAllocation.targetEnergyWh - connectorAllocation.consumedEnergyWh;
+    if (remainingEnergyWh <= 0) {
+      return 0;
+    }
+    const remainingHours = moment(connectorAllocation.departureTime).diff(moment(), 'hours', true);
+    // Departure passed: as fast as possible
+    if (remainingHours <= 0) {
+      return connectorAllocation.maxAmpsPerPhase;
+    }
+    return Utils.convertWattToAmp(connectorAllocation.chargingStation, connectorAllocation.chargePoint,
+      connectorAllocation.connectorID, remainingEnergyWh / remainingHours) / connectorAllocation.numberOfPhasesInUse;
+  }
+
+  private shareAvailableAmps(rootSiteArea: SiteArea, connectorAllocations: ConnectorAllocation[]): void {
+    // Highest priority first, then earliest departure, then first come first served
+    connectorAllocations.sort((a, b) => this.compareConnectorAllocations(a, b));
+    const chargingConnectors: ConnectorAllocation[] = [];
+    const waitingSolarConnectors: ConnectorAllocation[] = [];
+    for (const connectorAllocation of connectorAllocations) {
+      // Solar only sessions wait for enough surplus, a bit more to resume than to keep charging
+      if (connectorAllocation.solarChargingMode === SolarChargingMode.SOLAR_ONLY &&
+          connectorAllocation.minAmpsPerPhase + (connectorAllocation.previousLimitAmps > 0 ? 0 : this.getSolarHysteresisAmps()) >
+            this.getSolarSurplusAmpsPerPhase(connectorAllocation)) {
+        waitingSolarConnectors.push(connectorAllocation);
+        continue;
+      }
+      const minAmps = connectorAllocation.minAmpsPerPhase * connectorAllocation.numberOfPhasesInUse;
+      if (connectorAllocation.minAmpsPerPhase <= this.getSiteAreaRemainingAmpsPerPhase(connectorAllocation) &&
+          minAmps <= this.getChargePointRemainingAmps(connectorAllocations, connectorAllocation)) {
+        this.addConnectorAmpsPerPhase(connectorAllocation, connectorAllocation.minAmpsPerPhase);
+        chargingConnectors.push(connectorAllocation);
+      }
+    }
+    // Not enough power for everybody: the least prioritized sessions are suspended
+    if (chargingConnectors.length + waitingSolarConnectors.length < connectorAllocations.length) {
+      void Logging.logWarning({
+        tenantID: this.tenant.id,
+        action: ServerAction.SMART_CHARGING,
+        module: MODULE_NAME, method: 'shareAvailableAmps',
+        message: `${connectorAllocations.length - chargingConnectors.length - waitingSolarConnectors.length} session(s) have been suspended in Site Area '${rootSiteArea.name}' because the maximum power is reached`,
+        detailedMessages: {
+          suspendedConnectors: connectorAllocations
+            .filter((connectorAllocation) => !chargingConnectors.includes(connectorAllocation) && !waitingSolarConnectors.includes(connectorAllocation))
+            .map((connectorAllocation) => ({
+              chargingStationID: connectorAllocation.chargingStation.id,
+              connectorID: connectorAllocation.connectorID,
+              siteAreaID: connectorAllocation.siteAreaNodes[0].siteArea.id,
+              transactionID: connectorAllocation.transactionID,
+              priority: connectorAllocation.priority,
+            }))
+        }
+      });
+    }
+    // Deliver the requested energy by the departure time
+    for (const connectorAllocation of chargingConnectors) {
+      if (connectorAllocation.requiredAmpsPerPhase > connectorAllocation.ampsPerPhase) {
+        this.addConnectorAmpsPerPhase(connectorAllocation, Math.max(Math.min(
+          connectorAllocation.requiredAmpsPerPhase - connectorAllocation.ampsPerPhase,
+          connectorAllocation.maxAmpsPerPhase - connectorAllocation.ampsPerPhase,
+          this.getChargePointRemainingAmps(connectorAllocations, connectorAllocation) / connectorAllocation.numberOfPhasesInUse,
+          this.getSiteAreaRemainingAmpsPerPhase(connectorAllocation),
+          this.getSolarSurplusAmpsPerPhase(connectorAllocation)), 0));
+      }
+    }
+    // Share the rest evenly per phase, priority by priority, until all the connectors are at their max
+    const priorities = [...new Set(chargingConnectors.map((connectorAllocation) => connectorAllocation.priority))];
+    for (const priority of priorities) {
+      this.fillConnectors(connectorAllocations,
+        chargingConnectors.filter((connectorAllocation) => connectorAllocation.priority === priority));
+    }
+    // Follow the PV surplus without changing the limits for every small variation
+    this.applySolarHysteresis(connectorAllocations, chargingConnectors);
+  }
+
+  private fillConnectors(connectorAllocations: ConnectorAllocation[], connectorsToFill: ConnectorAllocation[]): void {
+    while (!Utils.isEmptyArray(connectorsToFill)) {
+      // Fair share of each connector on every level of the tree
+      const ampsPerPhaseShares = connectorsToFill.map((connectorAllocation) => Math.min(
+        this.getSiteAreaRemainingAmpsPerPhase(connectorAllocation, connectorsToFill),
+        this.getSolarSurplusAmpsPerPhase(connectorAllocation, connectorsToFill)));
+      let sharedAmps = 0;
+      for (let i = 0; i < connectorsToFill.length; i++) {
+        const connectorAllocation = connectorsToFill[i];
+        const ampsPerPhaseIncrement = Math.max(Math.min(ampsPerPhaseShares[i],
+          connectorAllocation.maxAmpsPerPhase - connectorAllocation.ampsPerPhase,
+          this.getChargePointRemainingAmps(connectorAllocations, connectorAllocation) / connectorAllocation.numberOfPhasesInUse,
+          this.getSiteAreaRemainingAmpsPerPhase(connectorAllocation),
+          this.getSolarSurplusAmpsPerPhase(connectorAllocation)), 0);
+        this.addConnectorAmpsPerPhase(connectorAllocation, ampsPerPhaseIncrement);
+        sharedAmps += ampsPerPhaseIncrement * connectorAllocation.numberOfPhasesInUse;
+      }
+      connectorsToFill = connectorsToFill.filter((connectorAllocation) =>
+        connectorAllocation.ampsPerPhase < connectorAllocation.maxAmpsPerPhase &&
+        this.getChargePointRemainingAmps(connectorAllocations, connectorAllocation) > 0 &&
+        this.getSiteAreaRemainingAmpsPerPhase(connectorAllocation) > 0 &&
+        this.getSolarSurplusAmpsPerPhase(connectorAllocation) > 0);
+      if (sharedAmps < 1) {
+        break;
+      }
+    }
+  }
+
+  private applySolarHysteresis(connectorAllocations: ConnectorAllocation[], chargingConnectors: ConnectorAllocation[]): void {
+    const solarHysteresisAmps = this.getSolarHysteresisAmps();
+    for (const connectorAllocation of chargingConnectors) {
+      if (connectorAllocation.solarChargingMode === SolarChargingMode.NONE || !(connectorAllocation.previousLimitAmps > 0)) {
+        continue;
+      }
+      // Keep the previous limit if the new one is too close
+      const previousAmpsPerPhase = connectorAllocation.previousLimitAmps / connectorAllocation.numberOfPhases;
+      if (Math.abs(previousAmpsPerPhase - Math.floor(connectorAllocation.ampsPerPhase)) >= solarHysteresisAmps) {
+        continue;
+      }
+      const ampsPerPhaseIncrement = previousAmpsPerPhase - connectorAllocation.ampsPerPhase;
+      // A small import from the grid is accepted as long as every level can take it
+      if (ampsPerPhaseIncrement <= 0 || (ampsPerPhaseIncrement <= this.getSiteAreaRemainingAmpsPerPhase(connectorAllocation) &&
+          ampsPerPhaseIncrement * connectorAllocation.numberOfPhasesInUse <= this.getChargePointRemainingAmps(connectorAllocations, connectorAllocation))) {
+        this.addConnectorAmpsPerPhase(connectorAllocation, ampsPerPhaseIncrement);
+      }
+    }
+  }
+
+  private getSolarHysteresisAmps(): number {
+    return this.setting.solarHysteresisAmps > 0 ? this.setting.solarHysteresisAmps : 0;
+  }
+
+  private compareConnectorAllocations(a: ConnectorAllocation, b: ConnectorAllocation): number {
+    if (a.priority !== b.priority) {
+      return b.priority - a.priority;
+    }
+    // Sessions without departure come last
+    const aDepartureTime = a.departureTime ? Utils.convertToDate(a.departureTime).getTime() : Number.MAX_SAFE_INTEGER;
+    const bDepartureTime = b.departureTime ? Utils.convertToDate(b.departureTime).getTime() : Number.MAX_SAFE_INTEGER;
+    if (aDepartureTime !== bDepartureTime) {
+      return aDepartureTime - bDepartureTime;
+    }
+    return (a.transactionDate ? Utils.convertToDate(a.transactionDate).getTime() : 0) - (b.transactionDate ? Utils.convertToDate(b.transactionDate).getTime() : 0);
+  }
+
+  private getChargePointRemainingAmps(connectorAllocations: ConnectorAllocation[], connectorAllocation: ConnectorAllocation): number {
+    // Connectors of the same charge point share its amperage
+    const chargePointAllocatedAmps = connectorAllocations
+      .filter((otherConnectorAllocation) =>
+        otherConnectorAllocation.chargingStation.id === connectorAllocation.chargingStation.id &&
+        otherConnectorAllocation.chargePoint.chargePointID === connectorAllocation.chargePoint.chargePointID)
+      .reduce((amps, otherConnectorAllocation) => amps + otherConnectorAllocation.ampsPerPhase * otherConnectorAllocation.numberOfPhasesInUse, 0);
+    return connectorAllocation.chargePointMaxAmps - chargePointAllocatedAmps;
+  }
+
+  private async buildChargingSchedules(connectorAllocations: ConnectorAllocation[], computedOn: Date): Promise<void> {
+    const chargingScheduleOptimization = this.setting.chargingScheduleOptimization ?? ChargingScheduleOptimization.NONE;
+    if (chargingScheduleOptimization === ChargingScheduleOptimization.NONE) {
+      return;
+    }
+    // Only the sessions still needing energy before a known departure can be shifted, solar ones follow the production
+    const connectorsToSchedule = connectorAllocations.filter((connectorAllocation) =>
+      connectorAllocation.solarChargingMode === SolarChargingMode.NONE && connectorAllocation.requiredAmpsPerPhase > 0 &&
+      Utils.convertToDate(connectorAllocation.departureTime).getTime() > computedOn.getTime() && this.getLimitAmps(connectorAllocation) > 0);
+    if (Utils.isEmptyArray(connectorsToSchedule)) {
+      return;
+    }
+    const lastDepartureTime = new Date(Math.max(...connectorsToSchedule.map(
+      (connectorAllocation) => Utils.convertToDate(connectorAllocation.departureTime).getTime())));
+    const energyPrices = await EnergyPriceStorage.getEnergyPrices(this.tenant.id,
+      { startDate: computedOn, endDate: lastDepartureTime }, Constants.DB_PARAMS_MAX_LIMIT,
+      ['startDate', 'endDate', 'pricePerKWh', 'co2GramsPerKWh']);
+    if (Utils.isEmptyArray(energyPrices.result)) {
+      return;
+    }
+    for (const connectorAllocation of connectorsToSchedule) {
+      connectorAllocation.schedule = this.buildChargingSchedule(connectorAllocation, energyPrices.result, chargingScheduleOptimization, computedOn);
+    }
+  }
+
+  private buildChargingSchedule(connectorAllocation: ConnectorAllocation, energyPrices: EnergyPrice[],
+      chargingScheduleOptimization: ChargingScheduleOptimization, computedOn: Date): ConnectorSchedule {
+    const limitAmps = this.getLimitAmps(connectorAllocation);
+    const limitWatts = this.getLimitWatts(connectorAllocation, limitAmps);
+    const departureTime = Utils.convertToDate(connectorAllocation.departureTime).getTime();
+    // Split the time left on the boundaries of the prices
+    const slotTimes = new Set<number>([computedOn.getTime(), departureTime]);
+    for (const energyPrice of energyPrices) {
+      for (const priceTime of [Utils.convertToDate(energyPrice.startDate).getTime(), Utils.convertToDate(energyPrice.endDate).getTime()]) {
+        if (priceTime > computedOn.getTime() && priceTime < departureTime) {
+          slotTimes.add(priceTime);
+        }
+      }
+    }
+    const sortedSlotTimes = [...slotTimes].sort((a, b) => a - b);
+    const slots: ScheduleSlot[] = [];
+    for (let i = 0; i < sortedSlotTimes.length - 1; i++) {
+      slots.push({
+        startTime: sortedSlotTimes[i],
+        endTime: sortedSlotTimes[i + 1],
+        energyPrice: energyPrices.find((energyPrice) => Utils.convertToDate(energyPrice.startDate).getTime() <= sortedSlotTimes[i] &&
+          Utils.convertToDate(energyPrice.endDate).getTime() > sortedSlotTimes[i]),
+        chargingMillis: 0,
+      });
+    }
+    // Charge at the allocated power in the best slots first, the ones without price last
+    const rankedSlots = [...slots].sort((a, b) =>
+      (this.getScheduleSlotRank(a, chargingScheduleOptimization) - this.getScheduleSlotRank(b, chargingScheduleOptimization)) ||
+      (a.startTime - b.startTime));
+    let remainingEnergyWh = connectorAllocation.targetEnergyWh - connectorAllocation.consumedEnergyWh;
+    const schedule: ConnectorSchedule = { periods: [], energyWh: 0, cost: 0, co2Grams: 0 };
+    for (const slot of rankedSlots) {
+      if (remainingEnergyWh <= 0) {
+        break;
+      }
+      // Periods start on a second
+      slot.chargingMillis = Math.min(slot.endTime - slot.startTime, Math.ceil(remainingEnergyWh / limitWatts * 3600) * 1000);
+      const slotEnergyWh = limitWatts * slot.chargingMillis / 3600000;
+      remainingEnergyWh -= slotEnergyWh;
+      schedule.energyWh += slotEnergyWh;
+      schedule.cost = Number.isFinite(slot.energyPrice?.pricePerKWh) ?
+        schedule.cost + slotEnergyWh / 1000 * slot.energyPrice.pricePerKWh : null;
+      schedule.co2Grams = Number.isFinite(slot.energyPrice?.co2GramsPerKWh) ?
+        schedule.co2Grams + slotEnergyWh / 1000 * slot.energyPrice.co2GramsPerKWh : null;
+    }
+    // Charge at the beginning of the selected slots
+    for (const slot of slots) {
+      this.addChargingSchedulePeriod(schedule.periods, slot.startTime, slot.chargingMillis > 0 ? limitAmps : 0);
+      if (slot.chargingMillis > 0 && slot.chargingMillis < slot.endTime - slot.startTime) {
+        this.addChargingSchedulePeriod(schedule.periods, slot.startTime + slot.chargingMillis, 0);
+      }
+    }
+    // Departure passed: as fast as possible
+    this.addChargingSchedulePeriod(schedule.periods, departureTime, limitAmps);
+    // Too many periods for the Charging Station: charge from the last one on
+    if (schedule.periods.length > TX_PROFILE_MAX_PERIODS) {
+      schedule.periods = schedule.periods.slice(0, TX_PROFILE_MAX_PERIODS);
+      schedule.periods[TX_PROFILE_MAX_PERIODS - 1].limitAmps = limitAmps;
+    }
+    return schedule;
+  }
+
+  private getScheduleSlotRank(slot: ScheduleSlot, chargingScheduleOptimization: ChargingScheduleOptimization): number {
+    const rank = chargingScheduleOptimization === ChargingScheduleOptimization.CO2 ?
+      slot.energyPrice?.co2GramsPerKWh : slot.energyPrice?.pricePerKWh;
+    return Number.isFinite(rank) ? rank : Number.MAX_SAFE_INTEGER;
+  }
+
+  private addChargingSchedulePeriod(periods: ChargingPlanPeriod[], startTime: number, limitAmps: number): void {
+    // Merge with the previous period if the limit does not change
+    if (Utils.isEmptyArray(periods) || periods[periods.length - 1].limitAmps !== limitAmps) {
+      periods.push({ startDate: new Date(startTime), limitAmps });
+    }
+  }
+
+  private getLimitAmps(connectorAllocation: ConnectorAllocation): number {
+    // Amps for all the phases, zero suspends the session
+    return Math.floor(connectorAllocation.ampsPerPhase) * connectorAllocation.numberOfPhases;
+  }
+
+  private getLimitWatts(connectorAllocation: ConnectorAllocation, limitAmps: number): number {
+    // Only the phases in use draw the limit
+    return Utils.convertAmpToWatt(connectorAllocation.chargingStation, connectorAllocation.chargePoint, connectorAllocation.connectorID,
+      limitAmps / connectorAllocation.numberOfPhases * connectorAllocation.numberOfPhasesInUse);
+  }
+
+  private buildChargingPlan(connectorAllocation: ConnectorAllocation, computedOn: Date): ChargingPlan {
+    // Limit of the current period
+    const limitAmps = connectorAllocation.schedule ? connectorAllocation.schedule.periods[0].limitAmps : this.getLimitAmps(connectorAllocation);
+    const chargingPlan: ChargingPlan = {
+      computedOn,
+      transactionID: connectorAllocation.transactionID,
+      siteAreaID: connectorAllocation.siteAreaNodes[0].siteArea.id,
+      chargingStationID: connectorAllocation.chargingStation.id,
+      connectorID: connectorAllocation.connectorID,
+      priority: connectorAllocation.priority,
+      solarChargingMode: connectorAllocation.solarChargingMode,
+      departureTime: connectorAllocation.departureTime,
+      targetEnergyWh: connectorAllocation.targetEnergyWh,
+      consumedEnergyWh: connectorAllocation.consumedEnergyWh,
+      limitAmps,
+      limitWatts: this.getLimitWatts(connectorAllocation, limitAmps),
+      suspended: limitAmps === 0,
+    };
+    if (connectorAllocation.requiredAmpsPerPhase !== null) {
+      chargingPlan.requiredAmps = Math.ceil(connectorAllocation.requiredAmpsPerPhase * connectorAllocation.numberOfPhases);
+      if (connectorAllocation.schedule) {
+        // Energy delivered by the scheduled periods
+        chargingPlan.schedule = connectorAllocation.schedule.periods;
+        chargingPlan.estimatedEnergyAtDepartureWh = Math.round(connectorAllocation.consumedEnergyWh + connectorAllocation.schedule.energyWh);
+        if (Number.isFinite(connectorAllocation.schedule.cost)) {
+          chargingPlan.estimatedCost = Utils.truncTo(connectorAllocation.schedule.cost, 2);
+        }
+        if (Number.isFinite(connectorAllocation.schedule.co2Grams)) {
+          chargingPlan.estimatedCo2Grams = Math.round(connectorAllocation.schedule.co2Grams);
+        }
+      } else {
+        // Energy delivered if the limit is kept until the departure
+        const remainingHours = Math.max(moment(connectorAllocation.departureTime).diff(moment(computedOn), 'hours', true), 0);
+        chargingPlan.estimatedEnergyAtDepartureWh = Math.round(connectorAllocation.consumedEnergyWh + chargingPlan.limitWatts * remainingHours);
+      }
+      chargingPlan.targetReachable = chargingPlan.estimatedEnergyAtDepartureWh >= connectorAllocation.targetEnergyWh;
+    }
+    return chargingPlan;
+  }
+
+  private buildChargingProfile(connectorAllocation: ConnectorAllocation, computedOn: Date): ChargingProfile {
+    return {
+      chargingStationID: connectorAllocation.chargingStation.id,
+      chargePointID: connectorAllocation.chargePoint.chargePointID,
+      connectorID: connectorAllocation.connectorID,
+      profile: {
+        chargingProfileId: TX_PROFILE_ID,
+        transactionId: connectorAllocation.transactionID,
+        stackLevel: TX_PROFILE_STACK_LEVEL,
+        chargingProfilePurpose: ChargingProfilePurposeType.TX_PROFILE,
+        chargingProfileKind: ChargingProfileKindType.ABSOLUTE,
+        chargingSchedule: {
+          startSchedule: computedOn,
+          chargingRateUnit: ChargingRateUnitType.AMPERE,
+          chargingSchedulePeriod: connectorAllocation.schedule ?
+            connectorAllocation.schedule.periods.map((period) => ({
+              startPeriod: Math.round((period.startDate.getTime() - computedOn.getTime()) / 1000),
+              limit: period.limitAmps
+            })) : [{
+              startPeriod: 0,
+              limit: this.getLimitAmps(connectorAllocation)
+            }]
+        }
+      }
+    };
+  }
+
+  private async getAssetConsumptionWatts(assets: Asset[]): Promise<number> {
+    let assetConsumptionWatts = 0;
+    for (const asset of assets) {
+      if (asset.excludeFromSmartCharging) {
+        continue;
+      }
+      // Production is negative
+      let assetWatts = this.getAssetWatts(asset);
+      // Keep a margin for the fluctuation
+      if (asset.fluctuationPercent > 0) {
+        assetWatts += Math.abs(assetWatts) * asset.fluctuationPercent / 100;
+      }
+      assetConsumptionWatts += assetWatts;
+      // Keep the power for the variation check of the next run
+      if (!this.isSimulation() && asset.dynamicAsset && asset.powerWattsLastSmartChargingRun !== asset.currentInstantWatts) {
+        asset.powerWattsLastSmartChargingRun = asset.currentInstantWatts;
+        await AssetStorage.saveAsset(this.tenant, asset, false);
+      }
+    }
+    return assetConsumptionWatts;
+  }
+
+  private getAssetWatts(asset: Asset): number {
+    if (asset.dynamicAsset && Utils.objectHasProperty(asset, 'currentInstantWatts')) {
+      return Utils.convertToFloat(asset.currentInstantWatts);
+    }
+    if (asset.assetType === AssetType.PRODUCTION) {
+      return -Utils.convertToFloat(asset.staticValueWatt);
+    }
+    return Utils.convertToFloat(asset.staticValueWatt);
+  }
+}
@@ -7,6 +7,7 @@ import LockingManager from './LockingManager';
 import OCPIEndpoint from '../types/ocpi/OCPIEndpoint';
 import OICPEndpoint from '../types/oicp/OICPEndpoint';
 import SiteArea from '../types/SiteArea';
+import SiteAreaStorage from '../storage/mongodb/SiteAreaStorage';
 
 export default class LockingHelper {
   public static async acquireAsyncTaskLock(tenantID: string, asyncTask: AsyncTask): Promise<Lock | null> {
@@ -18,7 +19,9 @@ export default class LockingHelper {
   }
 
   public static async acquireSiteAreaSmartChargingLock(tenantID: string, siteArea: SiteArea, timeoutSecs: number): Promise<Lock | null> {
-    const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.SITE_AREA, `${siteArea.id}-smart-charging`, 180);
+    // The power is shared with the whole tree of Site Areas
+    const rootSiteAreaID = await SiteAreaStorage.getRootSiteAreaID(tenantID, siteArea);
+    const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.SITE_AREA, `${rootSiteAreaID}-smart-charging`, 180);
     if (!(await LockingManager.acquire(lock, timeoutSecs))) {
       return null;
     }
@@ -57,6 +60,14 @@ export default class LockingHelper {
     return lock;
   }
 
+  public static async acquireSyncLocalAuthorizationListsLock(tenantID: string): Promise<Lock | null> {
+    const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.LOCAL_AUTHORIZATION_LIST, 'synchronize-local-authorization-lists');
+    if (!(await LockingManager.acquire(lock))) {
+      return null;
+    }
+    return lock;
+  }
+
   public static async acquireBillingSyncInvoicesLock(tenantID: string): Promise<Lock | null> {
     const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.INVOICE, 'synchronize-billing-invoices');
     if (!(await LockingManager.acquire(lock))) {
@@ -73,9 +84,9 @@ export default class LockingHelper {
     return lock;
   }
 
-  public static async acquireAssetRetrieveConsumptionsLock(tenantID: string, asset: Asset): Promise<Lock | null> {
+  public static async acquireAssetRetrieveConsumptionsLock(tenantID: string, asset: Asset, timeoutSecs = 0): Promise<Lock | null> {
     const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.ASSET, `${asset.id}-consumptions`);
-    if (!(await LockingManager.acquire(lock))) {
+    if (!(await LockingManager.acquire(lock, timeoutSecs))) {
       return null;
     }
     return lock;
@@ -153,6 +164,15 @@ export default class LockingHelper {
     return lock;
   }
 
+  public static async acquireCreditTransactionLock(tenantID: string, transactionID: number): Promise<Lock | null> {
+    const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.TRANSACTION, `credit-${transactionID}`);
+    // Wait for the concurrent credit notes of the session to be issued before checking the remaining amount
+    if (!(await LockingManager.acquire(lock, 60))) {
+      return null;
+    }
+    return lock;
+  }
+
   public static async acquireBillUserLock(tenantID: string, userID: string): Promise<Lock | null> {
     const lock = LockingManager.createExclusiveLock(tenantID, LockEntity.USER, `bill-user-${userID}`);
     // ----------------------------------------------------------------------------------------
@@ -1,5 +1,6 @@
 import AddCompanyIDToChargingStationsTask from './tasks/AddCompanyIDToChargingStationsTask';
 import AddCompanyIDToTransactionsTask from './tasks/AddCompanyIDToTransactionsTask';
+import AddIdleFeeWarningNotificationToUsersTask from './tasks/AddIdleFeeWarningNotificationToUsersTask';
 import AddUserIDToCarsTask from './tasks/AddUserIDToCarsTask';
 import Constants from '../utils/Constants';
 import { LockEntity } from '../types/Locking';
@@ -94,6 +95,7 @@ export default class MigrationHandler {
     currentMigrationTasks.push(new AddCompanyIDToChargingStationsTask());
     currentMigrationTasks.push(new RestoreDataIntegrityInSiteUsersTask());
     currentMigrationTasks.push(new AddUserIDToCarsTask());
+    currentMigrationTasks.push(new AddIdleFeeWarningNotificationToUsersTask());
     return currentMigrationTasks;
   }
 
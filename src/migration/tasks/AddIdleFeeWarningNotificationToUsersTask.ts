@@ -0,0 +1,54 @@
+import Constants from '../../utils/Constants';
+import Logging from '../../utils/Logging';
+import MigrationTask from '../MigrationTask';
+import { ServerAction } from '../../types/Server';
+import Tenant from '../../types/Tenant';
+import TenantStorage from '../../storage/mongodb/TenantStorage';
+import Utils from '../../utils/Utils';
+import global from '../../types/GlobalType';
+
+const MODULE_NAME = 'AddIdleFeeWarningNotificationToUsersTask';
+
+export default class AddIdleFeeWarningNotificationToUsersTask extends MigrationTask {
+  async migrate(): Promise<void> {
+    const tenants = await TenantStorage.getTenants({}, Constants.DB_PARAMS_MAX_LIMIT);
+    for (const tenant of tenants.result) {
+      await this.migrateTenant(tenant);
+    }
+  }
+
+  async migrateTenant(tenant: Tenant): Promise<void> {
+    // Users created before the idle fee are notified like the new ones
+    const result = await global.database.getCollection<any>(tenant.id, 'users').updateMany(
+      {
+        'notifications.sendIdleFeeWarning': { $exists: false }
+      },
+      {
+        $set: {
+          'notifications.sendIdleFeeWarning': true
+        }
+      }
+    );
+    // Log in the default tenant
+    if (result.modifiedCount > 0) {
+      await Logging.logDebug({
+        tenantID: Constants.DEFAULT_TENANT,
+        module: MODULE_NAME, method: 'migrateTenant',
+        action: ServerAction.MIGRATION,
+        message: `${result.modifiedCount as number} User(s) have been updated with the idle fee warning notification in Tenant ${Utils.buildTenantName(tenant)}`
+      });
+    }
+  }
+
+  getVersion(): string {
+    return '1.0';
+  }
+
+  getName(): string {
+    return 'AddIdleFeeWarningNotificationToUsersTask';
+  }
+
+  isAsynchronous(): boolean {
+    return true;
+  }
+}
@@ -1,6 +1,6 @@
 import Tenant, { TenantLogo } from '../types/Tenant';
 import User, { UserRole } from '../types/User';
-import UserNotifications, { AccountVerificationNotification, AdminAccountVerificationNotification, BillingInvoiceSynchronizationFailedNotification, BillingNewInvoiceNotification, BillingUserSynchronizationFailedNotification, CarCatalogSynchronizationFailedNotification, ChargingStationRegisteredNotification, ChargingStationStatusErrorNotification, ComputeAndApplyChargingProfilesFailedNotification, EndOfChargeNotification, EndOfSessionNotification, EndOfSignedSessionNotification, EndUserErrorNotification, NewRegisteredUserNotification, Notification, NotificationSeverity, NotificationSource, OCPIPatchChargingStationsStatusesErrorNotification, OICPPatchChargingStationsErrorNotification, OICPPatchChargingStationsStatusesErrorNotification, OfflineChargingStationNotification, OptimalChargeReachedNotification, PreparingSessionNotStartedNotification, RequestPasswordNotification, SessionNotStartedNotification, SmtpErrorNotification, TransactionStartedNotification, UnknownUserBadgedNotification, UserAccountInactivityNotification, UserAccountStatusChangedNotification, UserNotificationKeys, VerificationEmailNotification } from '../types/UserNotifications';
+import UserNotifications, { AccountVerificationNotification, AdminAccountVerificationNotification, BillingInvoiceSynchronizationFailedNotification, BillingNewInvoiceNotification, BillingUserSynchronizationFailedNotification, CarCatalogSynchronizationFailedNotification, ChargingStationRegisteredNotification, ChargingStationStatusErrorNotification, ComputeAndApplyChargingProfilesFailedNotification, EndOfChargeNotification, EndOfSessionNotification, EndOfSignedSessionNotification, EndUserErrorNotification, IdleFeeWarningNotification, NewRegisteredUserNotification, Notification, NotificationSeverity, NotificationSource, OCPIPatchChargingStationsStatusesErrorNotification, OICPPatchChargingStationsErrorNotification, OICPPatchChargingStationsStatusesErrorNotification, OfflineChargingStationNotification, OptimalChargeReachedNotification, PreparingSessionNotStartedNotification, RequestPasswordNotification, SessionNotStartedNotification, SmtpErrorNotification, TransactionStartedNotification, UnknownUserBadgedNotification, UserAccountInactivityNotification, UserAccountStatusChangedNotification, UserNotificationKeys, VerificationEmailNotification } from '../types/UserNotifications';
 
 import ChargingStation from '../types/ChargingStation';
 import Configuration from '../utils/Configuration';
@@ -174,6 +174,48 @@ export default class NotificationHandler {
     }
   }
 
+  public static async sendIdleFeeWarning(tenant: Tenant, notificationID: string, user: User, chargingStation: ChargingStation,
+      sourceData: IdleFeeWarningNotification): Promise<void> {
+    if (tenant.id !== Constants.DEFAULT_TENANT) {
+      // Get the Tenant logo
+      if (Utils.isNullOrUndefined(tenant.logo) || tenant.logo === '') {
+        const tenantLogo = await TenantStorage.getTenantLogo(tenant.id);
+        tenant.logo = tenantLogo.logo;
+      }
+      sourceData.tenantLogoURL = tenant.logo;
+      // For each Sources
+      for (const notificationSource of NotificationHandler.notificationSources) {
+        // Active?
+        if (notificationSource.enabled) {
+          try {
+            // Check notification
+            const hasBeenNotified = await NotificationHandler.hasNotifiedSourceByID(
+              tenant, notificationSource.channel, notificationID);
+            if (!hasBeenNotified) {
+              // Enabled?
+              if (user.notificationsActive && user.notifications.sendIdleFeeWarning) {
+                // Save
+                await NotificationHandler.saveNotification(
+                  tenant, notificationSource.channel, notificationID, ServerAction.IDLE_FEE_WARNING, {
+                    user,
+                    chargingStation,
+                    notificationData: {
+                      'transactionId': sourceData.transactionId,
+                      'connectorId': sourceData.connectorId
+                    }
+                  });
+                // Send
+                await notificationSource.notificationTask.sendIdleFeeWarning(sourceData, user, tenant, NotificationSeverity.WARNING);
+              }
+            }
+          } catch (error) {
+            await Logging.logActionExceptionMessage(tenant.id, ServerAction.IDLE_FEE_WARNING, error);
+          }
+        }
+      }
+    }
+  }
+
   public static async sendEndOfSession(tenant: Tenant, notificationID: string, user: User, chargingStation: ChargingStation,
       sourceData: EndOfSessionNotification): Promise<void> {
     if (tenant.id !== Constants.DEFAULT_TENANT) {
@@ -2,6 +2,7 @@ import AssetGetConsumptionTask from './tasks/AssetGetConsumptionTask';
 import BillingPeriodicOperationTask from './tasks/BillingPeriodicOperationTask';
 import CheckAndComputeSmartChargingTask from './tasks/CheckAndComputeSmartChargingTask';
 import CheckChargingStationTemplateTask from './tasks/CheckChargingStationTemplateTask';
+import CheckExpiredReservationsTask from './tasks/CheckExpiredReservationsTask';
 import CheckOfflineChargingStationsTask from './tasks/CheckOfflineChargingStationsTask';
 import CheckPreparingSessionNotStartedTask from './tasks/CheckPreparingSessionNotStartedTask';
 import CheckSessionNotStartedAfterAuthorizeTask from './tasks/CheckSessionNotStartedAfterAuthorizeTask';
@@ -27,6 +28,7 @@ import { ServerAction } from '../types/Server';
 import SynchronizeBillingInvoicesTask from './tasks/SynchronizeBillingInvoicesTask';
 import SynchronizeBillingUsersTask from './tasks/SynchronizeBillingUsersTask';
 import SynchronizeCarsTask from './tasks/SynchronizeCarsTask';
+import SynchronizeLocalAuthorizationListsTask from './tasks/SynchronizeLocalAuthorizationListsTask';
 import SynchronizeRefundTransactionsTask from './tasks/SynchronizeRefundTransactionsTask';
 import Utils from '../utils/Utils';
 import cron from 'node-cron';
@@ -71,6 +73,14 @@ export default class SchedulerManager {
             // The task runs every five minutes
             schedulerTask = new CheckOfflineChargingStationsTask();
             break;
+          case 'CheckExpiredReservationsTask':
+            // The task runs every minute
+            schedulerTask = new CheckExpiredReservationsTask();
+            break;
+          case 'SynchronizeLocalAuthorizationListsTask':
+            // The task runs every hour
+            schedulerTask = new SynchronizeLocalAuthorizationListsTask();
+            break;
           case 'CheckPreparingSessionNotStartedTask':
             // The task runs every five minutes
             schedulerTask = new CheckPreparingSessionNotStartedTask();
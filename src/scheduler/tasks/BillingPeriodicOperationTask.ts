@@ -16,6 +16,8 @@ export default class BillingPeriodicOperationTask extends SchedulerTask {
       try {
         const billingImpl = await BillingFactory.getBillingImpl(tenant);
         if (billingImpl) {
+          // Charge the fees of the subscriptions entering a new period - errors are logged per subscription
+          await billingImpl.chargeSubscriptions();
           // Attempt to finalize and pay invoices
           const chargeActionResults = await billingImpl.chargeInvoices();
           if (chargeActionResults.inError > 0) {
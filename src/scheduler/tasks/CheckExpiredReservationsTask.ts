@@ -0,0 +1,45 @@
+import { CheckExpiredReservationsTaskConfig } from '../../types/TaskConfig';
+import Constants from '../../utils/Constants';
+import { LockEntity } from '../../types/Locking';
+import LockingManager from '../../locking/LockingManager';
+import Logging from '../../utils/Logging';
+import { ReservationStatus } from '../../types/Reservation';
+import ReservationStorage from '../../storage/mongodb/ReservationStorage';
+import SchedulerTask from '../SchedulerTask';
+import { ServerAction } from '../../types/Server';
+import Tenant from '../../types/Tenant';
+
+const MODULE_NAME = 'CheckExpiredReservationsTask';
+
+export default class CheckExpiredReservationsTask extends SchedulerTask {
+  async processTenant(tenant: Tenant, config: CheckExpiredReservationsTaskConfig): Promise<void> {
+    // Get the lock
+    const expiredReservationsLock = LockingManager.createExclusiveLock(tenant.id, LockEntity.RESERVATION, 'expired-reservations');
+    if (await LockingManager.acquire(expiredReservationsLock)) {
+      try {
+        // Get the active reservations which have expired
+        const reservations = await ReservationStorage.getReservations(tenant.id, {
+          statuses: [ReservationStatus.ACTIVE], expiryDateTo: new Date()
+        }, Constants.DB_PARAMS_MAX_LIMIT);
+        for (const reservation of reservations.result) {
+          // The Charging Station releases the connector by itself once the expiry date is reached
+          await ReservationStorage.saveReservationStatus(tenant.id, reservation.id, ReservationStatus.EXPIRED);
+          await Logging.logInfo({
+            tenantID: tenant.id,
+            source: reservation.chargingStationID,
+            action: ServerAction.RESERVATIONS_EXPIRED,
+            module: MODULE_NAME, method: 'processTenant',
+            message: `Connector ID '${reservation.connectorId}' > Reservation ID '${reservation.id}' has expired`,
+            detailedMessages: { reservation }
+          });
+        }
+      } catch (error) {
+        // Log error
+        await Logging.logActionExceptionMessage(tenant.id, ServerAction.RESERVATIONS_EXPIRED, error);
+      } finally {
+        // Release the lock
+        await LockingManager.release(expiredReservationsLock);
+      }
+    }
+  }
+}
@@ -6,8 +6,9 @@ import { LockEntity } from '../../types/Locking';
 import LockingManager from '../../locking/LockingManager';
 import Logging from '../../utils/Logging';
 import NotificationHandler from '../../notification/NotificationHandler';
-import { OCPPGetConfigurationCommandResult } from '../../types/ocpp/OCPPClient';
+import { OCPPGetConfigurationCommandResult, OCPPMessageTrigger, OCPPTriggerMessageCommandResult, OCPPTriggerMessageStatus } from '../../types/ocpp/OCPPClient';
 import OCPPUtils from '../../server/ocpp/utils/OCPPUtils';
+import { OCPPVersion } from '../../types/ocpp/OCPPServer';
 import SchedulerTask from '../SchedulerTask';
 import { ServerAction } from '../../types/Server';
 import Tenant from '../../types/Tenant';
@@ -30,29 +31,53 @@ export default class CheckOfflineChargingStationsTask extends SchedulerTask {
         if (chargingStations.count > 0) {
           for (let i = chargingStations.result.length - 1; i >= 0; i--) {
             const chargingStation = chargingStations.result[i];
+            let ocppHeartbeatTrigger: OCPPTriggerMessageCommandResult;
             let ocppHeartbeatConfiguration: OCPPGetConfigurationCommandResult;
             // Check if charging station is still connected
             try {
-              ocppHeartbeatConfiguration = await OCPPUtils.requestChargingStationOcppParameters(
-                tenant, chargingStation, { key: Constants.OCPP_HEARTBEAT_KEYS as string[] });
+              if (chargingStation.ocppVersion === OCPPVersion.VERSION_15) {
+                // Trigger Message is only available from OCPP 1.6
+                ocppHeartbeatConfiguration = await OCPPUtils.requestChargingStationOcppParameters(
+                  tenant, chargingStation, { key: Constants.OCPP_HEARTBEAT_KEYS as string[] });
+              } else {
+                // The OCPP 2.0.1 client converts the trigger to its own message
+                ocppHeartbeatTrigger = await OCPPUtils.requestChargingStationMessageTrigger(
+                  tenant, chargingStation, { requestedMessage: OCPPMessageTrigger.HEARTBEAT });
+              }
             } catch (error) {
               // Charging Station is offline!
               continue;
             }
             // Charging Station is still connected: ignore it
-            if (ocppHeartbeatConfiguration) {
+            if (ocppHeartbeatTrigger || ocppHeartbeatConfiguration) {
               await Logging.logInfo({
                 tenantID: tenant.id,
                 source: chargingStation.id,
                 action: ServerAction.OFFLINE_CHARGING_STATION,
                 module: MODULE_NAME, method: 'processTenant',
                 message: 'Offline charging station responded successfully to an OCPP command and will be ignored',
-                detailedMessages: { ocppHeartbeatConfiguration }
+                detailedMessages: { ocppHeartbeatTrigger, ocppHeartbeatConfiguration }
               });
               // Update lastSeen
               await ChargingStationStorage.saveChargingStationLastSeen(tenant.id, chargingStation.id,
                 { lastSeen: new Date() }
               );
+              // Refresh the connector statuses that may have been missed
+              if (ocppHeartbeatTrigger?.status === OCPPTriggerMessageStatus.ACCEPTED) {
+                try {
+                  await OCPPUtils.requestChargingStationMessageTrigger(
+                    tenant, chargingStation, { requestedMessage: OCPPMessageTrigger.STATUS_NOTIFICATION });
+                } catch (error) {
+                  await Logging.logWarning({
+                    tenantID: tenant.id,
+                    source: chargingStation.id,
+                    action: ServerAction.OFFLINE_CHARGING_STATION,
+                    module: MODULE_NAME, method: 'processTenant',
+                    message: `Cannot refresh the connector statuses: ${error.message as string}`,
+                    detailedMessages: { error: error.stack }
+                  });
+                }
+              }
               // Remove charging station from notification
               chargingStations.result.splice(i, 1);
             // Check if inactive
@@ -0,0 +1,36 @@
+import LockingHelper from '../../locking/LockingHelper';
+import LockingManager from '../../locking/LockingManager';
+import Logging from '../../utils/Logging';
+import OCPPUtils from '../../server/ocpp/utils/OCPPUtils';
+import SchedulerTask from '../SchedulerTask';
+import { ServerAction } from '../../types/Server';
+import { SynchronizeLocalAuthorizationListsTaskConfig } from '../../types/TaskConfig';
+import Tenant from '../../types/Tenant';
+
+const MODULE_NAME = 'SynchronizeLocalAuthorizationListsTask';
+
+export default class SynchronizeLocalAuthorizationListsTask extends SchedulerTask {
+  async processTenant(tenant: Tenant, config: SynchronizeLocalAuthorizationListsTaskConfig): Promise<void> {
+    // Get the lock
+    const syncLocalListsLock = await LockingHelper.acquireSyncLocalAuthorizationListsLock(tenant.id);
+    if (syncLocalListsLock) {
+      try {
+        // Catch the changes not triggered by the Tags (User status, Site assignment...)
+        const result = await OCPPUtils.synchronizeLocalAuthorizationLists(tenant);
+        await Logging.logActionsResponse(tenant.id, ServerAction.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS,
+          MODULE_NAME, 'processTenant', result,
+          '{{inSuccess}} Local Authorization List(s) were successfully synchronized',
+          '{{inError}} Local Authorization List(s) failed to be synchronized',
+          '{{inSuccess}} Local Authorization List(s) were successfully synchronized and {{inError}} failed to be synchronized',
+          'All the Local Authorization Lists are up to date'
+        );
+      } catch (error) {
+        // Log error
+        await Logging.logActionExceptionMessage(tenant.id, ServerAction.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS, error);
+      } finally {
+        // Release the lock
+        await LockingManager.release(syncLocalListsLock);
+      }
+    }
+  }
+}
@@ -40,6 +40,11 @@ export class ServerUtils {
       }
       // pragma options.requestCert = true; // TODO: Test on QA System: Reject incoming requests without valid certificate (OICP: accept only requests from Hubject)
       // options.rejectUnauthorized = true; // TODO: Test on QA System
+      // Client certificate (checked by the server per connection, e.g. OCPP security profile 3)
+      if (serverConfig.sslRequestCert) {
+        options.requestCert = true;
+        options.rejectUnauthorized = false;
+      }
 
       // Intermediate cert?
       if (serverConfig.sslCa) {
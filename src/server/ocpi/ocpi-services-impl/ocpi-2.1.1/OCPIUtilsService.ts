@@ -5,7 +5,8 @@ import { OCPICapability, OCPIEvse, OCPIEvseStatus } from '../../../../types/ocpi
 import { OCPIConnector, OCPIConnectorFormat, OCPIConnectorType, OCPIPowerType, OCPIVoltage } from '../../../../types/ocpi/OCPIConnector';
 import { OCPILocation, OCPILocationOptions, OCPILocationType, OCPIOpeningTimes } from '../../../../types/ocpi/OCPILocation';
 import { OCPISession, OCPISessionStatus } from '../../../../types/ocpi/OCPISession';
-import { OCPITariff, OCPITariffDimensionType } from '../../../../types/ocpi/OCPITariff';
+import { OCPIDayOfWeek, OCPITariff, OCPITariffDimensionType, OCPITariffRestrictions } from '../../../../types/ocpi/OCPITariff';
+import { PricingDimensionType, PricingModel, PricingRestriction, PricingSource } from '../../../../types/Pricing';
 import { OCPIToken, OCPITokenWhitelist } from '../../../../types/ocpi/OCPIToken';
 import Transaction, { InactivityStatus } from '../../../../types/Transaction';
 import User, { UserRole, UserStatus } from '../../../../types/User';
@@ -30,7 +31,8 @@ import { OCPIResponse } from '../../../../types/ocpi/OCPIResponse';
 import { OCPIRole } from '../../../../types/ocpi/OCPIRole';
 import { OCPIStatusCode } from '../../../../types/ocpi/OCPIStatusCode';
 import OCPIUtils from '../../OCPIUtils';
-import { PricingSource } from '../../../../types/Pricing';
+import PricingEngine from '../../../../integration/pricing/PricingEngine';
+import PricingFactory from '../../../../integration/pricing/PricingFactory';
 import RoamingUtils from '../../../../utils/RoamingUtils';
 import { ServerAction } from '../../../../types/Server';
 import SettingStorage from '../../../../storage/mongodb/SettingStorage';
@@ -40,7 +42,10 @@ import SiteStorage from '../../../../storage/mongodb/SiteStorage';
 import { StatusCodes } from 'http-status-codes';
 import Tag from '../../../../types/Tag';
 import TagStorage from '../../../../storage/mongodb/TagStorage';
+import Tariff from '../../../../types/Tariff';
+import TariffStorage from '../../../../storage/mongodb/TariffStorage';
 import Tenant from '../../../../types/Tenant';
+import TenantComponents from '../../../../types/TenantComponents';
 import TransactionStorage from '../../../../storage/mongodb/TransactionStorage';
 import UserStorage from '../../../../storage/mongodb/UserStorage';
 import Utils from '../../../../utils/Utils';
@@ -382,16 +387,28 @@ export default class OCPIUtilsService {
   }
 
   public static convertSimplePricingSetting2OCPITariff(simplePricingSetting: SimplePricingSetting): OCPITariff {
-    let tariff: OCPITariff;
+    const tariff = OCPIUtilsService.convertPricingModel2OCPITariff(PricingEngine.buildSimplePricingModel(simplePricingSetting));
+    // Default tariff of the tenant
     tariff.id = '1';
-    tariff.currency = simplePricingSetting.currency;
-    tariff.elements[0].price_components[0].type = OCPITariffDimensionType.TIME;
-    tariff.elements[0].price_components[0].price = simplePricingSetting.price;
-    tariff.elements[0].price_components[0].step_size = 60;
-    tariff.last_updated = simplePricingSetting.last_updated;
     return tariff;
   }
 
+  public static convertPricingModel2OCPITariff(pricingModel: PricingModel): OCPITariff {
+    return {
+      id: pricingModel.id,
+      currency: pricingModel.currency,
+      elements: pricingModel.pricings.map((pricing) => ({
+        price_components: pricing.components.map((component) => ({
+          type: OCPIUtilsService.convertPricingDimensionType2OCPITariffDimensionType(component.type),
+          price: component.price,
+          step_size: component.stepSize ?? 1
+        })),
+        restrictions: pricing.restrictions ? OCPIUtilsService.convertPricingRestriction2OCPITariffRestrictions(pricing.restrictions) : null
+      })),
+      last_updated: pricingModel.timestamp
+    };
+  }
+
   public static async buildOCPICredentialObject(tenant: Tenant, token: string, role: string, versionUrl?: string): Promise<OCPICredential> {
     // Credential
     const credential: OCPICredential = {} as OCPICredential;
@@ -433,19 +450,23 @@ export default class OCPIUtilsService {
     const chargingStations = await ChargingStationStorage.getChargingStations(tenant.id,
       { ...dbFilters, siteIDs: [ siteID ], public: true, issuer: true, withSiteArea: true },
       dbParams ?? Constants.DB_PARAMS_MAX_LIMIT,
-      [ 'id', 'chargePoints', 'connectors', 'coordinates', 'lastSeen', 'siteAreaID', 'siteID' ]);
+      [ 'id', 'chargePoints', 'connectors', 'coordinates', 'lastSeen', 'siteAreaID', 'siteID', 'companyID' ]);
+    // Get the tariffs of the locations
+    const tariffs = Utils.isTenantComponentActive(tenant, TenantComponents.PRICING) ?
+      (await TariffStorage.getTariffs(tenant.id, {}, Constants.DB_PARAMS_MAX_LIMIT)).result : [];
     for (const chargingStation of chargingStations.result) {
       const chargingStationEvses: OCPIEvse[] = [];
+      const tariff = PricingFactory.resolveChargingStationTariff(chargingStation, tariffs);
       if (!Utils.isEmptyArray(chargingStation.chargePoints)) {
         for (const chargePoint of chargingStation.chargePoints) {
           if (chargePoint.cannotChargeInParallel) {
-            chargingStationEvses.push(...OCPIUtilsService.convertChargingStation2UniqueEvse(tenant, chargingStation, chargePoint, options));
+            chargingStationEvses.push(...OCPIUtilsService.convertChargingStation2UniqueEvse(tenant, chargingStation, chargePoint, options, tariff));
           } else {
-            chargingStationEvses.push(...OCPIUtilsService.convertChargingStation2MultipleEvses(tenant, chargingStation, chargePoint, options));
+            chargingStationEvses.push(...OCPIUtilsService.convertChargingStation2MultipleEvses(tenant, chargingStation, chargePoint, options, tariff));
           }
         }
       } else {
-        chargingStationEvses.push(...OCPIUtilsService.convertChargingStation2MultipleEvses(tenant, chargingStation, null, options));
+        chargingStationEvses.push(...OCPIUtilsService.convertChargingStation2MultipleEvses(tenant, chargingStation, null, options, tariff));
       }
       // Always update OCPI data
       await ChargingStationStorage.saveChargingStationOcpiData(tenant.id, chargingStation.id, { evses: chargingStationEvses });
@@ -748,7 +769,8 @@ export default class OCPIUtilsService {
     }
   }
 
-  public static convertConnector2OCPIConnector(tenant: Tenant, chargingStation: ChargingStation, connector: Connector, countryId: string, partyId: string): OCPIConnector {
+  public static convertConnector2OCPIConnector(tenant: Tenant, chargingStation: ChargingStation, connector: Connector, countryId: string, partyId: string,
+      tariff?: Tariff): OCPIConnector {
     let type: OCPIConnectorType, format: OCPIConnectorFormat;
     const chargePoint = Utils.getChargePointFromID(chargingStation, connector?.chargePointID);
     const voltage: OCPIVoltage = OCPIUtilsService.getChargingStationOCPIVoltage(chargingStation, chargePoint, connector.connectorId);
@@ -780,7 +802,7 @@ export default class OCPIUtilsService {
       voltage: voltage,
       amperage: amperage,
       power_type: OCPIUtilsService.convertOCPINumberOfConnectedPhases2PowerType(ocpiNumberOfConnectedPhases),
-      tariff_id: OCPIUtilsService.buildTariffID(tenant, chargingStation),
+      tariff_id: OCPIUtilsService.buildTariffID(tenant, chargingStation, tariff),
       last_updated: chargingStation.lastSeen
     };
   }
@@ -802,7 +824,7 @@ export default class OCPIUtilsService {
   }
 
   private static convertChargingStation2MultipleEvses(tenant: Tenant, chargingStation: ChargingStation,
-      chargePoint: ChargePoint, options: OCPILocationOptions): OCPIEvse[] {
+      chargePoint: ChargePoint, options: OCPILocationOptions, tariff?: Tariff): OCPIEvse[] {
     // Loop through connectors and send one evse per connector
     let connectors: Connector[];
     if (chargePoint) {
@@ -818,7 +840,7 @@ export default class OCPIUtilsService {
         location_id: chargingStation.siteID,
         status: chargingStation.inactive ? OCPIEvseStatus.INOPERATIVE : OCPIUtilsService.convertStatus2OCPIStatus(connector.status),
         capabilities: [OCPICapability.REMOTE_START_STOP_CAPABLE, OCPICapability.RFID_READER],
-        connectors: [OCPIUtilsService.convertConnector2OCPIConnector(tenant, chargingStation, connector, options.countryID, options.partyID)],
+        connectors: [OCPIUtilsService.convertConnector2OCPIConnector(tenant, chargingStation, connector, options.countryID, options.partyID, tariff)],
         last_updated: chargingStation.lastSeen,
         coordinates: {
           latitude: chargingStation.coordinates[1] ? chargingStation.coordinates[1].toString() : null,
@@ -836,7 +858,7 @@ export default class OCPIUtilsService {
   }
 
   private static convertChargingStation2UniqueEvse(tenant: Tenant, chargingStation: ChargingStation,
-      chargePoint: ChargePoint, options: OCPILocationOptions): OCPIEvse[] {
+      chargePoint: ChargePoint, options: OCPILocationOptions, tariff?: Tariff): OCPIEvse[] {
     let connectors: Connector[];
     if (chargePoint) {
       connectors = Utils.getConnectorsFromChargePoint(chargingStation, chargePoint);
@@ -845,7 +867,7 @@ export default class OCPIUtilsService {
     }
     // Get all connectors
     const ocpiConnectors: OCPIConnector[] = connectors.map((connector: Connector) =>
-      OCPIUtilsService.convertConnector2OCPIConnector(tenant, chargingStation, connector, options.countryID, options.partyID));
+      OCPIUtilsService.convertConnector2OCPIConnector(tenant, chargingStation, connector, options.countryID, options.partyID, tariff));
     // Get connectors aggregated status
     const connectorOneStatus = OCPIUtilsService.convertToOneConnectorStatus(connectors);
     // Build evse
@@ -918,7 +940,11 @@ export default class OCPIUtilsService {
     }
   }
 
-  private static buildTariffID(tenant: Tenant, chargingStation: ChargingStation): string {
+  private static buildTariffID(tenant: Tenant, chargingStation: ChargingStation, tariff?: Tariff): string {
+    // Tariff of the charging station's location
+    if (tariff) {
+      return tariff.id;
+    }
     switch (tenant?.id) {
       // SLF
       case '5be7fb271014d90008992f06':
@@ -971,6 +997,37 @@ export default class OCPIUtilsService {
     return '';
   }
 
+  private static convertPricingDimensionType2OCPITariffDimensionType(pricingDimensionType: PricingDimensionType): OCPITariffDimensionType {
+    switch (pricingDimensionType) {
+      case PricingDimensionType.ENERGY:
+        return OCPITariffDimensionType.ENERGY;
+      case PricingDimensionType.FLAT:
+        return OCPITariffDimensionType.FLAT;
+      case PricingDimensionType.PARKING_TIME:
+        return OCPITariffDimensionType.PARKING_TIME;
+      case PricingDimensionType.TIME:
+        return OCPITariffDimensionType.TIME;
+    }
+  }
+
+  private static convertPricingRestriction2OCPITariffRestrictions(restrictions: PricingRestriction): OCPITariffRestrictions {
+    const ocpiDaysOfWeek = [OCPIDayOfWeek.MONDAY, OCPIDayOfWeek.TUESDAY, OCPIDayOfWeek.WEDNESDAY, OCPIDayOfWeek.THURSDAY,
+      OCPIDayOfWeek.FRIDAY, OCPIDayOfWeek.SATURDAY, OCPIDayOfWeek.SUNDAY];
+    return {
+      start_time: restrictions.startTime,
+      end_time: restrictions.endTime,
+      start_date: restrictions.startDate,
+      end_date: restrictions.endDate,
+      min_kwh: restrictions.minKWh,
+      max_kwh: restrictions.maxKWh,
+      min_power: restrictions.minPowerkW,
+      max_power: restrictions.maxPowerkW,
+      min_duration: restrictions.minDurationSecs,
+      max_duration: restrictions.maxDurationSecs,
+      day_of_week: restrictions.daysOfWeek?.map((dayOfWeek) => ocpiDaysOfWeek[dayOfWeek - 1])
+    };
+  }
+
   private static convertOCPINumberOfConnectedPhases2PowerType(ocpiNumberOfConnectedPhases: number): OCPIPowerType {
     switch (ocpiNumberOfConnectedPhases) {
       case 0:
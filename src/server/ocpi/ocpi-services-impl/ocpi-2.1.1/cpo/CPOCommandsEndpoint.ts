@@ -13,13 +13,17 @@ import Constants from '../../../../../utils/Constants';
 import Logging from '../../../../../utils/Logging';
 import { OCPICommandType } from '../../../../../types/ocpi/OCPICommandType';
 import OCPIEndpoint from '../../../../../types/ocpi/OCPIEndpoint';
+import { OCPIReserveNow } from '../../../../../types/ocpi/OCPIReserveNow';
 import { OCPIResponse } from '../../../../../types/ocpi/OCPIResponse';
 import { OCPIStartSession } from '../../../../../types/ocpi/OCPIStartSession';
 import { OCPIStatusCode } from '../../../../../types/ocpi/OCPIStatusCode';
 import { OCPIStopSession } from '../../../../../types/ocpi/OCPIStopSession';
 import OCPIUtils from '../../../OCPIUtils';
 import OCPIUtilsService from '../OCPIUtilsService';
-import { OCPPRemoteStartStopStatus } from '../../../../../types/ocpp/OCPPClient';
+import { OCPPRemoteStartStopStatus, OCPPReservationStatus } from '../../../../../types/ocpp/OCPPClient';
+import OCPPUtils from '../../../../ocpp/utils/OCPPUtils';
+import Reservation, { ReservationStatus } from '../../../../../types/Reservation';
+import ReservationStorage from '../../../../../storage/mongodb/ReservationStorage';
 import { ServerAction } from '../../../../../types/Server';
 import { StatusCodes } from 'http-status-codes';
 import TagStorage from '../../../../../storage/mongodb/TagStorage';
@@ -63,6 +67,7 @@ export default class CPOCommandsEndpoint extends AbstractEndpoint {
           case OCPICommandType.STOP_SESSION:
             return this.remoteStopSessionRequest(req, res, next, tenant, ocpiEndpoint);
           case OCPICommandType.RESERVE_NOW:
+            return this.remoteReserveNowRequest(req, res, next, tenant, ocpiEndpoint);
           case OCPICommandType.UNLOCK_CONNECTOR:
             return this.buildOCPIResponse(OCPICommandResponseType.NOT_SUPPORTED);
           default:
@@ -258,6 +263,104 @@ export default class CPOCommandsEndpoint extends AbstractEndpoint {
     return this.buildOCPIResponse(OCPICommandResponseType.ACCEPTED);
   }
 
+  private async remoteReserveNowRequest(req: Request, res: Response, next: NextFunction, tenant: Tenant, ocpiEndpoint: OCPIEndpoint): Promise<OCPIResponse> {
+    const reserveNow = req.body as OCPIReserveNow;
+    if (!this.validateReserveNow(reserveNow)) {
+      throw new AppError({
+        source: Constants.OCPI_SERVER,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        action: ServerAction.OCPI_RESERVE_NOW,
+        errorCode: StatusCodes.BAD_REQUEST,
+        message: 'Reserve Now command body is invalid',
+        detailedMessages: { reserveNow },
+        ocpiError: OCPIStatusCode.CODE_2001_INVALID_PARAMETER_ERROR
+      });
+    }
+    const localToken = await TagStorage.getTag(
+      tenant.id, reserveNow.token.uid, { withUser: true });
+    if (!localToken?.active || !localToken.ocpiToken?.valid) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OCPI_RESERVE_NOW,
+        message: `Token ID '${reserveNow.token.uid}' is either not active or invalid`,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        detailedMessages: { localToken, reserveNow }
+      });
+      return this.buildOCPIResponse(OCPICommandResponseType.REJECTED);
+    }
+    if (!Utils.isNullOrUndefined(localToken.user) || localToken.user?.issuer) {
+      return this.buildOCPIResponse(OCPICommandResponseType.REJECTED);
+    }
+    // Get the Charging Station
+    const chargingStation = await ChargingStationStorage.getChargingStationByOcpiLocationUid(
+      tenant.id, reserveNow.location_id, reserveNow.evse_uid);
+    if (!chargingStation) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OCPI_RESERVE_NOW,
+        message: `Charging Station with EVSE UID '${reserveNow.evse_uid}' in Location ID '${reserveNow.location_id}' has not been found`,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        detailedMessages: { reserveNow }
+      });
+      return this.buildOCPIResponse(OCPICommandResponseType.REJECTED);
+    }
+    // Find the connector
+    const connectorID = Utils.convertToInt(OCPIUtils.getConnectorIDFromEvseID(reserveNow.evse_uid));
+    const connector = Utils.getConnectorFromID(chargingStation, connectorID);
+    if (!connector) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OCPI_RESERVE_NOW,
+        source: chargingStation.id,
+        message: `${Utils.buildConnectorInfo(connectorID)} Connector not found`,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        detailedMessages: { connectorID, chargingStation, reserveNow }
+      });
+      return this.buildOCPIResponse(OCPICommandResponseType.REJECTED);
+    }
+    if (!chargingStation.issuer || !chargingStation.public) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OCPI_RESERVE_NOW,
+        source: chargingStation.id,
+        message: `Charging Station ID '${reserveNow.evse_uid}' is either not public or local to the tenant`,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        detailedMessages: { chargingStation, reserveNow }
+      });
+      return this.buildOCPIResponse(OCPICommandResponseType.REJECTED);
+    }
+    // Same Reservation ID from the eMSP replaces the existing one
+    const existingReservation = await ReservationStorage.getOCPIReservationByReservationID(tenant.id, reserveNow.reservation_id);
+    const activeReservation = await ReservationStorage.getActiveReservation(tenant.id, chargingStation.id, connector.connectorId);
+    if (activeReservation && activeReservation.id !== existingReservation?.id) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OCPI_RESERVE_NOW,
+        source: chargingStation.id,
+        message: `${Utils.buildConnectorInfo(connector.connectorId)} Connector is already reserved`,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        detailedMessages: { activeReservation, reserveNow }
+      });
+      return this.buildOCPIResponse(OCPICommandResponseType.REJECTED);
+    }
+    const reservation: Reservation = {
+      id: existingReservation?.id,
+      chargingStationID: chargingStation.id,
+      connectorId: connector.connectorId,
+      tagID: reserveNow.token.uid,
+      expiryDate: new Date(reserveNow.expiry_date),
+      status: ReservationStatus.ACTIVE,
+      ocpiData: {
+        reservationID: reserveNow.reservation_id
+      },
+      createdOn: existingReservation ? existingReservation.createdOn : new Date(),
+      lastChangedOn: existingReservation ? new Date() : null
+    };
+    // Called Async as the response to the eMSP is sent asynchronously and this request has to finish before the command returns
+    void this.remoteReserveNow(tenant, chargingStation, reservation, reserveNow, ocpiEndpoint).catch(() => { });
+    return this.buildOCPIResponse(OCPICommandResponseType.ACCEPTED);
+  }
+
   private buildOCPIResponse(responseType: OCPICommandResponseType): OCPIResponse {
     return OCPIUtils.success({ result: responseType });
   }
@@ -275,6 +378,21 @@ export default class CPOCommandsEndpoint extends AbstractEndpoint {
     return OCPIUtilsService.validateToken(startSession.token);
   }
 
+  private validateReserveNow(reserveNow: OCPIReserveNow): boolean {
+    if (!reserveNow
+      || !reserveNow.response_url
+      || !reserveNow.evse_uid
+      || !reserveNow.location_id
+      || !reserveNow.token
+      || !reserveNow.reservation_id
+      || !reserveNow.expiry_date
+      || !moment(reserveNow.expiry_date).isAfter(moment())
+    ) {
+      return false;
+    }
+    return OCPIUtilsService.validateToken(reserveNow.token);
+  }
+
   private validateStopSession(stopSession: OCPIStopSession): boolean {
     if (!stopSession ||
         !stopSession.response_url ||
@@ -331,6 +449,27 @@ export default class CPOCommandsEndpoint extends AbstractEndpoint {
     }
   }
 
+  private async remoteReserveNow(tenant: Tenant, chargingStation: ChargingStation, reservation: Reservation,
+      reserveNow: OCPIReserveNow, ocpiEndpoint: OCPIEndpoint): Promise<void> {
+    let responseType = OCPICommandResponseType.REJECTED;
+    try {
+      const result = await OCPPUtils.reserveChargingStationConnector(tenant, chargingStation, reservation, ServerAction.OCPI_RESERVE_NOW);
+      if (result?.status === OCPPReservationStatus.ACCEPTED) {
+        responseType = OCPICommandResponseType.ACCEPTED;
+      }
+    } catch (error) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        source: chargingStation.id,
+        action: ServerAction.OCPI_RESERVE_NOW,
+        message: `${Utils.buildConnectorInfo(reservation.connectorId)} Reservation has failed: ${error.message as string}`,
+        module: MODULE_NAME, method: 'remoteReserveNow',
+        detailedMessages: { error: error.stack, reserveNow, reservation },
+      });
+    }
+    await this.sendCommandResponse(tenant, ServerAction.OCPI_RESERVE_NOW, reserveNow.response_url, responseType, ocpiEndpoint);
+  }
+
   private async sendCommandResponse(tenant: Tenant, action: ServerAction, responseUrl: string, responseType: OCPICommandResponseType, ocpiEndpoint: OCPIEndpoint) {
     // Build payload
     const payload: OCPICommandResponse = {
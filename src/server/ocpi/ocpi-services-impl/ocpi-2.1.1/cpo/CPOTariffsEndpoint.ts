@@ -1,6 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 import { OCPITariff, OCPITariffDimensionType } from '../../../../../types/ocpi/OCPITariff';
-import { PricingSettings, PricingSettingsType } from '../../../../../types/Setting';
+import { PricingSettingsType } from '../../../../../types/Setting';
 
 import AbstractEndpoint from '../../AbstractEndpoint';
 import AbstractOCPIService from '../../../AbstractOCPIService';
@@ -13,9 +13,12 @@ import { OCPIResponse } from '../../../../../types/ocpi/OCPIResponse';
 import { OCPIStatusCode } from '../../../../../types/ocpi/OCPIStatusCode';
 import OCPIUtils from '../../../OCPIUtils';
 import OCPIUtilsService from '../OCPIUtilsService';
+import PricingEngine from '../../../../../integration/pricing/PricingEngine';
 import { ServerAction } from '../../../../../types/Server';
 import SettingStorage from '../../../../../storage/mongodb/SettingStorage';
+import TariffStorage from '../../../../../storage/mongodb/TariffStorage';
 import Tenant from '../../../../../types/Tenant';
+import TenantComponents from '../../../../../types/TenantComponents';
 import Utils from '../../../../../utils/Utils';
 
 const MODULE_NAME = 'CPOTariffsEndpoint';
@@ -66,42 +69,45 @@ export default class CPOTariffsEndpoint extends AbstractEndpoint {
   private async getAllTariffs(tenant: Tenant, limit: number, skip: number, dateFrom?: Date, dateTo?: Date): Promise<DataResult<OCPITariff>> {
     // Result
     const tariffs: OCPITariff[] = [];
-    let tariff: OCPITariff;
-    if (tenant.components?.pricing?.active) {
+    let count = 0;
+    if (Utils.isTenantComponentActive(tenant, TenantComponents.PRICING)) {
       // Get simple pricing settings
       const pricingSettings = await SettingStorage.getPricingSettings(tenant.id, limit, skip, dateFrom, dateTo);
       if (pricingSettings.type === PricingSettingsType.SIMPLE && pricingSettings.simple) {
-        tariff = OCPIUtilsService.convertSimplePricingSetting2OCPITariff(pricingSettings.simple);
-        if (tariff.currency && tariff.elements[0].price_components[0].price > 0) {
-          tariffs.push(tariff);
-        } else if (tariff.currency && tariff.elements[0].price_components[0].price === 0) {
-          tariff = this.convertPricingSettings2ZeroFlatTariff(pricingSettings);
-          tariffs.push(tariff);
+        // Default tariff of the tenant comes first
+        const tariff = OCPIUtilsService.convertSimplePricingSetting2OCPITariff(pricingSettings.simple);
+        if (tariff.currency) {
+          count++;
+          if (skip === 0) {
+            tariffs.push(this.checkZeroFlatTariff(tariff));
+          }
         }
+        // Tariffs of the locations
+        const locationTariffs = await TariffStorage.getTariffs(tenant.id, { dateFrom, dateTo },
+          { limit: limit - tariffs.length, skip: skip > 0 ? skip - count : 0 });
+        for (const locationTariff of locationTariffs.result) {
+          tariffs.push(this.checkZeroFlatTariff(
+            OCPIUtilsService.convertPricingModel2OCPITariff(PricingEngine.buildTariffPricingModel(locationTariff))));
+        }
+        count += locationTariffs.count;
       }
     }
     return {
-      count: tariffs.length,
+      count,
       result: tariffs
     };
   }
 
-  private convertPricingSettings2ZeroFlatTariff(pricingSettings: PricingSettings): OCPITariff {
-    let tariff: OCPITariff;
-    tariff.id = '1';
-    tariff.elements[0].price_components[0].price = 0;
-    tariff.elements[0].price_components[0].type = OCPITariffDimensionType.FLAT;
-    tariff.elements[0].price_components[0].step_size = 0;
-    switch (pricingSettings.type) {
-      case PricingSettingsType.SIMPLE:
-        tariff.currency = pricingSettings.simple.currency;
-        tariff.last_updated = pricingSettings.simple.last_updated;
-        break;
-      default:
-        // FIXME: get currency from the TZ
-        tariff.currency = 'EUR';
-        tariff.last_updated = new Date();
-        break;
+  private checkZeroFlatTariff(tariff: OCPITariff): OCPITariff {
+    // Free charging is exposed as a zero flat fee
+    if (tariff.elements.every((element) => element.price_components.every((priceComponent) => !priceComponent.price))) {
+      tariff.elements = [{
+        price_components: [{
+          type: OCPITariffDimensionType.FLAT,
+          price: 0,
+          step_size: 0
+        }]
+      }];
     }
     return tariff;
   }
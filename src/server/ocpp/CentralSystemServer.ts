@@ -1,10 +1,12 @@
 import CentralSystemConfiguration from '../../types/configuration/CentralSystemConfiguration';
 import ChargingStationConfiguration from '../../types/configuration/ChargingStationConfiguration';
+import OCPP20Service from './services/OCPP20Service';
 import OCPPService from './services/OCPPService';
 import { OCPPVersion } from '../../types/ocpp/OCPPServer';
 
 export default abstract class CentralSystemServer {
   private static chargingStationService: OCPPService | null = null;
+  private static chargingStationService20: OCPP20Service | null = null;
   protected centralSystemConfig: CentralSystemConfiguration;
   protected chargingStationConfig: ChargingStationConfiguration;
 
@@ -28,6 +30,14 @@ export default abstract class CentralSystemServer {
     }
   }
 
+  public getChargingStationService20(): OCPP20Service {
+    if (!CentralSystemServer.chargingStationService20) {
+      // OCPP 2.0 requests are converted and processed by the OCPP 1.6 service
+      CentralSystemServer.chargingStationService20 = new OCPP20Service(this.getChargingStationService(OCPPVersion.VERSION_16));
+    }
+    return CentralSystemServer.chargingStationService20;
+  }
+
   public abstract start(): void;
 }
 
@@ -96,7 +96,8 @@ export default class JsonCentralSystemServer extends CentralSystemServer {
   private createWSServer() {
     const verifyClient = (info) => {
       // Check the URI
-      if (info.req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_16)}`)) {
+      if (info.req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_16)}`) ||
+          info.req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_20)}`)) {
         return true;
       }
       if (info.req.url.startsWith('/REST')) {
@@ -112,16 +113,21 @@ export default class JsonCentralSystemServer extends CentralSystemServer {
     };
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const handleProtocols = (protocols: WSServerProtocol | WSServerProtocol[], request: http.IncomingMessage): boolean | WSServerProtocol => {
-      // Check the protocols and ensure protocol used as ocpp1.6 or nothing (should create an error)
+      // Check the protocols and ensure protocol used as ocpp1.6, ocpp2.0.1 or nothing (should create an error)
       if (!Utils.isEmptyArray(protocols)) {
         if (protocols.includes(WSServerProtocol.OCPP16)) {
           return WSServerProtocol.OCPP16;
         }
+        if (protocols.includes(WSServerProtocol.OCPP201)) {
+          return WSServerProtocol.OCPP201;
+        }
         if (protocols.includes(WSServerProtocol.REST)) {
           return WSServerProtocol.REST;
         }
       } else if (protocols === WSServerProtocol.OCPP16) {
         return protocols;
+      } else if (protocols === WSServerProtocol.OCPP201) {
+        return protocols;
       } else if (protocols === WSServerProtocol.REST) {
         return protocols;
       }
@@ -147,7 +153,8 @@ export default class JsonCentralSystemServer extends CentralSystemServer {
           await wsConnection.initialize();
           // Add
           this.addRestConnection(wsConnection as JsonRestWSConnection);
-        } else if (req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_16)}`)) {
+        } else if (req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_16)}`) ||
+                   req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_20)}`)) {
           // Create a Json WebSocket connection object
           wsConnection = new JsonWSConnection(ws, req, this);
           // Init
@@ -10,7 +10,9 @@ import Configuration from '../../../utils/Configuration';
 import Constants from '../../../utils/Constants';
 import JsonCentralSystemServer from './JsonCentralSystemServer';
 import JsonChargingStationClient from '../../../client/ocpp/json/JsonChargingStationClient';
+import JsonChargingStationClient20 from '../../../client/ocpp/json/JsonChargingStationClient20';
 import JsonChargingStationService from './services/JsonChargingStationService';
+import JsonChargingStationService20 from './services/JsonChargingStationService20';
 import Logging from '../../../utils/Logging';
 import OCPPError from '../../../exception/OcppError';
 import { OCPPHeader } from '../../../types/ocpp/OCPPHeader';
@@ -24,7 +26,9 @@ const MODULE_NAME = 'JsonWSConnection';
 export default class JsonWSConnection extends WSConnection {
   public isConnectionAlive: boolean;
   private chargingStationClient: ChargingStationClient;
-  private chargingStationService: JsonChargingStationService;
+  private chargingStationService: JsonChargingStationService | JsonChargingStationService20;
+  private ocppVersion: OCPPVersion;
+  private moduleName: string;
   private headers: OCPPHeader;
   private lastSeen: Date;
 
@@ -39,6 +43,17 @@ export default class JsonWSConnection extends WSConnection {
         this.chargingStationClient = new JsonChargingStationClient(this, this.getTenantID(), this.getChargingStationID());
         // Create the Json Server Service
         this.chargingStationService = new JsonChargingStationService();
+        this.ocppVersion = OCPPVersion.VERSION_16;
+        this.moduleName = Constants.MODULE_JSON_OCPP_SERVER_16;
+        break;
+      // OCPP 2.0.1?
+      case WSServerProtocol.OCPP201:
+        // Create the Json Client
+        this.chargingStationClient = new JsonChargingStationClient20(this, this.getTenantID(), this.getChargingStationID());
+        // Create the Json Server Service
+        this.chargingStationService = new JsonChargingStationService20();
+        this.ocppVersion = OCPPVersion.VERSION_20;
+        this.moduleName = Constants.MODULE_JSON_OCPP_SERVER_20;
         break;
       // Not Found
       default:
@@ -65,7 +80,7 @@ export default class JsonWSConnection extends WSConnection {
       // Initialize the default Headers
       this.headers = {
         chargeBoxIdentity: this.getChargingStationID(),
-        ocppVersion: (this.getWSConnection().protocol.startsWith('ocpp') ? this.getWSConnection().protocol.replace('ocpp', '') : this.getWSConnection().protocol) as OCPPVersion,
+        ocppVersion: this.ocppVersion,
         ocppProtocol: OCPPProtocol.JSON,
         chargingStationURL: Configuration.getJsonEndpointConfig().baseSecureUrl ?? Configuration.getJsonEndpointConfig().baseUrl,
         tenantID: this.getTenantID(),
@@ -74,6 +89,9 @@ export default class JsonWSConnection extends WSConnection {
           Address: this.getClientIP()
         }
       };
+      // Check the OCPP Security Profile (unknown charging stations included)
+      await OCPPUtils.checkChargingStationOcppSecurity(
+        this.getTenant(), this.getChargingStationID(), this.getCredentials(), { headers: this.headers });
       // Update the Charging Station
       const chargingStation = await ChargingStationStorage.getChargingStation(this.getTenantID(), this.getChargingStationID(), {}, ['id']);
       if (chargingStation) {
@@ -148,7 +166,7 @@ export default class JsonWSConnection extends WSConnection {
   }
 
   public async handleRequest(messageId: string, commandName: ServerAction, commandPayload: Record<string, unknown> | string): Promise<void> {
-    await Logging.logChargingStationServerReceiveAction(Constants.MODULE_JSON_OCPP_SERVER_16, this.getTenantID(), this.getChargingStationID(), commandName, commandPayload);
+    await Logging.logChargingStationServerReceiveAction(this.moduleName, this.getTenantID(), this.getChargingStationID(), commandName, commandPayload);
     const methodName = `handle${commandName}`;
     // Check if method exist in the service
     if (typeof this.chargingStationService[methodName] === 'function') {
@@ -158,7 +176,7 @@ export default class JsonWSConnection extends WSConnection {
       // Call it
       const result = await this.chargingStationService[methodName](this.headers, commandPayload);
       // Log
-      await Logging.logChargingStationServerRespondAction(Constants.MODULE_JSON_OCPP_SERVER_16, this.getTenantID(), this.getChargingStationID(), commandName, result);
+      await Logging.logChargingStationServerRespondAction(this.moduleName, this.getTenantID(), this.getChargingStationID(), commandName, result);
       // Send Response
       await this.sendMessage(messageId, result, OCPPMessageType.CALL_RESULT_MESSAGE, commandName);
     } else {
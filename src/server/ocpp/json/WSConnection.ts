@@ -3,16 +3,20 @@ import WebSocket, { CLOSED, CLOSING, CONNECTING, CloseEvent, ErrorEvent, Message
 
 import BackendError from '../../../exception/BackendError';
 import { Command } from '../../../types/ChargingStation';
+import Configuration from '../../../utils/Configuration';
 import Constants from '../../../utils/Constants';
 import DatabaseUtils from '../../../storage/mongodb/DatabaseUtils';
 import JsonCentralSystemServer from './JsonCentralSystemServer';
 import Logging from '../../../utils/Logging';
+import { OCPP20Command } from '../../../types/ocpp/OCPP20Client';
 import OCPPError from '../../../exception/OcppError';
 import { OCPPVersion } from '../../../types/ocpp/OCPPServer';
 import { ServerAction } from '../../../types/Server';
+import { TLSSocket } from 'tls';
 import Tenant from '../../../types/Tenant';
 import TenantStorage from '../../../storage/mongodb/TenantStorage';
 import Utils from '../../../utils/Utils';
+import { WSConnectionCredentials } from '../../../types/WebSocket';
 import http from 'http';
 
 const MODULE_NAME = 'WSConnection';
@@ -26,6 +30,7 @@ export default abstract class WSConnection {
   private token: string;
   private url: string;
   private clientIP: string | string[];
+  private credentials: WSConnectionCredentials;
   private wsConnection: WebSocket;
   private requests: { [id: string]: OCPPRequest };
   private validTenant: boolean;
@@ -34,6 +39,7 @@ export default abstract class WSConnection {
     // Init
     this.url = req.url.trim().replace(/\b(\?|&).*/, ''); // Filter trailing URL parameters
     this.clientIP = Utils.getRequestIP(req);
+    this.credentials = this.parseCredentials(req);
     this.wsConnection = wsConnection;
     this.initialized = false;
     this.wsServer = wsServer;
@@ -80,7 +86,8 @@ export default abstract class WSConnection {
     if (req.url.startsWith('/REST')) {
       logMsg = `REST service connection attempts to Charging Station with URL: '${req.url}'`;
       action = ServerAction.WS_REST_CONNECTION_OPENED;
-    } else if (req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_16)}`)) {
+    } else if (req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_16)}`) ||
+               req.url.startsWith(`/${Utils.getOCPPServerVersionURLPath(OCPPVersion.VERSION_20)}`)) {
       logMsg = `Charging Station connection attempts with URL: '${req.url}'`;
       action = ServerAction.WS_JSON_CONNECTION_OPENED;
     }
@@ -256,7 +263,7 @@ export default abstract class WSConnection {
   }
 
   public async sendMessage(messageId: string, commandParams: Record<string, unknown> | OCPPError, messageType: OCPPMessageType,
-      commandName?: Command | ServerAction): Promise<unknown> {
+      commandName?: Command | OCPP20Command | ServerAction): Promise<unknown> {
     // eslint-disable-next-line @typescript-eslint/no-this-alias
     const self = this;
     // Send a message through WSConnection
@@ -343,6 +350,10 @@ export default abstract class WSConnection {
     return this.token;
   }
 
+  public getCredentials(): WSConnectionCredentials {
+    return this.credentials;
+  }
+
   public getID(): string {
     return `${this.getTenantID()}~${this.getChargingStationID()}`;
   }
@@ -374,6 +385,46 @@ export default abstract class WSConnection {
     return this.wsConnection?.readyState;
   }
 
+  private parseCredentials(req: http.IncomingMessage): WSConnectionCredentials {
+    const socket = req.socket as TLSSocket;
+    const credentials: WSConnectionCredentials = {
+      secure: !!socket.encrypted
+    };
+    // TLS can be terminated by a reverse proxy, its header is only trusted from the configured proxies
+    if (!credentials.secure && this.isTrustedProxy(socket.remoteAddress)) {
+      const forwardedProtocol = req.headers['x-forwarded-proto'];
+      credentials.secure = forwardedProtocol === 'https' || forwardedProtocol === 'wss';
+    }
+    // Basic Auth (OCPP security profiles 1 and 2)
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Basic ')) {
+      const decodedAuthorization = Buffer.from(authorization.substring(6), 'base64').toString();
+      const separatorIndex = decodedAuthorization.indexOf(':');
+      if (separatorIndex >= 0) {
+        credentials.username = decodedAuthorization.substring(0, separatorIndex);
+        credentials.password = decodedAuthorization.substring(separatorIndex + 1);
+      }
+    }
+    // Client certificate (OCPP security profile 3)
+    if (socket.encrypted) {
+      const peerCertificate = socket.getPeerCertificate();
+      if (peerCertificate?.raw) {
+        credentials.clientCertificate = peerCertificate.raw;
+        credentials.clientCertificateAuthorized = socket.authorized;
+      }
+    }
+    return credentials;
+  }
+
+  private isTrustedProxy(remoteAddress: string): boolean {
+    const trustedProxies = Configuration.getOCPPSecurityConfig().trustedProxies;
+    if (!remoteAddress || Utils.isEmptyArray(trustedProxies)) {
+      return false;
+    }
+    // IPv4 addresses can be mapped in IPv6
+    return trustedProxies.includes(remoteAddress) || trustedProxies.includes(remoteAddress.replace(/^::ffff:/, ''));
+  }
+
   public abstract handleRequest(messageId: string, commandName: ServerAction, commandPayload: Record<string, unknown> | string): Promise<void>;
 
   public abstract onError(errorEvent: ErrorEvent): void;
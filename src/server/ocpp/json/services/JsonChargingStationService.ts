@@ -1,4 +1,4 @@
-import { OCPPAuthorizeRequest, OCPPAuthorizeResponse, OCPPBootNotificationRequest, OCPPBootNotificationResponse, OCPPDataTransferRequest, OCPPDataTransferResponse, OCPPDiagnosticsStatusNotificationRequest, OCPPDiagnosticsStatusNotificationResponse, OCPPFirmwareStatusNotificationRequest, OCPPFirmwareStatusNotificationResponse, OCPPHeartbeatRequest, OCPPHeartbeatResponse, OCPPMeterValuesRequest, OCPPMeterValuesResponse, OCPPStartTransactionRequest, OCPPStartTransactionResponse, OCPPStatusNotificationRequest, OCPPStatusNotificationResponse, OCPPStopTransactionRequest, OCPPStopTransactionResponse, OCPPVersion } from '../../../../types/ocpp/OCPPServer';
+import { OCPPAuthorizeRequest, OCPPAuthorizeResponse, OCPPBootNotificationRequest, OCPPBootNotificationResponse, OCPPDataTransferRequest, OCPPDataTransferResponse, OCPPDiagnosticsStatusNotificationRequest, OCPPDiagnosticsStatusNotificationResponse, OCPPFirmwareStatusNotificationRequest, OCPPFirmwareStatusNotificationResponse, OCPPHeartbeatRequest, OCPPHeartbeatResponse, OCPPMeterValuesRequest, OCPPMeterValuesResponse, OCPPSecurityEventNotificationRequest, OCPPSecurityEventNotificationResponse, OCPPSignCertificateRequest, OCPPSignCertificateResponse, OCPPStartTransactionRequest, OCPPStartTransactionResponse, OCPPStatusNotificationRequest, OCPPStatusNotificationResponse, OCPPStopTransactionRequest, OCPPStopTransactionResponse, OCPPVersion } from '../../../../types/ocpp/OCPPServer';
 
 import Logging from '../../../../utils/Logging';
 import { OCPPHeader } from '../../../../types/ocpp/OCPPHeader';
@@ -96,6 +96,22 @@ export default class JsonChargingStationService {
     };
   }
 
+  public async handleSignCertificate(headers: OCPPHeader, payload: OCPPSignCertificateRequest): Promise<OCPPSignCertificateResponse> {
+    // Forward
+    const result: OCPPSignCertificateResponse = await this.handle(ServerAction.SIGN_CERTIFICATE, headers, payload);
+    // Return the response
+    return {
+      status: result.status
+    };
+  }
+
+  public async handleSecurityEventNotification(headers: OCPPHeader, payload: OCPPSecurityEventNotificationRequest): Promise<OCPPSecurityEventNotificationResponse> {
+    // Forward
+    await this.handle(ServerAction.SECURITY_EVENT_NOTIFICATION, headers, payload);
+    // Return the response
+    return {};
+  }
+
   public async handleStopTransaction(headers: OCPPHeader, payload: OCPPStopTransactionRequest): Promise<OCPPStopTransactionResponse> {
     // Forward
     const result: OCPPStopTransactionResponse = await this.handle(ServerAction.STOP_TRANSACTION, headers, payload);
@@ -0,0 +1,95 @@
+import { OCPP20AuthorizeRequest, OCPP20AuthorizeResponse, OCPP20BootNotificationRequest, OCPP20BootNotificationResponse, OCPP20MeterValuesRequest, OCPP20MeterValuesResponse, OCPP20NotifyReportRequest, OCPP20NotifyReportResponse, OCPP20StatusNotificationRequest, OCPP20StatusNotificationResponse, OCPP20TransactionEventRequest, OCPP20TransactionEventResponse } from '../../../../types/ocpp/OCPP20Server';
+import { OCPPHeartbeatRequest, OCPPHeartbeatResponse } from '../../../../types/ocpp/OCPPServer';
+
+import Logging from '../../../../utils/Logging';
+import OCPP20Service from '../../services/OCPP20Service';
+import { OCPPHeader } from '../../../../types/ocpp/OCPPHeader';
+import { ServerAction } from '../../../../types/Server';
+import global from '../../../../types/GlobalType';
+
+const MODULE_NAME = 'JsonChargingStationService20';
+
+export default class JsonChargingStationService20 {
+  private chargingStationService: OCPP20Service;
+
+  constructor() {
+    // Get the OCPP 2.0 service
+    this.chargingStationService = global.centralSystemJsonServer.getChargingStationService20();
+  }
+
+  public async handleBootNotification(headers: OCPPHeader, payload: OCPP20BootNotificationRequest): Promise<OCPP20BootNotificationResponse> {
+    // Forward
+    const result: OCPP20BootNotificationResponse = await this.handle(ServerAction.BOOT_NOTIFICATION, headers, payload);
+    // Return the response
+    return {
+      currentTime: result.currentTime,
+      interval: result.interval,
+      status: result.status
+    };
+  }
+
+  public async handleHeartbeat(headers: OCPPHeader, payload: OCPPHeartbeatRequest): Promise<OCPPHeartbeatResponse> {
+    // Forward
+    const result: OCPPHeartbeatResponse = await this.handle(ServerAction.HEARTBEAT, headers, payload);
+    // Return the response
+    return {
+      currentTime: result.currentTime
+    };
+  }
+
+  public async handleStatusNotification(headers: OCPPHeader, payload: OCPP20StatusNotificationRequest): Promise<OCPP20StatusNotificationResponse> {
+    // Forward
+    await this.handle(ServerAction.STATUS_NOTIFICATION, headers, payload);
+    // Return the response
+    return {};
+  }
+
+  public async handleMeterValues(headers: OCPPHeader, payload: OCPP20MeterValuesRequest): Promise<OCPP20MeterValuesResponse> {
+    // Forward
+    await this.handle(ServerAction.METER_VALUES, headers, payload);
+    // Return the response
+    return {};
+  }
+
+  public async handleAuthorize(headers: OCPPHeader, payload: OCPP20AuthorizeRequest): Promise<OCPP20AuthorizeResponse> {
+    // Forward
+    const result: OCPP20AuthorizeResponse = await this.handle(ServerAction.AUTHORIZE, headers, payload);
+    // Return the response
+    return {
+      idTokenInfo: {
+        status: result.idTokenInfo.status
+      }
+    };
+  }
+
+  public async handleTransactionEvent(headers: OCPPHeader, payload: OCPP20TransactionEventRequest): Promise<OCPP20TransactionEventResponse> {
+    // Forward
+    const result: OCPP20TransactionEventResponse = await this.handle(ServerAction.TRANSACTION_EVENT, headers, payload);
+    // Return the response
+    if (result.idTokenInfo) {
+      return {
+        idTokenInfo: {
+          status: result.idTokenInfo.status
+        }
+      };
+    }
+    return {};
+  }
+
+  public async handleNotifyReport(headers: OCPPHeader, payload: OCPP20NotifyReportRequest): Promise<OCPP20NotifyReportResponse> {
+    // Forward
+    await this.handle(ServerAction.NOTIFY_REPORT, headers, payload);
+    // Return the response
+    return {};
+  }
+
+  private async handle(command: ServerAction, headers: OCPPHeader, payload) {
+    try {
+      // Handle
+      return await this.chargingStationService[`handle${command}`](headers, payload);
+    } catch (error) {
+      await Logging.logException(error, command, headers.chargeBoxIdentity, MODULE_NAME, command, headers.tenantID);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,497 @@
+import { ChargePointErrorCode, ChargePointStatus, OCPPAuthorizationStatus, OCPPAuthorizeRequestExtended, OCPPBootNotificationRequestExtended, OCPPHeartbeatRequestExtended, OCPPHeartbeatResponse, OCPPMeasurand, OCPPMeterValue, OCPPMeterValuesRequestExtended, OCPPReadingContext, OCPPReason, OCPPSampledValue, OCPPStartTransactionRequestExtended, OCPPStatusNotificationRequestExtended, OCPPStopTransactionRequestExtended, OCPPUnitOfMeasure, OCPPValueFormat } from '../../../types/ocpp/OCPPServer';
+import { OCPP20AttributeType, OCPP20AuthorizeRequest, OCPP20AuthorizeResponse, OCPP20BootNotificationRequest, OCPP20BootNotificationResponse, OCPP20ChargingState, OCPP20ConnectorStatus, OCPP20EVSE, OCPP20MeterValue, OCPP20MeterValuesRequest, OCPP20MeterValuesResponse, OCPP20Mutability, OCPP20NotifyReportRequest, OCPP20NotifyReportResponse, OCPP20ReportData, OCPP20StatusNotificationRequest, OCPP20StatusNotificationResponse, OCPP20StoppedReason, OCPP20TransactionEventRequest, OCPP20TransactionEventResponse, OCPP20TransactionEventType } from '../../../types/ocpp/OCPP20Server';
+
+import ChargingStationStorage from '../../../storage/mongodb/ChargingStationStorage';
+import Logging from '../../../utils/Logging';
+import { OCPPHeader } from '../../../types/ocpp/OCPPHeader';
+import OCPPService from './OCPPService';
+import OCPPValidation from '../validation/OCPPValidation';
+import { OcppParameter } from '../../../types/ChargingStation';
+import { ServerAction } from '../../../types/Server';
+import Transaction from '../../../types/Transaction';
+import TransactionStorage from '../../../storage/mongodb/TransactionStorage';
+import Utils from '../../../utils/Utils';
+
+const MODULE_NAME = 'OCPP20Service';
+
+/**
+ * OCPP 2.0.1 message layer: requests are validated against the OCPP 2.0.1 schemas
+ * then converted to their OCPP 1.6 counterpart and processed by the OCPP 1.6 service
+ * so that Transactions, Charging Stations and Consumptions are handled the same way.
+ */
+export default class OCPP20Service {
+  private chargingStationService: OCPPService;
+
+  public constructor(chargingStationService: OCPPService) {
+    this.chargingStationService = chargingStationService;
+  }
+
+  public async handleBootNotification(headers: OCPPHeader, bootNotification: OCPP20BootNotificationRequest): Promise<OCPP20BootNotificationResponse> {
+    // Check
+    OCPPValidation.getInstance().validateBootNotification20(bootNotification);
+    // Forward
+    const result = await this.chargingStationService.handleBootNotification(headers, {
+      // OCPP 1.6 vendor is limited to 25 chars
+      chargePointVendor: bootNotification.chargingStation.vendorName.substring(0, 25),
+      chargePointModel: bootNotification.chargingStation.model,
+      chargePointSerialNumber: bootNotification.chargingStation.serialNumber,
+      chargeBoxSerialNumber: bootNotification.chargingStation.serialNumber,
+      firmwareVersion: bootNotification.chargingStation.firmwareVersion,
+      iccid: bootNotification.chargingStation.modem?.iccid,
+      imsi: bootNotification.chargingStation.modem?.imsi,
+    } as OCPPBootNotificationRequestExtended);
+    return {
+      currentTime: result.currentTime,
+      interval: result.interval,
+      status: result.status
+    };
+  }
+
+  public async handleHeartbeat(headers: OCPPHeader, heartbeat: OCPPHeartbeatRequestExtended): Promise<OCPPHeartbeatResponse> {
+    // Same PDU as OCPP 1.6
+    return this.chargingStationService.handleHeartbeat(headers, heartbeat);
+  }
+
+  public async handleStatusNotification(headers: OCPPHeader, statusNotification: OCPP20StatusNotificationRequest): Promise<OCPP20StatusNotificationResponse> {
+    // Check
+    OCPPValidation.getInstance().validateStatusNotification20(statusNotification);
+    // Forward to the connector of the EVSE
+    const evse: OCPP20EVSE = { id: statusNotification.evseId, connectorId: statusNotification.connectorId };
+    const connectorID = await this.getConnectorID(headers, evse);
+    await this.chargingStationService.handleStatusNotification(headers, {
+      connectorId: connectorID,
+      status: this.convertConnectorStatus(statusNotification.connectorStatus),
+      errorCode: statusNotification.connectorStatus === OCPP20ConnectorStatus.FAULTED ?
+        ChargePointErrorCode.OTHER_ERROR : ChargePointErrorCode.NO_ERROR,
+      timestamp: statusNotification.timestamp
+    } as OCPPStatusNotificationRequestExtended);
+    // Keep the EVSE of the connector
+    await ChargingStationStorage.saveChargingStationConnectorOcppEvse(headers.tenantID, headers.chargeBoxIdentity,
+      connectorID, evse.id, evse.connectorId);
+    return {};
+  }
+
+  public async handleMeterValues(headers: OCPPHeader, meterValues: OCPP20MeterValuesRequest): Promise<OCPP20MeterValuesResponse> {
+    // Check
+    OCPPValidation.getInstance().validateMeterValues20(meterValues);
+    // Forward
+    const convertedMeterValues = this.convertMeterValues(meterValues.meterValue);
+    if (!Utils.isEmptyArray(convertedMeterValues)) {
+      await this.chargingStationService.handleMeterValues(headers, {
+        connectorId: await this.getConnectorID(headers, { id: meterValues.evseId }),
+        meterValue: convertedMeterValues
+      } as OCPPMeterValuesRequestExtended);
+    }
+    return {};
+  }
+
+  public async handleAuthorize(headers: OCPPHeader, authorize: OCPP20AuthorizeRequest): Promise<OCPP20AuthorizeResponse> {
+    // Check
+    OCPPValidation.getInstance().validateAuthorize20(authorize);
+    // Forward
+    const result = await this.chargingStationService.handleAuthorize(headers, {
+      idTag: authorize.idToken.idToken
+    } as OCPPAuthorizeRequestExtended);
+    return {
+      idTokenInfo: {
+        status: result.idTagInfo.status
+      }
+    };
+  }
+
+  public async handleTransactionEvent(headers: OCPPHeader, transactionEvent: OCPP20TransactionEventRequest): Promise<OCPP20TransactionEventResponse> {
+    // Check
+    OCPPValidation.getInstance().validateTransactionEvent20(transactionEvent);
+    // Get the Transaction
+    const transaction = await TransactionStorage.getOCPPTransactionByOcppTransactionID(
+      headers.tenantID, headers.chargeBoxIdentity, transactionEvent.transactionInfo.transactionId);
+    if (transaction) {
+      if (transactionEvent.eventType === OCPP20TransactionEventType.ENDED) {
+        return this.processTransactionEventEnded(headers, transactionEvent, transaction);
+      }
+      return this.processTransactionEventUpdated(headers, transactionEvent, transaction);
+    }
+    // The EVSE is only provided in the first event: get it from the connector waiting for the authorization
+    const evse = transactionEvent.evse ?? await this.getPendingTransactionEvse(headers, transactionEvent.transactionInfo.transactionId);
+    if (transactionEvent.eventType === OCPP20TransactionEventType.ENDED) {
+      if (evse) {
+        await ChargingStationStorage.saveChargingStationConnectorOcppTransactionID(headers.tenantID, headers.chargeBoxIdentity,
+          await this.getConnectorID(headers, evse), null);
+      }
+      return this.processTransactionEventEnded(headers, transactionEvent, transaction);
+    }
+    // Not started yet
+    return this.processTransactionEventStart(headers, transactionEvent, evse);
+  }
+
+  public async handleNotifyReport(headers: OCPPHeader, notifyReport: OCPP20NotifyReportRequest): Promise<OCPP20NotifyReportResponse> {
+    // Check
+    OCPPValidation.getInstance().validateNotifyReport20(notifyReport);
+    try {
+      // Check the Charging Station
+      const chargingStation = await ChargingStationStorage.getChargingStation(headers.tenantID, headers.chargeBoxIdentity, {}, ['id']);
+      if (!chargingStation) {
+        await Logging.logWarning({
+          tenantID: headers.tenantID,
+          source: headers.chargeBoxIdentity,
+          module: MODULE_NAME, method: 'handleNotifyReport',
+          action: ServerAction.NOTIFY_REPORT,
+          message: 'Report received from an unknown Charging Station has been ignored',
+          detailedMessages: { headers, notifyReport }
+        });
+        return {};
+      }
+      // Merge the reported variables with the known OCPP Parameters (a report can be split in several messages)
+      const ocppParameters = await ChargingStationStorage.getOcppParameters(headers.tenantID, chargingStation.id);
+      const configuration: OcppParameter[] = notifyReport.seqNo === 0 ? [] : ocppParameters.result;
+      for (const reportData of notifyReport.reportData ?? []) {
+        const ocppParameter = this.convertReportDataToOcppParameter(reportData);
+        if (ocppParameter) {
+          const foundOcppParameter = configuration.find((configurationKey) => configurationKey.key === ocppParameter.key);
+          if (foundOcppParameter) {
+            foundOcppParameter.value = ocppParameter.value;
+            foundOcppParameter.readonly = ocppParameter.readonly;
+          } else {
+            configuration.push(ocppParameter);
+          }
+        }
+      }
+      // Save
+      await ChargingStationStorage.saveOcppParameters(headers.tenantID, {
+        id: chargingStation.id,
+        configuration,
+        timestamp: new Date()
+      });
+      await Logging.logInfo({
+        tenantID: headers.tenantID,
+        source: chargingStation.id,
+        module: MODULE_NAME, method: 'handleNotifyReport',
+        action: ServerAction.NOTIFY_REPORT,
+        message: `Report '${notifyReport.requestId}' part '${notifyReport.seqNo}' has been saved`,
+        detailedMessages: { headers, notifyReport }
+      });
+    } catch (error) {
+      await Logging.logActionExceptionMessage(headers.tenantID, ServerAction.NOTIFY_REPORT, error, { notifyReport });
+    }
+    return {};
+  }
+
+  private async processTransactionEventStart(headers: OCPPHeader, transactionEvent: OCPP20TransactionEventRequest,
+      evse: OCPP20EVSE): Promise<OCPP20TransactionEventResponse> {
+    // Transaction can only be created once the user has been identified
+    if (!transactionEvent.idToken) {
+      // Keep the EVSE until the authorization
+      if (evse) {
+        await ChargingStationStorage.saveChargingStationConnectorOcppTransactionID(headers.tenantID, headers.chargeBoxIdentity,
+          await this.getConnectorID(headers, evse), transactionEvent.transactionInfo.transactionId);
+      }
+      await Logging.logDebug({
+        tenantID: headers.tenantID,
+        source: headers.chargeBoxIdentity,
+        module: MODULE_NAME, method: 'processTransactionEventStart',
+        action: ServerAction.TRANSACTION_EVENT,
+        message: `Transaction '${transactionEvent.transactionInfo.transactionId}' is waiting for the user authorization`,
+        detailedMessages: { headers, transactionEvent }
+      });
+      return {};
+    }
+    if (!evse) {
+      await Logging.logError({
+        tenantID: headers.tenantID,
+        source: headers.chargeBoxIdentity,
+        module: MODULE_NAME, method: 'processTransactionEventStart',
+        action: ServerAction.TRANSACTION_EVENT,
+        message: `Transaction '${transactionEvent.transactionInfo.transactionId}' cannot be started without EVSE`,
+        detailedMessages: { headers, transactionEvent }
+      });
+      return {
+        idTokenInfo: {
+          status: OCPPAuthorizationStatus.INVALID
+        }
+      };
+    }
+    // Forward
+    const connectorID = await this.getConnectorID(headers, evse);
+    const meterValues = this.convertMeterValues(transactionEvent.meterValue);
+    const result = await this.chargingStationService.handleStartTransaction(headers, {
+      connectorId: connectorID,
+      idTag: transactionEvent.idToken.idToken,
+      meterStart: this.getEnergyActiveImportRegister(meterValues) ?? 0,
+      reservationId: transactionEvent.reservationId,
+      timestamp: transactionEvent.timestamp
+    } as OCPPStartTransactionRequestExtended);
+    if (result.transactionId > 0) {
+      // Link the Charging Station's Transaction ID and EVSE
+      await TransactionStorage.saveTransactionOcppTransactionID(headers.tenantID, result.transactionId,
+        transactionEvent.transactionInfo.transactionId, evse.id, evse.connectorId);
+      await ChargingStationStorage.saveChargingStationConnectorOcppTransactionID(headers.tenantID, headers.chargeBoxIdentity, connectorID, null);
+      // Process the other information of the event
+      await this.forwardTransactionEventData(headers, transactionEvent, connectorID, result.transactionId, meterValues);
+    }
+    return {
+      idTokenInfo: {
+        status: result.idTagInfo.status
+      }
+    };
+  }
+
+  private async processTransactionEventUpdated(headers: OCPPHeader, transactionEvent: OCPP20TransactionEventRequest,
+      transaction: Transaction): Promise<OCPP20TransactionEventResponse> {
+    // Process the information of the event
+    await this.forwardTransactionEventData(headers, transactionEvent, transaction.connectorId, transaction.id,
+      this.convertMeterValues(transactionEvent.meterValue));
+    if (transactionEvent.idToken) {
+      return {
+        idTokenInfo: {
+          status: await this.checkTransactionIdToken(headers, transactionEvent, transaction)
+        }
+      };
+    }
+    return {};
+  }
+
+  private async processTransactionEventEnded(headers: OCPPHeader, transactionEvent: OCPP20TransactionEventRequest,
+      transaction: Transaction): Promise<OCPP20TransactionEventResponse> {
+    // Transaction never authorized or already stopped
+    if (!transaction || transaction.stop) {
+      await Logging.logWarning({
+        tenantID: headers.tenantID,
+        source: headers.chargeBoxIdentity,
+        module: MODULE_NAME, method: 'processTransactionEventEnded',
+        action: ServerAction.TRANSACTION_EVENT,
+        message: `Transaction '${transactionEvent.transactionInfo.transactionId}' is unknown or already stopped and has been ignored`,
+        detailedMessages: { headers, transactionEvent }
+      });
+      return {};
+    }
+    // Forward
+    const meterValues = this.convertMeterValues(transactionEvent.meterValue);
+    const stopTransaction = {
+      transactionId: transaction.id,
+      idTag: transactionEvent.idToken?.idToken,
+      meterStop: this.getEnergyActiveImportRegister(meterValues) ?? transaction.lastConsumption?.value ?? transaction.meterStart,
+      timestamp: transactionEvent.timestamp,
+    } as OCPPStopTransactionRequestExtended;
+    const reason = this.convertStoppedReason(transactionEvent.transactionInfo.stoppedReason);
+    if (reason) {
+      stopTransaction.reason = reason;
+    }
+    if (!Utils.isEmptyArray(meterValues)) {
+      stopTransaction.transactionData = meterValues;
+    }
+    const result = await this.chargingStationService.handleStopTransaction(headers, stopTransaction);
+    if (transactionEvent.idToken) {
+      return {
+        idTokenInfo: {
+          status: result.idTagInfo.status
+        }
+      };
+    }
+    return {};
+  }
+
+  private async forwardTransactionEventData(headers: OCPPHeader, transactionEvent: OCPP20TransactionEventRequest,
+      connectorID: number, transactionID: number, meterValues: OCPPMeterValue[]): Promise<void> {
+    // Meter Values
+    if (!Utils.isEmptyArray(meterValues)) {
+      await this.chargingStationService.handleMeterValues(headers, {
+        connectorId: connectorID,
+        transactionId: transactionID,
+        meterValue: meterValues
+      } as OCPPMeterValuesRequestExtended);
+    }
+    // Charging State is the OCPP 1.6 connector's status
+    const status = this.convertChargingState(transactionEvent.transactionInfo.chargingState);
+    if (status) {
+      await this.chargingStationService.handleStatusNotification(headers, {
+        connectorId: connectorID,
+        status,
+        errorCode: ChargePointErrorCode.NO_ERROR,
+        timestamp: transactionEvent.timestamp
+      } as OCPPStatusNotificationRequestExtended);
+    }
+  }
+
+  private async getPendingTransactionEvse(headers: OCPPHeader, ocppTransactionID: string): Promise<OCPP20EVSE> {
+    const chargingStation = await ChargingStationStorage.getChargingStation(headers.tenantID, headers.chargeBoxIdentity, {}, ['id', 'connectors']);
+    const connector = chargingStation?.connectors?.find((foundConnector) => foundConnector.currentOcppTransactionID === ocppTransactionID);
+    return connector ? { id: connector.ocppEvseID ?? connector.connectorId, connectorId: connector.ocppConnectorID } : null;
+  }
+
+  private async getConnectorID(headers: OCPPHeader, evse: OCPP20EVSE): Promise<number> {
+    // EVSE 0 is the Charging Station's main meter
+    if (!evse.id) {
+      return 0;
+    }
+    const chargingStation = await ChargingStationStorage.getChargingStation(headers.tenantID, headers.chargeBoxIdentity, {}, ['id', 'connectors']);
+    const connectors = chargingStation?.connectors ?? [];
+    // Connector already linked to the EVSE (the first one if the EVSE's connector is not provided)
+    const foundConnector = connectors.find((connector) => connector.ocppEvseID === evse.id &&
+      (!evse.connectorId || connector.ocppConnectorID === evse.connectorId));
+    if (foundConnector) {
+      return foundConnector.connectorId;
+    }
+    // New connector: keep the EVSE ID unless it is already linked to another EVSE's connector
+    if (!connectors.some((connector) => connector.connectorId === evse.id && connector.ocppEvseID)) {
+      return evse.id;
+    }
+    return Math.max(...connectors.map((connector) => connector.connectorId)) + 1;
+  }
+
+  private async checkTransactionIdToken(headers: OCPPHeader, transactionEvent: OCPP20TransactionEventRequest,
+      transaction: Transaction): Promise<OCPPAuthorizationStatus> {
+    // Same badge as the one which started the Transaction
+    if (transactionEvent.idToken.idToken === transaction.tagID) {
+      return OCPPAuthorizationStatus.ACCEPTED;
+    }
+    const result = await this.chargingStationService.handleAuthorize(headers, {
+      idTag: transactionEvent.idToken.idToken
+    } as OCPPAuthorizeRequestExtended);
+    return result.idTagInfo.status;
+  }
+
+  private convertMeterValues(meterValues: OCPP20MeterValue[]): OCPPMeterValue[] {
+    const convertedMeterValues: OCPPMeterValue[] = [];
+    for (const meterValue of meterValues ?? []) {
+      const sampledValues: OCPPSampledValue[] = [];
+      for (const sampledValue of meterValue.sampledValue) {
+        const unit = (sampledValue.unitOfMeasure?.unit ?? OCPPUnitOfMeasure.WATT_HOUR) as OCPPUnitOfMeasure;
+        // Keep only the values supported by the OCPP 1.6 model
+        if (!Object.values(OCPPUnitOfMeasure).includes(unit) ||
+            (sampledValue.measurand && !Object.values(OCPPMeasurand).includes(sampledValue.measurand))) {
+          continue;
+        }
+        const multiplier = sampledValue.unitOfMeasure?.multiplier ?? 0;
+        sampledValues.push({
+          value: Utils.createDecimal(sampledValue.value).mul(Utils.createDecimal(10).pow(multiplier)).toString(),
+          context: sampledValue.context,
+          format: OCPPValueFormat.RAW,
+          measurand: sampledValue.measurand,
+          phase: sampledValue.phase,
+          location: sampledValue.location,
+          unit
+        });
+        // Signed Data is provided separately
+        if (sampledValue.signedMeterValue) {
+          sampledValues.push({
+            value: sampledValue.signedMeterValue.signedMeterData,
+            context: sampledValue.context,
+            format: OCPPValueFormat.SIGNED_DATA,
+            measurand: sampledValue.measurand,
+            phase: sampledValue.phase,
+            location: sampledValue.location,
+            unit
+          });
+        }
+      }
+      if (!Utils.isEmptyArray(sampledValues)) {
+        convertedMeterValues.push({
+          timestamp: meterValue.timestamp,
+          sampledValue: sampledValues
+        });
+      }
+    }
+    return convertedMeterValues;
+  }
+
+  private getEnergyActiveImportRegister(meterValues: OCPPMeterValue[]): number {
+    let energyActiveImportRegister: number;
+    for (const meterValue of meterValues) {
+      for (const sampledValue of meterValue.sampledValue) {
+        if ((!sampledValue.measurand || sampledValue.measurand === OCPPMeasurand.ENERGY_ACTIVE_IMPORT_REGISTER) &&
+            sampledValue.format === OCPPValueFormat.RAW && !sampledValue.phase) {
+          energyActiveImportRegister = Utils.convertToFloat(sampledValue.value);
+          if (sampledValue.unit === OCPPUnitOfMeasure.KILO_WATT_HOUR) {
+            energyActiveImportRegister = Utils.createDecimal(energyActiveImportRegister).mul(1000).toNumber();
+          }
+          // Transaction boundaries take precedence
+          if (sampledValue.context === OCPPReadingContext.TRANSACTION_BEGIN ||
+              sampledValue.context === OCPPReadingContext.TRANSACTION_END) {
+            return energyActiveImportRegister;
+          }
+        }
+      }
+    }
+    return energyActiveImportRegister;
+  }
+
+  private convertReportDataToOcppParameter(reportData: OCPP20ReportData): OcppParameter {
+    // Only the actual value is kept
+    const variableAttribute = reportData.variableAttribute.find(
+      (attribute) => !attribute.type || attribute.type === OCPP20AttributeType.ACTUAL);
+    if (!variableAttribute) {
+      return null;
+    }
+    // Key is Component[.Instance][.EVSE].Variable[.Instance]
+    const keyParts = [reportData.component.name];
+    if (reportData.component.instance) {
+      keyParts.push(reportData.component.instance);
+    }
+    if (reportData.component.evse) {
+      keyParts.push(`EVSE${reportData.component.evse.id}`);
+    }
+    keyParts.push(reportData.variable.name);
+    if (reportData.variable.instance) {
+      keyParts.push(reportData.variable.instance);
+    }
+    return {
+      key: keyParts.join('.'),
+      value: variableAttribute.value,
+      readonly: variableAttribute.mutability === OCPP20Mutability.READ_ONLY
+    };
+  }
+
+  private convertConnectorStatus(connectorStatus: OCPP20ConnectorStatus): ChargePointStatus {
+    switch (connectorStatus) {
+      case OCPP20ConnectorStatus.AVAILABLE:
+        return ChargePointStatus.AVAILABLE;
+      case OCPP20ConnectorStatus.OCCUPIED:
+        return ChargePointStatus.OCCUPIED;
+      case OCPP20ConnectorStatus.RESERVED:
+        return ChargePointStatus.RESERVED;
+      case OCPP20ConnectorStatus.FAULTED:
+        return ChargePointStatus.FAULTED;
+      default:
+        return ChargePointStatus.UNAVAILABLE;
+    }
+  }
+
+  private convertChargingState(chargingState: OCPP20ChargingState): ChargePointStatus {
+    switch (chargingState) {
+      case OCPP20ChargingState.CHARGING:
+        return ChargePointStatus.CHARGING;
+      case OCPP20ChargingState.SUSPENDED_EV:
+        return ChargePointStatus.SUSPENDED_EV;
+      case OCPP20ChargingState.SUSPENDED_EVSE:
+        return ChargePointStatus.SUSPENDED_EVSE;
+      case OCPP20ChargingState.EV_CONNECTED:
+        return ChargePointStatus.PREPARING;
+      // Idle: no interaction with the EV
+      default:
+        return null;
+    }
+  }
+
+  private convertStoppedReason(stoppedReason: OCPP20StoppedReason): OCPPReason {
+    switch (stoppedReason) {
+      case OCPP20StoppedReason.DE_AUTHORIZED:
+        return OCPPReason.DE_AUTHORIZED;
+      case OCPP20StoppedReason.EMERGENCY_STOP:
+        return OCPPReason.EMERGENCY_STOP;
+      case OCPP20StoppedReason.EV_DISCONNECTED:
+        return OCPPReason.EV_DISCONNECTED;
+      case OCPP20StoppedReason.IMMEDIATE_RESET:
+        return OCPPReason.HARD_RESET;
+      case OCPP20StoppedReason.LOCAL:
+        return OCPPReason.LOCAL;
+      case OCPP20StoppedReason.POWER_LOSS:
+        return OCPPReason.POWER_LOSS;
+      case OCPP20StoppedReason.REBOOT:
+        return OCPPReason.REBOOT;
+      case OCPP20StoppedReason.REMOTE:
+        return OCPPReason.REMOTE;
+      default:
+        return stoppedReason ? OCPPReason.OTHER : null;
+    }
+  }
+}
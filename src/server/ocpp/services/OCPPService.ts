@@ -1,7 +1,8 @@
-import { ChargePointErrorCode, ChargePointStatus, OCPPAttribute, OCPPAuthorizationStatus, OCPPAuthorizeRequestExtended, OCPPAuthorizeResponse, OCPPBootNotificationRequestExtended, OCPPBootNotificationResponse, OCPPDataTransferRequestExtended, OCPPDataTransferResponse, OCPPDataTransferStatus, OCPPDiagnosticsStatusNotificationRequestExtended, OCPPDiagnosticsStatusNotificationResponse, OCPPFirmwareStatusNotificationRequestExtended, OCPPFirmwareStatusNotificationResponse, OCPPHeartbeatRequestExtended, OCPPHeartbeatResponse, OCPPLocation, OCPPMeasurand, OCPPMeterValue, OCPPMeterValuesRequest, OCPPMeterValuesRequestExtended, OCPPMeterValuesResponse, OCPPNormalizedMeterValue, OCPPNormalizedMeterValues, OCPPPhase, OCPPProtocol, OCPPReadingContext, OCPPSampledValue, OCPPStartTransactionRequestExtended, OCPPStartTransactionResponse, OCPPStatusNotificationRequestExtended, OCPPStatusNotificationResponse, OCPPStopTransactionRequestExtended, OCPPStopTransactionResponse, OCPPUnitOfMeasure, OCPPValueFormat, OCPPVersion, RegistrationStatus } from '../../../types/ocpp/OCPPServer';
+import { ChargePointErrorCode, ChargePointStatus, OCPPAttribute, OCPPAuthorizationStatus, OCPPAuthorizeRequestExtended, OCPPAuthorizeResponse, OCPPBootNotificationRequestExtended, OCPPBootNotificationResponse, OCPPDataTransferRequestExtended, OCPPDataTransferResponse, OCPPDataTransferStatus, OCPPDiagnosticsStatusNotificationRequestExtended, OCPPDiagnosticsStatusNotificationResponse, OCPPFirmwareStatusNotificationRequestExtended, OCPPFirmwareStatusNotificationResponse, OCPPHeartbeatRequestExtended, OCPPHeartbeatResponse, OCPPLocation, OCPPMeasurand, OCPPMeterValue, OCPPMeterValuesRequest, OCPPMeterValuesRequestExtended, OCPPMeterValuesResponse, OCPPNormalizedMeterValue, OCPPNormalizedMeterValues, OCPPPhase, OCPPProtocol, OCPPReadingContext, OCPPSampledValue, OCPPSecurityEventNotificationRequestExtended, OCPPSecurityEventNotificationResponse, OCPPSignCertificateRequestExtended, OCPPSignCertificateResponse, OCPPSignCertificateStatus, OCPPStartTransactionRequestExtended, OCPPStartTransactionResponse, OCPPStatusNotificationRequestExtended, OCPPStatusNotificationResponse, OCPPStopTransactionRequestExtended, OCPPStopTransactionResponse, OCPPUnitOfMeasure, OCPPValueFormat, OCPPVersion, RegistrationStatus } from '../../../types/ocpp/OCPPServer';
 import { ChargingProfilePurposeType, ChargingRateUnitType } from '../../../types/ChargingProfile';
 import ChargingStation, { ChargerVendor, Connector, ConnectorCurrentLimitSource, ConnectorType, CurrentType, StaticLimitAmps, TemplateUpdateResult } from '../../../types/ChargingStation';
-import { OCPPChangeConfigurationCommandResult, OCPPConfigurationStatus, OCPPRemoteStartStopStatus } from '../../../types/ocpp/OCPPClient';
+import { OCPPCertificateSignedStatus, OCPPChangeConfigurationCommandResult, OCPPConfigurationStatus, OCPPRemoteStartStopStatus } from '../../../types/ocpp/OCPPClient';
+import Reservation, { ReservationStatus } from '../../../types/Reservation';
 import Transaction, { InactivityStatus, TransactionAction } from '../../../types/Transaction';
 
 import { Action } from '../../../types/Authorization';
@@ -17,6 +18,7 @@ import ConsumptionStorage from '../../../storage/mongodb/ConsumptionStorage';
 import CpoOCPIClient from '../../../client/ocpi/CpoOCPIClient';
 import CpoOICPClient from '../../../client/oicp/CpoOICPClient';
 import I18nManager from '../../../utils/I18nManager';
+import LocalCertificateAuthority from '../../../utils/LocalCertificateAuthority';
 import LockingHelper from '../../../locking/LockingHelper';
 import LockingManager from '../../../locking/LockingManager';
 import Logging from '../../../utils/Logging';
@@ -29,9 +31,12 @@ import OCPPUtils from '../utils/OCPPUtils';
 import OCPPValidation from '../validation/OCPPValidation';
 import OICPClientFactory from '../../../client/oicp/OICPClientFactory';
 import { OICPRole } from '../../../types/oicp/OICPRole';
+import PricingEngine from '../../../integration/pricing/PricingEngine';
+import ReservationStorage from '../../../storage/mongodb/ReservationStorage';
 import { ServerAction } from '../../../types/Server';
 import SiteAreaStorage from '../../../storage/mongodb/SiteAreaStorage';
 import SmartChargingFactory from '../../../integration/smart-charging/SmartChargingFactory';
+import { SmartChargingPriority } from '../../../types/SmartCharging';
 import Tag from '../../../types/Tag';
 import Tenant from '../../../types/Tenant';
 import TenantComponents from '../../../types/TenantComponents';
@@ -274,6 +279,8 @@ export default class OCPPService {
         await this.updateChargingStationWithTransaction(tenant, chargingStation, transaction);
         // Handle End Of charge
         await this.checkNotificationEndOfCharge(tenant, chargingStation, transaction);
+        // Handle Idle Fee
+        this.checkNotificationIdleFee(tenant, chargingStation, transaction);
         // Save Charging Station
         await ChargingStationStorage.saveChargingStation(tenant.id, chargingStation);
         // First Meter Value -> Trigger Smart Charging to adjust the limit
@@ -439,6 +446,8 @@ export default class OCPPService {
         await this.stopOrDeleteActiveTransaction(tenant, chargingStation, startTransaction.connectorId);
         // Car
         await this.processCarTransaction(tenant, newTransaction, user);
+        // Smart Charging
+        await this.processSmartChargingTransaction(tenant, newTransaction, user, tag);
         // Pricing
         await OCPPUtils.processTransactionPricing(tenant, newTransaction, chargingStation, null, TransactionAction.START);
         // Billing
@@ -447,6 +456,8 @@ export default class OCPPService {
         await OCPPUtils.processTransactionRoaming(tenant, newTransaction, chargingStation, tag, TransactionAction.START);
         // Save it
         await TransactionStorage.saveTransaction(tenant.id, newTransaction);
+        // Reservation
+        await this.processReservationTransaction(tenant, newTransaction, startTransaction);
         // Clean up
         await this.updateChargingStationConnectorWithTransaction(tenant, newTransaction, chargingStation, user);
         // Save
@@ -523,6 +534,80 @@ export default class OCPPService {
     }
   }
 
+  public async handleSignCertificate(headers: OCPPHeader, signCertificate: OCPPSignCertificateRequestExtended): Promise<OCPPSignCertificateResponse> {
+    try {
+      // Get the charging station
+      const { chargingStation, tenant, chargingStationLock } = await OCPPUtils.checkAndGetTenantAndChargingStation(headers);
+      try {
+        // Check props
+        OCPPValidation.getInstance().validateSignCertificate(signCertificate);
+        // Enrich
+        this.enrichOCPPRequest(chargingStation, signCertificate);
+        // Issue the certificate
+        const signedCertificate = LocalCertificateAuthority.signCertificateRequest(signCertificate.csr, chargingStation.id);
+        await ChargingStationStorage.saveChargingStationCertificate(tenant.id, chargingStation.id, signedCertificate.certificate);
+        // Send it once the Charging Station has received the response
+        this.sendCertificateSignedDelayed(tenant, chargingStation, signedCertificate.certificateChain);
+        // Log
+        await Logging.logInfo({
+          tenantID: tenant.id,
+          source: chargingStation.id,
+          module: MODULE_NAME, method: 'handleSignCertificate',
+          action: ServerAction.SIGN_CERTIFICATE,
+          message: `Certificate with serial number '${signedCertificate.certificate.serialNumber}' has been issued`,
+          detailedMessages: { headers, certificate: signedCertificate.certificate }
+        });
+        // Accepted
+        return {
+          status: OCPPSignCertificateStatus.ACCEPTED
+        };
+      } finally {
+        // Release lock
+        await LockingManager.release(chargingStationLock);
+      }
+    } catch (error) {
+      this.addChargingStationToException(error, headers.chargeBoxIdentity);
+      await Logging.logActionExceptionMessage(headers.tenantID, ServerAction.SIGN_CERTIFICATE, error, { signCertificate });
+      // Rejected
+      return {
+        status: OCPPSignCertificateStatus.REJECTED
+      };
+    }
+  }
+
+  public async handleSecurityEventNotification(headers: OCPPHeader,
+      securityEventNotification: OCPPSecurityEventNotificationRequestExtended): Promise<OCPPSecurityEventNotificationResponse> {
+    try {
+      // Get the charging station
+      const { chargingStation, tenant, chargingStationLock } = await OCPPUtils.checkAndGetTenantAndChargingStation(headers);
+      try {
+        // Check props
+        OCPPValidation.getInstance().validateSecurityEventNotification(securityEventNotification);
+        // Enrich (keep the event's timestamp)
+        this.enrichOCPPRequest(chargingStation, securityEventNotification, false);
+        // Save it
+        await OCPPStorage.saveSecurityEventNotification(tenant, securityEventNotification);
+        // Log
+        await Logging.logWarning({
+          tenantID: tenant.id,
+          source: chargingStation.id,
+          module: MODULE_NAME, method: 'handleSecurityEventNotification',
+          action: ServerAction.SECURITY_EVENT_NOTIFICATION,
+          message: `Security event '${securityEventNotification.type}' has been received`,
+          detailedMessages: { headers, securityEventNotification }
+        });
+        return {};
+      } finally {
+        // Release lock
+        await LockingManager.release(chargingStationLock);
+      }
+    } catch (error) {
+      this.addChargingStationToException(error, headers.chargeBoxIdentity);
+      await Logging.logActionExceptionMessage(headers.tenantID, ServerAction.SECURITY_EVENT_NOTIFICATION, error, { securityEventNotification });
+      return {};
+    }
+  }
+
   public async handleStopTransaction(headers: OCPPHeader, stopTransaction: OCPPStopTransactionRequestExtended,
       isSoftStop = false, isStoppedByCentralSystem = false): Promise<OCPPStopTransactionResponse> {
     try {
@@ -1259,6 +1344,37 @@ export default class OCPPService {
     }
   }
 
+  private checkNotificationIdleFee(tenant: Tenant, chargingStation: ChargingStation, transaction: Transaction) {
+    const idleFee = transaction.pricingModel?.idleFee;
+    // Car idle after the end of the charge?
+    if (!transaction.stop && idleFee?.enabled && transaction.user && transaction.pricingData?.idleTimeSecs > 0) {
+      const remainingGraceSecs = PricingEngine.getIdleFeeRemainingGraceSecs(idleFee, transaction.pricingData);
+      const notifyBeforeSecs = Utils.createDecimal(idleFee.notifyBeforeMins ?? idleFee.gracePeriodMins).mul(60).toNumber();
+      if (remainingGraceSecs > 0 && remainingGraceSecs <= notifyBeforeSecs) {
+        // Get the i18n lib
+        const i18nManager = I18nManager.getInstanceForLocale(transaction.user.locale);
+        // Notify (Async)
+        NotificationHandler.sendIdleFeeWarning(
+          tenant,
+          transaction.id.toString() + '-IF',
+          transaction.user,
+          chargingStation,
+          {
+            user: transaction.user,
+            transactionId: transaction.id,
+            chargeBoxID: chargingStation.id,
+            connectorId: Utils.getConnectorLetterFromConnectorID(transaction.connectorId),
+            remainingMins: Math.ceil(remainingGraceSecs / 60),
+            pricePerMin: i18nManager.formatCurrency(idleFee.pricePerMin, transaction.pricingModel.currency),
+            maxAmount: !Utils.isNullOrUndefined(idleFee.maxAmount) ? i18nManager.formatCurrency(idleFee.maxAmount, transaction.pricingModel.currency) : null,
+            evseDashboardChargingStationURL: Utils.buildEvseTransactionURL(tenant.subdomain, transaction.id, '#inprogress'),
+            evseDashboardURL: Utils.buildEvseURL(tenant.subdomain)
+          }
+        ).catch(() => { });
+      }
+    }
+  }
+
   private async checkNotificationEndOfCharge(tenant: Tenant, chargingStation: ChargingStation, transaction: Transaction) {
     // Transaction in progress?
     if (!transaction?.stop && transaction.currentTotalConsumptionWh > 0) {
@@ -1371,8 +1487,8 @@ export default class OCPPService {
         transactionId: meterValues.transactionId,
         timestamp: Utils.convertToDate(meterValue.timestamp),
       } as OCPPNormalizedMeterValue;
-      // OCPP 1.6
-      if (chargingStation.ocppVersion === OCPPVersion.VERSION_16) {
+      // OCPP 1.6 (OCPP 2.0 is converted to OCPP 1.6 structure)
+      if (chargingStation.ocppVersion === OCPPVersion.VERSION_16 || chargingStation.ocppVersion === OCPPVersion.VERSION_20) {
         // Always an Array
         if (!Array.isArray(meterValue.sampledValue)) {
           meterValue.sampledValue = [meterValue.sampledValue];
@@ -1661,6 +1777,48 @@ export default class OCPPService {
     }
   }
 
+  private async processSmartChargingTransaction(tenant: Tenant, transaction: Transaction, user: User, tag: Tag): Promise<void> {
+    if (Utils.isTenantComponentActive(tenant, TenantComponents.SMART_CHARGING)) {
+      // Priority of the Tag takes precedence over the User's one
+      transaction.smartChargingPriority = tag?.smartChargingPriority ?? user?.smartChargingPriority ?? SmartChargingPriority.NORMAL;
+      // Charging needs provided with the remote start
+      if (user?.lastChargingNeeds) {
+        // Departure already passed: outdated needs
+        if (!user.lastChargingNeeds.departureTime || moment(user.lastChargingNeeds.departureTime).isAfter(moment())) {
+          transaction.chargingNeeds = user.lastChargingNeeds;
+        }
+        // Clear
+        await UserStorage.saveUserLastChargingNeeds(tenant.id, user.id, null);
+      }
+    }
+  }
+
+  private async processReservationTransaction(tenant: Tenant, transaction: Transaction,
+      startTransaction: OCPPStartTransactionRequestExtended): Promise<void> {
+    let reservation: Reservation;
+    if (startTransaction.reservationId > 0) {
+      reservation = await ReservationStorage.getReservation(tenant.id, startTransaction.reservationId);
+    } else {
+      // Charging Stations do not always provide the Reservation ID
+      reservation = await ReservationStorage.getActiveReservation(tenant.id, transaction.chargeBoxID, transaction.connectorId);
+      if (reservation && reservation.tagID !== transaction.tagID) {
+        reservation = null;
+      }
+    }
+    if (reservation?.status === ReservationStatus.ACTIVE) {
+      // Flag the Reservation as used
+      await ReservationStorage.saveReservationStatus(tenant.id, reservation.id, ReservationStatus.USED, { transactionID: transaction.id });
+      await Logging.logInfo({
+        tenantID: tenant.id,
+        source: transaction.chargeBoxID,
+        module: MODULE_NAME, method: 'processReservationTransaction',
+        action: ServerAction.START_TRANSACTION, user: transaction.userID,
+        message: `${Utils.buildConnectorInfo(transaction.connectorId, transaction.id)} Reservation ID '${reservation.id}' has been used`,
+        detailedMessages: { reservation }
+      });
+    }
+  }
+
   private addChargingStationToException(error: BackendError, chargingStationID: string): void {
     if (error.params) {
       error.params.source = chargingStationID;
@@ -1910,6 +2068,27 @@ export default class OCPPService {
     }, Constants.DELAY_CHANGE_CONFIGURATION_EXECUTION_MILLIS);
   }
 
+  private sendCertificateSignedDelayed(tenant: Tenant, chargingStation: ChargingStation, certificateChain: string) {
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    setTimeout(async () => {
+      try {
+        const result = await OCPPUtils.requestChargingStationCertificateSigned(tenant, chargingStation, { certificateChain });
+        if (result.status !== OCPPCertificateSignedStatus.ACCEPTED) {
+          await Logging.logError({
+            tenantID: tenant.id,
+            action: ServerAction.CHARGING_STATION_CERTIFICATE_SIGNED,
+            source: chargingStation.id,
+            module: MODULE_NAME, method: 'sendCertificateSignedDelayed',
+            message: `Charging Station has rejected the signed certificate with status '${result.status}'`,
+            detailedMessages: { result }
+          });
+        }
+      } catch (error) {
+        await Logging.logActionExceptionMessage(tenant.id, ServerAction.CHARGING_STATION_CERTIFICATE_SIGNED, error);
+      }
+    }, Constants.DELAY_CHANGE_CONFIGURATION_EXECUTION_MILLIS);
+  }
+
   private enrichAuthorize(user: User, chargingStation: ChargingStation, headers: OCPPHeader, authorize: OCPPAuthorizeRequestExtended) {
     // Enrich
     this.enrichOCPPRequest(chargingStation, authorize);
@@ -1,14 +1,16 @@
-import { BillingDataTransactionStart, BillingDataTransactionStop } from '../../../types/Billing';
+import { BillingDataTransactionStart, BillingDataTransactionStop, BillingDataTransactionUpdate } from '../../../types/Billing';
 import { ChargingProfile, ChargingProfilePurposeType } from '../../../types/ChargingProfile';
-import ChargingStation, { ChargingStationCapabilities, ChargingStationOcppParameters, ChargingStationTemplate, Connector, ConnectorCurrentLimitSource, CurrentType, OcppParameter, SiteAreaLimitSource, StaticLimitAmps, TemplateUpdate, TemplateUpdateResult } from '../../../types/ChargingStation';
-import { OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPChargingProfileStatus, OCPPConfigurationStatus, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPResetCommandResult, OCPPResetStatus, OCPPResetType } from '../../../types/ocpp/OCPPClient';
-import { OCPPMeasurand, OCPPNormalizedMeterValue, OCPPPhase, OCPPReadingContext, OCPPStopTransactionRequestExtended, OCPPUnitOfMeasure, OCPPValueFormat } from '../../../types/ocpp/OCPPServer';
+import ChargingStation, { ChargingStationCapabilities, ChargingStationOcppParameters, ChargingStationTemplate, Connector, ConnectorCurrentLimitSource, CurrentType, LocalAuthorizationList, LocalAuthorizationListConfiguration, OcppParameter, SiteAreaLimitSource, StaticLimitAmps, TemplateUpdate, TemplateUpdateResult } from '../../../types/ChargingStation';
+import { OCPPCancelReservationCommandResult, OCPPCancelReservationStatus, OCPPCertificateSignedCommandParam, OCPPCertificateSignedCommandResult, OCPPChangeConfigurationCommandParam, OCPPChangeConfigurationCommandResult, OCPPChargingProfileStatus, OCPPConfigurationStatus, OCPPGetConfigurationCommandParam, OCPPGetConfigurationCommandResult, OCPPRemoteStartStopStatus, OCPPRemoteStopTransactionCommandResult, OCPPReservationStatus, OCPPReserveNowCommandParam, OCPPReserveNowCommandResult, OCPPResetCommandResult, OCPPResetStatus, OCPPResetType, OCPPSendLocalListCommandParam, OCPPSendLocalListCommandResult, OCPPTriggerMessageCommandParam, OCPPTriggerMessageCommandResult, OCPPUpdateStatus, OCPPUpdateType } from '../../../types/ocpp/OCPPClient';
+import { OCPPAuthorizationStatus, OCPPMeasurand, OCPPNormalizedMeterValue, OCPPPhase, OCPPReadingContext, OCPPSecurityProfile, OCPPStopTransactionRequestExtended, OCPPUnitOfMeasure, OCPPValueFormat } from '../../../types/ocpp/OCPPServer';
 import { OICPIdentification, OICPSessionID } from '../../../types/oicp/OICPIdentification';
+import Reservation, { ReservationStatus } from '../../../types/Reservation';
 import Transaction, { InactivityStatus, TransactionAction } from '../../../types/Transaction';
 
 import { ActionsResponse } from '../../../types/GlobalType';
 import BackendError from '../../../exception/BackendError';
 import BillingFactory from '../../../integration/billing/BillingFactory';
+import ChargingStationClient from '../../../client/ocpp/ChargingStationClient';
 import ChargingStationClientFactory from '../../../client/ocpp/ChargingStationClientFactory';
 import ChargingStationStorage from '../../../storage/mongodb/ChargingStationStorage';
 import ChargingStationVendorFactory from '../../../integration/charging-station-vendor/ChargingStationVendorFactory';
@@ -20,6 +22,7 @@ import CpoOICPClient from '../../../client/oicp/CpoOICPClient';
 import DatabaseUtils from '../../../storage/mongodb/DatabaseUtils';
 import Lock from '../../../types/Locking';
 import LockingHelper from '../../../locking/LockingHelper';
+import LocalCertificateAuthority from '../../../utils/LocalCertificateAuthority';
 import LockingManager from '../../../locking/LockingManager';
 import Logging from '../../../utils/Logging';
 import OCPIClientFactory from '../../../client/ocpi/OCPIClientFactory';
@@ -34,16 +37,20 @@ import PricingFactory from '../../../integration/pricing/PricingFactory';
 import { PricingSettingsType } from '../../../types/Setting';
 import RegistrationToken from '../../../types/RegistrationToken';
 import RegistrationTokenStorage from '../../../storage/mongodb/RegistrationTokenStorage';
+import ReservationStorage from '../../../storage/mongodb/ReservationStorage';
 import { ServerAction } from '../../../types/Server';
+import SettingStorage from '../../../storage/mongodb/SettingStorage';
 import SiteArea from '../../../types/SiteArea';
 import SiteAreaStorage from '../../../storage/mongodb/SiteAreaStorage';
 import Tag from '../../../types/Tag';
+import TagStorage from '../../../storage/mongodb/TagStorage';
 import Tenant from '../../../types/Tenant';
 import TenantComponents from '../../../types/TenantComponents';
 import TenantStorage from '../../../storage/mongodb/TenantStorage';
 import TransactionStorage from '../../../storage/mongodb/TransactionStorage';
-import User from '../../../types/User';
+import User, { UserStatus } from '../../../types/User';
 import Utils from '../../../utils/Utils';
+import { WSConnectionCredentials } from '../../../types/WebSocket';
 import _ from 'lodash';
 import moment from 'moment';
 import url from 'url';
@@ -86,6 +93,59 @@ export default class OCPPUtils {
     return token;
   }
 
+  public static async checkChargingStationOcppSecurity(tenant: Tenant, chargingStationID: string,
+      credentials: WSConnectionCredentials, detailedMessages?: any): Promise<void> {
+    const ocppSecurity = await ChargingStationStorage.getChargingStationOcppSecurity(tenant.id, chargingStationID);
+    // The tenant's minimum profile also applies to the unknown charging stations
+    const ocppSecuritySettings = await SettingStorage.getOcppSecuritySettings(tenant.id);
+    const securityProfile: OCPPSecurityProfile = Math.max(ocppSecurity?.securityProfile ?? OCPPSecurityProfile.NONE,
+      ocppSecuritySettings?.ocppSecurity?.minimumSecurityProfile ?? OCPPSecurityProfile.NONE);
+    // No security profile: the URL token is enough
+    if (!securityProfile) {
+      return;
+    }
+    // TLS is required from profile 2
+    if (securityProfile >= OCPPSecurityProfile.TLS_BASIC_AUTH && !credentials.secure) {
+      throw new BackendError({
+        source: chargingStationID,
+        action: ServerAction.WS_CONNECTION,
+        module: MODULE_NAME, method: 'checkChargingStationOcppSecurity',
+        message: `Security Profile ${securityProfile} requires a TLS connection, connection refused`,
+        detailedMessages
+      });
+    }
+    switch (securityProfile) {
+      // Basic Auth: the user name is the Charging Station ID
+      case OCPPSecurityProfile.BASIC_AUTH:
+      case OCPPSecurityProfile.TLS_BASIC_AUTH:
+        if (credentials.username !== chargingStationID || !credentials.password || !ocppSecurity?.basicAuthPassword ||
+            !await Utils.checkPasswordBCrypt(credentials.password, ocppSecurity.basicAuthPassword)) {
+          throw new BackendError({
+            source: chargingStationID,
+            action: ServerAction.WS_CONNECTION,
+            module: MODULE_NAME, method: 'checkChargingStationOcppSecurity',
+            message: 'Invalid Basic Auth credentials, connection refused',
+            detailedMessages
+          });
+        }
+        break;
+      // Client certificate: the Common Name is the Charging Station ID
+      case OCPPSecurityProfile.TLS_CLIENT_CERTIFICATE: {
+        const certificate = credentials.clientCertificate ? LocalCertificateAuthority.verifyCertificate(credentials.clientCertificate) : null;
+        if (!certificate || certificate.subject !== chargingStationID) {
+          throw new BackendError({
+            source: chargingStationID,
+            action: ServerAction.WS_CONNECTION,
+            module: MODULE_NAME, method: 'checkChargingStationOcppSecurity',
+            message: 'Missing or invalid client certificate, connection refused',
+            detailedMessages: { ...detailedMessages, certificate }
+          });
+        }
+        break;
+      }
+    }
+  }
+
   public static async processTransactionRoaming(tenant: Tenant, transaction: Transaction,
       chargingStation: ChargingStation, tag: Tag, transactionAction: TransactionAction): Promise<void> {
     try {
@@ -221,8 +281,10 @@ export default class OCPPUtils {
   public static async processTransactionPricing(tenant: Tenant, transaction: Transaction, chargingStation: ChargingStation,
       consumption: Consumption, action: TransactionAction): Promise<void> {
     let pricedConsumption: PricedConsumption;
-    // Get the pricing impl
-    const pricingImpl = await PricingFactory.getPricingImpl(tenant);
+    // The connector's status tells whether the car is idle
+    const connectorStatus = Utils.getConnectorFromID(chargingStation, transaction.connectorId)?.status;
+    // Get the pricing impl (the tariff of the location is only resolved at start, then kept in the transaction)
+    const pricingImpl = await PricingFactory.getPricingImpl(tenant, action === TransactionAction.START ? chargingStation : null);
     if (pricingImpl) {
       switch (action) {
         // Start Transaction
@@ -257,7 +319,7 @@ export default class OCPPUtils {
         // Meter Values
         case TransactionAction.UPDATE:
           // Set
-          pricedConsumption = await pricingImpl.updateSession(transaction, consumption);
+          pricedConsumption = await pricingImpl.updateSession(transaction, consumption, connectorStatus);
           if (pricedConsumption) {
             // Update consumption
             consumption.amount = pricedConsumption.amount;
@@ -271,7 +333,7 @@ export default class OCPPUtils {
         // Stop Transaction
         case TransactionAction.STOP:
           // Set
-          pricedConsumption = await pricingImpl.stopSession(transaction, consumption);
+          pricedConsumption = await pricingImpl.stopSession(transaction, consumption, connectorStatus);
           if (pricedConsumption) {
             // Update consumption
             consumption.amount = pricedConsumption.amount;
@@ -302,6 +364,7 @@ export default class OCPPUtils {
             // Update
             transaction.billingData = {
               withBillingActive: billingDataTransactionStart.withBillingActive,
+              withWallet: billingDataTransactionStart.withWallet,
               lastUpdate: new Date()
             };
           } catch (error) {
@@ -328,10 +391,15 @@ export default class OCPPUtils {
         case TransactionAction.UPDATE:
           try {
             // Delegate
-            await billingImpl.updateTransaction(transaction);
+            const billingDataUpdate: BillingDataTransactionUpdate = await billingImpl.updateTransaction(transaction);
             // Update
             if (transaction.billingData) {
               transaction.billingData.lastUpdate = new Date();
+              // The prepaid wallet cannot pay for more energy: retried on the next Meter Values until the stop is accepted
+              if (billingDataUpdate.walletBalanceExhausted && !transaction.billingData.walletBalanceExhausted) {
+                // Do not hold the Meter Values response while the Charging Station handles the stop
+                void OCPPUtils.remoteStopTransactionWithExhaustedWallet(tenant, transaction);
+              }
             }
           } catch (error) {
             const message = `Billing - updateTransaction failed - transaction ID '${transaction.id}'`;
@@ -1799,6 +1867,287 @@ export default class OCPPUtils {
     return result;
   }
 
+  public static async requestChargingStationMessageTrigger(tenant: Tenant, chargingStation: ChargingStation,
+      params: OCPPTriggerMessageCommandParam): Promise<OCPPTriggerMessageCommandResult> {
+    // Get the OCPP Client
+    const chargingStationClient = await ChargingStationClientFactory.getChargingStationClient(tenant, chargingStation);
+    if (!chargingStationClient) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action: ServerAction.CHARGING_STATION_TRIGGER_MESSAGE,
+        module: MODULE_NAME, method: 'requestChargingStationMessageTrigger',
+        message: 'Charging Station is not connected to the backend',
+      });
+    }
+    // Trigger the message
+    const result = await chargingStationClient.triggerMessage(params);
+    // Return
+    return result;
+  }
+
+  public static async requestChargingStationCertificateSigned(tenant: Tenant, chargingStation: ChargingStation,
+      params: OCPPCertificateSignedCommandParam): Promise<OCPPCertificateSignedCommandResult> {
+    // Get the OCPP Client
+    const chargingStationClient = await ChargingStationClientFactory.getChargingStationClient(tenant, chargingStation);
+    if (!chargingStationClient) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action: ServerAction.CHARGING_STATION_CERTIFICATE_SIGNED,
+        module: MODULE_NAME, method: 'requestChargingStationCertificateSigned',
+        message: 'Charging Station is not connected to the backend',
+      });
+    }
+    // Send the certificate chain
+    const result = await chargingStationClient.certificateSigned(params);
+    // Return
+    return result;
+  }
+
+  public static async reserveChargingStationConnector(tenant: Tenant, chargingStation: ChargingStation,
+      reservation: Reservation, action: ServerAction): Promise<OCPPReserveNowCommandResult> {
+    // Get the OCPP Client
+    const chargingStationClient = await ChargingStationClientFactory.getChargingStationClient(tenant, chargingStation);
+    if (!chargingStationClient) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action,
+        module: MODULE_NAME, method: 'reserveChargingStationConnector',
+        message: 'Charging Station is not connected to the backend',
+      });
+    }
+    // Generate the Reservation ID sent to the Charging Station
+    if (!reservation.id) {
+      reservation.id = await ReservationStorage.findAvailableID(tenant.id);
+    }
+    const params: OCPPReserveNowCommandParam = {
+      connectorId: reservation.connectorId,
+      expiryDate: reservation.expiryDate,
+      idTag: reservation.tagID,
+      reservationId: reservation.id,
+    };
+    if (reservation.parentTagID) {
+      params.parentIdTag = reservation.parentTagID;
+    }
+    // Reserve the connector
+    const result = await chargingStationClient.reserveNow(params);
+    if (result.status !== OCPPReservationStatus.ACCEPTED) {
+      await Logging.logWarning({
+        tenantID: tenant.id,
+        source: chargingStation.id,
+        action,
+        module: MODULE_NAME, method: 'reserveChargingStationConnector',
+        message: `Connector ID '${reservation.connectorId}' > Reservation has been refused with status '${result.status}'`,
+        detailedMessages: { reservation, result }
+      });
+      return result;
+    }
+    // Save the Reservation
+    reservation.status = ReservationStatus.ACTIVE;
+    await ReservationStorage.saveReservation(tenant.id, reservation);
+    await Logging.logInfo({
+      tenantID: tenant.id,
+      source: chargingStation.id,
+      action,
+      user: reservation.userID,
+      module: MODULE_NAME, method: 'reserveChargingStationConnector',
+      message: `Connector ID '${reservation.connectorId}' > Reservation ID '${reservation.id}' has been accepted until ${moment(reservation.expiryDate).format()}`,
+      detailedMessages: { reservation }
+    });
+    return result;
+  }
+
+  public static async cancelChargingStationReservation(tenant: Tenant, chargingStation: ChargingStation,
+      reservation: Reservation, action: ServerAction): Promise<OCPPCancelReservationCommandResult> {
+    // Get the OCPP Client
+    const chargingStationClient = await ChargingStationClientFactory.getChargingStationClient(tenant, chargingStation);
+    if (!chargingStationClient) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action,
+        module: MODULE_NAME, method: 'cancelChargingStationReservation',
+        message: 'Charging Station is not connected to the backend',
+      });
+    }
+    // Cancel the reservation
+    const result = await chargingStationClient.cancelReservation({ reservationId: reservation.id });
+    if (result.status !== OCPPCancelReservationStatus.ACCEPTED) {
+      await Logging.logWarning({
+        tenantID: tenant.id,
+        source: chargingStation.id,
+        action,
+        module: MODULE_NAME, method: 'cancelChargingStationReservation',
+        message: `Connector ID '${reservation.connectorId}' > Cancellation of Reservation ID '${reservation.id}' has been refused`,
+        detailedMessages: { reservation, result }
+      });
+      return result;
+    }
+    // Update the Reservation
+    reservation.status = ReservationStatus.CANCELLED;
+    reservation.cancelledOn = new Date();
+    await ReservationStorage.saveReservationStatus(tenant.id, reservation.id, reservation.status,
+      { cancelledOn: reservation.cancelledOn });
+    await Logging.logInfo({
+      tenantID: tenant.id,
+      source: chargingStation.id,
+      action,
+      user: reservation.userID,
+      module: MODULE_NAME, method: 'cancelChargingStationReservation',
+      message: `Connector ID '${reservation.connectorId}' > Reservation ID '${reservation.id}' has been cancelled`,
+      detailedMessages: { reservation }
+    });
+    return result;
+  }
+
+  public static async synchronizeLocalAuthorizationLists(tenant: Tenant, forceFullUpdate = false): Promise<ActionsResponse> {
+    const result: ActionsResponse = {
+      inSuccess: 0,
+      inError: 0
+    };
+    // Get the Charging Stations of the tenant
+    const chargingStations = await ChargingStationStorage.getChargingStations(tenant.id, {
+      issuer: true
+    }, Constants.DB_PARAMS_MAX_LIMIT);
+    for (const chargingStation of chargingStations.result) {
+      // Only connected Charging Stations can receive the list
+      if (chargingStation.inactive) {
+        continue;
+      }
+      try {
+        // Only the Charging Stations with the Local Authorization List enabled
+        const localListConfiguration = await OCPPUtils.getLocalAuthorizationListConfiguration(tenant, chargingStation);
+        if (!localListConfiguration.enabled) {
+          continue;
+        }
+        const sendLocalListResult = await OCPPUtils.synchronizeChargingStationLocalAuthorizationList(
+          tenant, chargingStation, forceFullUpdate, localListConfiguration);
+        if (sendLocalListResult?.status === OCPPUpdateStatus.ACCEPTED) {
+          result.inSuccess++;
+        } else if (sendLocalListResult) {
+          result.inError++;
+        }
+      } catch (error) {
+        result.inError++;
+        await Logging.logError({
+          tenantID: tenant.id,
+          source: chargingStation.id,
+          action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+          module: MODULE_NAME, method: 'synchronizeLocalAuthorizationLists',
+          message: `Error while synchronizing the Local Authorization List: ${error.message as string}`,
+          detailedMessages: { error: error.stack }
+        });
+      }
+    }
+    return result;
+  }
+
+  public static async synchronizeChargingStationLocalAuthorizationList(tenant: Tenant, chargingStation: ChargingStation,
+      forceFullUpdate = false, localListConfiguration?: LocalAuthorizationListConfiguration): Promise<OCPPSendLocalListCommandResult> {
+    // Check the Charging Station's configuration
+    if (!localListConfiguration) {
+      localListConfiguration = await OCPPUtils.getLocalAuthorizationListConfiguration(tenant, chargingStation);
+    }
+    if (!localListConfiguration.enabled) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+        module: MODULE_NAME, method: 'synchronizeChargingStationLocalAuthorizationList',
+        message: 'Local Authorization List is not enabled in the Charging Station\'s configuration',
+      });
+    }
+    // Build the list of authorized Tags
+    let tagIDs = await OCPPUtils.buildChargingStationLocalAuthorizationList(tenant, chargingStation);
+    if (localListConfiguration.maxLength && tagIDs.length > localListConfiguration.maxLength) {
+      await Logging.logWarning({
+        tenantID: tenant.id,
+        source: chargingStation.id,
+        action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+        module: MODULE_NAME, method: 'synchronizeChargingStationLocalAuthorizationList',
+        message: `Local Authorization List has been truncated from ${tagIDs.length} to ${localListConfiguration.maxLength} Tag(s)`,
+      });
+      tagIDs = tagIDs.slice(0, localListConfiguration.maxLength);
+    }
+    const currentLocalList = chargingStation.localAuthorizationList;
+    // Nothing changed since the last accepted update?
+    if (!forceFullUpdate && currentLocalList?.status === OCPPUpdateStatus.ACCEPTED &&
+        _.isEmpty(_.xor(currentLocalList.tagIDs, tagIDs))) {
+      return null;
+    }
+    // Get the OCPP Client
+    const chargingStationClient = await ChargingStationClientFactory.getChargingStationClient(tenant, chargingStation);
+    if (!chargingStationClient) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+        module: MODULE_NAME, method: 'synchronizeChargingStationLocalAuthorizationList',
+        message: 'Charging Station is not connected to the backend',
+      });
+    }
+    const params: OCPPSendLocalListCommandParam = {
+      listVersion: currentLocalList?.listVersion ?? 0,
+      updateType: OCPPUpdateType.FULL,
+    };
+    // Only send the changes if the Charging Station has the previous version
+    if (!forceFullUpdate && currentLocalList?.status === OCPPUpdateStatus.ACCEPTED) {
+      params.updateType = OCPPUpdateType.DIFFERENTIAL;
+      params.localAuthorizationList = [
+        // Added Tags
+        ..._.difference(tagIDs, currentLocalList.tagIDs).map((tagID) => ({
+          idTag: tagID,
+          idTagInfo: { status: OCPPAuthorizationStatus.ACCEPTED }
+        })),
+        // Removed Tags have no idTagInfo
+        ..._.difference(currentLocalList.tagIDs, tagIDs).map((tagID) => ({ idTag: tagID })),
+      ];
+    } else {
+      params.localAuthorizationList = tagIDs.map((tagID) => ({
+        idTag: tagID,
+        idTagInfo: { status: OCPPAuthorizationStatus.ACCEPTED }
+      }));
+    }
+    // Send the list
+    let { result, listVersion } = await OCPPUtils.sendChargingStationLocalList(chargingStationClient, params,
+      localListConfiguration.sendMaxLength);
+    // Charging Station has another version: resend the full list
+    if (result.status === OCPPUpdateStatus.VERSION_MISMATCH && params.updateType === OCPPUpdateType.DIFFERENTIAL) {
+      params.updateType = OCPPUpdateType.FULL;
+      params.localAuthorizationList = tagIDs.map((tagID) => ({
+        idTag: tagID,
+        idTagInfo: { status: OCPPAuthorizationStatus.ACCEPTED }
+      }));
+      ({ result, listVersion } = await OCPPUtils.sendChargingStationLocalList(chargingStationClient, params,
+        localListConfiguration.sendMaxLength));
+    }
+    // Save the state of the list (a partially sent list is fully resent next time)
+    const localAuthorizationList: LocalAuthorizationList = {
+      listVersion,
+      tagIDs: result.status === OCPPUpdateStatus.ACCEPTED ? tagIDs : (currentLocalList?.tagIDs ?? []),
+      status: result.status,
+      lastUpdatedOn: new Date()
+    };
+    await ChargingStationStorage.saveChargingStationLocalAuthorizationList(tenant.id, chargingStation.id, localAuthorizationList);
+    chargingStation.localAuthorizationList = localAuthorizationList;
+    if (result.status !== OCPPUpdateStatus.ACCEPTED) {
+      await Logging.logWarning({
+        tenantID: tenant.id,
+        source: chargingStation.id,
+        action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+        module: MODULE_NAME, method: 'synchronizeChargingStationLocalAuthorizationList',
+        message: `${params.updateType} Local Authorization List version ${listVersion + 1} has been refused with status '${result.status}'`,
+        detailedMessages: { params, result }
+      });
+      return result;
+    }
+    await Logging.logInfo({
+      tenantID: tenant.id,
+      source: chargingStation.id,
+      action: ServerAction.CHARGING_STATION_SEND_LOCAL_LIST,
+      module: MODULE_NAME, method: 'synchronizeChargingStationLocalAuthorizationList',
+      message: `${params.updateType} Local Authorization List version ${listVersion} with ${tagIDs.length} Tag(s) has been accepted`,
+      detailedMessages: { params, result }
+    });
+    return result;
+  }
+
   public static clearChargingStationConnector(chargingStation: ChargingStation, connectorID: number): void {
     // Cleanup connector transaction data
     const foundConnector = Utils.getConnectorFromID(chargingStation, connectorID);
@@ -1875,6 +2224,62 @@ export default class OCPPUtils {
     return false;
   }
 
+  private static async remoteStopTransactionWithExhaustedWallet(tenant: Tenant, transaction: Transaction): Promise<void> {
+    // Get the OCPP Client
+    let chargingStationClient: ChargingStationClient;
+    try {
+      const chargingStation = await ChargingStationStorage.getChargingStation(tenant.id, transaction.chargeBoxID);
+      chargingStationClient = chargingStation ? await ChargingStationClientFactory.getChargingStationClient(tenant, chargingStation) : null;
+    } catch (error) {
+      await Logging.logActionExceptionMessage(tenant.id, ServerAction.BILLING_TRANSACTION, error);
+      return;
+    }
+    if (!chargingStationClient) {
+      await Logging.logWarning({
+        tenantID: tenant.id,
+        source: transaction.chargeBoxID,
+        user: transaction.userID,
+        module: MODULE_NAME, method: 'remoteStopTransactionWithExhaustedWallet',
+        action: ServerAction.BILLING_TRANSACTION,
+        message: `${Utils.buildConnectorInfo(transaction.connectorId, transaction.id)} Charging Station is not connected to the backend, cannot stop the Transaction with an exhausted wallet`
+      });
+      return;
+    }
+    // Send Remote Stop
+    let result: OCPPRemoteStopTransactionCommandResult;
+    try {
+      result = await chargingStationClient.remoteStopTransaction({
+        transactionId: transaction.id
+      });
+      // Not sent again on the next Meter Values
+      if (result.status === OCPPRemoteStartStopStatus.ACCEPTED) {
+        await TransactionStorage.saveTransactionWalletBalanceExhausted(tenant.id, transaction.id);
+      }
+    } catch (error) {
+      await Logging.logActionExceptionMessage(tenant.id, ServerAction.BILLING_TRANSACTION, error);
+      return;
+    }
+    if (result.status === OCPPRemoteStartStopStatus.ACCEPTED) {
+      await Logging.logInfo({
+        tenantID: tenant.id,
+        source: transaction.chargeBoxID,
+        user: transaction.userID,
+        module: MODULE_NAME, method: 'remoteStopTransactionWithExhaustedWallet',
+        action: ServerAction.BILLING_TRANSACTION,
+        message: `${Utils.buildConnectorInfo(transaction.connectorId, transaction.id)} Transaction has been remotely stopped as the wallet balance is exhausted`
+      });
+      return;
+    }
+    await Logging.logWarning({
+      tenantID: tenant.id,
+      source: transaction.chargeBoxID,
+      user: transaction.userID,
+      module: MODULE_NAME, method: 'remoteStopTransactionWithExhaustedWallet',
+      action: ServerAction.BILLING_TRANSACTION,
+      message: `${Utils.buildConnectorInfo(transaction.connectorId, transaction.id)} Cannot remotely stop the Transaction with an exhausted wallet`
+    });
+  }
+
   private static async enrichChargingStationWithTemplate(tenant: Tenant, chargingStation: ChargingStation): Promise<TemplateUpdateResult> {
     const templateUpdate: TemplateUpdate = {
       chargingStationUpdate: false,
@@ -2320,4 +2725,49 @@ export default class OCPPUtils {
         break;
     }
   }
+
+  private static async getLocalAuthorizationListConfiguration(tenant: Tenant,
+      chargingStation: ChargingStation): Promise<LocalAuthorizationListConfiguration> {
+    // Configuration retrieved from the Charging Station
+    const ocppParameters = await ChargingStationStorage.getOcppParameters(tenant.id, chargingStation.id);
+    const getOcppParameterValue = (key: string): string =>
+      ocppParameters.result.find((ocppParameter) => ocppParameter.key === key)?.value;
+    return {
+      enabled: Utils.convertToBoolean(getOcppParameterValue('LocalAuthListEnabled')),
+      maxLength: Utils.convertToInt(getOcppParameterValue('LocalAuthListMaxLength')),
+      sendMaxLength: Utils.convertToInt(getOcppParameterValue('SendLocalListMaxLength')),
+    };
+  }
+
+  private static async sendChargingStationLocalList(chargingStationClient: ChargingStationClient, params: OCPPSendLocalListCommandParam,
+      sendMaxLength: number): Promise<{ result: OCPPSendLocalListCommandResult; listVersion: number }> {
+    const localAuthorizationList = params.localAuthorizationList ?? [];
+    const chunkSize = sendMaxLength > 0 ? sendMaxLength : Math.max(localAuthorizationList.length, 1);
+    let listVersion = params.listVersion;
+    let result: OCPPSendLocalListCommandResult;
+    // Lists longer than the Charging Station's limit are sent in several messages, the next ones being differential
+    for (let i = 0; i === 0 || i < localAuthorizationList.length; i += chunkSize) {
+      result = await chargingStationClient.sendLocalList({
+        listVersion: listVersion + 1,
+        updateType: i === 0 ? params.updateType : OCPPUpdateType.DIFFERENTIAL,
+        localAuthorizationList: localAuthorizationList.slice(i, i + chunkSize),
+      });
+      if (result.status !== OCPPUpdateStatus.ACCEPTED) {
+        break;
+      }
+      listVersion++;
+    }
+    return { result, listVersion };
+  }
+
+  private static async buildChargingStationLocalAuthorizationList(tenant: Tenant, chargingStation: ChargingStation): Promise<string[]> {
+    // Only the Users assigned to the Site of the Charging Station
+    if (!Utils.isTenantComponentActive(tenant, TenantComponents.ORGANIZATION) || !chargingStation.siteID) {
+      return [];
+    }
+    const tags = await TagStorage.getTags(tenant.id, {
+      issuer: true, active: true, withUser: true, siteIDs: [chargingStation.siteID]
+    }, Constants.DB_PARAMS_MAX_LIMIT, ['id', 'user.status']);
+    return tags.result.filter((tag) => tag.user?.status === UserStatus.ACTIVE).map((tag) => tag.id).sort();
+  }
 }
@@ -1,4 +1,5 @@
-import { OCPPAuthorizeRequestExtended, OCPPBootNotificationRequestExtended, OCPPDataTransferRequestExtended, OCPPDiagnosticsStatusNotificationRequestExtended, OCPPFirmwareStatusNotificationRequestExtended, OCPPHeartbeatRequestExtended, OCPPMeterValuesRequestExtended, OCPPStartTransactionRequestExtended, OCPPStatusNotificationRequestExtended, OCPPStopTransactionRequestExtended, OCPPVersion } from '../../../types/ocpp/OCPPServer';
+import { OCPP20AuthorizeRequest, OCPP20BootNotificationRequest, OCPP20MeterValuesRequest, OCPP20NotifyReportRequest, OCPP20StatusNotificationRequest, OCPP20TransactionEventRequest } from '../../../types/ocpp/OCPP20Server';
+import { OCPPAuthorizeRequestExtended, OCPPBootNotificationRequestExtended, OCPPDataTransferRequestExtended, OCPPDiagnosticsStatusNotificationRequestExtended, OCPPFirmwareStatusNotificationRequestExtended, OCPPHeartbeatRequestExtended, OCPPMeterValuesRequestExtended, OCPPSecurityEventNotificationRequestExtended, OCPPSignCertificateRequestExtended, OCPPStartTransactionRequestExtended, OCPPStatusNotificationRequestExtended, OCPPStopTransactionRequestExtended, OCPPVersion } from '../../../types/ocpp/OCPPServer';
 
 import BackendError from '../../../exception/BackendError';
 import ChargingStation from '../../../types/ChargingStation';
@@ -21,6 +22,14 @@ export default class OCPPValidation extends SchemaValidator {
   private startTransactionRequest: Schema;
   private stopTransactionRequest16: Schema;
   private stopTransactionRequest15: Schema;
+  private bootNotificationRequest20: Schema;
+  private authorizeRequest20: Schema;
+  private statusNotificationRequest20: Schema;
+  private meterValuesRequest20: Schema;
+  private transactionEventRequest20: Schema;
+  private notifyReportRequest20: Schema;
+  private signCertificateRequest: Schema;
+  private securityEventNotificationRequest: Schema;
 
   private constructor() {
     super('OCPPValidation');
@@ -30,6 +39,14 @@ export default class OCPPValidation extends SchemaValidator {
     this.startTransactionRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/start-transaction-request.json`, 'utf8'));
     this.stopTransactionRequest15 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/stop-transaction-request-15.json`, 'utf8'));
     this.stopTransactionRequest16 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/stop-transaction-request-16.json`, 'utf8'));
+    this.bootNotificationRequest20 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/boot-notification-request-20.json`, 'utf8'));
+    this.authorizeRequest20 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/authorize-request-20.json`, 'utf8'));
+    this.statusNotificationRequest20 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/status-notification-request-20.json`, 'utf8'));
+    this.meterValuesRequest20 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/meter-values-request-20.json`, 'utf8'));
+    this.transactionEventRequest20 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/transaction-event-request-20.json`, 'utf8'));
+    this.notifyReportRequest20 = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/notify-report-request-20.json`, 'utf8'));
+    this.signCertificateRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/sign-certificate-request.json`, 'utf8'));
+    this.securityEventNotificationRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/ocpp/schemas/security-event-notification-request.json`, 'utf8'));
   }
 
   static getInstance(): OCPPValidation {
@@ -82,14 +99,46 @@ export default class OCPPValidation extends SchemaValidator {
   validateDataTransfer(chargingStation: ChargingStation, dataTransfer: OCPPDataTransferRequestExtended): void {
   }
 
+  validateSignCertificate(signCertificate: OCPPSignCertificateRequestExtended): void {
+    this.validate(this.signCertificateRequest, signCertificate);
+  }
+
+  validateSecurityEventNotification(securityEventNotification: OCPPSecurityEventNotificationRequestExtended): void {
+    this.validate(this.securityEventNotificationRequest, securityEventNotification);
+  }
+
   validateStopTransaction(chargingStation: ChargingStation, stopTransaction: OCPPStopTransactionRequestExtended): void {
-    if (chargingStation.ocppVersion === OCPPVersion.VERSION_16) {
+    if (chargingStation.ocppVersion === OCPPVersion.VERSION_16 || chargingStation.ocppVersion === OCPPVersion.VERSION_20) {
       this.validate(this.stopTransactionRequest16, stopTransaction);
     } else {
       this.validate(this.stopTransactionRequest15, stopTransaction);
     }
   }
 
+  validateBootNotification20(bootNotification: OCPP20BootNotificationRequest): void {
+    this.validate(this.bootNotificationRequest20, bootNotification);
+  }
+
+  validateAuthorize20(authorize: OCPP20AuthorizeRequest): void {
+    this.validate(this.authorizeRequest20, authorize);
+  }
+
+  validateStatusNotification20(statusNotification: OCPP20StatusNotificationRequest): void {
+    this.validate(this.statusNotificationRequest20, statusNotification);
+  }
+
+  validateMeterValues20(meterValues: OCPP20MeterValuesRequest): void {
+    this.validate(this.meterValuesRequest20, meterValues);
+  }
+
+  validateTransactionEvent20(transactionEvent: OCPP20TransactionEventRequest): void {
+    this.validate(this.transactionEventRequest20, transactionEvent);
+  }
+
+  validateNotifyReport20(notifyReport: OCPP20NotifyReportRequest): void {
+    this.validate(this.notifyReportRequest20, notifyReport);
+  }
+
   async validateMeterValues(tenantID: string, chargingStation: ChargingStation, meterValues: OCPPMeterValuesRequestExtended): Promise<void> {
     // Always integer
     meterValues.connectorId = Utils.convertToInt(meterValues.connectorId);
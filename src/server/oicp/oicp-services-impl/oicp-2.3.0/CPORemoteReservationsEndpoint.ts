@@ -0,0 +1,170 @@
+// Hubject lets you provide the endpoint in the HBS portal.
+// Endpoint for eRoamingAuthorizeRemoteReservationStart and eRoamingAuthorizeRemoteReservationStop from the eMSP
+
+import { NextFunction, Request, Response } from 'express';
+import { OCPPCancelReservationStatus, OCPPReservationStatus } from '../../../../types/ocpp/OCPPClient';
+import { OICPAuthorizeRemoteReservationStartCpoReceive, OICPAuthorizeRemoteReservationStopCpoReceive } from '../../../../types/oicp/OICPReservation';
+import Reservation, { ReservationStatus } from '../../../../types/Reservation';
+
+import AbstractEndpoint from '../AbstractEndpoint';
+import AbstractOICPService from '../../AbstractOICPService';
+import ChargingStationStorage from '../../../../storage/mongodb/ChargingStationStorage';
+import Logging from '../../../../utils/Logging';
+import OCPPUtils from '../../../ocpp/utils/OCPPUtils';
+import { OICPAcknowledgment } from '../../../../types/oicp/OICPAcknowledgment';
+import { OICPRemoteActionType } from '../../../../types/oicp/OICPRemoteActionType';
+import { OICPSession } from '../../../../types/oicp/OICPSession';
+import OICPUtils from '../../OICPUtils';
+import OICPValidation from '../../validation/OICPValidation';
+import ReservationStorage from '../../../../storage/mongodb/ReservationStorage';
+import { ServerAction } from '../../../../types/Server';
+import Tenant from '../../../../types/Tenant';
+import moment from 'moment';
+
+const EP_IDENTIFIER = 'authorize-remote-reservation';
+const MODULE_NAME = 'CPORemoteReservationsEndpoint';
+
+export default class CPORemoteReservationsEndpoint extends AbstractEndpoint {
+
+  // Create OICP Service
+  constructor(oicpService: AbstractOICPService) {
+    super(oicpService, EP_IDENTIFIER);
+  }
+
+  public async process(req: Request, res: Response, next: NextFunction, tenant: Tenant): Promise<OICPAcknowledgment> {
+    switch (req.method) {
+      case 'POST':
+        // Select action from URL parameters
+        // eslint-disable-next-line no-case-declarations
+        const endpointAction = req.params.endpointAction.toLowerCase();
+        switch (endpointAction) {
+          case OICPRemoteActionType.REMOTE_START:
+            return this.authorizeRemoteReservationStart(req, res, next, tenant);
+          case OICPRemoteActionType.REMOTE_STOP:
+            return this.authorizeRemoteReservationStop(req, res, next, tenant);
+        }
+    }
+  }
+
+  private async authorizeRemoteReservationStart(req: Request, res: Response, next: NextFunction, tenant: Tenant): Promise<OICPAcknowledgment> {
+    const authorizeRemoteReservationStart = req.body as OICPAuthorizeRemoteReservationStartCpoReceive;
+    // Check props
+    OICPValidation.getInstance().validateRemoteReservationStart(authorizeRemoteReservationStart);
+    const evseID = authorizeRemoteReservationStart.EvseID;
+    const session = {} as Partial<OICPSession>;
+    session.id = authorizeRemoteReservationStart.SessionID;
+    session.providerID = authorizeRemoteReservationStart.ProviderID;
+    session.identification = authorizeRemoteReservationStart.Identification;
+    const chargingStationConnector = await OICPUtils.getChargingStationConnectorFromEvseID(tenant, evseID);
+    const connector = chargingStationConnector.connector;
+    const chargingStation = chargingStationConnector.chargingStation;
+    if (!chargingStation) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_START,
+        message: `Charging Station ID '${evseID}' not found`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStart'
+      });
+      return OICPUtils.noSuccess(session, `EVSE for EvseID '${evseID}' not found`);
+    }
+    if (!connector) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_START,
+        message: `Connector for Charging Station ID '${evseID}' not found`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStart'
+      });
+      return OICPUtils.noSuccess(session, `EVSE for EvseID '${evseID}' not found`);
+    }
+    if (!chargingStation.issuer || !chargingStation.public) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_START,
+        message: `Charging Station ID '${evseID}' cannot be used with OICP`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStart'
+      });
+      return OICPUtils.noSuccess(session, `EVSE '${evseID}' cannot be used with OICP`);
+    }
+    // Check if there is already a reservation for this connector
+    const activeReservation = await ReservationStorage.getActiveReservation(tenant.id, chargingStation.id, connector.connectorId);
+    if (activeReservation) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        source: chargingStation.id,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_START,
+        message: `An existing reservation exists for Charging Station '${chargingStation.id}' and Connector ID ${connector.connectorId}`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStart',
+        detailedMessages: { activeReservation }
+      });
+      return OICPUtils.noSuccess(session, `An existing reservation exists for Charging Station '${chargingStation.id}' and Connector ID ${connector.connectorId}`);
+    }
+    const reservation: Reservation = {
+      id: null,
+      chargingStationID: chargingStation.id,
+      connectorId: connector.connectorId,
+      tagID: OICPUtils.convertOICPIdentification2TagID(authorizeRemoteReservationStart.Identification),
+      expiryDate: moment().add(authorizeRemoteReservationStart.Duration, 'minutes').toDate(),
+      status: ReservationStatus.ACTIVE,
+      oicpData: {
+        sessionID: authorizeRemoteReservationStart.SessionID,
+        providerID: authorizeRemoteReservationStart.ProviderID,
+        identification: authorizeRemoteReservationStart.Identification
+      },
+      createdOn: new Date()
+    };
+    // Reserve the connector
+    const result = await OCPPUtils.reserveChargingStationConnector(
+      tenant, chargingStation, reservation, ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_START);
+    if (result?.status === OCPPReservationStatus.ACCEPTED) {
+      return OICPUtils.success(session);
+    }
+    return OICPUtils.noSuccess(session, 'Remote Reservation rejected by Charging Station');
+  }
+
+  private async authorizeRemoteReservationStop(req: Request, res: Response, next: NextFunction, tenant: Tenant): Promise<OICPAcknowledgment> {
+    const authorizeRemoteReservationStop = req.body as OICPAuthorizeRemoteReservationStopCpoReceive;
+    // Check props
+    OICPValidation.getInstance().validateRemoteReservationStop(authorizeRemoteReservationStop);
+    const session = {} as Partial<OICPSession>;
+    session.id = authorizeRemoteReservationStop.SessionID;
+    session.providerID = authorizeRemoteReservationStop.ProviderID;
+    const reservation = await ReservationStorage.getOICPReservationBySessionID(tenant.id, authorizeRemoteReservationStop.SessionID);
+    if (!reservation) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_STOP,
+        message: `OICP Reservation with Session ID '${authorizeRemoteReservationStop.SessionID}' does not exists`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStop'
+      });
+      return OICPUtils.noSuccess(session, `Reservation with OICP Session ID '${authorizeRemoteReservationStop.SessionID}' does not exists`);
+    }
+    if (reservation.status !== ReservationStatus.ACTIVE) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        source: reservation.chargingStationID,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_STOP,
+        message: `OICP Reservation with Session ID '${authorizeRemoteReservationStop.SessionID}' is not active (status is '${reservation.status}')`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStop'
+      });
+      return OICPUtils.noSuccess(session, `Reservation with OICP Session ID '${authorizeRemoteReservationStop.SessionID}' is not active`);
+    }
+    const chargingStation = await ChargingStationStorage.getChargingStation(tenant.id, reservation.chargingStationID);
+    if (!chargingStation) {
+      await Logging.logError({
+        tenantID: tenant.id,
+        source: reservation.chargingStationID,
+        action: ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_STOP,
+        message: `Charging Station '${reservation.chargingStationID}' not found`,
+        module: MODULE_NAME, method: 'authorizeRemoteReservationStop'
+      });
+      return OICPUtils.noSuccess(session, `Charging Station '${reservation.chargingStationID}' not found`);
+    }
+    // Cancel the reservation
+    const result = await OCPPUtils.cancelChargingStationReservation(
+      tenant, chargingStation, reservation, ServerAction.OICP_AUTHORIZE_REMOTE_RESERVATION_STOP);
+    if (result?.status === OCPPCancelReservationStatus.ACCEPTED) {
+      return OICPUtils.success(session);
+    }
+    return OICPUtils.noSuccess(session, 'Remote Reservation cancellation rejected by Charging Station');
+  }
+}
@@ -1,5 +1,6 @@
 import AbstractOICPService from '../../AbstractOICPService';
 import CPORemoteAuthorizationsEndpoint from './CPORemoteAuthorizationsEndpoint';
+import CPORemoteReservationsEndpoint from './CPORemoteReservationsEndpoint';
 import OICPServiceConfiguration from '../../../../types/configuration/OICPServiceConfiguration';
 import { OICPVersion } from '../../../../types/oicp/OICPGeneral';
 
@@ -13,5 +14,6 @@ export default class CPOService extends AbstractOICPService {
 
     // Register Endpoints
     this.registerEndpoint(new CPORemoteAuthorizationsEndpoint(this));
+    this.registerEndpoint(new CPORemoteReservationsEndpoint(this));
   }
 }
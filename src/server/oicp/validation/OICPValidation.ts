@@ -1,3 +1,4 @@
+import { OICPAuthorizeRemoteReservationStartCpoReceive, OICPAuthorizeRemoteReservationStopCpoReceive } from '../../../types/oicp/OICPReservation';
 import { OICPAuthorizeRemoteStartCpoReceive, OICPAuthorizeRemoteStopCpoReceive } from '../../../types/oicp/OICPAuthorize';
 
 import Schema from '../../../types/validator/Schema';
@@ -12,11 +13,15 @@ export default class OICPValidation extends SchemaValidator {
 
   private remoteStartRequest: Schema;
   private remoteStopRequest: Schema;
+  private remoteReservationStartRequest: Schema;
+  private remoteReservationStopRequest: Schema;
 
   private constructor() {
     super('OICPValidation');
     this.remoteStartRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/oicp/schemas/OICPAuthorizeRemoteStartCpoReceive.json`, 'utf8'));
     this.remoteStopRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/oicp/schemas/OICPAuthorizeRemoteStopCpoReceive.json`, 'utf8'));
+    this.remoteReservationStartRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/oicp/schemas/OICPAuthorizeRemoteReservationStartCpoReceive.json`, 'utf8'));
+    this.remoteReservationStopRequest = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/oicp/schemas/OICPAuthorizeRemoteReservationStopCpoReceive.json`, 'utf8'));
   }
 
   public static getInstance(): OICPValidation {
@@ -33,5 +38,12 @@ export default class OICPValidation extends SchemaValidator {
   public validateRemoteStop(remoteStop: OICPAuthorizeRemoteStopCpoReceive): void {
     this.validate(this.remoteStopRequest, remoteStop);
   }
-}
 
+  public validateRemoteReservationStart(remoteReservationStart: OICPAuthorizeRemoteReservationStartCpoReceive): void {
+    this.validate(this.remoteReservationStartRequest, remoteReservationStart);
+  }
+
+  public validateRemoteReservationStop(remoteReservationStop: OICPAuthorizeRemoteReservationStopCpoReceive): void {
+    this.validate(this.remoteReservationStopRequest, remoteReservationStop);
+  }
+}
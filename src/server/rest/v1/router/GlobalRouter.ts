@@ -5,9 +5,11 @@ import AuthRouter from './auth/AuthRouter';
 import AuthService from '../service/AuthService';
 import BillingRouter from './api/BillingRouter';
 import ChargingStationRouter from './api/ChargingStationRouter';
+import EnergyPriceRouter from './api/EnergyPriceRouter';
 import { StatusCodes } from 'http-status-codes';
 import SwaggerRouter from './doc/SwaggerRouter';
 import TagRouter from './api/TagRouter';
+import TariffRouter from './api/TariffRouter';
 import TenantRouter from './api/TenantRouter';
 import TransactionRouter from './api/TransactionRouter';
 import UserRouter from './api/UserRouter';
@@ -45,6 +47,8 @@ export default class GlobalRouter {
         new TransactionRouter().buildRoutes(),
         new UserRouter().buildRoutes(),
         new BillingRouter().buildRoutes(),
+        new TariffRouter().buildRoutes(),
+        new EnergyPriceRouter().buildRoutes(),
       ]);
   }
 
@@ -14,6 +14,7 @@ export default class AssetRouter {
 
   public buildRoutes(): express.Router {
     this.buildRouteCreateAssetConsumption();
+    this.buildRouteAssetBatteryPlan();
     return this.router;
   }
 
@@ -22,4 +23,11 @@ export default class AssetRouter {
       await RouterUtils.handleServerAction(AssetService.handleCreateAssetConsumption.bind(this), ServerAction.ASSET_CONSUMPTION, req, res, next);
     });
   }
+
+  protected buildRouteAssetBatteryPlan(): void {
+    this.router.get(`/${ServerRoute.REST_ASSET_BATTERY_PLAN}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.id;
+      await RouterUtils.handleServerAction(AssetService.handleGetAssetBatteryPlan.bind(this), ServerAction.ASSET_BATTERY_PLAN, req, res, next);
+    });
+  }
 }
@@ -31,11 +31,40 @@ export default class BillingRouter {
     this.buildRouteBillingPaymentMethodAttach();
     this.buildRouteBillingPaymentMethodDetach();
     // -----------------------------------
+    // ROUTES for the prepaid WALLET
+    // -----------------------------------
+    this.buildRouteBillingWalletOperations();
+    this.buildRouteBillingWalletTopUp();
+    // -----------------------------------
     // ROUTES for INVOICES
     // -----------------------------------
     this.buildRouteBillingInvoices();
     this.buildRouteBillingInvoice();
     this.buildRouteBillingInvoiceDownload();
+    this.buildRouteBillingInvoicePay();
+    this.buildRouteBillingInvoiceCreditNote();
+    this.buildRouteBillingInvoiceSessionsExport();
+    // -----------------------------------
+    // ROUTES for BILLING ACCOUNTS
+    // -----------------------------------
+    this.buildRouteBillingAccounts();
+    this.buildRouteBillingAccount();
+    this.buildRouteBillingCreateAccount();
+    this.buildRouteBillingUpdateAccount();
+    this.buildRouteBillingDeleteAccount();
+    this.buildRouteBillingAccountAssignUsers();
+    this.buildRouteBillingAccountUnassignUsers();
+    // -----------------------------------
+    // ROUTES for SUBSCRIPTIONS
+    // -----------------------------------
+    this.buildRouteBillingSubscriptionPlans();
+    this.buildRouteBillingSubscriptionPlan();
+    this.buildRouteBillingCreateSubscriptionPlan();
+    this.buildRouteBillingUpdateSubscriptionPlan();
+    this.buildRouteBillingDeleteSubscriptionPlan();
+    this.buildRouteBillingSubscriptions();
+    this.buildRouteBillingCreateSubscription();
+    this.buildRouteBillingCancelSubscription();
     return this.router;
   }
 
@@ -107,6 +136,22 @@ export default class BillingRouter {
     });
   }
 
+  protected buildRouteBillingWalletOperations(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_WALLET_OPERATIONS}`, (req: Request, res: Response, next: NextFunction) => {
+      // GET {{base_url}}/v1/api/users/5be451dad0685c19bff48856/wallet/operations?Limit=100
+      req.query.userID = req.params.userID;
+      void RouterUtils.handleServerAction(BillingService.handleGetWalletOperations.bind(this), ServerAction.BILLING_WALLET_OPERATIONS, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingWalletTopUp(): void {
+    this.router.post(`/${ServerRoute.REST_BILLING_WALLET_TOP_UP}`, (req: Request, res: Response, next: NextFunction) => {
+      // Top-ups paid outside of the platform are recorded by admins
+      req.body.userID = req.params.userID;
+      void RouterUtils.handleServerAction(BillingService.handleTopUpWallet.bind(this), ServerAction.BILLING_WALLET_TOP_UP, req, res, next);
+    });
+  }
+
   protected buildRouteBillingInvoices(): void {
     this.router.get(`/${ServerRoute.REST_BILLING_INVOICES}`, (req: Request, res: Response, next: NextFunction) => {
       void RouterUtils.handleServerAction(BillingService.handleGetInvoices.bind(this), ServerAction.BILLING_INVOICES, req, res, next);
@@ -128,4 +173,130 @@ export default class BillingRouter {
       void RouterUtils.handleServerAction(BillingService.handleDownloadInvoice.bind(this), ServerAction.BILLING_DOWNLOAD_INVOICE, req, res, next);
     });
   }
+
+  protected buildRouteBillingInvoicePay(): void {
+    this.router.put(`/${ServerRoute.REST_BILLING_PAY_INVOICE}`, (req: Request, res: Response, next: NextFunction) => {
+      // PUT {{base_url}}/v1/api/invoices/606193168f22ac7f02223c8c/pay
+      req.query.ID = req.params.invoiceID;
+      void RouterUtils.handleServerAction(BillingService.handlePayInvoice.bind(this), ServerAction.BILLING_PAY_INVOICE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingInvoiceCreditNote(): void {
+    this.router.post(`/${ServerRoute.REST_BILLING_INVOICE_CREDIT_NOTES}`, (req: Request, res: Response, next: NextFunction) => {
+      // POST {{base_url}}/v1/api/invoices/606193168f22ac7f02223c8c/credit-notes
+      req.body.invoiceID = req.params.invoiceID;
+      void RouterUtils.handleServerAction(BillingService.handleCreateCreditNote.bind(this), ServerAction.BILLING_CREATE_CREDIT_NOTE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingInvoiceSessionsExport(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_INVOICE_SESSIONS_EXPORT}`, (req: Request, res: Response, next: NextFunction) => {
+      // GET {{base_url}}/v1/api/invoices/606193168f22ac7f02223c8c/sessions/export
+      req.query.ID = req.params.invoiceID;
+      void RouterUtils.handleServerAction(BillingService.handleExportInvoiceSessions.bind(this), ServerAction.BILLING_EXPORT_INVOICE_SESSIONS, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingAccounts(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_ACCOUNTS}`, (req: Request, res: Response, next: NextFunction) => {
+      void RouterUtils.handleServerAction(BillingService.handleGetBillingAccounts.bind(this), ServerAction.BILLING_ACCOUNTS, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingAccount(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_ACCOUNT}`, (req: Request, res: Response, next: NextFunction) => {
+      // GET {{base_url}}/v1/api/billing-accounts/606193168f22ac7f02223c8c?WithUsers=true
+      req.query.ID = req.params.billingAccountID;
+      void RouterUtils.handleServerAction(BillingService.handleGetBillingAccount.bind(this), ServerAction.BILLING_ACCOUNT, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingCreateAccount(): void {
+    this.router.post(`/${ServerRoute.REST_BILLING_ACCOUNTS}`, (req: Request, res: Response, next: NextFunction) => {
+      void RouterUtils.handleServerAction(BillingService.handleCreateBillingAccount.bind(this), ServerAction.BILLING_ACCOUNT_CREATE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingUpdateAccount(): void {
+    this.router.put(`/${ServerRoute.REST_BILLING_ACCOUNT}`, (req: Request, res: Response, next: NextFunction) => {
+      req.body.id = req.params.billingAccountID;
+      void RouterUtils.handleServerAction(BillingService.handleUpdateBillingAccount.bind(this), ServerAction.BILLING_ACCOUNT_UPDATE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingDeleteAccount(): void {
+    this.router.delete(`/${ServerRoute.REST_BILLING_ACCOUNT}`, (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.billingAccountID;
+      void RouterUtils.handleServerAction(BillingService.handleDeleteBillingAccount.bind(this), ServerAction.BILLING_ACCOUNT_DELETE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingAccountAssignUsers(): void {
+    this.router.put(`/${ServerRoute.REST_BILLING_ACCOUNT_ASSIGN_USERS}`, (req: Request, res: Response, next: NextFunction) => {
+      // Sessions of the assigned drivers are invoiced to the billing account
+      req.body.billingAccountID = req.params.billingAccountID;
+      void RouterUtils.handleServerAction(BillingService.handleAssignUsersToBillingAccount.bind(this), ServerAction.ADD_USERS_TO_BILLING_ACCOUNT, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingAccountUnassignUsers(): void {
+    this.router.put(`/${ServerRoute.REST_BILLING_ACCOUNT_UNASSIGN_USERS}`, (req: Request, res: Response, next: NextFunction) => {
+      req.body.billingAccountID = req.params.billingAccountID;
+      void RouterUtils.handleServerAction(BillingService.handleAssignUsersToBillingAccount.bind(this), ServerAction.REMOVE_USERS_FROM_BILLING_ACCOUNT, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingSubscriptionPlans(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_SUBSCRIPTION_PLANS}`, (req: Request, res: Response, next: NextFunction) => {
+      void RouterUtils.handleServerAction(BillingService.handleGetSubscriptionPlans.bind(this), ServerAction.BILLING_SUBSCRIPTION_PLANS, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingSubscriptionPlan(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_SUBSCRIPTION_PLAN}`, (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.subscriptionPlanID;
+      void RouterUtils.handleServerAction(BillingService.handleGetSubscriptionPlan.bind(this), ServerAction.BILLING_SUBSCRIPTION_PLAN, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingCreateSubscriptionPlan(): void {
+    this.router.post(`/${ServerRoute.REST_BILLING_SUBSCRIPTION_PLANS}`, (req: Request, res: Response, next: NextFunction) => {
+      void RouterUtils.handleServerAction(BillingService.handleCreateSubscriptionPlan.bind(this), ServerAction.BILLING_SUBSCRIPTION_PLAN_CREATE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingUpdateSubscriptionPlan(): void {
+    this.router.put(`/${ServerRoute.REST_BILLING_SUBSCRIPTION_PLAN}`, (req: Request, res: Response, next: NextFunction) => {
+      req.body.id = req.params.subscriptionPlanID;
+      void RouterUtils.handleServerAction(BillingService.handleUpdateSubscriptionPlan.bind(this), ServerAction.BILLING_SUBSCRIPTION_PLAN_UPDATE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingDeleteSubscriptionPlan(): void {
+    this.router.delete(`/${ServerRoute.REST_BILLING_SUBSCRIPTION_PLAN}`, (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.subscriptionPlanID;
+      void RouterUtils.handleServerAction(BillingService.handleDeleteSubscriptionPlan.bind(this), ServerAction.BILLING_SUBSCRIPTION_PLAN_DELETE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingSubscriptions(): void {
+    this.router.get(`/${ServerRoute.REST_BILLING_SUBSCRIPTIONS}`, (req: Request, res: Response, next: NextFunction) => {
+      void RouterUtils.handleServerAction(BillingService.handleGetSubscriptions.bind(this), ServerAction.BILLING_SUBSCRIPTIONS, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingCreateSubscription(): void {
+    this.router.post(`/${ServerRoute.REST_BILLING_SUBSCRIPTIONS}`, (req: Request, res: Response, next: NextFunction) => {
+      void RouterUtils.handleServerAction(BillingService.handleCreateSubscription.bind(this), ServerAction.BILLING_SUBSCRIPTION_CREATE, req, res, next);
+    });
+  }
+
+  protected buildRouteBillingCancelSubscription(): void {
+    this.router.put(`/${ServerRoute.REST_BILLING_SUBSCRIPTION_CANCEL}`, (req: Request, res: Response, next: NextFunction) => {
+      // PUT {{base_url}}/v1/api/subscriptions/606193168f22ac7f02223c8c/cancel - body: { immediately: true }
+      req.body.subscriptionID = req.params.subscriptionID;
+      void RouterUtils.handleServerAction(BillingService.handleCancelSubscription.bind(this), ServerAction.BILLING_SUBSCRIPTION_CANCEL, req, res, next);
+    });
+  }
 }
@@ -24,6 +24,17 @@ export default class ChargingStationRouter {
     this.buildRouteChargingStationCreateChargingProfile();
     this.buildRouteChargingStationChangeAvailability();
     this.buildRouteChargingStationTransactions();
+    this.buildRouteChargingStationReservations();
+    this.buildRouteChargingStationReserveNow();
+    this.buildRouteChargingStationCancelReservation();
+    this.buildRouteChargingStationLocalList();
+    this.buildRouteChargingStationSendLocalList();
+    this.buildRouteChargingStationTriggerMessage();
+    this.buildRouteChargingStationInstallCertificate();
+    this.buildRouteChargingStationGetInstalledCertificateIds();
+    this.buildRouteChargingStationDeleteCertificate();
+    this.buildRouteChargingStationUpdateSecurityProfile();
+    this.buildRouteChargingStationPriceEstimate();
     this.buildRouteChargingStations();
     this.buildRouteChargingStation();
     this.buildRouteChargingStationDelete();
@@ -45,6 +56,7 @@ export default class ChargingStationRouter {
     this.buildRouteChargingStationLimitPower();
     this.buildRouteChargingStationCheckSmartCharging();
     this.buildRouteChargingStationTriggerSmartCharging();
+    this.buildRouteChargingStationSimulateSmartCharging();
     this.buildRouteChargingStationGetBootNotifications();
     this.buildRouteChargingStationGetStatusNotifications();
     return this.router;
@@ -204,6 +216,85 @@ export default class ChargingStationRouter {
     });
   }
 
+  protected buildRouteChargingStationReservations(): void {
+    this.router.get(`/${ServerRoute.REST_CHARGING_STATIONS_RESERVATIONS}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ChargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleGetChargingStationReservations.bind(this), ServerAction.CHARGING_STATION_RESERVATIONS, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationReserveNow(): void {
+    this.router.post(`/${ServerRoute.REST_CHARGING_STATIONS_RESERVATIONS}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_RESERVE_NOW, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationCancelReservation(): void {
+    this.router.delete(`/${ServerRoute.REST_CHARGING_STATIONS_RESERVATION}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      req.body.args = { ...req.body.args, reservationId: req.params.reservationId };
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_CANCEL_RESERVATION, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationLocalList(): void {
+    this.router.get(`/${ServerRoute.REST_CHARGING_STATIONS_LOCAL_LIST}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ChargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleGetChargingStationLocalList.bind(this), ServerAction.CHARGING_STATION_LOCAL_LIST, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationSendLocalList(): void {
+    this.router.put(`/${ServerRoute.REST_CHARGING_STATIONS_LOCAL_LIST_SEND}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_SEND_LOCAL_LIST, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationTriggerMessage(): void {
+    this.router.put(`/${ServerRoute.REST_CHARGING_STATIONS_TRIGGER}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_TRIGGER_MESSAGE, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationPriceEstimate(): void {
+    this.router.get(`/${ServerRoute.REST_CHARGING_STATIONS_PRICE_ESTIMATE}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ChargingStationID = req.params.id;
+      req.query.ConnectorID = req.params.connectorId;
+      await RouterUtils.handleServerAction(ChargingStationService.handleGetChargingStationPriceEstimate.bind(this), ServerAction.CHARGING_STATION_PRICE_ESTIMATE, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationInstallCertificate(): void {
+    this.router.put(`/${ServerRoute.REST_CHARGING_STATIONS_CERTIFICATE_INSTALL}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_INSTALL_CERTIFICATE, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationGetInstalledCertificateIds(): void {
+    this.router.put(`/${ServerRoute.REST_CHARGING_STATIONS_CERTIFICATES_RETRIEVE}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_GET_INSTALLED_CERTIFICATE_IDS, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationDeleteCertificate(): void {
+    this.router.put(`/${ServerRoute.REST_CHARGING_STATIONS_CERTIFICATE_DELETE}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleAction.bind(this), ServerAction.CHARGING_STATION_DELETE_CERTIFICATE, req, res, next);
+    });
+  }
+
+  protected buildRouteChargingStationUpdateSecurityProfile(): void {
+    this.router.put(`/${ServerRoute.REST_CHARGING_STATIONS_SECURITY_PROFILE}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.body.chargingStationID = req.params.id;
+      await RouterUtils.handleServerAction(ChargingStationService.handleUpdateChargingStationSecurityProfile.bind(this), ServerAction.CHARGING_STATION_UPDATE_SECURITY_PROFILE, req, res, next);
+    });
+  }
+
   protected buildRouteChargingStationsInError(): void {
     this.router.get(`/${ServerRoute.REST_CHARGING_STATIONS_IN_ERROR}`, async (req: Request, res: Response, next: NextFunction) => {
       await RouterUtils.handleServerAction(ChargingStationService.handleGetChargingStationsInError.bind(this), ServerAction.CHARGING_STATIONS_IN_ERROR, req, res, next);
@@ -235,6 +326,12 @@ export default class ChargingStationRouter {
     });
   }
 
+  protected buildRouteChargingStationSimulateSmartCharging(): void {
+    this.router.post(`/${ServerRoute.REST_CHARGING_STATION_SIMULATE_SMART_CHARGING}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(ChargingStationService.handleSimulateSmartCharging.bind(this), ServerAction.SIMULATE_SMART_CHARGING, req, res, next);
+    });
+  }
+
   protected buildRouteChargingStationGetChargingProfiles(): void {
     this.router.get(`/${ServerRoute.REST_CHARGING_PROFILES}`, async (req: Request, res: Response, next: NextFunction) => {
       await RouterUtils.handleServerAction(ChargingStationService.handleGetChargingProfiles.bind(this), ServerAction.CHARGING_PROFILES, req, res, next);
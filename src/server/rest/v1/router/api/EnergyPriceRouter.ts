@@ -0,0 +1,39 @@
+/* eslint-disable @typescript-eslint/no-misused-promises */
+import { ServerAction, ServerRoute } from '../../../../../types/Server';
+import express, { NextFunction, Request, Response } from 'express';
+
+import EnergyPriceService from '../../service/EnergyPriceService';
+import RouterUtils from '../RouterUtils';
+
+export default class EnergyPriceRouter {
+  private router: express.Router;
+
+  public constructor() {
+    this.router = express.Router();
+  }
+
+  public buildRoutes(): express.Router {
+    this.buildRouteEnergyPrices();
+    this.buildRouteImportEnergyPrices();
+    this.buildRouteDeleteEnergyPrices();
+    return this.router;
+  }
+
+  protected buildRouteEnergyPrices(): void {
+    this.router.get(`/${ServerRoute.REST_ENERGY_PRICES}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(EnergyPriceService.handleGetEnergyPrices.bind(this), ServerAction.ENERGY_PRICES, req, res, next);
+    });
+  }
+
+  protected buildRouteImportEnergyPrices(): void {
+    this.router.post(`/${ServerRoute.REST_ENERGY_PRICES_IMPORT}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(EnergyPriceService.handleImportEnergyPrices.bind(this), ServerAction.ENERGY_PRICES_IMPORT, req, res, next);
+    });
+  }
+
+  protected buildRouteDeleteEnergyPrices(): void {
+    this.router.delete(`/${ServerRoute.REST_ENERGY_PRICES}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(EnergyPriceService.handleDeleteEnergyPrices.bind(this), ServerAction.ENERGY_PRICES_DELETE, req, res, next);
+    });
+  }
+}
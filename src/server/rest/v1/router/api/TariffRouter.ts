@@ -0,0 +1,55 @@
+/* eslint-disable @typescript-eslint/no-misused-promises */
+import { ServerAction, ServerRoute } from '../../../../../types/Server';
+import express, { NextFunction, Request, Response } from 'express';
+
+import RouterUtils from '../RouterUtils';
+import TariffService from '../../service/TariffService';
+
+export default class TariffRouter {
+  private router: express.Router;
+
+  public constructor() {
+    this.router = express.Router();
+  }
+
+  public buildRoutes(): express.Router {
+    this.buildRouteTariffs();
+    this.buildRouteTariff();
+    this.buildRouteCreateTariff();
+    this.buildRouteUpdateTariff();
+    this.buildRouteDeleteTariff();
+    return this.router;
+  }
+
+  protected buildRouteTariffs(): void {
+    this.router.get(`/${ServerRoute.REST_TARIFFS}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(TariffService.handleGetTariffs.bind(this), ServerAction.TARIFFS, req, res, next);
+    });
+  }
+
+  protected buildRouteTariff(): void {
+    this.router.get(`/${ServerRoute.REST_TARIFF}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.id;
+      await RouterUtils.handleServerAction(TariffService.handleGetTariff.bind(this), ServerAction.TARIFF, req, res, next);
+    });
+  }
+
+  protected buildRouteCreateTariff(): void {
+    this.router.post(`/${ServerRoute.REST_TARIFFS}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(TariffService.handleCreateTariff.bind(this), ServerAction.TARIFF_CREATE, req, res, next);
+    });
+  }
+
+  protected buildRouteUpdateTariff(): void {
+    this.router.put(`/${ServerRoute.REST_TARIFF}`, async (req: Request, res: Response, next: NextFunction) => {
+      await RouterUtils.handleServerAction(TariffService.handleUpdateTariff.bind(this), ServerAction.TARIFF_UPDATE, req, res, next);
+    });
+  }
+
+  protected buildRouteDeleteTariff(): void {
+    this.router.delete(`/${ServerRoute.REST_TARIFF}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.id;
+      await RouterUtils.handleServerAction(TariffService.handleDeleteTariff.bind(this), ServerAction.TARIFF_DELETE, req, res, next);
+    });
+  }
+}
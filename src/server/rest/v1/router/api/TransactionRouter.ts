@@ -16,6 +16,7 @@ export default class TransactionRouter {
     this.buildRouteTransactions();
     this.buildRouteTransaction();
     this.buildRouteTransactionConsumption();
+    this.buildRouteTransactionChargingPlan();
     return this.router;
   }
 
@@ -38,4 +39,11 @@ export default class TransactionRouter {
       await RouterUtils.handleServerAction(TransactionService.handleGetTransactionConsumption.bind(this), ServerAction.TRANSACTION_CONSUMPTION, req, res, next);
     });
   }
+
+  protected buildRouteTransactionChargingPlan(): void {
+    this.router.get(`/${ServerRoute.REST_TRANSACTION_CHARGING_PLAN}`, async (req: Request, res: Response, next: NextFunction) => {
+      req.query.ID = req.params.id;
+      await RouterUtils.handleServerAction(TransactionService.handleGetTransactionChargingPlan.bind(this), ServerAction.TRANSACTION_CHARGING_PLAN, req, res, next);
+    });
+  }
 }
@@ -442,6 +442,33 @@ export default class AssetService {
     next();
   }
 
+  public static async handleGetAssetBatteryPlan(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.ASSET,
+      Action.READ, Entity.ASSET, MODULE_NAME, 'handleGetAssetBatteryPlan');
+    // Filter
+    const filteredRequest = AssetSecurity.filterAssetRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleGetAssetBatteryPlan', req.user);
+    // Check auth
+    if (!await Authorizations.canReadAsset(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.READ, entity: Entity.ASSET,
+        module: MODULE_NAME, method: 'handleGetAssetBatteryPlan',
+        value: filteredRequest.ID
+      });
+    }
+    // Get it
+    const asset = await AssetStorage.getAsset(req.tenant, filteredRequest.ID, {}, ['id', 'batteryPlan']);
+    UtilsService.assertObjectExists(action, asset, `Asset ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleGetAssetBatteryPlan', req.user);
+    UtilsService.assertObjectExists(action, asset.batteryPlan, `No Battery Plan has been computed for Asset ID '${filteredRequest.ID}'`,
+      MODULE_NAME, 'handleGetAssetBatteryPlan', req.user);
+    res.json(asset.batteryPlan);
+    next();
+  }
+
   public static async handleGetAssetImage(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Filter
     const filteredRequest = AssetSecurity.filterAssetImageRequest(req.query);
@@ -547,6 +574,7 @@ export default class AssetService {
       usesPushAPI: filteredRequest.usesPushAPI,
       connectionID: filteredRequest.connectionID,
       meterID: filteredRequest.meterID,
+      battery: filteredRequest.battery,
       createdBy: { id: req.user.id },
       createdOn: new Date()
     } as Asset;
@@ -621,6 +649,7 @@ export default class AssetService {
     asset.usesPushAPI = filteredRequest.usesPushAPI;
     asset.connectionID = filteredRequest.connectionID;
     asset.meterID = filteredRequest.meterID;
+    asset.battery = filteredRequest.battery;
     asset.lastChangedBy = { 'id': req.user.id };
     asset.lastChangedOn = new Date();
     // Update Asset
@@ -1,5 +1,6 @@
 import { Action, Entity } from '../../../../types/Authorization';
-import { BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingUserSynchronizeAction } from '../../../../types/Billing';
+import { BillingAccount, BillingInvoiceStatus, BillingOperationResult, BillingPaymentMethod, BillingSubscription, BillingSubscriptionPlan, BillingSubscriptionStatus, BillingUserSynchronizeAction } from '../../../../types/Billing';
+import { BillingSettings, BillingSettingsType } from '../../../../types/Setting';
 import { HTTPAuthError, HTTPError } from '../../../../types/HTTPError';
 import { NextFunction, Request, Response } from 'express';
 
@@ -8,7 +9,6 @@ import AppError from '../../../../exception/AppError';
 import Authorizations from '../../../../authorization/Authorizations';
 import BillingFactory from '../../../../integration/billing/BillingFactory';
 import BillingSecurity from './security/BillingSecurity';
-import { BillingSettings } from '../../../../types/Setting';
 import BillingStorage from '../../../../storage/mongodb/BillingStorage';
 import BillingValidator from '../validator/BillingValidator';
 import Constants from '../../../../utils/Constants';
@@ -21,9 +21,13 @@ import SettingStorage from '../../../../storage/mongodb/SettingStorage';
 import { StatusCodes } from 'http-status-codes';
 import TenantComponents from '../../../../types/TenantComponents';
 import TenantStorage from '../../../../storage/mongodb/TenantStorage';
+import Transaction from '../../../../types/Transaction';
+import TransactionStorage from '../../../../storage/mongodb/TransactionStorage';
 import User from '../../../../types/User';
 import UserStorage from '../../../../storage/mongodb/UserStorage';
+import Utils from '../../../../utils/Utils';
 import UtilsService from './UtilsService';
+import moment from 'moment-timezone';
 
 const MODULE_NAME = 'BillingService';
 
@@ -338,6 +342,7 @@ export default class BillingService {
     const invoices = await BillingStorage.getInvoices(req.tenant,
       {
         userIDs: !Authorizations.isAdmin(req.user) ? [req.user.id] : (filteredRequest.UserID ? filteredRequest.UserID.split('|') : null),
+        billingAccountIDs: filteredRequest.BillingAccountID ? filteredRequest.BillingAccountID.split('|') : null,
         invoiceStatus: filteredRequest.Status ? filteredRequest.Status.split('|') as BillingInvoiceStatus[] : null,
         search: filteredRequest.Search ? filteredRequest.Search : null,
         startDateTime: filteredRequest.StartDateTime ? filteredRequest.StartDateTime : null,
@@ -350,8 +355,8 @@ export default class BillingService {
         onlyRecordCount: filteredRequest.OnlyRecordCount
       },
       [
-        'id', 'number', 'status', 'amount', 'createdOn', 'currency', 'downloadable', 'sessions',
-        ...userProject
+        'id', 'number', 'status', 'amount', 'createdOn', 'finalizedOn', 'currency', 'downloadable', 'sessions', 'creditNotes', 'creditedAmount',
+        'billingAccountID', 'billingAccount.name', ...userProject
       ]);
     // Return
     res.json(invoices);
@@ -373,8 +378,8 @@ export default class BillingService {
     // Get invoice
     const invoice = await BillingStorage.getInvoice(req.tenant, filteredRequest.ID,
       [
-        'id', 'number', 'status', 'amount', 'createdOn', 'currency', 'downloadable', 'sessions',
-        ...userProject
+        'id', 'number', 'status', 'amount', 'createdOn', 'finalizedOn', 'currency', 'downloadable', 'sessions', 'creditNotes', 'creditedAmount',
+        'billingAccountID', 'billingAccount.name', ...userProject
       ]);
     UtilsService.assertObjectExists(action, invoice, `Invoice ID '${filteredRequest.ID}' does not exist`, MODULE_NAME, 'handleGetInvoice', req.user);
     // Check auth
@@ -690,6 +695,807 @@ export default class BillingService {
     res.end(buffer, 'binary');
   }
 
+  public static async handlePayInvoice(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.BILLING_PAY_INVOICE, Entity.INVOICE, MODULE_NAME, 'handlePayInvoice');
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetInvoiceRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handlePayInvoice', req.user);
+    // Check Auth
+    if (!await Authorizations.canPayInvoiceBilling(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.INVOICE, action: Action.BILLING_PAY_INVOICE,
+        module: MODULE_NAME, method: 'handlePayInvoice',
+      });
+    }
+    // Get the Invoice
+    const billingInvoice = await BillingStorage.getInvoice(req.tenant, filteredRequest.ID);
+    UtilsService.assertObjectExists(action, billingInvoice, `Invoice ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handlePayInvoice', req.user);
+    // Get the billing impl
+    const billingImpl = await BillingFactory.getBillingImpl(req.tenant);
+    if (!billingImpl) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: 'Billing service is not configured',
+        module: MODULE_NAME, method: 'handlePayInvoice',
+        action: action,
+        user: req.user
+      });
+    }
+    // Payment has been received outside of the platform
+    const invoice = await billingImpl.markInvoiceAsPaid(billingInvoice);
+    res.json(invoice);
+    next();
+  }
+
+  public static async handleCreateCreditNote(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.BILLING_CREATE_CREDIT_NOTE, Entity.INVOICE, MODULE_NAME, 'handleCreateCreditNote');
+    // Filter
+    const filteredRequest = BillingSecurity.filterCreditNoteRequest(req.body);
+    UtilsService.assertIdIsProvided(action, filteredRequest.transactionID, MODULE_NAME, 'handleCreateCreditNote', req.user);
+    // Check Auth
+    if (!await Authorizations.canCreateCreditNoteBilling(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.INVOICE, action: Action.BILLING_CREATE_CREDIT_NOTE,
+        module: MODULE_NAME, method: 'handleCreateCreditNote',
+      });
+    }
+    // Get the Transaction
+    const transaction = await TransactionStorage.getTransaction(req.user.tenantID, filteredRequest.transactionID, { withUser: true });
+    UtilsService.assertObjectExists(action, transaction, `Transaction ID '${filteredRequest.transactionID}' does not exist`,
+      MODULE_NAME, 'handleCreateCreditNote', req.user);
+    // Check the session belongs to the invoice - sessions paid with the wallet have no invoice
+    if ((transaction.billingData?.stop?.invoiceID?.toString() ?? null) !== (filteredRequest.invoiceID || null)) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Transaction ID '${filteredRequest.transactionID}' is not part of the invoice ID '${filteredRequest.invoiceID}'`,
+        module: MODULE_NAME, method: 'handleCreateCreditNote',
+        action: action,
+        user: req.user
+      });
+    }
+    // Get the billing impl
+    const billingImpl = await BillingFactory.getBillingImpl(req.tenant);
+    if (!billingImpl) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: 'Billing service is not configured',
+        module: MODULE_NAME, method: 'handleCreateCreditNote',
+        action: action,
+        user: req.user
+      });
+    }
+    // Refund the session (in full when no amount is provided)
+    const creditNote = await billingImpl.creditTransaction(transaction, filteredRequest.amount,
+      filteredRequest.reason, req.user.id);
+    res.json(creditNote);
+    next();
+  }
+
+  public static async handleExportInvoiceSessions(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.READ, Entity.INVOICE, MODULE_NAME, 'handleExportInvoiceSessions');
+    // Filter
+    const filteredRequest = BillingSecurity.filterExportInvoiceSessionsRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleExportInvoiceSessions', req.user);
+    // Get the Invoice
+    const billingInvoice = await BillingStorage.getInvoice(req.tenant, filteredRequest.ID);
+    UtilsService.assertObjectExists(action, billingInvoice, `Invoice ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleExportInvoiceSessions', req.user);
+    // Check Auth
+    if (!await Authorizations.canReadInvoiceBilling(req.user, billingInvoice.userID)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.INVOICE, action: Action.READ,
+        module: MODULE_NAME, method: 'handleExportInvoiceSessions',
+      });
+    }
+    // Export the sessions of the invoice as an annex
+    await UtilsService.exportToCSV(req, res, `invoice_${billingInvoice.number ?? billingInvoice.id}_sessions.csv`,
+      async (request: Request) => BillingService.getInvoiceSessionsToExport(request, billingInvoice.sessions?.map((session) => session.transactionID) ?? []),
+      BillingService.convertInvoiceSessionsToCSV.bind(this));
+  }
+
+  public static async handleGetWalletOperations(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.READ, Entity.WALLET, MODULE_NAME, 'handleGetWalletOperations');
+    // Filter
+    const filteredRequest = BillingSecurity.filterWalletOperationsRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.userID, MODULE_NAME, 'handleGetWalletOperations', req.user);
+    // Check Auth
+    if (!await Authorizations.canReadWalletBilling(req.user, filteredRequest.userID)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.WALLET, action: Action.READ,
+        module: MODULE_NAME, method: 'handleGetWalletOperations',
+      });
+    }
+    // Get the ledger of the wallet
+    const walletOperations = await BillingStorage.getWalletOperations(req.tenant,
+      {
+        userIDs: [filteredRequest.userID],
+        startDateTime: filteredRequest.StartDateTime ? filteredRequest.StartDateTime : null,
+        endDateTime: filteredRequest.EndDateTime ? filteredRequest.EndDateTime : null,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: filteredRequest.SortFields,
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      [
+        'id', 'type', 'amount', 'currency', 'balance', 'transactionID', 'description', 'createdOn',
+        'createdBy.name', 'createdBy.firstName'
+      ]);
+    // Return
+    res.json(walletOperations);
+    next();
+  }
+
+  public static async handleTopUpWallet(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.BILLING_WALLET_TOP_UP, Entity.WALLET, MODULE_NAME, 'handleTopUpWallet');
+    // Filter
+    const filteredRequest = BillingSecurity.filterWalletTopUpRequest(req.body);
+    UtilsService.assertIdIsProvided(action, filteredRequest.userID, MODULE_NAME, 'handleTopUpWallet', req.user);
+    // Check Auth
+    if (!await Authorizations.canTopUpWalletBilling(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.WALLET, action: Action.BILLING_WALLET_TOP_UP,
+        module: MODULE_NAME, method: 'handleTopUpWallet',
+      });
+    }
+    // Check the amount
+    if (!(filteredRequest.amount > 0) || !filteredRequest.currency) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: 'The top-up amount must be positive and its currency must be provided',
+        module: MODULE_NAME, method: 'handleTopUpWallet',
+        action: action,
+        user: req.user
+      });
+    }
+    // Get user - ACHTUNG user !== req.user
+    const user = await UserStorage.getUser(req.user.tenantID, filteredRequest.userID);
+    UtilsService.assertObjectExists(action, user, `User ID '${filteredRequest.userID}' does not exist`,
+      MODULE_NAME, 'handleTopUpWallet', req.user);
+    // Get the billing impl
+    const billingImpl = await BillingFactory.getBillingImpl(req.tenant);
+    if (!billingImpl) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: 'Billing service is not configured',
+        module: MODULE_NAME, method: 'handleTopUpWallet',
+        action: action,
+        user: req.user
+      });
+    }
+    // Payment has been received outside of the platform
+    const walletOperation = await billingImpl.topUpWallet(user, filteredRequest.amount, filteredRequest.currency,
+      filteredRequest.description, req.user.id);
+    res.json(walletOperation);
+    next();
+  }
+
+  public static async handleGetBillingAccounts(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.LIST, Entity.BILLING_ACCOUNTS, MODULE_NAME, 'handleGetBillingAccounts');
+    // Check Auth
+    if (!await Authorizations.canListBillingAccounts(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.BILLING_ACCOUNTS, action: Action.LIST,
+        module: MODULE_NAME, method: 'handleGetBillingAccounts',
+      });
+    }
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetBillingAccountsRequest(req.query);
+    // Get the billing accounts
+    const billingAccounts = await BillingStorage.getBillingAccounts(req.tenant,
+      {
+        search: filteredRequest.Search ? filteredRequest.Search : null,
+        companyIDs: filteredRequest.CompanyID ? filteredRequest.CompanyID.split('|') : null,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: filteredRequest.SortFields,
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      [
+        'id', 'name', 'email', 'address', 'companyID', 'costCenter', 'createdOn', 'lastChangedOn'
+      ]);
+    // Return
+    res.json(billingAccounts);
+    next();
+  }
+
+  public static async handleGetBillingAccount(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.READ, Entity.BILLING_ACCOUNT, MODULE_NAME, 'handleGetBillingAccount');
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetBillingAccountRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleGetBillingAccount', req.user);
+    // Check Auth
+    if (!await Authorizations.canReadBillingAccount(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.BILLING_ACCOUNT, action: Action.READ,
+        module: MODULE_NAME, method: 'handleGetBillingAccount',
+        value: filteredRequest.ID
+      });
+    }
+    // Get the billing account
+    const billingAccount = await BillingStorage.getBillingAccount(req.tenant, filteredRequest.ID,
+      { withUsers: filteredRequest.WithUsers },
+      [
+        'id', 'name', 'email', 'address', 'companyID', 'costCenter', 'createdOn', 'lastChangedOn',
+        'users.id', 'users.name', 'users.firstName', 'users.email', 'users.costCenter'
+      ]);
+    UtilsService.assertObjectExists(action, billingAccount, `Billing Account ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleGetBillingAccount', req.user);
+    // Return
+    res.json(billingAccount);
+    next();
+  }
+
+  public static async handleCreateBillingAccount(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.CREATE, Entity.BILLING_ACCOUNT, MODULE_NAME, 'handleCreateBillingAccount');
+    // Check Auth
+    if (!await Authorizations.canCreateBillingAccount(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.BILLING_ACCOUNT, action: Action.CREATE,
+        module: MODULE_NAME, method: 'handleCreateBillingAccount',
+      });
+    }
+    // Filter
+    const filteredRequest = BillingValidator.getInstance().validateCreateBillingAccount(req.body);
+    const billingAccount: BillingAccount = {
+      ...filteredRequest,
+      id: null,
+      createdBy: { id: req.user.id },
+      createdOn: new Date()
+    };
+    // Save
+    billingAccount.id = await BillingStorage.saveBillingAccount(req.tenant, billingAccount);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, module: MODULE_NAME, method: 'handleCreateBillingAccount',
+      message: `Billing Account '${billingAccount.name}' has been created successfully`,
+      action: action,
+      detailedMessages: { billingAccount }
+    });
+    res.json(Object.assign({ id: billingAccount.id }, Constants.REST_RESPONSE_SUCCESS));
+    next();
+  }
+
+  public static async handleUpdateBillingAccount(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.UPDATE, Entity.BILLING_ACCOUNT, MODULE_NAME, 'handleUpdateBillingAccount');
+    // Filter
+    const filteredRequest = BillingValidator.getInstance().validateUpdateBillingAccount(req.body);
+    // Check Auth
+    if (!await Authorizations.canUpdateBillingAccount(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.BILLING_ACCOUNT, action: Action.UPDATE,
+        module: MODULE_NAME, method: 'handleUpdateBillingAccount',
+        value: filteredRequest.id
+      });
+    }
+    // Get the billing account
+    const billingAccount = await BillingStorage.getBillingAccount(req.tenant, filteredRequest.id);
+    UtilsService.assertObjectExists(action, billingAccount, `Billing Account ID '${filteredRequest.id}' does not exist`,
+      MODULE_NAME, 'handleUpdateBillingAccount', req.user);
+    // Update
+    billingAccount.name = filteredRequest.name;
+    billingAccount.email = filteredRequest.email;
+    billingAccount.address = filteredRequest.address;
+    billingAccount.companyID = filteredRequest.companyID;
+    billingAccount.costCenter = filteredRequest.costCenter;
+    billingAccount.lastChangedBy = { id: req.user.id };
+    billingAccount.lastChangedOn = new Date();
+    // Save
+    await BillingStorage.saveBillingAccount(req.tenant, billingAccount);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, module: MODULE_NAME, method: 'handleUpdateBillingAccount',
+      message: `Billing Account '${billingAccount.name}' has been updated successfully`,
+      action: action,
+      detailedMessages: { billingAccount }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  public static async handleDeleteBillingAccount(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.DELETE, Entity.BILLING_ACCOUNT, MODULE_NAME, 'handleDeleteBillingAccount');
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetBillingAccountRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleDeleteBillingAccount', req.user);
+    // Check Auth
+    if (!await Authorizations.canDeleteBillingAccount(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.BILLING_ACCOUNT, action: Action.DELETE,
+        module: MODULE_NAME, method: 'handleDeleteBillingAccount',
+        value: filteredRequest.ID
+      });
+    }
+    // Get the billing account
+    const billingAccount = await BillingStorage.getBillingAccount(req.tenant, filteredRequest.ID);
+    UtilsService.assertObjectExists(action, billingAccount, `Billing Account ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleDeleteBillingAccount', req.user);
+    // Drivers are billed individually again
+    await UserStorage.removeBillingAccountFromUsers(req.user.tenantID, billingAccount.id);
+    // Delete
+    await BillingStorage.deleteBillingAccount(req.tenant, billingAccount.id);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, module: MODULE_NAME, method: 'handleDeleteBillingAccount',
+      message: `Billing Account '${billingAccount.name}' has been deleted successfully`,
+      action: action,
+      detailedMessages: { billingAccount }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  public static async handleAssignUsersToBillingAccount(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    const authAction = action === ServerAction.ADD_USERS_TO_BILLING_ACCOUNT ?
+      Action.ASSIGN_USERS_TO_BILLING_ACCOUNT : Action.UNASSIGN_USERS_TO_BILLING_ACCOUNT;
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      authAction, Entity.BILLING_ACCOUNT, MODULE_NAME, 'handleAssignUsersToBillingAccount');
+    // Filter
+    const filteredRequest = BillingSecurity.filterAssignUsersToBillingAccountRequest(req.body);
+    UtilsService.assertIdIsProvided(action, filteredRequest.billingAccountID, MODULE_NAME, 'handleAssignUsersToBillingAccount', req.user);
+    if (Utils.isEmptyArray(filteredRequest.userIDs)) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: 'The User\'s IDs must be provided',
+        module: MODULE_NAME, method: 'handleAssignUsersToBillingAccount',
+        action: action,
+        user: req.user
+      });
+    }
+    // Check Auth
+    if (!await (action === ServerAction.ADD_USERS_TO_BILLING_ACCOUNT ?
+      Authorizations.canAssignUsersToBillingAccount(req.user) : Authorizations.canUnassignUsersFromBillingAccount(req.user))) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.BILLING_ACCOUNT, action: authAction,
+        module: MODULE_NAME, method: 'handleAssignUsersToBillingAccount',
+        value: filteredRequest.billingAccountID
+      });
+    }
+    // Get the billing account
+    const billingAccount = await BillingStorage.getBillingAccount(req.tenant, filteredRequest.billingAccountID);
+    UtilsService.assertObjectExists(action, billingAccount, `Billing Account ID '${filteredRequest.billingAccountID}' does not exist`,
+      MODULE_NAME, 'handleAssignUsersToBillingAccount', req.user);
+    // Get the users
+    const users = await UserStorage.getUsers(req.user.tenantID, { userIDs: filteredRequest.userIDs }, Constants.DB_PARAMS_MAX_LIMIT, ['id']);
+    // Save
+    if (action === ServerAction.ADD_USERS_TO_BILLING_ACCOUNT) {
+      await UserStorage.saveUsersBillingAccount(req.user.tenantID, users.result.map((user) => user.id), billingAccount.id);
+    } else {
+      await UserStorage.saveUsersBillingAccount(req.user.tenantID, users.result.map((user) => user.id), null);
+    }
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleAssignUsersToBillingAccount',
+      message: `Users of the Billing Account '${billingAccount.name}' have been ${action === ServerAction.ADD_USERS_TO_BILLING_ACCOUNT ? 'assigned' : 'unassigned'} successfully`,
+      action: action,
+      detailedMessages: { userIDs: users.result.map((user) => user.id) }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  public static async handleGetSubscriptionPlans(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.LIST, Entity.SUBSCRIPTION_PLANS, MODULE_NAME, 'handleGetSubscriptionPlans');
+    // Check Auth
+    if (!await Authorizations.canListSubscriptionPlans(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION_PLANS, action: Action.LIST,
+        module: MODULE_NAME, method: 'handleGetSubscriptionPlans',
+      });
+    }
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetSubscriptionPlansRequest(req.query);
+    // Get the plans - users can only see the plans they can subscribe to
+    const subscriptionPlans = await BillingStorage.getSubscriptionPlans(req.tenant,
+      {
+        search: filteredRequest.Search ? filteredRequest.Search : null,
+        active: !Authorizations.isAdmin(req.user) ? true : filteredRequest.Active,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: filteredRequest.SortFields,
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      [
+        'id', 'name', 'description', 'active', 'currency', 'fee', 'includedEnergyKWh', 'energyPrice', 'energyDiscountPercent',
+        'createdOn', 'lastChangedOn'
+      ]);
+    // Return
+    res.json(subscriptionPlans);
+    next();
+  }
+
+  public static async handleGetSubscriptionPlan(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.READ, Entity.SUBSCRIPTION_PLAN, MODULE_NAME, 'handleGetSubscriptionPlan');
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetSubscriptionPlanRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleGetSubscriptionPlan', req.user);
+    // Check Auth
+    if (!await Authorizations.canReadSubscriptionPlan(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION_PLAN, action: Action.READ,
+        module: MODULE_NAME, method: 'handleGetSubscriptionPlan',
+        value: filteredRequest.ID
+      });
+    }
+    // Get the plan
+    const subscriptionPlan = await BillingStorage.getSubscriptionPlan(req.tenant, filteredRequest.ID,
+      [
+        'id', 'name', 'description', 'active', 'currency', 'fee', 'includedEnergyKWh', 'energyPrice', 'energyDiscountPercent',
+        'createdOn', 'lastChangedOn'
+      ]);
+    UtilsService.assertObjectExists(action, subscriptionPlan, `Subscription Plan ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleGetSubscriptionPlan', req.user);
+    // Return
+    res.json(subscriptionPlan);
+    next();
+  }
+
+  public static async handleCreateSubscriptionPlan(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.CREATE, Entity.SUBSCRIPTION_PLAN, MODULE_NAME, 'handleCreateSubscriptionPlan');
+    // Check Auth
+    if (!await Authorizations.canCreateSubscriptionPlan(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION_PLAN, action: Action.CREATE,
+        module: MODULE_NAME, method: 'handleCreateSubscriptionPlan',
+      });
+    }
+    // Filter
+    const filteredRequest = BillingValidator.getInstance().validateCreateSubscriptionPlan(req.body);
+    const subscriptionPlan: BillingSubscriptionPlan = {
+      ...filteredRequest,
+      id: null,
+      createdBy: { id: req.user.id },
+      createdOn: new Date()
+    };
+    // Save
+    subscriptionPlan.id = await BillingStorage.saveSubscriptionPlan(req.tenant, subscriptionPlan);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, module: MODULE_NAME, method: 'handleCreateSubscriptionPlan',
+      message: `Subscription Plan '${subscriptionPlan.name}' has been created successfully`,
+      action: action,
+      detailedMessages: { subscriptionPlan }
+    });
+    res.json(Object.assign({ id: subscriptionPlan.id }, Constants.REST_RESPONSE_SUCCESS));
+    next();
+  }
+
+  public static async handleUpdateSubscriptionPlan(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.UPDATE, Entity.SUBSCRIPTION_PLAN, MODULE_NAME, 'handleUpdateSubscriptionPlan');
+    // Filter
+    const filteredRequest = BillingValidator.getInstance().validateUpdateSubscriptionPlan(req.body);
+    // Check Auth
+    if (!await Authorizations.canUpdateSubscriptionPlan(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION_PLAN, action: Action.UPDATE,
+        module: MODULE_NAME, method: 'handleUpdateSubscriptionPlan',
+        value: filteredRequest.id
+      });
+    }
+    // Get the plan
+    const subscriptionPlan = await BillingStorage.getSubscriptionPlan(req.tenant, filteredRequest.id);
+    UtilsService.assertObjectExists(action, subscriptionPlan, `Subscription Plan ID '${filteredRequest.id}' does not exist`,
+      MODULE_NAME, 'handleUpdateSubscriptionPlan', req.user);
+    // Update - the new terms apply to the next periods of the subscribers
+    subscriptionPlan.name = filteredRequest.name;
+    subscriptionPlan.description = filteredRequest.description;
+    subscriptionPlan.active = filteredRequest.active;
+    subscriptionPlan.currency = filteredRequest.currency;
+    subscriptionPlan.fee = filteredRequest.fee;
+    subscriptionPlan.includedEnergyKWh = filteredRequest.includedEnergyKWh;
+    subscriptionPlan.energyPrice = filteredRequest.energyPrice;
+    subscriptionPlan.energyDiscountPercent = filteredRequest.energyDiscountPercent;
+    subscriptionPlan.lastChangedBy = { id: req.user.id };
+    subscriptionPlan.lastChangedOn = new Date();
+    // Save
+    await BillingStorage.saveSubscriptionPlan(req.tenant, subscriptionPlan);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, module: MODULE_NAME, method: 'handleUpdateSubscriptionPlan',
+      message: `Subscription Plan '${subscriptionPlan.name}' has been updated successfully`,
+      action: action,
+      detailedMessages: { subscriptionPlan }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  public static async handleDeleteSubscriptionPlan(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.DELETE, Entity.SUBSCRIPTION_PLAN, MODULE_NAME, 'handleDeleteSubscriptionPlan');
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetSubscriptionPlanRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleDeleteSubscriptionPlan', req.user);
+    // Check Auth
+    if (!await Authorizations.canDeleteSubscriptionPlan(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION_PLAN, action: Action.DELETE,
+        module: MODULE_NAME, method: 'handleDeleteSubscriptionPlan',
+        value: filteredRequest.ID
+      });
+    }
+    // Get the plan
+    const subscriptionPlan = await BillingStorage.getSubscriptionPlan(req.tenant, filteredRequest.ID);
+    UtilsService.assertObjectExists(action, subscriptionPlan, `Subscription Plan ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleDeleteSubscriptionPlan', req.user);
+    // Plans still used by subscribers can only be deactivated
+    const activeSubscriptions = await BillingStorage.getSubscriptions(req.tenant,
+      { planIDs: [subscriptionPlan.id], statuses: [BillingSubscriptionStatus.ACTIVE] }, Constants.DB_PARAMS_COUNT_ONLY);
+    if (activeSubscriptions.count > 0) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Subscription Plan '${subscriptionPlan.name}' has ${activeSubscriptions.count} active subscription(s) and cannot be deleted`,
+        module: MODULE_NAME, method: 'handleDeleteSubscriptionPlan',
+        action: action,
+        user: req.user
+      });
+    }
+    // Delete
+    await BillingStorage.deleteSubscriptionPlan(req.tenant, subscriptionPlan.id);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, module: MODULE_NAME, method: 'handleDeleteSubscriptionPlan',
+      message: `Subscription Plan '${subscriptionPlan.name}' has been deleted successfully`,
+      action: action,
+      detailedMessages: { subscriptionPlan }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  public static async handleGetSubscriptions(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.LIST, Entity.SUBSCRIPTIONS, MODULE_NAME, 'handleGetSubscriptions');
+    // Check Auth
+    if (!await Authorizations.canListSubscriptions(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTIONS, action: Action.LIST,
+        module: MODULE_NAME, method: 'handleGetSubscriptions',
+      });
+    }
+    // Filter
+    const filteredRequest = BillingSecurity.filterGetSubscriptionsRequest(req.query);
+    // Get the subscriptions
+    const subscriptions = await BillingStorage.getSubscriptions(req.tenant,
+      {
+        userIDs: !Authorizations.isAdmin(req.user) ? [req.user.id] : (filteredRequest.UserID ? filteredRequest.UserID.split('|') : null),
+        planIDs: filteredRequest.PlanID ? filteredRequest.PlanID.split('|') : null,
+        statuses: filteredRequest.Status ? filteredRequest.Status.split('|') as BillingSubscriptionStatus[] : null,
+        withPlan: true,
+        withUser: true,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: filteredRequest.SortFields,
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      [
+        'id', 'userID', 'planID', 'status', 'startDate', 'endDate', 'periodStart', 'periodEnd', 'periodEnergyWh',
+        'plan.id', 'plan.name', 'plan.currency', 'plan.fee', 'plan.includedEnergyKWh',
+        'user.id', 'user.name', 'user.firstName', 'user.email', 'createdOn', 'lastChangedOn'
+      ]);
+    // Return
+    res.json(subscriptions);
+    next();
+  }
+
+  public static async handleCreateSubscription(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.CREATE, Entity.SUBSCRIPTION, MODULE_NAME, 'handleCreateSubscription');
+    // Filter
+    const filteredRequest = BillingValidator.getInstance().validateCreateSubscription(req.body);
+    // Check Auth
+    if (!await Authorizations.canCreateSubscription(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION, action: Action.CREATE,
+        module: MODULE_NAME, method: 'handleCreateSubscription',
+        value: filteredRequest.userID
+      });
+    }
+    // Get the user
+    const user = await UserStorage.getUser(req.user.tenantID, filteredRequest.userID);
+    UtilsService.assertObjectExists(action, user, `User ID '${filteredRequest.userID}' does not exist`,
+      MODULE_NAME, 'handleCreateSubscription', req.user);
+    // Get the plan
+    const subscriptionPlan = await BillingStorage.getSubscriptionPlan(req.tenant, filteredRequest.planID);
+    UtilsService.assertObjectExists(action, subscriptionPlan, `Subscription Plan ID '${filteredRequest.planID}' does not exist`,
+      MODULE_NAME, 'handleCreateSubscription', req.user);
+    if (!subscriptionPlan.active) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Subscription Plan '${subscriptionPlan.name}' is not active`,
+        module: MODULE_NAME, method: 'handleCreateSubscription',
+        action: action,
+        user: req.user
+      });
+    }
+    // Only one membership at a time
+    const activeSubscriptions = await BillingStorage.getSubscriptions(req.tenant,
+      { userIDs: [user.id], statuses: [BillingSubscriptionStatus.ACTIVE] }, Constants.DB_PARAMS_COUNT_ONLY);
+    if (activeSubscriptions.count > 0) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `User '${Utils.buildUserFullName(user, false)}' already has an active subscription`,
+        module: MODULE_NAME, method: 'handleCreateSubscription',
+        action: action,
+        user: req.user, actionOnUser: user
+      });
+    }
+    const subscription: BillingSubscription = {
+      id: null,
+      userID: user.id,
+      planID: subscriptionPlan.id,
+      status: BillingSubscriptionStatus.ACTIVE,
+      // The first fee is charged by the next billing periodic operation
+      startDate: filteredRequest.startDate ? new Date(filteredRequest.startDate) : new Date(),
+      periodEnergyWh: 0,
+      createdBy: { id: req.user.id },
+      createdOn: new Date()
+    };
+    // Save
+    subscription.id = await BillingStorage.saveSubscription(req.tenant, subscription);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, actionOnUser: user,
+      module: MODULE_NAME, method: 'handleCreateSubscription',
+      message: `User has been subscribed to the Subscription Plan '${subscriptionPlan.name}' successfully`,
+      action: action,
+      detailedMessages: { subscription }
+    });
+    res.json(Object.assign({ id: subscription.id }, Constants.REST_RESPONSE_SUCCESS));
+    next();
+  }
+
+  public static async handleCancelSubscription(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
+      Action.UPDATE, Entity.SUBSCRIPTION, MODULE_NAME, 'handleCancelSubscription');
+    // Filter
+    const filteredRequest = BillingSecurity.filterCancelSubscriptionRequest(req.body);
+    UtilsService.assertIdIsProvided(action, filteredRequest.subscriptionID, MODULE_NAME, 'handleCancelSubscription', req.user);
+    // Check Auth
+    if (!await Authorizations.canUpdateSubscription(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        entity: Entity.SUBSCRIPTION, action: Action.UPDATE,
+        module: MODULE_NAME, method: 'handleCancelSubscription',
+        value: filteredRequest.subscriptionID
+      });
+    }
+    // Get the subscription
+    const subscription = await BillingStorage.getSubscription(req.tenant, filteredRequest.subscriptionID);
+    UtilsService.assertObjectExists(action, subscription, `Subscription ID '${filteredRequest.subscriptionID}' does not exist`,
+      MODULE_NAME, 'handleCancelSubscription', req.user);
+    if (subscription.status !== BillingSubscriptionStatus.ACTIVE) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Subscription ID '${subscription.id}' is already ended`,
+        module: MODULE_NAME, method: 'handleCancelSubscription',
+        action: action,
+        user: req.user
+      });
+    }
+    const now = new Date();
+    if (filteredRequest.immediately || !subscription.periodEnd) {
+      // No fee has been charged for the ongoing period
+      subscription.endDate = now;
+      subscription.status = BillingSubscriptionStatus.ENDED;
+    } else {
+      // The member rate applies until the end of the period already paid
+      subscription.endDate = subscription.periodEnd;
+    }
+    subscription.lastChangedBy = { id: req.user.id };
+    subscription.lastChangedOn = now;
+    // Save
+    await BillingStorage.saveSubscription(req.tenant, subscription);
+    // Log
+    await Logging.logSecurityInfo({
+      tenantID: req.user.tenantID,
+      user: req.user, actionOnUser: subscription.userID,
+      module: MODULE_NAME, method: 'handleCancelSubscription',
+      message: `Subscription ID '${subscription.id}' has been cancelled successfully`,
+      action: action,
+      detailedMessages: { subscription }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
   public static async handleBillingWebHook(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Check if component is active
     UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.BILLING,
@@ -782,7 +1588,7 @@ export default class BillingService {
     const { usersLastSynchronizedOn } = billingSettings.billing;
     const previousTransactionBillingState = !!billingSettings.billing.isTransactionBillingActivated;
     // Billing properties to override
-    const { immediateBillingAllowed, periodicBillingAllowed, taxID } = newBillingProperties.billing;
+    const { immediateBillingAllowed, periodicBillingAllowed, taxID, isWalletActivated, walletMinimumBalance } = newBillingProperties.billing;
     const newTransactionBillingState = !!newBillingProperties.billing.isTransactionBillingActivated;
     if (!newTransactionBillingState && previousTransactionBillingState) {
       // Attempt to switch it OFF
@@ -818,20 +1624,29 @@ export default class BillingService {
       immediateBillingAllowed,
       periodicBillingAllowed,
       taxID,
+      isWalletActivated: !!isWalletActivated,
+      walletMinimumBalance: walletMinimumBalance ?? 0,
     };
-    // Make sure to preserve critical connection properties
-    let readOnlyProperties = {};
-    if (previousTransactionBillingState) {
-      readOnlyProperties = {
-        // STRIPE keys cannot be changed when Billing was already in a PRODUCTIVE mode
-        publicKey: billingSettings.stripe.publicKey,
-        secretKey: billingSettings.stripe.secretKey,
+    if (billingSettings.type === BillingSettingsType.LOCAL_BILLING) {
+      // Invoices are issued by the server - no connection properties
+      billingSettings.localBilling = {
+        ...newBillingProperties.localBilling
+      };
+    } else {
+      // Make sure to preserve critical connection properties
+      let readOnlyProperties = {};
+      if (previousTransactionBillingState) {
+        readOnlyProperties = {
+          // STRIPE keys cannot be changed when Billing was already in a PRODUCTIVE mode
+          publicKey: billingSettings.stripe.publicKey,
+          secretKey: billingSettings.stripe.secretKey,
+        };
+      }
+      billingSettings.stripe = {
+        ...newBillingProperties.stripe,
+        ...readOnlyProperties
       };
     }
-    billingSettings.stripe = {
-      ...newBillingProperties.stripe,
-      ...readOnlyProperties
-    };
     // Update timestamp
     billingSettings.lastChangedBy = { 'id': req.user.id };
     billingSettings.lastChangedOn = new Date();
@@ -868,4 +1683,79 @@ export default class BillingService {
     // Let's validate the new settings before activating
     await billingImpl.checkActivationPrerequisites();
   }
+
+  private static async getInvoiceSessionsToExport(req: Request, transactionIDs: number[]): Promise<DataResult<Transaction>> {
+    // Filter
+    const filteredRequest = BillingSecurity.filterExportInvoiceSessionsRequest(req.query);
+    if (Utils.isEmptyArray(transactionIDs)) {
+      return Constants.DB_EMPTY_DATA_RESULT;
+    }
+    // Group the sessions per driver
+    return TransactionStorage.getTransactions(req.user.tenantID,
+      { transactionIDs, withUser: true },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: { userID: 1 },
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      [
+        'id', 'chargeBoxID', 'connectorId', 'timezone', 'timestamp', 'userID', 'user.name', 'user.firstName', 'user.email', 'user.costCenter',
+        'stop.timestamp', 'stop.totalConsumptionWh', 'stop.totalDurationSecs', 'stop.roundedPrice', 'stop.priceUnit'
+      ]);
+  }
+
+  private static convertInvoiceSessionsToCSV(req: Request, transactions: Transaction[], writeHeader = true): string {
+    let headers = null;
+    // Header
+    if (writeHeader) {
+      headers = [
+        'id',
+        'userID',
+        'firstName',
+        'name',
+        'email',
+        'costCenter',
+        'chargingStationID',
+        'connectorID',
+        'timezone',
+        'startDate',
+        'startTime',
+        'endDate',
+        'endTime',
+        'totalConsumptionkWh',
+        'totalDurationMins',
+        'price',
+        'priceUnit'
+      ].join(Constants.CSV_SEPARATOR);
+    }
+    // Content
+    const rows = transactions.map((transaction) => {
+      const startDate = transaction.timezone ? moment(transaction.timestamp).tz(transaction.timezone) : moment.utc(transaction.timestamp);
+      const endDate = transaction.stop ? (transaction.timezone ? moment(transaction.stop.timestamp).tz(transaction.timezone) : moment.utc(transaction.stop.timestamp)) : null;
+      const row = [
+        transaction.id,
+        transaction.userID,
+        transaction.user?.firstName,
+        transaction.user?.name,
+        transaction.user?.email,
+        transaction.user?.costCenter,
+        transaction.chargeBoxID,
+        transaction.connectorId,
+        transaction.timezone || 'N/A (UTC by default)',
+        startDate.format('YYYY-MM-DD'),
+        startDate.format('HH:mm:ss'),
+        endDate ? endDate.format('YYYY-MM-DD') : '',
+        endDate ? endDate.format('HH:mm:ss') : '',
+        transaction.stop ?
+          (transaction.stop.totalConsumptionWh ? Utils.truncTo(Utils.createDecimal(transaction.stop.totalConsumptionWh).div(1000).toNumber(), 2) : 0) : '',
+        transaction.stop ?
+          (transaction.stop.totalDurationSecs ? Utils.truncTo(Utils.createDecimal(transaction.stop.totalDurationSecs).div(60).toNumber(), 2) : 0) : '',
+        transaction.stop ? transaction.stop.roundedPrice : '',
+        transaction.stop ? transaction.stop.priceUnit : ''
+      ].map((value) => Utils.escapeCsvValue(value));
+      return row;
+    }).join(Constants.CR_LF);
+    return Utils.isNullOrUndefined(headers) ? Constants.CR_LF + rows : [headers, rows].join(Constants.CR_LF);
+  }
 }
@@ -1,13 +1,17 @@
 import { Action, Entity } from '../../../../types/Authorization';
-import ChargingStation, { ChargingStationOcppParameters, ChargingStationQRCode, Command, OCPPParams, StaticLimitAmps } from '../../../../types/ChargingStation';
+import ChargingStation, { ChargingStationOcppParameters, ChargingStationOcppSecurity, ChargingStationQRCode, Command, OCPPParams, StaticLimitAmps } from '../../../../types/ChargingStation';
 import { HTTPAuthError, HTTPError } from '../../../../types/HTTPError';
 import { NextFunction, Request, Response } from 'express';
 import { OCPPConfigurationStatus, OCPPGetCompositeScheduleCommandResult, OCPPRemoteStartStopStatus, OCPPStatus, OCPPUnlockStatus } from '../../../../types/ocpp/OCPPClient';
+import { OCPPProtocol, OCPPSecurityProfile } from '../../../../types/ocpp/OCPPServer';
+import Reservation, { ReservationStatus } from '../../../../types/Reservation';
 
 import AppAuthError from '../../../../exception/AppAuthError';
 import AppError from '../../../../exception/AppError';
 import Authorizations from '../../../../authorization/Authorizations';
 import BackendError from '../../../../exception/BackendError';
+import { CarCatalog } from '../../../../types/Car';
+import CarStorage from '../../../../storage/mongodb/CarStorage';
 import { ChargingProfile } from '../../../../types/ChargingProfile';
 import ChargingStationClientFactory from '../../../../client/ocpp/ChargingStationClientFactory';
 import { ChargingStationInErrorType } from '../../../../types/InError';
@@ -20,6 +24,7 @@ import CpoOICPClient from '../../../../client/oicp/CpoOICPClient';
 import { DataResult } from '../../../../types/DataResult';
 import { HttpChargingStationCommandRequest } from '../../../../types/requests/HttpChargingStationRequest';
 import I18nManager from '../../../../utils/I18nManager';
+import LocalCertificateAuthority from '../../../../utils/LocalCertificateAuthority';
 import LockingHelper from '../../../../locking/LockingHelper';
 import LockingManager from '../../../../locking/LockingManager';
 import Logging from '../../../../utils/Logging';
@@ -31,9 +36,13 @@ import OCPPUtils from '../../../ocpp/utils/OCPPUtils';
 import { OICPActionType } from '../../../../types/oicp/OICPEvseData';
 import OICPClientFactory from '../../../../client/oicp/OICPClientFactory';
 import OICPUtils from '../../../oicp/OICPUtils';
+import PricingEstimator from '../../../../integration/pricing/PricingEstimator';
+import PricingFactory from '../../../../integration/pricing/PricingFactory';
+import ReservationStorage from '../../../../storage/mongodb/ReservationStorage';
 import { ServerAction } from '../../../../types/Server';
 import SiteArea from '../../../../types/SiteArea';
 import SiteAreaStorage from '../../../../storage/mongodb/SiteAreaStorage';
+import SimplePricingIntegration from '../../../../integration/pricing/simple-pricing/SimplePricingIntegration';
 import SiteStorage from '../../../../storage/mongodb/SiteStorage';
 import SmartChargingFactory from '../../../../integration/smart-charging/SmartChargingFactory';
 import { StatusCodes } from 'http-status-codes';
@@ -47,6 +56,8 @@ import UserStorage from '../../../../storage/mongodb/UserStorage';
 import UserToken from '../../../../types/UserToken';
 import Utils from '../../../../utils/Utils';
 import UtilsService from './UtilsService';
+import crypto from 'crypto';
+import moment from 'moment';
 
 const MODULE_NAME = 'ChargingStationService';
 
@@ -335,6 +346,113 @@ export default class ChargingStationService {
     next();
   }
 
+  public static async handleUpdateChargingStationSecurityProfile(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Filter
+    const filteredRequest = ChargingStationValidator.getInstance().validateChargingStationSecurityProfileUpdateReq(req.body);
+    // Charging Station
+    const chargingStation = await ChargingStationStorage.getChargingStation(req.user.tenantID, filteredRequest.chargingStationID);
+    UtilsService.assertObjectExists(action, chargingStation, `Charging Station ID '${filteredRequest.chargingStationID}' does not exist.`,
+      MODULE_NAME, 'handleUpdateChargingStationSecurityProfile', req.user);
+    // Check Auth
+    if (!await Authorizations.canUpdateChargingStation(req.user, chargingStation.siteID)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.UPDATE, entity: Entity.CHARGING_STATION,
+        module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+        value: chargingStation.id
+      });
+    }
+    // Security extension is only available with OCPP-J
+    if (chargingStation.ocppProtocol !== OCPPProtocol.JSON) {
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: HTTPError.FEATURE_NOT_SUPPORTED_ERROR,
+        message: `OCPP Security Profiles are not supported with protocol '${chargingStation.ocppProtocol}'`,
+        module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+        user: req.user
+      });
+    }
+    const ocppSecurity: ChargingStationOcppSecurity = {
+      securityProfile: filteredRequest.securityProfile,
+      certificate: chargingStation.ocppSecurity?.certificate,
+      lastChangedOn: new Date()
+    };
+    // Client certificate: the CA must be configured and a certificate must have been issued
+    if (filteredRequest.securityProfile === OCPPSecurityProfile.TLS_CLIENT_CERTIFICATE) {
+      if (!LocalCertificateAuthority.isEnabled()) {
+        throw new AppError({
+          source: chargingStation.id,
+          action: action,
+          errorCode: HTTPError.FEATURE_NOT_SUPPORTED_ERROR,
+          message: 'OCPP Security Profile 3 requires a CA certificate and private key in the OCPPSecurity configuration',
+          module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+          user: req.user
+        });
+      }
+      if (!ocppSecurity.certificate) {
+        throw new AppError({
+          source: chargingStation.id,
+          action: action,
+          errorCode: HTTPError.GENERAL_ERROR,
+          message: 'No client certificate has been issued for this Charging Station, it must send a SignCertificate request first',
+          module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+          user: req.user
+        });
+      }
+    }
+    // Basic Auth: the new password must be accepted before switching the profile
+    let basicAuthPassword: string;
+    if (filteredRequest.securityProfile === OCPPSecurityProfile.BASIC_AUTH ||
+        filteredRequest.securityProfile === OCPPSecurityProfile.TLS_BASIC_AUTH) {
+      basicAuthPassword = crypto.randomBytes(20).toString('hex');
+      const authorizationKeyStatus = await ChargingStationService.changeChargingStationSecurityParameter(
+        req.tenant, chargingStation, Constants.OCPP_AUTHORIZATION_KEY, basicAuthPassword);
+      if (authorizationKeyStatus !== OCPPConfigurationStatus.ACCEPTED) {
+        throw new AppError({
+          source: chargingStation.id,
+          action: action,
+          errorCode: HTTPError.GENERAL_ERROR,
+          message: `Cannot change the OCPP Parameter '${Constants.OCPP_AUTHORIZATION_KEY}', status '${authorizationKeyStatus}'`,
+          module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+          user: req.user
+        });
+      }
+      ocppSecurity.basicAuthPassword = await Utils.hashPasswordBcrypt(basicAuthPassword);
+    }
+    // Switch the profile, the Charging Station reconnects with the new one
+    const securityProfileStatus = await ChargingStationService.changeChargingStationSecurityParameter(
+      req.tenant, chargingStation, Constants.OCPP_SECURITY_PROFILE_KEY, filteredRequest.securityProfile.toString());
+    if (securityProfileStatus !== OCPPConfigurationStatus.ACCEPTED && securityProfileStatus !== OCPPConfigurationStatus.REBOOT_REQUIRED) {
+      // The Charging Station may already use the new password while keeping its current profile
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: basicAuthPassword ? HTTPError.SECURITY_PROFILE_PARTIALLY_UPDATED_ERROR : HTTPError.GENERAL_ERROR,
+        message: basicAuthPassword ?
+          `The OCPP Parameter '${Constants.OCPP_AUTHORIZATION_KEY}' has been changed but not the '${Constants.OCPP_SECURITY_PROFILE_KEY}', status '${securityProfileStatus}'` :
+          `Cannot change the OCPP Parameter '${Constants.OCPP_SECURITY_PROFILE_KEY}', status '${securityProfileStatus}'`,
+        module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+        user: req.user
+      });
+    }
+    // Both parameters have been accepted
+    await ChargingStationStorage.saveChargingStationOcppSecurity(req.user.tenantID, chargingStation.id, ocppSecurity);
+    // Log
+    await Logging.logInfo({
+      tenantID: req.user.tenantID,
+      source: chargingStation.id,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleUpdateChargingStationSecurityProfile',
+      message: `OCPP Security Profile has been set to ${filteredRequest.securityProfile}`,
+      action: action
+    });
+    // The password is only returned once
+    res.json({ ...Constants.REST_RESPONSE_SUCCESS, basicAuthPassword });
+    next();
+  }
+
   public static async handleChargingStationLimitPower(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Filter
     const filteredRequest = ChargingStationValidator.getInstance().validateChargingStationLimitPowerReq(req.body);
@@ -539,6 +657,141 @@ export default class ChargingStationService {
     next();
   }
 
+  public static async handleGetChargingStationReservations(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Filter
+    const filteredRequest = ChargingStationValidator.getInstance().validateChargingStationReservationsGetReq(req.query);
+    // Check Charging Station
+    const chargingStation = await UtilsService.checkAndGetChargingStationAuthorization(
+      req.tenant, req.user, filteredRequest.ChargingStationID, action);
+    // Basic users can only see their own reservations
+    let userIDs: string[];
+    if (!Authorizations.isAdmin(req.user) && !req.user.sitesAdmin?.includes(chargingStation.siteID)) {
+      userIDs = [req.user.id];
+    }
+    // Get the reservations
+    const reservations = await ReservationStorage.getReservations(req.user.tenantID,
+      {
+        chargingStationIDs: [chargingStation.id],
+        connectorIDs: filteredRequest.ConnectorID ? [filteredRequest.ConnectorID] : null,
+        statuses: filteredRequest.Status ? filteredRequest.Status.split('|') as ReservationStatus[] : null,
+        userIDs,
+        withUser: filteredRequest.WithUser,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: UtilsService.httpSortFieldsToMongoDB(filteredRequest.SortFields),
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      UtilsService.httpFilterProjectToArray(filteredRequest.ProjectFields)
+    );
+    // Build the result
+    res.json(reservations);
+    next();
+  }
+
+  public static async handleGetChargingStationLocalList(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Filter
+    const filteredRequest = ChargingStationValidator.getInstance().validateChargingStationLocalListGetReq(req.query);
+    // Check Charging Station
+    const chargingStation = await UtilsService.checkAndGetChargingStationAuthorization(
+      req.tenant, req.user, filteredRequest.ChargingStationID, action);
+    // Check auth
+    if (!await Authorizations.canPerformActionOnChargingStation(req.user, Action.GET_LOCAL_LIST_VERSION, chargingStation)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.GET_LOCAL_LIST_VERSION,
+        entity: Entity.CHARGING_STATION,
+        module: MODULE_NAME, method: 'handleGetChargingStationLocalList',
+        value: chargingStation.id
+      });
+    }
+    // Get the version stored in the Charging Station
+    let chargingStationListVersion: number = null;
+    const chargingStationClient = await ChargingStationClientFactory.getChargingStationClient(req.tenant, chargingStation);
+    if (chargingStationClient) {
+      try {
+        chargingStationListVersion = (await chargingStationClient.getLocalListVersion()).listVersion;
+      } catch (error) {
+        await Logging.logWarning({
+          tenantID: req.tenant.id,
+          source: chargingStation.id,
+          action: action,
+          user: req.user,
+          module: MODULE_NAME, method: 'handleGetChargingStationLocalList',
+          message: `Cannot get the Local Authorization List version: ${error.message as string}`,
+          detailedMessages: { error: error.stack }
+        });
+      }
+    }
+    const localAuthorizationList = chargingStation.localAuthorizationList;
+    res.json({
+      listVersion: localAuthorizationList?.listVersion ?? 0,
+      status: localAuthorizationList?.status ?? null,
+      nbrOfTags: localAuthorizationList?.tagIDs?.length ?? 0,
+      lastUpdatedOn: localAuthorizationList?.lastUpdatedOn ?? null,
+      chargingStationListVersion,
+    });
+    next();
+  }
+
+  public static async handleGetChargingStationPriceEstimate(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.PRICING,
+      Action.READ, Entity.CHARGING_STATION, MODULE_NAME, 'handleGetChargingStationPriceEstimate');
+    // Filter
+    const filteredRequest = ChargingStationValidator.getInstance().validateChargingStationPriceEstimateGetReq(req.query);
+    // Check Charging Station
+    const chargingStation = await UtilsService.checkAndGetChargingStationAuthorization(
+      req.tenant, req.user, filteredRequest.ChargingStationID, action);
+    const connector = Utils.getConnectorFromID(chargingStation, filteredRequest.ConnectorID);
+    UtilsService.assertObjectExists(action, connector, `Connector ID '${filteredRequest.ConnectorID}' does not exist on Charging Station ID '${chargingStation.id}'`,
+      MODULE_NAME, 'handleGetChargingStationPriceEstimate', req.user);
+    // Get the Car
+    let carCatalog: CarCatalog;
+    if (filteredRequest.CarCatalogID) {
+      carCatalog = await CarStorage.getCarCatalog(filteredRequest.CarCatalogID);
+      UtilsService.assertObjectExists(action, carCatalog, `Car Catalog ID '${filteredRequest.CarCatalogID}' does not exist`,
+        MODULE_NAME, 'handleGetChargingStationPriceEstimate', req.user);
+    }
+    // Only the built-in pricing can be simulated without opening a session in an external system
+    const pricingImpl = await PricingFactory.getPricingImpl(req.tenant, chargingStation);
+    if (!(pricingImpl instanceof SimplePricingIntegration)) {
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: HTTPError.FEATURE_NOT_SUPPORTED_ERROR,
+        message: 'Price estimation is not supported by the current pricing implementation',
+        module: MODULE_NAME, method: 'handleGetChargingStationPriceEstimate',
+        user: req.user,
+      });
+    }
+    if (!PricingEstimator.getEstimatedPowerWatts(chargingStation, connector.connectorId, carCatalog)) {
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Cannot estimate the price, the power of the Connector ID '${connector.connectorId}' is unknown`,
+        module: MODULE_NAME, method: 'handleGetChargingStationPriceEstimate',
+        user: req.user,
+      });
+    }
+    // Users and badges are used to resolve the user group pricing
+    const user = await UserStorage.getUser(req.user.tenantID, req.user.id);
+    const tag = await TagStorage.getDefaultUserTag(req.user.tenantID, req.user.id, { issuer: true, active: true });
+    // Estimate
+    const pricingEstimation = await PricingEstimator.estimateSession(pricingImpl, chargingStation, connector.connectorId, {
+      user,
+      tagID: tag?.id,
+      carCatalog,
+      targetEnergyWh: filteredRequest.TargetEnergyKWh ? Utils.createDecimal(filteredRequest.TargetEnergyKWh).mul(1000).toNumber() : null,
+      targetDurationSecs: filteredRequest.TargetDurationMins ? filteredRequest.TargetDurationMins * 60 : null,
+    });
+    res.json(pricingEstimation);
+    next();
+  }
+
   public static async handleTriggerSmartCharging(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Check if Component is active
     UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.SMART_CHARGING,
@@ -596,6 +849,44 @@ export default class ChargingStationService {
     next();
   }
 
+  public static async handleSimulateSmartCharging(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if Component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.SMART_CHARGING,
+      Action.UPDATE, Entity.SITE_AREA, MODULE_NAME, 'handleSimulateSmartCharging');
+    // Filter
+    const filteredRequest = ChargingStationValidator.getInstance().validateSmartChargingSimulateReq(req.body);
+    // Get Site Area
+    const siteArea = await SiteAreaStorage.getSiteArea(req.user.tenantID, filteredRequest.siteAreaID);
+    UtilsService.assertObjectExists(action, siteArea, `Site Area ID '${filteredRequest.siteAreaID}' does not exist`,
+      MODULE_NAME, 'handleSimulateSmartCharging', req.user);
+    // Check auth
+    if (!(await Authorizations.canUpdateSiteArea(req.user)).authorized) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.UPDATE, entity: Entity.SITE_AREA,
+        module: MODULE_NAME, method: 'handleSimulateSmartCharging',
+        value: filteredRequest.siteAreaID
+      });
+    }
+    // Get Smart Charging
+    const smartCharging = await SmartChargingFactory.getSmartChargingImpl(req.tenant);
+    if (!smartCharging) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: 'Smart Charging service is not configured',
+        module: MODULE_NAME, method: 'handleSimulateSmartCharging',
+        action: action,
+        user: req.user
+      });
+    }
+    // Dry run: nothing is sent to the Charging Stations
+    const smartChargingSimulation = await smartCharging.simulateChargingProfiles(siteArea, filteredRequest.connectors);
+    res.json(smartChargingSimulation);
+    next();
+  }
+
   public static async handleGenerateQrCodeForConnector(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Filter
     const filteredRequest = ChargingStationValidator.getInstance().validateChargingStationQRCodeGenerateReq(req.query);
@@ -1156,6 +1447,18 @@ export default class ChargingStationService {
       case Command.REMOTE_START_TRANSACTION:
         result = await ChargingStationService.executeChargingStationStartTransaction(action, chargingStation, command, filteredRequest, req, res, next);
         break;
+      // Reserve Now
+      case Command.RESERVE_NOW:
+        result = await ChargingStationService.executeChargingStationReserveNow(action, chargingStation, command, filteredRequest, req, res, next);
+        break;
+      // Cancel Reservation
+      case Command.CANCEL_RESERVATION:
+        result = await ChargingStationService.executeChargingStationCancelReservation(action, chargingStation, command, filteredRequest, req, res, next);
+        break;
+      // Send Local List
+      case Command.SEND_LOCAL_LIST:
+        result = await ChargingStationService.executeChargingStationSendLocalList(action, chargingStation, command, filteredRequest, req, res, next);
+        break;
       // Get the Charging Plans
       case Command.GET_COMPOSITE_SCHEDULE:
         result = await ChargingStationService.executeChargingStationGetCompositeSchedule(action, chargingStation, command, filteredRequest, req, res, next);
@@ -1588,6 +1891,32 @@ export default class ChargingStationService {
             retryInterval: params.retryInterval
           });
           break;
+        // Trigger Message
+        case Command.TRIGGER_MESSAGE:
+          result = await chargingStationClient.triggerMessage({
+            requestedMessage: params.requestedMessage,
+            connectorId: params.connectorId
+          });
+          break;
+        // Install Certificate (defaults to the root of the local CA)
+        case Command.INSTALL_CERTIFICATE:
+          result = await chargingStationClient.installCertificate({
+            certificateType: params.certificateType,
+            certificate: params.certificate ?? LocalCertificateAuthority.getCACertificate()
+          });
+          break;
+        // Get Installed Certificate IDs
+        case Command.GET_INSTALLED_CERTIFICATE_IDS:
+          result = await chargingStationClient.getInstalledCertificateIds({
+            certificateType: params.certificateType
+          });
+          break;
+        // Delete Certificate
+        case Command.DELETE_CERTIFICATE:
+          result = await chargingStationClient.deleteCertificate({
+            certificateHashData: params.certificateHashData
+          });
+          break;
       }
       if (result) {
         // OCPP Command with status
@@ -1638,6 +1967,12 @@ export default class ChargingStationService {
     }
   }
 
+  private static async changeChargingStationSecurityParameter(tenant: Tenant, chargingStation: ChargingStation,
+      key: string, value: string): Promise<OCPPConfigurationStatus> {
+    const result = await OCPPUtils.requestChangeChargingStationOcppParameter(tenant, chargingStation, { key, value }, false);
+    return result.status;
+  }
+
   private static async setAndSaveChargingProfile(filteredRequest: ChargingProfile, action: ServerAction, req: Request): Promise<string> {
     // Check existence
     const chargingStation = await ChargingStationStorage.getChargingStation(req.user.tenantID, filteredRequest.chargingStationID);
@@ -1793,6 +2128,17 @@ export default class ChargingStationService {
         detailedMessages: { tag }
       });
     }
+    // Check Departure Time
+    if (filteredRequest.args.departureTime && moment(filteredRequest.args.departureTime).isBefore(moment())) {
+      throw new AppError({
+        source: chargingStation.id,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Departure time '${filteredRequest.args.departureTime as string}' must be in the future`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        action: action,
+      });
+    }
     // Check Charging Station
     await Authorizations.isChargingStationValidInOrganization(action, req.tenant, chargingStation);
     // Execute it
@@ -1806,6 +2152,17 @@ export default class ChargingStationService {
         }
       }
     }
+    // Save Charging Needs
+    if (Utils.isComponentActiveFromToken(req.user, TenantComponents.SMART_CHARGING)) {
+      if (result?.status === OCPPRemoteStartStopStatus.ACCEPTED &&
+         (filteredRequest.args.departureTime || filteredRequest.args.targetEnergyWh || filteredRequest.args.solarChargingMode)) {
+        await UserStorage.saveUserLastChargingNeeds(req.user.tenantID, user.id, {
+          departureTime: Utils.convertToDate(filteredRequest.args.departureTime),
+          targetEnergyWh: Utils.convertToFloat(filteredRequest.args.targetEnergyWh),
+          solarChargingMode: filteredRequest.args.solarChargingMode,
+        });
+      }
+    }
     return result;
   }
 
@@ -1860,4 +2217,192 @@ export default class ChargingStationService {
     return ChargingStationService.executeChargingStationCommand(
       req.tenant, req.user, chargingStation, action, command, filteredRequest.args);
   }
+
+  private static async executeChargingStationReserveNow(action: ServerAction, chargingStation: ChargingStation, command: Command,
+      filteredRequest: HttpChargingStationCommandRequest, req: Request, res: Response, next: NextFunction): Promise<any> {
+    // Check auth
+    if (!await Authorizations.canPerformActionOnChargingStation(req.user, command as unknown as Action, chargingStation)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: command as unknown as Action,
+        entity: Entity.CHARGING_STATION,
+        module: MODULE_NAME, method: 'handleAction',
+        value: chargingStation.id
+      });
+    }
+    // Check Tag ID
+    if (!filteredRequest.args || (!filteredRequest.args.visualTagID && !filteredRequest.args.tagID)) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.USER_NO_BADGE_ERROR,
+        message: 'The user does not have any badge',
+        module: MODULE_NAME,
+        method: 'handleAction',
+        user: req.user,
+        action: action,
+      });
+    }
+    let tag: Tag;
+    if (filteredRequest.args.tagID) {
+      tag = await UtilsService.checkAndGetTagAuthorization(
+        req.tenant, req.user, filteredRequest.args.tagID, Action.READ, action);
+    } else {
+      tag = await UtilsService.checkAndGetTagByVisualIDAuthorization(
+        req.tenant, req.user, filteredRequest.args.visualTagID, Action.READ, action);
+    }
+    // Inactive Tag
+    if (!tag.active) {
+      throw new BackendError({
+        source: chargingStation.id,
+        action: action,
+        message: `Tag ID '${tag.id}' is not active`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        actionOnUser: tag.user,
+        detailedMessages: { tag }
+      });
+    }
+    // Check Connector
+    const connector = Utils.getConnectorFromID(chargingStation, filteredRequest.args.connectorId);
+    UtilsService.assertObjectExists(action, connector, `Connector ID '${filteredRequest.args.connectorId as string}' does not exist`,
+      MODULE_NAME, 'handleAction', req.user);
+    // Check Expiry Date
+    const expiryDate = new Date(filteredRequest.args.expiryDate);
+    if (!filteredRequest.args.expiryDate || expiryDate.getTime() <= Date.now()) {
+      throw new AppError({
+        source: chargingStation.id,
+        errorCode: HTTPError.RESERVATION_EXPIRY_DATE_ERROR,
+        message: 'The reservation expiry date must be in the future',
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        action: action,
+      });
+    }
+    // Check existing Reservation
+    const activeReservation = await ReservationStorage.getActiveReservation(req.tenant.id, chargingStation.id, connector.connectorId);
+    if (activeReservation) {
+      throw new AppError({
+        source: chargingStation.id,
+        errorCode: HTTPError.RESERVATION_ALREADY_EXIST_ERROR,
+        message: `Connector ID '${connector.connectorId}' is already reserved until ${moment(activeReservation.expiryDate).format()}`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        action: action,
+        detailedMessages: { activeReservation }
+      });
+    }
+    // Check Charging Station
+    await Authorizations.isChargingStationValidInOrganization(action, req.tenant, chargingStation);
+    // Reserve the Connector
+    const reservation: Reservation = {
+      id: null,
+      chargingStationID: chargingStation.id,
+      connectorId: connector.connectorId,
+      tagID: tag.id,
+      userID: tag.userID,
+      expiryDate,
+      status: ReservationStatus.ACTIVE,
+      createdBy: { id: req.user.id },
+      createdOn: new Date()
+    };
+    try {
+      return await OCPPUtils.reserveChargingStationConnector(req.tenant, chargingStation, reservation, action);
+    } catch (error) {
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `OCPP Command '${command}' has failed`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        detailedMessages: { error: error.stack, reservation }
+      });
+    }
+  }
+
+  private static async executeChargingStationCancelReservation(action: ServerAction, chargingStation: ChargingStation, command: Command,
+      filteredRequest: HttpChargingStationCommandRequest, req: Request, res: Response, next: NextFunction): Promise<any> {
+    // Check auth
+    if (!await Authorizations.canPerformActionOnChargingStation(req.user, command as unknown as Action, chargingStation)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: command as unknown as Action,
+        entity: Entity.CHARGING_STATION,
+        module: MODULE_NAME, method: 'handleAction',
+        value: chargingStation.id
+      });
+    }
+    // Get the Reservation
+    UtilsService.assertIdIsProvided(action, filteredRequest.args?.reservationId, MODULE_NAME, 'handleAction', req.user);
+    const reservation = await ReservationStorage.getReservation(req.tenant.id, filteredRequest.args.reservationId);
+    UtilsService.assertObjectExists(action, reservation, `Reservation ID '${filteredRequest.args.reservationId as string}' does not exist`,
+      MODULE_NAME, 'handleAction', req.user);
+    if (reservation.chargingStationID !== chargingStation.id || reservation.status !== ReservationStatus.ACTIVE) {
+      throw new AppError({
+        source: chargingStation.id,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Reservation ID '${reservation.id}' is not active on this Charging Station`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        action: action,
+        detailedMessages: { reservation }
+      });
+    }
+    // Basic users can only cancel their own reservations
+    if (!Authorizations.isAdmin(req.user) && !req.user.sitesAdmin?.includes(chargingStation.siteID) &&
+        reservation.userID !== req.user.id) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: command as unknown as Action,
+        entity: Entity.CHARGING_STATION,
+        module: MODULE_NAME, method: 'handleAction',
+        value: chargingStation.id
+      });
+    }
+    try {
+      return await OCPPUtils.cancelChargingStationReservation(req.tenant, chargingStation, reservation, action);
+    } catch (error) {
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `OCPP Command '${command}' has failed`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        detailedMessages: { error: error.stack, reservation }
+      });
+    }
+  }
+
+  private static async executeChargingStationSendLocalList(action: ServerAction, chargingStation: ChargingStation, command: Command,
+      filteredRequest: HttpChargingStationCommandRequest, req: Request, res: Response, next: NextFunction): Promise<any> {
+    // Check auth
+    if (!await Authorizations.canPerformActionOnChargingStation(req.user, command as unknown as Action, chargingStation)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: command as unknown as Action,
+        entity: Entity.CHARGING_STATION,
+        module: MODULE_NAME, method: 'handleAction',
+        value: chargingStation.id
+      });
+    }
+    try {
+      // Always resend the full list
+      return await OCPPUtils.synchronizeChargingStationLocalAuthorizationList(req.tenant, chargingStation, true);
+    } catch (error) {
+      throw new AppError({
+        source: chargingStation.id,
+        action: action,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `OCPP Command '${command}' has failed`,
+        module: MODULE_NAME, method: 'handleAction',
+        user: req.user,
+        detailedMessages: { error: error.stack }
+      });
+    }
+  }
 }
@@ -0,0 +1,245 @@
+import { Action, Entity } from '../../../../types/Authorization';
+import EnergyPrice, { EnergyPriceRequiredImportProperties } from '../../../../types/EnergyPrice';
+import { HTTPAuthError, HTTPError } from '../../../../types/HTTPError';
+import { NextFunction, Request, Response } from 'express';
+
+import { ActionsResponse } from '../../../../types/GlobalType';
+import AppAuthError from '../../../../exception/AppAuthError';
+import AppError from '../../../../exception/AppError';
+import Authorizations from '../../../../authorization/Authorizations';
+import Busboy from 'busboy';
+import Constants from '../../../../utils/Constants';
+import EnergyPriceStorage from '../../../../storage/mongodb/EnergyPriceStorage';
+import EnergyPriceValidator from '../validator/EnergyPriceValidator';
+import Logging from '../../../../utils/Logging';
+import { ServerAction } from '../../../../types/Server';
+import TenantComponents from '../../../../types/TenantComponents';
+import Utils from '../../../../utils/Utils';
+import UtilsService from './UtilsService';
+import csvToJson from 'csvtojson/v2';
+
+const MODULE_NAME = 'EnergyPriceService';
+
+export default class EnergyPriceService {
+  public static async handleGetEnergyPrices(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.SMART_CHARGING,
+      Action.LIST, Entity.ENERGY_PRICES, MODULE_NAME, 'handleGetEnergyPrices');
+    // Check auth
+    if (!await Authorizations.canListEnergyPrices(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.LIST, entity: Entity.ENERGY_PRICES,
+        module: MODULE_NAME, method: 'handleGetEnergyPrices'
+      });
+    }
+    // Filter
+    const filteredRequest = EnergyPriceValidator.getInstance().validateEnergyPricesGet(req.query);
+    // Get the energy prices
+    const energyPrices = await EnergyPriceStorage.getEnergyPrices(req.user.tenantID,
+      {
+        startDate: filteredRequest.StartDate,
+        endDate: filteredRequest.EndDate,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: UtilsService.httpSortFieldsToMongoDB(filteredRequest.SortFields),
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      UtilsService.httpFilterProjectToArray(filteredRequest.ProjectFields)
+    );
+    res.json(energyPrices);
+    next();
+  }
+
+  public static async handleImportEnergyPrices(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.SMART_CHARGING,
+      Action.IMPORT, Entity.ENERGY_PRICES, MODULE_NAME, 'handleImportEnergyPrices');
+    // Check auth
+    if (!await Authorizations.canImportEnergyPrices(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.IMPORT, entity: Entity.ENERGY_PRICES,
+        module: MODULE_NAME, method: 'handleImportEnergyPrices'
+      });
+    }
+    // Uploaded CSV/Json file or Json body
+    const importedEnergyPrices = req.is('multipart/form-data') ?
+      await EnergyPriceService.readEnergyPricesFile(action, req) : req.body?.energyPrices;
+    // Filter
+    const filteredRequest = EnergyPriceValidator.getInstance().validateEnergyPricesImport({ energyPrices: importedEnergyPrices });
+    // Check the periods
+    await EnergyPriceService.checkEnergyPricePeriods(action, req, filteredRequest.energyPrices);
+    // Save
+    const importedOn = new Date();
+    await EnergyPriceStorage.saveEnergyPrices(req.user.tenantID, filteredRequest.energyPrices.map((energyPrice) => ({
+      ...energyPrice,
+      createdBy: { id: req.user.id },
+      createdOn: importedOn
+    } as EnergyPrice)));
+    const result: ActionsResponse = {
+      inSuccess: filteredRequest.energyPrices.length,
+      inError: 0
+    };
+    // Log
+    await Logging.logInfo({
+      tenantID: req.user.tenantID,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleImportEnergyPrices',
+      message: `${result.inSuccess} Energy Price(s) have been imported successfully`,
+      action: action
+    });
+    res.json({ ...result, ...Constants.REST_RESPONSE_SUCCESS });
+    next();
+  }
+
+  public static async handleDeleteEnergyPrices(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.SMART_CHARGING,
+      Action.DELETE, Entity.ENERGY_PRICES, MODULE_NAME, 'handleDeleteEnergyPrices');
+    // Check auth
+    if (!await Authorizations.canDeleteEnergyPrices(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.DELETE, entity: Entity.ENERGY_PRICES,
+        module: MODULE_NAME, method: 'handleDeleteEnergyPrices'
+      });
+    }
+    // Filter
+    const filteredRequest = EnergyPriceValidator.getInstance().validateEnergyPricesDelete(req.query);
+    // Delete
+    const deletedCount = await EnergyPriceStorage.deleteEnergyPrices(req.user.tenantID, filteredRequest.StartDate, filteredRequest.EndDate);
+    // Log
+    await Logging.logInfo({
+      tenantID: req.user.tenantID,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleDeleteEnergyPrices',
+      message: `${deletedCount} Energy Price(s) have been deleted successfully`,
+      action: action,
+      detailedMessages: { filteredRequest }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  private static async readEnergyPricesFile(action: ServerAction, req: Request): Promise<Record<string, unknown>[]> {
+    // Get the stream
+    const busboy = new Busboy({ headers: req.headers });
+    const uploadedFile = await new Promise<{ filename: string; mimetype: string; content: string }>((resolve, reject) => {
+      busboy.on('file', (fieldname: string, file: NodeJS.ReadableStream, filename: string, encoding: string, mimetype: string) => {
+        // Time series are small: keep the whole file
+        const chunks: Buffer[] = [];
+        file.on('data', (chunk: Buffer) => chunks.push(chunk));
+        file.on('end', () => resolve({ filename, mimetype, content: Buffer.concat(chunks).toString('utf8') }));
+        file.on('error', reject);
+      });
+      busboy.on('finish', () => resolve(null));
+      busboy.on('error', reject);
+      req.pipe(busboy);
+    });
+    if (!uploadedFile) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        action: action,
+        errorCode: HTTPError.INVALID_FILE_FORMAT,
+        module: MODULE_NAME, method: 'readEnergyPricesFile',
+        message: 'No Energy Price file has been uploaded',
+        user: req.user
+      });
+    }
+    if (uploadedFile.filename.slice(-4) === '.csv') {
+      const energyPrices: Record<string, unknown>[] = await csvToJson({
+        trim: true,
+        delimiter: Constants.CSV_SEPARATOR,
+        output: 'json',
+      }).fromString(uploadedFile.content);
+      // Check header
+      if (!Utils.isEmptyArray(energyPrices) &&
+          !EnergyPriceRequiredImportProperties.every((property) => Object.keys(energyPrices[0]).includes(property))) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          action: action,
+          errorCode: HTTPError.INVALID_FILE_CSV_HEADER_FORMAT,
+          module: MODULE_NAME, method: 'readEnergyPricesFile',
+          message: `Missing one of required properties: '${EnergyPriceRequiredImportProperties.join(', ')}'`,
+          user: req.user
+        });
+      }
+      // Empty cells are missing values
+      return energyPrices.map((energyPrice) => Object.fromEntries(
+        Object.entries(energyPrice).filter(([, value]) => value !== '')));
+    }
+    if (uploadedFile.mimetype === 'application/json') {
+      try {
+        return JSON.parse(uploadedFile.content).energyPrices;
+      } catch (error) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          action: action,
+          errorCode: HTTPError.INVALID_FILE_FORMAT,
+          module: MODULE_NAME, method: 'readEnergyPricesFile',
+          message: `Invalid Json file '${uploadedFile.filename}'`,
+          user: req.user,
+          detailedMessages: { error: error.stack }
+        });
+      }
+    }
+    throw new AppError({
+      source: Constants.CENTRAL_SERVER,
+      action: action,
+      errorCode: HTTPError.INVALID_FILE_FORMAT,
+      module: MODULE_NAME, method: 'readEnergyPricesFile',
+      message: `Invalid file format '${uploadedFile.mimetype}'`,
+      user: req.user
+    });
+  }
+
+  private static async checkEnergyPricePeriods(action: ServerAction, req: Request, energyPrices: EnergyPrice[]): Promise<void> {
+    if (Utils.isEmptyArray(energyPrices)) {
+      return;
+    }
+    for (const energyPrice of energyPrices) {
+      const startDate = Utils.convertToDate(energyPrice.startDate);
+      if (Utils.convertToDate(energyPrice.endDate).getTime() <= startDate.getTime()) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          action: action,
+          errorCode: HTTPError.ENERGY_PRICE_PERIOD_ERROR,
+          module: MODULE_NAME, method: 'checkEnergyPricePeriods',
+          message: `Energy Price starting on '${startDate.toISOString()}' must end after its start`,
+          user: req.user
+        });
+      }
+    }
+    // Stored periods with the same start are replaced by the imported ones
+    const importedStartTimes = energyPrices.map((energyPrice) => Utils.convertToDate(energyPrice.startDate).getTime());
+    const storedEnergyPrices = await EnergyPriceStorage.getEnergyPrices(req.user.tenantID, {
+      startDate: new Date(importedStartTimes.reduce((minTime, startTime) => Math.min(minTime, startTime))),
+      endDate: new Date(energyPrices.reduce((maxTime, energyPrice) => Math.max(maxTime, Utils.convertToDate(energyPrice.endDate).getTime()), 0)),
+    }, Constants.DB_PARAMS_MAX_LIMIT, ['startDate', 'endDate']);
+    const sortedEnergyPrices = [
+      ...energyPrices,
+      ...storedEnergyPrices.result.filter((storedEnergyPrice) =>
+        !importedStartTimes.includes(Utils.convertToDate(storedEnergyPrice.startDate).getTime()))
+    ].sort((a, b) => Utils.convertToDate(a.startDate).getTime() - Utils.convertToDate(b.startDate).getTime());
+    for (let i = 1; i < sortedEnergyPrices.length; i++) {
+      const startDate = Utils.convertToDate(sortedEnergyPrices[i].startDate);
+      // Periods must not overlap
+      if (startDate.getTime() < Utils.convertToDate(sortedEnergyPrices[i - 1].endDate).getTime()) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          action: action,
+          errorCode: HTTPError.ENERGY_PRICE_PERIOD_ERROR,
+          module: MODULE_NAME, method: 'checkEnergyPricePeriods',
+          message: `Energy Price starting on '${startDate.toISOString()}' overlaps the previous one`,
+          user: req.user
+        });
+      }
+    }
+  }
+}
@@ -150,6 +150,7 @@ export default class SiteAreaService {
       req.tenant, req.user, filteredRequest.ID, Action.READ, action, null, {
         withSite: filteredRequest.WithSite,
         withChargingStations: filteredRequest.WithChargingStations,
+        withParentSiteArea: filteredRequest.WithParentSiteArea,
         withImage: true,
       }, true);
     // Return
@@ -207,6 +208,7 @@ export default class SiteAreaService {
         locMaxDistanceMeters: filteredRequest.LocMaxDistanceMeters,
         siteIDs: (filteredRequest.SiteID ? filteredRequest.SiteID.split('|') : null),
         companyIDs: (filteredRequest.CompanyID ? filteredRequest.CompanyID.split('|') : null),
+        parentSiteAreaIDs: (filteredRequest.ParentSiteAreaID ? filteredRequest.ParentSiteAreaID.split('|') : null),
         ...authorizationSiteAreasFilter.filters
       },
       {
@@ -256,9 +258,10 @@ export default class SiteAreaService {
     // Check and Get Site Area
     const siteArea = await UtilsService.checkAndGetSiteAreaAuthorization(
       req.tenant, req.user, filteredRequest.SiteAreaID, Action.READ, action);
-    // Get the ConsumptionValues
+    // Get the ConsumptionValues (including the Sub Site Areas)
     const consumptions = await ConsumptionStorage.getSiteAreaConsumptions(req.user.tenantID, {
       siteAreaID: filteredRequest.SiteAreaID,
+      childSiteAreaIDs: await SiteAreaStorage.getChildSiteAreaIDs(req.user.tenantID, filteredRequest.SiteAreaID),
       startDate: filteredRequest.StartDate,
       endDate: filteredRequest.EndDate
     }, [ 'startedAt', 'instantAmps', 'instantWatts', 'limitAmps', 'limitWatts' ]);
@@ -292,6 +295,8 @@ export default class SiteAreaService {
     await UtilsService.checkAndGetSiteAuthorization(
       req.tenant, req.user, filteredRequest.siteID, Action.READ,
       action);
+    // Check the parent Site Area
+    await SiteAreaService.checkSiteAreaTree(action, req, filteredRequest, 'handleCreateSiteArea');
     // Create Site Area
     const newSiteArea: SiteArea = {
       ...filteredRequest,
@@ -329,6 +334,8 @@ export default class SiteAreaService {
     // Check Site auth
     await UtilsService.checkAndGetSiteAuthorization(
       req.tenant, req.user, filteredRequest.siteID, Action.READ, action);
+    // Check the parent and the Sub Site Areas
+    await SiteAreaService.checkSiteAreaTree(action, req, filteredRequest, 'handleUpdateSiteArea');
     // Update
     siteArea.name = filteredRequest.name;
     siteArea.address = filteredRequest.address;
@@ -337,6 +344,18 @@ export default class SiteAreaService {
     if (Utils.objectHasProperty(filteredRequest, 'image')) {
       siteArea.image = filteredRequest.image;
     }
+    if (Utils.objectHasProperty(filteredRequest, 'openingTimes')) {
+      siteArea.openingTimes = filteredRequest.openingTimes;
+    }
+    if (Utils.objectHasProperty(filteredRequest, 'parentSiteAreaID')) {
+      siteArea.parentSiteAreaID = filteredRequest.parentSiteAreaID;
+    }
+    if (Utils.objectHasProperty(filteredRequest, 'solarChargingMode')) {
+      siteArea.solarChargingMode = filteredRequest.solarChargingMode;
+    }
+    if (Utils.objectHasProperty(filteredRequest, 'phaseAssignmentToGrid')) {
+      siteArea.phaseAssignmentToGrid = filteredRequest.phaseAssignmentToGrid;
+    }
     if (filteredRequest.smartCharging && filteredRequest.numberOfPhases === 1) {
       for (const chargingStation of siteArea.chargingStations) {
         for (const connector of chargingStation.connectors) {
@@ -418,4 +437,78 @@ export default class SiteAreaService {
     res.json(Constants.REST_RESPONSE_SUCCESS);
     next();
   }
+
+  private static async checkSiteAreaTree(action: ServerAction, req: Request, siteArea: Partial<SiteArea>, method: string): Promise<void> {
+    if (siteArea.parentSiteAreaID) {
+      const parentSiteArea = await SiteAreaStorage.getSiteArea(req.user.tenantID, siteArea.parentSiteAreaID);
+      UtilsService.assertObjectExists(action, parentSiteArea, `Parent Site Area ID '${siteArea.parentSiteAreaID}' does not exist`,
+        MODULE_NAME, method, req.user);
+      // Must be in the same Site
+      if (parentSiteArea.siteID !== siteArea.siteID) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          action: action,
+          errorCode: HTTPError.SITE_AREA_TREE_ERROR,
+          message: `Parent Site Area '${parentSiteArea.name}' does not belong to the same Site`,
+          module: MODULE_NAME, method,
+          user: req.user
+        });
+      }
+      // No loop in the tree
+      if (siteArea.id && (siteArea.id === parentSiteArea.id ||
+          (await SiteAreaStorage.getChildSiteAreaIDs(req.user.tenantID, siteArea.id)).includes(parentSiteArea.id))) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          action: action,
+          errorCode: HTTPError.SITE_AREA_TREE_ERROR,
+          message: `Parent Site Area '${parentSiteArea.name}' cannot be the Site Area itself or one of its Sub Site Areas`,
+          module: MODULE_NAME, method,
+          user: req.user
+        });
+      }
+      SiteAreaService.checkSubSiteArea(action, req, parentSiteArea, siteArea, method);
+    }
+    // Sub Site Areas must stay compatible
+    if (siteArea.id) {
+      const childSiteAreas = await SiteAreaStorage.getSiteAreas(req.user.tenantID,
+        { parentSiteAreaIDs: [siteArea.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      for (const childSiteArea of childSiteAreas.result) {
+        SiteAreaService.checkSubSiteArea(action, req, siteArea, childSiteArea, method);
+      }
+    }
+  }
+
+  private static checkSubSiteArea(action: ServerAction, req: Request, parentSiteArea: Partial<SiteArea>,
+      childSiteArea: Partial<SiteArea>, method: string): void {
+    if (childSiteArea.siteID !== parentSiteArea.siteID) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        action: action,
+        errorCode: HTTPError.SITE_AREA_TREE_ERROR,
+        message: `Sub Site Area '${childSiteArea.name}' must belong to the same Site as its parent '${parentSiteArea.name}'`,
+        module: MODULE_NAME, method,
+        user: req.user
+      });
+    }
+    if (childSiteArea.voltage !== parentSiteArea.voltage) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        action: action,
+        errorCode: HTTPError.SITE_AREA_TREE_ERROR,
+        message: `Sub Site Area '${childSiteArea.name}' must have the same voltage as its parent '${parentSiteArea.name}'`,
+        module: MODULE_NAME, method,
+        user: req.user
+      });
+    }
+    if (childSiteArea.numberOfPhases > parentSiteArea.numberOfPhases) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        action: action,
+        errorCode: HTTPError.THREE_PHASE_CHARGER_ON_SINGLE_PHASE_SITE_AREA,
+        message: `Sub Site Area '${childSiteArea.name}' cannot have more phases than its parent '${parentSiteArea.name}'`,
+        module: MODULE_NAME, method,
+        user: req.user
+      });
+    }
+  }
 }
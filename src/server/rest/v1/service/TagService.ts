@@ -155,10 +155,12 @@ export default class TagService {
       createdOn: new Date(),
       userID: filteredRequest.userID,
       default: filteredRequest.default,
-      visualID: filteredRequest.visualID
+      visualID: filteredRequest.visualID,
+      smartChargingPriority: filteredRequest.smartChargingPriority
     } as Tag;
     // Save
     await TagStorage.saveTag(req.user.tenantID, newTag);
+    await UtilsService.triggerLocalAuthorizationListsSynchronization(req.user.tenantID, MODULE_NAME, 'handleCreateTag');
     // OCPI
     await TagService.updateTagOCPI(action, req.tenant, req.user, newTag);
     await Logging.logSecurityInfo({
@@ -236,10 +238,14 @@ export default class TagService {
     tag.active = filteredRequest.active;
     tag.userID = filteredRequest.userID;
     tag.default = filteredRequest.default;
+    if (Utils.objectHasProperty(filteredRequest, 'smartChargingPriority')) {
+      tag.smartChargingPriority = filteredRequest.smartChargingPriority;
+    }
     tag.lastChangedBy = { id: req.user.id };
     tag.lastChangedOn = new Date();
     // Save
     await TagStorage.saveTag(req.user.tenantID, tag);
+    await UtilsService.triggerLocalAuthorizationListsSynchronization(req.user.tenantID, MODULE_NAME, 'handleUpdateTag');
     // Ensure former User has a default Tag
     if (formerTagUserID && formerTagDefault) {
       await TagService.setDefaultTagForUser(req.tenant, formerTagUserID);
@@ -531,6 +537,9 @@ export default class TagService {
         });
       }
     }
+    if (result.inSuccess > 0) {
+      await UtilsService.triggerLocalAuthorizationListsSynchronization(loggedUser.tenantID, MODULE_NAME, 'deleteTags');
+    }
     await Logging.logActionsResponse(loggedUser.tenantID,
       ServerAction.TAGS_DELETE,
       MODULE_NAME, 'handleDeleteTags', result,
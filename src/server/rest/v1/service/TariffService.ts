@@ -0,0 +1,241 @@
+import { Action, Entity } from '../../../../types/Authorization';
+import { HTTPAuthError, HTTPError } from '../../../../types/HTTPError';
+import { NextFunction, Request, Response } from 'express';
+import Tariff, { TariffEntityType } from '../../../../types/Tariff';
+
+import AppAuthError from '../../../../exception/AppAuthError';
+import AppError from '../../../../exception/AppError';
+import Authorizations from '../../../../authorization/Authorizations';
+import ChargingStationStorage from '../../../../storage/mongodb/ChargingStationStorage';
+import CompanyStorage from '../../../../storage/mongodb/CompanyStorage';
+import Constants from '../../../../utils/Constants';
+import Logging from '../../../../utils/Logging';
+import { ServerAction } from '../../../../types/Server';
+import SiteAreaStorage from '../../../../storage/mongodb/SiteAreaStorage';
+import SiteStorage from '../../../../storage/mongodb/SiteStorage';
+import TariffStorage from '../../../../storage/mongodb/TariffStorage';
+import TariffValidator from '../validator/TariffValidator';
+import TenantComponents from '../../../../types/TenantComponents';
+import UtilsService from './UtilsService';
+
+const MODULE_NAME = 'TariffService';
+
+export default class TariffService {
+  public static async handleGetTariffs(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.PRICING,
+      Action.LIST, Entity.TARIFFS, MODULE_NAME, 'handleGetTariffs');
+    // Check auth
+    if (!await Authorizations.canListTariffs(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.LIST, entity: Entity.TARIFFS,
+        module: MODULE_NAME, method: 'handleGetTariffs'
+      });
+    }
+    // Filter
+    const filteredRequest = TariffValidator.getInstance().validateTariffsGet(req.query);
+    // Get the tariffs
+    const tariffs = await TariffStorage.getTariffs(req.user.tenantID,
+      {
+        search: filteredRequest.Search,
+        entityTypes: filteredRequest.EntityType ? [filteredRequest.EntityType] : null,
+        entityIDs: filteredRequest.EntityID ? [filteredRequest.EntityID] : null,
+      },
+      {
+        limit: filteredRequest.Limit,
+        skip: filteredRequest.Skip,
+        sort: UtilsService.httpSortFieldsToMongoDB(filteredRequest.SortFields),
+        onlyRecordCount: filteredRequest.OnlyRecordCount
+      },
+      UtilsService.httpFilterProjectToArray(filteredRequest.ProjectFields)
+    );
+    res.json(tariffs);
+    next();
+  }
+
+  public static async handleGetTariff(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.PRICING,
+      Action.READ, Entity.TARIFF, MODULE_NAME, 'handleGetTariff');
+    // Filter
+    const filteredRequest = TariffValidator.getInstance().validateTariffGetByID(req.query);
+    // Check auth
+    if (!await Authorizations.canReadTariff(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.READ, entity: Entity.TARIFF,
+        module: MODULE_NAME, method: 'handleGetTariff',
+        value: filteredRequest.ID
+      });
+    }
+    // Get the tariff
+    const tariff = await TariffStorage.getTariff(req.user.tenantID, filteredRequest.ID,
+      UtilsService.httpFilterProjectToArray(filteredRequest.ProjectFields));
+    UtilsService.assertObjectExists(action, tariff, `Tariff ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleGetTariff', req.user);
+    res.json(tariff);
+    next();
+  }
+
+  public static async handleCreateTariff(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.PRICING,
+      Action.CREATE, Entity.TARIFF, MODULE_NAME, 'handleCreateTariff');
+    // Check auth
+    if (!await Authorizations.canCreateTariff(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.CREATE, entity: Entity.TARIFF,
+        module: MODULE_NAME, method: 'handleCreateTariff'
+      });
+    }
+    // Filter
+    const filteredRequest = TariffValidator.getInstance().validateTariffCreate(req.body);
+    // Check the entity
+    await TariffService.checkTariffEntity(req, action, filteredRequest, 'handleCreateTariff');
+    // Create
+    const tariff: Tariff = {
+      description: filteredRequest.description,
+      currency: filteredRequest.currency,
+      entityType: filteredRequest.entityType,
+      entityID: filteredRequest.entityID,
+      pricings: filteredRequest.pricings,
+      userGroupPricings: filteredRequest.userGroupPricings,
+      idleFee: filteredRequest.idleFee,
+      createdBy: { id: req.user.id },
+      createdOn: new Date()
+    } as Tariff;
+    // Save
+    tariff.id = await TariffStorage.saveTariff(req.user.tenantID, tariff);
+    // Log
+    await Logging.logInfo({
+      tenantID: req.user.tenantID,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleCreateTariff',
+      message: `Tariff '${tariff.description}' has been created successfully for ${tariff.entityType} ID '${tariff.entityID}'`,
+      action: action,
+      detailedMessages: { tariff }
+    });
+    res.json(Object.assign({ id: tariff.id }, Constants.REST_RESPONSE_SUCCESS));
+    next();
+  }
+
+  public static async handleUpdateTariff(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.PRICING,
+      Action.UPDATE, Entity.TARIFF, MODULE_NAME, 'handleUpdateTariff');
+    // Filter
+    const filteredRequest = TariffValidator.getInstance().validateTariffUpdate({ ...req.body, id: req.params.id });
+    // Check auth
+    if (!await Authorizations.canUpdateTariff(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.UPDATE, entity: Entity.TARIFF,
+        module: MODULE_NAME, method: 'handleUpdateTariff',
+        value: filteredRequest.id
+      });
+    }
+    // Get the tariff
+    const tariff = await TariffStorage.getTariff(req.user.tenantID, filteredRequest.id);
+    UtilsService.assertObjectExists(action, tariff, `Tariff ID '${filteredRequest.id}' does not exist`,
+      MODULE_NAME, 'handleUpdateTariff', req.user);
+    // Check the entity
+    await TariffService.checkTariffEntity(req, action, filteredRequest, 'handleUpdateTariff');
+    // Update
+    tariff.description = filteredRequest.description;
+    tariff.currency = filteredRequest.currency;
+    tariff.entityType = filteredRequest.entityType;
+    tariff.entityID = filteredRequest.entityID;
+    tariff.pricings = filteredRequest.pricings;
+    tariff.userGroupPricings = filteredRequest.userGroupPricings;
+    tariff.idleFee = filteredRequest.idleFee;
+    tariff.lastChangedBy = { id: req.user.id };
+    tariff.lastChangedOn = new Date();
+    // Save
+    await TariffStorage.saveTariff(req.user.tenantID, tariff);
+    // Log
+    await Logging.logInfo({
+      tenantID: req.user.tenantID,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleUpdateTariff',
+      message: `Tariff '${tariff.description}' has been updated successfully`,
+      action: action,
+      detailedMessages: { tariff }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  public static async handleDeleteTariff(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.PRICING,
+      Action.DELETE, Entity.TARIFF, MODULE_NAME, 'handleDeleteTariff');
+    // Filter
+    const filteredRequest = TariffValidator.getInstance().validateTariffGetByID(req.query);
+    // Check auth
+    if (!await Authorizations.canDeleteTariff(req.user)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.DELETE, entity: Entity.TARIFF,
+        module: MODULE_NAME, method: 'handleDeleteTariff',
+        value: filteredRequest.ID
+      });
+    }
+    // Get the tariff
+    const tariff = await TariffStorage.getTariff(req.user.tenantID, filteredRequest.ID);
+    UtilsService.assertObjectExists(action, tariff, `Tariff ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleDeleteTariff', req.user);
+    // Delete
+    await TariffStorage.deleteTariff(req.user.tenantID, tariff.id);
+    // Log
+    await Logging.logInfo({
+      tenantID: req.user.tenantID,
+      user: req.user,
+      module: MODULE_NAME, method: 'handleDeleteTariff',
+      message: `Tariff '${tariff.description}' has been deleted successfully`,
+      action: action,
+      detailedMessages: { tariff }
+    });
+    res.json(Constants.REST_RESPONSE_SUCCESS);
+    next();
+  }
+
+  private static async checkTariffEntity(req: Request, action: ServerAction, tariff: Tariff, method: string): Promise<void> {
+    // Check that the priced entity exists
+    let entity: { id?: string };
+    switch (tariff.entityType) {
+      case TariffEntityType.COMPANY:
+        entity = await CompanyStorage.getCompany(req.tenant, tariff.entityID);
+        break;
+      case TariffEntityType.SITE:
+        entity = await SiteStorage.getSite(req.tenant, tariff.entityID);
+        break;
+      case TariffEntityType.SITE_AREA:
+        entity = await SiteAreaStorage.getSiteArea(req.user.tenantID, tariff.entityID);
+        break;
+      case TariffEntityType.CHARGING_STATION:
+        entity = await ChargingStationStorage.getChargingStation(req.user.tenantID, tariff.entityID);
+        break;
+    }
+    UtilsService.assertObjectExists(action, entity, `${tariff.entityType} ID '${tariff.entityID}' does not exist`,
+      MODULE_NAME, method, req.user);
+    // Only one tariff per entity
+    const existingTariff = await TariffStorage.getEntityTariff(req.user.tenantID, tariff.entityType, tariff.entityID);
+    if (existingTariff && existingTariff.id !== tariff.id) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.TARIFF_ALREADY_EXIST_ERROR,
+        message: `${tariff.entityType} ID '${tariff.entityID}' already has the tariff ID '${existingTariff.id}'`,
+        module: MODULE_NAME, method,
+        user: req.user,
+        action: action
+      });
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Action, Entity } from '../../../../types/Authorization';
-import { CryptoSettings, CryptoSettingsType, SettingDB, SettingDBContent, TechnicalSettings, UserSettings, UserSettingsType } from '../../../../types/Setting';
+import { CryptoSettings, CryptoSettingsType, OcppSecuritySettings, OcppSecuritySettingsType, SettingDB, SettingDBContent, TechnicalSettings, UserSettings, UserSettingsType } from '../../../../types/Setting';
 import { HTTPAuthError, HTTPError } from '../../../../types/HTTPError';
 import { NextFunction, Request, Response } from 'express';
 import Tenant, { TenantLogo } from '../../../../types/Tenant';
@@ -13,6 +13,7 @@ import { LockEntity } from '../../../../types/Locking';
 import LockingManager from '../../../../locking/LockingManager';
 import Logging from '../../../../utils/Logging';
 import NotificationHandler from '../../../../notification/NotificationHandler';
+import { OCPPSecurityProfile } from '../../../../types/ocpp/OCPPServer';
 import OICPEndpointStorage from '../../../../storage/mongodb/OICPEndpointStorage';
 import { OICPRole } from '../../../../types/oicp/OICPRole';
 import OICPUtils from '../../../oicp/OICPUtils';
@@ -182,6 +183,7 @@ export default class TenantService {
   public static async createInitialSettingsForTenant(tenantID: string): Promise<void> {
     await this.createInitialCryptoSettings(tenantID);
     await this.createInitialUserSettings(tenantID);
+    await this.createInitialOcppSecuritySettings(tenantID);
   }
 
   public static async createInitialCryptoSettings(tenantID: string): Promise<void> {
@@ -219,6 +221,23 @@ export default class TenantService {
     }
   }
 
+  public static async createInitialOcppSecuritySettings(tenantID: string): Promise<void> {
+    // Check for settings in db
+    const ocppSecuritySettings = await SettingStorage.getOcppSecuritySettings(tenantID);
+    // Create new OCPP security settings
+    if (!ocppSecuritySettings) {
+      const settingsToSave: OcppSecuritySettings = {
+        identifier: TechnicalSettings.OCPP_SECURITY,
+        type: OcppSecuritySettingsType.OCPP_SECURITY,
+        ocppSecurity: {
+          minimumSecurityProfile: OCPPSecurityProfile.NONE
+        },
+        createdOn: new Date(),
+      };
+      await SettingStorage.saveOcppSecuritySettings(tenantID, settingsToSave);
+    }
+  }
+
   public static async handleCreateTenant(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Validate
     const filteredRequest = TenantValidator.getInstance().validateTenantCreateRequestSuperAdmin(req.body);
@@ -636,6 +636,34 @@ export default class TransactionService {
     next();
   }
 
+  public static async handleGetTransactionChargingPlan(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Check if component is active
+    UtilsService.assertComponentIsActiveFromToken(req.user, TenantComponents.SMART_CHARGING,
+      Action.READ, Entity.TRANSACTION, MODULE_NAME, 'handleGetTransactionChargingPlan');
+    // Filter
+    const filteredRequest = TransactionSecurity.filterTransactionRequest(req.query);
+    UtilsService.assertIdIsProvided(action, filteredRequest.ID, MODULE_NAME, 'handleGetTransactionChargingPlan', req.user);
+    // Get Transaction
+    const transaction = await TransactionStorage.getTransaction(req.user.tenantID, filteredRequest.ID, {},
+      ['id', 'chargeBoxID', 'connectorId', 'issuer', 'userID', 'siteAreaID', 'siteID', 'companyID', 'chargingPlan']);
+    UtilsService.assertObjectExists(action, transaction, `Transaction ID '${filteredRequest.ID}' does not exist`,
+      MODULE_NAME, 'handleGetTransactionChargingPlan', req.user);
+    // Check Transaction
+    if (!await Authorizations.canReadTransaction(req.user, transaction)) {
+      throw new AppAuthError({
+        errorCode: HTTPAuthError.FORBIDDEN,
+        user: req.user,
+        action: Action.READ, entity: Entity.TRANSACTION,
+        module: MODULE_NAME, method: 'handleGetTransactionChargingPlan',
+        value: filteredRequest.ID.toString()
+      });
+    }
+    UtilsService.assertObjectExists(action, transaction.chargingPlan, `No Charging Plan has been computed for Transaction ID '${filteredRequest.ID}'`,
+      MODULE_NAME, 'handleGetTransactionChargingPlan', req.user);
+    res.json(transaction.chargingPlan);
+    next();
+  }
+
   public static async handleGetTransaction(action: ServerAction, req: Request, res: Response, next: NextFunction): Promise<void> {
     // Filter
     const filteredRequest = TransactionSecurity.filterTransactionRequest(req.query);
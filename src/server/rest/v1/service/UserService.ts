@@ -29,6 +29,7 @@ import { OCPITokenWhitelist } from '../../../../types/ocpi/OCPIToken';
 import OCPIUtils from '../../../ocpi/OCPIUtils';
 import { ServerAction } from '../../../../types/Server';
 import SiteStorage from '../../../../storage/mongodb/SiteStorage';
+import { SmartChargingPriority } from '../../../../types/SmartCharging';
 import { StartTransactionErrorCode } from '../../../../types/Transaction';
 import TagStorage from '../../../../storage/mongodb/TagStorage';
 import Tenant from '../../../../types/Tenant';
@@ -147,6 +148,7 @@ export default class UserService {
     await UserService.checkAndDeleteCar(req.tenant, req.user, user);
     // Delete User
     await UserStorage.deleteUser(req.user.tenantID, user.id);
+    await UtilsService.triggerLocalAuthorizationListsSynchronization(req.user.tenantID, MODULE_NAME, 'handleDeleteUser');
     // Log
     await Logging.logSecurityInfo({
       tenantID: req.user.tenantID,
@@ -215,15 +217,24 @@ export default class UserService {
       // Save User's Status
       if (filteredRequest.status) {
         await UserStorage.saveUserStatus(req.user.tenantID, user.id, filteredRequest.status);
+        // Only the Tags of active Users are in the Local Authorization Lists
+        if (filteredRequest.status !== user.status) {
+          await UtilsService.triggerLocalAuthorizationListsSynchronization(req.user.tenantID, MODULE_NAME, 'handleUpdateUser');
+        }
       }
       // Save User's Role
       if (filteredRequest.role) {
         await UserStorage.saveUserRole(req.user.tenantID, user.id, filteredRequest.role);
       }
       // Save Admin Data
-      if (Utils.objectHasProperty(filteredRequest, 'plateID')) {
-        const adminData: { plateID?: string; } = {};
-        adminData.plateID = filteredRequest.plateID || null;
+      if (Utils.objectHasProperty(filteredRequest, 'plateID') || Utils.objectHasProperty(filteredRequest, 'smartChargingPriority')) {
+        const adminData: { plateID?: string; smartChargingPriority?: SmartChargingPriority; } = {};
+        if (Utils.objectHasProperty(filteredRequest, 'plateID')) {
+          adminData.plateID = filteredRequest.plateID || null;
+        }
+        if (Utils.objectHasProperty(filteredRequest, 'smartChargingPriority')) {
+          adminData.smartChargingPriority = filteredRequest.smartChargingPriority;
+        }
         await UserStorage.saveUserAdminData(req.user.tenantID, user.id, adminData);
       }
     }
@@ -671,11 +682,15 @@ export default class UserService {
         await UserStorage.saveUserRole(req.user.tenantID, newUser.id, newUser.role);
       }
       // Save Admin Data
-      if (newUser.plateID || Utils.objectHasProperty(newUser, 'notificationsActive')) {
-        const adminData: { plateID?: string; notificationsActive?: boolean; notifications?: UserNotifications } = {};
+      if (newUser.plateID || newUser.smartChargingPriority || Utils.objectHasProperty(newUser, 'notificationsActive')) {
+        const adminData: { plateID?: string; notificationsActive?: boolean; notifications?: UserNotifications;
+          smartChargingPriority?: SmartChargingPriority; } = {};
         if (newUser.plateID) {
           adminData.plateID = newUser.plateID;
         }
+        if (newUser.smartChargingPriority) {
+          adminData.smartChargingPriority = newUser.smartChargingPriority;
+        }
         if (Utils.objectHasProperty(newUser, 'notificationsActive')) {
           adminData.notificationsActive = newUser.notificationsActive;
           if (newUser.notifications) {
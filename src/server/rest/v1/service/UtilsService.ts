@@ -1,4 +1,5 @@
 import { Action, Entity } from '../../../../types/Authorization';
+import { AsyncTaskType, AsyncTasks } from '../../../../types/AsyncTask';
 import { Car, CarCatalog, CarType } from '../../../../types/Car';
 import ChargingStation, { ChargePoint, Voltage } from '../../../../types/ChargingStation';
 import { HTTPAuthError, HTTPError } from '../../../../types/HTTPError';
@@ -9,6 +10,7 @@ import AppAuthError from '../../../../exception/AppAuthError';
 import AppError from '../../../../exception/AppError';
 import Asset from '../../../../types/Asset';
 import AssetStorage from '../../../../storage/mongodb/AssetStorage';
+import AsyncTaskManager from '../../../../async-task/AsyncTaskManager';
 import AuthorizationService from './AuthorizationService';
 import Authorizations from '../../../../authorization/Authorizations';
 import CarStorage from '../../../../storage/mongodb/CarStorage';
@@ -23,6 +25,7 @@ import { EntityDataType } from '../../../../types/GlobalType';
 import { HttpEndUserReportErrorRequest } from '../../../../types/requests/HttpNotificationRequest';
 import Logging from '../../../../utils/Logging';
 import OCPIEndpoint from '../../../../types/ocpi/OCPIEndpoint';
+import { OCPPPhase } from '../../../../types/ocpp/OCPPServer';
 import OICPEndpoint from '../../../../types/oicp/OICPEndpoint';
 import PDFDocument from 'pdfkit';
 import { ServerAction } from '../../../../types/Server';
@@ -30,6 +33,7 @@ import Site from '../../../../types/Site';
 import SiteArea from '../../../../types/SiteArea';
 import SiteAreaStorage from '../../../../storage/mongodb/SiteAreaStorage';
 import SiteStorage from '../../../../storage/mongodb/SiteStorage';
+import { SolarChargingMode } from '../../../../types/SmartCharging';
 import Tag from '../../../../types/Tag';
 import TagStorage from '../../../../storage/mongodb/TagStorage';
 import Tenant from '../../../../types/Tenant';
@@ -1263,6 +1267,30 @@ export default class UtilsService {
         user: req.user.id
       });
     }
+    // Phase Assignment
+    if (siteArea.phaseAssignmentToGrid) {
+      const gridPhases = [siteArea.phaseAssignmentToGrid.csPhaseL1, siteArea.phaseAssignmentToGrid.csPhaseL2,
+        siteArea.phaseAssignmentToGrid.csPhaseL3].slice(0, siteArea.numberOfPhases);
+      if (gridPhases.some((gridPhase) => ![OCPPPhase.L1, OCPPPhase.L2, OCPPPhase.L3].includes(gridPhase)) ||
+          new Set(gridPhases).size !== gridPhases.length) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          errorCode: HTTPError.GENERAL_ERROR,
+          message: `Site area phase assignment must map each of its ${siteArea.numberOfPhases} phase(s) to a different phase L1, L2 or L3`,
+          module: MODULE_NAME, method: 'checkIfSiteAreaValid',
+          user: req.user.id
+        });
+      }
+    }
+    if (siteArea.solarChargingMode && !Object.values(SolarChargingMode).includes(siteArea.solarChargingMode)) {
+      throw new AppError({
+        source: Constants.CENTRAL_SERVER,
+        errorCode: HTTPError.GENERAL_ERROR,
+        message: `Site area solar charging mode '${siteArea.solarChargingMode as string}' is not supported`,
+        module: MODULE_NAME, method: 'checkIfSiteAreaValid',
+        user: req.user.id
+      });
+    }
   }
 
   public static checkIfCompanyValid(company: Partial<Company>, req: Request): void {
@@ -1363,6 +1391,38 @@ export default class UtilsService {
         });
       }
     }
+    if (asset.battery) {
+      if (!(typeof asset.battery.capacityWh === 'number') || asset.battery.capacityWh <= 0) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          errorCode: HTTPError.GENERAL_ERROR,
+          message: 'Battery capacity must be a positive number',
+          module: MODULE_NAME, method: 'checkIfAssetValid',
+          user: req.user.id
+        });
+      }
+      if (!(typeof asset.battery.maxChargeWatts === 'number') || asset.battery.maxChargeWatts < 0 ||
+          !(typeof asset.battery.maxDischargeWatts === 'number') || asset.battery.maxDischargeWatts < 0) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          errorCode: HTTPError.GENERAL_ERROR,
+          message: 'Battery maximum charge and discharge power must be positive numbers',
+          module: MODULE_NAME, method: 'checkIfAssetValid',
+          user: req.user.id
+        });
+      }
+      if (!(typeof asset.battery.minStateOfChargePercent === 'number') || !(typeof asset.battery.maxStateOfChargePercent === 'number') ||
+          asset.battery.minStateOfChargePercent < 0 || asset.battery.maxStateOfChargePercent > 100 ||
+          asset.battery.minStateOfChargePercent >= asset.battery.maxStateOfChargePercent) {
+        throw new AppError({
+          source: Constants.CENTRAL_SERVER,
+          errorCode: HTTPError.GENERAL_ERROR,
+          message: 'Battery state of charge limits should be between 0 and 100 with the minimum below the maximum',
+          module: MODULE_NAME, method: 'checkIfAssetValid',
+          user: req.user.id
+        });
+      }
+    }
   }
 
   public static checkIfUserTagIsValid(tag: Partial<Tag>, req: Request): void {
@@ -1709,6 +1769,17 @@ export default class UtilsService {
     }
   }
 
+  public static async triggerLocalAuthorizationListsSynchronization(tenantID: string, module: string, method: string): Promise<void> {
+    // Push the Tag changes to the Local Authorization Lists of the Charging Stations
+    await AsyncTaskManager.createAndSaveAsyncTaskIfNotPending({
+      name: AsyncTasks.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS,
+      action: ServerAction.SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS,
+      type: AsyncTaskType.TASK,
+      tenantID,
+      module, method,
+    });
+  }
+
   // eslint-disable-next-line @typescript-eslint/ban-types
   public static async processSensitiveData(tenantID: string, currentProperties: object, newProperties: object): Promise<void> {
     // Process the sensitive data (if any)
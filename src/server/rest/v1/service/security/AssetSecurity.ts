@@ -85,6 +85,15 @@ export default class AssetSecurity {
       filteredRequest.connectionID = sanitize(request.connectionID);
       filteredRequest.meterID = sanitize(request.meterID);
     }
+    if (request.battery) {
+      filteredRequest.battery = {
+        capacityWh: sanitize(request.battery.capacityWh),
+        maxChargeWatts: sanitize(request.battery.maxChargeWatts),
+        maxDischargeWatts: sanitize(request.battery.maxDischargeWatts),
+        minStateOfChargePercent: sanitize(request.battery.minStateOfChargePercent),
+        maxStateOfChargePercent: sanitize(request.battery.maxStateOfChargePercent),
+      };
+    }
     return filteredRequest;
   }
 }
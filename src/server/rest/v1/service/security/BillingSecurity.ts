@@ -1,4 +1,4 @@
-import { HttpBillingInvoiceRequest, HttpBillingRequest, HttpBillingWebHookRequest, HttpDeletePaymentMethod, HttpPaymentMethods, HttpSetupPaymentMethod } from '../../../../../types/requests/HttpBillingRequest';
+import { HttpAssignUsersToBillingAccountRequest, HttpBillingAccountRequest, HttpBillingAccountsRequest, HttpBillingInvoiceRequest, HttpBillingRequest, HttpBillingWebHookRequest, HttpCancelSubscriptionRequest, HttpCreditNoteRequest, HttpDeletePaymentMethod, HttpExportInvoiceSessionsRequest, HttpPaymentMethods, HttpSetupPaymentMethod, HttpSubscriptionPlanRequest, HttpSubscriptionPlansRequest, HttpSubscriptionsRequest, HttpWalletOperationsRequest, HttpWalletTopUpRequest } from '../../../../../types/requests/HttpBillingRequest';
 import { HttpCreateTransactionInvoiceRequest, HttpForceSynchronizeUserInvoicesRequest, HttpSynchronizeUserRequest } from '../../../../../types/requests/HttpUserRequest';
 
 import Utils from '../../../../../utils/Utils';
@@ -34,6 +34,9 @@ export default class BillingSecurity {
     if (Utils.objectHasProperty(requestQuery, 'Search')) {
       filteredRequest.Search = sanitize(requestQuery.Search);
     }
+    if (Utils.objectHasProperty(requestQuery, 'BillingAccountID')) {
+      filteredRequest.BillingAccountID = sanitize(requestQuery.BillingAccountID);
+    }
     UtilsSecurity.filterSkipAndLimit(requestQuery, filteredRequest);
     UtilsSecurity.filterSort(requestQuery, filteredRequest);
     return filteredRequest;
@@ -90,4 +93,117 @@ export default class BillingSecurity {
       paymentMethodId: sanitize(requestBody.paymentMethodId),
     };
   }
+
+  static filterWalletOperationsRequest(requestQuery: any): HttpWalletOperationsRequest {
+    const filteredRequest = {
+      userID: sanitize(requestQuery.userID)
+    } as HttpWalletOperationsRequest;
+    if (Utils.objectHasProperty(requestQuery, 'StartDateTime')) {
+      filteredRequest.StartDateTime = sanitize(requestQuery.StartDateTime);
+    }
+    if (Utils.objectHasProperty(requestQuery, 'EndDateTime')) {
+      filteredRequest.EndDateTime = sanitize(requestQuery.EndDateTime);
+    }
+    UtilsSecurity.filterSkipAndLimit(requestQuery, filteredRequest);
+    UtilsSecurity.filterSort(requestQuery, filteredRequest);
+    return filteredRequest;
+  }
+
+  static filterWalletTopUpRequest(requestBody: any): HttpWalletTopUpRequest {
+    return {
+      userID: sanitize(requestBody.userID),
+      amount: Utils.convertToFloat(sanitize(requestBody.amount)),
+      currency: sanitize(requestBody.currency),
+      description: sanitize(requestBody.description),
+    };
+  }
+
+  static filterCreditNoteRequest(requestBody: any): HttpCreditNoteRequest {
+    return {
+      invoiceID: sanitize(requestBody.invoiceID),
+      transactionID: Utils.convertToInt(sanitize(requestBody.transactionID)),
+      // No amount means the whole session
+      amount: !Utils.isNullOrUndefined(requestBody.amount) ? Utils.convertToFloat(sanitize(requestBody.amount)) : null,
+      reason: sanitize(requestBody.reason),
+    };
+  }
+
+  static filterGetBillingAccountsRequest(requestQuery: any): HttpBillingAccountsRequest {
+    const filteredRequest = {} as HttpBillingAccountsRequest;
+    if (Utils.objectHasProperty(requestQuery, 'Search')) {
+      filteredRequest.Search = sanitize(requestQuery.Search);
+    }
+    if (Utils.objectHasProperty(requestQuery, 'CompanyID')) {
+      filteredRequest.CompanyID = sanitize(requestQuery.CompanyID);
+    }
+    UtilsSecurity.filterSkipAndLimit(requestQuery, filteredRequest);
+    UtilsSecurity.filterSort(requestQuery, filteredRequest);
+    UtilsSecurity.filterProject(requestQuery, filteredRequest);
+    return filteredRequest;
+  }
+
+  static filterGetBillingAccountRequest(requestQuery: any): HttpBillingAccountRequest {
+    return {
+      ID: sanitize(requestQuery.ID),
+      WithUsers: Utils.objectHasProperty(requestQuery, 'WithUsers') ? UtilsSecurity.filterBoolean(requestQuery.WithUsers) : false,
+    };
+  }
+
+  static filterAssignUsersToBillingAccountRequest(requestBody: any): HttpAssignUsersToBillingAccountRequest {
+    return {
+      billingAccountID: sanitize(requestBody.billingAccountID),
+      userIDs: Array.isArray(requestBody.userIDs) ? requestBody.userIDs.map((userID: string) => sanitize(userID)) : [],
+    };
+  }
+
+  static filterExportInvoiceSessionsRequest(requestQuery: any): HttpExportInvoiceSessionsRequest {
+    const filteredRequest = {
+      ID: sanitize(requestQuery.ID)
+    } as HttpExportInvoiceSessionsRequest;
+    UtilsSecurity.filterSkipAndLimit(requestQuery, filteredRequest);
+    return filteredRequest;
+  }
+
+  static filterGetSubscriptionPlansRequest(requestQuery: any): HttpSubscriptionPlansRequest {
+    const filteredRequest = {} as HttpSubscriptionPlansRequest;
+    if (Utils.objectHasProperty(requestQuery, 'Search')) {
+      filteredRequest.Search = sanitize(requestQuery.Search);
+    }
+    if (Utils.objectHasProperty(requestQuery, 'Active')) {
+      filteredRequest.Active = UtilsSecurity.filterBoolean(requestQuery.Active);
+    }
+    UtilsSecurity.filterSkipAndLimit(requestQuery, filteredRequest);
+    UtilsSecurity.filterSort(requestQuery, filteredRequest);
+    return filteredRequest;
+  }
+
+  static filterGetSubscriptionPlanRequest(requestQuery: any): HttpSubscriptionPlanRequest {
+    return {
+      ID: sanitize(requestQuery.ID),
+    };
+  }
+
+  static filterGetSubscriptionsRequest(requestQuery: any): HttpSubscriptionsRequest {
+    const filteredRequest = {} as HttpSubscriptionsRequest;
+    if (Utils.objectHasProperty(requestQuery, 'UserID')) {
+      filteredRequest.UserID = sanitize(requestQuery.UserID);
+    }
+    if (Utils.objectHasProperty(requestQuery, 'PlanID')) {
+      filteredRequest.PlanID = sanitize(requestQuery.PlanID);
+    }
+    if (Utils.objectHasProperty(requestQuery, 'Status')) {
+      filteredRequest.Status = sanitize(requestQuery.Status);
+    }
+    UtilsSecurity.filterSkipAndLimit(requestQuery, filteredRequest);
+    UtilsSecurity.filterSort(requestQuery, filteredRequest);
+    return filteredRequest;
+  }
+
+  static filterCancelSubscriptionRequest(requestBody: any): HttpCancelSubscriptionRequest {
+    return {
+      subscriptionID: sanitize(requestBody.subscriptionID),
+      // The subscription ends with its current period by default
+      immediately: Utils.objectHasProperty(requestBody, 'immediately') ? UtilsSecurity.filterBoolean(requestBody.immediately) : false,
+    };
+  }
 }
@@ -1,6 +1,7 @@
-import { AnalyticsSettingsType, AssetConnectionSetting, AssetConnectionType, AssetSettingsType, BillingSettingsType, CarConnectorConnectionSetting, CarConnectorConnectionType, CarConnectorSettingsType, ConcurRefundSetting, CryptoSettingsType, OcpiBusinessDetails, OcpiSetting, OicpBusinessDetails, OicpSetting, PricingSettingsType, RefundSettingsType, RoamingSettingsType, SettingDB, SettingDBContent, SettingLink, SimplePricingSetting, SmartChargingSettingsType, UserSettingsType } from '../../../../../types/Setting';
+import { AnalyticsSettingsType, AssetConnectionSetting, AssetConnectionType, AssetSettingsType, BillingSettingsType, CarConnectorConnectionSetting, CarConnectorConnectionType, CarConnectorSettingsType, ConcurRefundSetting, CryptoSettingsType, OcpiBusinessDetails, OcpiSetting, OcppSecuritySettingsType, OicpBusinessDetails, OicpSetting, PricingSettingsType, RefundSettingsType, RoamingSettingsType, SettingDB, SettingDBContent, SettingLink, SimplePricingSetting, SmartChargingSettingsType, UserSettingsType } from '../../../../../types/Setting';
 import { HttpSettingRequest, HttpSettingsRequest } from '../../../../../types/requests/HttpSettingRequest';
 
+import { BillingTax } from '../../../../../types/Billing';
 import Utils from '../../../../../utils/Utils';
 import UtilsSecurity from './UtilsSecurity';
 import sanitize from 'mongo-sanitize';
@@ -173,6 +174,9 @@ export default class SettingSecurity {
             settings.content.simple = {
               price: sanitize(request.content.simple.price),
               currency: sanitize(request.content.simple.currency),
+              pricings: request.content.simple.pricings ? sanitize(request.content.simple.pricings) : [],
+              userGroupPricings: request.content.simple.userGroupPricings ? sanitize(request.content.simple.userGroupPricings) : [],
+              idleFee: request.content.simple.idleFee ? sanitize(request.content.simple.idleFee) : null,
             };
           } else {
             settings.content.simple = { } as SimplePricingSetting;
@@ -183,7 +187,9 @@ export default class SettingSecurity {
             isTransactionBillingActivated : sanitize(request.content.billing.isTransactionBillingActivated),
             immediateBillingAllowed: sanitize(request.content.billing.immediateBillingAllowed),
             periodicBillingAllowed: sanitize(request.content.billing.periodicBillingAllowed),
-            taxID: sanitize(request.content.billing.taxID)
+            taxID: sanitize(request.content.billing.taxID),
+            isWalletActivated: sanitize(request.content.billing.isWalletActivated),
+            walletMinimumBalance: sanitize(request.content.billing.walletMinimumBalance),
           };
           settings.content.stripe = {
             url: sanitize(request.content.stripe.url),
@@ -191,6 +197,29 @@ export default class SettingSecurity {
             publicKey: sanitize(request.content.stripe.publicKey),
           };
           break;
+        case BillingSettingsType.LOCAL_BILLING:
+          settings.content.billing = {
+            isTransactionBillingActivated : sanitize(request.content.billing.isTransactionBillingActivated),
+            immediateBillingAllowed: sanitize(request.content.billing.immediateBillingAllowed),
+            periodicBillingAllowed: sanitize(request.content.billing.periodicBillingAllowed),
+            taxID: sanitize(request.content.billing.taxID),
+            isWalletActivated: sanitize(request.content.billing.isWalletActivated),
+            walletMinimumBalance: sanitize(request.content.billing.walletMinimumBalance),
+          };
+          settings.content.localBilling = {
+            companyName: sanitize(request.content.localBilling.companyName),
+            companyAddress: sanitize(request.content.localBilling.companyAddress),
+            companyTaxNumber: sanitize(request.content.localBilling.companyTaxNumber),
+            invoiceNumberPrefix: sanitize(request.content.localBilling.invoiceNumberPrefix),
+            paymentInstructions: sanitize(request.content.localBilling.paymentInstructions),
+            taxes: request.content.localBilling.taxes ? request.content.localBilling.taxes.map((tax: BillingTax) => ({
+              id: sanitize(tax.id),
+              description: sanitize(tax.description),
+              displayName: sanitize(tax.displayName),
+              percentage: sanitize(tax.percentage),
+            })) : [],
+          };
+          break;
         case SmartChargingSettingsType.SAP_SMART_CHARGING:
           settings.content.sapSmartCharging = {
             optimizerUrl: sanitize(request.content.sapSmartCharging.optimizerUrl),
@@ -201,6 +230,13 @@ export default class SettingSecurity {
             limitBufferAC: sanitize(request.content.sapSmartCharging.limitBufferAC),
           };
           break;
+        case SmartChargingSettingsType.LOCAL_SMART_CHARGING:
+          settings.content.localSmartCharging = {
+            safetyMarginPercent: sanitize(request.content.localSmartCharging.safetyMarginPercent),
+            solarHysteresisAmps: sanitize(request.content.localSmartCharging.solarHysteresisAmps),
+            chargingScheduleOptimization: sanitize(request.content.localSmartCharging.chargingScheduleOptimization),
+          };
+          break;
         case AssetSettingsType.ASSET:
           settings.content.asset = {
             connections: [],
@@ -250,6 +286,19 @@ export default class SettingSecurity {
                   password: sanitize(connection.lacroixConnection.password),
                 };
                 break;
+              case AssetConnectionType.MODBUS:
+                sanitizedConnection.modbusConnection = {
+                  unitID: sanitize(connection.modbusConnection.unitID),
+                  registers: sanitize(connection.modbusConnection.registers),
+                };
+                break;
+              case AssetConnectionType.MQTT:
+                sanitizedConnection.mqttConnection = {
+                  user: sanitize(connection.mqttConnection.user),
+                  password: sanitize(connection.mqttConnection.password),
+                  payloadPaths: sanitize(connection.mqttConnection.payloadPaths),
+                };
+                break;
             }
             settings.content.asset.connections.push(sanitizedConnection);
           }
@@ -301,6 +350,11 @@ export default class SettingSecurity {
             autoActivateAccountAfterValidation: UtilsSecurity.filterBoolean(request.content.user.autoActivateAccountAfterValidation)
           };
           break;
+        case OcppSecuritySettingsType.OCPP_SECURITY:
+          settings.content.ocppSecurity = {
+            minimumSecurityProfile: Utils.convertToInt(sanitize(request.content.ocppSecurity.minimumSecurityProfile))
+          };
+          break;
       }
     }
     return settings;
@@ -37,7 +37,8 @@ export default class SiteAreaSecurity {
     return {
       ID: sanitize(request.ID),
       WithChargingStations: !request.WithChargeBoxes ? false : sanitize(request.WithChargingStations),
-      WithSite: !request.WithSite ? false : sanitize(request.WithSite)
+      WithSite: !request.WithSite ? false : sanitize(request.WithSite),
+      WithParentSiteArea: !request.WithParentSiteArea ? false : UtilsSecurity.filterBoolean(request.WithParentSiteArea)
     } as HttpSiteAreaRequest;
   }
 
@@ -48,7 +49,8 @@ export default class SiteAreaSecurity {
       WithChargeBoxes: !request.WithChargeBoxes ? false : UtilsSecurity.filterBoolean(request.WithChargeBoxes),
       WithAvailableChargers: !request.WithAvailableChargers ? false : UtilsSecurity.filterBoolean(request.WithAvailableChargers),
       SiteID: sanitize(request.SiteID),
-      CompanyID: sanitize(request.CompanyID)
+      CompanyID: sanitize(request.CompanyID),
+      ParentSiteAreaID: sanitize(request.ParentSiteAreaID)
     } as HttpSiteAreasRequest;
     if (Utils.objectHasProperty(request, 'Issuer')) {
       filteredRequest.Issuer = UtilsSecurity.filterBoolean(request.Issuer);
@@ -103,6 +105,23 @@ export default class SiteAreaSecurity {
     if (Utils.objectHasProperty(request, 'image')) {
       filteredRequest.image = sanitize(request.image);
     }
+    if (Utils.objectHasProperty(request, 'openingTimes')) {
+      filteredRequest.openingTimes = UtilsSecurity.filterOpeningTimesRequest(request.openingTimes);
+    }
+    if (Utils.objectHasProperty(request, 'solarChargingMode')) {
+      filteredRequest.solarChargingMode = sanitize(request.solarChargingMode);
+    }
+    if (Utils.objectHasProperty(request, 'parentSiteAreaID')) {
+      filteredRequest.parentSiteAreaID = sanitize(request.parentSiteAreaID);
+    }
+    if (Utils.objectHasProperty(request, 'phaseAssignmentToGrid')) {
+      // Null resets the phase assignment
+      filteredRequest.phaseAssignmentToGrid = request.phaseAssignmentToGrid ? {
+        csPhaseL1: sanitize(request.phaseAssignmentToGrid.csPhaseL1),
+        csPhaseL2: sanitize(request.phaseAssignmentToGrid.csPhaseL2),
+        csPhaseL3: sanitize(request.phaseAssignmentToGrid.csPhaseL3),
+      } : null;
+    }
     return filteredRequest;
   }
 }
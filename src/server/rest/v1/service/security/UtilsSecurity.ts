@@ -1,5 +1,6 @@
 import Address from '../../../../../types/Address';
 import Constants from '../../../../../utils/Constants';
+import { OpeningTimes } from '../../../../../types/OpeningTimes';
 import Utils from '../../../../../utils/Utils';
 import sanitize from 'mongo-sanitize';
 
@@ -114,6 +115,28 @@ export default class UtilsSecurity {
     return filteredAddress;
   }
 
+  static filterOpeningTimesRequest(openingTimes: OpeningTimes): OpeningTimes {
+    if (!openingTimes) {
+      return null;
+    }
+    return {
+      twentyFourBySeven: UtilsSecurity.filterBoolean(openingTimes.twentyFourBySeven),
+      regularHours: Array.isArray(openingTimes.regularHours) ? openingTimes.regularHours.map((regularHour) => ({
+        weekday: Utils.convertToInt(sanitize(regularHour.weekday)),
+        periodBegin: sanitize(regularHour.periodBegin),
+        periodEnd: sanitize(regularHour.periodEnd),
+      })) : [],
+      exceptionalOpenings: Array.isArray(openingTimes.exceptionalOpenings) ? openingTimes.exceptionalOpenings.map((period) => ({
+        periodBegin: Utils.convertToDate(sanitize(period.periodBegin)),
+        periodEnd: Utils.convertToDate(sanitize(period.periodEnd)),
+      })) : [],
+      exceptionalClosings: Array.isArray(openingTimes.exceptionalClosings) ? openingTimes.exceptionalClosings.map((period) => ({
+        periodBegin: Utils.convertToDate(sanitize(period.periodBegin)),
+        periodEnd: Utils.convertToDate(sanitize(period.periodEnd)),
+      })) : [],
+    };
+  }
+
   static filterAddressCoordinatesRequest(address: Address): number[] {
     if (address && Utils.objectHasProperty(address, 'coordinates') && !Utils.isEmptyArray(address.coordinates) && address.coordinates.length === 2) {
       return [
@@ -1,4 +1,7 @@
+import { BillingAccount, BillingSubscriptionPlan } from '../../../../types/Billing';
+
 import { BillingSettings } from '../../../../types/Setting';
+import { HttpCreateSubscriptionRequest } from '../../../../types/requests/HttpBillingRequest';
 import Schema from '../../../../types/validator/Schema';
 import SchemaValidator from './SchemaValidator';
 import fs from 'fs';
@@ -7,10 +10,20 @@ import global from '../../../../types/GlobalType';
 export default class BillingValidator extends SchemaValidator {
   private static instance: BillingValidator|null = null;
   private updateBillingSetting: Schema;
+  private createBillingAccount: Schema;
+  private updateBillingAccount: Schema;
+  private createSubscriptionPlan: Schema;
+  private updateSubscriptionPlan: Schema;
+  private createSubscription: Schema;
 
   private constructor() {
     super('BillingValidator');
     this.updateBillingSetting = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/billing/billing-setting-update.json`, 'utf8'));
+    this.createBillingAccount = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/billing/billing-account-create.json`, 'utf8'));
+    this.updateBillingAccount = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/billing/billing-account-update.json`, 'utf8'));
+    this.createSubscriptionPlan = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/billing/subscription-plan-create.json`, 'utf8'));
+    this.updateSubscriptionPlan = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/billing/subscription-plan-update.json`, 'utf8'));
+    this.createSubscription = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/billing/subscription-create.json`, 'utf8'));
   }
 
   public static getInstance(): BillingValidator {
@@ -26,4 +39,39 @@ export default class BillingValidator extends SchemaValidator {
     this.validate(this.updateBillingSetting, data);
     return data;
   }
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  public validateCreateBillingAccount(data: any): BillingAccount {
+    // Validate schema
+    this.validate(this.createBillingAccount, data);
+    return data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  public validateUpdateBillingAccount(data: any): BillingAccount {
+    // Validate schema
+    this.validate(this.updateBillingAccount, data);
+    return data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  public validateCreateSubscriptionPlan(data: any): BillingSubscriptionPlan {
+    // Validate schema
+    this.validate(this.createSubscriptionPlan, data);
+    return data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  public validateUpdateSubscriptionPlan(data: any): BillingSubscriptionPlan {
+    // Validate schema
+    this.validate(this.updateSubscriptionPlan, data);
+    return data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  public validateCreateSubscription(data: any): HttpCreateSubscriptionRequest {
+    // Validate schema
+    this.validate(this.createSubscription, data);
+    return data;
+  }
 }
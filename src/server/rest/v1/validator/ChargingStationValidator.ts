@@ -1,4 +1,4 @@
-import { HttpChargingProfilesRequest, HttpChargingStationCommandRequest, HttpChargingStationConnectorRequest, HttpChargingStationGetFirmwareRequest, HttpChargingStationLimitPowerRequest, HttpChargingStationOcppParametersRequest, HttpChargingStationOcppRequest, HttpChargingStationParamsUpdateRequest, HttpChargingStationRequest, HttpChargingStationsInErrorRequest, HttpChargingStationsRequest, HttpDownloadQrCodeRequest, HttpTriggerSmartChargingRequest } from '../../../../types/requests/HttpChargingStationRequest';
+import { HttpChargingProfilesRequest, HttpChargingStationCommandRequest, HttpChargingStationConnectorRequest, HttpChargingStationGetFirmwareRequest, HttpChargingStationLimitPowerRequest, HttpChargingStationOcppParametersRequest, HttpChargingStationOcppRequest, HttpChargingStationParamsUpdateRequest, HttpChargingStationPriceEstimateRequest, HttpChargingStationRequest, HttpChargingStationReservationsRequest, HttpChargingStationSecurityProfileUpdateRequest, HttpChargingStationsInErrorRequest, HttpChargingStationsRequest, HttpDownloadQrCodeRequest, HttpSimulateSmartChargingRequest, HttpTriggerSmartChargingRequest } from '../../../../types/requests/HttpChargingStationRequest';
 
 import { ChargingProfile } from '../../../../types/ChargingProfile';
 import HttpDatabaseRequest from '../../../../types/requests/HttpDatabaseRequest';
@@ -21,12 +21,17 @@ export default class ChargingStationValidator extends SchemaValidator {
   private chargingStationLimitPower: Schema;
   private chargingStationFirmwareDownload: Schema;
   private smartChargingTrigger: Schema;
+  private smartChargingSimulate: Schema;
   private chargingStationInErrorGet: Schema;
   private chargingProfileCreate: Schema;
   private chargingProfilesGet: Schema;
   private chargingProfileDelete: Schema;
   private chargingProfileUpdate: Schema;
   private chargingStationNotificationsGet: Schema;
+  private chargingStationReservationsGet: Schema;
+  private chargingStationLocalListGet: Schema;
+  private chargingStationPriceEstimateGet: Schema;
+  private chargingStationSecurityProfileUpdate: Schema;
 
   private constructor() {
     super('ChargingStationValidator');
@@ -42,12 +47,17 @@ export default class ChargingStationValidator extends SchemaValidator {
     this.chargingStationLimitPower = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-limit-power.json`, 'utf8'));
     this.chargingStationFirmwareDownload = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-firmware-download.json`, 'utf8'));
     this.smartChargingTrigger = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/smartcharging-trigger.json`, 'utf8'));
+    this.smartChargingSimulate = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/smartcharging-simulate.json`, 'utf8'));
     this.chargingStationInErrorGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstations-inerror-get.json`, 'utf8'));
     this.chargingProfileCreate = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingprofile-create.json`, 'utf8'));
     this.chargingProfilesGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingprofiles-get.json`, 'utf8'));
     this.chargingProfileDelete = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingprofile-delete.json`, 'utf8'));
     this.chargingProfileUpdate = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingprofile-update.json`, 'utf8'));
     this.chargingStationNotificationsGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-notifications.json`, 'utf8'));
+    this.chargingStationReservationsGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-reservations-get.json`, 'utf8'));
+    this.chargingStationLocalListGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-local-list-get.json`, 'utf8'));
+    this.chargingStationPriceEstimateGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-price-estimate-get.json`, 'utf8'));
+    this.chargingStationSecurityProfileUpdate = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation-security-profile-update.json`, 'utf8'));
   }
 
   public static getInstance(): ChargingStationValidator {
@@ -129,6 +139,12 @@ export default class ChargingStationValidator extends SchemaValidator {
     return data;
   }
 
+  public validateSmartChargingSimulateReq(data: any): HttpSimulateSmartChargingRequest {
+    // Validate schema
+    this.validate(this.smartChargingSimulate, data);
+    return data;
+  }
+
   public validateChargingStationInErrorReq(data: any): HttpChargingStationsInErrorRequest {
     // Validate schema
     this.validate(this.chargingStationInErrorGet, data);
@@ -141,6 +157,30 @@ export default class ChargingStationValidator extends SchemaValidator {
     return data;
   }
 
+  public validateChargingStationReservationsGetReq(data: any): HttpChargingStationReservationsRequest {
+    // Validate schema
+    this.validate(this.chargingStationReservationsGet, data);
+    return data;
+  }
+
+  public validateChargingStationLocalListGetReq(data: any): HttpChargingStationOcppRequest {
+    // Validate schema
+    this.validate(this.chargingStationLocalListGet, data);
+    return data;
+  }
+
+  public validateChargingStationPriceEstimateGetReq(data: any): HttpChargingStationPriceEstimateRequest {
+    // Validate schema
+    this.validate(this.chargingStationPriceEstimateGet, data);
+    return data;
+  }
+
+  public validateChargingStationSecurityProfileUpdateReq(data: any): HttpChargingStationSecurityProfileUpdateRequest {
+    // Validate schema
+    this.validate(this.chargingStationSecurityProfileUpdate, data);
+    return data;
+  }
+
   public validateChargingProfilesGetReq(data: any): HttpChargingProfilesRequest {
     // Validate schema
     this.validate(this.chargingProfilesGet, data);
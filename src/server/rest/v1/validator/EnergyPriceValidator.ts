@@ -0,0 +1,42 @@
+import { HttpEnergyPricesDeleteRequest, HttpEnergyPricesImportRequest, HttpEnergyPricesRequest } from '../../../../types/requests/HttpEnergyPriceRequest';
+
+import Schema from '../../../../types/validator/Schema';
+import SchemaValidator from './SchemaValidator';
+import fs from 'fs';
+import global from '../../../../types/GlobalType';
+
+export default class EnergyPriceValidator extends SchemaValidator {
+  private static instance: EnergyPriceValidator|null = null;
+  private energyPricesGet: Schema;
+  private energyPricesDelete: Schema;
+  private energyPricesImport: Schema;
+
+  private constructor() {
+    super('EnergyPriceValidator');
+    this.energyPricesGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/energy-price/energy-prices-get.json`, 'utf8'));
+    this.energyPricesDelete = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/energy-price/energy-prices-delete.json`, 'utf8'));
+    this.energyPricesImport = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/energy-price/energy-prices-import.json`, 'utf8'));
+  }
+
+  public static getInstance(): EnergyPriceValidator {
+    if (!EnergyPriceValidator.instance) {
+      EnergyPriceValidator.instance = new EnergyPriceValidator();
+    }
+    return EnergyPriceValidator.instance;
+  }
+
+  validateEnergyPricesGet(data: any): HttpEnergyPricesRequest {
+    this.validate(this.energyPricesGet, data);
+    return data;
+  }
+
+  validateEnergyPricesDelete(data: any): HttpEnergyPricesDeleteRequest {
+    this.validate(this.energyPricesDelete, data);
+    return data;
+  }
+
+  validateEnergyPricesImport(data: any): HttpEnergyPricesImportRequest {
+    this.validate(this.energyPricesImport, data);
+    return data;
+  }
+}
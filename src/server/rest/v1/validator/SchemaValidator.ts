@@ -19,6 +19,7 @@ export default class SchemaValidator {
   private tenantComponentSchema: Schema = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tenant/tenant-components.json`, 'utf8'));
   private chargingStationSchema: Schema = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/chargingstation/chargingstation.json`, 'utf8'));
   private tagSchema: Schema = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tag/tag.json`, 'utf8'));
+  private tariffSchema: Schema = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tariff/tariff.json`, 'utf8'));
   private transactionSchema: Schema = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/transaction/transaction.json`, 'utf8'));
   private userSchema: Schema = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/user/user.json`, 'utf8'));
 
@@ -46,6 +47,7 @@ export default class SchemaValidator {
     this.ajv.addSchema(this.tenantComponentSchema);
     this.ajv.addSchema(this.chargingStationSchema);
     this.ajv.addSchema(this.tagSchema);
+    this.ajv.addSchema(this.tariffSchema);
     this.ajv.addSchema(this.transactionSchema);
     this.ajv.addSchema(this.userSchema);
   }
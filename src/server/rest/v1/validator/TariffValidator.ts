@@ -0,0 +1,50 @@
+import { HttpTariffRequest, HttpTariffsRequest } from '../../../../types/requests/HttpTariffRequest';
+
+import Schema from '../../../../types/validator/Schema';
+import SchemaValidator from './SchemaValidator';
+import Tariff from '../../../../types/Tariff';
+import fs from 'fs';
+import global from '../../../../types/GlobalType';
+
+export default class TariffValidator extends SchemaValidator {
+  private static instance: TariffValidator|null = null;
+  private tariffCreate: Schema;
+  private tariffUpdate: Schema;
+  private tariffsGet: Schema;
+  private tariffGet: Schema;
+
+  private constructor() {
+    super('TariffValidator');
+    this.tariffCreate = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tariff/tariff-create.json`, 'utf8'));
+    this.tariffUpdate = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tariff/tariff-update.json`, 'utf8'));
+    this.tariffsGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tariff/tariffs-get.json`, 'utf8'));
+    this.tariffGet = JSON.parse(fs.readFileSync(`${global.appRoot}/assets/server/rest/v1/schemas/tariff/tariff-get.json`, 'utf8'));
+  }
+
+  public static getInstance(): TariffValidator {
+    if (!TariffValidator.instance) {
+      TariffValidator.instance = new TariffValidator();
+    }
+    return TariffValidator.instance;
+  }
+
+  validateTariffCreate(tariff: Tariff): Tariff {
+    this.validate(this.tariffCreate, tariff);
+    return tariff;
+  }
+
+  validateTariffUpdate(tariff: Tariff): Tariff {
+    this.validate(this.tariffUpdate, tariff);
+    return tariff;
+  }
+
+  validateTariffsGet(data: any): HttpTariffsRequest {
+    this.validate(this.tariffsGet, data);
+    return data;
+  }
+
+  validateTariffGetByID(data: any): HttpTariffRequest {
+    this.validate(this.tariffGet, data);
+    return data;
+  }
+}
@@ -1,5 +1,6 @@
 import CentralSystemConfiguration, { CentralSystemImplementation } from './types/configuration/CentralSystemConfiguration';
 
+import AssetMQTTManager from './integration/asset/mqtt/AssetMQTTManager';
 import AsyncTaskManager from './async-task/AsyncTaskManager';
 import CentralRestServer from './server/rest/CentralRestServer';
 import CentralSystemRestServiceConfiguration from './types/configuration/CentralSystemRestServiceConfiguration';
@@ -138,6 +139,10 @@ export default class Bootstrap {
         // -------------------------------------------------------------------------
         await AsyncTaskManager.init();
         // -------------------------------------------------------------------------
+        // Init the Asset MQTT subscribers
+        // -------------------------------------------------------------------------
+        await AssetMQTTManager.init();
+        // -------------------------------------------------------------------------
         // Locks remain in storage if server crashes
         // Delete acquired database locks with same hostname
         // -------------------------------------------------------------------------
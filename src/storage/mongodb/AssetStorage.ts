@@ -1,6 +1,6 @@
+import Asset, { AssetBatteryPlan } from '../../types/Asset';
 import global, { FilterParams } from '../../types/GlobalType';
 
-import Asset from '../../types/Asset';
 import { AssetInErrorType } from '../../types/InError';
 import Constants from '../../utils/Constants';
 import { DataResult } from '../../types/DataResult';
@@ -78,6 +78,18 @@ export default class AssetStorage {
       currentInstantWattsL3: Utils.convertToFloat(assetToSave.currentInstantWattsL3),
       currentStateOfCharge: Utils.convertToFloat(assetToSave.currentStateOfCharge),
     };
+    if (assetToSave.battery) {
+      assetMDB.battery = {
+        capacityWh: Utils.convertToFloat(assetToSave.battery.capacityWh),
+        maxChargeWatts: Utils.convertToFloat(assetToSave.battery.maxChargeWatts),
+        maxDischargeWatts: Utils.convertToFloat(assetToSave.battery.maxDischargeWatts),
+        minStateOfChargePercent: Utils.convertToFloat(assetToSave.battery.minStateOfChargePercent),
+        maxStateOfChargePercent: Utils.convertToFloat(assetToSave.battery.maxStateOfChargePercent),
+      };
+    } else {
+      assetMDB.battery = null;
+      assetMDB.batteryPlan = null;
+    }
     if (assetToSave.lastConsumption) {
       assetMDB.lastConsumption = {
         value: Utils.convertToFloat(assetToSave.lastConsumption.value),
@@ -101,6 +113,24 @@ export default class AssetStorage {
     return assetMDB._id.toString();
   }
 
+  public static async saveAssetBatteryPlan(tenant: Tenant, id: string, batteryPlan: AssetBatteryPlan): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveAssetBatteryPlan');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Modify document
+    await global.database.getCollection<Asset>(tenant.id, 'assets').findOneAndUpdate(
+      { '_id': DatabaseUtils.convertToObjectID(id) },
+      {
+        $set: {
+          batteryPlan
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveAssetBatteryPlan', uniqueTimerID, batteryPlan);
+  }
+
   public static async getAssets(tenant: Tenant,
       params: { search?: string; assetIDs?: string[]; siteAreaIDs?: string[]; siteIDs?: string[]; withSiteArea?: boolean;
         withNoSiteArea?: boolean; dynamicOnly?: boolean; issuer?: boolean; } = {},
@@ -205,6 +235,7 @@ export default class AssetStorage {
     DatabaseUtils.pushRenameDatabaseID(aggregation);
     DatabaseUtils.pushConvertObjectIDToString(aggregation, 'siteAreaID');
     DatabaseUtils.pushConvertObjectIDToString(aggregation, 'siteArea.siteID');
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'siteArea.parentSiteAreaID');
     // Add Created By / Last Changed By
     DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
     // Project
@@ -1,4 +1,4 @@
-import AsyncTask, { AsyncTaskStatus } from '../../types/AsyncTask';
+import AsyncTask, { AsyncTaskStatus, AsyncTasks } from '../../types/AsyncTask';
 import global, { FilterParams } from '../../types/GlobalType';
 
 import Constants from '../../utils/Constants';
@@ -53,7 +53,7 @@ export default class AsyncTaskStorage {
     return asyncTaskMDB._id;
   }
 
-  public static async getAsyncTasks(params: { status?: AsyncTaskStatus, asyncTaskIDs?: string[] } = {},
+  public static async getAsyncTasks(params: { status?: AsyncTaskStatus, asyncTaskIDs?: string[], name?: AsyncTasks, tenantID?: string } = {},
       dbParams?: DbParams, projectFields?: string[]): Promise<DataResult<AsyncTask>> {
     // Debug
     const uniqueTimerID = Logging.traceStart(Constants.DEFAULT_TENANT, MODULE_NAME, 'getAsyncTasks');
@@ -77,6 +77,14 @@ export default class AsyncTaskStorage {
     if (params.status) {
       filters.status = params.status;
     }
+    // Name
+    if (params.name) {
+      filters.name = params.name;
+    }
+    // Tenant
+    if (params.tenantID) {
+      filters.tenantID = DatabaseUtils.convertToObjectID(params.tenantID);
+    }
     // Add filters
     aggregation.push({
       $match: filters
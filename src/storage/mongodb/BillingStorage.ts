@@ -1,4 +1,5 @@
-import { BillingAdditionalData, BillingInvoice, BillingInvoiceStatus, BillingSessionData } from '../../types/Billing';
+import { BillingAccount, BillingAdditionalData, BillingCreditNote, BillingCustomer, BillingInvoice, BillingInvoiceLineItem, BillingInvoiceStatus, BillingSessionData, BillingSubscription, BillingSubscriptionPlan, BillingSubscriptionStatus, BillingUserData, BillingWallet, BillingWalletOperation } from '../../types/Billing';
+import { Document, ObjectId } from 'mongodb';
 import global, { FilterParams } from '../../types/GlobalType';
 
 import Constants from '../../utils/Constants';
@@ -6,9 +7,9 @@ import { DataResult } from '../../types/DataResult';
 import DatabaseUtils from './DatabaseUtils';
 import DbParams from '../../types/database/DbParams';
 import Logging from '../../utils/Logging';
-import { ObjectId } from 'mongodb';
 import Tenant from '../../types/Tenant';
 import Utils from '../../utils/Utils';
+import moment from 'moment';
 
 const MODULE_NAME = 'BillingStorage';
 
@@ -30,7 +31,7 @@ export default class BillingStorage {
   public static async getInvoices(tenant: Tenant,
       params: {
         invoiceIDs?: string[]; billingInvoiceID?: string; search?: string; userIDs?: string[]; invoiceStatus?: BillingInvoiceStatus[];
-        startDateTime?: Date; endDateTime?: Date; liveMode?: boolean
+        startDateTime?: Date; endDateTime?: Date; liveMode?: boolean; billingAccountIDs?: string[];
       } = {},
       dbParams: DbParams, projectFields?: string[]): Promise<DataResult<BillingInvoice>> {
     // Debug
@@ -64,6 +65,11 @@ export default class BillingStorage {
         $in: params.userIDs.map((userID) => DatabaseUtils.convertToObjectID(userID))
       };
     }
+    if (!Utils.isEmptyArray(params.billingAccountIDs)) {
+      filters.billingAccountID = {
+        $in: params.billingAccountIDs.map((billingAccountID) => DatabaseUtils.convertToObjectID(billingAccountID))
+      };
+    }
     if (params.billingInvoiceID) {
       filters.invoiceID = { $eq: params.billingInvoiceID };
     }
@@ -132,12 +138,28 @@ export default class BillingStorage {
       tenantID: tenant.id, aggregation: aggregation, asField: 'user', localField: 'userID',
       foreignField: '_id', oneToOneCardinality: true, oneToOneCardinalityNotNull: false
     });
+    // Add Billing Accounts
+    DatabaseUtils.pushCollectionLookupInAggregation('billingaccounts', {
+      tenantID: tenant.id, aggregation: aggregation, asField: 'billingAccount', localField: 'billingAccountID',
+      foreignField: '_id', oneToOneCardinality: true, oneToOneCardinalityNotNull: false,
+      projectedFields: ['id', 'name', 'email', 'address', 'companyID', 'costCenter']
+    });
+    // Add Credit Notes
+    DatabaseUtils.pushCollectionLookupInAggregation('creditnotes', {
+      tenantID: tenant.id, aggregation: aggregation, asField: 'creditNotes', localField: '_id',
+      foreignField: 'invoiceID', objectIDFields: ['invoiceID', 'userID'],
+      projectedFields: ['id', 'number', 'transactionID', 'amount', 'sessionAmount', 'currency', 'reason', 'createdOn']
+    });
+    aggregation.push({
+      $addFields: { creditedAmount: { $sum: '$creditNotes.amount' } }
+    });
     // Add Last Changed / Created
     DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
     // Handle the ID
     DatabaseUtils.pushRenameDatabaseID(aggregation);
     // Convert Object ID to string
     DatabaseUtils.pushConvertObjectIDToString(aggregation, 'userID');
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'billingAccountID');
     // Project
     DatabaseUtils.projectFields(aggregation, projectFields);
     // Read DB
@@ -167,12 +189,14 @@ export default class BillingStorage {
       number: invoiceToSave.number,
       liveMode: Utils.convertToBoolean(invoiceToSave.liveMode),
       userID: invoiceToSave.userID ? DatabaseUtils.convertToObjectID(invoiceToSave.userID) : null,
+      billingAccountID: invoiceToSave.billingAccountID ? DatabaseUtils.convertToObjectID(invoiceToSave.billingAccountID) : null,
       customerID: invoiceToSave.customerID,
       amount: Utils.convertToFloat(invoiceToSave.amount),
       amountPaid: Utils.convertToFloat(invoiceToSave.amountPaid),
       status: invoiceToSave.status,
       currency: invoiceToSave.currency,
       createdOn: Utils.convertToDate(invoiceToSave.createdOn),
+      finalizedOn: Utils.convertToDate(invoiceToSave.finalizedOn),
       downloadable: Utils.convertToBoolean(invoiceToSave.downloadable),
       downloadUrl: invoiceToSave.downloadUrl,
       payInvoiceUrl: invoiceToSave.payInvoiceUrl
@@ -210,6 +234,65 @@ export default class BillingStorage {
     await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveInvoiceAdditionalData', uniqueTimerID, updatedInvoiceMDB);
   }
 
+  public static async updateDraftInvoiceAmount(tenant: Tenant, id: string, amount: number): Promise<boolean> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'updateDraftInvoiceAmount');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Issued invoices are never modified - lines are only added to a draft so its amount can only grow
+    const result = await global.database.getCollection<any>(tenant.id, 'invoices').updateOne(
+      { _id: DatabaseUtils.convertToObjectID(id), status: BillingInvoiceStatus.DRAFT },
+      { $max: { amount: Utils.convertToFloat(amount) } });
+    const updated = result.matchedCount === 1;
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'updateDraftInvoiceAmount', uniqueTimerID, { id, amount, updated });
+    return updated;
+  }
+
+  public static async openDraftInvoice(tenant: Tenant, id: string, finalizedOn: Date): Promise<boolean> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'openDraftInvoice');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Only one server issues the invoice
+    const result = await global.database.getCollection<any>(tenant.id, 'invoices').findOneAndUpdate(
+      { _id: DatabaseUtils.convertToObjectID(id), status: BillingInvoiceStatus.DRAFT },
+      { $set: { status: BillingInvoiceStatus.OPEN, finalizedOn: Utils.convertToDate(finalizedOn), downloadable: true } });
+    const opened = !!result.value;
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'openDraftInvoice', uniqueTimerID, { id, opened });
+    return opened;
+  }
+
+  public static async saveInvoiceNumber(tenant: Tenant, id: string, invoiceNumber: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveInvoiceNumber');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // An invoice number is never changed
+    await global.database.getCollection<any>(tenant.id, 'invoices').updateOne(
+      // eslint-disable-next-line id-blacklist
+      { _id: DatabaseUtils.convertToObjectID(id), number: null },
+      // eslint-disable-next-line id-blacklist
+      { $set: { number: invoiceNumber } });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveInvoiceNumber', uniqueTimerID, { id, invoiceNumber });
+  }
+
+  public static async payOpenInvoice(tenant: Tenant, id: string, amountPaid: number): Promise<boolean> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'payOpenInvoice');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    const result = await global.database.getCollection<any>(tenant.id, 'invoices').findOneAndUpdate(
+      { _id: DatabaseUtils.convertToObjectID(id), status: BillingInvoiceStatus.OPEN },
+      { $set: { status: BillingInvoiceStatus.PAID, amountPaid: Utils.convertToFloat(amountPaid) } });
+    const paid = !!result.value;
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'payOpenInvoice', uniqueTimerID, { id, amountPaid, paid });
+    return paid;
+  }
+
   public static async deleteInvoice(tenant: Tenant, id: string): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'deleteInvoice');
@@ -233,4 +316,1023 @@ export default class BillingStorage {
     // Debug
     await Logging.traceEnd(tenant.id, MODULE_NAME, 'deleteInvoice', uniqueTimerID, { id });
   }
+
+  public static async getCustomer(tenant: Tenant, id: string): Promise<BillingCustomer> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getCustomer');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    const aggregation = [];
+    aggregation.push({
+      $match: { _id: DatabaseUtils.convertToObjectID(id) }
+    });
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'userID');
+    // Read DB
+    const customersMDB = await global.database.getCollection<BillingCustomer>(tenant.id, 'billingcustomers')
+      .aggregate(aggregation)
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getCustomer', uniqueTimerID, customersMDB);
+    return !Utils.isEmptyArray(customersMDB) ? customersMDB[0] : null;
+  }
+
+  public static async saveCustomer(tenant: Tenant, customerToSave: BillingCustomer): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveCustomer');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const customerMDB: any = {
+      _id: customerToSave.id ? DatabaseUtils.convertToObjectID(customerToSave.id) : new ObjectId(),
+      userID: DatabaseUtils.convertToObjectID(customerToSave.userID),
+      name: customerToSave.name,
+      email: customerToSave.email,
+      address: customerToSave.address,
+      liveMode: Utils.convertToBoolean(customerToSave.liveMode),
+      createdOn: Utils.convertToDate(customerToSave.createdOn),
+      lastChangedOn: Utils.convertToDate(customerToSave.lastChangedOn),
+    };
+    await global.database.getCollection<any>(tenant.id, 'billingcustomers').findOneAndUpdate(
+      { _id: customerMDB._id },
+      { $set: customerMDB },
+      { upsert: true });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveCustomer', uniqueTimerID, customerMDB);
+    return customerMDB._id.toString();
+  }
+
+  public static async deleteCustomer(tenant: Tenant, id: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'deleteCustomer');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Delete the Customer
+    await global.database.getCollection<any>(tenant.id, 'billingcustomers')
+      .findOneAndDelete({ '_id': DatabaseUtils.convertToObjectID(id) });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'deleteCustomer', uniqueTimerID, { id });
+  }
+
+  public static async getBillingAccount(tenant: Tenant, id: string = Constants.UNKNOWN_OBJECT_ID,
+      params: { withUsers?: boolean } = {}, projectFields?: string[]): Promise<BillingAccount> {
+    const billingAccountsMDB = await BillingStorage.getBillingAccounts(tenant, {
+      billingAccountIDs: [id],
+      withUsers: params.withUsers,
+    }, Constants.DB_PARAMS_SINGLE_RECORD, projectFields);
+    return billingAccountsMDB.count === 1 ? billingAccountsMDB.result[0] : null;
+  }
+
+  public static async getBillingAccounts(tenant: Tenant,
+      params: { billingAccountIDs?: string[]; search?: string; companyIDs?: string[]; withUsers?: boolean } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<BillingAccount>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getBillingAccounts');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Create Aggregation
+    const aggregation = [];
+    // Search filters
+    const filters: FilterParams = {};
+    if (params.search) {
+      filters.$or = [
+        { 'name': { $regex: params.search, $options: 'i' } },
+        { 'email': { $regex: params.search, $options: 'i' } },
+        { 'costCenter': { $regex: params.search, $options: 'i' } },
+      ];
+    }
+    if (!Utils.isEmptyArray(params.billingAccountIDs)) {
+      filters._id = {
+        $in: params.billingAccountIDs.map((billingAccountID) => DatabaseUtils.convertToObjectID(billingAccountID))
+      };
+    }
+    if (!Utils.isEmptyArray(params.companyIDs)) {
+      filters.companyID = {
+        $in: params.companyIDs.map((companyID) => DatabaseUtils.convertToObjectID(companyID))
+      };
+    }
+    // Set filters
+    if (!Utils.isEmptyJSon(filters)) {
+      aggregation.push({
+        $match: filters
+      });
+    }
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const billingAccountsCountMDB = await global.database.getCollection<any>(tenant.id, 'billingaccounts')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      await Logging.traceEnd(tenant.id, MODULE_NAME, 'getBillingAccounts', uniqueTimerID, billingAccountsCountMDB);
+      return {
+        count: (billingAccountsCountMDB.length > 0 ? billingAccountsCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { name: 1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    aggregation.push({
+      $skip: dbParams.skip
+    });
+    // Limit
+    aggregation.push({
+      $limit: dbParams.limit
+    });
+    // Add the attached Users
+    if (params.withUsers) {
+      DatabaseUtils.pushUserLookupInAggregation({
+        tenantID: tenant.id, aggregation: aggregation, asField: 'users', localField: '_id',
+        foreignField: 'billingAccountID', oneToOneCardinality: false,
+        projectedFields: ['id', 'name', 'firstName', 'email', 'costCenter']
+      });
+    }
+    // Add Last Changed / Created
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'companyID');
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const billingAccountsMDB = await global.database.getCollection<BillingAccount>(tenant.id, 'billingaccounts')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getBillingAccounts', uniqueTimerID, billingAccountsMDB);
+    return {
+      count: (billingAccountsCountMDB.length > 0 ?
+        (billingAccountsCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : billingAccountsCountMDB[0].count) : 0),
+      result: billingAccountsMDB
+    };
+  }
+
+  public static async saveBillingAccount(tenant: Tenant, billingAccountToSave: BillingAccount): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveBillingAccount');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const billingAccountMDB: any = {
+      _id: billingAccountToSave.id ? DatabaseUtils.convertToObjectID(billingAccountToSave.id) : new ObjectId(),
+      name: billingAccountToSave.name,
+      email: billingAccountToSave.email,
+      address: billingAccountToSave.address ?? null,
+      companyID: billingAccountToSave.companyID ? DatabaseUtils.convertToObjectID(billingAccountToSave.companyID) : null,
+      costCenter: billingAccountToSave.costCenter ?? null,
+    };
+    // Add Last Changed/Created props
+    DatabaseUtils.addLastChangedCreatedProps(billingAccountMDB, billingAccountToSave);
+    // The billing data is only set by the billing integration
+    await global.database.getCollection<any>(tenant.id, 'billingaccounts').findOneAndUpdate(
+      { _id: billingAccountMDB._id },
+      { $set: billingAccountMDB },
+      { upsert: true });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveBillingAccount', uniqueTimerID, billingAccountMDB);
+    return billingAccountMDB._id.toString();
+  }
+
+  public static async saveBillingAccountBillingData(tenant: Tenant, id: string, billingData: BillingUserData): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveBillingAccountBillingData');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Modify document
+    await global.database.getCollection<any>(tenant.id, 'billingaccounts').findOneAndUpdate(
+      { _id: DatabaseUtils.convertToObjectID(id) },
+      {
+        $set: {
+          billingData: {
+            customerID: billingData.customerID,
+            liveMode: Utils.convertToBoolean(billingData.liveMode),
+            lastChangedOn: Utils.convertToDate(billingData.lastChangedOn),
+          }
+        }
+      });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveBillingAccountBillingData', uniqueTimerID, billingData);
+  }
+
+  public static async deleteBillingAccount(tenant: Tenant, id: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'deleteBillingAccount');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Delete the Billing Account
+    await global.database.getCollection<any>(tenant.id, 'billingaccounts')
+      .findOneAndDelete({ '_id': DatabaseUtils.convertToObjectID(id) });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'deleteBillingAccount', uniqueTimerID, { id });
+  }
+
+  public static async getSubscriptionPlan(tenant: Tenant, id: string = Constants.UNKNOWN_OBJECT_ID,
+      projectFields?: string[]): Promise<BillingSubscriptionPlan> {
+    const subscriptionPlansMDB = await BillingStorage.getSubscriptionPlans(tenant, {
+      subscriptionPlanIDs: [id],
+    }, Constants.DB_PARAMS_SINGLE_RECORD, projectFields);
+    return subscriptionPlansMDB.count === 1 ? subscriptionPlansMDB.result[0] : null;
+  }
+
+  public static async getSubscriptionPlans(tenant: Tenant,
+      params: { subscriptionPlanIDs?: string[]; search?: string; active?: boolean } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<BillingSubscriptionPlan>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getSubscriptionPlans');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Create Aggregation
+    const aggregation = [];
+    // Search filters
+    const filters: FilterParams = {};
+    if (params.search) {
+      filters.$or = [
+        { 'name': { $regex: params.search, $options: 'i' } },
+        { 'description': { $regex: params.search, $options: 'i' } },
+      ];
+    }
+    if (!Utils.isEmptyArray(params.subscriptionPlanIDs)) {
+      filters._id = {
+        $in: params.subscriptionPlanIDs.map((subscriptionPlanID) => DatabaseUtils.convertToObjectID(subscriptionPlanID))
+      };
+    }
+    if (Utils.objectHasProperty(params, 'active') && Utils.isBoolean(params.active)) {
+      filters.active = params.active;
+    }
+    // Set filters
+    if (!Utils.isEmptyJSon(filters)) {
+      aggregation.push({
+        $match: filters
+      });
+    }
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const subscriptionPlansCountMDB = await global.database.getCollection<any>(tenant.id, 'subscriptionplans')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      await Logging.traceEnd(tenant.id, MODULE_NAME, 'getSubscriptionPlans', uniqueTimerID, subscriptionPlansCountMDB);
+      return {
+        count: (subscriptionPlansCountMDB.length > 0 ? subscriptionPlansCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { name: 1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    aggregation.push({
+      $skip: dbParams.skip
+    });
+    // Limit
+    aggregation.push({
+      $limit: dbParams.limit
+    });
+    // Add Last Changed / Created
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const subscriptionPlansMDB = await global.database.getCollection<BillingSubscriptionPlan>(tenant.id, 'subscriptionplans')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getSubscriptionPlans', uniqueTimerID, subscriptionPlansMDB);
+    return {
+      count: (subscriptionPlansCountMDB.length > 0 ?
+        (subscriptionPlansCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : subscriptionPlansCountMDB[0].count) : 0),
+      result: subscriptionPlansMDB
+    };
+  }
+
+  public static async saveSubscriptionPlan(tenant: Tenant, subscriptionPlanToSave: BillingSubscriptionPlan): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveSubscriptionPlan');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const subscriptionPlanMDB: any = {
+      _id: subscriptionPlanToSave.id ? DatabaseUtils.convertToObjectID(subscriptionPlanToSave.id) : new ObjectId(),
+      name: subscriptionPlanToSave.name,
+      description: subscriptionPlanToSave.description ?? null,
+      active: Utils.convertToBoolean(subscriptionPlanToSave.active),
+      currency: subscriptionPlanToSave.currency,
+      fee: Utils.convertToFloat(subscriptionPlanToSave.fee),
+      includedEnergyKWh: !Utils.isNullOrUndefined(subscriptionPlanToSave.includedEnergyKWh) ? Utils.convertToFloat(subscriptionPlanToSave.includedEnergyKWh) : null,
+      energyPrice: !Utils.isNullOrUndefined(subscriptionPlanToSave.energyPrice) ? Utils.convertToFloat(subscriptionPlanToSave.energyPrice) : null,
+      energyDiscountPercent: !Utils.isNullOrUndefined(subscriptionPlanToSave.energyDiscountPercent) ? Utils.convertToFloat(subscriptionPlanToSave.energyDiscountPercent) : null,
+    };
+    // Add Last Changed/Created props
+    DatabaseUtils.addLastChangedCreatedProps(subscriptionPlanMDB, subscriptionPlanToSave);
+    // Modify and return the modified document
+    await global.database.getCollection<any>(tenant.id, 'subscriptionplans').findOneAndUpdate(
+      { _id: subscriptionPlanMDB._id },
+      { $set: subscriptionPlanMDB },
+      { upsert: true });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveSubscriptionPlan', uniqueTimerID, subscriptionPlanMDB);
+    return subscriptionPlanMDB._id.toString();
+  }
+
+  public static async deleteSubscriptionPlan(tenant: Tenant, id: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'deleteSubscriptionPlan');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Delete the Subscription Plan
+    await global.database.getCollection<any>(tenant.id, 'subscriptionplans')
+      .findOneAndDelete({ '_id': DatabaseUtils.convertToObjectID(id) });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'deleteSubscriptionPlan', uniqueTimerID, { id });
+  }
+
+  public static async getSubscription(tenant: Tenant, id: string = Constants.UNKNOWN_OBJECT_ID,
+      params: { withPlan?: boolean; withUser?: boolean } = {}, projectFields?: string[]): Promise<BillingSubscription> {
+    const subscriptionsMDB = await BillingStorage.getSubscriptions(tenant, {
+      subscriptionIDs: [id],
+      withPlan: params.withPlan,
+      withUser: params.withUser,
+    }, Constants.DB_PARAMS_SINGLE_RECORD, projectFields);
+    return subscriptionsMDB.count === 1 ? subscriptionsMDB.result[0] : null;
+  }
+
+  public static async getSubscriptions(tenant: Tenant,
+      params: {
+        subscriptionIDs?: string[]; userIDs?: string[]; planIDs?: string[]; statuses?: BillingSubscriptionStatus[];
+        periodEndBefore?: Date; withPlan?: boolean; withUser?: boolean;
+      } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<BillingSubscription>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getSubscriptions');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Create Aggregation
+    const aggregation = [];
+    // Search filters
+    const filters: FilterParams = {};
+    if (!Utils.isEmptyArray(params.subscriptionIDs)) {
+      filters._id = {
+        $in: params.subscriptionIDs.map((subscriptionID) => DatabaseUtils.convertToObjectID(subscriptionID))
+      };
+    }
+    if (!Utils.isEmptyArray(params.userIDs)) {
+      filters.userID = {
+        $in: params.userIDs.map((userID) => DatabaseUtils.convertToObjectID(userID))
+      };
+    }
+    if (!Utils.isEmptyArray(params.planIDs)) {
+      filters.planID = {
+        $in: params.planIDs.map((planID) => DatabaseUtils.convertToObjectID(planID))
+      };
+    }
+    if (!Utils.isEmptyArray(params.statuses)) {
+      filters.status = {
+        $in: params.statuses
+      };
+    }
+    // Subscriptions whose fee has never been charged are due as well
+    if (params.periodEndBefore) {
+      filters.$or = [
+        { periodEnd: null },
+        { periodEnd: { $lte: Utils.convertToDate(params.periodEndBefore) } },
+      ];
+    }
+    // Set filters
+    if (!Utils.isEmptyJSon(filters)) {
+      aggregation.push({
+        $match: filters
+      });
+    }
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const subscriptionsCountMDB = await global.database.getCollection<any>(tenant.id, 'subscriptions')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      await Logging.traceEnd(tenant.id, MODULE_NAME, 'getSubscriptions', uniqueTimerID, subscriptionsCountMDB);
+      return {
+        count: (subscriptionsCountMDB.length > 0 ? subscriptionsCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { startDate: -1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    aggregation.push({
+      $skip: dbParams.skip
+    });
+    // Limit
+    aggregation.push({
+      $limit: dbParams.limit
+    });
+    // Add the Plan
+    if (params.withPlan) {
+      DatabaseUtils.pushCollectionLookupInAggregation('subscriptionplans', {
+        tenantID: tenant.id, aggregation: aggregation, asField: 'plan', localField: 'planID',
+        foreignField: '_id', oneToOneCardinality: true, oneToOneCardinalityNotNull: false
+      });
+    }
+    // Add the User
+    if (params.withUser) {
+      DatabaseUtils.pushUserLookupInAggregation({
+        tenantID: tenant.id, aggregation: aggregation, asField: 'user', localField: 'userID',
+        foreignField: '_id', oneToOneCardinality: true, oneToOneCardinalityNotNull: false
+      });
+    }
+    // Add Last Changed / Created
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'userID');
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'planID');
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const subscriptionsMDB = await global.database.getCollection<BillingSubscription>(tenant.id, 'subscriptions')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getSubscriptions', uniqueTimerID, subscriptionsMDB);
+    return {
+      count: (subscriptionsCountMDB.length > 0 ?
+        (subscriptionsCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : subscriptionsCountMDB[0].count) : 0),
+      result: subscriptionsMDB
+    };
+  }
+
+  public static async saveSubscription(tenant: Tenant, subscriptionToSave: BillingSubscription): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveSubscription');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const subscriptionMDB: any = {
+      _id: subscriptionToSave.id ? DatabaseUtils.convertToObjectID(subscriptionToSave.id) : new ObjectId(),
+      userID: DatabaseUtils.convertToObjectID(subscriptionToSave.userID),
+      planID: DatabaseUtils.convertToObjectID(subscriptionToSave.planID),
+      status: subscriptionToSave.status,
+      startDate: Utils.convertToDate(subscriptionToSave.startDate),
+      endDate: subscriptionToSave.endDate ? Utils.convertToDate(subscriptionToSave.endDate) : null,
+      periodStart: subscriptionToSave.periodStart ? Utils.convertToDate(subscriptionToSave.periodStart) : null,
+      periodEnd: subscriptionToSave.periodEnd ? Utils.convertToDate(subscriptionToSave.periodEnd) : null,
+    };
+    // Add Last Changed/Created props
+    DatabaseUtils.addLastChangedCreatedProps(subscriptionMDB, subscriptionToSave);
+    // Modify and return the modified document - the energy of the periods is only reserved atomically
+    await global.database.getCollection<any>(tenant.id, 'subscriptions').findOneAndUpdate(
+      { _id: subscriptionMDB._id },
+      { $set: subscriptionMDB, $setOnInsert: { periodEnergyWh: 0, nextPeriodEnergyWh: 0 } },
+      { upsert: true });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveSubscription', uniqueTimerID, subscriptionMDB);
+    return subscriptionMDB._id.toString();
+  }
+
+  public static async reserveSubscriptionPeriodEnergy(tenant: Tenant, id: string, timestamp: Date,
+      energyWh: number, includedEnergyWh: number): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'reserveSubscriptionPeriodEnergy');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    const subscriptionID = DatabaseUtils.convertToObjectID(id);
+    // Energy delivered during the current period
+    let periodEnergyField = 'periodEnergyWh';
+    let result = await global.database.getCollection<any>(tenant.id, 'subscriptions').findOneAndUpdate(
+      BillingStorage.buildCurrentPeriodFilter(subscriptionID, timestamp),
+      BillingStorage.buildReservePeriodEnergyPipeline(periodEnergyField, energyWh, includedEnergyWh),
+      { returnDocument: 'before' });
+    // Energy delivered in the following period is kept aside until the billing charges its fee
+    if (!result.value) {
+      periodEnergyField = 'nextPeriodEnergyWh';
+      result = await global.database.getCollection<any>(tenant.id, 'subscriptions').findOneAndUpdate(
+        BillingStorage.buildNextPeriodFilter(subscriptionID, timestamp),
+        BillingStorage.buildReservePeriodEnergyPipeline(periodEnergyField, energyWh, includedEnergyWh),
+        { returnDocument: 'before' });
+    }
+    // Both updates are atomic: the previous value gives the energy that has been reserved
+    const reservedEnergyWh = result.value ? Math.max(0, Math.min(Utils.convertToFloat(energyWh),
+      Utils.createDecimal(includedEnergyWh).minus(Utils.convertToFloat(result.value[periodEnergyField])).toNumber())) : 0;
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'reserveSubscriptionPeriodEnergy', uniqueTimerID, { id, timestamp, energyWh, reservedEnergyWh });
+    return reservedEnergyWh;
+  }
+
+  public static async getSubscriptionPeriodAvailableEnergy(tenant: Tenant, id: string, timestamp: Date,
+      includedEnergyWh: number): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getSubscriptionPeriodAvailableEnergy');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    const subscriptionID = DatabaseUtils.convertToObjectID(id);
+    // Same periods as the reservation, nothing is written
+    let periodEnergyField = 'periodEnergyWh';
+    let subscriptionMDB = await global.database.getCollection<any>(tenant.id, 'subscriptions').findOne(
+      BillingStorage.buildCurrentPeriodFilter(subscriptionID, timestamp));
+    if (!subscriptionMDB) {
+      periodEnergyField = 'nextPeriodEnergyWh';
+      subscriptionMDB = await global.database.getCollection<any>(tenant.id, 'subscriptions').findOne(
+        BillingStorage.buildNextPeriodFilter(subscriptionID, timestamp));
+    }
+    const availableEnergyWh = subscriptionMDB ? Math.max(0,
+      Utils.createDecimal(includedEnergyWh).minus(Utils.convertToFloat(subscriptionMDB[periodEnergyField])).toNumber()) : 0;
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getSubscriptionPeriodAvailableEnergy', uniqueTimerID, { id, timestamp, availableEnergyWh });
+    return availableEnergyWh;
+  }
+
+  public static async startSubscriptionPeriod(tenant: Tenant, id: string, periodStart: Date, periodEnd: Date): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'startSubscriptionPeriod');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // The energy already reserved for the new period is carried over atomically
+    await global.database.getCollection<any>(tenant.id, 'subscriptions').findOneAndUpdate(
+      { _id: DatabaseUtils.convertToObjectID(id) },
+      [{
+        $set: {
+          periodStart: Utils.convertToDate(periodStart),
+          periodEnd: Utils.convertToDate(periodEnd),
+          periodEnergyWh: { $ifNull: ['$nextPeriodEnergyWh', 0] },
+          nextPeriodEnergyWh: 0,
+        }
+      }]);
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'startSubscriptionPeriod', uniqueTimerID, { id, periodStart, periodEnd });
+  }
+
+  public static async getInvoiceLineItems(tenant: Tenant,
+      params: { invoiceIDs?: string[]; transactionID?: number; }): Promise<BillingInvoiceLineItem[]> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getInvoiceLineItems');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    const aggregation = [];
+    const filters: FilterParams = {};
+    if (!Utils.isEmptyArray(params.invoiceIDs)) {
+      filters.invoiceID = {
+        $in: params.invoiceIDs.map((invoiceID) => DatabaseUtils.convertToObjectID(invoiceID))
+      };
+    }
+    if (!Utils.isNullOrUndefined(params.transactionID)) {
+      filters.transactionID = params.transactionID;
+    }
+    aggregation.push({
+      $match: filters
+    });
+    aggregation.push({
+      $sort: { createdOn: 1 }
+    });
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'invoiceID');
+    // Read DB
+    const lineItemsMDB = await global.database.getCollection<BillingInvoiceLineItem>(tenant.id, 'invoiceitems')
+      .aggregate(aggregation)
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getInvoiceLineItems', uniqueTimerID, lineItemsMDB);
+    return lineItemsMDB;
+  }
+
+  public static async saveInvoiceLineItem(tenant: Tenant, lineItemToSave: BillingInvoiceLineItem): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveInvoiceLineItem');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const lineItemMDB = BillingStorage.buildInvoiceLineItemMDB(lineItemToSave);
+    await global.database.getCollection<any>(tenant.id, 'invoiceitems').findOneAndUpdate(
+      { _id: lineItemMDB._id },
+      { $set: lineItemMDB },
+      { upsert: true });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveInvoiceLineItem', uniqueTimerID, lineItemMDB);
+    return lineItemMDB._id.toString();
+  }
+
+  public static async insertSessionInvoiceLineItem(tenant: Tenant, lineItemToSave: BillingInvoiceLineItem): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'insertSessionInvoiceLineItem');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const lineItemMDB = BillingStorage.buildInvoiceLineItemMDB({ ...lineItemToSave, idleFee: false });
+    // Inserted only if the session has not been billed yet (unique index on the Transaction ID)
+    let inserted = false;
+    try {
+      const result = await global.database.getCollection<any>(tenant.id, 'invoiceitems').updateOne(
+        { transactionID: lineItemMDB.transactionID, idleFee: false },
+        { $setOnInsert: lineItemMDB },
+        { upsert: true });
+      inserted = result.upsertedCount === 1;
+    } catch (error) {
+      // Inserted concurrently
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'insertSessionInvoiceLineItem', uniqueTimerID, { lineItemMDB, inserted });
+    return inserted ? lineItemMDB._id.toString() : null;
+  }
+
+  public static async moveInvoiceLineItems(tenant: Tenant, ids: string[], invoiceID: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'moveInvoiceLineItems');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    await global.database.getCollection<any>(tenant.id, 'invoiceitems').updateMany(
+      { _id: { $in: ids.map((id) => DatabaseUtils.convertToObjectID(id)) } },
+      { $set: { invoiceID: DatabaseUtils.convertToObjectID(invoiceID) } });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'moveInvoiceLineItems', uniqueTimerID, { ids, invoiceID });
+  }
+
+  public static async deleteInvoiceLineItems(tenant: Tenant, invoiceID: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'deleteInvoiceLineItems');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Delete the Line Items of the Invoice
+    await global.database.getCollection<any>(tenant.id, 'invoiceitems')
+      .deleteMany({ 'invoiceID': DatabaseUtils.convertToObjectID(invoiceID) });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'deleteInvoiceLineItems', uniqueTimerID, { invoiceID });
+  }
+
+  public static async getNextInvoiceSequence(tenant: Tenant, sequenceName = 'invoice'): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getNextInvoiceSequence');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Atomic increment to get gapless numbers with several server instances
+    const result = await global.database.getCollection<any>(tenant.id, 'invoicesequences').findOneAndUpdate(
+      { _id: sequenceName },
+      { $inc: { sequence: 1 } },
+      { upsert: true, returnDocument: 'after' });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getNextInvoiceSequence', uniqueTimerID, result.value);
+    return result.value.sequence as number;
+  }
+
+  public static async getCreditNotes(tenant: Tenant,
+      params: { invoiceIDs?: string[]; transactionIDs?: number[]; }): Promise<BillingCreditNote[]> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getCreditNotes');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    const aggregation = [];
+    const filters: FilterParams = {};
+    if (!Utils.isEmptyArray(params.invoiceIDs)) {
+      filters.invoiceID = {
+        $in: params.invoiceIDs.map((invoiceID) => DatabaseUtils.convertToObjectID(invoiceID))
+      };
+    }
+    if (!Utils.isEmptyArray(params.transactionIDs)) {
+      filters.transactionID = {
+        $in: params.transactionIDs.map((transactionID) => Utils.convertToInt(transactionID))
+      };
+    }
+    aggregation.push({
+      $match: filters
+    });
+    aggregation.push({
+      $sort: { createdOn: 1 }
+    });
+    // Add Created By
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'invoiceID');
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'userID');
+    // Read DB
+    const creditNotesMDB = await global.database.getCollection<BillingCreditNote>(tenant.id, 'creditnotes')
+      .aggregate(aggregation)
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getCreditNotes', uniqueTimerID, creditNotesMDB);
+    return creditNotesMDB;
+  }
+
+  public static async saveCreditNote(tenant: Tenant, creditNoteToSave: BillingCreditNote): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveCreditNote');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const creditNoteMDB: any = {
+      _id: creditNoteToSave.id ? DatabaseUtils.convertToObjectID(creditNoteToSave.id) : new ObjectId(),
+      creditNoteID: creditNoteToSave.creditNoteID,
+      invoiceID: DatabaseUtils.convertToObjectID(creditNoteToSave.invoiceID),
+      userID: DatabaseUtils.convertToObjectID(creditNoteToSave.userID),
+      transactionID: Utils.convertToInt(creditNoteToSave.transactionID),
+      // eslint-disable-next-line id-blacklist
+      number: creditNoteToSave.number ?? null,
+      amount: Utils.convertToInt(creditNoteToSave.amount),
+      sessionAmount: Utils.convertToFloat(creditNoteToSave.sessionAmount),
+      currency: creditNoteToSave.currency,
+      reason: creditNoteToSave.reason ?? null,
+      liveMode: Utils.convertToBoolean(creditNoteToSave.liveMode),
+    };
+    // Add Created By
+    DatabaseUtils.addLastChangedCreatedProps(creditNoteMDB, creditNoteToSave);
+    await global.database.getCollection<any>(tenant.id, 'creditnotes').findOneAndUpdate(
+      { _id: creditNoteMDB._id },
+      { $set: creditNoteMDB },
+      { upsert: true });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveCreditNote', uniqueTimerID, creditNoteMDB);
+    return creditNoteMDB._id.toString();
+  }
+
+  public static async deleteCreditNotes(tenant: Tenant, invoiceID: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'deleteCreditNotes');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Delete the Credit Notes of the Invoice
+    await global.database.getCollection<any>(tenant.id, 'creditnotes')
+      .deleteMany({ 'invoiceID': DatabaseUtils.convertToObjectID(invoiceID) });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'deleteCreditNotes', uniqueTimerID, { invoiceID });
+  }
+
+  public static async getWallet(tenant: Tenant, userID: string): Promise<BillingWallet> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getWallet');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // The balance is derived from the ledger: recording an operation is the only write
+    const walletsMDB = await global.database.getCollection<any>(tenant.id, 'walletoperations')
+      .aggregate([
+        { $match: { userID: DatabaseUtils.convertToObjectID(userID) } },
+        { $sort: { createdOn: 1 } },
+        {
+          $group: {
+            _id: '$userID',
+            balance: { $sum: '$amount' },
+            currency: { $first: '$currency' },
+            lastChangedOn: { $last: '$createdOn' },
+          }
+        },
+      ])
+      .toArray();
+    const walletMDB = !Utils.isEmptyArray(walletsMDB) ? walletsMDB[0] : null;
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getWallet', uniqueTimerID, walletMDB);
+    return walletMDB ? {
+      userID,
+      // Prevent floating point drifts
+      balance: Utils.roundTo(walletMDB.balance, 2),
+      currency: walletMDB.currency,
+      lastChangedOn: walletMDB.lastChangedOn,
+    } : null;
+  }
+
+  public static async getWalletOperations(tenant: Tenant,
+      params: { userIDs?: string[]; transactionIDs?: number[]; externalID?: string; startDateTime?: Date; endDateTime?: Date } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<BillingWalletOperation>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'getWalletOperations');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Create Aggregation
+    const aggregation = [];
+    // Search filters
+    const filters: FilterParams = {};
+    if (!Utils.isEmptyArray(params.userIDs)) {
+      filters.userID = {
+        $in: params.userIDs.map((userID) => DatabaseUtils.convertToObjectID(userID))
+      };
+    }
+    if (!Utils.isEmptyArray(params.transactionIDs)) {
+      filters.transactionID = {
+        $in: params.transactionIDs.map((transactionID) => Utils.convertToInt(transactionID))
+      };
+    }
+    if (params.externalID) {
+      filters.externalID = { $eq: params.externalID };
+    }
+    if (params.startDateTime || params.endDateTime) {
+      filters.createdOn = {};
+    }
+    // Start date
+    if (params.startDateTime) {
+      filters.createdOn.$gte = Utils.convertToDate(params.startDateTime);
+    }
+    // End date
+    if (params.endDateTime) {
+      filters.createdOn.$lte = Utils.convertToDate(params.endDateTime);
+    }
+    // Set filters
+    if (!Utils.isEmptyJSon(filters)) {
+      aggregation.push({
+        $match: filters
+      });
+    }
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const walletOperationsCountMDB = await global.database.getCollection<any>(tenant.id, 'walletoperations')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      await Logging.traceEnd(tenant.id, MODULE_NAME, 'getWalletOperations', uniqueTimerID, walletOperationsCountMDB);
+      return {
+        count: (walletOperationsCountMDB.length > 0 ? walletOperationsCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { createdOn: -1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    aggregation.push({
+      $skip: dbParams.skip
+    });
+    // Limit
+    aggregation.push({
+      $limit: dbParams.limit
+    });
+    // Add Created By
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenant.id, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'userID');
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const walletOperationsMDB = await global.database.getCollection<BillingWalletOperation>(tenant.id, 'walletoperations')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'getWalletOperations', uniqueTimerID, walletOperationsMDB);
+    return {
+      count: (walletOperationsCountMDB.length > 0 ?
+        (walletOperationsCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : walletOperationsCountMDB[0].count) : 0),
+      result: walletOperationsMDB
+    };
+  }
+
+  public static async saveWalletOperation(tenant: Tenant, walletOperationToSave: BillingWalletOperation): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveWalletOperation');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Properties to save
+    const walletOperationMDB: any = {
+      _id: walletOperationToSave.id ? DatabaseUtils.convertToObjectID(walletOperationToSave.id) : new ObjectId(),
+      userID: DatabaseUtils.convertToObjectID(walletOperationToSave.userID),
+      type: walletOperationToSave.type,
+      amount: Utils.convertToFloat(walletOperationToSave.amount),
+      currency: walletOperationToSave.currency,
+      balance: Utils.convertToFloat(walletOperationToSave.balance),
+      transactionID: walletOperationToSave.transactionID ? Utils.convertToInt(walletOperationToSave.transactionID) : null,
+      externalID: walletOperationToSave.externalID ?? null,
+      description: walletOperationToSave.description ?? null,
+    };
+    // Add Created By
+    DatabaseUtils.addLastChangedCreatedProps(walletOperationMDB, walletOperationToSave);
+    // Ledger entries are never modified
+    let inserted = false;
+    try {
+      await global.database.getCollection<any>(tenant.id, 'walletoperations').insertOne(walletOperationMDB);
+      inserted = true;
+    } catch (error) {
+      // Session charged or payment recorded concurrently (unique indexes)
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveWalletOperation', uniqueTimerID, { walletOperationMDB, inserted });
+    return inserted ? walletOperationMDB._id.toString() : null;
+  }
+
+  private static buildCurrentPeriodFilter(subscriptionID: ObjectId, timestamp: Date): FilterParams {
+    return { _id: subscriptionID, periodStart: { $lte: timestamp }, periodEnd: { $gt: timestamp } };
+  }
+
+  private static buildNextPeriodFilter(subscriptionID: ObjectId, timestamp: Date): FilterParams {
+    // Period ended less than a month ago (or first period not started yet) and subscription not ended
+    const previousPeriodStart = moment(timestamp).subtract(1, 'month').toDate();
+    return {
+      _id: subscriptionID,
+      $and: [
+        { $or: [
+          { periodEnd: { $lte: timestamp, $gt: previousPeriodStart } },
+          { periodEnd: null, startDate: { $lte: timestamp, $gt: previousPeriodStart } },
+        ] },
+        { $or: [{ endDate: null }, { endDate: { $gt: timestamp } }] },
+      ]
+    };
+  }
+
+  private static buildReservePeriodEnergyPipeline(periodEnergyField: string, energyWh: number, includedEnergyWh: number): Document[] {
+    // Capped by the energy included in the plan, never decreased if the plan has been changed since
+    const periodEnergyWh = { $ifNull: [`$${periodEnergyField}`, 0] };
+    return [{
+      $set: {
+        [periodEnergyField]: {
+          $max: [periodEnergyWh, { $min: [Utils.convertToFloat(includedEnergyWh), { $add: [periodEnergyWh, Utils.convertToFloat(energyWh)] }] }]
+        }
+      }
+    }];
+  }
+
+  private static buildInvoiceLineItemMDB(lineItem: BillingInvoiceLineItem): any {
+    return {
+      _id: lineItem.id ? DatabaseUtils.convertToObjectID(lineItem.id) : new ObjectId(),
+      invoiceID: DatabaseUtils.convertToObjectID(lineItem.invoiceID),
+      transactionID: Utils.convertToInt(lineItem.transactionID),
+      description: lineItem.description,
+      pricingData: lineItem.pricingData,
+      taxes: lineItem.taxes,
+      idleFee: Utils.convertToBoolean(lineItem.idleFee),
+      liveMode: Utils.convertToBoolean(lineItem.liveMode),
+      createdOn: Utils.convertToDate(lineItem.createdOn),
+    };
+  }
 }
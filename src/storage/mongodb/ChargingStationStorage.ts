@@ -1,6 +1,6 @@
 import { ChargePointStatus, OCPPFirmwareStatus } from '../../types/ocpp/OCPPServer';
 import { ChargingProfile, ChargingProfilePurposeType, ChargingRateUnitType } from '../../types/ChargingProfile';
-import ChargingStation, { ChargePoint, ChargingStationOcpiData, ChargingStationOcppParameters, ChargingStationOicpData, ChargingStationTemplate, Connector, ConnectorType, CurrentType, OcppParameter, PhaseAssignmentToGrid, RemoteAuthorization, Voltage } from '../../types/ChargingStation';
+import ChargingStation, { ChargePoint, ChargingStationCertificate, ChargingStationOcpiData, ChargingStationOcppParameters, ChargingStationOcppSecurity, ChargingStationOicpData, ChargingStationTemplate, Connector, ConnectorType, CurrentType, LocalAuthorizationList, OcppParameter, PhaseAssignmentToGrid, RemoteAuthorization, Voltage } from '../../types/ChargingStation';
 import { ChargingStationInError, ChargingStationInErrorType } from '../../types/InError';
 import { GridFSBucket, GridFSBucketReadStream, GridFSBucketWriteStream, ObjectId } from 'mongodb';
 import global, { FilterParams } from '../../types/GlobalType';
@@ -34,6 +34,9 @@ export interface ConnectorMDB {
   currentTransactionID: number;
   currentTransactionDate: Date;
   currentTagID: string;
+  currentOcppTransactionID: string;
+  ocppEvseID: number;
+  ocppConnectorID: number;
   status: ChargePointStatus;
   errorCode: string;
   info: string;
@@ -397,6 +400,10 @@ export default class ChargingStationStorage {
     // Convert Object ID to string
     DatabaseUtils.pushConvertObjectIDToString(aggregation, 'siteAreaID');
     DatabaseUtils.pushConvertObjectIDToString(aggregation, 'siteID');
+    // Never expose the Basic Auth password hash
+    aggregation.push({
+      $project: { 'ocppSecurity.basicAuthPassword': 0 }
+    });
     // Project
     DatabaseUtils.projectFields(aggregation, projectFields);
     // Reorder connector ID
@@ -728,6 +735,69 @@ export default class ChargingStationStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationRemoteAuthorizations', uniqueTimerID, remoteAuthorizations);
   }
 
+  public static async saveChargingStationLocalAuthorizationList(tenantID: string, id: string,
+      localAuthorizationList: LocalAuthorizationList): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveChargingStationLocalAuthorizationList');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<ChargingStation>(tenantID, 'chargingstations').findOneAndUpdate(
+      { '_id': id },
+      {
+        $set: {
+          localAuthorizationList: {
+            listVersion: Utils.convertToInt(localAuthorizationList.listVersion),
+            tagIDs: localAuthorizationList.tagIDs,
+            status: localAuthorizationList.status,
+            lastUpdatedOn: Utils.convertToDate(localAuthorizationList.lastUpdatedOn)
+          }
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationLocalAuthorizationList', uniqueTimerID, localAuthorizationList);
+  }
+
+  public static async saveChargingStationConnectorOcppTransactionID(tenantID: string, id: string, connectorID: number,
+      ocppTransactionID: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveChargingStationConnectorOcppTransactionID');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<ChargingStation>(tenantID, 'chargingstations').findOneAndUpdate(
+      { '_id': id, 'connectors.connectorId': Utils.convertToInt(connectorID) },
+      {
+        $set: {
+          'connectors.$.currentOcppTransactionID': ocppTransactionID
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationConnectorOcppTransactionID', uniqueTimerID, { connectorID, ocppTransactionID });
+  }
+
+  public static async saveChargingStationConnectorOcppEvse(tenantID: string, id: string, connectorID: number,
+      ocppEvseID: number, ocppConnectorID: number): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveChargingStationConnectorOcppEvse');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<ChargingStation>(tenantID, 'chargingstations').findOneAndUpdate(
+      { '_id': id, 'connectors.connectorId': Utils.convertToInt(connectorID) },
+      {
+        $set: {
+          'connectors.$.ocppEvseID': Utils.convertToInt(ocppEvseID),
+          'connectors.$.ocppConnectorID': Utils.convertToInt(ocppConnectorID)
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationConnectorOcppEvse', uniqueTimerID, { connectorID, ocppEvseID, ocppConnectorID });
+  }
+
   public static async saveChargingStationFirmwareStatus(tenantID: string, id: string, firmwareUpdateStatus: OCPPFirmwareStatus): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveChargingStationFirmwareStatus');
@@ -742,6 +812,48 @@ export default class ChargingStationStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationFirmwareStatus', uniqueTimerID, firmwareUpdateStatus);
   }
 
+  public static async getChargingStationOcppSecurity(tenantID: string, id: string): Promise<ChargingStationOcppSecurity> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getChargingStationOcppSecurity');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Read DB
+    const chargingStationMDB = await global.database.getCollection<ChargingStation>(tenantID, 'chargingstations').findOne(
+      { '_id': id },
+      { projection: { ocppSecurity: 1 } });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'getChargingStationOcppSecurity', uniqueTimerID, { id });
+    return chargingStationMDB?.ocppSecurity;
+  }
+
+  public static async saveChargingStationOcppSecurity(tenantID: string, id: string, ocppSecurity: ChargingStationOcppSecurity): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveChargingStationOcppSecurity');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<ChargingStation>(tenantID, 'chargingstations').findOneAndUpdate(
+      { '_id': id },
+      { $set: { ocppSecurity } },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationOcppSecurity', uniqueTimerID, { id });
+  }
+
+  public static async saveChargingStationCertificate(tenantID: string, id: string, certificate: ChargingStationCertificate): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveChargingStationCertificate');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<ChargingStation>(tenantID, 'chargingstations').findOneAndUpdate(
+      { '_id': id },
+      { $set: { 'ocppSecurity.certificate': certificate } },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveChargingStationCertificate', uniqueTimerID, certificate);
+  }
+
   public static async deleteChargingStation(tenantID: string, id: string): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'deleteChargingStation');
@@ -1110,6 +1222,9 @@ export default class ChargingStationStorage {
         currentTagID: connector.currentTagID,
         currentTransactionID: Utils.convertToInt(connector.currentTransactionID),
         currentUserID: DatabaseUtils.convertToObjectID(connector.currentUserID),
+        currentOcppTransactionID: connector.currentOcppTransactionID,
+        ocppEvseID: connector.ocppEvseID,
+        ocppConnectorID: connector.ocppConnectorID,
         status: connector.status,
         errorCode: connector.errorCode,
         info: connector.info,
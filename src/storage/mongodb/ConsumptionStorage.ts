@@ -183,7 +183,7 @@ export default class ConsumptionStorage {
   }
 
   static async getSiteAreaConsumptions(tenantID: string,
-      params: { siteAreaID: string; startDate: Date; endDate: Date },
+      params: { siteAreaID: string; childSiteAreaIDs?: string[]; startDate: Date; endDate: Date },
       projectFields?: string[]): Promise<Consumption[]> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getSiteAreaConsumptions');
@@ -195,6 +195,19 @@ export default class ConsumptionStorage {
     if (params.siteAreaID) {
       filters.siteAreaID = DatabaseUtils.convertToObjectID(params.siteAreaID);
     }
+    // Limits of the Site Area
+    let limitWatts: Record<string, unknown> = { $last: '$limitSiteAreaWatts' };
+    let limitAmps: Record<string, unknown> = { $last: '$limitSiteAreaAmps' };
+    // Roll up the consumption of the Sub Site Areas
+    if (params.siteAreaID && !Utils.isEmptyArray(params.childSiteAreaIDs)) {
+      filters.siteAreaID = {
+        $in: [params.siteAreaID, ...params.childSiteAreaIDs].map((siteAreaID) => DatabaseUtils.convertToObjectID(siteAreaID))
+      };
+      // Keep the limits of the parent Site Area only
+      const isParentSiteArea = { $eq: ['$siteAreaID', DatabaseUtils.convertToObjectID(params.siteAreaID)] };
+      limitWatts = { $max: { $cond: [isParentSiteArea, '$limitSiteAreaWatts', null] } };
+      limitAmps = { $max: { $cond: [isParentSiteArea, '$limitSiteAreaAmps', null] } };
+    }
     // Date provided?
     if (params.startDate || params.endDate) {
       filters.startedAt = {};
@@ -227,8 +240,8 @@ export default class ConsumptionStorage {
         },
         instantWatts: { $sum: '$instantWatts' },
         instantAmps: { $sum: '$instantAmps' },
-        limitWatts: { $last: '$limitSiteAreaWatts' },
-        limitAmps: { $last: '$limitSiteAreaAmps' }
+        limitWatts,
+        limitAmps
       }
     });
     // Rebuild the date
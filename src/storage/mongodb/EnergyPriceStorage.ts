@@ -0,0 +1,145 @@
+import global, { FilterParams } from '../../types/GlobalType';
+
+import Constants from '../../utils/Constants';
+import { DataResult } from '../../types/DataResult';
+import DatabaseUtils from './DatabaseUtils';
+import DbParams from '../../types/database/DbParams';
+import EnergyPrice from '../../types/EnergyPrice';
+import Logging from '../../utils/Logging';
+import Utils from '../../utils/Utils';
+
+const MODULE_NAME = 'EnergyPriceStorage';
+
+export default class EnergyPriceStorage {
+  public static async saveEnergyPrices(tenantID: string, energyPricesToSave: EnergyPrice[]): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveEnergyPrices');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // A period is identified by its start
+    const operations = energyPricesToSave.map((energyPriceToSave) => {
+      const energyPriceMDB = {
+        startDate: Utils.convertToDate(energyPriceToSave.startDate),
+        endDate: Utils.convertToDate(energyPriceToSave.endDate),
+        pricePerKWh: Utils.objectHasProperty(energyPriceToSave, 'pricePerKWh') ? Utils.convertToFloat(energyPriceToSave.pricePerKWh) : null,
+        co2GramsPerKWh: Utils.objectHasProperty(energyPriceToSave, 'co2GramsPerKWh') ? Utils.convertToFloat(energyPriceToSave.co2GramsPerKWh) : null,
+      };
+      // Add Last Changed/Created props
+      DatabaseUtils.addLastChangedCreatedProps(energyPriceMDB, energyPriceToSave);
+      return {
+        updateOne: {
+          filter: { startDate: energyPriceMDB.startDate },
+          update: { $set: energyPriceMDB },
+          upsert: true
+        }
+      };
+    });
+    let savedCount = 0;
+    if (!Utils.isEmptyArray(operations)) {
+      const result = await global.database.getCollection<any>(tenantID, 'energyprices').bulkWrite(operations, { ordered: false });
+      savedCount = result.upsertedCount + result.modifiedCount;
+    }
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveEnergyPrices', uniqueTimerID, { savedCount });
+    return savedCount;
+  }
+
+  public static async getEnergyPrices(tenantID: string,
+      params: { startDate?: Date; endDate?: Date } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<EnergyPrice>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getEnergyPrices');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Set the filters
+    const filters: FilterParams = {};
+    // Periods overlapping the requested range
+    if (params.startDate) {
+      filters.endDate = { $gt: Utils.convertToDate(params.startDate) };
+    }
+    if (params.endDate) {
+      filters.startDate = { $lt: Utils.convertToDate(params.endDate) };
+    }
+    // Create Aggregation
+    const aggregation = [];
+    // Filters
+    aggregation.push({
+      $match: filters
+    });
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      // Always limit the nbr of record to avoid perfs issues
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const energyPricesCountMDB = await global.database.getCollection<DataResult<EnergyPrice>>(tenantID, 'energyprices')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      // Return only the count
+      await Logging.traceEnd(tenantID, MODULE_NAME, 'getEnergyPrices', uniqueTimerID, energyPricesCountMDB);
+      return {
+        count: (energyPricesCountMDB.length > 0 ? energyPricesCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { startDate: 1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    if (dbParams.skip > 0) {
+      aggregation.push({ $skip: dbParams.skip });
+    }
+    // Limit
+    aggregation.push({
+      $limit: (dbParams.limit > 0 && dbParams.limit < Constants.DB_RECORD_COUNT_CEIL) ? dbParams.limit : Constants.DB_RECORD_COUNT_CEIL
+    });
+    // Add Created By / Last Changed By
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenantID, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const energyPricesMDB = await global.database.getCollection<any>(tenantID, 'energyprices')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'getEnergyPrices', uniqueTimerID, energyPricesMDB);
+    // Ok
+    return {
+      count: (energyPricesCountMDB.length > 0 ?
+        (energyPricesCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : energyPricesCountMDB[0].count) : 0),
+      result: energyPricesMDB
+    };
+  }
+
+  public static async deleteEnergyPrices(tenantID: string, startDate: Date, endDate: Date): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'deleteEnergyPrices');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Delete the periods starting in the range
+    const result = await global.database.getCollection<any>(tenantID, 'energyprices').deleteMany({
+      startDate: { $gte: Utils.convertToDate(startDate), $lt: Utils.convertToDate(endDate) }
+    });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'deleteEnergyPrices', uniqueTimerID, { startDate, endDate });
+    return result.deletedCount;
+  }
+}
@@ -2,6 +2,7 @@ import { ChangeStream, ChangeStreamOptions, ClientSession, Collection, Db, GridF
 import mongoUriBuilder, { MongoUriConfig } from 'mongo-uri-builder';
 
 import BackendError from '../../exception/BackendError';
+import { BillingWalletOperationType } from '../../types/Billing';
 import Configuration from '../../utils/Configuration';
 import Constants from '../../utils/Constants';
 import DatabaseUtils from './DatabaseUtils';
@@ -68,6 +69,7 @@ export default class MongoDBStorage {
       { fields: { issuer: 1, name: 1 } },
       { fields: { email: 1 }, options: { unique: true } },
       { fields: { 'address.coordinates': '2dsphere' } },
+      { fields: { billingAccountID: 1 } },
     ]);
     // Users Import
     await this.handleIndexesInCollection(tenantID, 'importedusers', [
@@ -81,6 +83,39 @@ export default class MongoDBStorage {
     await this.handleIndexesInCollection(tenantID, 'invoices', [
       { fields: { invoiceID: 1 }, options: { unique: true } },
       { fields: { createdOn: 1 } },
+      { fields: { billingAccountID: 1, createdOn: -1 } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'invoiceitems', [
+      { fields: { invoiceID: 1 } },
+      // A session is billed only once
+      { fields: { transactionID: 1 }, options: { unique: true, partialFilterExpression: { transactionID: { $gt: 0 }, idleFee: false } } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'creditnotes', [
+      { fields: { invoiceID: 1 } },
+      { fields: { transactionID: 1 } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'billingaccounts', [
+      { fields: { name: 1 } },
+      { fields: { companyID: 1 } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'subscriptionplans', [
+      { fields: { name: 1 } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'subscriptions', [
+      { fields: { userID: 1, status: 1 } },
+      { fields: { planID: 1 } },
+      { fields: { status: 1, periodEnd: 1 } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'billingcustomers', [
+      { fields: { userID: 1 } },
+    ]);
+    await this.handleIndexesInCollection(tenantID, 'walletoperations', [
+      { fields: { userID: 1, createdOn: -1 } },
+      { fields: { transactionID: 1 } },
+      // A session is charged only once, it can be refunded several times
+      { fields: { transactionID: 1, type: 1 }, options: { unique: true, partialFilterExpression: { transactionID: { $gt: 0 }, type: BillingWalletOperationType.CHARGE } } },
+      // A payment of the billing provider is recorded only once
+      { fields: { externalID: 1 }, options: { unique: true, partialFilterExpression: { externalID: { $type: 'string' } } } },
     ]);
     // Logs
     await this.handleIndexesInCollection(tenantID, 'logs', [
@@ -126,6 +161,7 @@ export default class MongoDBStorage {
       { fields: { chargeBoxID: 1 } },
       { fields: { tagID: 1 } },
       { fields: { userID: 1 } },
+      { fields: { chargeBoxID: 1, ocppTransactionID: 1 } },
     ]);
     // Settings
     await this.handleIndexesInCollection(tenantID, 'settings', [
@@ -150,6 +186,7 @@ export default class MongoDBStorage {
     // Site Area
     await this.handleIndexesInCollection(tenantID, 'siteareas', [
       { fields: { 'address.coordinates': '2dsphere' } },
+      { fields: { parentSiteAreaID: 1 } },
     ]);
     // Charging Stations
     await this.handleIndexesInCollection(tenantID, 'chargingstations', [
@@ -157,6 +194,21 @@ export default class MongoDBStorage {
       { fields: { deleted: 1, issuer: 1 } },
       { fields: { 'connectors.status': 1 } },
     ]);
+    // Reservations
+    await this.handleIndexesInCollection(tenantID, 'reservations', [
+      { fields: { chargingStationID: 1, connectorId: 1, status: 1 } },
+      { fields: { status: 1, expiryDate: 1 } },
+      { fields: { userID: 1 } },
+    ]);
+    // Tariffs
+    await this.handleIndexesInCollection(tenantID, 'tariffs', [
+      { fields: { entityType: 1, entityID: 1 }, options: { unique: true } },
+    ]);
+    // Energy Prices
+    await this.handleIndexesInCollection(tenantID, 'energyprices', [
+      { fields: { startDate: 1 }, options: { unique: true } },
+      { fields: { endDate: 1 } },
+    ]);
     await Logging.logDebug({
       tenantID: tenantID,
       action: ServerAction.MONGO_DB,
@@ -1,4 +1,4 @@
-import { OCPPAuthorizeRequestExtended, OCPPBootNotificationRequestExtended, OCPPDataTransferRequestExtended, OCPPDiagnosticsStatusNotificationRequestExtended, OCPPFirmwareStatusNotificationRequestExtended, OCPPHeartbeatRequestExtended, OCPPNormalizedMeterValue, OCPPNormalizedMeterValues, OCPPReadingContext, OCPPStatusNotificationRequestExtended } from '../../types/ocpp/OCPPServer';
+import { OCPPAuthorizeRequestExtended, OCPPBootNotificationRequestExtended, OCPPDataTransferRequestExtended, OCPPDiagnosticsStatusNotificationRequestExtended, OCPPFirmwareStatusNotificationRequestExtended, OCPPHeartbeatRequestExtended, OCPPNormalizedMeterValue, OCPPNormalizedMeterValues, OCPPReadingContext, OCPPSecurityEventNotificationRequestExtended, OCPPStatusNotificationRequestExtended } from '../../types/ocpp/OCPPServer';
 import global, { FilterParams } from '../../types/GlobalType';
 
 import Cypher from '../../utils/Cypher';
@@ -296,6 +296,27 @@ export default class OCPPStorage {
     await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveDataTransfer', uniqueTimerID, dataTransfer);
   }
 
+  public static async saveSecurityEventNotification(tenant: Tenant, securityEventNotification: OCPPSecurityEventNotificationRequestExtended): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveSecurityEventNotification');
+    // Check Tenant
+    DatabaseUtils.checkTenantObject(tenant);
+    // Set the ID
+    const timestamp = Utils.convertToDate(securityEventNotification.timestamp);
+    // Insert
+    await global.database.getCollection<any>(tenant.id, 'securityevents')
+      .insertOne({
+        _id: Cypher.hash(`${securityEventNotification.chargeBoxID}~${securityEventNotification.type}~${timestamp.toISOString()}`),
+        chargeBoxID: securityEventNotification.chargeBoxID,
+        type: securityEventNotification.type,
+        techInfo: securityEventNotification.techInfo,
+        timestamp: timestamp,
+        timezone: securityEventNotification.timezone
+      });
+    // Debug
+    await Logging.traceEnd(tenant.id, MODULE_NAME, 'saveSecurityEventNotification', uniqueTimerID, securityEventNotification);
+  }
+
   public static async saveBootNotification(tenant: Tenant, bootNotification: OCPPBootNotificationRequestExtended): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenant.id, MODULE_NAME, 'saveBootNotification');
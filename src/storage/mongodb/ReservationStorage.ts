@@ -0,0 +1,267 @@
+import Reservation, { ReservationStatus } from '../../types/Reservation';
+import global, { FilterParams } from '../../types/GlobalType';
+
+import Constants from '../../utils/Constants';
+import { DataResult } from '../../types/DataResult';
+import DatabaseUtils from './DatabaseUtils';
+import DbParams from '../../types/database/DbParams';
+import Logging from '../../utils/Logging';
+import { ServerAction } from '../../types/Server';
+import Utils from '../../utils/Utils';
+
+const MODULE_NAME = 'ReservationStorage';
+
+export default class ReservationStorage {
+  public static async saveReservation(tenantID: string, reservationToSave: Reservation): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveReservation');
+    // Check
+    await DatabaseUtils.checkTenant(tenantID);
+    // ID not provided?
+    if (!reservationToSave.id) {
+      reservationToSave.id = await ReservationStorage.findAvailableID(tenantID);
+    }
+    // Transfer
+    const reservationMDB: any = {
+      _id: Utils.convertToInt(reservationToSave.id),
+      chargingStationID: reservationToSave.chargingStationID,
+      connectorId: Utils.convertToInt(reservationToSave.connectorId),
+      tagID: reservationToSave.tagID,
+      parentTagID: reservationToSave.parentTagID,
+      userID: DatabaseUtils.convertToObjectID(reservationToSave.userID),
+      expiryDate: Utils.convertToDate(reservationToSave.expiryDate),
+      status: reservationToSave.status,
+      transactionID: reservationToSave.transactionID ? Utils.convertToInt(reservationToSave.transactionID) : null,
+      cancelledOn: Utils.convertToDate(reservationToSave.cancelledOn),
+    };
+    if (reservationToSave.ocpiData) {
+      reservationMDB.ocpiData = {
+        reservationID: Utils.convertToInt(reservationToSave.ocpiData.reservationID)
+      };
+    }
+    if (reservationToSave.oicpData) {
+      reservationMDB.oicpData = {
+        sessionID: reservationToSave.oicpData.sessionID,
+        providerID: reservationToSave.oicpData.providerID,
+        identification: reservationToSave.oicpData.identification
+      };
+    }
+    // Add Last Changed/Created props
+    DatabaseUtils.addLastChangedCreatedProps(reservationMDB, reservationToSave);
+    // Modify
+    await global.database.getCollection<any>(tenantID, 'reservations').findOneAndUpdate(
+      { _id: reservationMDB._id },
+      { $set: reservationMDB },
+      { upsert: true, returnDocument: 'after' }
+    );
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveReservation', uniqueTimerID, reservationMDB);
+    return reservationToSave.id;
+  }
+
+  public static async saveReservationStatus(tenantID: string, id: number, status: ReservationStatus,
+      params: { transactionID?: number; cancelledOn?: Date } = {}): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveReservationStatus');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    const updatedFields: any = { status };
+    if (params.transactionID) {
+      updatedFields.transactionID = Utils.convertToInt(params.transactionID);
+    }
+    if (params.cancelledOn) {
+      updatedFields.cancelledOn = Utils.convertToDate(params.cancelledOn);
+    }
+    // Modify
+    await global.database.getCollection<any>(tenantID, 'reservations').findOneAndUpdate(
+      { '_id': Utils.convertToInt(id) },
+      { $set: updatedFields });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveReservationStatus', uniqueTimerID, updatedFields);
+  }
+
+  public static async getReservations(tenantID: string,
+      params: { reservationIDs?: number[]; chargingStationIDs?: string[]; connectorIDs?: number[]; userIDs?: string[]; tagIDs?: string[];
+        statuses?: ReservationStatus[]; expiryDateTo?: Date; ocpiReservationID?: number; oicpSessionID?: string; withUser?: boolean; } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<Reservation>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getReservations');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Set the filters
+    const filters: FilterParams = {};
+    // Reservation IDs
+    if (!Utils.isEmptyArray(params.reservationIDs)) {
+      filters._id = {
+        $in: params.reservationIDs.map((reservationID) => Utils.convertToInt(reservationID))
+      };
+    }
+    // Charging Stations
+    if (!Utils.isEmptyArray(params.chargingStationIDs)) {
+      filters.chargingStationID = { $in: params.chargingStationIDs };
+    }
+    // Connectors
+    if (!Utils.isEmptyArray(params.connectorIDs)) {
+      filters.connectorId = {
+        $in: params.connectorIDs.map((connectorID) => Utils.convertToInt(connectorID))
+      };
+    }
+    // Users
+    if (!Utils.isEmptyArray(params.userIDs)) {
+      filters.userID = {
+        $in: params.userIDs.map((userID) => DatabaseUtils.convertToObjectID(userID))
+      };
+    }
+    // Tags
+    if (!Utils.isEmptyArray(params.tagIDs)) {
+      filters.tagID = { $in: params.tagIDs };
+    }
+    // Statuses
+    if (!Utils.isEmptyArray(params.statuses)) {
+      filters.status = { $in: params.statuses };
+    }
+    // Expiry Date
+    if (params.expiryDateTo) {
+      filters.expiryDate = { $lte: Utils.convertToDate(params.expiryDateTo) };
+    }
+    // OCPI Reservation ID
+    if (params.ocpiReservationID) {
+      filters['ocpiData.reservationID'] = Utils.convertToInt(params.ocpiReservationID);
+    }
+    // OICP Session ID
+    if (params.oicpSessionID) {
+      filters['oicpData.sessionID'] = params.oicpSessionID;
+    }
+    // Create Aggregation
+    const aggregation = [];
+    // Filters
+    aggregation.push({
+      $match: filters
+    });
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      // Always limit the nbr of record to avoid perfs issues
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const reservationsCountMDB = await global.database.getCollection<DataResult<Reservation>>(tenantID, 'reservations')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      // Return only the count
+      await Logging.traceEnd(tenantID, MODULE_NAME, 'getReservations', uniqueTimerID, reservationsCountMDB);
+      return {
+        count: (reservationsCountMDB.length > 0 ? reservationsCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { expiryDate: -1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    if (dbParams.skip > 0) {
+      aggregation.push({ $skip: dbParams.skip });
+    }
+    // Limit
+    aggregation.push({
+      $limit: (dbParams.limit > 0 && dbParams.limit < Constants.DB_RECORD_COUNT_CEIL) ? dbParams.limit : Constants.DB_RECORD_COUNT_CEIL
+    });
+    // User
+    if (params.withUser) {
+      DatabaseUtils.pushUserLookupInAggregation({
+        tenantID, aggregation: aggregation, asField: 'user', localField: 'userID',
+        foreignField: '_id', oneToOneCardinality: true, oneToOneCardinalityNotNull: false
+      });
+    }
+    // Add Created By / Last Changed By
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenantID, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseIDToNumber(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'userID');
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const reservationsMDB = await global.database.getCollection<any>(tenantID, 'reservations')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'getReservations', uniqueTimerID, reservationsMDB);
+    // Ok
+    return {
+      count: (reservationsCountMDB.length > 0 ?
+        (reservationsCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : reservationsCountMDB[0].count) : 0),
+      result: reservationsMDB
+    };
+  }
+
+  public static async getReservation(tenantID: string, id: number = Constants.UNKNOWN_NUMBER_ID,
+      params: { withUser?: boolean } = {}, projectFields?: string[]): Promise<Reservation> {
+    const reservationsMDB = await ReservationStorage.getReservations(tenantID, {
+      reservationIDs: [id],
+      withUser: params.withUser,
+    }, Constants.DB_PARAMS_SINGLE_RECORD, projectFields);
+    return reservationsMDB.count === 1 ? reservationsMDB.result[0] : null;
+  }
+
+  public static async getActiveReservation(tenantID: string, chargingStationID: string, connectorID: number): Promise<Reservation> {
+    const reservationsMDB = await ReservationStorage.getReservations(tenantID, {
+      chargingStationIDs: [chargingStationID],
+      connectorIDs: [connectorID],
+      statuses: [ReservationStatus.ACTIVE]
+    }, Constants.DB_PARAMS_SINGLE_RECORD);
+    return reservationsMDB.count === 1 ? reservationsMDB.result[0] : null;
+  }
+
+  public static async getOCPIReservationByReservationID(tenantID: string, reservationID: number): Promise<Reservation> {
+    const reservationsMDB = await ReservationStorage.getReservations(tenantID, {
+      ocpiReservationID: reservationID
+    }, Constants.DB_PARAMS_SINGLE_RECORD);
+    return reservationsMDB.count === 1 ? reservationsMDB.result[0] : null;
+  }
+
+  public static async getOICPReservationBySessionID(tenantID: string, sessionID: string): Promise<Reservation> {
+    const reservationsMDB = await ReservationStorage.getReservations(tenantID, {
+      oicpSessionID: sessionID
+    }, Constants.DB_PARAMS_SINGLE_RECORD);
+    return reservationsMDB.count === 1 ? reservationsMDB.result[0] : null;
+  }
+
+  public static async findAvailableID(tenantID: string): Promise<number> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'findAvailableID');
+    let existingReservation: Reservation;
+    do {
+      // Generate new reservation ID
+      const id = Utils.getRandomIntSafe();
+      existingReservation = await ReservationStorage.getReservation(tenantID, id);
+      if (existingReservation) {
+        await Logging.logWarning({
+          tenantID: tenantID,
+          module: MODULE_NAME, method: 'findAvailableID',
+          action: ServerAction.CHARGING_STATION_RESERVE_NOW,
+          message: `Reservation ID '${id}' already exists, generating a new one...`
+        });
+      } else {
+        // Debug
+        await Logging.traceEnd(tenantID, MODULE_NAME, 'findAvailableID', uniqueTimerID, { id });
+        return id;
+      }
+    } while (existingReservation);
+  }
+}
@@ -1,4 +1,4 @@
-import { AnalyticsSettings, AnalyticsSettingsType, AssetSettings, AssetSettingsType, BillingSetting, BillingSettings, BillingSettingsType, CryptoSetting, CryptoSettings, CryptoSettingsType, PricingSettings, PricingSettingsType, RefundSettings, RefundSettingsType, RoamingSettings, SettingDB, SmartChargingSettings, SmartChargingSettingsType, TechnicalSettings, UserSettings, UserSettingsType } from '../../types/Setting';
+import { AnalyticsSettings, AnalyticsSettingsType, AssetSettings, AssetSettingsType, BillingSetting, BillingSettings, BillingSettingsType, ChargingScheduleOptimization, CryptoSetting, CryptoSettings, CryptoSettingsType, OcppSecuritySettings, OcppSecuritySettingsType, PricingSettings, PricingSettingsType, RefundSettings, RefundSettingsType, RoamingSettings, SettingDB, SmartChargingSettings, SmartChargingSettingsType, TechnicalSettings, UserSettings, UserSettingsType } from '../../types/Setting';
 import global, { FilterParams } from '../../types/GlobalType';
 
 import BackendError from '../../exception/BackendError';
@@ -211,6 +211,9 @@ export default class SettingStorage {
         pricingSettings.simple = {
           price: config.simple.price ? Utils.convertToFloat(config.simple.price) : 0,
           currency: config.simple.currency ? config.simple.currency : '',
+          pricings: config.simple.pricings ? config.simple.pricings : [],
+          userGroupPricings: config.simple.userGroupPricings ? config.simple.userGroupPricings : [],
+          idleFee: config.simple.idleFee ? config.simple.idleFee : null,
           last_updated: settings.result[0].lastChangedOn ? Utils.convertToDate(settings.result[0].lastChangedOn) : null,
         };
       }
@@ -255,6 +258,16 @@ export default class SettingStorage {
           limitBufferAC: config.sapSmartCharging.limitBufferAC ? config.sapSmartCharging.limitBufferAC : 0,
         };
       }
+      // Local Smart Charging
+      if (config.localSmartCharging) {
+        smartChargingSettings.type = SmartChargingSettingsType.LOCAL_SMART_CHARGING;
+        smartChargingSettings.localSmartCharging = {
+          safetyMarginPercent: config.localSmartCharging.safetyMarginPercent ? config.localSmartCharging.safetyMarginPercent : 0,
+          solarHysteresisAmps: config.localSmartCharging.solarHysteresisAmps ? config.localSmartCharging.solarHysteresisAmps : 0,
+          chargingScheduleOptimization: config.localSmartCharging.chargingScheduleOptimization ?
+            config.localSmartCharging.chargingScheduleOptimization : ChargingScheduleOptimization.NONE,
+        };
+      }
     }
     return smartChargingSettings;
   }
@@ -306,6 +319,21 @@ export default class SettingStorage {
     return userSettings;
   }
 
+  public static async getOcppSecuritySettings(tenantID: string): Promise<OcppSecuritySettings> {
+    let ocppSecuritySettings: OcppSecuritySettings;
+    // Get the OCPP security settings
+    const settings = await SettingStorage.getSettings(tenantID, { identifier: TechnicalSettings.OCPP_SECURITY }, Constants.DB_PARAMS_SINGLE_RECORD);
+    if (settings.count > 0) {
+      ocppSecuritySettings = {
+        id: settings.result[0].id,
+        identifier: TechnicalSettings.OCPP_SECURITY,
+        type: OcppSecuritySettingsType.OCPP_SECURITY,
+        ocppSecurity: settings.result[0].content.ocppSecurity,
+      };
+    }
+    return ocppSecuritySettings;
+  }
+
   public static async getSettings(tenantID: string,
       params: {identifier?: string; settingID?: string, dateFrom?: Date, dateTo?: Date},
       dbParams: DbParams, projectFields?: string[]): Promise<DataResult<SettingDB>> {
@@ -404,6 +432,21 @@ export default class SettingStorage {
     await SettingStorage.saveSettings(tenantID, settingsToSave);
   }
 
+  public static async saveOcppSecuritySettings(tenantID: string, ocppSecuritySettingsToSave: OcppSecuritySettings): Promise<void> {
+    // Build internal structure
+    const settingsToSave = {
+      id: ocppSecuritySettingsToSave.id,
+      identifier: TechnicalSettings.OCPP_SECURITY,
+      lastChangedOn: new Date(),
+      content: {
+        type: OcppSecuritySettingsType.OCPP_SECURITY,
+        ocppSecurity: ocppSecuritySettingsToSave.ocppSecurity
+      },
+    } as SettingDB;
+    // Save
+    await SettingStorage.saveSettings(tenantID, settingsToSave);
+  }
+
   public static async saveCryptoSettings(tenantID: string, cryptoSettingsToSave: CryptoSettings): Promise<void> {
     // Build internal structure
     const settingsToSave = {
@@ -432,6 +475,8 @@ export default class SettingStorage {
         periodicBillingAllowed: !!content.billing?.periodicBillingAllowed,
         taxID: content.billing?.taxID,
         usersLastSynchronizedOn: content.billing?.usersLastSynchronizedOn,
+        isWalletActivated: !!content.billing?.isWalletActivated,
+        walletMinimumBalance: content.billing?.walletMinimumBalance ?? 0,
       };
       const billingSettings: BillingSettings = {
         id,
@@ -446,7 +491,6 @@ export default class SettingStorage {
         lastChangedOn,
       };
       switch (content.type) {
-        // Only STRIPE so far
         case BillingSettingsType.STRIPE:
           billingSettings.stripe = {
             url: content.stripe?.url,
@@ -455,6 +499,17 @@ export default class SettingStorage {
           };
           billingSettings.sensitiveData = [ 'stripe.secretKey' ];
           break;
+        case BillingSettingsType.LOCAL_BILLING:
+          billingSettings.localBilling = {
+            companyName: content.localBilling?.companyName,
+            companyAddress: content.localBilling?.companyAddress,
+            companyTaxNumber: content.localBilling?.companyTaxNumber,
+            invoiceNumberPrefix: content.localBilling?.invoiceNumberPrefix,
+            paymentInstructions: content.localBilling?.paymentInstructions,
+            taxes: content.localBilling?.taxes ?? [],
+          };
+          billingSettings.sensitiveData = [];
+          break;
       }
       return billingSettings;
     }
@@ -464,7 +519,7 @@ export default class SettingStorage {
   public static async saveBillingSetting(tenantID: string, billingSettings: BillingSettings): Promise<string> {
     const { id, identifier, sensitiveData, backupSensitiveData, category } = billingSettings;
     const { createdBy, createdOn, lastChangedBy, lastChangedOn } = billingSettings;
-    const { type, billing, stripe } = billingSettings;
+    const { type, billing, stripe, localBilling } = billingSettings;
     const setting: SettingDB = {
       id, identifier, sensitiveData, backupSensitiveData,
       content: {
@@ -476,6 +531,10 @@ export default class SettingStorage {
     if (billingSettings.type === BillingSettingsType.STRIPE) {
       setting.sensitiveData = [ 'content.stripe.secretKey' ];
       setting.content.stripe = stripe;
+    } else if (billingSettings.type === BillingSettingsType.LOCAL_BILLING) {
+      // No sensitive data - invoices are issued by the server
+      setting.sensitiveData = [];
+      setting.content.localBilling = localBilling;
     }
     return SettingStorage.saveSettings(tenantID, setting);
   }
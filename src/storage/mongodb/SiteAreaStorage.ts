@@ -76,11 +76,12 @@ export default class SiteAreaStorage {
   }
 
   public static async getSiteArea(tenantID: string, id: string = Constants.UNKNOWN_OBJECT_ID,
-      params: { withSite?: boolean; withChargingStations?: boolean, withAvailableChargingStations?: boolean; withImage?: boolean } = {},
+      params: { withSite?: boolean; withChargingStations?: boolean, withAvailableChargingStations?: boolean; withImage?: boolean; withParentSiteArea?: boolean } = {},
       projectFields?: string[]): Promise<SiteArea> {
     const siteAreasMDB = await SiteAreaStorage.getSiteAreas(tenantID, {
       siteAreaIDs: [id],
       withSite: params.withSite,
+      withParentSiteArea: params.withParentSiteArea,
       withChargingStations: params.withChargingStations,
       withAvailableChargingStations: params.withAvailableChargingStations,
       withImage: params.withImage,
@@ -88,6 +89,21 @@ export default class SiteAreaStorage {
     return siteAreasMDB.count === 1 ? siteAreasMDB.result[0] : null;
   }
 
+  public static async getRootSiteAreaID(tenantID: string, siteArea: SiteArea): Promise<string> {
+    let rootSiteArea = siteArea;
+    const visitedSiteAreaIDs = new Set<string>([rootSiteArea.id]);
+    // Go up to the main feeder (guard against a loop in the tree)
+    while (rootSiteArea.parentSiteAreaID && !visitedSiteAreaIDs.has(rootSiteArea.parentSiteAreaID)) {
+      const parentSiteArea = await SiteAreaStorage.getSiteArea(tenantID, rootSiteArea.parentSiteAreaID, {}, ['id', 'parentSiteAreaID']);
+      if (!parentSiteArea) {
+        break;
+      }
+      rootSiteArea = parentSiteArea;
+      visitedSiteAreaIDs.add(rootSiteArea.id);
+    }
+    return rootSiteArea.id;
+  }
+
   public static async saveSiteArea(tenantID: string, siteAreaToSave: SiteArea, saveImage = false): Promise<string> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveSiteArea');
@@ -104,7 +120,14 @@ export default class SiteAreaStorage {
       maximumPower: Utils.convertToFloat(siteAreaToSave.maximumPower),
       voltage: Utils.convertToInt(siteAreaToSave.voltage),
       numberOfPhases: Utils.convertToInt(siteAreaToSave.numberOfPhases),
+      parentSiteAreaID: siteAreaToSave.parentSiteAreaID ? DatabaseUtils.convertToObjectID(siteAreaToSave.parentSiteAreaID) : null,
+      solarChargingMode: siteAreaToSave.solarChargingMode ?? null,
     };
+    siteAreaMDB.phaseAssignmentToGrid = siteAreaToSave.phaseAssignmentToGrid ? {
+      csPhaseL1: siteAreaToSave.phaseAssignmentToGrid.csPhaseL1,
+      csPhaseL2: siteAreaToSave.phaseAssignmentToGrid.csPhaseL2,
+      csPhaseL3: siteAreaToSave.phaseAssignmentToGrid.csPhaseL3,
+    } : null;
     if (siteAreaToSave.address) {
       siteAreaMDB.address = {
         address1: siteAreaToSave.address.address1,
@@ -118,6 +141,9 @@ export default class SiteAreaStorage {
           (coordinate) => Utils.convertToFloat(coordinate)) : [],
       };
     }
+    if (siteAreaToSave.openingTimes) {
+      siteAreaMDB.openingTimes = siteAreaToSave.openingTimes;
+    }
     // Add Last Changed/Created props
     DatabaseUtils.addLastChangedCreatedProps(siteAreaMDB, siteAreaToSave);
     // Modify
@@ -139,6 +165,7 @@ export default class SiteAreaStorage {
         siteAreaIDs?: string[]; search?: string; siteIDs?: string[]; companyIDs?: string[]; withSite?: boolean; issuer?: boolean; name?: string;
         withChargingStations?: boolean; withOnlyChargingStations?: boolean; withAvailableChargingStations?: boolean;
         locCoordinates?: number[]; locMaxDistanceMeters?: number; smartCharging?: boolean; withImage?: boolean;
+        parentSiteAreaIDs?: string[]; withParentSiteArea?: boolean;
       } = {},
       dbParams: DbParams, projectFields?: string[]): Promise<DataResult<SiteArea>> {
     // Debug
@@ -187,6 +214,12 @@ export default class SiteAreaStorage {
         $in: params.siteIDs.map((siteID) => DatabaseUtils.convertToObjectID(siteID))
       };
     }
+    // Parent Site Area
+    if (!Utils.isEmptyArray(params.parentSiteAreaIDs)) {
+      filters.parentSiteAreaID = {
+        $in: params.parentSiteAreaIDs.map((parentSiteAreaID) => DatabaseUtils.convertToObjectID(parentSiteAreaID))
+      };
+    }
     // Company
     if (!Utils.isEmptyArray(params.companyIDs)) {
       DatabaseUtils.pushSiteLookupInAggregation({
@@ -259,6 +292,13 @@ export default class SiteAreaStorage {
         asField: 'site', oneToOneCardinality: true
       });
     }
+    // Parent Site Area
+    if (params.withParentSiteArea) {
+      DatabaseUtils.pushSiteAreaLookupInAggregation({
+        tenantID, aggregation, localField: 'parentSiteAreaID', foreignField: '_id',
+        asField: 'parentSiteArea', oneToOneCardinality: true
+      });
+    }
     // Charging Stations
     if (params.withChargingStations || params.withOnlyChargingStations || params.withAvailableChargingStations) {
       DatabaseUtils.pushChargingStationLookupInAggregation({
@@ -283,6 +323,7 @@ export default class SiteAreaStorage {
     }
     // Convert Object ID to string
     DatabaseUtils.pushConvertObjectIDToString(aggregation, 'siteID');
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'parentSiteAreaID');
     // Add Last Changed / Created
     DatabaseUtils.pushCreatedLastChangedInAggregation(tenantID, aggregation);
     // Handle the ID
@@ -334,6 +375,34 @@ export default class SiteAreaStorage {
     };
   }
 
+  public static async getChildSiteAreaIDs(tenantID: string, siteAreaID: string): Promise<string[]> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getChildSiteAreaIDs');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Walk down the whole tree
+    const siteAreasMDB = await global.database.getCollection<any>(tenantID, 'siteareas')
+      .aggregate([
+        { $match: { _id: DatabaseUtils.convertToObjectID(siteAreaID) } },
+        {
+          $graphLookup: {
+            from: DatabaseUtils.getCollectionName(tenantID, 'siteareas'),
+            startWith: '$_id',
+            connectFromField: '_id',
+            connectToField: 'parentSiteAreaID',
+            as: 'childSiteAreas'
+          }
+        },
+        { $project: { 'childSiteAreas._id': 1 } }
+      ], { allowDiskUse: true })
+      .toArray();
+    const childSiteAreaIDs: string[] = siteAreasMDB.length > 0 ?
+      siteAreasMDB[0].childSiteAreas.map((childSiteAreaMDB): string => childSiteAreaMDB._id.toString()) : [];
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'getChildSiteAreaIDs', uniqueTimerID, childSiteAreaIDs);
+    return childSiteAreaIDs;
+  }
+
   public static async addChargingStationsToSiteArea(tenantID: string, siteArea: SiteArea, chargingStationIDs: string[]): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'addChargingStationsToSiteArea');
@@ -403,6 +472,11 @@ export default class SiteAreaStorage {
       { siteAreaID: { $in: siteAreaIDs.map((ID) => DatabaseUtils.convertToObjectID(ID)) } },
       { $set: { siteAreaID: null } }
     );
+    // Remove Sub Site Area's parent
+    await global.database.getCollection<any>(tenantID, 'siteareas').updateMany(
+      { parentSiteAreaID: { $in: siteAreaIDs.map((ID) => DatabaseUtils.convertToObjectID(ID)) } },
+      { $set: { parentSiteAreaID: null } }
+    );
     // Delete SiteArea
     await global.database.getCollection<any>(tenantID, 'siteareas').deleteMany(
       { '_id': { $in: siteAreaIDs.map((ID) => DatabaseUtils.convertToObjectID(ID)) } }
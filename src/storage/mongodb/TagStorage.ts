@@ -27,7 +27,8 @@ export default class TagStorage {
       default: Utils.convertToBoolean(tag.default),
       visualID: tag.visualID ?? new ObjectId().toString(),
       ocpiToken: tag.ocpiToken,
-      description: tag.description
+      description: tag.description,
+      smartChargingPriority: tag.smartChargingPriority ? Utils.convertToInt(tag.smartChargingPriority) : null
     };
     // Check Created/Last Changed By
     DatabaseUtils.addLastChangedCreatedProps(tagMDB, tag);
@@ -0,0 +1,182 @@
+import Tariff, { TariffEntityType } from '../../types/Tariff';
+import global, { FilterParams } from '../../types/GlobalType';
+
+import Constants from '../../utils/Constants';
+import { DataResult } from '../../types/DataResult';
+import DatabaseUtils from './DatabaseUtils';
+import DbParams from '../../types/database/DbParams';
+import Logging from '../../utils/Logging';
+import { ObjectId } from 'mongodb';
+import Utils from '../../utils/Utils';
+
+const MODULE_NAME = 'TariffStorage';
+
+export default class TariffStorage {
+  public static async saveTariff(tenantID: string, tariffToSave: Tariff): Promise<string> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveTariff');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Set
+    const tariffMDB = {
+      _id: tariffToSave.id ? DatabaseUtils.convertToObjectID(tariffToSave.id) : new ObjectId(),
+      description: tariffToSave.description,
+      currency: tariffToSave.currency,
+      entityType: tariffToSave.entityType,
+      entityID: tariffToSave.entityID,
+      pricings: tariffToSave.pricings ?? [],
+      userGroupPricings: tariffToSave.userGroupPricings ?? [],
+      idleFee: tariffToSave.idleFee ?? null,
+    };
+    // Add Last Changed/Created props
+    DatabaseUtils.addLastChangedCreatedProps(tariffMDB, tariffToSave);
+    // Modify
+    await global.database.getCollection<any>(tenantID, 'tariffs').findOneAndUpdate(
+      { _id: tariffMDB._id },
+      { $set: tariffMDB },
+      { upsert: true, returnDocument: 'after' }
+    );
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTariff', uniqueTimerID, tariffMDB);
+    return tariffMDB._id.toString();
+  }
+
+  public static async getTariffs(tenantID: string,
+      params: { tariffIDs?: string[]; entityTypes?: TariffEntityType[]; entityIDs?: string[]; search?: string;
+        dateFrom?: Date; dateTo?: Date } = {},
+      dbParams: DbParams, projectFields?: string[]): Promise<DataResult<Tariff>> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getTariffs');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Clone before updating the values
+    dbParams = Utils.cloneObject(dbParams);
+    // Check Limit
+    dbParams.limit = Utils.checkRecordLimit(dbParams.limit);
+    // Check Skip
+    dbParams.skip = Utils.checkRecordSkip(dbParams.skip);
+    // Set the filters
+    const filters: FilterParams = {};
+    // Search
+    if (params.search) {
+      filters.description = { $regex: params.search, $options: 'i' };
+    }
+    // Tariff IDs
+    if (!Utils.isEmptyArray(params.tariffIDs)) {
+      filters._id = {
+        $in: params.tariffIDs.map((tariffID) => DatabaseUtils.convertToObjectID(tariffID))
+      };
+    }
+    // Entity Types
+    if (!Utils.isEmptyArray(params.entityTypes)) {
+      filters.entityType = { $in: params.entityTypes };
+    }
+    // Entity IDs
+    if (!Utils.isEmptyArray(params.entityIDs)) {
+      filters.entityID = { $in: params.entityIDs };
+    }
+    // Last Changed (tariffs never updated only have a creation date)
+    if (params.dateFrom || params.dateTo) {
+      const dateFilter: FilterParams = {};
+      if (params.dateFrom) {
+        dateFilter.$gte = Utils.convertToDate(params.dateFrom);
+      }
+      if (params.dateTo) {
+        dateFilter.$lte = Utils.convertToDate(params.dateTo);
+      }
+      filters.$or = [
+        { lastChangedOn: dateFilter },
+        { lastChangedOn: null, createdOn: dateFilter }
+      ];
+    }
+    // Create Aggregation
+    const aggregation = [];
+    // Filters
+    aggregation.push({
+      $match: filters
+    });
+    // Limit records?
+    if (!dbParams.onlyRecordCount) {
+      // Always limit the nbr of record to avoid perfs issues
+      aggregation.push({ $limit: Constants.DB_RECORD_COUNT_CEIL });
+    }
+    // Count Records
+    const tariffsCountMDB = await global.database.getCollection<DataResult<Tariff>>(tenantID, 'tariffs')
+      .aggregate([...aggregation, { $count: 'count' }], { allowDiskUse: true })
+      .toArray();
+    // Check if only the total count is requested
+    if (dbParams.onlyRecordCount) {
+      // Return only the count
+      await Logging.traceEnd(tenantID, MODULE_NAME, 'getTariffs', uniqueTimerID, tariffsCountMDB);
+      return {
+        count: (tariffsCountMDB.length > 0 ? tariffsCountMDB[0].count : 0),
+        result: []
+      };
+    }
+    // Remove the limit
+    aggregation.pop();
+    // Sort
+    if (!dbParams.sort) {
+      dbParams.sort = { description: 1 };
+    }
+    aggregation.push({
+      $sort: dbParams.sort
+    });
+    // Skip
+    if (dbParams.skip > 0) {
+      aggregation.push({ $skip: dbParams.skip });
+    }
+    // Limit
+    aggregation.push({
+      $limit: (dbParams.limit > 0 && dbParams.limit < Constants.DB_RECORD_COUNT_CEIL) ? dbParams.limit : Constants.DB_RECORD_COUNT_CEIL
+    });
+    // Add Created By / Last Changed By
+    DatabaseUtils.pushCreatedLastChangedInAggregation(tenantID, aggregation);
+    // Handle the ID
+    DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Project
+    DatabaseUtils.projectFields(aggregation, projectFields);
+    // Read DB
+    const tariffsMDB = await global.database.getCollection<any>(tenantID, 'tariffs')
+      .aggregate(aggregation, {
+        allowDiskUse: true
+      })
+      .toArray();
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'getTariffs', uniqueTimerID, tariffsMDB);
+    // Ok
+    return {
+      count: (tariffsCountMDB.length > 0 ?
+        (tariffsCountMDB[0].count === Constants.DB_RECORD_COUNT_CEIL ? -1 : tariffsCountMDB[0].count) : 0),
+      result: tariffsMDB
+    };
+  }
+
+  public static async getTariff(tenantID: string, id: string = Constants.UNKNOWN_OBJECT_ID,
+      projectFields?: string[]): Promise<Tariff> {
+    const tariffsMDB = await TariffStorage.getTariffs(tenantID, {
+      tariffIDs: [id]
+    }, Constants.DB_PARAMS_SINGLE_RECORD, projectFields);
+    return tariffsMDB.count === 1 ? tariffsMDB.result[0] : null;
+  }
+
+  public static async getEntityTariff(tenantID: string, entityType: TariffEntityType, entityID: string): Promise<Tariff> {
+    const tariffsMDB = await TariffStorage.getTariffs(tenantID, {
+      entityTypes: [entityType],
+      entityIDs: [entityID]
+    }, Constants.DB_PARAMS_SINGLE_RECORD);
+    return tariffsMDB.count === 1 ? tariffsMDB.result[0] : null;
+  }
+
+  public static async deleteTariff(tenantID: string, id: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'deleteTariff');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Delete
+    await global.database.getCollection<any>(tenantID, 'tariffs')
+      .findOneAndDelete({ '_id': DatabaseUtils.convertToObjectID(id) });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'deleteTariff', uniqueTimerID, { id });
+  }
+}
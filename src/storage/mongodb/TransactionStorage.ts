@@ -4,6 +4,7 @@ import Transaction, { TransactionOcpiData, TransactionOicpData } from '../../typ
 import { TransactionInError, TransactionInErrorType } from '../../types/InError';
 import global, { FilterParams } from './../../types/GlobalType';
 
+import { ChargingPlan } from '../../types/SmartCharging';
 import Constants from '../../utils/Constants';
 import ConsumptionStorage from './ConsumptionStorage';
 import { DataResult } from '../../types/DataResult';
@@ -97,6 +98,9 @@ export default class TransactionStorage {
       currentInstantAmpsL3: Utils.convertToInt(transactionToSave.currentInstantAmpsL3),
       currentInstantAmpsDC: Utils.convertToInt(transactionToSave.currentInstantAmpsDC),
       migrationTag: transactionToSave.migrationTag,
+      ocppTransactionID: transactionToSave.ocppTransactionID,
+      ocppEvseID: Utils.convertToInt(transactionToSave.ocppEvseID),
+      ocppConnectorID: Utils.convertToInt(transactionToSave.ocppConnectorID),
     };
     if (transactionToSave.phasesUsed) {
       transactionMDB.phasesUsed = {
@@ -105,6 +109,42 @@ export default class TransactionStorage {
         csPhase3: Utils.convertToBoolean(transactionToSave.phasesUsed.csPhase3),
       };
     }
+    if (transactionToSave.pricingModel) {
+      transactionMDB.pricingModel = {
+        id: transactionToSave.pricingModel.id,
+        description: transactionToSave.pricingModel.description,
+        currency: transactionToSave.pricingModel.currency,
+        timestamp: Utils.convertToDate(transactionToSave.pricingModel.timestamp),
+        pricings: transactionToSave.pricingModel.pricings,
+        userGroup: transactionToSave.pricingModel.userGroup,
+        idleFee: transactionToSave.pricingModel.idleFee,
+        subscription: transactionToSave.pricingModel.subscription,
+      };
+    }
+    if (transactionToSave.pricingData) {
+      transactionMDB.pricingData = {
+        energyWh: Utils.convertToFloat(transactionToSave.pricingData.energyWh),
+        chargingTimeSecs: Utils.convertToFloat(transactionToSave.pricingData.chargingTimeSecs),
+        parkingTimeSecs: Utils.convertToFloat(transactionToSave.pricingData.parkingTimeSecs),
+        idleTimeSecs: Utils.convertToFloat(transactionToSave.pricingData.idleTimeSecs),
+        idleFeeAmount: Utils.convertToFloat(transactionToSave.pricingData.idleFeeAmount),
+        includedEnergyWh: Utils.convertToFloat(transactionToSave.pricingData.includedEnergyWh),
+        reservedConsumptionWh: Utils.convertToFloat(transactionToSave.pricingData.reservedConsumptionWh),
+      };
+    }
+    if (transactionToSave.smartChargingPriority) {
+      transactionMDB.smartChargingPriority = Utils.convertToInt(transactionToSave.smartChargingPriority);
+    }
+    if (transactionToSave.chargingNeeds) {
+      transactionMDB.chargingNeeds = {
+        departureTime: Utils.convertToDate(transactionToSave.chargingNeeds.departureTime),
+        targetEnergyWh: Utils.convertToFloat(transactionToSave.chargingNeeds.targetEnergyWh),
+        solarChargingMode: transactionToSave.chargingNeeds.solarChargingMode,
+      };
+    }
+    if (transactionToSave.chargingPlan) {
+      transactionMDB.chargingPlan = transactionToSave.chargingPlan;
+    }
     if (transactionToSave.stop) {
       // Add stop
       transactionMDB.stop = {
@@ -172,6 +212,8 @@ export default class TransactionStorage {
     if (transactionToSave.billingData) {
       transactionMDB.billingData = {
         withBillingActive: transactionToSave.billingData.withBillingActive,
+        withWallet: transactionToSave.billingData.withWallet,
+        walletBalanceExhausted: transactionToSave.billingData.walletBalanceExhausted,
         lastUpdate: Utils.convertToDate(transactionToSave.billingData.lastUpdate),
         stop: {
           status: transactionToSave.billingData.stop?.status,
@@ -179,7 +221,9 @@ export default class TransactionStorage {
           invoiceNumber: transactionToSave.billingData.stop?.invoiceNumber,
           invoiceStatus: transactionToSave.billingData.stop?.invoiceStatus,
           invoiceItem: transactionToSave.billingData.stop?.invoiceItem,
+          walletOperationID: transactionToSave.billingData.stop?.walletOperationID,
         },
+        creditNotes: transactionToSave.billingData.creditNotes,
       };
     }
     if (transactionToSave.ocpiData) {
@@ -230,6 +274,27 @@ export default class TransactionStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTransactionOcpiData', uniqueTimerID, ocpiData);
   }
 
+  public static async saveTransactionOcppTransactionID(tenantID: string, id: number,
+      ocppTransactionID: string, ocppEvseID: number, ocppConnectorID?: number): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveTransactionOcppTransactionID');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<Transaction>(tenantID, 'transactions').findOneAndUpdate(
+      { '_id': id },
+      {
+        $set: {
+          ocppTransactionID,
+          ocppEvseID: Utils.convertToInt(ocppEvseID),
+          ocppConnectorID: Utils.convertToInt(ocppConnectorID),
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTransactionOcppTransactionID', uniqueTimerID, { ocppTransactionID, ocppEvseID, ocppConnectorID });
+  }
+
   public static async saveTransactionOicpData(tenantID: string, id: number,
       oicpData: TransactionOicpData): Promise<void> {
     // Debug
@@ -268,6 +333,24 @@ export default class TransactionStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTransactionBillingData', uniqueTimerID, billingData);
   }
 
+  public static async saveTransactionWalletBalanceExhausted(tenantID: string, id: number): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveTransactionWalletBalanceExhausted');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Recorded once the Charging Station accepted the stop, the rest of the billing data is left untouched
+    await global.database.getCollection<Transaction>(tenantID, 'transactions').findOneAndUpdate(
+      { '_id': id },
+      {
+        $set: {
+          'billingData.walletBalanceExhausted': true
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTransactionWalletBalanceExhausted', uniqueTimerID, { id });
+  }
+
   public static async saveTransactionRefundData(tenantID: string, id: number,
       refundData: TransactionRefundData): Promise<void> {
     // Debug
@@ -287,6 +370,25 @@ export default class TransactionStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTransactionRefundData', uniqueTimerID, refundData);
   }
 
+  public static async saveTransactionChargingPlan(tenantID: string, id: number,
+      chargingPlan: ChargingPlan): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveTransactionChargingPlan');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify document
+    await global.database.getCollection<Transaction>(tenantID, 'transactions').findOneAndUpdate(
+      { '_id': id },
+      {
+        $set: {
+          chargingPlan
+        }
+      },
+      { upsert: false });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveTransactionChargingPlan', uniqueTimerID, chargingPlan);
+  }
+
   public static async assignTransactionsToUser(tenantID: string, userID: string, tagID: string): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'assignTransactionsToUser');
@@ -350,7 +452,7 @@ export default class TransactionStorage {
         chargeBoxIDs?: string[]; siteAreaIDs?: string[]; siteIDs?: string[]; connectorIDs?: number[]; startDateTime?: Date; withChargingStation?: boolean;
         endDateTime?: Date; stop?: any; minimalPrice?: boolean; reportIDs?: string[]; tagIDs?: string[]; inactivityStatus?: string[];
         ocpiSessionID?: string; ocpiAuthorizationID?: string; ocpiSessionDateFrom?: Date; ocpiSessionDateTo?: Date; ocpiCdrDateFrom?: Date; ocpiCdrDateTo?: Date;
-        ocpiSessionChecked?: boolean; ocpiCdrChecked?: boolean; oicpSessionID?: string; withSite?: boolean; withSiteArea?: boolean; withCompany?: boolean;
+        ocpiSessionChecked?: boolean; ocpiCdrChecked?: boolean; oicpSessionID?: string; ocppTransactionID?: string; withSite?: boolean; withSiteArea?: boolean; withCompany?: boolean;
         statistics?: 'refund' | 'history' | 'ongoing'; refundStatus?: string[]; withTag?: boolean; hasUserID?: boolean; withUser?: boolean; withCar?: boolean;
       },
       dbParams: DbParams, projectFields?: string[]):
@@ -411,6 +513,10 @@ export default class TransactionStorage {
     if (params.oicpSessionID) {
       filters['oicpData.session.id'] = params.oicpSessionID;
     }
+    // OCPP 2.0 Transaction ID
+    if (params.ocppTransactionID) {
+      filters.ocppTransactionID = params.ocppTransactionID;
+    }
     // Transaction
     if (!Utils.isEmptyArray(params.transactionIDs)) {
       filters._id = {
@@ -1132,6 +1238,17 @@ export default class TransactionStorage {
     return transactionsMDB.count === 1 ? transactionsMDB.result[0] : null;
   }
 
+  public static async getOCPPTransactionByOcppTransactionID(tenantID: string, chargeBoxID: string, ocppTransactionID: string): Promise<Transaction> {
+    const transactionsMDB = await TransactionStorage.getTransactions(tenantID,
+      {
+        chargeBoxIDs: [chargeBoxID],
+        ocppTransactionID: ocppTransactionID,
+        withUser: true,
+        withTag: true
+      }, Constants.DB_PARAMS_SINGLE_RECORD);
+    return transactionsMDB.count === 1 ? transactionsMDB.result[0] : null;
+  }
+
   public static async getActiveTransaction(tenantID: string, chargeBoxID: string, connectorId: number): Promise<Transaction> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'getActiveTransaction');
@@ -1,3 +1,4 @@
+import { ChargingNeeds, SmartChargingPriority } from '../../types/SmartCharging';
 import FeatureToggles, { Feature } from '../../utils/FeatureToggles';
 import Site, { SiteUser } from '../../types/Site';
 import User, { ImportedUser, UserRole, UserStatus } from '../../types/User';
@@ -222,6 +223,7 @@ export default class UserStorage {
         sendSessionStarted: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendSessionStarted) : false,
         sendOptimalChargeReached: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendOptimalChargeReached) : false,
         sendEndOfCharge: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendEndOfCharge) : false,
+        sendIdleFeeWarning: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendIdleFeeWarning) : false,
         sendEndOfSession: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendEndOfSession) : false,
         sendUserAccountStatusChanged: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendUserAccountStatusChanged) : false,
         sendNewRegisteredUser: userToSave.notifications ? Utils.convertToBoolean(userToSave.notifications.sendNewRegisteredUser) : false,
@@ -386,6 +388,19 @@ export default class UserStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveUserStatus', uniqueTimerID);
   }
 
+  public static async saveUserLastChargingNeeds(tenantID: string, userID: string, lastChargingNeeds: ChargingNeeds): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveUserLastChargingNeeds');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Modify and return the modified document
+    await global.database.getCollection<any>(tenantID, 'users').findOneAndUpdate(
+      { '_id': DatabaseUtils.convertToObjectID(userID) },
+      { $set: { lastChargingNeeds } });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveUserLastChargingNeeds', uniqueTimerID, lastChargingNeeds);
+  }
+
   public static async saveUserMobileToken(tenantID: string, userID: string,
       params: { mobileToken: string; mobileOs: string; mobileLastChangedOn: Date }): Promise<void> {
     // Debug
@@ -456,7 +471,8 @@ export default class UserStorage {
   }
 
   public static async saveUserAdminData(tenantID: string, userID: string,
-      params: { plateID?: string; notificationsActive?: boolean; notifications?: UserNotifications }): Promise<void> {
+      params: { plateID?: string; notificationsActive?: boolean; notifications?: UserNotifications;
+        smartChargingPriority?: SmartChargingPriority; }): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveUserAdminData');
     // Check Tenant
@@ -473,6 +489,9 @@ export default class UserStorage {
     if (Utils.objectHasProperty(params, 'notifications')) {
       updatedUserMDB.notifications = params.notifications;
     }
+    if (Utils.objectHasProperty(params, 'smartChargingPriority')) {
+      updatedUserMDB.smartChargingPriority = params.smartChargingPriority ? Utils.convertToInt(params.smartChargingPriority) : null;
+    }
     // Modify and return the modified document
     await global.database.getCollection<any>(tenantID, 'users').findOneAndUpdate(
       { '_id': DatabaseUtils.convertToObjectID(userID) },
@@ -510,6 +529,37 @@ export default class UserStorage {
     await Logging.traceEnd(tenantID, MODULE_NAME, 'saveUserBillingData', uniqueTimerID, billingData);
   }
 
+  public static async saveUsersBillingAccount(tenantID: string, userIDs: string[], billingAccountID: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveUsersBillingAccount');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    if (billingAccountID) {
+      await global.database.getCollection(tenantID, 'users').updateMany(
+        { '_id': { $in: userIDs.map((userID) => DatabaseUtils.convertToObjectID(userID)) } },
+        { $set: { billingAccountID: DatabaseUtils.convertToObjectID(billingAccountID) } });
+    } else {
+      await global.database.getCollection(tenantID, 'users').updateMany(
+        { '_id': { $in: userIDs.map((userID) => DatabaseUtils.convertToObjectID(userID)) } },
+        { $unset: { billingAccountID: '' } });
+    }
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'saveUsersBillingAccount', uniqueTimerID, { userIDs, billingAccountID });
+  }
+
+  public static async removeBillingAccountFromUsers(tenantID: string, billingAccountID: string): Promise<void> {
+    // Debug
+    const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'removeBillingAccountFromUsers');
+    // Check Tenant
+    await DatabaseUtils.checkTenant(tenantID);
+    // Sessions of these users are invoiced to them again
+    await global.database.getCollection(tenantID, 'users').updateMany(
+      { 'billingAccountID': DatabaseUtils.convertToObjectID(billingAccountID) },
+      { $unset: { billingAccountID: '' } });
+    // Debug
+    await Logging.traceEnd(tenantID, MODULE_NAME, 'removeBillingAccountFromUsers', uniqueTimerID, { billingAccountID });
+  }
+
   public static async saveUserImage(tenantID: string, userID: string, userImageToSave: string): Promise<void> {
     // Debug
     const uniqueTimerID = Logging.traceStart(tenantID, MODULE_NAME, 'saveUserImage');
@@ -680,6 +730,8 @@ export default class UserStorage {
     });
     // Change ID
     DatabaseUtils.pushRenameDatabaseID(aggregation);
+    // Convert Object ID to string
+    DatabaseUtils.pushConvertObjectIDToString(aggregation, 'billingAccountID');
     // Add Created By / Last Changed By
     DatabaseUtils.pushCreatedLastChangedInAggregation(tenantID, aggregation);
     // Project
@@ -1051,6 +1103,7 @@ export default class UserStorage {
         sendSessionStarted: true,
         sendOptimalChargeReached: true,
         sendEndOfCharge: true,
+        sendIdleFeeWarning: true,
         sendEndOfSession: true,
         sendUserAccountStatusChanged: true,
         sendUserAccountInactivity: true,
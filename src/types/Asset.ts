@@ -22,7 +22,40 @@ export default interface Asset extends CreatedUpdatedProps, AbstractCurrentConsu
   values: Consumption[],
   excludeFromSmartCharging?: boolean,
   variationThresholdPercent?: number,
-  powerWattsLastSmartChargingRun?: number
+  powerWattsLastSmartChargingRun?: number,
+  battery?: AssetBattery,
+  batteryPlan?: AssetBatteryPlan
+}
+
+export interface AssetBattery {
+  capacityWh: number;
+  maxChargeWatts: number;
+  maxDischargeWatts: number;
+  minStateOfChargePercent: number;
+  maxStateOfChargePercent: number;
+}
+
+export enum AssetBatteryMode {
+  IDLE = 'idle',
+  PEAK_SHAVING = 'peakShaving',
+  SURPLUS_CHARGING = 'surplusCharging',
+}
+
+// Advised by the Smart Charging, applied by the energy management system of the battery
+export interface AssetBatteryPlan {
+  computedOn: Date;
+  assetID: string;
+  siteAreaID: string;
+  mode: AssetBatteryMode;
+  stateOfChargePercent: number;
+  // Positive when charging, negative when discharging
+  powerWatts: number;
+  schedule: AssetBatteryPlanPeriod[];
+}
+
+export interface AssetBatteryPlanPeriod {
+  startDate: Date;
+  powerWatts: number;
 }
 
 export interface WitDataSet {
@@ -45,5 +45,6 @@ export enum AsyncTasks {
   OCPI_PULL_TOKENS = 'OCPIPullTokensAsyncTask',
   OCPI_PUSH_EVSE_STATUSES = 'OCPIPushEVSEStatusesAsyncTask',
   SYNCHRONIZE_CAR_CATALOGS = 'SynchronizeCarCatalogsAsyncTask',
+  SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS = 'SynchronizeLocalAuthorizationListsAsyncTask',
 }
 
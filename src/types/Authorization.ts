@@ -69,6 +69,9 @@ export enum Entity {
   LOGGINGS = 'Loggings',
   LOGGING = 'Logging',
   PRICING = 'Pricing',
+  TARIFF = 'Tariff',
+  TARIFFS = 'Tariffs',
+  ENERGY_PRICES = 'EnergyPrices',
   BILLING = 'Billing',
   SETTING = 'Setting',
   SETTINGS = 'Settings',
@@ -100,6 +103,13 @@ export enum Entity {
   TAG = 'Tag',
   PAYMENT_METHOD = 'PaymentMethod',
   PAYMENT_METHODS = 'PaymentMethods',
+  WALLET = 'Wallet',
+  BILLING_ACCOUNT = 'BillingAccount',
+  BILLING_ACCOUNTS = 'BillingAccounts',
+  SUBSCRIPTION_PLAN = 'SubscriptionPlan',
+  SUBSCRIPTION_PLANS = 'SubscriptionPlans',
+  SUBSCRIPTION = 'Subscription',
+  SUBSCRIPTIONS = 'Subscriptions',
 }
 
 export enum Action {
@@ -133,6 +143,14 @@ export enum Action {
   UPDATE_FIRMWARE = 'UpdateFirmware',
   EXPORT = 'Export',
   CHANGE_AVAILABILITY = 'ChangeAvailability',
+  RESERVE_NOW = 'ReserveNow',
+  CANCEL_RESERVATION = 'CancelReservation',
+  SEND_LOCAL_LIST = 'SendLocalList',
+  GET_LOCAL_LIST_VERSION = 'GetLocalListVersion',
+  TRIGGER_MESSAGE = 'TriggerMessage',
+  INSTALL_CERTIFICATE = 'InstallCertificate',
+  GET_INSTALLED_CERTIFICATE_IDS = 'GetInstalledCertificateIds',
+  DELETE_CERTIFICATE = 'DeleteCertificate',
   REFUND_TRANSACTION = 'RefundTransaction',
   SYNCHRONIZE_BILLING_USERS = 'SynchronizeBillingUsers',
   SYNCHRONIZE_BILLING_USER = 'SynchronizeBillingUser',
@@ -140,6 +158,9 @@ export enum Action {
   BILLING_PAYMENT_METHODS = 'BillingPaymentMethods',
   BILLING_DELETE_PAYMENT_METHOD = 'BillingDeletePaymentMethod',
   BILLING_CHARGE_INVOICE = 'BillingChargeInvoice',
+  BILLING_PAY_INVOICE = 'BillingPayInvoice',
+  BILLING_CREATE_CREDIT_NOTE = 'BillingCreateCreditNote',
+  BILLING_WALLET_TOP_UP = 'BillingWalletTopUp',
   CHECK_CONNECTION = 'CheckConnection',
   CLEAR_BILLING_TEST_DATA = 'ClearBillingTestData',
   RETRIEVE_CONSUMPTION = 'RetrieveConsumption',
@@ -156,6 +177,8 @@ export enum Action {
   UNASSIGN_ASSETS_TO_SITE_AREA = 'UnassignAssetsToSiteArea',
   ASSIGN_CHARGING_STATIONS_TO_SITE_AREA = 'AssignChargingStationsToSiteArea',
   UNASSIGN_CHARGING_STATIONS_TO_SITE_AREA = 'UnassignChargingStationsToSiteArea',
+  ASSIGN_USERS_TO_BILLING_ACCOUNT = 'AssignUsersToBillingAccount',
+  UNASSIGN_USERS_TO_BILLING_ACCOUNT = 'UnassignUsersToBillingAccount',
   EXPORT_OCPP_PARAMS = 'ExportOCPPParams',
   GENERATE_QR = 'GenerateQrCode',
 }
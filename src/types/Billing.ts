@@ -1,18 +1,34 @@
 import { ActionsResponse } from './GlobalType';
+import Address from './Address';
+import CreatedUpdatedProps from './CreatedUpdatedProps';
 import User from './User';
 
 export interface TransactionBillingData {
   withBillingActive?: boolean;
+  withWallet?: boolean;
+  walletBalanceExhausted?: boolean;
   lastUpdate?: Date;
   stop?: BillingDataTransactionStop;
+  creditNotes?: BillingDataTransactionCreditNote[];
+}
+
+export interface BillingDataTransactionCreditNote {
+  creditNoteID: string;
+  // eslint-disable-next-line id-blacklist
+  number: string;
+  sessionAmount: number;
+  currency: string;
+  createdOn: Date;
 }
 
 export interface BillingDataTransactionStart {
   withBillingActive: boolean;
+  withWallet?: boolean;
 }
 
 export interface BillingDataTransactionUpdate {
   withBillingActive: boolean;
+  walletBalanceExhausted?: boolean;
 }
 
 export enum BillingStatus {
@@ -27,6 +43,7 @@ export interface BillingDataTransactionStop {
   invoiceNumber?: string;
   invoiceStatus?: BillingInvoiceStatus;
   invoiceItem?: BillingInvoiceItem;
+  walletOperationID?: string;
 }
 
 export interface BillingUserData {
@@ -73,11 +90,74 @@ export interface BillingInvoice {
   currency?: string;
   customerID?: string;
   createdOn?: Date;
+  // Date of issue, set when the invoice gets its number
+  finalizedOn?: Date;
   downloadable?: boolean
   downloadUrl?: string;
   sessions?: BillingSessionData[];
   lastError?: BillingError;
   payInvoiceUrl?: string;
+  creditNotes?: BillingCreditNote[];
+  // Total of the credit notes in cents - the issued invoice amount is never changed
+  creditedAmount?: number;
+  // Consolidated invoices are issued to a billing account instead of a user
+  billingAccountID?: string;
+  billingAccount?: BillingAccount;
+}
+
+export interface BillingCreditNote {
+  id?: string;
+  creditNoteID: string; // ID of the credit note in the billing system or of the wallet refund
+  invoiceID?: string; // Not set when the session has been paid with the wallet
+  userID: string;
+  transactionID: number;
+  // eslint-disable-next-line id-blacklist
+  number?: string;
+  // Total credited in cents - taxes included - as for the invoices
+  amount: number;
+  // Part of the session price being credited - e.g.: 12.34 EUR - taxes excluded
+  sessionAmount: number;
+  currency: string;
+  reason?: string;
+  liveMode: boolean;
+  createdBy?: Partial<User>;
+  createdOn?: Date;
+}
+
+export interface BillingAccount extends CreatedUpdatedProps {
+  id: string;
+  name: string;
+  email: string;
+  address?: Address;
+  companyID?: string;
+  costCenter?: string;
+  billingData?: BillingUserData;
+  users?: Partial<User>[];
+}
+
+export interface BillingCustomer {
+  id: string;
+  userID: string;
+  name: string;
+  email: string;
+  address?: Address;
+  liveMode: boolean;
+  createdOn: Date;
+  lastChangedOn?: Date;
+}
+
+export interface BillingInvoiceLineItem {
+  id?: string;
+  invoiceID: string;
+  transactionID: number;
+  description: string;
+  pricingData: BillingPricingData;
+  // Snapshot of the taxes applied when billing the item
+  taxes: BillingTax[];
+  // The idle fee of a session is billed on a separate line
+  idleFee?: boolean;
+  liveMode: boolean;
+  createdOn: Date;
 }
 
 export interface BillingInvoiceItem {
@@ -90,6 +170,7 @@ export interface BillingInvoiceItem {
     [name: string]: string | number | null;
   }
   parkingData?: BillingParkingData
+  idleFeeData?: BillingIdleFeeData
 }
 
 export interface BillingParkingData {
@@ -97,6 +178,11 @@ export interface BillingParkingData {
   pricingData: BillingPricingData;
 }
 
+export interface BillingIdleFeeData {
+  description: string;
+  pricingData: BillingPricingData;
+}
+
 export interface BillingSessionData {
   transactionID: number;
   description: string;
@@ -161,3 +247,67 @@ export interface BillingAdditionalData {
   session?: BillingSessionData,
   lastError?: BillingError,
 }
+
+export interface BillingWallet {
+  userID: string;
+  // Amount in the currency unit - e.g.: 12.34 EUR
+  balance: number;
+  currency: string;
+  lastChangedOn: Date;
+}
+
+export enum BillingWalletOperationType {
+  TOP_UP = 'top_up',
+  CHARGE = 'charge',
+  REFUND = 'refund',
+}
+
+export interface BillingWalletOperation {
+  id?: string;
+  userID: string;
+  type: BillingWalletOperationType;
+  // Negative when the wallet is charged
+  amount: number;
+  currency: string;
+  // Balance of the wallet after the operation
+  balance: number;
+  transactionID?: number;
+  externalID?: string; // Payment reference of the billing provider
+  description?: string;
+  createdBy?: Partial<User>;
+  createdOn: Date;
+}
+
+export interface BillingSubscriptionPlan extends CreatedUpdatedProps {
+  id: string;
+  name: string;
+  description?: string;
+  active: boolean;
+  currency: string;
+  // Amounts in the currency unit excluding taxes - e.g.: 12.34 EUR
+  fee: number; // Charged at the beginning of each monthly period
+  includedEnergyKWh?: number; // Energy included in the fee for each period
+  energyPrice?: number; // Member price per kWh replacing the energy price of the tariff
+  energyDiscountPercent?: number; // Discount on the energy price of the tariff when no member price is set
+}
+
+export enum BillingSubscriptionStatus {
+  ACTIVE = 'active',
+  ENDED = 'ended',
+}
+
+export interface BillingSubscription extends CreatedUpdatedProps {
+  id: string;
+  userID: string;
+  planID: string;
+  status: BillingSubscriptionStatus;
+  startDate: Date;
+  endDate?: Date; // Set on cancellation - the subscription is not renewed after this date
+  // Period covered by the last charged fee
+  periodStart?: Date;
+  periodEnd?: Date;
+  periodEnergyWh: number; // Included energy consumed during the current period
+  nextPeriodEnergyWh?: number; // Included energy consumed after the current period, before the fee of the next one is charged
+  plan?: BillingSubscriptionPlan;
+  user?: User;
+}
@@ -1,9 +1,10 @@
-import { ChargePointStatus, OCPPFirmwareStatus, OCPPPhase, OCPPProtocol, OCPPVersion, RegistrationStatus } from './ocpp/OCPPServer';
+import { ChargePointStatus, OCPPFirmwareStatus, OCPPPhase, OCPPProtocol, OCPPSecurityProfile, OCPPVersion, RegistrationStatus } from './ocpp/OCPPServer';
 
 import { ChargingRateUnitType } from './ChargingProfile';
 import CreatedUpdatedProps from './CreatedUpdatedProps';
 import { InactivityStatus } from './Transaction';
 import { KeyValue } from './GlobalType';
+import { OCPPUpdateStatus } from './ocpp/OCPPClient';
 import { OCPIEvse } from './ocpi/OCPIEvse';
 import { OICPEvseDataRecord } from './oicp/OICPEvse';
 import { OICPIdentification } from './oicp/OICPIdentification';
@@ -37,6 +38,7 @@ export default interface ChargingStation extends CreatedUpdatedProps {
   endpoint: string;
   ocppVersion: OCPPVersion;
   ocppProtocol: OCPPProtocol;
+  ocppSecurity?: ChargingStationOcppSecurity;
   cfApplicationIDAndInstanceIndex: string;
   lastSeen: Date;
   deleted: boolean;
@@ -54,6 +56,7 @@ export default interface ChargingStation extends CreatedUpdatedProps {
   connectors: Connector[];
   backupConnectors: Connector[];
   remoteAuthorizations: RemoteAuthorization[];
+  localAuthorizationList?: LocalAuthorizationList;
   currentIPAddress?: string|string[];
   siteArea?: SiteArea;
   site?: Site;
@@ -65,6 +68,20 @@ export default interface ChargingStation extends CreatedUpdatedProps {
   oicpData?: ChargingStationOicpData;
 }
 
+export interface ChargingStationOcppSecurity {
+  securityProfile: OCPPSecurityProfile;
+  basicAuthPassword?: string;
+  certificate?: ChargingStationCertificate;
+  lastChangedOn?: Date;
+}
+
+export interface ChargingStationCertificate {
+  serialNumber: string;
+  subject: string;
+  validFrom: Date;
+  validTo: Date;
+}
+
 export interface ChargingStationOcpiData {
   evses?: OCPIEvse[];
 }
@@ -122,6 +139,15 @@ export enum Command {
   GET_COMPOSITE_SCHEDULE = 'GetCompositeSchedule',
   CHANGE_AVAILABILITY = 'ChangeAvailability',
   UPDATE_FIRMWARE = 'UpdateFirmware',
+  RESERVE_NOW = 'ReserveNow',
+  CANCEL_RESERVATION = 'CancelReservation',
+  SEND_LOCAL_LIST = 'SendLocalList',
+  GET_LOCAL_LIST_VERSION = 'GetLocalListVersion',
+  TRIGGER_MESSAGE = 'TriggerMessage',
+  CERTIFICATE_SIGNED = 'CertificateSigned',
+  INSTALL_CERTIFICATE = 'InstallCertificate',
+  GET_INSTALLED_CERTIFICATE_IDS = 'GetInstalledCertificateIds',
+  DELETE_CERTIFICATE = 'DeleteCertificate',
 }
 
 export enum StaticLimitAmps {
@@ -140,6 +166,9 @@ export interface Connector {
   currentTransactionDate?: Date;
   currentTagID?: string;
   currentUserID?: string;
+  currentOcppTransactionID?: string;
+  ocppEvseID?: number;
+  ocppConnectorID?: number;
   status: ChargePointStatus;
   errorCode?: string;
   info?: string;
@@ -163,6 +192,19 @@ export interface PhaseAssignmentToGrid {
   csPhaseL3: OCPPPhase.L1 | OCPPPhase.L2 | OCPPPhase.L3;
 }
 
+export interface LocalAuthorizationListConfiguration {
+  enabled: boolean;
+  maxLength?: number;
+  sendMaxLength?: number;
+}
+
+export interface LocalAuthorizationList {
+  listVersion: number;
+  tagIDs: string[];
+  status: OCPPUpdateStatus;
+  lastUpdatedOn: Date;
+}
+
 export interface RemoteAuthorization {
   id: string;
   connectorId: number;
@@ -0,0 +1,14 @@
+import CreatedUpdatedProps from './CreatedUpdatedProps';
+
+export default interface EnergyPrice extends CreatedUpdatedProps {
+  id: string;
+  startDate: Date;
+  endDate: Date;
+  pricePerKWh?: number;
+  co2GramsPerKWh?: number;
+}
+
+export const EnergyPriceRequiredImportProperties = [
+  'startDate',
+  'endDate'
+];
@@ -59,6 +59,16 @@ export enum HTTPError {
   TRANSACTION_CDR_ALREADY_PUSHED = 582,
 
   THREE_PHASE_CHARGER_ON_SINGLE_PHASE_SITE_AREA = 539,
+  SITE_AREA_TREE_ERROR = 541,
+
+  ENERGY_PRICE_PERIOD_ERROR = 542,
+
+  SECURITY_PROFILE_PARTIALLY_UPDATED_ERROR = 543,
+
+  RESERVATION_ALREADY_EXIST_ERROR = 586,
+  RESERVATION_EXPIRY_DATE_ERROR = 587,
+
+  TARIFF_ALREADY_EXIST_ERROR = 588,
 
   CRYPTO_MIGRATION_IN_PROGRESS = 511,
   CRYPTO_ALGORITHM_NOT_SUPPORTED = 512,
@@ -31,4 +31,6 @@ export enum LockEntity {
   TAG = 'tag',
   OICP_ENDPOINT = 'oicp-endpoint',
   ASYNC_TASK = 'async-task',
+  RESERVATION = 'reservation',
+  LOCAL_AUTHORIZATION_LIST = 'local-authorization-list',
 }
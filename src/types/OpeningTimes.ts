@@ -11,6 +11,8 @@ export interface Period {
   periodEnd: Date;
 }
 
-export interface RegularHour extends Period {
+export interface RegularHour {
   weekday: number; // Number of day in the week, from Monday (1) till Sunday (7)
+  periodBegin: string; // Begin of the regular period in local time, for example 08:00. Must be in 24h format with leading zeros
+  periodEnd: string; // End of the regular period in local time, for example 18:00. Same syntax as periodBegin
 }
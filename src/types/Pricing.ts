@@ -1,9 +1,43 @@
+import { OpeningTimes } from './OpeningTimes';
+import { UserRole } from './User';
+
 export interface PricingModel {
   id: string;
   description: string;
   currency: string;
   timestamp: Date;
   pricings: Pricing[];
+  userGroupPricings?: UserGroupPricing[];
+  userGroup?: string; // User group resolved at the start of the session
+  idleFee?: IdleFeePolicy;
+  subscription?: PricingSubscription; // Member rates of the user's subscription resolved at the start of the session
+}
+
+export interface PricingSubscription {
+  subscriptionID: string;
+  planName: string;
+  includedEnergyWh: number; // Energy included in the plan for each period - reserved by the sessions as they consume it
+  energyPrice?: number; // Member price per kWh (excluding VAT) replacing the energy price of the tariff
+  energyDiscountPercent?: number; // Discount on the energy price of the tariff when no member price is set
+}
+
+export interface IdleFeePolicy {
+  enabled: boolean;
+  gracePeriodMins: number; // Idle time allowed after the end of the charge before the fee starts
+  pricePerMin: number; // Price per started minute (excluding VAT) once the grace period is over
+  maxAmount?: number; // Maximum idle fee for a session
+  notifyBeforeMins?: number; // Warn the user x minutes before the fee starts, as soon as the car is idle if not set
+  exemptOutsideOpeningTimes?: boolean; // No fee while the site area is closed
+  openingTimes?: OpeningTimes; // Site area's opening times resolved at the start of the session
+}
+
+export interface UserGroupPricing {
+  name: string;
+  userRoles?: UserRole[];
+  costCenters?: string[];
+  siteIDs?: string[]; // Users assigned to one of these sites
+  tagIDs?: string[];
+  pricings: Pricing[];
 }
 
 export interface Pricing {
@@ -24,11 +58,11 @@ export interface PricingRestriction {
   endDate?: string, // End date, for example: 2015-12-27, valid until this day (excluding this day)
   minKWh?: number, // Minimum used energy in kWh, for example 20, valid from this amount of energy is used
   maxKWh?: number, // Maximum used energy in kWh, for example 50, valid until this amount of energy is used
-  minPowerkW: number, // Minimum power in kW, for example 0, valid from this charging speed
-  maxPowerkW: number, // Maximum power in kW, for example 20, valid up to this charging speed
-  minDurationSecs: number, // Minimum duration in seconds, valid for a duration from x seconds
-  maxDurationSecs: number, // Maximum duration in seconds, valid for a duration up to x seconds
-  daysOfWeek: DayOfWeek[], // Which day(s) of the week this tariff is valid
+  minPowerkW?: number, // Minimum power in kW, for example 0, valid from this charging speed
+  maxPowerkW?: number, // Maximum power in kW, for example 20, valid up to this charging speed
+  minDurationSecs?: number, // Minimum duration in seconds, valid for a duration from x seconds
+  maxDurationSecs?: number, // Maximum duration in seconds, valid for a duration up to x seconds
+  daysOfWeek?: DayOfWeek[], // Which day(s) of the week this tariff is valid
 }
 
 export enum DayOfWeek {
@@ -46,6 +80,7 @@ export enum PricingDimensionType {
   FLAT = 'F', // Flat fee, no unit
   PARKING_TIME = 'PT', // Time not charging: defined in hours, step_size multiplier: 1 second
   TIME = 'T', // Time charging: defined in hours, step_size multiplier: 1 second
+  IDLE_FEE = 'IF', // Idle time after the end of the charge: priced by the idle fee policy, not by a pricing component
 }
 
 export interface PricedConsumption {
@@ -54,6 +89,39 @@ export interface PricedConsumption {
   roundedAmount: number;
   currencyCode: string;
   pricingSource: PricingSource;
+  pricedDimensions?: PricedDimensionData[];
+}
+
+export interface PricedDimensionData {
+  type: PricingDimensionType;
+  quantity: number; // Wh for energy, seconds for time, 1 for flat fee
+  amount: number;
+}
+
+export interface PricingEstimation {
+  currencyCode: string;
+  pricingModelID: string;
+  pricingModelDescription: string;
+  userGroup?: string;
+  subscriptionPlan?: string;
+  carCatalogID?: number;
+  powerWatts: number;
+  energyWh: number;
+  chargingTimeSecs: number;
+  parkingTimeSecs: number;
+  pricedDimensions: PricedDimensionData[]; // One entry per dimension type
+  amount: number;
+  roundedAmount: number;
+}
+
+export interface TransactionPricingData {
+  energyWh: number;
+  chargingTimeSecs: number;
+  parkingTimeSecs: number;
+  idleTimeSecs?: number; // Idle time since the end of the charge
+  idleFeeAmount?: number;
+  includedEnergyWh?: number; // Energy of the session covered by the subscription
+  reservedConsumptionWh?: number; // Consumption of the session already deducted from the included energy of the subscription
 }
 
 export enum PricingSource {
@@ -0,0 +1,38 @@
+import { OICPIdentification, OICPSessionID } from './oicp/OICPIdentification';
+
+import CreatedUpdatedProps from './CreatedUpdatedProps';
+import { OICPProviderID } from './oicp/OICPAuthentication';
+import User from './User';
+
+export default interface Reservation extends CreatedUpdatedProps {
+  id: number;
+  chargingStationID: string;
+  connectorId: number;
+  tagID: string;
+  parentTagID?: string;
+  userID?: string;
+  user?: User;
+  expiryDate: Date;
+  status: ReservationStatus;
+  transactionID?: number;
+  cancelledOn?: Date;
+  ocpiData?: ReservationOcpiData;
+  oicpData?: ReservationOicpData;
+}
+
+export enum ReservationStatus {
+  ACTIVE = 'Active',
+  USED = 'Used',
+  CANCELLED = 'Cancelled',
+  EXPIRED = 'Expired',
+}
+
+export interface ReservationOcpiData {
+  reservationID: number;
+}
+
+export interface ReservationOicpData {
+  sessionID: OICPSessionID;
+  providerID: OICPProviderID;
+  identification: OICPIdentification;
+}
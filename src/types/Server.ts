@@ -24,6 +24,20 @@ export enum ServerAction {
   CHARGING_STATION_UPDATE_FIRMWARE = 'RestChargingStationUpdateFirmware',
   CHARGING_STATION_CHANGE_AVAILABILITY = 'RestChargingStationChangeAvailability',
   CHARGING_STATION_DOWNLOAD_QR_CODE_PDF = 'RestChargingStationDownloadQrCodePdf',
+  CHARGING_STATION_RESERVE_NOW = 'RestChargingStationReserveNow',
+  CHARGING_STATION_CANCEL_RESERVATION = 'RestChargingStationCancelReservation',
+  CHARGING_STATION_RESERVATIONS = 'RestChargingStationReservations',
+  CHARGING_STATION_SEND_LOCAL_LIST = 'RestChargingStationSendLocalList',
+  CHARGING_STATION_GET_LOCAL_LIST_VERSION = 'RestChargingStationGetLocalListVersion',
+  CHARGING_STATION_LOCAL_LIST = 'RestChargingStationLocalList',
+  CHARGING_STATION_TRIGGER_MESSAGE = 'RestChargingStationTriggerMessage',
+  CHARGING_STATION_PRICE_ESTIMATE = 'RestChargingStationPriceEstimate',
+  CHARGING_STATION_INSTALL_CERTIFICATE = 'RestChargingStationInstallCertificate',
+  CHARGING_STATION_GET_INSTALLED_CERTIFICATE_IDS = 'RestChargingStationGetInstalledCertificateIds',
+  CHARGING_STATION_DELETE_CERTIFICATE = 'RestChargingStationDeleteCertificate',
+  CHARGING_STATION_CERTIFICATE_SIGNED = 'ChargingStationCertificateSigned',
+  CHARGING_STATION_UPDATE_SECURITY_PROFILE = 'RestChargingStationUpdateSecurityProfile',
+  SYNCHRONIZE_LOCAL_AUTHORIZATION_LISTS = 'SynchronizeLocalAuthorizationLists',
 
   CHARGING_STATIONS_EXPORT = 'RestChargingStationsExport',
   CHARGING_STATIONS_OCPP_PARAMS_EXPORT = 'RestChargingStationsOCPPParamsExport',
@@ -36,6 +50,7 @@ export enum ServerAction {
 
   CHECK_SMART_CHARGING_CONNECTION = 'RestCheckSmartChargingConnection',
   TRIGGER_SMART_CHARGING = 'RestTriggerSmartCharging',
+  SIMULATE_SMART_CHARGING = 'RestSimulateSmartCharging',
 
   REGISTRATION_TOKEN = 'RegistrationToken',
   REGISTRATION_TOKENS = 'RegistrationTokens',
@@ -176,6 +191,8 @@ export enum ServerAction {
   OICP_AUTHORIZE_STOP = 'OicpAuthorizeStop',
   OICP_AUTHORIZE_REMOTE_START = 'OicpAuthorizeRemoteStart',
   OICP_AUTHORIZE_REMOTE_STOP = 'OicpAuthorizeRemoteStop',
+  OICP_AUTHORIZE_REMOTE_RESERVATION_START = 'OicpAuthorizeRemoteReservationStart',
+  OICP_AUTHORIZE_REMOTE_RESERVATION_STOP = 'OicpAuthorizeRemoteReservationStop',
   OICP_PUSH_CDRS = 'OicpPushCdrs',
   OICP_PUSH_EVSE_PRICING = 'OicpPushEvsePricing',
   OICP_PUSH_PRICING_PRODUCT_DATA = 'OicpPushPricingProductData',
@@ -219,6 +236,10 @@ export enum ServerAction {
   STOP_TRANSACTION = 'StopTransaction',
   METER_VALUES = 'MeterValues',
   DATA_TRANSFER = 'DataTransfer',
+  SIGN_CERTIFICATE = 'SignCertificate',
+  SECURITY_EVENT_NOTIFICATION = 'SecurityEventNotification',
+  TRANSACTION_EVENT = 'TransactionEvent',
+  NOTIFY_REPORT = 'NotifyReport',
 
   EXTRA_INACTIVITY = 'ExtraInactivity',
 
@@ -254,6 +275,7 @@ export enum ServerAction {
   CHARGING_STATION_REGISTERED = 'ChargingStationRegistered',
   END_OF_CHARGE = 'EndOfCharge',
   OPTIMAL_CHARGE_REACHED = 'OptimalChargeReached',
+  IDLE_FEE_WARNING = 'IdleFeeWarning',
   END_OF_SESSION = 'EndOfSession',
   REQUEST_PASSWORD = 'RequestPassword',
   USER_ACCOUNT_STATUS_CHANGED = 'UserAccountStatusChanged',
@@ -266,6 +288,7 @@ export enum ServerAction {
   PATCH_EVSE_ERROR = 'PatchEVSEError',
   USER_ACCOUNT_INACTIVITY = 'UserAccountInactivity',
   PREPARING_SESSION_NOT_STARTED = 'PreparingSessionNotStarted',
+  RESERVATIONS_EXPIRED = 'ReservationsExpired',
   OFFLINE_CHARGING_STATIONS = 'OfflineChargingStations',
   BILLING_USER_SYNCHRONIZATION_FAILED = 'BillingUserSynchronizationFailed',
   BILLING_INVOICE_SYNCHRONIZATION_FAILED = 'BillingInvoiceSynchronizationFailed',
@@ -296,6 +319,7 @@ export enum ServerAction {
   TRANSACTION = 'Transaction',
   TRANSACTIONS = 'Transactions',
   TRANSACTION_CONSUMPTION = 'TransactionConsumption',
+  TRANSACTION_CHARGING_PLAN = 'TransactionChargingPlan',
 
   TRANSACTION_OCPI_CDR_EXPORT = 'TransactionOcpiCdrExport',
 
@@ -328,6 +352,8 @@ export enum ServerAction {
   CHECK_ASSET_CONNECTION = 'CheckAssetConnection',
   RETRIEVE_ASSET_CONSUMPTION = 'RetrieveAssetConsumption',
   ASSET_CONSUMPTION = 'AssetConsumption',
+  ASSET_MQTT = 'AssetMQTT',
+  ASSET_BATTERY_PLAN = 'AssetBatteryPlan',
 
   TENANT_CREATE = 'TenantCreate',
   TENANTS = 'Tenants',
@@ -397,6 +423,14 @@ export enum ServerAction {
   TAGS_DELETE = 'TagsDelete',
   TAGS_IMPORT = 'TagsImport',
   TAGS_EXPORT = 'TagsExport',
+  TARIFFS = 'Tariffs',
+  TARIFF = 'Tariff',
+  TARIFF_CREATE = 'TariffCreate',
+  TARIFF_UPDATE = 'TariffUpdate',
+  TARIFF_DELETE = 'TariffDelete',
+  ENERGY_PRICES = 'EnergyPrices',
+  ENERGY_PRICES_IMPORT = 'EnergyPricesImport',
+  ENERGY_PRICES_DELETE = 'EnergyPricesDelete',
   USER = 'RestUser',
   USERS_EXPORT = 'RestUsersExport',
   USERS_IMPORT = 'RestUsersImport',
@@ -421,6 +455,26 @@ export enum ServerAction {
   BILLING_PAYMENT_METHODS = 'BillingPaymentMethods',
   BILLING_DELETE_PAYMENT_METHOD = 'BillingDeletePaymentMethod',
   BILLING_CHARGE_INVOICE = 'BillingChargeInvoice',
+  BILLING_PAY_INVOICE = 'BillingPayInvoice',
+  BILLING_CREATE_CREDIT_NOTE = 'BillingCreateCreditNote',
+  BILLING_WALLET_TOP_UP = 'BillingWalletTopUp',
+  BILLING_WALLET_OPERATIONS = 'BillingWalletOperations',
+  BILLING_ACCOUNTS = 'BillingAccounts',
+  BILLING_ACCOUNT = 'BillingAccount',
+  BILLING_ACCOUNT_CREATE = 'BillingAccountCreate',
+  BILLING_ACCOUNT_UPDATE = 'BillingAccountUpdate',
+  BILLING_ACCOUNT_DELETE = 'BillingAccountDelete',
+  ADD_USERS_TO_BILLING_ACCOUNT = 'AddUsersToBillingAccount',
+  REMOVE_USERS_FROM_BILLING_ACCOUNT = 'RemoveUsersFromBillingAccount',
+  BILLING_EXPORT_INVOICE_SESSIONS = 'BillingExportInvoiceSessions',
+  BILLING_SUBSCRIPTION_PLANS = 'BillingSubscriptionPlans',
+  BILLING_SUBSCRIPTION_PLAN = 'BillingSubscriptionPlan',
+  BILLING_SUBSCRIPTION_PLAN_CREATE = 'BillingSubscriptionPlanCreate',
+  BILLING_SUBSCRIPTION_PLAN_UPDATE = 'BillingSubscriptionPlanUpdate',
+  BILLING_SUBSCRIPTION_PLAN_DELETE = 'BillingSubscriptionPlanDelete',
+  BILLING_SUBSCRIPTIONS = 'BillingSubscriptions',
+  BILLING_SUBSCRIPTION_CREATE = 'BillingSubscriptionCreate',
+  BILLING_SUBSCRIPTION_CANCEL = 'BillingSubscriptionCancel',
   BILLING_WEB_HOOK = 'BillingWebHook',
   BILLING_TEST_DATA_CLEANUP = 'BillingTestDataCleanup',
 
@@ -462,6 +516,16 @@ export enum ServerRoute {
   REST_CHARGING_STATIONS_GET_DIAGNOSTICS = 'charging-stations/:id/diagnostics',
   REST_CHARGING_STATIONS_FIRMWARE_UPDATE = 'charging-stations/:id/firmware/update',
   REST_CHARGING_STATIONS_CHANGE_AVAILABILITY = 'charging-stations/:id/availability/change',
+  REST_CHARGING_STATIONS_RESERVATIONS = 'charging-stations/:id/reservations',
+  REST_CHARGING_STATIONS_RESERVATION = 'charging-stations/:id/reservations/:reservationId',
+  REST_CHARGING_STATIONS_LOCAL_LIST = 'charging-stations/:id/local-list',
+  REST_CHARGING_STATIONS_LOCAL_LIST_SEND = 'charging-stations/:id/local-list/send',
+  REST_CHARGING_STATIONS_TRIGGER = 'charging-stations/:id/trigger',
+  REST_CHARGING_STATIONS_CERTIFICATE_INSTALL = 'charging-stations/:id/certificates/install',
+  REST_CHARGING_STATIONS_CERTIFICATES_RETRIEVE = 'charging-stations/:id/certificates/retrieve',
+  REST_CHARGING_STATIONS_CERTIFICATE_DELETE = 'charging-stations/:id/certificates/delete',
+  REST_CHARGING_STATIONS_SECURITY_PROFILE = 'charging-stations/:id/security-profile',
+  REST_CHARGING_STATIONS_PRICE_ESTIMATE = 'charging-stations/:id/connectors/:connectorId/price/estimate',
 
   REST_CHARGING_STATIONS_DOWNLOAD_FIRMWARE = 'charging-stations/firmware/download',
   REST_CHARGING_STATIONS_QRCODE_GENERATE = 'charging-stations/:id/connectors/:connectorId/qrcode/generate',
@@ -481,6 +545,7 @@ export enum ServerRoute {
 
   REST_CHARGING_STATION_CHECK_SMART_CHARGING_CONNECTION = 'charging-stations/smartcharging/connection/check',
   REST_CHARGING_STATION_TRIGGER_SMART_CHARGING = 'charging-stations/smartcharging/trigger',
+  REST_CHARGING_STATION_SIMULATE_SMART_CHARGING = 'charging-stations/smartcharging/simulate',
 
   REST_CHARGING_PROFILES = 'charging-profiles',
   REST_CHARGING_PROFILE = 'charging-profiles/:id',
@@ -488,6 +553,7 @@ export enum ServerRoute {
   REST_TRANSACTIONS = 'transactions',
   REST_TRANSACTION = 'transactions/:id',
   REST_TRANSACTIONS_CONSUMPTION = 'transactions/:id/consumptions',
+  REST_TRANSACTION_CHARGING_PLAN = 'transactions/:id/charging-plan',
 
   REST_USERS = 'users',
   REST_USER = 'users/:id',
@@ -504,7 +570,14 @@ export enum ServerRoute {
   REST_TAGS_IMPORT = 'tags/action/import',
   REST_TAGS_EXPORT = 'tags/action/export',
 
+  REST_TARIFFS = 'tariffs',
+  REST_TARIFF = 'tariffs/:id',
+
+  REST_ENERGY_PRICES = 'energy-prices',
+  REST_ENERGY_PRICES_IMPORT = 'energy-prices/action/import',
+
   REST_ASSET_CONSUMPTION = 'assets/:assetID/consumption',
+  REST_ASSET_BATTERY_PLAN = 'assets/:id/battery-plan',
 
   REST_PING = 'ping',
 
@@ -520,6 +593,10 @@ export enum ServerRoute {
   REST_BILLING_PAYMENT_METHOD_ATTACH = 'users/:userID/payment-methods/:paymentMethodID/attach',
   REST_BILLING_PAYMENT_METHOD_DETACH = 'users/:userID/payment-methods/:paymentMethodID/detach',
 
+  // BILLING URLs for the prepaid WALLET
+  REST_BILLING_WALLET_OPERATIONS = 'users/:userID/wallet/operations',
+  REST_BILLING_WALLET_TOP_UP = 'users/:userID/wallet/top-up',
+
   REST_BILLING_SETTING = 'billing-setting', // GET and PUT
   REST_BILLING_CHECK = 'billing/check',
   REST_BILLING_CLEAR_TEST_DATA = 'billing/clearTestData',
@@ -530,6 +607,25 @@ export enum ServerRoute {
 
   // BILLING URLs for Non-CRUD operations on INVOICES
   REST_BILLING_DOWNLOAD_INVOICE = 'invoices/:invoiceID/download',
+  REST_BILLING_PAY_INVOICE = 'invoices/:invoiceID/pay',
+  REST_BILLING_INVOICE_CREDIT_NOTES = 'invoices/:invoiceID/credit-notes',
+  REST_BILLING_INVOICE_SESSIONS_EXPORT = 'invoices/:invoiceID/sessions/export',
+
+  // BILLING URLs for CRUD operations on BILLING ACCOUNTS
+  REST_BILLING_ACCOUNTS = 'billing-accounts',
+  REST_BILLING_ACCOUNT = 'billing-accounts/:billingAccountID',
+
+  // BILLING URLs for Non-CRUD operations on BILLING ACCOUNTS
+  REST_BILLING_ACCOUNT_ASSIGN_USERS = 'billing-accounts/:billingAccountID/users/assign',
+  REST_BILLING_ACCOUNT_UNASSIGN_USERS = 'billing-accounts/:billingAccountID/users/unassign',
+
+  // BILLING URLs for CRUD operations on SUBSCRIPTION PLANS
+  REST_BILLING_SUBSCRIPTION_PLANS = 'subscription-plans',
+  REST_BILLING_SUBSCRIPTION_PLAN = 'subscription-plans/:subscriptionPlanID',
+
+  // BILLING URLs for the SUBSCRIPTIONS of the users
+  REST_BILLING_SUBSCRIPTIONS = 'subscriptions',
+  REST_BILLING_SUBSCRIPTION_CANCEL = 'subscriptions/:subscriptionID/cancel',
 }
 
 export enum ServerProtocol {
@@ -541,5 +637,6 @@ export enum ServerProtocol {
 
 export enum WSServerProtocol {
   OCPP16 = 'ocpp1.6',
+  OCPP201 = 'ocpp2.0.1',
   REST = 'rest'
 }
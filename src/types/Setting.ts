@@ -1,9 +1,14 @@
+import { IdleFeePolicy, Pricing, UserGroupPricing } from './Pricing';
+
+import { BillingTax } from './Billing';
 import CreatedUpdatedProps from './CreatedUpdatedProps';
+import { OCPPSecurityProfile } from './ocpp/OCPPServer';
 import TenantComponents from './TenantComponents';
 
 export enum TechnicalSettings {
   USER = 'user',
-  CRYPTO = 'crypto'
+  CRYPTO = 'crypto',
+  OCPP_SECURITY = 'ocppSecurity'
 }
 
 export interface Setting extends CreatedUpdatedProps {
@@ -38,6 +43,7 @@ export interface SettingDBContent {
   | SmartChargingContentType
   | CryptoSettingsType
   | UserSettingsType
+  | OcppSecuritySettingsType
   | CarConnectorSettingsType;
   ocpi?: OcpiSetting;
   oicp?: OicpSetting;
@@ -46,14 +52,17 @@ export interface SettingDBContent {
   convergentCharging?: ConvergentChargingPricingSetting;
   billing?: BillingSetting;
   stripe?: StripeBillingSetting;
+  localBilling?: LocalBillingSetting;
   sac?: SacAnalyticsSetting;
   links?: SettingLink[];
   concur?: ConcurRefundSetting;
   sapSmartCharging?: SapSmartChargingSetting;
+  localSmartCharging?: LocalSmartChargingSetting;
   asset?: AssetSetting;
   carConnector?: CarConnectorSetting;
   crypto?: CryptoSetting;
   user?: UserSetting;
+  ocppSecurity?: OcppSecuritySetting;
 }
 
 export enum PricingSettingsType {
@@ -80,6 +89,9 @@ export enum PricingContentType {
 export interface SimplePricingSetting extends PricingSetting {
   price: number;
   currency: string;
+  pricings?: Pricing[];
+  userGroupPricings?: UserGroupPricing[];
+  idleFee?: IdleFeePolicy;
   last_updated?: Date;
 }
 
@@ -173,13 +185,15 @@ export interface SacAnalyticsSetting {
 }
 
 export enum SmartChargingSettingsType {
-  SAP_SMART_CHARGING = 'sapSmartCharging'
+  SAP_SMART_CHARGING = 'sapSmartCharging',
+  LOCAL_SMART_CHARGING = 'localSmartCharging'
 }
 
 export interface SmartChargingSettings extends Setting {
   identifier: TenantComponents.SMART_CHARGING;
   type: SmartChargingSettingsType;
   sapSmartCharging?: SapSmartChargingSetting;
+  localSmartCharging?: LocalSmartChargingSetting;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -188,6 +202,7 @@ export interface SmartChargingSetting {
 
 export enum SmartChargingContentType {
   SAP_SMART_CHARGING = 'sapSmartCharging',
+  LOCAL_SMART_CHARGING = 'localSmartCharging',
 }
 
 export interface SapSmartChargingSetting extends SmartChargingSetting {
@@ -199,6 +214,18 @@ export interface SapSmartChargingSetting extends SmartChargingSetting {
   limitBufferAC: number;
 }
 
+export interface LocalSmartChargingSetting extends SmartChargingSetting {
+  safetyMarginPercent: number;
+  solarHysteresisAmps: number;
+  chargingScheduleOptimization: ChargingScheduleOptimization;
+}
+
+export enum ChargingScheduleOptimization {
+  NONE = 'none',
+  COST = 'cost',
+  CO2 = 'co2',
+}
+
 export enum RefundSettingsType {
   CONCUR = 'concur',
 }
@@ -226,7 +253,8 @@ export interface ConcurRefundSetting extends RefundSetting {
 }
 
 export enum BillingSettingsType {
-  STRIPE = 'stripe'
+  STRIPE = 'stripe',
+  LOCAL_BILLING = 'localBilling'
 }
 
 export interface BillingSettings extends Setting {
@@ -234,6 +262,7 @@ export interface BillingSettings extends Setting {
   type: BillingSettingsType;
   billing: BillingSetting;
   stripe?: StripeBillingSetting;
+  localBilling?: LocalBillingSetting;
 }
 
 export interface BillingSetting {
@@ -242,6 +271,9 @@ export interface BillingSetting {
   periodicBillingAllowed: boolean;
   taxID: string;
   usersLastSynchronizedOn?: Date;
+  isWalletActivated?: boolean;
+  // Sessions cannot be started below this balance
+  walletMinimumBalance?: number;
 }
 
 export interface StripeBillingSetting {
@@ -250,8 +282,19 @@ export interface StripeBillingSetting {
   publicKey: string;
 }
 
+export interface LocalBillingSetting {
+  companyName: string;
+  companyAddress?: string;
+  companyTaxNumber?: string;
+  invoiceNumberPrefix?: string;
+  paymentInstructions?: string;
+  // Applied on top of the billed amounts
+  taxes: BillingTax[];
+}
+
 export enum BillingContentType {
   STRIPE = 'stripe',
+  LOCAL_BILLING = 'localBilling',
 }
 
 export interface AssetSettings extends Setting {
@@ -281,6 +324,8 @@ export interface AssetConnectionSetting {
   iothinkConnection?: AssetIothinkConnectionType;
   witConnection?: AssetWitConnectionType;
   lacroixConnection?: AssetLacroixConnectionType
+  modbusConnection?: AssetModbusConnectionType;
+  mqttConnection?: AssetMQTTConnectionType;
 }
 
 export enum AssetConnectionType {
@@ -288,7 +333,9 @@ export enum AssetConnectionType {
   GREENCOM = 'greencom',
   IOTHINK = 'iothink',
   WIT = 'wit',
-  LACROIX = 'lacroix'
+  LACROIX = 'lacroix',
+  MODBUS = 'modbus',
+  MQTT = 'mqtt',
 }
 
 export interface AssetUserPasswordConnectionType {
@@ -313,6 +360,66 @@ export interface AssetWitConnectionType extends AssetUserPasswordConnectionType
   authenticationUrl: string;
 }
 
+export interface AssetModbusConnectionType {
+  // Used when the Asset's Meter ID is not a Unit ID
+  unitID: number;
+  registers: AssetModbusRegisters;
+}
+
+export interface AssetModbusRegisters {
+  instantWatts?: AssetModbusRegister;
+  instantWattsL1?: AssetModbusRegister;
+  instantWattsL2?: AssetModbusRegister;
+  instantWattsL3?: AssetModbusRegister;
+  importedEnergyWh?: AssetModbusRegister;
+  exportedEnergyWh?: AssetModbusRegister;
+  stateOfCharge?: AssetModbusRegister;
+}
+
+export interface AssetModbusRegister {
+  address: number;
+  registerType?: AssetModbusRegisterType;
+  dataType: AssetModbusDataType;
+  scaleFactor?: number;
+  // SunSpec scale factor register, the value is multiplied by 10^sf
+  scaleFactorAddress?: number;
+}
+
+export enum AssetModbusRegisterType {
+  HOLDING = 'holding',
+  INPUT = 'input',
+}
+
+export enum AssetModbusDataType {
+  INT16 = 'int16',
+  UINT16 = 'uint16',
+  INT32 = 'int32',
+  UINT32 = 'uint32',
+  FLOAT32 = 'float32',
+}
+
+export interface AssetMQTTConnectionType {
+  user?: string;
+  password?: string;
+  // Path of the values in the Json payload published on the Asset's Meter ID topic
+  payloadPaths: AssetMQTTPayloadPaths;
+}
+
+export interface AssetMQTTPayloadPaths {
+  instantWatts?: string;
+  instantWattsL1?: string;
+  instantWattsL2?: string;
+  instantWattsL3?: string;
+  instantAmps?: string;
+  instantAmpsL1?: string;
+  instantAmpsL2?: string;
+  instantAmpsL3?: string;
+  // Meter index
+  consumptionWh?: string;
+  stateOfCharge?: string;
+  timestamp?: string;
+}
+
 export enum CarConnectorSettingsType {
   CAR_CONNECTOR = 'carConnector',
 }
@@ -385,3 +492,17 @@ export interface UserSettings extends Setting {
 export interface UserSetting {
   autoActivateAccountAfterValidation: boolean;
 }
+
+export enum OcppSecuritySettingsType {
+  OCPP_SECURITY = 'ocppSecurity',
+}
+
+export interface OcppSecuritySettings extends Setting {
+  identifier: TechnicalSettings.OCPP_SECURITY;
+  type: OcppSecuritySettingsType;
+  ocppSecurity?: OcppSecuritySetting;
+}
+
+export interface OcppSecuritySetting {
+  minimumSecurityProfile: OCPPSecurityProfile; // Applies to all the charging stations, including the unknown ones
+}
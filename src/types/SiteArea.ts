@@ -1,4 +1,4 @@
-import ChargingStation, { Voltage } from '../types/ChargingStation';
+import ChargingStation, { PhaseAssignmentToGrid, Voltage } from '../types/ChargingStation';
 
 import Address from './Address';
 import ConnectorStats from './ConnectorStats';
@@ -7,6 +7,7 @@ import CreatedUpdatedProps from './CreatedUpdatedProps';
 import { OpeningTimes } from './OpeningTimes';
 import Site from '../types/Site';
 import { SiteAreaAuthorizationActions } from './Authorization';
+import { SolarChargingMode } from './SmartCharging';
 
 export default interface SiteArea extends CreatedUpdatedProps, SiteAreaAuthorizationActions {
   id: string;
@@ -26,4 +27,10 @@ export default interface SiteArea extends CreatedUpdatedProps, SiteAreaAuthoriza
   values: Consumption[];
   distanceMeters?: number;
   openingTimes?: OpeningTimes;
+  parentSiteAreaID?: string;
+  parentSiteArea?: SiteArea;
+  childSiteAreas?: SiteArea[];
+  // Phases of the parent Site Area (or of the grid) each phase is wired to
+  phaseAssignmentToGrid?: PhaseAssignmentToGrid;
+  solarChargingMode?: SolarChargingMode;
 }
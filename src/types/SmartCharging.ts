@@ -0,0 +1,99 @@
+import { AssetBatteryPlan } from './Asset';
+import { CSPhasesUsed } from './Transaction';
+import { ChargingProfile } from './ChargingProfile';
+import { OCPPPhase } from './ocpp/OCPPServer';
+
+export enum SmartChargingPriority {
+  LOW = 1,
+  NORMAL = 2,
+  HIGH = 3,
+}
+
+export enum SolarChargingMode {
+  NONE = 'none',
+  SOLAR_ONLY = 'solarOnly',
+  SOLAR_AND_MINIMUM = 'solarAndMinimum',
+}
+
+export interface ChargingNeeds {
+  departureTime?: Date;
+  targetEnergyWh?: number;
+  solarChargingMode?: SolarChargingMode;
+}
+
+export interface ChargingPlan {
+  computedOn: Date;
+  transactionID: number;
+  siteAreaID: string;
+  chargingStationID: string;
+  connectorID: number;
+  priority: SmartChargingPriority;
+  solarChargingMode?: SolarChargingMode;
+  departureTime?: Date;
+  targetEnergyWh?: number;
+  consumedEnergyWh: number;
+  requiredAmps?: number;
+  limitAmps: number;
+  limitWatts: number;
+  estimatedEnergyAtDepartureWh?: number;
+  targetReachable?: boolean;
+  suspended: boolean;
+  schedule?: ChargingPlanPeriod[];
+  estimatedCost?: number;
+  estimatedCo2Grams?: number;
+}
+
+export interface ChargingPlanPeriod {
+  startDate: Date;
+  limitAmps: number;
+}
+
+export interface SimulatedConnector {
+  chargingStationID: string;
+  connectorID: number;
+  smartChargingPriority?: SmartChargingPriority;
+  departureTime?: Date;
+  targetEnergyWh?: number;
+  consumedEnergyWh?: number;
+  solarChargingMode?: SolarChargingMode;
+  // Single phased cars use only some of the phases
+  phasesUsed?: CSPhasesUsed;
+}
+
+export interface SmartChargingSimulation {
+  siteAreaID: string;
+  computedOn: Date;
+  chargingProfiles: ChargingProfile[];
+  chargingPlans?: ChargingPlan[];
+  batteryPlans?: AssetBatteryPlan[];
+  siteAreaPhaseTotals: SiteAreaPhaseTotal[];
+  limitViolations: SmartChargingLimitViolation[];
+}
+
+export interface SiteAreaPhaseTotal {
+  siteAreaID: string;
+  siteAreaName: string;
+  // Phase of the grid
+  phase: OCPPPhase;
+  limitAmps: number;
+  maximumAmps: number;
+}
+
+export enum SmartChargingLimitViolationType {
+  SITE_AREA = 'SiteArea',
+  CHARGE_POINT = 'ChargePoint',
+  CONNECTOR = 'Connector',
+}
+
+export interface SmartChargingLimitViolation {
+  type: SmartChargingLimitViolationType;
+  // First time the worst limit is reached
+  date: Date;
+  siteAreaID?: string;
+  phase?: OCPPPhase;
+  chargingStationID?: string;
+  chargePointID?: number;
+  connectorID?: number;
+  limitAmps: number;
+  maximumAmps: number;
+}
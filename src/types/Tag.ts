@@ -2,6 +2,7 @@ import { AuthorizationActions } from './Authorization';
 import CreatedUpdatedProps from './CreatedUpdatedProps';
 import { ImportStatus } from './GlobalType';
 import { OCPIToken } from './ocpi/OCPIToken';
+import { SmartChargingPriority } from './SmartCharging';
 import User from './User';
 
 export default interface Tag extends CreatedUpdatedProps, AuthorizationActions {
@@ -15,6 +16,7 @@ export default interface Tag extends CreatedUpdatedProps, AuthorizationActions {
   ocpiToken?: OCPIToken;
   user?: User;
   default?: boolean
+  smartChargingPriority?: SmartChargingPriority;
 }
 
 export interface ImportedTag {
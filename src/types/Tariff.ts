@@ -0,0 +1,20 @@
+import CreatedUpdatedProps from './CreatedUpdatedProps';
+import { IdleFeePolicy, Pricing, UserGroupPricing } from './Pricing';
+
+export default interface Tariff extends CreatedUpdatedProps {
+  id: string;
+  description: string;
+  currency: string;
+  entityType: TariffEntityType;
+  entityID: string;
+  pricings: Pricing[];
+  userGroupPricings?: UserGroupPricing[];
+  idleFee?: IdleFeePolicy;
+}
+
+export enum TariffEntityType {
+  COMPANY = 'Company',
+  SITE = 'Site',
+  SITE_AREA = 'SiteArea',
+  CHARGING_STATION = 'ChargingStation',
+}
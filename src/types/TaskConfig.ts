@@ -2,6 +2,10 @@ export interface TaskConfig {}
 
 export type CheckOfflineChargingStationsTaskConfig = TaskConfig;
 
+export type CheckExpiredReservationsTaskConfig = TaskConfig;
+
+export type SynchronizeLocalAuthorizationListsTaskConfig = TaskConfig;
+
 export interface CheckPreparingSessionNotStartedTaskConfig extends TaskConfig {
   preparingStatusMaxMins?: number;
 }
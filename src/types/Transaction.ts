@@ -1,5 +1,6 @@
 import { Car, CarCatalog } from './Car';
 import { ChargePointStatus, OCPP15TransactionData, OCPPMeterValue } from './ocpp/OCPPServer';
+import { ChargingNeeds, ChargingPlan, SmartChargingPriority } from './SmartCharging';
 import Consumption, { AbstractCurrentConsumption } from './Consumption';
 
 import ChargingStation from '../types/ChargingStation';
@@ -8,7 +9,7 @@ import { OCPICdr } from './ocpi/OCPICdr';
 import { OCPISession } from './ocpi/OCPISession';
 import { OICPChargeDetailRecord } from './oicp/OICPChargeDetailRecord';
 import { OICPSession } from './oicp/OICPSession';
-import { PricingModel } from './Pricing';
+import { PricingModel, TransactionPricingData } from './Pricing';
 import Site from './Site';
 import SiteArea from './SiteArea';
 import Tag from './Tag';
@@ -46,6 +47,7 @@ export enum StartTransactionErrorCode {
   BILLING_NO_TAX = 'billing_no_tax', // start transaction is not possible - the tax ID is not set or inconsistent
   BILLING_NO_SETTINGS = 'billing_no_settings', // start transaction not possible - billing settings are not set (or partially set)
   BILLING_INCONSISTENT_SETTINGS = 'billing_inconsistent_settings', // start transaction not possible - billing settings are inconsistent
+  BILLING_INSUFFICIENT_WALLET_BALANCE = 'billing_insufficient_wallet_balance', // start transaction not possible - the prepaid wallet balance is below the minimum
 }
 
 export default interface Transaction extends AbstractCurrentConsumption {
@@ -83,6 +85,10 @@ export default interface Transaction extends AbstractCurrentConsumption {
   priceUnit?: string;
   pricingSource?: string;
   pricingModel?: PricingModel,
+  pricingData?: TransactionPricingData,
+  smartChargingPriority?: SmartChargingPriority;
+  chargingNeeds?: ChargingNeeds;
+  chargingPlan?: ChargingPlan;
   stateOfCharge: number;
   timezone: string;
   currentTimestamp?: Date;
@@ -105,6 +111,9 @@ export default interface Transaction extends AbstractCurrentConsumption {
   refundData?: TransactionRefundData;
   migrationTag?: string;
   authorizationID?: string;
+  ocppTransactionID?: string;
+  ocppEvseID?: number;
+  ocppConnectorID?: number;
 }
 
 export interface TransactionOcpiData {
@@ -1,3 +1,5 @@
+import { ChargingNeeds, SmartChargingPriority } from './SmartCharging';
+
 import Address from './Address';
 import { AuthorizationActions } from './Authorization';
 import { BillingUserData } from './Billing';
@@ -33,10 +35,13 @@ export default interface User extends CreatedUpdatedProps, AuthorizationActions
   verificationToken?: string;
   verifiedAt?: Date;
   billingData?: BillingUserData;
+  billingAccountID?: string;
   mobileOs: string;
   mobileToken: string;
   mobileLastChangedOn: Date;
   lastSelectedCarID?: string;
+  lastChargingNeeds?: ChargingNeeds;
+  smartChargingPriority?: SmartChargingPriority;
   authorizationID?: string;
 }
 
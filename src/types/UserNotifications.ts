@@ -10,6 +10,7 @@ export default interface UserNotifications {
   sendSessionStarted: boolean;
   sendOptimalChargeReached: boolean;
   sendEndOfCharge: boolean;
+  sendIdleFeeWarning: boolean;
   sendEndOfSession: boolean;
   sendUserAccountStatusChanged: boolean;
   sendNewRegisteredUser: boolean;
@@ -37,6 +38,7 @@ export type UserNotificationKeys =
  'sendSessionStarted' |
  'sendOptimalChargeReached' |
  'sendEndOfCharge' |
+ 'sendIdleFeeWarning' |
  'sendEndOfSession' |
  'sendUserAccountStatusChanged' |
  'sendUnknownUserBadged' |
@@ -61,6 +63,7 @@ export enum UserNotificationType {
   SESSION_STARTED = 'SessionStarted',
   OPTIMAL_CHARGE_REACHED = 'OptimalChargeReached',
   END_OF_CHARGE = 'EndOfCharge',
+  IDLE_FEE_WARNING = 'IdleFeeWarning',
   END_OF_SESSION = 'EndOfSession',
   USER_ACCOUNT_STATUS_CHANGED = 'UserAccountStatusChanged',
   UNKNOWN_USER_BADGED = 'UnknownUserBadged',
@@ -127,6 +130,18 @@ export interface OptimalChargeReachedNotification extends BaseNotification {
   evseDashboardURL: string;
 }
 
+export interface IdleFeeWarningNotification extends BaseNotification {
+  user: User;
+  transactionId: number;
+  chargeBoxID: string;
+  connectorId: string;
+  remainingMins: number;
+  pricePerMin: string;
+  maxAmount: string;
+  evseDashboardChargingStationURL: string;
+  evseDashboardURL: string;
+}
+
 export interface EndOfSessionNotification extends BaseNotification {
   user: User;
   alternateUser: User;
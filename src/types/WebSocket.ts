@@ -45,3 +45,11 @@ export interface WSClientOptions extends WSClientConfiguration {
   logTenantID?: string;
   protocols?: WSServerProtocol | WSServerProtocol[];
 }
+
+export interface WSConnectionCredentials {
+  secure: boolean;
+  username?: string;
+  password?: string;
+  clientCertificate?: Buffer;
+  clientCertificateAuthorized?: boolean;
+}
@@ -0,0 +1,5 @@
+export default interface AssetMQTTConfiguration {
+  active: boolean;
+  checkIntervalSecs?: number;
+  keepAliveSecs?: number;
+}
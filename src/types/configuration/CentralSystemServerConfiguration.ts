@@ -8,4 +8,5 @@ export default interface CentralSystemServerConfiguration {
   sslKey?: string;
   sslCert?: string;
   sslCa?: string | string[];
+  sslRequestCert?: boolean;
 }
@@ -1,3 +1,4 @@
+import AssetMQTTConfiguration from './AssetMQTTConfiguration';
 import AsyncTaskConfiguration from './AsyncTaskConfiguration';
 import AuthorizationConfiguration from './AuthorizationConfiguration';
 import AxiosConfiguration from './AxiosConfiguration';
@@ -20,6 +21,7 @@ import MigrationConfiguration from './MigrationConfiguration';
 import NotificationConfiguration from './NotificationConfiguration';
 import OCPIEndpointConfiguration from './OCPIEndpointConfiguration';
 import OCPIServiceConfiguration from './OCPIServiceConfiguration';
+import OCPPSecurityConfiguration from './OCPPSecurityConfiguration';
 import ODataServiceConfiguration from './ODataServiceConfiguration';
 import OICPEndpointConfiguration from './OICPEndpointConfiguration';
 import OICPServiceConfiguration from './OICPServiceConfiguration';
@@ -52,12 +54,14 @@ export interface Configuration {
   Locales?: LocalesConfiguration;
   Scheduler: SchedulerConfiguration;
   AsyncTask: AsyncTaskConfiguration;
+  AssetMQTT?: AssetMQTTConfiguration;
   Logging: LoggingConfiguration;
   HealthCheck?: HealthCheckConfiguration;
   Migration?: MigrationConfiguration;
   EVDatabase?: EVDatabaseConfiguration;
   ChargingStationTemplates?: ChargingStationTemplatesConfiguration;
-  Axios?: AxiosConfiguration
+  Axios?: AxiosConfiguration;
+  OCPPSecurity?: OCPPSecurityConfiguration;
 }
 
-export type ConfigurationSection = CryptoConfiguration|ClusterConfiguration|CentralSystemServerConfiguration|CentralSystemConfiguration|CentralSystemRestServiceConfiguration|CentralSystemFrontEndConfiguration|WSDLEndpointConfiguration|JsonEndpointConfiguration|OCPIEndpointConfiguration|WSClientConfiguration|OCPIServiceConfiguration|ODataServiceConfiguration|FirebaseConfiguration|EmailConfiguration|StorageConfiguration|NotificationConfiguration|AuthorizationConfiguration|ChargingStationConfiguration|SchedulerConfiguration|LocalesConfiguration|LoggingConfiguration|HealthCheckConfiguration|MigrationConfiguration|EVDatabaseConfiguration|ChargingStationTemplatesConfiguration|AxiosConfiguration;
+export type ConfigurationSection = CryptoConfiguration|ClusterConfiguration|CentralSystemServerConfiguration|CentralSystemConfiguration|CentralSystemRestServiceConfiguration|CentralSystemFrontEndConfiguration|WSDLEndpointConfiguration|JsonEndpointConfiguration|OCPIEndpointConfiguration|WSClientConfiguration|OCPIServiceConfiguration|ODataServiceConfiguration|FirebaseConfiguration|EmailConfiguration|StorageConfiguration|NotificationConfiguration|AuthorizationConfiguration|ChargingStationConfiguration|SchedulerConfiguration|LocalesConfiguration|LoggingConfiguration|HealthCheckConfiguration|MigrationConfiguration|EVDatabaseConfiguration|ChargingStationTemplatesConfiguration|AxiosConfiguration|OCPPSecurityConfiguration|AssetMQTTConfiguration;
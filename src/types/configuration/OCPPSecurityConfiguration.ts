@@ -0,0 +1,6 @@
+export default interface OCPPSecurityConfiguration {
+  caCertificate?: string;
+  caPrivateKey?: string;
+  certificateValidityDays?: number;
+  trustedProxies?: string[];
+}
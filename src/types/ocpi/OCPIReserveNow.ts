@@ -0,0 +1,10 @@
+import { OCPIToken } from './OCPIToken';
+
+export interface OCPIReserveNow {
+  response_url: string;
+  token: OCPIToken;
+  expiry_date: string;
+  reservation_id: number;
+  location_id: string;
+  evse_uid: string;
+}
@@ -12,8 +12,33 @@ export interface OCPIPriceComponent {
   step_size: number;
 }
 
+export interface OCPITariffRestrictions {
+  start_time?: string;
+  end_time?: string;
+  start_date?: string;
+  end_date?: string;
+  min_kwh?: number;
+  max_kwh?: number;
+  min_power?: number;
+  max_power?: number;
+  min_duration?: number;
+  max_duration?: number;
+  day_of_week?: OCPIDayOfWeek[];
+}
+
+export enum OCPIDayOfWeek {
+  MONDAY = 'MONDAY',
+  TUESDAY = 'TUESDAY',
+  WEDNESDAY = 'WEDNESDAY',
+  THURSDAY = 'THURSDAY',
+  FRIDAY = 'FRIDAY',
+  SATURDAY = 'SATURDAY',
+  SUNDAY = 'SUNDAY'
+}
+
 export interface OCPITariffElement {
   price_components: OCPIPriceComponent[];
+  restrictions?: OCPITariffRestrictions;
 }
 
 export interface OCPITariff {
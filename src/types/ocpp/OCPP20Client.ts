@@ -0,0 +1,231 @@
+import { ChargingProfileKindType, ChargingRateUnitType, ChargingSchedulePeriod, RecurrencyKindType } from '../ChargingProfile';
+import { OCPP20Component, OCPP20EVSE, OCPP20IdToken, OCPP20Variable } from './OCPP20Server';
+import { OCPPCertificateHashData } from './OCPPClient';
+
+export enum OCPP20Command {
+  REQUEST_START_TRANSACTION = 'RequestStartTransaction',
+  REQUEST_STOP_TRANSACTION = 'RequestStopTransaction',
+  RESET = 'Reset',
+  CLEAR_CACHE = 'ClearCache',
+  GET_VARIABLES = 'GetVariables',
+  SET_VARIABLES = 'SetVariables',
+  GET_BASE_REPORT = 'GetBaseReport',
+  UNLOCK_CONNECTOR = 'UnlockConnector',
+  SET_CHARGING_PROFILE = 'SetChargingProfile',
+  CLEAR_CHARGING_PROFILE = 'ClearChargingProfile',
+  CHANGE_AVAILABILITY = 'ChangeAvailability',
+  TRIGGER_MESSAGE = 'TriggerMessage',
+  CERTIFICATE_SIGNED = 'CertificateSigned',
+  INSTALL_CERTIFICATE = 'InstallCertificate',
+  GET_INSTALLED_CERTIFICATE_IDS = 'GetInstalledCertificateIds',
+  DELETE_CERTIFICATE = 'DeleteCertificate',
+}
+
+export interface OCPP20RequestStartTransactionRequest {
+  evseId?: number;
+  remoteStartId: number;
+  idToken: OCPP20IdToken;
+  chargingProfile?: OCPP20ChargingProfile;
+}
+
+export interface OCPP20RequestStopTransactionRequest {
+  transactionId: string;
+}
+
+export interface OCPP20RequestStartStopTransactionResponse {
+  status: OCPP20RequestStartStopStatus;
+  transactionId?: string;
+}
+
+export enum OCPP20RequestStartStopStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected'
+}
+
+export interface OCPP20ResetRequest {
+  type: OCPP20ResetType;
+  evseId?: number;
+}
+
+export enum OCPP20ResetType {
+  IMMEDIATE = 'Immediate',
+  ON_IDLE = 'OnIdle'
+}
+
+export interface OCPP20ResetResponse {
+  status: OCPP20ResetStatus;
+}
+
+export enum OCPP20ResetStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected',
+  SCHEDULED = 'Scheduled'
+}
+
+export interface OCPP20GetVariablesRequest {
+  getVariableData: OCPP20VariableData[];
+}
+
+export interface OCPP20VariableData {
+  component: OCPP20Component;
+  variable: OCPP20Variable;
+}
+
+export interface OCPP20GetVariablesResponse {
+  getVariableResult: OCPP20GetVariableResult[];
+}
+
+export interface OCPP20GetVariableResult extends OCPP20VariableData {
+  attributeStatus: OCPP20GetVariableStatus;
+  attributeValue?: string;
+}
+
+export enum OCPP20GetVariableStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected',
+  UNKNOWN_COMPONENT = 'UnknownComponent',
+  UNKNOWN_VARIABLE = 'UnknownVariable',
+  NOT_SUPPORTED_ATTRIBUTE_TYPE = 'NotSupportedAttributeType'
+}
+
+export interface OCPP20SetVariablesRequest {
+  setVariableData: OCPP20SetVariableData[];
+}
+
+export interface OCPP20SetVariableData extends OCPP20VariableData {
+  attributeValue: string;
+}
+
+export interface OCPP20SetVariablesResponse {
+  setVariableResult: OCPP20SetVariableResult[];
+}
+
+export interface OCPP20SetVariableResult extends OCPP20VariableData {
+  attributeStatus: OCPP20SetVariableStatus;
+}
+
+export enum OCPP20SetVariableStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected',
+  UNKNOWN_COMPONENT = 'UnknownComponent',
+  UNKNOWN_VARIABLE = 'UnknownVariable',
+  NOT_SUPPORTED_ATTRIBUTE_TYPE = 'NotSupportedAttributeType',
+  REBOOT_REQUIRED = 'RebootRequired'
+}
+
+export interface OCPP20GetBaseReportRequest {
+  requestId: number;
+  reportBase: OCPP20ReportBase;
+}
+
+export enum OCPP20ReportBase {
+  CONFIGURATION_INVENTORY = 'ConfigurationInventory',
+  FULL_INVENTORY = 'FullInventory',
+  SUMMARY_INVENTORY = 'SummaryInventory'
+}
+
+export interface OCPP20UnlockConnectorRequest {
+  evseId: number;
+  connectorId: number;
+}
+
+export interface OCPP20UnlockConnectorResponse {
+  status: OCPP20UnlockStatus;
+}
+
+export enum OCPP20UnlockStatus {
+  UNLOCKED = 'Unlocked',
+  UNLOCK_FAILED = 'UnlockFailed',
+  ONGOING_AUTHORIZED_TRANSACTION = 'OngoingAuthorizedTransaction',
+  UNKNOWN_CONNECTOR = 'UnknownConnector'
+}
+
+export interface OCPP20SetChargingProfileRequest {
+  evseId: number;
+  chargingProfile: OCPP20ChargingProfile;
+}
+
+export interface OCPP20ChargingProfile {
+  id: number;
+  stackLevel: number;
+  chargingProfilePurpose: OCPP20ChargingProfilePurpose;
+  chargingProfileKind: ChargingProfileKindType;
+  recurrencyKind?: RecurrencyKindType;
+  validFrom?: Date;
+  validTo?: Date;
+  transactionId?: string;
+  chargingSchedule: OCPP20ChargingSchedule[];
+}
+
+export enum OCPP20ChargingProfilePurpose {
+  CHARGING_STATION_EXTERNAL_CONSTRAINTS = 'ChargingStationExternalConstraints',
+  CHARGING_STATION_MAX_PROFILE = 'ChargingStationMaxProfile',
+  TX_DEFAULT_PROFILE = 'TxDefaultProfile',
+  TX_PROFILE = 'TxProfile'
+}
+
+export interface OCPP20ChargingSchedule {
+  id: number;
+  startSchedule?: Date;
+  duration?: number;
+  chargingRateUnit: ChargingRateUnitType;
+  chargingSchedulePeriod: ChargingSchedulePeriod[];
+  minChargingRate?: number;
+}
+
+export interface OCPP20ChargingProfileStatusResponse {
+  status: OCPP20ChargingProfileStatus;
+}
+
+export enum OCPP20ChargingProfileStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected'
+}
+
+export interface OCPP20ClearChargingProfileRequest {
+  chargingProfileId?: number;
+  chargingProfileCriteria?: {
+    evseId?: number;
+    chargingProfilePurpose?: OCPP20ChargingProfilePurpose;
+    stackLevel?: number;
+  };
+}
+
+export interface OCPP20ChangeAvailabilityRequest {
+  operationalStatus: OCPP20OperationalStatus;
+  evse?: OCPP20EVSE;
+}
+
+export enum OCPP20OperationalStatus {
+  INOPERATIVE = 'Inoperative',
+  OPERATIVE = 'Operative'
+}
+
+export interface OCPP20TriggerMessageRequest {
+  requestedMessage: string;
+  evse?: OCPP20EVSE;
+}
+
+export interface OCPP20InstallCertificateRequest {
+  certificateType: OCPP20InstallCertificateUse;
+  certificate: string;
+}
+
+export enum OCPP20InstallCertificateUse {
+  V2G_ROOT_CERTIFICATE = 'V2GRootCertificate',
+  MO_ROOT_CERTIFICATE = 'MORootCertificate',
+  CSMS_ROOT_CERTIFICATE = 'CSMSRootCertificate',
+  MANUFACTURER_ROOT_CERTIFICATE = 'ManufacturerRootCertificate'
+}
+
+export interface OCPP20GetInstalledCertificateIdsRequest {
+  certificateType?: OCPP20InstallCertificateUse[];
+}
+
+export interface OCPP20GetInstalledCertificateIdsResponse {
+  status: string;
+  certificateHashDataChain?: {
+    certificateType: string;
+    certificateHashData: OCPPCertificateHashData;
+  }[];
+}
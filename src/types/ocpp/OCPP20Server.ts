@@ -0,0 +1,259 @@
+import { OCPPAuthorizationStatus, OCPPLocation, OCPPMeasurand, OCPPPhase, OCPPReadingContext, RegistrationStatus } from './OCPPServer';
+
+export interface OCPP20BootNotificationRequest {
+  chargingStation: OCPP20ChargingStation;
+  reason: OCPP20BootReason;
+}
+
+export interface OCPP20ChargingStation {
+  model: string;
+  vendorName: string;
+  serialNumber?: string;
+  firmwareVersion?: string;
+  modem?: {
+    iccid?: string;
+    imsi?: string;
+  };
+}
+
+export enum OCPP20BootReason {
+  APPLICATION_RESET = 'ApplicationReset',
+  FIRMWARE_UPDATE = 'FirmwareUpdate',
+  LOCAL_RESET = 'LocalReset',
+  POWER_UP = 'PowerUp',
+  REMOTE_RESET = 'RemoteReset',
+  SCHEDULED_RESET = 'ScheduledReset',
+  TRIGGERED = 'Triggered',
+  UNKNOWN = 'Unknown',
+  WATCHDOG = 'Watchdog'
+}
+
+export interface OCPP20BootNotificationResponse {
+  currentTime: string;
+  interval: number;
+  status: RegistrationStatus;
+}
+
+export interface OCPP20StatusNotificationRequest {
+  timestamp: string;
+  connectorStatus: OCPP20ConnectorStatus;
+  evseId: number;
+  connectorId: number;
+}
+
+export enum OCPP20ConnectorStatus {
+  AVAILABLE = 'Available',
+  OCCUPIED = 'Occupied',
+  RESERVED = 'Reserved',
+  UNAVAILABLE = 'Unavailable',
+  FAULTED = 'Faulted'
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface OCPP20StatusNotificationResponse {
+}
+
+export interface OCPP20MeterValuesRequest {
+  evseId: number;
+  meterValue: OCPP20MeterValue[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface OCPP20MeterValuesResponse {
+}
+
+export interface OCPP20MeterValue {
+  timestamp: string;
+  sampledValue: OCPP20SampledValue[];
+}
+
+export interface OCPP20SampledValue {
+  value: number;
+  context?: OCPPReadingContext;
+  measurand?: OCPPMeasurand;
+  phase?: OCPPPhase;
+  location?: OCPPLocation;
+  signedMeterValue?: {
+    signedMeterData: string;
+    signingMethod: string;
+    encodingMethod: string;
+    publicKey: string;
+  };
+  unitOfMeasure?: {
+    unit?: string;
+    multiplier?: number;
+  };
+}
+
+export interface OCPP20IdToken {
+  idToken: string;
+  type: OCPP20IdTokenType;
+}
+
+export enum OCPP20IdTokenType {
+  CENTRAL = 'Central',
+  E_MAID = 'eMAID',
+  ISO14443 = 'ISO14443',
+  ISO15693 = 'ISO15693',
+  KEY_CODE = 'KeyCode',
+  LOCAL = 'Local',
+  MAC_ADDRESS = 'MacAddress',
+  NO_AUTHORIZATION = 'NoAuthorization'
+}
+
+export interface OCPP20IdTokenInfo {
+  status: OCPPAuthorizationStatus;
+  cacheExpiryDateTime?: string;
+}
+
+export interface OCPP20AuthorizeRequest {
+  idToken: OCPP20IdToken;
+}
+
+export interface OCPP20AuthorizeResponse {
+  idTokenInfo: OCPP20IdTokenInfo;
+}
+
+export interface OCPP20TransactionEventRequest {
+  eventType: OCPP20TransactionEventType;
+  timestamp: string;
+  triggerReason: OCPP20TriggerReason;
+  seqNo: number;
+  offline?: boolean;
+  numberOfPhasesUsed?: number;
+  cableMaxCurrent?: number;
+  reservationId?: number;
+  transactionInfo: OCPP20Transaction;
+  idToken?: OCPP20IdToken;
+  evse?: OCPP20EVSE;
+  meterValue?: OCPP20MeterValue[];
+}
+
+export enum OCPP20TransactionEventType {
+  STARTED = 'Started',
+  UPDATED = 'Updated',
+  ENDED = 'Ended'
+}
+
+export enum OCPP20TriggerReason {
+  AUTHORIZED = 'Authorized',
+  CABLE_PLUGGED_IN = 'CablePluggedIn',
+  CHARGING_RATE_CHANGED = 'ChargingRateChanged',
+  CHARGING_STATE_CHANGED = 'ChargingStateChanged',
+  DEAUTHORIZED = 'Deauthorized',
+  ENERGY_LIMIT_REACHED = 'EnergyLimitReached',
+  EV_COMMUNICATION_LOST = 'EVCommunicationLost',
+  EV_CONNECT_TIMEOUT = 'EVConnectTimeout',
+  METER_VALUE_CLOCK = 'MeterValueClock',
+  METER_VALUE_PERIODIC = 'MeterValuePeriodic',
+  TIME_LIMIT_REACHED = 'TimeLimitReached',
+  TRIGGER = 'Trigger',
+  UNLOCK_COMMAND = 'UnlockCommand',
+  STOP_AUTHORIZED = 'StopAuthorized',
+  EV_DEPARTED = 'EVDeparted',
+  EV_DETECTED = 'EVDetected',
+  REMOTE_STOP = 'RemoteStop',
+  REMOTE_START = 'RemoteStart',
+  ABNORMAL_CONDITION = 'AbnormalCondition',
+  SIGNED_DATA_RECEIVED = 'SignedDataReceived',
+  RESET_COMMAND = 'ResetCommand'
+}
+
+export interface OCPP20Transaction {
+  transactionId: string;
+  chargingState?: OCPP20ChargingState;
+  timeSpentCharging?: number;
+  stoppedReason?: OCPP20StoppedReason;
+  remoteStartId?: number;
+}
+
+export enum OCPP20ChargingState {
+  CHARGING = 'Charging',
+  EV_CONNECTED = 'EVConnected',
+  SUSPENDED_EV = 'SuspendedEV',
+  SUSPENDED_EVSE = 'SuspendedEVSE',
+  IDLE = 'Idle'
+}
+
+export enum OCPP20StoppedReason {
+  DE_AUTHORIZED = 'DeAuthorized',
+  EMERGENCY_STOP = 'EmergencyStop',
+  ENERGY_LIMIT_REACHED = 'EnergyLimitReached',
+  EV_DISCONNECTED = 'EVDisconnected',
+  GROUND_FAULT = 'GroundFault',
+  IMMEDIATE_RESET = 'ImmediateReset',
+  LOCAL = 'Local',
+  LOCAL_OUT_OF_CREDIT = 'LocalOutOfCredit',
+  MASTER_PASS = 'MasterPass',
+  OTHER = 'Other',
+  OVERCURRENT_FAULT = 'OvercurrentFault',
+  POWER_LOSS = 'PowerLoss',
+  POWER_QUALITY = 'PowerQuality',
+  REBOOT = 'Reboot',
+  REMOTE = 'Remote',
+  SOC_LIMIT_REACHED = 'SOCLimitReached',
+  STOPPED_BY_EV = 'StoppedByEV',
+  TIME_LIMIT_REACHED = 'TimeLimitReached',
+  TIMEOUT = 'Timeout'
+}
+
+export interface OCPP20EVSE {
+  id: number;
+  connectorId?: number;
+}
+
+export interface OCPP20TransactionEventResponse {
+  totalCost?: number;
+  chargingPriority?: number;
+  idTokenInfo?: OCPP20IdTokenInfo;
+}
+
+export interface OCPP20NotifyReportRequest {
+  requestId: number;
+  generatedAt: string;
+  tbc?: boolean;
+  seqNo: number;
+  reportData?: OCPP20ReportData[];
+}
+
+export interface OCPP20ReportData {
+  component: OCPP20Component;
+  variable: OCPP20Variable;
+  variableAttribute: OCPP20VariableAttribute[];
+}
+
+export interface OCPP20Component {
+  name: string;
+  instance?: string;
+  evse?: OCPP20EVSE;
+}
+
+export interface OCPP20Variable {
+  name: string;
+  instance?: string;
+}
+
+export interface OCPP20VariableAttribute {
+  type?: OCPP20AttributeType;
+  value?: string;
+  mutability?: OCPP20Mutability;
+  persistent?: boolean;
+  constant?: boolean;
+}
+
+export enum OCPP20AttributeType {
+  ACTUAL = 'Actual',
+  TARGET = 'Target',
+  MIN_SET = 'MinSet',
+  MAX_SET = 'MaxSet'
+}
+
+export enum OCPP20Mutability {
+  READ_ONLY = 'ReadOnly',
+  WRITE_ONLY = 'WriteOnly',
+  READ_WRITE = 'ReadWrite'
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface OCPP20NotifyReportResponse {
+}
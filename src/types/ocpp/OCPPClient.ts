@@ -1,5 +1,6 @@
 import { ChargingRateUnitType, ChargingSchedule, Profile } from '../../types/ChargingProfile';
 
+import { OCPPIdTagInfo } from './OCPPServer';
 import { OcppParameter } from '../ChargingStation';
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -197,3 +198,165 @@ export interface OCPPUpdateFirmwareCommandParam extends OCPPCommandParam {
   retrieveDate: Date;
   retryInterval?: number;
 }
+
+export interface OCPPReserveNowCommandParam extends OCPPCommandParam {
+  connectorId: number;
+  expiryDate: Date;
+  idTag: string;
+  parentIdTag?: string;
+  reservationId: number;
+}
+
+export interface OCPPReserveNowCommandResult {
+  status: OCPPReservationStatus;
+}
+
+export enum OCPPReservationStatus {
+  ACCEPTED = 'Accepted',
+  FAULTED = 'Faulted',
+  OCCUPIED = 'Occupied',
+  REJECTED = 'Rejected',
+  UNAVAILABLE = 'Unavailable'
+}
+
+export interface OCPPCancelReservationCommandParam extends OCPPCommandParam {
+  reservationId: number;
+}
+
+export interface OCPPCancelReservationCommandResult {
+  status: OCPPCancelReservationStatus;
+}
+
+export enum OCPPCancelReservationStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected'
+}
+
+export interface OCPPSendLocalListCommandParam extends OCPPCommandParam {
+  listVersion: number;
+  localAuthorizationList?: OCPPAuthorizationData[];
+  updateType: OCPPUpdateType;
+}
+
+export interface OCPPAuthorizationData {
+  idTag: string;
+  idTagInfo?: OCPPIdTagInfo;
+}
+
+export enum OCPPUpdateType {
+  DIFFERENTIAL = 'Differential',
+  FULL = 'Full'
+}
+
+export interface OCPPSendLocalListCommandResult {
+  status: OCPPUpdateStatus;
+}
+
+export enum OCPPUpdateStatus {
+  ACCEPTED = 'Accepted',
+  FAILED = 'Failed',
+  NOT_SUPPORTED = 'NotSupported',
+  VERSION_MISMATCH = 'VersionMismatch'
+}
+
+export interface OCPPGetLocalListVersionCommandResult {
+  listVersion: number;
+}
+
+export interface OCPPTriggerMessageCommandParam extends OCPPCommandParam {
+  requestedMessage: OCPPMessageTrigger;
+  connectorId?: number;
+}
+
+export enum OCPPMessageTrigger {
+  BOOT_NOTIFICATION = 'BootNotification',
+  DIAGNOSTICS_STATUS_NOTIFICATION = 'DiagnosticsStatusNotification',
+  FIRMWARE_STATUS_NOTIFICATION = 'FirmwareStatusNotification',
+  HEARTBEAT = 'Heartbeat',
+  METER_VALUES = 'MeterValues',
+  STATUS_NOTIFICATION = 'StatusNotification'
+}
+
+export interface OCPPTriggerMessageCommandResult {
+  status: OCPPTriggerMessageStatus;
+}
+
+export enum OCPPTriggerMessageStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected',
+  NOT_IMPLEMENTED = 'NotImplemented'
+}
+
+export interface OCPPCertificateSignedCommandParam extends OCPPCommandParam {
+  certificateChain: string;
+}
+
+export interface OCPPCertificateSignedCommandResult {
+  status: OCPPCertificateSignedStatus;
+}
+
+export enum OCPPCertificateSignedStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected'
+}
+
+export enum OCPPCertificateUse {
+  CENTRAL_SYSTEM_ROOT_CERTIFICATE = 'CentralSystemRootCertificate',
+  MANUFACTURER_ROOT_CERTIFICATE = 'ManufacturerRootCertificate'
+}
+
+export interface OCPPInstallCertificateCommandParam extends OCPPCommandParam {
+  certificateType: OCPPCertificateUse;
+  certificate: string;
+}
+
+export interface OCPPInstallCertificateCommandResult {
+  status: OCPPInstallCertificateStatus;
+}
+
+export enum OCPPInstallCertificateStatus {
+  ACCEPTED = 'Accepted',
+  FAILED = 'Failed',
+  REJECTED = 'Rejected'
+}
+
+export interface OCPPGetInstalledCertificateIdsCommandParam extends OCPPCommandParam {
+  certificateType: OCPPCertificateUse;
+}
+
+export interface OCPPGetInstalledCertificateIdsCommandResult {
+  status: OCPPGetInstalledCertificateStatus;
+  certificateHashData?: OCPPCertificateHashData[];
+}
+
+export enum OCPPGetInstalledCertificateStatus {
+  ACCEPTED = 'Accepted',
+  NOT_FOUND = 'NotFound'
+}
+
+export interface OCPPCertificateHashData {
+  hashAlgorithm: OCPPHashAlgorithm;
+  issuerNameHash: string;
+  issuerKeyHash: string;
+  serialNumber: string;
+}
+
+export enum OCPPHashAlgorithm {
+  SHA256 = 'SHA256',
+  SHA384 = 'SHA384',
+  SHA512 = 'SHA512'
+}
+
+export interface OCPPDeleteCertificateCommandParam extends OCPPCommandParam {
+  certificateHashData: OCPPCertificateHashData;
+}
+
+export interface OCPPDeleteCertificateCommandResult {
+  status: OCPPDeleteCertificateStatus;
+}
+
+export enum OCPPDeleteCertificateStatus {
+  ACCEPTED = 'Accepted',
+  FAILED = 'Failed',
+  NOT_FOUND = 'NotFound'
+}
@@ -389,6 +389,47 @@ export enum OCPPDataTransferStatus {
   UNKNOWN_VENDOR_ID = 'UnknownVendorId'
 }
 
+export interface OCPPSignCertificateRequest {
+  csr: string;
+}
+
+export interface OCPPSignCertificateRequestExtended extends OCPPSignCertificateRequest {
+  chargeBoxID: string;
+  timestamp: Date;
+  timezone: string;
+}
+
+export interface OCPPSignCertificateResponse {
+  status: OCPPSignCertificateStatus;
+}
+
+export enum OCPPSignCertificateStatus {
+  ACCEPTED = 'Accepted',
+  REJECTED = 'Rejected'
+}
+
+export interface OCPPSecurityEventNotificationRequest {
+  type: string;
+  timestamp: string;
+  techInfo?: string;
+}
+
+export interface OCPPSecurityEventNotificationRequestExtended extends OCPPSecurityEventNotificationRequest {
+  chargeBoxID: string;
+  timezone: string;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface OCPPSecurityEventNotificationResponse {
+}
+
+export enum OCPPSecurityProfile {
+  NONE = 0,
+  BASIC_AUTH = 1,
+  TLS_BASIC_AUTH = 2,
+  TLS_CLIENT_CERTIFICATE = 3
+}
+
 export interface OCPPStopTransactionRequest {
   idTag?: string;
   meterStop: number;
@@ -13,6 +13,7 @@ export interface HttpBillingInvoiceRequest extends HttpDatabaseRequest {
   EndDateTime?: Date;
   Search?: string;
   ID?: string;
+  BillingAccountID?: string;
 }
 
 export interface HttpBillingWebHookRequest {
@@ -32,3 +33,68 @@ export interface HttpDeletePaymentMethod {
   userID: string;
   paymentMethodId: string;
 }
+
+export interface HttpWalletOperationsRequest extends HttpDatabaseRequest {
+  userID: string;
+  StartDateTime?: Date;
+  EndDateTime?: Date;
+}
+
+export interface HttpWalletTopUpRequest {
+  userID: string;
+  amount: number;
+  currency: string;
+  description?: string;
+}
+
+export interface HttpCreditNoteRequest {
+  invoiceID?: string;
+  transactionID: number;
+  amount?: number;
+  reason?: string;
+}
+
+export interface HttpBillingAccountsRequest extends HttpDatabaseRequest {
+  Search?: string;
+  CompanyID?: string;
+}
+
+export interface HttpBillingAccountRequest extends HttpByIDRequest {
+  ID: string;
+  WithUsers?: boolean;
+}
+
+export interface HttpAssignUsersToBillingAccountRequest {
+  billingAccountID: string;
+  userIDs: string[];
+}
+
+export interface HttpExportInvoiceSessionsRequest extends HttpDatabaseRequest {
+  ID: string;
+}
+
+export interface HttpSubscriptionPlansRequest extends HttpDatabaseRequest {
+  Search?: string;
+  Active?: boolean;
+}
+
+export interface HttpSubscriptionPlanRequest extends HttpByIDRequest {
+  ID: string;
+}
+
+export interface HttpSubscriptionsRequest extends HttpDatabaseRequest {
+  UserID?: string;
+  PlanID?: string;
+  Status?: string;
+}
+
+export interface HttpCreateSubscriptionRequest {
+  userID: string;
+  planID: string;
+  startDate?: Date;
+}
+
+export interface HttpCancelSubscriptionRequest {
+  subscriptionID: string;
+  immediately?: boolean;
+}
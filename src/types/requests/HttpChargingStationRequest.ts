@@ -2,11 +2,18 @@ import { ChargePoint, ConnectorType, CurrentType, PhaseAssignmentToGrid, Voltage
 
 import HttpByIDRequest from './HttpByIDRequest';
 import HttpDatabaseRequest from './HttpDatabaseRequest';
+import { OCPPSecurityProfile } from '../ocpp/OCPPServer';
+import { SimulatedConnector } from '../SmartCharging';
 
 export interface HttpTriggerSmartChargingRequest {
   SiteAreaID: string;
 }
 
+export interface HttpSimulateSmartChargingRequest {
+  siteAreaID: string;
+  connectors?: SimulatedConnector[];
+}
+
 export interface HttpChargingStationLimitPowerRequest {
   chargingStationID: string;
   chargePointID: number;
@@ -14,6 +21,11 @@ export interface HttpChargingStationLimitPowerRequest {
   forceUpdateChargingPlan: boolean;
 }
 
+export interface HttpChargingStationSecurityProfileUpdateRequest {
+  chargingStationID: string;
+  securityProfile: OCPPSecurityProfile;
+}
+
 export interface HttpChargingProfilesRequest extends HttpDatabaseRequest {
   Search?: string;
   ChargingStationID?: string;
@@ -23,6 +35,20 @@ export interface HttpChargingProfilesRequest extends HttpDatabaseRequest {
   SiteID?: string;
 }
 
+export interface HttpChargingStationReservationsRequest extends HttpDatabaseRequest {
+  ChargingStationID: string;
+  ConnectorID?: number;
+  Status?: string;
+}
+
+export interface HttpChargingStationPriceEstimateRequest {
+  ChargingStationID: string;
+  ConnectorID: number;
+  CarCatalogID?: number;
+  TargetEnergyKWh?: number;
+  TargetDurationMins?: number;
+}
+
 export interface HttpDownloadQrCodeRequest {
   ChargingStationID?: string;
   ConnectorID?: number;
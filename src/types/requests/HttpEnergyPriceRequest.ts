@@ -0,0 +1,16 @@
+import EnergyPrice from '../EnergyPrice';
+import HttpDatabaseRequest from './HttpDatabaseRequest';
+
+export interface HttpEnergyPricesRequest extends HttpDatabaseRequest {
+  StartDate?: Date;
+  EndDate?: Date;
+}
+
+export interface HttpEnergyPricesDeleteRequest {
+  StartDate: Date;
+  EndDate: Date;
+}
+
+export interface HttpEnergyPricesImportRequest {
+  energyPrices: EnergyPrice[];
+}
@@ -5,6 +5,7 @@ export interface HttpSiteAreaRequest extends HttpByIDRequest {
   ID: string;
   WithSite?: boolean;
   WithChargingStations?: boolean;
+  WithParentSiteArea?: boolean;
 }
 
 export interface HttpSiteAreasRequest extends HttpDatabaseRequest {
@@ -12,6 +13,7 @@ export interface HttpSiteAreasRequest extends HttpDatabaseRequest {
   Search: string;
   SiteID?: string;
   CompanyID?: string;
+  ParentSiteAreaID?: string;
   WithSite?: boolean;
   WithChargeBoxes?: boolean;
   WithAvailableChargers: boolean;
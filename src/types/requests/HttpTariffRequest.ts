@@ -0,0 +1,13 @@
+import HttpByIDRequest from './HttpByIDRequest';
+import HttpDatabaseRequest from './HttpDatabaseRequest';
+import { TariffEntityType } from '../Tariff';
+
+export interface HttpTariffRequest extends HttpByIDRequest {
+  ID: string;
+}
+
+export interface HttpTariffsRequest extends HttpDatabaseRequest {
+  Search?: string;
+  EntityType?: TariffEntityType;
+  EntityID?: string;
+}
@@ -1,6 +1,7 @@
 import { AppEnv, getAppEnv } from 'cfenv';
 import { CloudCredentials, CloudCredentialsKey } from '../types/Cloud';
 
+import AssetMQTTConfiguration from '../types/configuration/AssetMQTTConfiguration';
 import AsyncTaskConfiguration from '../types/configuration/AsyncTaskConfiguration';
 import AuthorizationConfiguration from '../types/configuration/AuthorizationConfiguration';
 import AxiosConfiguration from '../types/configuration/AxiosConfiguration';
@@ -24,6 +25,7 @@ import MigrationConfiguration from '../types/configuration/MigrationConfiguratio
 import NotificationConfiguration from '../types/configuration/NotificationConfiguration';
 import OCPIEndpointConfiguration from '../types/configuration/OCPIEndpointConfiguration';
 import OCPIServiceConfiguration from '../types/configuration/OCPIServiceConfiguration';
+import OCPPSecurityConfiguration from '../types/configuration/OCPPSecurityConfiguration';
 import ODataServiceConfiguration from '../types/configuration/ODataServiceConfiguration';
 import OICPEndpointConfiguration from '../types/configuration/OICPEndpointConfiguration';
 import OICPServiceConfiguration from '../types/configuration/OICPServiceConfiguration';
@@ -425,6 +427,34 @@ export default class Configuration {
     return Configuration.getConfig().Axios;
   }
 
+  public static getOCPPSecurityConfig(): OCPPSecurityConfiguration {
+    // Read conf and set defaults values
+    if (Configuration.isUndefined(Configuration.getConfig().OCPPSecurity)) {
+      Configuration.getConfig().OCPPSecurity = {} as OCPPSecurityConfiguration;
+    }
+    if (Configuration.isUndefined(Configuration.getConfig().OCPPSecurity.certificateValidityDays)) {
+      Configuration.getConfig().OCPPSecurity.certificateValidityDays = 365;
+    }
+    return Configuration.getConfig().OCPPSecurity;
+  }
+
+  public static getAssetMQTTConfig(): AssetMQTTConfiguration {
+    // Read conf and set defaults values
+    if (Configuration.isUndefined(Configuration.getConfig().AssetMQTT)) {
+      Configuration.getConfig().AssetMQTT = {} as AssetMQTTConfiguration;
+    }
+    if (Configuration.isUndefined(Configuration.getConfig().AssetMQTT.active)) {
+      Configuration.getConfig().AssetMQTT.active = false;
+    }
+    if (Configuration.isUndefined(Configuration.getConfig().AssetMQTT.checkIntervalSecs)) {
+      Configuration.getConfig().AssetMQTT.checkIntervalSecs = 60;
+    }
+    if (Configuration.isUndefined(Configuration.getConfig().AssetMQTT.keepAliveSecs)) {
+      Configuration.getConfig().AssetMQTT.keepAliveSecs = 60;
+    }
+    return Configuration.getConfig().AssetMQTT;
+  }
+
   private static deprecateConfigurationKey(key: string, configSectionName: string, logMsgToAppend = '') {
     if (!Configuration.isUndefined(Configuration.getConfig()[configSectionName][key])) {
       console.warn(`Deprecated configuration key '${key}' usage in section '${configSectionName}'${logMsgToAppend && '. ' + logMsgToAppend}`);
@@ -253,6 +253,7 @@ export default class Constants {
 
   public static readonly MODULE_AXIOS = 'Axios';
   public static readonly MODULE_JSON_OCPP_SERVER_16 = 'OcppJ-16';
+  public static readonly MODULE_JSON_OCPP_SERVER_20 = 'OcppJ-20';
   public static readonly MODULE_SOAP_OCPP_SERVER_12 = 'OcppS-12';
   public static readonly MODULE_SOAP_OCPP_SERVER_15 = 'OcppS-15';
   public static readonly MODULE_SOAP_OCPP_SERVER_16 = 'OcppS-16';
@@ -298,6 +299,8 @@ export default class Constants {
 
   public static readonly OCPP_SOCKET_TIMEOUT = 30000; // 30 sec
   public static readonly OCPP_HEARTBEAT_KEYS = Object.freeze(['HeartbeatInterval', 'HeartBeatInterval']);
+  public static readonly OCPP_AUTHORIZATION_KEY = 'AuthorizationKey';
+  public static readonly OCPP_SECURITY_PROFILE_KEY = 'SecurityProfile';
 
   public static readonly MAX_DATE = new Date('9999-12-31Z23:59:59:999');
   public static readonly MIN_DATE = new Date('1970-01-01Z00:00:00:000');
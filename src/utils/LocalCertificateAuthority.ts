@@ -0,0 +1,139 @@
+import BackendError from '../exception/BackendError';
+import { ChargingStationCertificate } from '../types/ChargingStation';
+import Configuration from './Configuration';
+import Constants from './Constants';
+import { ServerAction } from '../types/Server';
+import forge from 'node-forge';
+import moment from 'moment';
+
+const MODULE_NAME = 'LocalCertificateAuthority';
+
+export interface SignedCertificate {
+  certificate: ChargingStationCertificate;
+  certificateChain: string;
+}
+
+// Stand-in for a real PKI: issues the charging station client certificates used by the OCPP security profile 3
+export default class LocalCertificateAuthority {
+  private static caCertificate: forge.pki.Certificate;
+  private static caPrivateKey: forge.pki.rsa.PrivateKey;
+
+  public static getCACertificate(): string {
+    LocalCertificateAuthority.initialize();
+    return forge.pki.certificateToPem(LocalCertificateAuthority.caCertificate);
+  }
+
+  public static signCertificateRequest(csr: string, chargingStationID: string): SignedCertificate {
+    LocalCertificateAuthority.initialize();
+    // Check the request
+    let certificationRequest: forge.pki.CertificateSigningRequest;
+    try {
+      certificationRequest = forge.pki.certificationRequestFromPem(csr);
+    } catch (error) {
+      throw new BackendError({
+        source: chargingStationID,
+        action: ServerAction.SIGN_CERTIFICATE,
+        module: MODULE_NAME, method: 'signCertificateRequest',
+        message: 'The Certificate Signing Request cannot be parsed',
+        detailedMessages: { error: error.stack, csr }
+      });
+    }
+    // A Certificate Signing Request is signed with its own key
+    if (!certificationRequest.verify()) {
+      throw new BackendError({
+        source: chargingStationID,
+        action: ServerAction.SIGN_CERTIFICATE,
+        module: MODULE_NAME, method: 'signCertificateRequest',
+        message: 'The Certificate Signing Request signature is invalid',
+        detailedMessages: { csr }
+      });
+    }
+    // The Common Name must be the Charging Station ID
+    const commonName = certificationRequest.subject.getField('CN')?.value as string;
+    if (commonName !== chargingStationID) {
+      throw new BackendError({
+        source: chargingStationID,
+        action: ServerAction.SIGN_CERTIFICATE,
+        module: MODULE_NAME, method: 'signCertificateRequest',
+        message: `The Certificate Signing Request Common Name '${commonName}' does not match the Charging Station ID`,
+        detailedMessages: { csr }
+      });
+    }
+    // Issue the certificate
+    const certificate = forge.pki.createCertificate();
+    certificate.publicKey = certificationRequest.publicKey;
+    certificate.serialNumber = LocalCertificateAuthority.generateSerialNumber();
+    certificate.validity.notBefore = new Date();
+    certificate.validity.notAfter = moment().add(Configuration.getOCPPSecurityConfig().certificateValidityDays, 'days').toDate();
+    certificate.setSubject(certificationRequest.subject.attributes);
+    certificate.setIssuer(LocalCertificateAuthority.caCertificate.subject.attributes);
+    certificate.setExtensions([
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', clientAuth: true }
+    ]);
+    certificate.sign(LocalCertificateAuthority.caPrivateKey, forge.md.sha256.create());
+    return {
+      certificate: {
+        serialNumber: certificate.serialNumber,
+        subject: commonName,
+        validFrom: certificate.validity.notBefore,
+        validTo: certificate.validity.notAfter
+      },
+      certificateChain: forge.pki.certificateToPem(certificate) + LocalCertificateAuthority.getCACertificate()
+    };
+  }
+
+  public static verifyCertificate(rawCertificate: Buffer): ChargingStationCertificate {
+    LocalCertificateAuthority.initialize();
+    let certificate: forge.pki.Certificate;
+    try {
+      certificate = forge.pki.certificateFromAsn1(forge.asn1.fromDer(forge.util.createBuffer(rawCertificate.toString('binary'))));
+      // Must be issued by this authority
+      if (!LocalCertificateAuthority.caCertificate.verify(certificate)) {
+        return null;
+      }
+    } catch (error) {
+      return null;
+    }
+    // Must be valid now
+    if (moment().isBefore(certificate.validity.notBefore) || moment().isAfter(certificate.validity.notAfter)) {
+      return null;
+    }
+    return {
+      serialNumber: certificate.serialNumber,
+      subject: certificate.subject.getField('CN')?.value as string,
+      validFrom: certificate.validity.notBefore,
+      validTo: certificate.validity.notAfter
+    };
+  }
+
+  public static isEnabled(): boolean {
+    // Security profile 3 is only available with a configured CA
+    const ocppSecurityConfig = Configuration.getOCPPSecurityConfig();
+    return !!ocppSecurityConfig.caCertificate && !!ocppSecurityConfig.caPrivateKey;
+  }
+
+  private static initialize(): void {
+    if (LocalCertificateAuthority.caCertificate) {
+      return;
+    }
+    if (!LocalCertificateAuthority.isEnabled()) {
+      throw new BackendError({
+        source: Constants.CENTRAL_SERVER,
+        action: ServerAction.SIGN_CERTIFICATE,
+        module: MODULE_NAME, method: 'initialize',
+        message: 'No CA certificate and private key configured in OCPPSecurity, Security Profile 3 is disabled'
+      });
+    }
+    const ocppSecurityConfig = Configuration.getOCPPSecurityConfig();
+    LocalCertificateAuthority.caCertificate = forge.pki.certificateFromPem(ocppSecurityConfig.caCertificate);
+    LocalCertificateAuthority.caPrivateKey = forge.pki.privateKeyFromPem(ocppSecurityConfig.caPrivateKey);
+  }
+
+  private static generateSerialNumber(): string {
+    // Positive serial number
+    const serialNumber = forge.util.bytesToHex(forge.random.getBytesSync(16));
+    return '0' + serialNumber.substring(1);
+  }
+}
@@ -1279,7 +1279,14 @@ export default class Utils {
       // Billing
       case TenantComponents.BILLING:
         if (!currentSettingContent || currentSettingContent.type !== activeComponent.type) {
-          // Only Stripe
+          if (activeComponent.type === BillingSettingsType.LOCAL_BILLING) {
+            // Invoices issued by the server
+            return {
+              'type': BillingSettingsType.LOCAL_BILLING,
+              'localBilling': {}
+            } as SettingDBContent;
+          }
+          // Stripe
           return {
             'type': BillingSettingsType.STRIPE,
             'stripe': {}
@@ -1329,7 +1336,15 @@ export default class Utils {
       // Smart Charging
       case TenantComponents.SMART_CHARGING:
         if (!currentSettingContent || currentSettingContent.type !== activeComponent.type) {
-          // Only SAP sapSmartCharging
+          // Create default settings
+          if (activeComponent.type === SmartChargingContentType.LOCAL_SMART_CHARGING) {
+            // Local Smart Charging
+            return {
+              'type': SmartChargingContentType.LOCAL_SMART_CHARGING,
+              'localSmartCharging': {}
+            } as SettingDBContent;
+          }
+          // SAP Smart Charging
           return {
             'type': SmartChargingContentType.SAP_SMART_CHARGING,
             'sapSmartCharging': {}
@@ -0,0 +1,135 @@
+import ChargingStation, { OcppParameter } from '../../src/types/ChargingStation';
+import chai, { expect } from 'chai';
+
+import ChargingStationStorage from '../../src/storage/mongodb/ChargingStationStorage';
+import Constants from '../../src/utils/Constants';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import { OCPPUpdateStatus } from '../../src/types/ocpp/OCPPClient';
+import OCPPUtils from '../../src/server/ocpp/utils/OCPPUtils';
+import TagStorage from '../../src/storage/mongodb/TagStorage';
+import Tenant from '../../src/types/Tenant';
+import { UserStatus } from '../../src/types/User';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import global from '../../src/types/GlobalType';
+
+chai.use(chaiSubset);
+
+class TestData {
+  public tenant: Tenant;
+  public chargingStation: ChargingStation;
+  public ocppParameters: OcppParameter[];
+  public noOrgTenant: Tenant;
+  public noOrgChargingStation: ChargingStation;
+  public noOrgOcppParameters: OcppParameter[];
+}
+
+const testData = new TestData();
+
+async function saveLocalListConfiguration(tenant: Tenant, chargingStation: ChargingStation, originalParameters: OcppParameter[],
+    localListParameters: Record<string, string>): Promise<void> {
+  await ChargingStationStorage.saveOcppParameters(tenant.id, {
+    id: chargingStation.id,
+    timestamp: new Date(),
+    configuration: [
+      ...originalParameters.filter((ocppParameter) => !Object.keys(localListParameters).includes(ocppParameter.key)),
+      ...Object.keys(localListParameters).map((key) => ({ key, value: localListParameters[key], readonly: false })),
+    ]
+  });
+}
+
+async function saveAcceptedLocalList(tenant: Tenant, chargingStation: ChargingStation, tagIDs: string[]): Promise<void> {
+  chargingStation.localAuthorizationList = {
+    listVersion: 3,
+    tagIDs,
+    status: OCPPUpdateStatus.ACCEPTED,
+    lastUpdatedOn: new Date()
+  };
+  await ChargingStationStorage.saveChargingStationLocalAuthorizationList(tenant.id, chargingStation.id, chargingStation.localAuthorizationList);
+}
+
+async function restoreChargingStation(tenant: Tenant, chargingStation: ChargingStation, ocppParameters: OcppParameter[]): Promise<void> {
+  await ChargingStationStorage.saveOcppParameters(tenant.id, { id: chargingStation.id, timestamp: new Date(), configuration: ocppParameters });
+  await ChargingStationStorage.saveChargingStationLocalAuthorizationList(tenant.id, chargingStation.id, {
+    listVersion: 0, tagIDs: [], status: null, lastUpdatedOn: null
+  });
+}
+
+async function getSiteTagIDs(): Promise<string[]> {
+  const tags = await TagStorage.getTags(testData.tenant.id, {
+    issuer: true, active: true, withUser: true, siteIDs: [testData.chargingStation.siteID]
+  }, Constants.DB_PARAMS_MAX_LIMIT);
+  return tags.result.filter((tag) => tag.user?.status === UserStatus.ACTIVE).map((tag) => tag.id).sort();
+}
+
+describe('Local Authorization Lists', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    // Charging Station assigned to a Site
+    const tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_ORGANIZATION);
+    testData.tenant = tenantContext.getTenant();
+    const chargingStationContext = tenantContext.getSiteContext(ContextDefinition.SITE_CONTEXTS.SITE_BASIC)
+      .getSiteAreaContext(ContextDefinition.SITE_AREA_CONTEXTS.WITH_ACL)
+      .getChargingStationContext(ContextDefinition.CHARGING_STATION_CONTEXTS.ASSIGNED_OCPP16);
+    testData.chargingStation = await ChargingStationStorage.getChargingStation(testData.tenant.id, chargingStationContext.getChargingStation().id);
+    testData.ocppParameters = (await ChargingStationStorage.getOcppParameters(testData.tenant.id, testData.chargingStation.id)).result;
+    // Charging Station of a Tenant without Organization
+    const noOrgTenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+    testData.noOrgTenant = noOrgTenantContext.getTenant();
+    testData.noOrgChargingStation = await ChargingStationStorage.getChargingStation(testData.noOrgTenant.id,
+      noOrgTenantContext.getChargingStationContext(ContextDefinition.CHARGING_STATION_CONTEXTS.UNASSIGNED_OCPP16).getChargingStation().id);
+    testData.noOrgOcppParameters = (await ChargingStationStorage.getOcppParameters(testData.noOrgTenant.id, testData.noOrgChargingStation.id)).result;
+  });
+
+  after(async () => {
+    await restoreChargingStation(testData.tenant, testData.chargingStation, testData.ocppParameters);
+    await restoreChargingStation(testData.noOrgTenant, testData.noOrgChargingStation, testData.noOrgOcppParameters);
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  it('Should not synchronize the list when it is disabled in the Charging Station', async () => {
+    await saveLocalListConfiguration(testData.tenant, testData.chargingStation, testData.ocppParameters, { LocalAuthListEnabled: 'false' });
+    let synchronizeError: Error;
+    try {
+      await OCPPUtils.synchronizeChargingStationLocalAuthorizationList(testData.tenant, testData.chargingStation);
+    } catch (error) {
+      synchronizeError = error;
+    }
+    expect(synchronizeError.message).to.contain('Local Authorization List is not enabled');
+  });
+
+  it('Should not send the list again when the Tags of the Site did not change', async () => {
+    await saveLocalListConfiguration(testData.tenant, testData.chargingStation, testData.ocppParameters, { LocalAuthListEnabled: 'true' });
+    const tagIDs = await getSiteTagIDs();
+    expect(tagIDs).to.not.be.empty;
+    await saveAcceptedLocalList(testData.tenant, testData.chargingStation, tagIDs);
+    expect(await OCPPUtils.synchronizeChargingStationLocalAuthorizationList(testData.tenant, testData.chargingStation)).to.be.null;
+    const chargingStation = await ChargingStationStorage.getChargingStation(testData.tenant.id, testData.chargingStation.id);
+    expect(chargingStation.localAuthorizationList).to.containSubset({
+      listVersion: 3,
+      tagIDs,
+      status: OCPPUpdateStatus.ACCEPTED
+    });
+  });
+
+  it('Should truncate the list to the maximum length of the Charging Station', async () => {
+    await saveLocalListConfiguration(testData.tenant, testData.chargingStation, testData.ocppParameters, {
+      LocalAuthListEnabled: 'true', LocalAuthListMaxLength: '1'
+    });
+    const tagIDs = await getSiteTagIDs();
+    await saveAcceptedLocalList(testData.tenant, testData.chargingStation, tagIDs.slice(0, 1));
+    expect(await OCPPUtils.synchronizeChargingStationLocalAuthorizationList(testData.tenant, testData.chargingStation)).to.be.null;
+  });
+
+  it('Should build an empty list when the Organization is not active', async () => {
+    await saveLocalListConfiguration(testData.noOrgTenant, testData.noOrgChargingStation, testData.noOrgOcppParameters, { LocalAuthListEnabled: 'true' });
+    await saveAcceptedLocalList(testData.noOrgTenant, testData.noOrgChargingStation, []);
+    expect(await OCPPUtils.synchronizeChargingStationLocalAuthorizationList(testData.noOrgTenant, testData.noOrgChargingStation)).to.be.null;
+  });
+});
@@ -0,0 +1,705 @@
+import { BillingAccount, BillingDataTransactionStop, BillingInvoiceStatus, BillingStatus, BillingSubscription, BillingSubscriptionPlan, BillingSubscriptionStatus, BillingWalletOperationType } from '../../src/types/Billing';
+import { BillingSetting, BillingSettings, BillingSettingsType } from '../../src/types/Setting';
+import Transaction, { TransactionStop } from '../../src/types/Transaction';
+import chai, { expect } from 'chai';
+
+import BillingStorage from '../../src/storage/mongodb/BillingStorage';
+import ChargingStation from '../../src/types/ChargingStation';
+import Constants from '../../src/utils/Constants';
+import Consumption from '../../src/types/Consumption';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import Factory from '../factories/Factory';
+import LocalBillingIntegration from '../../src/integration/billing/local/LocalBillingIntegration';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import PricingEngine from '../../src/integration/pricing/PricingEngine';
+import SimplePricingIntegration from '../../src/integration/pricing/simple-pricing/SimplePricingIntegration';
+import Tenant from '../../src/types/Tenant';
+import TenantComponents from '../../src/types/TenantComponents';
+import TransactionStorage from '../../src/storage/mongodb/TransactionStorage';
+import User from '../../src/types/User';
+import UserStorage from '../../src/storage/mongodb/UserStorage';
+import Utils from '../../src/utils/Utils';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import global from '../../src/types/GlobalType';
+import moment from 'moment';
+import zlib from 'zlib';
+
+chai.use(chaiSubset);
+
+class TestData {
+  public tenant: Tenant;
+  public billingImpl: LocalBillingIntegration;
+  public user: User;
+  public createdUserIDs: string[] = [];
+  public createdTransactionIDs: number[] = [];
+}
+
+const testData = new TestData();
+
+function buildBillingSettings(billingSetting?: Partial<BillingSetting>): BillingSettings {
+  return {
+    identifier: TenantComponents.BILLING,
+    type: BillingSettingsType.LOCAL_BILLING,
+    billing: {
+      isTransactionBillingActivated: true,
+      immediateBillingAllowed: true,
+      periodicBillingAllowed: false,
+      taxID: null,
+      isWalletActivated: true,
+      walletMinimumBalance: 5,
+      ...billingSetting
+    },
+    localBilling: {
+      companyName: 'UT Billing',
+      invoiceNumberPrefix: 'UT-',
+      taxes: [],
+    },
+  };
+}
+
+async function createUser(): Promise<User> {
+  const user = { ...Factory.user.build(), issuer: true } as User;
+  user.id = await UserStorage.saveUser(testData.tenant.id, user);
+  testData.createdUserIDs.push(user.id);
+  // Customer of the invoices
+  await testData.billingImpl.synchronizeUser(user);
+  return UserStorage.getUser(testData.tenant.id, user.id);
+}
+
+async function createTransaction(user: User, currentCumulatedPrice: number, roundedPrice: number = null, withWallet = true): Promise<Transaction> {
+  const transaction = {
+    issuer: true,
+    chargeBoxID: 'ut-local-billing',
+    chargeBox: { id: 'ut-local-billing' } as ChargingStation,
+    connectorId: 1,
+    tagID: 'ut-local-billing',
+    userID: user.id,
+    user,
+    meterStart: 0,
+    timestamp: moment().subtract(1, 'hour').toDate(),
+    timezone: 'Europe/Paris',
+    currentCumulatedPrice,
+  } as Transaction;
+  if (roundedPrice !== null) {
+    transaction.stop = {
+      timestamp: new Date(),
+      meterStop: 10000,
+      totalConsumptionWh: 10000,
+      price: roundedPrice,
+      roundedPrice,
+      priceUnit: 'EUR',
+    } as TransactionStop;
+  }
+  transaction.id = await TransactionStorage.saveTransaction(testData.tenant.id, transaction);
+  testData.createdTransactionIDs.push(transaction.id);
+  transaction.billingData = { withBillingActive: true, withWallet };
+  await TransactionStorage.saveTransactionBillingData(testData.tenant.id, transaction.id, transaction.billingData);
+  return transaction;
+}
+
+async function saveBillingDataStop(transaction: Transaction, billingDataTransactionStop: BillingDataTransactionStop): Promise<void> {
+  transaction.billingData.stop = billingDataTransactionStop;
+  await TransactionStorage.saveTransactionBillingData(testData.tenant.id, transaction.id, transaction.billingData);
+}
+
+async function creditTransactionWithError(transaction: Transaction, amount: number): Promise<Error> {
+  try {
+    await testData.billingImpl.creditTransaction(transaction, amount, 'Credit');
+  } catch (error) {
+    return error;
+  }
+}
+
+function getInvoiceSequence(invoiceNumber: string): number {
+  return Number(invoiceNumber.replace('UT-', ''));
+}
+
+function extractInvoiceDocumentText(invoiceDocument: Buffer): string {
+  // Text of the compressed content streams, without the kerning of the characters
+  const lines: string[] = [];
+  for (const stream of invoiceDocument.toString('latin1').matchAll(/stream\r?\n([\s\S]*?)\r?\nendstream/g)) {
+    const content = zlib.inflateSync(Buffer.from(stream[1], 'latin1')).toString('latin1');
+    for (const textArray of content.matchAll(/\[(.*?)\] TJ/g)) {
+      lines.push([...textArray[1].matchAll(/<([0-9a-f]*)>/g)].map((hexText) => Buffer.from(hexText[1], 'hex').toString('latin1')).join(''));
+    }
+  }
+  return lines.join('\n');
+}
+
+describe('Local Billing', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    const tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_BILLING);
+    testData.tenant = tenantContext.getTenant();
+    testData.billingImpl = new LocalBillingIntegration(testData.tenant, buildBillingSettings());
+  });
+
+  after(async () => {
+    await TransactionStorage.deleteTransactions(testData.tenant.id, testData.createdTransactionIDs);
+    for (const userID of testData.createdUserIDs) {
+      await UserStorage.deleteUser(testData.tenant.id, userID);
+    }
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Prepaid wallet', () => {
+    before(async () => {
+      testData.user = await createUser();
+    });
+
+    it('Should not use the wallets when they are not activated', async () => {
+      const billingImpl = new LocalBillingIntegration(testData.tenant, buildBillingSettings({ isWalletActivated: false }));
+      expect(await billingImpl.getWallet(testData.user)).to.be.null;
+      let topUpError: Error;
+      try {
+        await billingImpl.topUpWallet(testData.user, 20, 'EUR', 'Top-up');
+      } catch (error) {
+        topUpError = error;
+      }
+      expect(topUpError).to.not.be.undefined;
+      expect(topUpError.message).to.contain('Prepaid wallets are not activated');
+    });
+
+    it('Should top up the wallet', async () => {
+      const walletOperation = await testData.billingImpl.topUpWallet(testData.user, 20, 'eur', 'Top-up');
+      expect(walletOperation).to.containSubset({
+        userID: testData.user.id,
+        type: BillingWalletOperationType.TOP_UP,
+        amount: 20,
+        currency: 'EUR',
+        balance: 20,
+      });
+      expect(walletOperation.id).to.not.be.undefined;
+      const wallet = await testData.billingImpl.getWallet(testData.user);
+      expect(wallet).to.containSubset({ balance: 20, currency: 'EUR' });
+    });
+
+    it('Should top up the wallet only once per payment', async () => {
+      const walletOperation = await testData.billingImpl.topUpWallet(testData.user, 10, 'EUR', 'Top-up', null, 'ut-payment-1');
+      expect(walletOperation.balance).to.eql(30);
+      // Payment notified twice
+      const notifiedWalletOperation = await testData.billingImpl.topUpWallet(testData.user, 10, 'EUR', 'Top-up', null, 'ut-payment-1');
+      expect(notifiedWalletOperation.id).to.eql(walletOperation.id);
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(30);
+    });
+
+    it('Should not top up the wallet with an invalid amount', async () => {
+      let topUpError: Error;
+      try {
+        await testData.billingImpl.topUpWallet(testData.user, 0, 'EUR', 'Top-up');
+      } catch (error) {
+        topUpError = error;
+      }
+      expect(topUpError).to.not.be.undefined;
+      expect(topUpError.message).to.contain('Invalid top-up amount');
+    });
+
+    it('Should not mix the currencies in the wallet', async () => {
+      let topUpError: Error;
+      try {
+        await testData.billingImpl.topUpWallet(testData.user, 10, 'USD', 'Top-up');
+      } catch (error) {
+        topUpError = error;
+      }
+      expect(topUpError).to.not.be.undefined;
+      expect(topUpError.message).to.contain('does not match the operation currency');
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(30);
+    });
+
+    it('Should start a session paid with the wallet', async () => {
+      const transaction = await createTransaction(testData.user, 0);
+      const billingDataTransactionStart = await testData.billingImpl.startTransaction(transaction);
+      expect(billingDataTransactionStart).to.eql({ withBillingActive: true, withWallet: true });
+    });
+
+    it('Should detect the exhausted balance with the other ongoing sessions', async () => {
+      await createTransaction(testData.user, 20);
+      const transaction = await createTransaction(testData.user, 5);
+      let billingDataTransactionUpdate = await testData.billingImpl.updateTransaction(transaction);
+      expect(billingDataTransactionUpdate.walletBalanceExhausted).to.be.false;
+      // 20 + 10 spent out of 30
+      transaction.currentCumulatedPrice = 10;
+      billingDataTransactionUpdate = await testData.billingImpl.updateTransaction(transaction);
+      expect(billingDataTransactionUpdate.walletBalanceExhausted).to.be.true;
+      // The ongoing sessions are not needed anymore
+      await TransactionStorage.deleteTransactions(testData.tenant.id, testData.createdTransactionIDs);
+    });
+
+    it('Should charge the wallet only once at the end of the session', async () => {
+      const transaction = await createTransaction(testData.user, 12.5, 12.5);
+      const billingDataTransactionStop = await testData.billingImpl.stopTransaction(transaction);
+      expect(billingDataTransactionStop.status).to.eql(BillingStatus.BILLED);
+      expect(billingDataTransactionStop.walletOperationID).to.not.be.undefined;
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(17.5);
+      // Stopped twice
+      const secondBillingDataTransactionStop = await testData.billingImpl.stopTransaction(transaction);
+      expect(secondBillingDataTransactionStop.walletOperationID).to.eql(billingDataTransactionStop.walletOperationID);
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(17.5);
+    });
+
+    it('Should not start a session below the minimum balance', async () => {
+      const transaction = await createTransaction(testData.user, 15, 15);
+      await testData.billingImpl.stopTransaction(transaction);
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(2.5);
+      let startError: Error;
+      try {
+        await testData.billingImpl.startTransaction(await createTransaction(testData.user, 0));
+      } catch (error) {
+        startError = error;
+      }
+      expect(startError).to.not.be.undefined;
+      expect(startError.message).to.contain('Wallet balance is below the minimum');
+    });
+
+    it('Should record the concurrent notifications of a payment only once', async () => {
+      const walletOperations = await Promise.all([
+        testData.billingImpl.topUpWallet(testData.user, 10, 'EUR', 'Top-up', null, 'ut-payment-2'),
+        testData.billingImpl.topUpWallet(testData.user, 10, 'EUR', 'Top-up', null, 'ut-payment-2'),
+      ]);
+      expect(walletOperations[0].id).to.eql(walletOperations[1].id);
+      const recordedWalletOperations = await BillingStorage.getWalletOperations(testData.tenant,
+        { externalID: 'ut-payment-2' }, Constants.DB_PARAMS_MAX_LIMIT);
+      expect(recordedWalletOperations.count).to.eql(1);
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(12.5);
+    });
+
+    it('Should charge the wallet only once when the session is stopped concurrently', async () => {
+      const transaction = await createTransaction(testData.user, 4, 4);
+      const billingDataTransactionStops = await Promise.all([
+        testData.billingImpl.stopTransaction(transaction),
+        testData.billingImpl.stopTransaction(transaction),
+      ]);
+      expect(billingDataTransactionStops[0].walletOperationID).to.eql(billingDataTransactionStops[1].walletOperationID);
+      const walletOperations = await BillingStorage.getWalletOperations(testData.tenant,
+        { transactionIDs: [transaction.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      expect(walletOperations.count).to.eql(1);
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(8.5);
+    });
+  });
+
+  describe('Credit notes', () => {
+    let invoicedTransaction: Transaction;
+
+    before(async () => {
+      testData.user = await createUser();
+    });
+
+    it('Should not credit a session which has not been billed', async () => {
+      const transaction = await createTransaction(testData.user, 10, 10, false);
+      const creditError = await creditTransactionWithError(transaction, 5);
+      expect(creditError).to.not.be.undefined;
+      expect(creditError.message).to.contain('The session has not been billed');
+    });
+
+    it('Should credit a part of an invoiced session', async () => {
+      invoicedTransaction = await createTransaction(testData.user, 10, 10, false);
+      const billingDataTransactionStop = await testData.billingImpl.billTransaction(invoicedTransaction);
+      expect(billingDataTransactionStop.status).to.eql(BillingStatus.BILLED);
+      expect(billingDataTransactionStop.invoiceStatus).to.eql(BillingInvoiceStatus.OPEN);
+      await saveBillingDataStop(invoicedTransaction, billingDataTransactionStop);
+      const creditNote = await testData.billingImpl.creditTransaction(invoicedTransaction, 4, 'Faulty charging station');
+      expect(creditNote).to.containSubset({
+        invoiceID: billingDataTransactionStop.invoiceID,
+        userID: testData.user.id,
+        transactionID: invoicedTransaction.id,
+        amount: 400,
+        sessionAmount: 4,
+        currency: 'EUR',
+        reason: 'Faulty charging station',
+      });
+      expect(creditNote.number).to.match(/^CN-UT-\d{6}$/);
+      expect(invoicedTransaction.billingData.creditNotes).to.have.lengthOf(1);
+      // Deducted from the amount due
+      const billingInvoice = await BillingStorage.getInvoice(testData.tenant, billingDataTransactionStop.invoiceID);
+      expect(billingInvoice.amount).to.eql(1000);
+      expect(billingInvoice.creditedAmount).to.eql(400);
+    });
+
+    it('Should not credit more than the remaining amount of the session', async () => {
+      const creditError = await creditTransactionWithError(invoicedTransaction, 7);
+      expect(creditError).to.not.be.undefined;
+      expect(creditError.message).to.contain('Invalid credit note amount');
+    });
+
+    it('Should not charge the credited amount when the invoice is paid', async () => {
+      let billingInvoice = await BillingStorage.getInvoice(testData.tenant, invoicedTransaction.billingData.stop.invoiceID);
+      billingInvoice = await testData.billingImpl.markInvoiceAsPaid(billingInvoice);
+      expect(billingInvoice.status).to.eql(BillingInvoiceStatus.PAID);
+      expect(billingInvoice.amountPaid).to.eql(600);
+    });
+
+    it('Should credit the remaining amount of a paid session', async () => {
+      const creditNote = await testData.billingImpl.creditTransaction(invoicedTransaction, null, 'Goodwill');
+      expect(creditNote.sessionAmount).to.eql(6);
+      expect(creditNote.amount).to.eql(600);
+      expect(invoicedTransaction.billingData.creditNotes).to.have.lengthOf(2);
+      // Nothing left
+      const creditError = await creditTransactionWithError(invoicedTransaction, null);
+      expect(creditError).to.not.be.undefined;
+      expect(creditError.message).to.contain('Invalid credit note amount');
+    });
+
+    it('Should refund a session paid with the wallet', async () => {
+      await testData.billingImpl.topUpWallet(testData.user, 20, 'EUR', 'Top-up');
+      const transaction = await createTransaction(testData.user, 8, 8);
+      await saveBillingDataStop(transaction, await testData.billingImpl.stopTransaction(transaction));
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(12);
+      const creditNote = await testData.billingImpl.creditTransaction(transaction, 3, 'Faulty charging station');
+      expect(creditNote.invoiceID).to.be.undefined;
+      expect(creditNote).to.containSubset({ amount: 300, sessionAmount: 3, currency: 'EUR' });
+      expect((await testData.billingImpl.getWallet(testData.user)).balance).to.eql(15);
+      const walletOperations = await BillingStorage.getWalletOperations(testData.tenant,
+        { transactionIDs: [transaction.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      expect(walletOperations.result.map((walletOperation) => walletOperation.type)).to.have.members(
+        [BillingWalletOperationType.CHARGE, BillingWalletOperationType.REFUND]);
+    });
+  });
+
+  describe('Billing accounts', () => {
+    let billingAccount: BillingAccount;
+    let drivers: User[];
+    let consolidatedInvoiceID: string;
+
+    before(async () => {
+      billingAccount = {
+        name: 'UT Billing Account',
+        email: 'ut-billing-account@sap.com',
+        costCenter: 'UT-001',
+        createdOn: new Date(),
+      } as BillingAccount;
+      billingAccount.id = await BillingStorage.saveBillingAccount(testData.tenant, billingAccount);
+      drivers = [await createUser(), await createUser()];
+      await UserStorage.saveUsersBillingAccount(testData.tenant.id, drivers.map((driver) => driver.id), billingAccount.id);
+      drivers = await Promise.all(drivers.map(async (driver) => UserStorage.getUser(testData.tenant.id, driver.id)));
+    });
+
+    after(async () => {
+      await BillingStorage.deleteBillingAccount(testData.tenant, billingAccount.id);
+    });
+
+    it('Should not use the wallets of the drivers', async () => {
+      expect(drivers[0].billingAccountID.toString()).to.eql(billingAccount.id);
+      expect(await testData.billingImpl.getWallet(drivers[0])).to.be.null;
+      const transaction = await createTransaction(drivers[0], 0, null, false);
+      const billingDataTransactionStart = await testData.billingImpl.startTransaction(transaction);
+      expect(billingDataTransactionStart).to.eql({ withBillingActive: true, withWallet: false });
+    });
+
+    it('Should consolidate the sessions of the drivers in a single invoice', async () => {
+      const firstBillingDataTransactionStop = await testData.billingImpl.billTransaction(
+        await createTransaction(drivers[0], 10, 10, false));
+      expect(firstBillingDataTransactionStop.status).to.eql(BillingStatus.BILLED);
+      // Not issued before the end of the month
+      expect(firstBillingDataTransactionStop.invoiceStatus).to.eql(BillingInvoiceStatus.DRAFT);
+      const secondBillingDataTransactionStop = await testData.billingImpl.billTransaction(
+        await createTransaction(drivers[1], 5, 5, false));
+      expect(secondBillingDataTransactionStop.invoiceID).to.eql(firstBillingDataTransactionStop.invoiceID);
+      consolidatedInvoiceID = firstBillingDataTransactionStop.invoiceID;
+      const billingInvoice = await BillingStorage.getInvoice(testData.tenant, consolidatedInvoiceID);
+      expect(billingInvoice.billingAccountID.toString()).to.eql(billingAccount.id);
+      expect(billingInvoice.userID).to.be.not.ok;
+      expect(billingInvoice.amount).to.eql(1500);
+      expect(billingInvoice.status).to.eql(BillingInvoiceStatus.DRAFT);
+    });
+
+    it('Should issue the consolidated invoice', async () => {
+      let billingInvoice = await BillingStorage.getInvoice(testData.tenant, consolidatedInvoiceID);
+      billingInvoice = await testData.billingImpl.chargeInvoice(billingInvoice);
+      expect(billingInvoice.status).to.eql(BillingInvoiceStatus.OPEN);
+      expect(billingInvoice.number).to.match(/^UT-\d{6}$/);
+      // The next sessions go to a new invoice
+      const billingDataTransactionStop = await testData.billingImpl.billTransaction(
+        await createTransaction(drivers[0], 7, 7, false));
+      expect(billingDataTransactionStop.invoiceID).to.not.eql(consolidatedInvoiceID);
+    });
+
+    it('Should not bill the sessions of an unknown billing account', async () => {
+      const driver = await createUser();
+      await UserStorage.saveUsersBillingAccount(testData.tenant.id, [driver.id], '5ce249a2372f0b1c8caf9294');
+      const transaction = await createTransaction(
+        await UserStorage.getUser(testData.tenant.id, driver.id), 10, 10, false);
+      const billingDataTransactionStop = await testData.billingImpl.billTransaction(transaction);
+      expect(billingDataTransactionStop.status).to.eql(BillingStatus.FAILED);
+    });
+  });
+
+  describe('Invoices', () => {
+    // Sessions are added to a monthly draft invoice
+    let periodicBillingImpl: LocalBillingIntegration;
+    let issuedInvoiceID: string;
+    let issuedTransaction: Transaction;
+
+    before(async () => {
+      testData.user = await createUser();
+      periodicBillingImpl = new LocalBillingIntegration(testData.tenant, buildBillingSettings({ immediateBillingAllowed: false }));
+    });
+
+    it('Should number the issued invoices sequentially', async () => {
+      const firstBillingDataTransactionStop = await testData.billingImpl.billTransaction(
+        await createTransaction(testData.user, 10, 10, false));
+      const secondBillingDataTransactionStop = await testData.billingImpl.billTransaction(
+        await createTransaction(testData.user, 5, 5, false));
+      expect(firstBillingDataTransactionStop.invoiceStatus).to.eql(BillingInvoiceStatus.OPEN);
+      expect(secondBillingDataTransactionStop.invoiceStatus).to.eql(BillingInvoiceStatus.OPEN);
+      expect(firstBillingDataTransactionStop.invoiceNumber).to.match(/^UT-\d{6}$/);
+      expect(getInvoiceSequence(secondBillingDataTransactionStop.invoiceNumber)).to.eql(
+        getInvoiceSequence(firstBillingDataTransactionStop.invoiceNumber) + 1);
+    });
+
+    it('Should issue a draft invoice only once', async () => {
+      issuedTransaction = await createTransaction(testData.user, 8, 8, false);
+      const billingDataTransactionStop = await periodicBillingImpl.billTransaction(issuedTransaction);
+      expect(billingDataTransactionStop.invoiceStatus).to.eql(BillingInvoiceStatus.DRAFT);
+      await saveBillingDataStop(issuedTransaction, billingDataTransactionStop);
+      issuedInvoiceID = billingDataTransactionStop.invoiceID;
+      const draftInvoice = await BillingStorage.getInvoice(testData.tenant, issuedInvoiceID);
+      // The next number is consumed by the test
+      const nextSequence = await BillingStorage.getNextInvoiceSequence(testData.tenant) + 1;
+      // Issued concurrently
+      await Promise.all([
+        periodicBillingImpl.chargeInvoice({ ...draftInvoice }),
+        periodicBillingImpl.chargeInvoice({ ...draftInvoice }),
+      ]);
+      const billingInvoice = await BillingStorage.getInvoice(testData.tenant, issuedInvoiceID);
+      expect(billingInvoice).to.containSubset({ status: BillingInvoiceStatus.OPEN, amount: 800 });
+      expect(getInvoiceSequence(billingInvoice.number)).to.eql(nextSequence);
+      expect(await BillingStorage.getNextInvoiceSequence(testData.tenant)).to.eql(nextSequence + 1);
+    });
+
+    it('Should not update the amount of an issued invoice', async () => {
+      expect(await BillingStorage.updateDraftInvoiceAmount(testData.tenant, issuedInvoiceID, 100000)).to.be.false;
+      const billingInvoice = await BillingStorage.getInvoice(testData.tenant, issuedInvoiceID);
+      expect(billingInvoice).to.containSubset({ status: BillingInvoiceStatus.OPEN, amount: 800 });
+    });
+
+    it('Should not generate the document of a draft invoice', async () => {
+      const billingDataTransactionStop = await periodicBillingImpl.billTransaction(
+        await createTransaction(testData.user, 3, 3, false));
+      expect(billingDataTransactionStop.invoiceID).to.not.eql(issuedInvoiceID);
+      const draftInvoice = await BillingStorage.getInvoice(testData.tenant, billingDataTransactionStop.invoiceID);
+      expect(await periodicBillingImpl.downloadInvoiceDocument(draftInvoice)).to.be.null;
+    });
+
+    it('Should generate the document of an issued invoice', async () => {
+      const billingInvoice = await BillingStorage.getInvoice(testData.tenant, issuedInvoiceID);
+      const invoiceDocument = await periodicBillingImpl.downloadInvoiceDocument(billingInvoice);
+      expect(invoiceDocument.toString('latin1', 0, 5)).to.eql('%PDF-');
+      const invoiceDocumentText = extractInvoiceDocumentText(invoiceDocument);
+      expect(invoiceDocumentText).to.contain(billingInvoice.number);
+      expect(invoiceDocumentText).to.contain('UT Billing');
+      expect(invoiceDocumentText).to.contain('8.00');
+    });
+
+    it('Should mark an issued invoice as paid', async () => {
+      const issuedInvoice = await BillingStorage.getInvoice(testData.tenant, issuedInvoiceID);
+      const billingInvoice = await periodicBillingImpl.markInvoiceAsPaid({ ...issuedInvoice });
+      expect(billingInvoice).to.containSubset({ status: BillingInvoiceStatus.PAID, amountPaid: 800 });
+      expect(billingInvoice.number).to.eql(issuedInvoice.number);
+      const transaction = await TransactionStorage.getTransaction(testData.tenant.id, issuedTransaction.id);
+      expect(transaction.billingData.stop.invoiceStatus).to.eql(BillingInvoiceStatus.PAID);
+      // Already paid
+      let paymentError: Error;
+      try {
+        await periodicBillingImpl.markInvoiceAsPaid(issuedInvoice);
+      } catch (error) {
+        paymentError = error;
+      }
+      expect(paymentError.message).to.contain('Invoice cannot be marked as paid');
+    });
+
+    it('Should issue a draft invoice before marking it as paid', async () => {
+      const draftInvoice = (await BillingStorage.getInvoices(testData.tenant, {
+        userIDs: [testData.user.id], invoiceStatus: [BillingInvoiceStatus.DRAFT]
+      }, Constants.DB_PARAMS_SINGLE_RECORD)).result[0];
+      const billingInvoice = await periodicBillingImpl.markInvoiceAsPaid(draftInvoice);
+      expect(billingInvoice).to.containSubset({ status: BillingInvoiceStatus.PAID, amountPaid: 300 });
+      expect(billingInvoice.number).to.match(/^UT-\d{6}$/);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    let subscriptionPlan: BillingSubscriptionPlan;
+    let subscription: BillingSubscription;
+
+    before(async () => {
+      subscriptionPlan = {
+        name: 'UT Plan',
+        active: true,
+        currency: 'EUR',
+        fee: 9.9,
+        includedEnergyKWh: 10,
+        createdOn: new Date(),
+      } as BillingSubscriptionPlan;
+      subscriptionPlan.id = await BillingStorage.saveSubscriptionPlan(testData.tenant, subscriptionPlan);
+      testData.user = await createUser();
+      subscription = {
+        userID: testData.user.id,
+        planID: subscriptionPlan.id,
+        status: BillingSubscriptionStatus.ACTIVE,
+        startDate: moment().subtract(1, 'hour').toDate(),
+        periodEnergyWh: 0,
+        createdOn: new Date(),
+      } as BillingSubscription;
+      subscription.id = await BillingStorage.saveSubscription(testData.tenant, subscription);
+    });
+
+    after(async () => {
+      // Subscriptions are never deleted
+      subscription = await BillingStorage.getSubscription(testData.tenant, subscription.id);
+      subscription.status = BillingSubscriptionStatus.ENDED;
+      await BillingStorage.saveSubscription(testData.tenant, subscription);
+      await BillingStorage.deleteSubscriptionPlan(testData.tenant, subscriptionPlan.id);
+    });
+
+    it('Should charge the fee of the first period', async () => {
+      await testData.billingImpl.chargeSubscriptions();
+      subscription = await BillingStorage.getSubscription(testData.tenant, subscription.id);
+      expect(subscription.periodStart).to.eql(subscription.startDate);
+      expect(subscription.periodEnd).to.eql(moment(subscription.startDate).add(1, 'month').toDate());
+      const billingInvoices = await BillingStorage.getInvoices(testData.tenant, { userIDs: [testData.user.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      expect(billingInvoices.result).to.have.lengthOf(1);
+      expect(billingInvoices.result[0].amount).to.eql(990);
+      expect(billingInvoices.result[0].status).to.eql(BillingInvoiceStatus.OPEN);
+    });
+
+    it('Should not charge the fee twice for the same period', async () => {
+      await testData.billingImpl.chargeSubscriptions();
+      const billingInvoices = await BillingStorage.getInvoices(testData.tenant, { userIDs: [testData.user.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      expect(billingInvoices.result).to.have.lengthOf(1);
+    });
+
+    it('Should reserve the included energy of the period', async () => {
+      const timestamp = new Date();
+      expect(await BillingStorage.reserveSubscriptionPeriodEnergy(testData.tenant, subscription.id, timestamp, 6000, 10000)).to.eql(6000);
+      // Capped by the included energy
+      expect(await BillingStorage.reserveSubscriptionPeriodEnergy(testData.tenant, subscription.id, timestamp, 6000, 10000)).to.eql(4000);
+      expect(await BillingStorage.reserveSubscriptionPeriodEnergy(testData.tenant, subscription.id, timestamp, 6000, 10000)).to.eql(0);
+      subscription = await BillingStorage.getSubscription(testData.tenant, subscription.id);
+      expect(subscription.periodEnergyWh).to.eql(10000);
+    });
+
+    it('Should carry over the energy reserved before the fee of the next period is charged', async () => {
+      const nextPeriodStart = subscription.periodEnd;
+      const nextPeriodEnd = moment(nextPeriodStart).add(1, 'month').toDate();
+      // Session ended after the period, the fee has not been charged yet
+      const timestamp = moment(nextPeriodStart).add(1, 'day').toDate();
+      expect(await BillingStorage.reserveSubscriptionPeriodEnergy(testData.tenant, subscription.id, timestamp, 3000, 10000)).to.eql(3000);
+      subscription = await BillingStorage.getSubscription(testData.tenant, subscription.id);
+      expect(subscription.periodEnergyWh).to.eql(10000);
+      expect(subscription.nextPeriodEnergyWh).to.eql(3000);
+      await BillingStorage.startSubscriptionPeriod(testData.tenant, subscription.id, nextPeriodStart, nextPeriodEnd);
+      subscription = await BillingStorage.getSubscription(testData.tenant, subscription.id);
+      expect(subscription.periodEnergyWh).to.eql(3000);
+      expect(subscription.nextPeriodEnergyWh).to.eql(0);
+      expect(await BillingStorage.reserveSubscriptionPeriodEnergy(testData.tenant, subscription.id, timestamp, 10000, 10000)).to.eql(7000);
+    });
+
+    describe('Pricing of the included energy', () => {
+      let pricedSubscription: BillingSubscription;
+      let pricingImpl: SimplePricingIntegration;
+
+      function buildMemberTransaction(): Transaction {
+        return {
+          id: Utils.getRandomIntSafe(),
+          timestamp: new Date(),
+          timezone: 'UTC',
+          userID: testData.user.id,
+          pricingModel: {
+            id: 'ut-member',
+            description: 'UT member rates',
+            currency: 'EUR',
+            timestamp: new Date(),
+            pricings: [],
+            subscription: { subscriptionID: pricedSubscription.id, planName: subscriptionPlan.name, includedEnergyWh: 10000 },
+          },
+          pricingData: PricingEngine.initPricingData(),
+        } as Transaction;
+      }
+
+      function buildConsumption(transaction: Transaction, consumptionWh: number, cumulatedConsumptionWh: number): Consumption {
+        return {
+          transactionId: transaction.id,
+          startedAt: moment().subtract(1, 'minute').toDate(),
+          endedAt: new Date(),
+          consumptionWh,
+          cumulatedConsumptionWh,
+          instantWatts: consumptionWh * 60,
+        } as Consumption;
+      }
+
+      before(async () => {
+        pricedSubscription = {
+          userID: testData.user.id,
+          planID: subscriptionPlan.id,
+          status: BillingSubscriptionStatus.ACTIVE,
+          startDate: moment().subtract(1, 'day').toDate(),
+          periodStart: moment().subtract(1, 'day').toDate(),
+          periodEnd: moment().add(1, 'month').toDate(),
+          periodEnergyWh: 0,
+          createdOn: new Date(),
+        } as BillingSubscription;
+        pricedSubscription.id = await BillingStorage.saveSubscription(testData.tenant, pricedSubscription);
+        pricingImpl = new SimplePricingIntegration(testData.tenant, { price: 0.3, currency: 'EUR' });
+      });
+
+      after(async () => {
+        pricedSubscription = await BillingStorage.getSubscription(testData.tenant, pricedSubscription.id);
+        pricedSubscription.status = BillingSubscriptionStatus.ENDED;
+        await BillingStorage.saveSubscription(testData.tenant, pricedSubscription);
+      });
+
+      it('Should reserve the included energy only once for the same consumption', async () => {
+        const transaction = buildMemberTransaction();
+        await pricingImpl.updateSession(transaction, buildConsumption(transaction, 2000, 2000));
+        expect(transaction.pricingData.includedEnergyWh).to.eql(2000);
+        expect(transaction.pricingData.reservedConsumptionWh).to.eql(2000);
+        // Priced again, e.g. by the stop of the transaction
+        await pricingImpl.stopSession(transaction, buildConsumption(transaction, 2000, 2000));
+        expect(transaction.pricingData.reservedConsumptionWh).to.eql(2000);
+        expect((await BillingStorage.getSubscription(testData.tenant, pricedSubscription.id)).periodEnergyWh).to.eql(2000);
+        // Next consumption
+        await pricingImpl.updateSession(transaction, buildConsumption(transaction, 1500, 3500));
+        expect(transaction.pricingData.reservedConsumptionWh).to.eql(3500);
+        expect((await BillingStorage.getSubscription(testData.tenant, pricedSubscription.id)).periodEnergyWh).to.eql(3500);
+      });
+
+      it('Should not reserve the included energy with the read-only pricing', async () => {
+        const transaction = buildMemberTransaction();
+        const readOnlyPricingImpl = pricingImpl.getReadOnlyPricing();
+        await readOnlyPricingImpl.updateSession(transaction, buildConsumption(transaction, 4000, 4000));
+        await readOnlyPricingImpl.updateSession(transaction, buildConsumption(transaction, 4000, 8000));
+        // Only the remaining 6500 Wh are covered
+        expect(transaction.pricingData.includedEnergyWh).to.eql(6500);
+        expect(transaction.pricingData.reservedConsumptionWh).to.not.be.ok;
+        expect((await BillingStorage.getSubscription(testData.tenant, pricedSubscription.id)).periodEnergyWh).to.eql(3500);
+      });
+    });
+
+    it('Should end a cancelled subscription instead of renewing it', async () => {
+      const user = await createUser();
+      const periodEnd = moment().subtract(1, 'day').toDate();
+      const cancelledSubscription = {
+        userID: user.id,
+        planID: subscriptionPlan.id,
+        status: BillingSubscriptionStatus.ACTIVE,
+        startDate: moment(periodEnd).subtract(1, 'month').toDate(),
+        periodStart: moment(periodEnd).subtract(1, 'month').toDate(),
+        periodEnd,
+        endDate: periodEnd,
+        periodEnergyWh: 0,
+        createdOn: new Date(),
+      } as BillingSubscription;
+      cancelledSubscription.id = await BillingStorage.saveSubscription(testData.tenant, cancelledSubscription);
+      await testData.billingImpl.chargeSubscriptions();
+      expect((await BillingStorage.getSubscription(testData.tenant, cancelledSubscription.id)).status).to.eql(BillingSubscriptionStatus.ENDED);
+      const billingInvoices = await BillingStorage.getInvoices(testData.tenant, { userIDs: [user.id] }, Constants.DB_PARAMS_MAX_LIMIT);
+      expect(billingInvoices.result).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,677 @@
+import Asset, { AssetBatteryMode, AssetBatteryPlan, AssetType } from '../../src/types/Asset';
+import { ChargingPlan, SimulatedConnector, SmartChargingLimitViolationType, SmartChargingPriority, SmartChargingSimulation, SolarChargingMode } from '../../src/types/SmartCharging';
+import { ChargingScheduleOptimization, LocalSmartChargingSetting } from '../../src/types/Setting';
+import chai, { expect } from 'chai';
+
+import AssetStorage from '../../src/storage/mongodb/AssetStorage';
+import { CSPhasesUsed } from '../../src/types/Transaction';
+import ChargingStation from '../../src/types/ChargingStation';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import EnergyPrice from '../../src/types/EnergyPrice';
+import EnergyPriceStorage from '../../src/storage/mongodb/EnergyPriceStorage';
+import LocalSmartChargingIntegration from '../../src/integration/smart-charging/local-smart-charging/LocalSmartChargingIntegration';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import { OCPPPhase } from '../../src/types/ocpp/OCPPServer';
+import SiteArea from '../../src/types/SiteArea';
+import SiteAreaStorage from '../../src/storage/mongodb/SiteAreaStorage';
+import Tenant from '../../src/types/Tenant';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import global from '../../src/types/GlobalType';
+import moment from 'moment';
+
+chai.use(chaiSubset);
+
+// 32 A per phase on the three phases at 230 V
+const SITE_AREA_MAXIMUM_POWER = 22080;
+
+// Single phased car
+const PHASE_1_USED: CSPhasesUsed = { csPhase1: true, csPhase2: false, csPhase3: false };
+
+class TestData {
+  public tenant: Tenant;
+  public siteArea: SiteArea;
+  public chargingStation: ChargingStation;
+  public parentSiteArea: SiteArea;
+  public solarAsset: Asset;
+  public batteryAssets: Asset[] = [];
+  public setting: LocalSmartChargingSetting = {
+    safetyMarginPercent: 0,
+    solarHysteresisAmps: 0,
+    chargingScheduleOptimization: ChargingScheduleOptimization.NONE,
+  };
+}
+
+const testData = new TestData();
+
+async function saveSiteAreaMaximumPower(maximumPower: number): Promise<void> {
+  // The Site Areas of the tree are read from the database
+  testData.siteArea.maximumPower = maximumPower;
+  await SiteAreaStorage.saveSiteArea(testData.tenant.id, testData.siteArea);
+}
+
+async function saveSolarProductionWatts(productionWatts: number): Promise<void> {
+  testData.solarAsset.staticValueWatt = productionWatts;
+  testData.solarAsset.id = await AssetStorage.saveAsset(testData.tenant, testData.solarAsset, false);
+}
+
+async function simulate(simulatedConnectors: Partial<SimulatedConnector>[],
+    setting?: Partial<LocalSmartChargingSetting>): Promise<SmartChargingSimulation> {
+  const smartChargingIntegration = new LocalSmartChargingIntegration(testData.tenant, { ...testData.setting, ...setting });
+  return smartChargingIntegration.simulateChargingProfiles(testData.siteArea, simulatedConnectors.map((simulatedConnector) => ({
+    chargingStationID: testData.chargingStation.id,
+    connectorID: 1,
+    ...simulatedConnector,
+  })));
+}
+
+function getChargingPlan(smartChargingSimulation: SmartChargingSimulation, connectorID: number): ChargingPlan {
+  return smartChargingSimulation.chargingPlans.find((chargingPlan) => chargingPlan.connectorID === connectorID);
+}
+
+async function saveBatteryAsset(currentStateOfCharge: number, maxDischargeWatts = 5000): Promise<Asset> {
+  // Battery of 10 kWh kept between 20% and 90%, idle when measured
+  const batteryAsset = {
+    name: 'Battery',
+    siteAreaID: testData.siteArea.id,
+    assetType: AssetType.CONSUMPTION_AND_PRODUCTION,
+    staticValueWatt: 0,
+    dynamicAsset: false,
+    issuer: true,
+    coordinates: [],
+    currentStateOfCharge,
+    battery: {
+      capacityWh: 10000,
+      maxChargeWatts: 5000,
+      maxDischargeWatts,
+      minStateOfChargePercent: 20,
+      maxStateOfChargePercent: 90,
+    },
+  } as Asset;
+  batteryAsset.id = await AssetStorage.saveAsset(testData.tenant, batteryAsset, false);
+  testData.batteryAssets.push(batteryAsset);
+  return batteryAsset;
+}
+
+function getBatteryPlan(smartChargingSimulation: SmartChargingSimulation, assetID: string): AssetBatteryPlan {
+  return smartChargingSimulation.batteryPlans.find((batteryPlan) => batteryPlan.assetID === assetID);
+}
+
+function getLimitAmps(smartChargingSimulation: SmartChargingSimulation, connectorID: number): number {
+  return getChargingPlan(smartChargingSimulation, connectorID).limitAmps;
+}
+
+describe('Local Smart Charging', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    const tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_SMART_CHARGING);
+    testData.tenant = tenantContext.getTenant();
+    const siteAreaContext = tenantContext.getSiteContext(ContextDefinition.SITE_CONTEXTS.SITE_BASIC)
+      .getSiteAreaContext(ContextDefinition.SITE_AREA_CONTEXTS.WITH_SMART_CHARGING_THREE_PHASED);
+    testData.siteArea = siteAreaContext.getSiteArea();
+    testData.siteArea.smartCharging = true;
+    // Three phased Charging Station with two connectors of 32 A per phase
+    testData.chargingStation = siteAreaContext.getChargingStationContext(ContextDefinition.CHARGING_STATION_CONTEXTS.ASSIGNED_OCPP16).getChargingStation();
+  });
+
+  after(async () => {
+    await saveSiteAreaMaximumPower(100000);
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Power sharing', () => {
+    afterEach(async () => {
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should give its maximum to a single car', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }]);
+      expect(smartChargingSimulation.chargingProfiles).to.have.lengthOf(1);
+      expect(smartChargingSimulation.chargingProfiles[0]).to.containSubset({
+        chargingStationID: testData.chargingStation.id,
+        connectorID: 1,
+        profile: {
+          chargingProfilePurpose: 'TxProfile',
+          stackLevel: 2,
+          chargingSchedule: {
+            chargingRateUnit: 'A',
+            chargingSchedulePeriod: [{ startPeriod: 0, limit: 96 }]
+          }
+        }
+      });
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(96);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should share the power of the Site Area evenly', async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(48);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(48);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should keep the safety margin of the Site Area', async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }], { safetyMarginPercent: 25 });
+      // 24 A per phase left
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(72);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should suspend the cars once the minimum per phase cannot be given', async () => {
+      // 10 A per phase
+      await saveSiteAreaMaximumPower(6900);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      const chargingPlans = smartChargingSimulation.chargingPlans;
+      expect(chargingPlans.map((chargingPlan) => chargingPlan.limitAmps).sort()).to.eql([0, 30]);
+      expect(chargingPlans.find((chargingPlan) => chargingPlan.limitAmps === 0).suspended).to.be.true;
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+  });
+
+  describe('Priorities and departure times', () => {
+    before(async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+    });
+
+    after(async () => {
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should give the power left to the highest priority first', async () => {
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1, smartChargingPriority: SmartChargingPriority.LOW },
+        { connectorID: 2, smartChargingPriority: SmartChargingPriority.HIGH },
+      ]);
+      // Both get the minimum of 6 A per phase, the rest goes to the highest priority
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(18);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(78);
+      expect(getChargingPlan(smartChargingSimulation, 2).priority).to.eql(SmartChargingPriority.HIGH);
+    });
+
+    it('Should suspend the lowest priority first', async () => {
+      // 10 A per phase
+      await saveSiteAreaMaximumPower(6900);
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1, smartChargingPriority: SmartChargingPriority.HIGH },
+        { connectorID: 2, smartChargingPriority: SmartChargingPriority.LOW },
+      ]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(30);
+      expect(getChargingPlan(smartChargingSimulation, 2).suspended).to.be.true;
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+    });
+
+    it('Should give the power needed to reach the target energy by the departure time', async () => {
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1 },
+        // 10 kW needed: 14.5 A per phase
+        { connectorID: 2, departureTime: moment().add(2, 'hours').toDate(), targetEnergyWh: 25000, consumedEnergyWh: 5000 },
+      ]);
+      // The rest is shared evenly
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(33);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(60);
+      expect(getChargingPlan(smartChargingSimulation, 1).requiredAmps).to.be.undefined;
+      expect(getChargingPlan(smartChargingSimulation, 2)).to.containSubset({
+        requiredAmps: 44,
+        targetEnergyWh: 25000,
+        consumedEnergyWh: 5000,
+        targetReachable: true,
+      });
+    });
+
+    it('Should report the target energy as not reachable', async () => {
+      // 30 kW needed in one hour
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1, departureTime: moment().add(1, 'hour').toDate(), targetEnergyWh: 30000 },
+      ]);
+      // All the power of the Site Area
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(96);
+      expect(getChargingPlan(smartChargingSimulation, 1).targetReachable).to.be.false;
+      expect(getChargingPlan(smartChargingSimulation, 1).estimatedEnergyAtDepartureWh).to.be.below(30000);
+    });
+  });
+
+  describe('Site Area tree', () => {
+    before(async () => {
+      // Main feeder of the Site Area
+      testData.parentSiteArea = {
+        name: 'ut-site-main-feeder',
+        siteID: testData.siteArea.siteID,
+        issuer: true,
+        smartCharging: true,
+        maximumPower: SITE_AREA_MAXIMUM_POWER,
+        voltage: testData.siteArea.voltage,
+        numberOfPhases: 3,
+      } as SiteArea;
+      testData.parentSiteArea.id = await SiteAreaStorage.saveSiteArea(testData.tenant.id, testData.parentSiteArea);
+      testData.siteArea.parentSiteAreaID = testData.parentSiteArea.id;
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    after(async () => {
+      testData.siteArea.parentSiteAreaID = null;
+      await saveSiteAreaMaximumPower(100000);
+      await SiteAreaStorage.deleteSiteArea(testData.tenant.id, testData.parentSiteArea.id);
+    });
+
+    it('Should share the power of the parent Site Area', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(48);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(48);
+      expect(smartChargingSimulation.siteAreaPhaseTotals).to.containSubset([
+        { siteAreaID: testData.parentSiteArea.id, phase: OCPPPhase.L1, limitAmps: 32, maximumAmps: 32 },
+        { siteAreaID: testData.siteArea.id, phase: OCPPPhase.L1, limitAmps: 32, maximumAmps: 144.92 },
+      ]);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should keep the limit of the Site Area below the one of its parent', async () => {
+      // 20 A per phase
+      await saveSiteAreaMaximumPower(13800);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(30);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(30);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should give the same profiles from the parent Site Area', async () => {
+      const smartChargingIntegration = new LocalSmartChargingIntegration(testData.tenant, testData.setting);
+      const smartChargingSimulation = await smartChargingIntegration.simulateChargingProfiles(testData.parentSiteArea, [
+        { chargingStationID: testData.chargingStation.id, connectorID: 1 },
+        { chargingStationID: testData.chargingStation.id, connectorID: 2 },
+      ]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(48);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(48);
+    });
+
+    it('Should not have more phases than its parent Site Area', async () => {
+      testData.parentSiteArea.numberOfPhases = 1;
+      await SiteAreaStorage.saveSiteArea(testData.tenant.id, testData.parentSiteArea);
+      let simulationError: Error;
+      try {
+        await simulate([{ connectorID: 1 }]);
+      } catch (error) {
+        simulationError = error;
+      }
+      testData.parentSiteArea.numberOfPhases = 3;
+      await SiteAreaStorage.saveSiteArea(testData.tenant.id, testData.parentSiteArea);
+      expect(simulationError).to.not.be.undefined;
+      expect(simulationError.message).to.contain('has more phases than its parent Site Area');
+    });
+  });
+
+  describe('Solar charging', () => {
+    before(async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      // Photovoltaic panels of the Site Area
+      testData.solarAsset = {
+        name: 'Solar panels',
+        siteAreaID: testData.siteArea.id,
+        assetType: AssetType.PRODUCTION,
+        dynamicAsset: false,
+        issuer: true,
+        coordinates: [],
+      } as Asset;
+    });
+
+    after(async () => {
+      await AssetStorage.deleteAsset(testData.tenant, testData.solarAsset.id);
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should charge with the solar surplus only', async () => {
+      // 16 A per phase
+      await saveSolarProductionWatts(11040);
+      const smartChargingSimulation = await simulate([{ connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_ONLY }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(48);
+      expect(getChargingPlan(smartChargingSimulation, 1).solarChargingMode).to.eql(SolarChargingMode.SOLAR_ONLY);
+    });
+
+    it('Should share the solar surplus between the solar sessions', async () => {
+      await saveSolarProductionWatts(11040);
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_ONLY },
+        { connectorID: 2, solarChargingMode: SolarChargingMode.SOLAR_ONLY },
+      ]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(24);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(24);
+    });
+
+    it('Should wait for enough solar surplus', async () => {
+      // 4 A per phase
+      await saveSolarProductionWatts(2760);
+      const smartChargingSimulation = await simulate([{ connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_ONLY }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(0);
+      expect(getChargingPlan(smartChargingSimulation, 1).suspended).to.be.true;
+    });
+
+    it('Should charge at the minimum without enough solar surplus', async () => {
+      await saveSolarProductionWatts(2760);
+      const smartChargingSimulation = await simulate([{ connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_AND_MINIMUM }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(18);
+    });
+
+    it('Should only resume with the hysteresis on top of the minimum', async () => {
+      // 10 A per phase
+      await saveSolarProductionWatts(6900);
+      let smartChargingSimulation = await simulate([{ connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_ONLY }], { solarHysteresisAmps: 5 });
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(0);
+      smartChargingSimulation = await simulate([{ connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_ONLY }], { solarHysteresisAmps: 3 });
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(30);
+    });
+
+    it('Should use the solar charging mode of the Site Area unless the session has one', async () => {
+      await saveSolarProductionWatts(2760);
+      testData.siteArea.solarChargingMode = SolarChargingMode.SOLAR_ONLY;
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1 },
+        { connectorID: 2, solarChargingMode: SolarChargingMode.NONE },
+      ]);
+      testData.siteArea.solarChargingMode = null;
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      expect(getChargingPlan(smartChargingSimulation, 1)).to.containSubset({ solarChargingMode: SolarChargingMode.SOLAR_ONLY, limitAmps: 0 });
+      // The production adds to the power of the Site Area
+      expect(getChargingPlan(smartChargingSimulation, 2)).to.containSubset({ solarChargingMode: SolarChargingMode.NONE, limitAmps: 96 });
+    });
+  });
+
+  describe('Charging schedules', () => {
+    const pricesStartDate = moment().startOf('hour');
+    const cheapPriceStartDate = pricesStartDate.clone().add(3, 'hours');
+    const departureTime = pricesStartDate.clone().add(4, 'hours');
+
+    before(async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      // The cheapest hour is the one with the most CO2
+      await EnergyPriceStorage.saveEnergyPrices(testData.tenant.id, [
+        { startDate: pricesStartDate.toDate(), endDate: cheapPriceStartDate.toDate(), pricePerKWh: 0.40, co2GramsPerKWh: 300 },
+        { startDate: cheapPriceStartDate.toDate(), endDate: departureTime.toDate(), pricePerKWh: 0.10, co2GramsPerKWh: 500 },
+      ] as EnergyPrice[]);
+    });
+
+    after(async () => {
+      await EnergyPriceStorage.deleteEnergyPrices(testData.tenant.id, pricesStartDate.toDate(), departureTime.toDate());
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should charge as soon as possible without optimization', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1, departureTime: departureTime.toDate(), targetEnergyWh: 11040 }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(96);
+      expect(getChargingPlan(smartChargingSimulation, 1).schedule).to.be.undefined;
+      expect(getChargingPlan(smartChargingSimulation, 1).estimatedCost).to.be.undefined;
+    });
+
+    it('Should shift the charge into the cheapest hour', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1, departureTime: departureTime.toDate(), targetEnergyWh: 11040 }],
+        { chargingScheduleOptimization: ChargingScheduleOptimization.COST });
+      const chargingPlan = getChargingPlan(smartChargingSimulation, 1);
+      // Half an hour at 96 A once the price drops
+      expect(chargingPlan.limitAmps).to.eql(0);
+      expect(chargingPlan.schedule.map((period) => ({ startDate: period.startDate.getTime(), limitAmps: period.limitAmps }))).to.eql([
+        { startDate: smartChargingSimulation.computedOn.getTime(), limitAmps: 0 },
+        { startDate: cheapPriceStartDate.valueOf(), limitAmps: 96 },
+        { startDate: cheapPriceStartDate.clone().add(30, 'minutes').valueOf(), limitAmps: 0 },
+        { startDate: departureTime.valueOf(), limitAmps: 96 },
+      ]);
+      expect(chargingPlan.estimatedEnergyAtDepartureWh).to.eql(11040);
+      expect(chargingPlan.estimatedCost).to.be.closeTo(1.1, 0.01);
+      expect(chargingPlan.estimatedCo2Grams).to.eql(5520);
+      expect(chargingPlan.targetReachable).to.be.true;
+      // The profile follows the schedule
+      expect(smartChargingSimulation.chargingProfiles[0].profile.chargingSchedule.chargingSchedulePeriod.map((period) => period.limit)).to.eql([0, 96, 0, 96]);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should shift the charge into the hour with the least CO2', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1, departureTime: departureTime.toDate(), targetEnergyWh: 11040 }],
+        { chargingScheduleOptimization: ChargingScheduleOptimization.CO2 });
+      const chargingPlan = getChargingPlan(smartChargingSimulation, 1);
+      expect(chargingPlan.limitAmps).to.eql(96);
+      expect(chargingPlan.schedule.map((period) => period.limitAmps)).to.eql([96, 0, 96]);
+      expect(chargingPlan.estimatedCost).to.be.closeTo(4.41, 0.01);
+      expect(chargingPlan.estimatedCo2Grams).to.eql(3312);
+    });
+  });
+
+  describe('Simulation', () => {
+    before(async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+    });
+
+    after(async () => {
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should report the load on each phase of the Site Area', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }]);
+      expect(smartChargingSimulation.siteAreaID).to.eql(testData.siteArea.id);
+      expect(smartChargingSimulation.siteAreaPhaseTotals).to.have.lengthOf(3);
+      expect(smartChargingSimulation.siteAreaPhaseTotals).to.containSubset([
+        { siteAreaID: testData.siteArea.id, siteAreaName: testData.siteArea.name, phase: OCPPPhase.L1, limitAmps: 32, maximumAmps: 32 },
+        { siteAreaID: testData.siteArea.id, siteAreaName: testData.siteArea.name, phase: OCPPPhase.L2, limitAmps: 32, maximumAmps: 32 },
+        { siteAreaID: testData.siteArea.id, siteAreaName: testData.siteArea.name, phase: OCPPPhase.L3, limitAmps: 32, maximumAmps: 32 },
+      ]);
+      // Hypothetical sessions never match a real Transaction
+      expect(smartChargingSimulation.chargingProfiles[0].profile.transactionId).to.be.below(0);
+      expect(getChargingPlan(smartChargingSimulation, 1).transactionID).to.be.below(0);
+    });
+
+    it('Should not charge without hypothetical sessions', async () => {
+      const smartChargingSimulation = await simulate([]);
+      expect(smartChargingSimulation.chargingProfiles).to.be.empty;
+      expect(smartChargingSimulation.chargingPlans).to.be.empty;
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should report the limits exceeded by the Assets', async () => {
+      // Building consuming more than the Site Area
+      const buildingAsset = {
+        name: 'Building',
+        siteAreaID: testData.siteArea.id,
+        assetType: AssetType.CONSUMPTION,
+        staticValueWatt: 27600,
+        dynamicAsset: false,
+        issuer: true,
+        coordinates: [],
+      } as Asset;
+      buildingAsset.id = await AssetStorage.saveAsset(testData.tenant, buildingAsset, false);
+      try {
+        const smartChargingSimulation = await simulate([{ connectorID: 1 }]);
+        expect(getChargingPlan(smartChargingSimulation, 1).suspended).to.be.true;
+        expect(smartChargingSimulation.limitViolations).to.have.lengthOf(3);
+        expect(smartChargingSimulation.limitViolations).to.containSubset([
+          { type: SmartChargingLimitViolationType.SITE_AREA, siteAreaID: testData.siteArea.id, phase: OCPPPhase.L1, limitAmps: 40, maximumAmps: 32 },
+        ]);
+      } finally {
+        await AssetStorage.deleteAsset(testData.tenant, buildingAsset.id);
+      }
+    });
+
+    it('Should not simulate a connector outside of the Site Area tree', async () => {
+      let simulationError: Error;
+      try {
+        await simulate([{ connectorID: 9 }]);
+      } catch (error) {
+        simulationError = error;
+      }
+      expect(simulationError).to.not.be.undefined;
+      expect(simulationError.message).to.contain('is not part of the Site Area tree');
+    });
+  });
+
+  describe('Phase balancing', () => {
+    before(async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+    });
+
+    after(async () => {
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should only draw the power of a single phased car from its phase', async () => {
+      const smartChargingSimulation = await simulate([{ connectorID: 1, phasesUsed: PHASE_1_USED }]);
+      // Limit is set on all the phases of the Charging Station
+      expect(getChargingPlan(smartChargingSimulation, 1)).to.containSubset({ limitAmps: 96, limitWatts: 7360 });
+      expect(smartChargingSimulation.siteAreaPhaseTotals).to.containSubset([
+        { phase: OCPPPhase.L1, limitAmps: 32 },
+        { phase: OCPPPhase.L2, limitAmps: 0 },
+        { phase: OCPPPhase.L3, limitAmps: 0 },
+      ]);
+    });
+
+    it('Should share the phase used by two single phased cars', async () => {
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1, phasesUsed: PHASE_1_USED },
+        { connectorID: 2, phasesUsed: PHASE_1_USED },
+      ]);
+      expect(getChargingPlan(smartChargingSimulation, 1)).to.containSubset({ limitAmps: 48, limitWatts: 3680 });
+      expect(getChargingPlan(smartChargingSimulation, 2)).to.containSubset({ limitAmps: 48, limitWatts: 3680 });
+      expect(smartChargingSimulation.siteAreaPhaseTotals).to.containSubset([
+        { phase: OCPPPhase.L1, limitAmps: 32 },
+        { phase: OCPPPhase.L2, limitAmps: 0 },
+      ]);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+
+    it('Should balance a single phased car with a three phased one', async () => {
+      const smartChargingSimulation = await simulate([
+        { connectorID: 1, phasesUsed: PHASE_1_USED },
+        { connectorID: 2 },
+      ]);
+      // The first phase is the bottleneck of both
+      expect(getChargingPlan(smartChargingSimulation, 1)).to.containSubset({ limitAmps: 48, limitWatts: 3680 });
+      expect(getChargingPlan(smartChargingSimulation, 2)).to.containSubset({ limitAmps: 48, limitWatts: 11040 });
+      expect(smartChargingSimulation.siteAreaPhaseTotals).to.containSubset([
+        { phase: OCPPPhase.L1, limitAmps: 32 },
+        { phase: OCPPPhase.L2, limitAmps: 16 },
+        { phase: OCPPPhase.L3, limitAmps: 16 },
+      ]);
+      expect(smartChargingSimulation.limitViolations).to.be.empty;
+    });
+  });
+
+  describe('Stationary batteries', () => {
+    before(async () => {
+      await saveSiteAreaMaximumPower(SITE_AREA_MAXIMUM_POWER);
+      testData.solarAsset = {
+        name: 'Solar panels',
+        siteAreaID: testData.siteArea.id,
+        assetType: AssetType.PRODUCTION,
+        dynamicAsset: false,
+        issuer: true,
+        coordinates: [],
+      } as Asset;
+    });
+
+    afterEach(async () => {
+      for (const batteryAsset of testData.batteryAssets) {
+        await AssetStorage.deleteAsset(testData.tenant, batteryAsset.id);
+      }
+      testData.batteryAssets = [];
+      if (testData.solarAsset.id) {
+        await AssetStorage.deleteAsset(testData.tenant, testData.solarAsset.id);
+        testData.solarAsset.id = null;
+      }
+    });
+
+    after(async () => {
+      await saveSiteAreaMaximumPower(100000);
+    });
+
+    it('Should discharge the battery to cover the power the sessions miss', async () => {
+      const batteryAsset = await saveBatteryAsset(50);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      // The battery is not controlled: the sessions keep their share
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(48);
+      expect(getLimitAmps(smartChargingSimulation, 2)).to.eql(48);
+      const batteryPlan = getBatteryPlan(smartChargingSimulation, batteryAsset.id);
+      expect(batteryPlan).to.containSubset({
+        siteAreaID: testData.siteArea.id,
+        mode: AssetBatteryMode.PEAK_SHAVING,
+        stateOfChargePercent: 50,
+        powerWatts: -5000,
+      });
+      // 3 kWh above the minimum state of charge
+      expect(batteryPlan.schedule).to.eql([
+        { startDate: batteryPlan.computedOn, powerWatts: -5000 },
+        { startDate: moment(batteryPlan.computedOn).add(36, 'minutes').toDate(), powerWatts: 0 },
+      ]);
+    });
+
+    it('Should not discharge the batteries beyond the power the sessions miss', async () => {
+      const smallBatteryAsset = await saveBatteryAsset(50);
+      const largeBatteryAsset = await saveBatteryAsset(50, 20000);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      const smallBatteryPlan = getBatteryPlan(smartChargingSimulation, smallBatteryAsset.id);
+      const largeBatteryPlan = getBatteryPlan(smartChargingSimulation, largeBatteryAsset.id);
+      // 16 A per phase missed by each car
+      expect(smallBatteryPlan.powerWatts + largeBatteryPlan.powerWatts).to.eql(-22080);
+      expect(smallBatteryPlan.powerWatts).to.be.within(-5000, 0);
+      expect(largeBatteryPlan.powerWatts).to.be.within(-20000, 0);
+    });
+
+    it('Should keep the battery idle when the sessions get their maximum', async () => {
+      const batteryAsset = await saveBatteryAsset(50);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(96);
+      const batteryPlan = getBatteryPlan(smartChargingSimulation, batteryAsset.id);
+      expect(batteryPlan.mode).to.eql(AssetBatteryMode.IDLE);
+      expect(batteryPlan.powerWatts).to.equal(0);
+      expect(batteryPlan.schedule).to.have.lengthOf(1);
+    });
+
+    it('Should not discharge the battery below its minimum state of charge', async () => {
+      const batteryAsset = await saveBatteryAsset(20);
+      const smartChargingSimulation = await simulate([{ connectorID: 1 }, { connectorID: 2 }]);
+      const batteryPlan = getBatteryPlan(smartChargingSimulation, batteryAsset.id);
+      expect(batteryPlan.mode).to.eql(AssetBatteryMode.IDLE);
+      expect(batteryPlan.powerWatts).to.equal(0);
+      expect(batteryPlan.schedule).to.have.lengthOf(1);
+    });
+
+    it('Should charge the battery with the solar surplus', async () => {
+      const batteryAsset = await saveBatteryAsset(50);
+      await saveSolarProductionWatts(11040);
+      const smartChargingSimulation = await simulate([]);
+      const batteryPlan = getBatteryPlan(smartChargingSimulation, batteryAsset.id);
+      expect(batteryPlan).to.containSubset({
+        mode: AssetBatteryMode.SURPLUS_CHARGING,
+        stateOfChargePercent: 50,
+        powerWatts: 5000,
+      });
+      // 4 kWh below the maximum state of charge
+      expect(batteryPlan.schedule).to.eql([
+        { startDate: batteryPlan.computedOn, powerWatts: 5000 },
+        { startDate: moment(batteryPlan.computedOn).add(48, 'minutes').toDate(), powerWatts: 0 },
+      ]);
+    });
+
+    it('Should leave the solar surplus to the solar sessions first', async () => {
+      const batteryAsset = await saveBatteryAsset(50);
+      await saveSolarProductionWatts(11040);
+      const smartChargingSimulation = await simulate([{ connectorID: 1, solarChargingMode: SolarChargingMode.SOLAR_ONLY }]);
+      expect(getLimitAmps(smartChargingSimulation, 1)).to.eql(48);
+      const batteryPlan = getBatteryPlan(smartChargingSimulation, batteryAsset.id);
+      expect(batteryPlan.mode).to.eql(AssetBatteryMode.IDLE);
+      expect(batteryPlan.powerWatts).to.equal(0);
+    });
+
+    it('Should not charge the battery above its maximum state of charge', async () => {
+      const batteryAsset = await saveBatteryAsset(90);
+      await saveSolarProductionWatts(11040);
+      const smartChargingSimulation = await simulate([]);
+      const batteryPlan = getBatteryPlan(smartChargingSimulation, batteryAsset.id);
+      expect(batteryPlan.mode).to.eql(AssetBatteryMode.IDLE);
+      expect(batteryPlan.powerWatts).to.equal(0);
+      expect(batteryPlan.schedule).to.have.lengthOf(1);
+    });
+  });
+});
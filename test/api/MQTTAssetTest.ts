@@ -0,0 +1,129 @@
+import Asset, { AssetType } from '../../src/types/Asset';
+import { AssetConnectionSetting, AssetConnectionType } from '../../src/types/Setting';
+import chai, { expect } from 'chai';
+import mqtt, { MqttClient } from 'mqtt';
+
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import MQTTAssetIntegration from '../../src/integration/asset/mqtt/MQTTAssetIntegration';
+import Tenant from '../../src/types/Tenant';
+import chaiSubset from 'chai-subset';
+
+chai.use(chaiSubset);
+
+// Mosquitto broker of docker/docker-compose-local-env.yml
+const MQTT_BROKER_URL = 'mqtt://localhost:1883';
+const MQTT_TOPIC = 'e-mobility/test/asset-meter';
+
+class TestData {
+  public tenant: Tenant;
+  public connection: AssetConnectionSetting;
+  public mqttIntegration: MQTTAssetIntegration;
+  public subscriberClient: MqttClient;
+  public publisherClient: MqttClient;
+  public receivedMessages: { topic: string; payload: Buffer }[] = [];
+}
+
+const testData = new TestData();
+
+async function publishAndWaitForMessage(payload: Record<string, unknown>): Promise<{ topic: string; payload: Buffer }> {
+  const messageCount = testData.receivedMessages.length;
+  await new Promise<void>((resolve, reject) => {
+    testData.publisherClient.publish(MQTT_TOPIC, JSON.stringify(payload), { qos: 1 }, (error) => (error ? reject(error) : resolve()));
+  });
+  // Delivered asynchronously by the broker
+  for (let i = 0; i < 50 && testData.receivedMessages.length === messageCount; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  expect(testData.receivedMessages).to.have.lengthOf(messageCount + 1);
+  return testData.receivedMessages[messageCount];
+}
+
+describe('MQTT Asset', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    await ContextProvider.defaultInstance.prepareContexts();
+    const tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_ASSET);
+    testData.tenant = tenantContext.getTenant();
+    testData.connection = {
+      id: 'mqtt',
+      name: 'MQTT',
+      description: 'Local Mosquitto broker',
+      url: MQTT_BROKER_URL,
+      timestamp: new Date(),
+      type: AssetConnectionType.MQTT,
+      mqttConnection: {
+        payloadPaths: {
+          instantWatts: 'power.total',
+          consumptionWh: 'energy',
+          timestamp: 'time',
+        }
+      }
+    };
+    testData.mqttIntegration = new MQTTAssetIntegration(testData.tenant, { connections: [testData.connection] }, testData.connection);
+    testData.publisherClient = mqtt.connect(MQTT_BROKER_URL);
+    await new Promise((resolve) => testData.publisherClient.once('connect', resolve));
+  });
+
+  after(async () => {
+    testData.publisherClient.end(true);
+    if (testData.subscriberClient) {
+      testData.mqttIntegration.close(testData.subscriberClient);
+    }
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  it('Should connect to the broker', async () => {
+    await testData.mqttIntegration.checkConnection();
+  });
+
+  it('Should not connect to an unknown broker', async () => {
+    const connection = { ...testData.connection, url: 'mqtt://localhost:1884' };
+    const mqttIntegration = new MQTTAssetIntegration(testData.tenant, { connections: [connection] }, connection);
+    let connectionError: Error;
+    try {
+      await mqttIntegration.checkConnection();
+    } catch (error) {
+      connectionError = error;
+    }
+    expect(connectionError).to.not.be.undefined;
+    expect(connectionError.message).to.contain('Cannot connect to the MQTT broker');
+  });
+
+  it('Should receive the consumptions published on the topic of the Asset', async () => {
+    testData.subscriberClient = await testData.mqttIntegration.connect(60,
+      (topic: string, payload: Buffer) => testData.receivedMessages.push({ topic, payload }), () => null);
+    await testData.mqttIntegration.subscribe(testData.subscriberClient, [MQTT_TOPIC]);
+    const asset = {
+      name: 'MQTT asset',
+      assetType: AssetType.CONSUMPTION,
+      meterID: MQTT_TOPIC,
+    } as Asset;
+    // First message only stores the meter index
+    let message = await publishAndWaitForMessage({ power: { total: 1500 }, energy: 10000, time: '2021-09-01T10:00:00Z' });
+    expect(message.topic).to.eql(MQTT_TOPIC);
+    let consumption = testData.mqttIntegration.buildConsumption(asset, message.payload);
+    expect(consumption.currentInstantWatts).to.eql(1500);
+    expect(consumption.currentConsumptionWh).to.be.undefined;
+    expect(consumption.lastConsumption.value).to.eql(10000);
+    expect(consumption.lastConsumption.timestamp).to.eql(new Date('2021-09-01T10:00:00Z'));
+    // Second message
+    asset.lastConsumption = consumption.lastConsumption;
+    message = await publishAndWaitForMessage({ power: { total: 1800 }, energy: 10250, time: '2021-09-01T10:10:00Z' });
+    consumption = testData.mqttIntegration.buildConsumption(asset, message.payload);
+    expect(consumption.currentInstantWatts).to.eql(1800);
+    expect(consumption.currentConsumptionWh).to.eql(250);
+    expect(consumption.lastConsumption.value).to.eql(10250);
+  });
+
+  it('Should not receive the consumptions once unsubscribed', async () => {
+    await testData.mqttIntegration.unsubscribe(testData.subscriberClient, [MQTT_TOPIC]);
+    const messageCount = testData.receivedMessages.length;
+    await new Promise<void>((resolve, reject) => {
+      testData.publisherClient.publish(MQTT_TOPIC, JSON.stringify({ power: { total: 2000 } }), { qos: 1 }, (error) => (error ? reject(error) : resolve()));
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    expect(testData.receivedMessages).to.have.lengthOf(messageCount);
+  });
+});
@@ -0,0 +1,131 @@
+import Asset, { AssetType } from '../../src/types/Asset';
+import { AssetConnectionSetting, AssetConnectionType, AssetModbusDataType, AssetModbusRegisterType } from '../../src/types/Setting';
+import chai, { expect } from 'chai';
+
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import ModbusAssetIntegration from '../../src/integration/asset/modbus/ModbusAssetIntegration';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import { ServerTCP } from 'modbus-serial';
+import Tenant from '../../src/types/Tenant';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import global from '../../src/types/GlobalType';
+
+chai.use(chaiSubset);
+
+const MODBUS_SERVER_PORT = 5020;
+const UNIT_ID = 1;
+
+// Registers of the simulated meter
+const INSTANT_WATTS_ADDRESS = 0;
+const IMPORTED_ENERGY_ADDRESS = 10;
+const EXPORTED_ENERGY_ADDRESS = 12;
+
+class TestData {
+  public tenant: Tenant;
+  public modbusServer: ServerTCP;
+  public holdingRegisters = new Map<number, number>();
+  public connection: AssetConnectionSetting;
+}
+
+const testData = new TestData();
+
+function setMeterValues(instantWatts: number, importedEnergyWh: number, exportedEnergyWh: number): void {
+  testData.holdingRegisters.set(INSTANT_WATTS_ADDRESS, instantWatts & 0xFFFF);
+  // 32 bits values are big endian, high word first
+  testData.holdingRegisters.set(IMPORTED_ENERGY_ADDRESS, Math.floor(importedEnergyWh / 0x10000));
+  testData.holdingRegisters.set(IMPORTED_ENERGY_ADDRESS + 1, importedEnergyWh % 0x10000);
+  testData.holdingRegisters.set(EXPORTED_ENERGY_ADDRESS, Math.floor(exportedEnergyWh / 0x10000));
+  testData.holdingRegisters.set(EXPORTED_ENERGY_ADDRESS + 1, exportedEnergyWh % 0x10000);
+}
+
+function buildAsset(assetType: AssetType): Asset {
+  return {
+    id: '5ce249a2372f0b1c8caf9294',
+    name: `Modbus asset ${assetType}`,
+    assetType,
+    meterID: `${UNIT_ID}`,
+  } as Asset;
+}
+
+describe('Modbus Asset', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    // Start MongoDB for the logs
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    const tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_ASSET);
+    testData.tenant = tenantContext.getTenant();
+    // Start the simulated Modbus device
+    testData.modbusServer = new ServerTCP({
+      getHoldingRegister: (address: number) => testData.holdingRegisters.get(address) ?? 0,
+    }, { host: '127.0.0.1', port: MODBUS_SERVER_PORT, unitID: UNIT_ID });
+    await new Promise((resolve) => testData.modbusServer.on('initialized', resolve));
+    testData.connection = {
+      id: 'modbus',
+      name: 'Modbus',
+      description: 'Simulated Modbus meter',
+      url: `tcp://127.0.0.1:${MODBUS_SERVER_PORT}`,
+      timestamp: new Date(),
+      type: AssetConnectionType.MODBUS,
+      modbusConnection: {
+        unitID: UNIT_ID,
+        registers: {
+          instantWatts: { address: INSTANT_WATTS_ADDRESS, registerType: AssetModbusRegisterType.HOLDING, dataType: AssetModbusDataType.INT16 },
+          importedEnergyWh: { address: IMPORTED_ENERGY_ADDRESS, registerType: AssetModbusRegisterType.HOLDING, dataType: AssetModbusDataType.UINT32 },
+          exportedEnergyWh: { address: EXPORTED_ENERGY_ADDRESS, registerType: AssetModbusRegisterType.HOLDING, dataType: AssetModbusDataType.UINT32 },
+        }
+      }
+    };
+  });
+
+  after(async () => {
+    await new Promise((resolve) => testData.modbusServer.close(resolve));
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Consuming asset', () => {
+    it('Should compute the consumption from the imported energy', async () => {
+      const modbusIntegration = new ModbusAssetIntegration(testData.tenant, { connections: [testData.connection] }, testData.connection);
+      const asset = buildAsset(AssetType.CONSUMPTION);
+      // First poll only stores the meter index
+      setMeterValues(2000, 100000, 20000);
+      let consumptions = await modbusIntegration.retrieveConsumptions(asset, true);
+      expect(consumptions).to.have.lengthOf(1);
+      expect(consumptions[0].lastConsumption.value).to.eql(80000);
+      expect(consumptions[0].currentConsumptionWh).to.be.undefined;
+      expect(consumptions[0].currentInstantWatts).to.eql(2000);
+      // Second poll
+      asset.lastConsumption = consumptions[0].lastConsumption;
+      setMeterValues(2500, 100500, 20000);
+      consumptions = await modbusIntegration.retrieveConsumptions(asset, true);
+      expect(consumptions[0].lastConsumption.value).to.eql(80500);
+      expect(consumptions[0].currentConsumptionWh).to.eql(500);
+      expect(consumptions[0].currentInstantWatts).to.eql(2500);
+    });
+  });
+
+  describe('Producing asset', () => {
+    it('Should compute the production from the exported energy', async () => {
+      const modbusIntegration = new ModbusAssetIntegration(testData.tenant, { connections: [testData.connection] }, testData.connection);
+      const asset = buildAsset(AssetType.PRODUCTION);
+      // First poll only stores the meter index
+      setMeterValues(3000, 1000, 50000);
+      let consumptions = await modbusIntegration.retrieveConsumptions(asset, true);
+      expect(consumptions).to.have.lengthOf(1);
+      expect(consumptions[0].lastConsumption.value).to.eql(-49000);
+      expect(consumptions[0].currentConsumptionWh).to.be.undefined;
+      expect(consumptions[0].currentInstantWatts).to.eql(-3000);
+      // Second poll
+      asset.lastConsumption = consumptions[0].lastConsumption;
+      setMeterValues(3200, 1000, 50800);
+      consumptions = await modbusIntegration.retrieveConsumptions(asset, true);
+      expect(consumptions[0].lastConsumption.value).to.eql(-49800);
+      expect(consumptions[0].currentConsumptionWh).to.eql(800);
+      expect(consumptions[0].currentInstantWatts).to.eql(-3200);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { OCPP20BootReason, OCPP20ChargingState, OCPP20ConnectorStatus, OCPP20IdTokenType, OCPP20StoppedReason, OCPP20TransactionEventType, OCPP20TriggerReason } from '../../src/types/ocpp/OCPP20Server';
+import { OCPPAuthorizationStatus, OCPPMeasurand, OCPPReadingContext, OCPPVersion, RegistrationStatus } from '../../src/types/ocpp/OCPPServer';
+import chai, { expect } from 'chai';
+
+import CentralServerService from './client/CentralServerService';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import Factory from '../factories/Factory';
+import OCPPJsonService20 from './ocpp/json/OCPPJsonService20';
+import { StatusCodes } from 'http-status-codes';
+import TenantContext from './context/TenantContext';
+import User from '../../src/types/User';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import faker from 'faker';
+import moment from 'moment';
+
+chai.use(chaiSubset);
+
+class TestData {
+  public tenantContext: TenantContext;
+  public centralAdminService: CentralServerService;
+  public ocpp20: OCPPJsonService20;
+  public chargingStationID: string;
+  public ocppTransactionID: string;
+  public transactionID: number;
+  public user: User;
+  public tagID: string;
+}
+
+const testData = new TestData();
+
+function buildEnergyMeterValue(energyWh: number, context: OCPPReadingContext, timestamp: Date) {
+  return [{
+    timestamp: timestamp.toISOString(),
+    sampledValue: [{
+      value: energyWh,
+      context,
+      measurand: OCPPMeasurand.ENERGY_ACTIVE_IMPORT_REGISTER,
+      unitOfMeasure: { unit: 'Wh' }
+    }]
+  }];
+}
+
+async function readConnector(connectorID: number) {
+  const chargingStationResponse = await testData.centralAdminService.chargingStationApi.readById(testData.chargingStationID);
+  expect(chargingStationResponse.status).to.equal(StatusCodes.OK);
+  return chargingStationResponse.data.connectors.find((connector) => connector.connectorId === connectorID);
+}
+
+describe('OCPP 2.0.1', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    await ContextProvider.defaultInstance.prepareContexts();
+    testData.tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+    testData.centralAdminService = testData.tenantContext.getAdminCentralServerService();
+    const tokenID = await testData.tenantContext.createRegistrationToken();
+    testData.ocpp20 = new OCPPJsonService20(`${config.get('ocpp.json.scheme')}://${config.get('ocpp.json.host')}:${config.get('ocpp.json.port')}/OCPP20/${testData.tenantContext.getTenant().id}/${tokenID}`);
+    testData.chargingStationID = `ut-ocpp20-${faker.random.alphaNumeric(8)}`;
+    // Badge of the driver
+    testData.user = await testData.centralAdminService.createEntity(testData.centralAdminService.userApi, Factory.user.build());
+    testData.tagID = faker.random.alphaNumeric(20).toString();
+    await testData.centralAdminService.userApi.createTag(Factory.tag.build({ id: testData.tagID, userID: testData.user.id }));
+  });
+
+  after(async () => {
+    testData.ocpp20.closeConnection();
+    if (testData.transactionID) {
+      await testData.centralAdminService.transactionApi.delete(testData.transactionID);
+    }
+    await testData.centralAdminService.chargingStationApi.delete(testData.chargingStationID);
+    await testData.centralAdminService.userApi.deleteTag(testData.tagID);
+    await testData.centralAdminService.deleteEntity(testData.centralAdminService.userApi, testData.user);
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  it('Should register the charging station', async () => {
+    const response = await testData.ocpp20.executeBootNotification(testData.chargingStationID, {
+      chargingStation: {
+        vendorName: 'UT Vendor with a name longer than 25 chars',
+        model: 'UT Model',
+        serialNumber: 'UT-0001',
+        firmwareVersion: '1.0.0',
+      },
+      reason: OCPP20BootReason.POWER_UP
+    });
+    expect(response.status).to.equal(RegistrationStatus.ACCEPTED);
+    expect(response.interval).to.be.above(0);
+    const chargingStationResponse = await testData.centralAdminService.chargingStationApi.readById(testData.chargingStationID);
+    expect(chargingStationResponse.status).to.equal(StatusCodes.OK);
+    expect(chargingStationResponse.data).to.containSubset({
+      id: testData.chargingStationID,
+      ocppVersion: OCPPVersion.VERSION_20,
+      chargePointVendor: 'UT Vendor with a name lon',
+      chargePointModel: 'UT Model',
+      firmwareVersion: '1.0.0',
+    });
+  });
+
+  it('Should update the status of the EVSE', async () => {
+    const response = await testData.ocpp20.executeStatusNotification(testData.chargingStationID, {
+      timestamp: new Date().toISOString(),
+      connectorStatus: OCPP20ConnectorStatus.AVAILABLE,
+      evseId: 1,
+      connectorId: 1,
+    });
+    expect(response).to.eql({});
+    expect((await readConnector(1)).status).to.equal('Available');
+  });
+
+  it('Should map each connector of the EVSEs to its own connector', async () => {
+    // Second connector of the first EVSE
+    await testData.ocpp20.executeStatusNotification(testData.chargingStationID, {
+      timestamp: new Date().toISOString(),
+      connectorStatus: OCPP20ConnectorStatus.UNAVAILABLE,
+      evseId: 1,
+      connectorId: 2,
+    });
+    // First connector of the second EVSE
+    await testData.ocpp20.executeStatusNotification(testData.chargingStationID, {
+      timestamp: new Date().toISOString(),
+      connectorStatus: OCPP20ConnectorStatus.FAULTED,
+      evseId: 2,
+      connectorId: 1,
+    });
+    expect((await readConnector(1)).status).to.equal('Available');
+    expect((await readConnector(2)).status).to.equal('Unavailable');
+    expect((await readConnector(3)).status).to.equal('Faulted');
+    // Known connectors keep their mapping
+    await testData.ocpp20.executeStatusNotification(testData.chargingStationID, {
+      timestamp: new Date().toISOString(),
+      connectorStatus: OCPP20ConnectorStatus.AVAILABLE,
+      evseId: 2,
+      connectorId: 1,
+    });
+    expect((await readConnector(3)).status).to.equal('Available');
+    expect((await readConnector(2)).status).to.equal('Unavailable');
+  });
+
+  it('Should authorize the badges', async () => {
+    let response = await testData.ocpp20.executeAuthorize(testData.chargingStationID, {
+      idToken: { idToken: testData.tagID, type: OCPP20IdTokenType.ISO14443 }
+    });
+    expect(response.idTokenInfo.status).to.equal(OCPPAuthorizationStatus.ACCEPTED);
+    response = await testData.ocpp20.executeAuthorize(testData.chargingStationID, {
+      idToken: { idToken: faker.random.alphaNumeric(21).toString(), type: OCPP20IdTokenType.ISO14443 }
+    });
+    expect(response.idTokenInfo.status).to.equal(OCPPAuthorizationStatus.INVALID);
+  });
+
+  it('Should start the transaction once the driver is authorized', async () => {
+    const startTime = moment().subtract(30, 'minutes').toDate();
+    testData.ocppTransactionID = faker.random.alphaNumeric(16).toString();
+    // Cable plugged in before the badge
+    let response = await testData.ocpp20.executeTransactionEvent(testData.chargingStationID, {
+      eventType: OCPP20TransactionEventType.STARTED,
+      timestamp: startTime.toISOString(),
+      triggerReason: OCPP20TriggerReason.CABLE_PLUGGED_IN,
+      seqNo: 0,
+      transactionInfo: {
+        transactionId: testData.ocppTransactionID,
+        chargingState: OCPP20ChargingState.EV_CONNECTED
+      },
+      evse: { id: 1, connectorId: 1 },
+    });
+    expect(response).to.eql({});
+    expect((await readConnector(1)).currentTransactionID).to.be.not.ok;
+    // The EVSE is only sent in the first event
+    response = await testData.ocpp20.executeTransactionEvent(testData.chargingStationID, {
+      eventType: OCPP20TransactionEventType.UPDATED,
+      timestamp: startTime.toISOString(),
+      triggerReason: OCPP20TriggerReason.AUTHORIZED,
+      seqNo: 1,
+      transactionInfo: {
+        transactionId: testData.ocppTransactionID,
+        chargingState: OCPP20ChargingState.CHARGING
+      },
+      idToken: { idToken: testData.tagID, type: OCPP20IdTokenType.ISO14443 },
+      meterValue: buildEnergyMeterValue(1000, OCPPReadingContext.TRANSACTION_BEGIN, startTime),
+    });
+    expect(response.idTokenInfo.status).to.equal(OCPPAuthorizationStatus.ACCEPTED);
+    const connector = await readConnector(1);
+    expect(connector.currentTransactionID).to.be.above(0);
+    expect(connector.currentTagID).to.equal(testData.tagID);
+    testData.transactionID = connector.currentTransactionID;
+    const transactionResponse = await testData.centralAdminService.transactionApi.readById(testData.transactionID);
+    expect(transactionResponse.status).to.equal(StatusCodes.OK);
+    expect(transactionResponse.data).to.containSubset({
+      id: testData.transactionID,
+      connectorId: 1,
+      tagID: testData.tagID,
+      meterStart: 1000,
+    });
+  });
+
+  it('Should update the consumption of the transaction', async () => {
+    const response = await testData.ocpp20.executeTransactionEvent(testData.chargingStationID, {
+      eventType: OCPP20TransactionEventType.UPDATED,
+      timestamp: moment().subtract(15, 'minutes').toISOString(),
+      triggerReason: OCPP20TriggerReason.METER_VALUE_PERIODIC,
+      seqNo: 2,
+      transactionInfo: {
+        transactionId: testData.ocppTransactionID,
+        chargingState: OCPP20ChargingState.CHARGING
+      },
+      meterValue: buildEnergyMeterValue(3500, OCPPReadingContext.SAMPLE_PERIODIC, moment().subtract(15, 'minutes').toDate()),
+    });
+    expect(response).to.eql({});
+    const connector = await readConnector(1);
+    expect(connector.status).to.equal('Charging');
+    expect(connector.currentTotalConsumptionWh).to.equal(2500);
+  });
+
+  it('Should stop the transaction', async () => {
+    const stopTime = new Date();
+    let response = await testData.ocpp20.executeTransactionEvent(testData.chargingStationID, {
+      eventType: OCPP20TransactionEventType.ENDED,
+      timestamp: stopTime.toISOString(),
+      triggerReason: OCPP20TriggerReason.STOP_AUTHORIZED,
+      seqNo: 3,
+      transactionInfo: {
+        transactionId: testData.ocppTransactionID,
+        stoppedReason: OCPP20StoppedReason.LOCAL
+      },
+      idToken: { idToken: testData.tagID, type: OCPP20IdTokenType.ISO14443 },
+      meterValue: buildEnergyMeterValue(6000, OCPPReadingContext.TRANSACTION_END, stopTime),
+    });
+    expect(response.idTokenInfo.status).to.equal(OCPPAuthorizationStatus.ACCEPTED);
+    const transactionResponse = await testData.centralAdminService.transactionApi.readById(testData.transactionID);
+    expect(transactionResponse.status).to.equal(StatusCodes.OK);
+    expect(transactionResponse.data.stop).to.containSubset({
+      tagID: testData.tagID,
+      meterStop: 6000,
+      totalConsumptionWh: 5000,
+    });
+    // Sent twice
+    response = await testData.ocpp20.executeTransactionEvent(testData.chargingStationID, {
+      eventType: OCPP20TransactionEventType.ENDED,
+      timestamp: stopTime.toISOString(),
+      triggerReason: OCPP20TriggerReason.STOP_AUTHORIZED,
+      seqNo: 4,
+      transactionInfo: {
+        transactionId: testData.ocppTransactionID,
+        stoppedReason: OCPP20StoppedReason.LOCAL
+      },
+    });
+    expect(response).to.eql({});
+  });
+});
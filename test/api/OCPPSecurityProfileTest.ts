@@ -0,0 +1,139 @@
+import { OcppSecuritySettingsType, TechnicalSettings } from '../../src/types/Setting';
+import chai, { expect } from 'chai';
+
+import CentralServerService from './client/CentralServerService';
+import ChargingStationStorage from '../../src/storage/mongodb/ChargingStationStorage';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import { HTTPError } from '../../src/types/HTTPError';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import { OCPPSecurityProfile } from '../../src/types/ocpp/OCPPServer';
+import OCPPUtils from '../../src/server/ocpp/utils/OCPPUtils';
+import SettingStorage from '../../src/storage/mongodb/SettingStorage';
+import Tenant from '../../src/types/Tenant';
+import TenantContext from './context/TenantContext';
+import Utils from '../../src/utils/Utils';
+import { WSConnectionCredentials } from '../../src/types/WebSocket';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import faker from 'faker';
+import global from '../../src/types/GlobalType';
+
+chai.use(chaiSubset);
+
+class TestData {
+  public tenantContext: TenantContext;
+  public tenant: Tenant;
+  public centralAdminService: CentralServerService;
+  public chargingStationID: string;
+  public basicAuthPassword: string;
+}
+
+const testData = new TestData();
+
+async function checkOcppSecurityWithError(chargingStationID: string, credentials: WSConnectionCredentials): Promise<Error> {
+  try {
+    await OCPPUtils.checkChargingStationOcppSecurity(testData.tenant, chargingStationID, credentials);
+  } catch (error) {
+    return error;
+  }
+  return null;
+}
+
+describe('OCPP Security Profiles', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    testData.tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+    testData.tenant = testData.tenantContext.getTenant();
+    testData.centralAdminService = testData.tenantContext.getAdminCentralServerService();
+    testData.chargingStationID = testData.tenantContext.getChargingStationContext(
+      ContextDefinition.CHARGING_STATION_CONTEXTS.UNASSIGNED_OCPP16).getChargingStation().id;
+    testData.basicAuthPassword = faker.internet.password();
+  });
+
+  after(async () => {
+    await ChargingStationStorage.saveChargingStationOcppSecurity(testData.tenant.id, testData.chargingStationID, null);
+    const ocppSecuritySettings = await SettingStorage.getOcppSecuritySettings(testData.tenant.id);
+    if (ocppSecuritySettings) {
+      await SettingStorage.deleteSetting(testData.tenant.id, ocppSecuritySettings.id);
+    }
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Connection of the Charging Stations', () => {
+    it('Should only require the URL token without security profile', async () => {
+      expect(await checkOcppSecurityWithError(testData.chargingStationID, { secure: false })).to.be.null;
+    });
+
+    it('Should check the Basic Auth credentials with the security profile 1', async () => {
+      await ChargingStationStorage.saveChargingStationOcppSecurity(testData.tenant.id, testData.chargingStationID, {
+        securityProfile: OCPPSecurityProfile.BASIC_AUTH,
+        basicAuthPassword: await Utils.hashPasswordBcrypt(testData.basicAuthPassword),
+        lastChangedOn: new Date()
+      });
+      let error = await checkOcppSecurityWithError(testData.chargingStationID, { secure: false });
+      expect(error.message).to.contain('Invalid Basic Auth credentials');
+      error = await checkOcppSecurityWithError(testData.chargingStationID, {
+        secure: false, username: testData.chargingStationID, password: 'wrong-password'
+      });
+      expect(error.message).to.contain('Invalid Basic Auth credentials');
+      // The user name is the Charging Station ID
+      error = await checkOcppSecurityWithError(testData.chargingStationID, {
+        secure: false, username: 'another-charging-station', password: testData.basicAuthPassword
+      });
+      expect(error.message).to.contain('Invalid Basic Auth credentials');
+      expect(await checkOcppSecurityWithError(testData.chargingStationID, {
+        secure: false, username: testData.chargingStationID, password: testData.basicAuthPassword
+      })).to.be.null;
+    });
+
+    it('Should require TLS with the security profile 2', async () => {
+      await ChargingStationStorage.saveChargingStationOcppSecurity(testData.tenant.id, testData.chargingStationID, {
+        securityProfile: OCPPSecurityProfile.TLS_BASIC_AUTH,
+        basicAuthPassword: await Utils.hashPasswordBcrypt(testData.basicAuthPassword),
+        lastChangedOn: new Date()
+      });
+      const error = await checkOcppSecurityWithError(testData.chargingStationID, {
+        secure: false, username: testData.chargingStationID, password: testData.basicAuthPassword
+      });
+      expect(error.message).to.contain('requires a TLS connection');
+      expect(await checkOcppSecurityWithError(testData.chargingStationID, {
+        secure: true, username: testData.chargingStationID, password: testData.basicAuthPassword
+      })).to.be.null;
+    });
+
+    it('Should require a client certificate with the security profile 3', async () => {
+      await ChargingStationStorage.saveChargingStationOcppSecurity(testData.tenant.id, testData.chargingStationID, {
+        securityProfile: OCPPSecurityProfile.TLS_CLIENT_CERTIFICATE,
+        lastChangedOn: new Date()
+      });
+      const error = await checkOcppSecurityWithError(testData.chargingStationID, {
+        secure: true, username: testData.chargingStationID, password: testData.basicAuthPassword
+      });
+      expect(error.message).to.contain('Missing or invalid client certificate');
+    });
+
+    it('Should apply the minimum security profile of the tenant to the unknown Charging Stations', async () => {
+      await SettingStorage.saveOcppSecuritySettings(testData.tenant.id, {
+        identifier: TechnicalSettings.OCPP_SECURITY,
+        type: OcppSecuritySettingsType.OCPP_SECURITY,
+        ocppSecurity: { minimumSecurityProfile: OCPPSecurityProfile.BASIC_AUTH }
+      });
+      const error = await checkOcppSecurityWithError(`ut-unknown-${faker.random.alphaNumeric(8)}`, { secure: false });
+      expect(error.message).to.contain('Invalid Basic Auth credentials');
+    });
+  });
+
+  describe('Update of the security profile', () => {
+    it('Should not update the security profile of a SOAP Charging Station', async () => {
+      const chargingStationContext = testData.tenantContext.getChargingStationContext(ContextDefinition.CHARGING_STATION_CONTEXTS.UNASSIGNED_OCPP15);
+      const response = await testData.centralAdminService.chargingStationApi.updateSecurityProfile(
+        chargingStationContext.getChargingStation().id, OCPPSecurityProfile.BASIC_AUTH);
+      expect(response.status).to.be.eql(HTTPError.FEATURE_NOT_SUPPORTED_ERROR);
+    });
+  });
+});
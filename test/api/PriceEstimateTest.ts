@@ -0,0 +1,147 @@
+import { HTTPAuthError, HTTPError } from '../../src/types/HTTPError';
+import chai, { expect } from 'chai';
+
+import CentralServerService from './client/CentralServerService';
+import { ChargePointStatus } from '../../src/types/ocpp/OCPPServer';
+import ChargingStation from '../../src/types/ChargingStation';
+import ChargingStationStorage from '../../src/storage/mongodb/ChargingStationStorage';
+import Consumption from '../../src/types/Consumption';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import { PricedConsumption } from '../../src/types/Pricing';
+import PricingEstimator from '../../src/integration/pricing/PricingEstimator';
+import SimplePricingIntegration from '../../src/integration/pricing/simple-pricing/SimplePricingIntegration';
+import { StatusCodes } from 'http-status-codes';
+import TenantContext from './context/TenantContext';
+import Transaction from '../../src/types/Transaction';
+import Utils from '../../src/utils/Utils';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import global from '../../src/types/GlobalType';
+
+chai.use(chaiSubset);
+
+// Counts the priced intervals of an estimate
+class CountingPricingIntegration extends SimplePricingIntegration {
+  public nbrOfPricedConsumptions = 0;
+
+  public getReadOnlyPricing(): SimplePricingIntegration {
+    return this;
+  }
+
+  public async startSession(transaction: Transaction, consumptionData: Consumption): Promise<PricedConsumption> {
+    this.nbrOfPricedConsumptions++;
+    return super.startSession(transaction, consumptionData);
+  }
+
+  public async updateSession(transaction: Transaction, consumptionData: Consumption, connectorStatus?: ChargePointStatus): Promise<PricedConsumption> {
+    this.nbrOfPricedConsumptions++;
+    return super.updateSession(transaction, consumptionData, connectorStatus);
+  }
+}
+
+class TestData {
+  public tenantContext: TenantContext;
+  public centralAdminService: CentralServerService;
+  public chargingStation: ChargingStation;
+  public noPricingCentralAdminService: CentralServerService;
+  public noPricingChargingStationID: string;
+}
+
+const testData = new TestData();
+
+describe('Price Estimate', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    // Simple pricing of 1 EUR per kWh
+    testData.tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_SIMPLE_PRICING);
+    testData.centralAdminService = testData.tenantContext.getAdminCentralServerService();
+    testData.chargingStation = await ChargingStationStorage.getChargingStation(testData.tenantContext.getTenant().id,
+      testData.tenantContext.getChargingStationContext(ContextDefinition.CHARGING_STATION_CONTEXTS.UNASSIGNED_OCPP16).getChargingStation().id);
+    const noPricingTenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+    testData.noPricingCentralAdminService = noPricingTenantContext.getAdminCentralServerService();
+    testData.noPricingChargingStationID = noPricingTenantContext.getChargingStationContext(
+      ContextDefinition.CHARGING_STATION_CONTEXTS.UNASSIGNED_OCPP16).getChargingStation().id;
+  });
+
+  after(async () => {
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Request checks', () => {
+    it('Should not estimate a price without the pricing component', async () => {
+      const response = await testData.noPricingCentralAdminService.chargingStationApi.readPriceEstimate(
+        testData.noPricingChargingStationID, 1, { TargetEnergyKWh: 10 });
+      expect(response.status).to.be.eql(HTTPAuthError.FORBIDDEN);
+    });
+
+    it('Should require a car, an energy or a duration', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.readPriceEstimate(testData.chargingStation.id, 1, {});
+      expect(response.status).to.be.eql(HTTPError.GENERAL_ERROR);
+    });
+
+    it('Should not estimate more than the maximum energy', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.readPriceEstimate(
+        testData.chargingStation.id, 1, { TargetEnergyKWh: 1001 });
+      expect(response.status).to.be.eql(HTTPError.GENERAL_ERROR);
+    });
+
+    it('Should not estimate more than the maximum duration', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.readPriceEstimate(
+        testData.chargingStation.id, 1, { TargetDurationMins: 1441 });
+      expect(response.status).to.be.eql(HTTPError.GENERAL_ERROR);
+    });
+
+    it('Should not estimate the price of an unknown connector', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.readPriceEstimate(
+        testData.chargingStation.id, 99, { TargetEnergyKWh: 10 });
+      expect(response.status).to.be.eql(HTTPError.OBJECT_DOES_NOT_EXIST_ERROR);
+    });
+  });
+
+  describe('Estimates', () => {
+    it('Should price the target energy at the power of the connector', async () => {
+      const powerWatts = Utils.getChargingStationPower(testData.chargingStation, null, 1);
+      const response = await testData.centralAdminService.chargingStationApi.readPriceEstimate(
+        testData.chargingStation.id, 1, { TargetEnergyKWh: 10 });
+      expect(response.status).to.be.eql(StatusCodes.OK);
+      expect(response.data).to.containSubset({
+        currencyCode: 'EUR',
+        powerWatts,
+        energyWh: 10000,
+        chargingTimeSecs: Math.ceil(10000 * 3600 / powerWatts),
+        parkingTimeSecs: 0,
+        roundedAmount: 10,
+      });
+    });
+
+    it('Should price the time after the end of the charge as parking time', async () => {
+      const powerWatts = Utils.getChargingStationPower(testData.chargingStation, null, 1);
+      const chargingTimeSecs = Math.ceil(1000 * 3600 / powerWatts);
+      const response = await testData.centralAdminService.chargingStationApi.readPriceEstimate(
+        testData.chargingStation.id, 1, { TargetEnergyKWh: 1, TargetDurationMins: 600 });
+      expect(response.status).to.be.eql(StatusCodes.OK);
+      expect(response.data).to.containSubset({
+        energyWh: 1000,
+        chargingTimeSecs,
+        parkingTimeSecs: 600 * 60 - chargingTimeSecs,
+        roundedAmount: 1,
+      });
+    });
+
+    it('Should limit the number of priced intervals of a long session', async () => {
+      const pricingImpl = new CountingPricingIntegration(testData.tenantContext.getTenant(), { price: 1, currency: 'EUR' });
+      const pricingEstimation = await PricingEstimator.estimateSession(pricingImpl, testData.chargingStation, 1, {
+        user: null, targetEnergyWh: 1000000
+      });
+      expect(pricingEstimation.energyWh).to.eql(1000000);
+      expect(pricingEstimation.roundedAmount).to.eql(1000);
+      expect(pricingImpl.nbrOfPricedConsumptions).to.be.at.most(1440);
+    });
+  });
+});
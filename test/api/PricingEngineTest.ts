@@ -0,0 +1,332 @@
+import { IdleFeePolicy, PricingDimensionType, PricingModel } from '../../src/types/Pricing';
+import User, { UserRole } from '../../src/types/User';
+import chai, { expect } from 'chai';
+
+import { BillingSubscription } from '../../src/types/Billing';
+import { ChargePointStatus } from '../../src/types/ocpp/OCPPServer';
+import Consumption from '../../src/types/Consumption';
+import PricingEngine from '../../src/integration/pricing/PricingEngine';
+import Transaction from '../../src/types/Transaction';
+import chaiSubset from 'chai-subset';
+import moment from 'moment';
+
+chai.use(chaiSubset);
+
+// Tuesday
+const SESSION_START = new Date('2021-09-07T10:00:00Z');
+
+function buildPricingModel(pricingModel: Partial<PricingModel>): PricingModel {
+  return {
+    id: 'test',
+    description: 'Test tariff',
+    currency: 'EUR',
+    timestamp: SESSION_START,
+    pricings: [],
+    ...pricingModel
+  };
+}
+
+function buildTransaction(): Transaction {
+  return {
+    id: 1,
+    timestamp: SESSION_START,
+    timezone: 'UTC',
+    pricingData: PricingEngine.initPricingData(),
+  } as Transaction;
+}
+
+function buildConsumption(startMins: number, durationMins: number, consumptionWh: number, instantWatts: number): Consumption {
+  return {
+    startedAt: moment(SESSION_START).add(startMins, 'minutes').toDate(),
+    endedAt: moment(SESSION_START).add(startMins + durationMins, 'minutes').toDate(),
+    consumptionWh,
+    instantWatts,
+  } as Consumption;
+}
+
+function getAmount(pricedDimensions: { type: PricingDimensionType; amount: number }[], type: PricingDimensionType): number {
+  return pricedDimensions.filter((pricedDimension) => pricedDimension.type === type)
+    .reduce((amount, pricedDimension) => amount + pricedDimension.amount, 0);
+}
+
+describe('Pricing Engine', function() {
+  this.timeout(10000);
+
+  describe('Tariff dimensions', () => {
+    it('Should charge the flat fee once at the start of the session', () => {
+      const pricingModel = buildPricingModel({
+        pricings: [{ components: [{ type: PricingDimensionType.FLAT, price: 1.5, stepSize: 1 }] }]
+      });
+      const pricedDimensions = PricingEngine.priceSessionStart(pricingModel, buildTransaction());
+      expect(pricedDimensions).to.have.lengthOf(1);
+      expect(pricedDimensions[0]).to.containSubset({ type: PricingDimensionType.FLAT, quantity: 1, amount: 1.5 });
+    });
+
+    it('Should price the energy and the charging time', () => {
+      const pricingModel = buildPricingModel({
+        pricings: [{
+          components: [
+            { type: PricingDimensionType.ENERGY, price: 0.3, stepSize: 1 },
+            { type: PricingDimensionType.TIME, price: 1.2, stepSize: 1 },
+          ]
+        }]
+      });
+      const transaction = buildTransaction();
+      // 2 kWh in 30 minutes
+      const pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 30, 2000, 4000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.6);
+      expect(getAmount(pricedDimensions, PricingDimensionType.TIME)).to.eql(0.6);
+      expect(transaction.pricingData.energyWh).to.eql(2000);
+      expect(transaction.pricingData.chargingTimeSecs).to.eql(1800);
+    });
+
+    it('Should price the parking time when the car does not charge', () => {
+      const pricingModel = buildPricingModel({
+        pricings: [{
+          components: [
+            { type: PricingDimensionType.TIME, price: 1.2, stepSize: 1 },
+            { type: PricingDimensionType.PARKING_TIME, price: 2, stepSize: 1 },
+          ]
+        }]
+      });
+      const transaction = buildTransaction();
+      const pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 15, 0, 0));
+      expect(getAmount(pricedDimensions, PricingDimensionType.TIME)).to.eql(0);
+      expect(getAmount(pricedDimensions, PricingDimensionType.PARKING_TIME)).to.eql(0.5);
+      expect(transaction.pricingData.parkingTimeSecs).to.eql(900);
+    });
+
+    it('Should bill the started blocks of step size', () => {
+      const pricingModel = buildPricingModel({
+        // 5 minutes blocks
+        pricings: [{ components: [{ type: PricingDimensionType.TIME, price: 1.2, stepSize: 300 }] }]
+      });
+      const transaction = buildTransaction();
+      // 6 minutes are billed as 10 minutes
+      let pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 6, 500, 5000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.TIME)).to.eql(0.2);
+      // The next 3 minutes are part of the second block
+      pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(6, 3, 250, 5000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.TIME)).to.eql(0);
+    });
+
+    it('Should apply the tariff element matching the charging power', () => {
+      const pricingModel = buildPricingModel({
+        pricings: [
+          {
+            components: [{ type: PricingDimensionType.ENERGY, price: 0.5, stepSize: 1 }],
+            restrictions: { minPowerkW: 22 }
+          },
+          {
+            components: [{ type: PricingDimensionType.ENERGY, price: 0.3, stepSize: 1 }]
+          },
+        ]
+      });
+      // Fast charging
+      let pricedDimensions = PricingEngine.priceConsumption(pricingModel, buildTransaction(), buildConsumption(0, 10, 8000, 48000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(4);
+      // Slow charging
+      pricedDimensions = PricingEngine.priceConsumption(pricingModel, buildTransaction(), buildConsumption(0, 10, 1000, 6000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.3);
+    });
+
+    it('Should apply the tariff element matching the time of day and the day of week', () => {
+      const pricingModel = buildPricingModel({
+        pricings: [
+          {
+            // Off-peak hours during the week
+            components: [{ type: PricingDimensionType.ENERGY, price: 0.2, stepSize: 1 }],
+            restrictions: { startTime: '22:00', endTime: '06:00', daysOfWeek: [1, 2, 3, 4, 5] }
+          },
+          {
+            components: [{ type: PricingDimensionType.ENERGY, price: 0.3, stepSize: 1 }]
+          },
+        ]
+      });
+      // Tuesday 10:00
+      let pricedDimensions = PricingEngine.priceConsumption(pricingModel, buildTransaction(), buildConsumption(0, 10, 1000, 6000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.3);
+      // Tuesday 23:00
+      pricedDimensions = PricingEngine.priceConsumption(pricingModel, buildTransaction(), buildConsumption(13 * 60, 10, 1000, 6000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.2);
+    });
+
+    it('Should apply the tariff element matching the consumed energy', () => {
+      const pricingModel = buildPricingModel({
+        pricings: [
+          {
+            components: [{ type: PricingDimensionType.ENERGY, price: 0.3, stepSize: 1 }],
+            restrictions: { maxKWh: 10 }
+          },
+          {
+            components: [{ type: PricingDimensionType.ENERGY, price: 0.25, stepSize: 1 }],
+          },
+        ]
+      });
+      const transaction = buildTransaction();
+      let pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 60, 10000, 10000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(3);
+      // Restrictions are evaluated at the beginning of the consumption
+      pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(60, 60, 10000, 10000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(2.5);
+    });
+  });
+
+  describe('User groups', () => {
+    const pricingModel = buildPricingModel({
+      pricings: [{ components: [{ type: PricingDimensionType.ENERGY, price: 0.4, stepSize: 1 }] }],
+      userGroupPricings: [
+        {
+          name: 'Employees',
+          costCenters: ['R&D'],
+          siteIDs: ['site-headquarters'],
+          pricings: [{ components: [{ type: PricingDimensionType.ENERGY, price: 0.1, stepSize: 1 }] }]
+        },
+        {
+          name: 'Fleet',
+          tagIDs: ['FLEET-TAG'],
+          pricings: [{ components: [{ type: PricingDimensionType.ENERGY, price: 0.2, stepSize: 1 }] }]
+        },
+      ]
+    });
+
+    it('Should apply the rates of the first matching user group', () => {
+      const employee = { role: UserRole.BASIC, costCenter: 'R&D' } as User;
+      const userPricingModel = PricingEngine.resolveUserGroupPricingModel(pricingModel, employee, 'FLEET-TAG', ['site-headquarters']);
+      expect(userPricingModel.userGroup).to.eql('Employees');
+      const pricedDimensions = PricingEngine.priceConsumption(userPricingModel, buildTransaction(), buildConsumption(0, 10, 1000, 6000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.1);
+    });
+
+    it('Should require all the criteria of the user group to match', () => {
+      // Employee charging outside of the site of the user group
+      const employee = { role: UserRole.BASIC, costCenter: 'R&D' } as User;
+      const userPricingModel = PricingEngine.resolveUserGroupPricingModel(pricingModel, employee, 'FLEET-TAG', ['site-other']);
+      expect(userPricingModel.userGroup).to.eql('Fleet');
+    });
+
+    it('Should apply the default rates to the visitors', () => {
+      const visitor = { role: UserRole.BASIC, costCenter: 'Visitors' } as User;
+      const userPricingModel = PricingEngine.resolveUserGroupPricingModel(pricingModel, visitor, 'VISITOR-TAG', []);
+      expect(userPricingModel.userGroup).to.be.undefined;
+      const pricedDimensions = PricingEngine.priceConsumption(userPricingModel, buildTransaction(), buildConsumption(0, 10, 1000, 6000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.4);
+    });
+  });
+
+  describe('Idle fee', () => {
+    const idleFee: IdleFeePolicy = {
+      enabled: true,
+      gracePeriodMins: 15,
+      pricePerMin: 0.2,
+      maxAmount: 3,
+    };
+    const pricingModel = buildPricingModel({
+      pricings: [{ components: [{ type: PricingDimensionType.ENERGY, price: 0.3, stepSize: 1 }] }],
+      idleFee
+    });
+
+    it('Should charge the idle time after the grace period up to the maximum amount', () => {
+      const transaction = buildTransaction();
+      PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 10, 2000, 12000), ChargePointStatus.CHARGING);
+      // 20 minutes idle: 5 minutes after the grace period
+      let pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(10, 20, 0, 0), ChargePointStatus.SUSPENDED_EV);
+      expect(getAmount(pricedDimensions, PricingDimensionType.IDLE_FEE)).to.eql(1);
+      expect(PricingEngine.getIdleFeeRemainingGraceSecs(idleFee, transaction.pricingData)).to.eql(0);
+      // 30 more minutes idle: capped by the maximum amount
+      pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(30, 30, 0, 0), ChargePointStatus.FINISHING);
+      expect(getAmount(pricedDimensions, PricingDimensionType.IDLE_FEE)).to.eql(2);
+      expect(transaction.pricingData.idleFeeAmount).to.eql(3);
+    });
+
+    it('Should not charge the idle fee while the charging station suspends the charge', () => {
+      const transaction = buildTransaction();
+      PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 10, 2000, 12000), ChargePointStatus.CHARGING);
+      const pricedDimensions = PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(10, 30, 0, 0), ChargePointStatus.SUSPENDED_EVSE);
+      expect(getAmount(pricedDimensions, PricingDimensionType.IDLE_FEE)).to.eql(0);
+      expect(PricingEngine.getIdleFeeRemainingGraceSecs(idleFee, transaction.pricingData)).to.eql(900);
+    });
+
+    it('Should restart the grace period when the car charges again', () => {
+      const transaction = buildTransaction();
+      PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(0, 10, 2000, 12000), ChargePointStatus.CHARGING);
+      PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(10, 10, 0, 0), ChargePointStatus.SUSPENDED_EV);
+      expect(PricingEngine.getIdleFeeRemainingGraceSecs(idleFee, transaction.pricingData)).to.eql(300);
+      PricingEngine.priceConsumption(pricingModel, transaction, buildConsumption(20, 5, 500, 6000), ChargePointStatus.CHARGING);
+      expect(PricingEngine.getIdleFeeRemainingGraceSecs(idleFee, transaction.pricingData)).to.eql(900);
+    });
+
+    it('Should not count the idle time while the site area is closed', () => {
+      const closedAtNightPricingModel = buildPricingModel({
+        ...pricingModel,
+        idleFee: {
+          ...idleFee,
+          exemptOutsideOpeningTimes: true,
+          openingTimes: {
+            twentyFourBySeven: false,
+            // Tuesday
+            regularHours: [{ weekday: 2, periodBegin: '08:00', periodEnd: '18:00' }],
+            exceptionalOpenings: [],
+            exceptionalClosings: [],
+          }
+        }
+      });
+      const transaction = buildTransaction();
+      PricingEngine.priceConsumption(closedAtNightPricingModel, transaction, buildConsumption(0, 10, 2000, 12000), ChargePointStatus.CHARGING);
+      // Idle from 20:00
+      const pricedDimensions = PricingEngine.priceConsumption(closedAtNightPricingModel, transaction,
+        buildConsumption(10 * 60, 60, 0, 0), ChargePointStatus.SUSPENDED_EV);
+      expect(getAmount(pricedDimensions, PricingDimensionType.IDLE_FEE)).to.eql(0);
+    });
+  });
+
+  describe('Subscription member rates', () => {
+    const pricingModel = buildPricingModel({
+      pricings: [{
+        components: [
+          { type: PricingDimensionType.ENERGY, price: 0.4, stepSize: 1 },
+          { type: PricingDimensionType.TIME, price: 1.2, stepSize: 1 },
+        ]
+      }]
+    });
+
+    function buildSubscription(plan: Partial<BillingSubscription['plan']>): BillingSubscription {
+      return {
+        id: 'subscription',
+        plan: { name: 'Member', ...plan },
+      } as BillingSubscription;
+    }
+
+    it('Should not charge the energy reserved on the included energy', () => {
+      const memberPricingModel = PricingEngine.resolveSubscriptionPricingModel(pricingModel,
+        buildSubscription({ includedEnergyKWh: 10, energyPrice: 0.2 }));
+      expect(memberPricingModel.subscription).to.containSubset({ subscriptionID: 'subscription', planName: 'Member', includedEnergyWh: 10000 });
+      const transaction = buildTransaction();
+      // 1.5 kWh out of the 4 kWh are still included in the plan
+      const pricedDimensions = PricingEngine.priceConsumption(memberPricingModel, transaction, buildConsumption(0, 30, 4000, 8000), null, 1500);
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.5);
+      // The other dimensions of the tariff are not affected
+      expect(getAmount(pricedDimensions, PricingDimensionType.TIME)).to.eql(0.6);
+      expect(transaction.pricingData.energyWh).to.eql(4000);
+      expect(transaction.pricingData.includedEnergyWh).to.eql(1500);
+    });
+
+    it('Should apply the discount of the plan when it has no member price', () => {
+      const memberPricingModel = PricingEngine.resolveSubscriptionPricingModel(pricingModel,
+        buildSubscription({ energyDiscountPercent: 25 }));
+      const pricedDimensions = PricingEngine.priceConsumption(memberPricingModel, buildTransaction(), buildConsumption(0, 30, 4000, 8000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(1.2);
+    });
+
+    it('Should apply the member price when the tariff does not price the energy', () => {
+      const timeOnlyPricingModel = buildPricingModel({
+        pricings: [{ components: [{ type: PricingDimensionType.TIME, price: 1.2, stepSize: 1 }] }]
+      });
+      const memberPricingModel = PricingEngine.resolveSubscriptionPricingModel(timeOnlyPricingModel,
+        buildSubscription({ energyPrice: 0.2 }));
+      const pricedDimensions = PricingEngine.priceConsumption(memberPricingModel, buildTransaction(), buildConsumption(0, 30, 4000, 8000));
+      expect(getAmount(pricedDimensions, PricingDimensionType.ENERGY)).to.eql(0.8);
+      expect(getAmount(pricedDimensions, PricingDimensionType.TIME)).to.eql(0.6);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import Reservation, { ReservationStatus } from '../../src/types/Reservation';
+import chai, { expect } from 'chai';
+
+import CentralServerService from './client/CentralServerService';
+import ChargingStationContext from './context/ChargingStationContext';
+import CheckExpiredReservationsTask from '../../src/scheduler/tasks/CheckExpiredReservationsTask';
+import Constants from '../../src/utils/Constants';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import { HTTPError } from '../../src/types/HTTPError';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import ReservationStorage from '../../src/storage/mongodb/ReservationStorage';
+import { StatusCodes } from 'http-status-codes';
+import TenantContext from './context/TenantContext';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import global from '../../src/types/GlobalType';
+import moment from 'moment';
+
+chai.use(chaiSubset);
+
+class TestData {
+  public tenantContext: TenantContext;
+  public centralAdminService: CentralServerService;
+  public chargingStationContext: ChargingStationContext;
+  public tagID: string;
+  public userID: string;
+  public createdReservationIDs: number[] = [];
+}
+
+const testData = new TestData();
+
+async function createReservation(connectorId: number, expiryDate: Date): Promise<Reservation> {
+  const chargingStation = testData.chargingStationContext.getChargingStation();
+  const reservation: Reservation = {
+    id: null,
+    chargingStationID: chargingStation.id,
+    connectorId,
+    tagID: testData.tagID,
+    userID: testData.userID,
+    expiryDate,
+    status: ReservationStatus.ACTIVE,
+    createdBy: { id: testData.userID },
+    createdOn: new Date()
+  };
+  reservation.id = await ReservationStorage.saveReservation(testData.tenantContext.getTenant().id, reservation);
+  testData.createdReservationIDs.push(reservation.id);
+  return reservation;
+}
+
+describe('Reservations', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    testData.tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+    testData.centralAdminService = testData.tenantContext.getAdminCentralServerService();
+    testData.chargingStationContext = testData.tenantContext.getChargingStationContext(ContextDefinition.CHARGING_STATION_CONTEXTS.UNASSIGNED_OCPP16);
+    const adminUser = testData.tenantContext.getUserContext(ContextDefinition.USER_CONTEXTS.DEFAULT_ADMIN);
+    testData.userID = adminUser.id;
+    testData.tagID = adminUser.tags[0].id;
+  });
+
+  after(async () => {
+    // Release the connectors for the next runs
+    const reservations = await ReservationStorage.getReservations(testData.tenantContext.getTenant().id, {
+      reservationIDs: testData.createdReservationIDs, statuses: [ReservationStatus.ACTIVE]
+    }, Constants.DB_PARAMS_MAX_LIMIT);
+    for (const reservation of reservations.result) {
+      await ReservationStorage.saveReservationStatus(testData.tenantContext.getTenant().id, reservation.id,
+        ReservationStatus.CANCELLED, { cancelledOn: new Date() });
+    }
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Reserve a connector', () => {
+    it('Should not reserve a connector without a badge', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.reserveNow(
+        testData.chargingStationContext.getChargingStation().id, {
+          connectorId: 1,
+          expiryDate: moment().add(1, 'hour').toDate()
+        });
+      expect(response.status).to.be.eql(HTTPError.USER_NO_BADGE_ERROR);
+    });
+
+    it('Should not reserve a connector with an expiry date in the past', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.reserveNow(
+        testData.chargingStationContext.getChargingStation().id, {
+          connectorId: 1,
+          tagID: testData.tagID,
+          expiryDate: moment().subtract(1, 'minute').toDate()
+        });
+      expect(response.status).to.be.eql(HTTPError.RESERVATION_EXPIRY_DATE_ERROR);
+    });
+
+    it('Should not reserve a connector which is already reserved', async () => {
+      await createReservation(1, moment().add(1, 'hour').toDate());
+      const response = await testData.centralAdminService.chargingStationApi.reserveNow(
+        testData.chargingStationContext.getChargingStation().id, {
+          connectorId: 1,
+          tagID: testData.tagID,
+          expiryDate: moment().add(2, 'hours').toDate()
+        });
+      expect(response.status).to.be.eql(HTTPError.RESERVATION_ALREADY_EXIST_ERROR);
+    });
+
+    it('Should list the active reservations of the charging station', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.readReservations(
+        testData.chargingStationContext.getChargingStation().id, { ConnectorID: 1, Status: ReservationStatus.ACTIVE });
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data.count).to.equal(1);
+      expect(response.data.result[0]).to.containSubset({
+        id: testData.createdReservationIDs[0],
+        connectorId: 1,
+        tagID: testData.tagID,
+        status: ReservationStatus.ACTIVE
+      });
+    });
+  });
+
+  describe('Use a reservation', () => {
+    it('Should use the reservation when the driver starts a transaction', async () => {
+      const reservationID = testData.createdReservationIDs[0];
+      const meterStart = 0;
+      const startDate = moment().toDate();
+      const startResponse = await testData.chargingStationContext.startTransaction(1, testData.tagID, meterStart, startDate);
+      expect(startResponse.transactionId).to.be.above(0);
+      const reservation = await ReservationStorage.getReservation(testData.tenantContext.getTenant().id, reservationID);
+      expect(reservation).to.containSubset({
+        status: ReservationStatus.USED,
+        transactionID: startResponse.transactionId
+      });
+      // The connector can be reserved again
+      expect(await ReservationStorage.getActiveReservation(testData.tenantContext.getTenant().id,
+        testData.chargingStationContext.getChargingStation().id, 1)).to.be.null;
+      await testData.chargingStationContext.stopTransaction(startResponse.transactionId, testData.tagID,
+        meterStart + 1000, moment(startDate).add(10, 'minutes').toDate());
+    });
+
+    it('Should keep the reservation when another badge starts a transaction', async () => {
+      const reservation = await createReservation(2, moment().add(1, 'hour').toDate());
+      const otherUser = testData.tenantContext.getUserContext(ContextDefinition.USER_CONTEXTS.BASIC_USER);
+      const meterStart = 0;
+      const startDate = moment().toDate();
+      const startResponse = await testData.chargingStationContext.startTransaction(2, otherUser.tags[0].id, meterStart, startDate);
+      const reservationAfterStart = await ReservationStorage.getReservation(testData.tenantContext.getTenant().id, reservation.id);
+      expect(reservationAfterStart.status).to.equal(ReservationStatus.ACTIVE);
+      expect(reservationAfterStart.transactionID).to.be.not.ok;
+      if (startResponse.transactionId) {
+        await testData.chargingStationContext.stopTransaction(startResponse.transactionId, otherUser.tags[0].id,
+          meterStart + 1000, moment(startDate).add(10, 'minutes').toDate());
+      }
+    });
+  });
+
+  describe('Expire a reservation', () => {
+    it('Should expire the active reservations once their expiry date is reached', async () => {
+      const expiredReservation = await createReservation(1, moment().subtract(1, 'minute').toDate());
+      const activeReservationID = testData.createdReservationIDs[testData.createdReservationIDs.length - 2];
+      await new CheckExpiredReservationsTask().processTenant(testData.tenantContext.getTenant(), {});
+      expect((await ReservationStorage.getReservation(testData.tenantContext.getTenant().id, expiredReservation.id)).status)
+        .to.equal(ReservationStatus.EXPIRED);
+      expect((await ReservationStorage.getReservation(testData.tenantContext.getTenant().id, activeReservationID)).status)
+        .to.equal(ReservationStatus.ACTIVE);
+    });
+  });
+});
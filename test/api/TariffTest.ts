@@ -0,0 +1,231 @@
+import { HTTPAuthError, HTTPError } from '../../src/types/HTTPError';
+import { OCPIDayOfWeek, OCPITariffDimensionType } from '../../src/types/ocpi/OCPITariff';
+import Tariff, { TariffEntityType } from '../../src/types/Tariff';
+import chai, { expect } from 'chai';
+
+import CentralServerService from './client/CentralServerService';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import Factory from '../factories/Factory';
+import { OCPIRole } from '../../src/types/ocpi/OCPIRole';
+import OCPIService from './ocpi/OCPIService';
+import OCPIUtils from '../../src/server/ocpi/OCPIUtils';
+import { PricingDimensionType } from '../../src/types/Pricing';
+import { StatusCodes } from 'http-status-codes';
+import TenantContext from './context/TenantContext';
+import chaiSubset from 'chai-subset';
+import faker from 'faker';
+
+chai.use(chaiSubset);
+
+class TestData {
+  public tenantContext: TenantContext;
+  public centralAdminService: CentralServerService;
+  public centralBasicService: CentralServerService;
+  public siteID: string;
+  public siteAreaID: string;
+  public tariff: Partial<Tariff>;
+  public createdTariffIDs: string[] = [];
+  public cpoService: OCPIService;
+  public ocpiEndpointID: string;
+}
+
+const testData = new TestData();
+
+function buildTariff(entityType: TariffEntityType, entityID: string): Partial<Tariff> {
+  return {
+    description: `UT Tariff ${faker.random.alphaNumeric(8)}`,
+    currency: 'EUR',
+    entityType,
+    entityID,
+    pricings: [
+      {
+        components: [
+          { type: PricingDimensionType.ENERGY, price: 0.3, stepSize: 1 },
+          { type: PricingDimensionType.PARKING_TIME, price: 6, stepSize: 60 },
+        ],
+        restrictions: { startTime: '08:00', endTime: '20:00', daysOfWeek: [1, 5] }
+      },
+      {
+        components: [
+          { type: PricingDimensionType.ENERGY, price: 0.2, stepSize: 1 },
+        ]
+      }
+    ]
+  };
+}
+
+async function createTariff(tariff: Partial<Tariff>): Promise<string> {
+  const response = await testData.centralAdminService.tariffApi.create(tariff);
+  expect(response.status).to.equal(StatusCodes.OK);
+  expect(response.data.id).to.not.be.empty;
+  testData.createdTariffIDs.push(response.data.id);
+  return response.data.id;
+}
+
+describe('Tariffs', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    await ContextProvider.defaultInstance.prepareContexts();
+    testData.tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_ALL_COMPONENTS);
+    testData.centralAdminService = testData.tenantContext.getAdminCentralServerService();
+    testData.centralBasicService = testData.tenantContext.getUserCentralServerService(ContextDefinition.USER_CONTEXTS.BASIC_USER);
+    const siteContext = testData.tenantContext.getSiteContext(ContextDefinition.SITE_CONTEXTS.SITE_BASIC);
+    testData.siteID = siteContext.getSite().id;
+    testData.siteAreaID = siteContext.getSiteAreaContext(ContextDefinition.SITE_AREA_CONTEXTS.WITH_ACL).getSiteArea().id;
+  });
+
+  after(async () => {
+    for (const tariffID of testData.createdTariffIDs) {
+      await testData.centralAdminService.tariffApi.delete(tariffID);
+    }
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Tariff management', () => {
+    it('Should not manage the tariffs without the pricing component', async () => {
+      const tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+      const response = await tenantContext.getAdminCentralServerService().tariffApi.readAll({});
+      expect(response.status).to.equal(HTTPAuthError.FORBIDDEN);
+    });
+
+    it('Should not let a basic user create a tariff', async () => {
+      const response = await testData.centralBasicService.tariffApi.create(buildTariff(TariffEntityType.SITE, testData.siteID));
+      expect(response.status).to.equal(HTTPAuthError.FORBIDDEN);
+    });
+
+    it('Should create a tariff for a Site Area', async () => {
+      testData.tariff = buildTariff(TariffEntityType.SITE_AREA, testData.siteAreaID);
+      testData.tariff.id = await createTariff(testData.tariff);
+      const response = await testData.centralAdminService.tariffApi.readById(testData.tariff.id);
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data).to.containSubset(testData.tariff);
+    });
+
+    it('Should list the tariffs of an entity', async () => {
+      const response = await testData.centralAdminService.tariffApi.readAll({ EntityID: testData.siteAreaID });
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data.count).to.equal(1);
+      expect(response.data.result[0].id).to.equal(testData.tariff.id);
+    });
+
+    it('Should not create a second tariff for the same entity', async () => {
+      const response = await testData.centralAdminService.tariffApi.create(buildTariff(TariffEntityType.SITE_AREA, testData.siteAreaID));
+      expect(response.status).to.equal(HTTPError.TARIFF_ALREADY_EXIST_ERROR);
+    });
+
+    it('Should not create a tariff for an unknown entity', async () => {
+      const response = await testData.centralAdminService.tariffApi.create(buildTariff(TariffEntityType.SITE, '5ce249a2372f0b1c8caf0000'));
+      expect(response.status).to.equal(HTTPError.OBJECT_DOES_NOT_EXIST_ERROR);
+    });
+
+    it('Should update a tariff', async () => {
+      testData.tariff.description = `UT Tariff ${faker.random.alphaNumeric(8)}`;
+      testData.tariff.pricings[1].components[0].price = 0.25;
+      let response = await testData.centralAdminService.tariffApi.update(testData.tariff);
+      expect(response.status).to.equal(StatusCodes.OK);
+      response = await testData.centralAdminService.tariffApi.readById(testData.tariff.id);
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data).to.containSubset({
+        description: testData.tariff.description,
+        pricings: testData.tariff.pricings
+      });
+    });
+
+    it('Should delete a tariff', async () => {
+      const tariffID = await createTariff(buildTariff(TariffEntityType.SITE, testData.siteID));
+      let response = await testData.centralAdminService.tariffApi.delete(tariffID);
+      expect(response.status).to.equal(StatusCodes.OK);
+      response = await testData.centralAdminService.tariffApi.readById(tariffID);
+      expect(response.status).to.equal(HTTPError.OBJECT_DOES_NOT_EXIST_ERROR);
+    });
+  });
+
+  /**
+   * Test /ocpi/cpo/2.1.1/tariffs
+   */
+  describe('Test /ocpi/cpo/2.1.1/tariffs', () => {
+    let response;
+
+    before(async function() {
+      if (!OCPIService.isConfigAvailable()) {
+        this.skip();
+      }
+      // Register an eMSP with a token of the tenant
+      const localToken = OCPIUtils.generateLocalToken(testData.tenantContext.getTenant().subdomain);
+      const ocpiEndpointResponse = await testData.centralAdminService.ocpiEndpointApi.create(
+        Factory.ocpiEndpoint.build({ localToken }));
+      expect(ocpiEndpointResponse.status).to.equal(StatusCodes.OK);
+      testData.ocpiEndpointID = ocpiEndpointResponse.data.id;
+      testData.cpoService = new OCPIService(OCPIRole.CPO);
+      testData.cpoService.token = `Token ${localToken}`;
+    });
+
+    after(async () => {
+      if (testData.ocpiEndpointID) {
+        await testData.centralAdminService.ocpiEndpointApi.delete(testData.ocpiEndpointID);
+      }
+    });
+
+    // Check call
+    it('should access url: /ocpi/cpo/2.1.1/tariffs', async () => {
+      response = await testData.cpoService.accessPath('GET', '/ocpi/cpo/2.1.1/tariffs');
+      expect(response.status).to.be.eql(StatusCodes.OK);
+      testData.cpoService.checkOCPIResponseStructure(response.data);
+      expect(response.data).to.have.property('status_code', 1000);
+      expect(response.data).to.have.property('data').to.be.an('array').that.is.not.empty;
+      expect(response.headers).to.have.property('x-total-count');
+    });
+
+    // Check the tariff of the tenant
+    it('should return the tariff of the tenant first', () => {
+      expect(response.data.data[0]).to.containSubset({
+        id: '1',
+        currency: 'EUR',
+        elements: [{
+          price_components: [{ type: OCPITariffDimensionType.ENERGY, price: 1, step_size: 1 }]
+        }]
+      });
+    });
+
+    // Check the mapping of the tariff of the Site Area
+    it('should map the tariff of the Site Area', () => {
+      const ocpiTariff = response.data.data.find((tariff) => tariff.id === testData.tariff.id);
+      expect(ocpiTariff).to.containSubset({
+        currency: 'EUR',
+        elements: [
+          {
+            price_components: [
+              { type: OCPITariffDimensionType.ENERGY, price: 0.3, step_size: 1 },
+              { type: OCPITariffDimensionType.PARKING_TIME, price: 6, step_size: 60 },
+            ],
+            restrictions: {
+              start_time: '08:00',
+              end_time: '20:00',
+              day_of_week: [OCPIDayOfWeek.MONDAY, OCPIDayOfWeek.FRIDAY]
+            }
+          },
+          {
+            price_components: [
+              { type: OCPITariffDimensionType.ENERGY, price: 0.25, step_size: 1 },
+            ]
+          }
+        ]
+      });
+      expect(ocpiTariff.last_updated).to.not.be.empty;
+    });
+
+    // Check the free tariffs
+    it('should expose a free tariff as a zero flat fee', async () => {
+      const tariff = buildTariff(TariffEntityType.SITE, testData.siteID);
+      tariff.pricings = [{ components: [{ type: PricingDimensionType.TIME, price: 0, stepSize: 60 }] }];
+      const tariffID = await createTariff(tariff);
+      const tariffsResponse = await testData.cpoService.accessPath('GET', '/ocpi/cpo/2.1.1/tariffs');
+      expect(tariffsResponse.status).to.be.eql(StatusCodes.OK);
+      expect(tariffsResponse.data.data.find((ocpiTariff) => ocpiTariff.id === tariffID).elements).to.eql([{
+        price_components: [{ type: OCPITariffDimensionType.FLAT, price: 0, step_size: 0 }]
+      }]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { ChargePointErrorCode, ChargePointStatus, OCPPVersion } from '../../src/types/ocpp/OCPPServer';
+import { OCPPMessageTrigger, OCPPTriggerMessageStatus } from '../../src/types/ocpp/OCPPClient';
+import chai, { expect } from 'chai';
+
+import CentralServerService from './client/CentralServerService';
+import ChargingStationStorage from '../../src/storage/mongodb/ChargingStationStorage';
+import CheckOfflineChargingStationsTask from '../../src/scheduler/tasks/CheckOfflineChargingStationsTask';
+import ContextDefinition from './context/ContextDefinition';
+import ContextProvider from './context/ContextProvider';
+import { HTTPError } from '../../src/types/HTTPError';
+import MongoDBStorage from '../../src/storage/mongodb/MongoDBStorage';
+import { OCPP20BootReason } from '../../src/types/ocpp/OCPP20Server';
+import OCPPJsonService16 from './ocpp/json/OCPPJsonService16';
+import OCPPJsonService20 from './ocpp/json/OCPPJsonService20';
+import { StatusCodes } from 'http-status-codes';
+import Tenant from '../../src/types/Tenant';
+import TenantContext from './context/TenantContext';
+import chaiSubset from 'chai-subset';
+import config from '../config';
+import faker from 'faker';
+import global from '../../src/types/GlobalType';
+import moment from 'moment';
+
+chai.use(chaiSubset);
+
+// Records the Trigger Messages received by the simulated Charging Station
+class TriggerMessageHandler {
+  public status = OCPPTriggerMessageStatus.ACCEPTED;
+  public requests: Record<string, unknown>[] = [];
+
+  public handleTriggerMessage(payload: Record<string, unknown>): { status: OCPPTriggerMessageStatus } {
+    this.requests.push(payload);
+    return { status: this.status };
+  }
+}
+
+class TestData {
+  public tenantContext: TenantContext;
+  public tenant: Tenant;
+  public centralAdminService: CentralServerService;
+  public ocpp16Handler = new TriggerMessageHandler();
+  public ocpp16: OCPPJsonService16;
+  public ocpp16ChargingStationID: string;
+  public ocpp20Handler = new TriggerMessageHandler();
+  public ocpp20: OCPPJsonService20;
+  public ocpp20ChargingStationID: string;
+}
+
+const testData = new TestData();
+
+function buildServerUrl(ocppPath: string, tokenID: string): string {
+  return `${config.get('ocpp.json.scheme')}://${config.get('ocpp.json.host')}:${config.get('ocpp.json.port')}/${ocppPath}/${testData.tenant.id}/${tokenID}`;
+}
+
+async function setChargingStationOffline(chargingStationID: string): Promise<void> {
+  await ChargingStationStorage.saveChargingStationLastSeen(testData.tenant.id, chargingStationID,
+    { lastSeen: moment().subtract(1, 'day').toDate() });
+}
+
+describe('Trigger Message', function() {
+  this.timeout(100000);
+
+  before(async () => {
+    global.database = new MongoDBStorage(config.get('storage'));
+    await global.database.start();
+    await ContextProvider.defaultInstance.prepareContexts();
+    testData.tenantContext = await ContextProvider.defaultInstance.getTenantContext(ContextDefinition.TENANT_CONTEXTS.TENANT_WITH_NO_COMPONENTS);
+    testData.tenant = testData.tenantContext.getTenant();
+    testData.centralAdminService = testData.tenantContext.getAdminCentralServerService();
+    const tokenID = await testData.tenantContext.createRegistrationToken();
+    // OCPP 1.6 Charging Station
+    testData.ocpp16 = new OCPPJsonService16(buildServerUrl('OCPP16', tokenID), testData.ocpp16Handler);
+    testData.ocpp16ChargingStationID = `ut-trigger-16-${faker.random.alphaNumeric(8)}`;
+    await testData.ocpp16.executeBootNotification(testData.ocpp16ChargingStationID, {
+      chargePointVendor: 'UT Vendor',
+      chargePointModel: 'UT Model',
+      firmwareVersion: '1.0.0',
+    });
+    await testData.ocpp16.executeStatusNotification(testData.ocpp16ChargingStationID, {
+      connectorId: 1,
+      status: ChargePointStatus.AVAILABLE,
+      errorCode: ChargePointErrorCode.NO_ERROR,
+      timestamp: new Date().toISOString()
+    });
+    // OCPP 2.0.1 Charging Station
+    testData.ocpp20 = new OCPPJsonService20(buildServerUrl('OCPP20', tokenID), testData.ocpp20Handler);
+    testData.ocpp20ChargingStationID = `ut-trigger-20-${faker.random.alphaNumeric(8)}`;
+    await testData.ocpp20.executeBootNotification(testData.ocpp20ChargingStationID, {
+      chargingStation: {
+        vendorName: 'UT Vendor',
+        model: 'UT Model',
+        firmwareVersion: '1.0.0',
+      },
+      reason: OCPP20BootReason.POWER_UP
+    });
+  });
+
+  beforeEach(() => {
+    testData.ocpp16Handler.status = OCPPTriggerMessageStatus.ACCEPTED;
+    testData.ocpp16Handler.requests = [];
+    testData.ocpp20Handler.status = OCPPTriggerMessageStatus.ACCEPTED;
+    testData.ocpp20Handler.requests = [];
+  });
+
+  after(async () => {
+    testData.ocpp16.closeConnection();
+    testData.ocpp20.closeConnection();
+    await testData.centralAdminService.chargingStationApi.delete(testData.ocpp16ChargingStationID);
+    await testData.centralAdminService.chargingStationApi.delete(testData.ocpp20ChargingStationID);
+    await ContextProvider.defaultInstance.cleanUpCreatedContent();
+  });
+
+  describe('Trigger a message from the REST API', () => {
+    it('Should trigger a message on a connector', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.triggerMessage(testData.ocpp16ChargingStationID, {
+        requestedMessage: OCPPMessageTrigger.STATUS_NOTIFICATION,
+        connectorId: 1
+      });
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data.status).to.equal(OCPPTriggerMessageStatus.ACCEPTED);
+      expect(testData.ocpp16Handler.requests).to.eql([
+        { requestedMessage: OCPPMessageTrigger.STATUS_NOTIFICATION, connectorId: 1 }
+      ]);
+    });
+
+    it('Should return the status of a rejected trigger', async () => {
+      testData.ocpp16Handler.status = OCPPTriggerMessageStatus.REJECTED;
+      const response = await testData.centralAdminService.chargingStationApi.triggerMessage(testData.ocpp16ChargingStationID, {
+        requestedMessage: OCPPMessageTrigger.METER_VALUES
+      });
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data.status).to.equal(OCPPTriggerMessageStatus.REJECTED);
+      expect(testData.ocpp16Handler.requests).to.have.lengthOf(1);
+    });
+
+    it('Should not trigger an unknown message', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.triggerMessage(testData.ocpp16ChargingStationID, {
+        requestedMessage: 'Authorize'
+      });
+      expect(response.status).to.equal(HTTPError.GENERAL_ERROR);
+      expect(testData.ocpp16Handler.requests).to.be.empty;
+    });
+
+    it('Should trigger a message on the EVSE of an OCPP 2.0.1 Charging Station', async () => {
+      const response = await testData.centralAdminService.chargingStationApi.triggerMessage(testData.ocpp20ChargingStationID, {
+        requestedMessage: OCPPMessageTrigger.DIAGNOSTICS_STATUS_NOTIFICATION
+      });
+      expect(response.status).to.equal(StatusCodes.OK);
+      expect(response.data.status).to.equal(OCPPTriggerMessageStatus.ACCEPTED);
+      expect(testData.ocpp20Handler.requests).to.eql([
+        { requestedMessage: 'LogStatusNotification' }
+      ]);
+    });
+  });
+
+  describe('Check the offline Charging Stations', () => {
+    it('Should trigger a heartbeat and refresh the statuses of an offline Charging Station', async () => {
+      await setChargingStationOffline(testData.ocpp16ChargingStationID);
+      await new CheckOfflineChargingStationsTask().processTenant(testData.tenant, {});
+      expect(testData.ocpp16Handler.requests).to.eql([
+        { requestedMessage: OCPPMessageTrigger.HEARTBEAT },
+        { requestedMessage: OCPPMessageTrigger.STATUS_NOTIFICATION }
+      ]);
+      const chargingStation = await ChargingStationStorage.getChargingStation(testData.tenant.id, testData.ocpp16ChargingStationID);
+      expect(moment().diff(chargingStation.lastSeen, 'minutes')).to.be.below(1);
+    });
+
+    it('Should not refresh the statuses when the heartbeat is rejected', async () => {
+      testData.ocpp16Handler.status = OCPPTriggerMessageStatus.REJECTED;
+      await setChargingStationOffline(testData.ocpp16ChargingStationID);
+      await new CheckOfflineChargingStationsTask().processTenant(testData.tenant, {});
+      expect(testData.ocpp16Handler.requests).to.eql([
+        { requestedMessage: OCPPMessageTrigger.HEARTBEAT }
+      ]);
+      // The Charging Station responded
+      const chargingStation = await ChargingStationStorage.getChargingStation(testData.tenant.id, testData.ocpp16ChargingStationID);
+      expect(moment().diff(chargingStation.lastSeen, 'minutes')).to.be.below(1);
+    });
+
+    it('Should send the OCPP 2.0.1 trigger to an offline OCPP 2.0.1 Charging Station', async () => {
+      await setChargingStationOffline(testData.ocpp20ChargingStationID);
+      await new CheckOfflineChargingStationsTask().processTenant(testData.tenant, {});
+      expect(testData.ocpp20Handler.requests).to.eql([
+        { requestedMessage: OCPPMessageTrigger.HEARTBEAT },
+        { requestedMessage: OCPPMessageTrigger.STATUS_NOTIFICATION }
+      ]);
+      const chargingStation = await ChargingStationStorage.getChargingStation(testData.tenant.id, testData.ocpp20ChargingStationID);
+      expect(chargingStation.ocppVersion).to.equal(OCPPVersion.VERSION_20);
+      expect(moment().diff(chargingStation.lastSeen, 'minutes')).to.be.below(1);
+    });
+  });
+});
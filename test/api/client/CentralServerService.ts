@@ -21,6 +21,7 @@ import SiteAreaApi from './SiteAreaApi';
 import SmartChargingApi from './SmartChargingApi';
 import StatisticsApi from './StatisticsApi';
 import { StatusCodes } from 'http-status-codes';
+import TariffApi from './TariffApi';
 import TenantApi from './TenantApi';
 import TenantComponents from '../../../src/types/TenantComponents';
 import TestConstants from './utils/TestConstants';
@@ -57,6 +58,7 @@ export default class CentralServerService {
   public statisticsApi: StatisticsApi;
   public billingApi: BillingApi;
   public smartChargingApi: SmartChargingApi;
+  public tariffApi: TariffApi;
   public _baseApi: BaseApi;
   private _baseURL: string;
   private _authenticatedUser: any;
@@ -108,6 +110,7 @@ export default class CentralServerService {
     this.assetApi = new AssetApi(this.authenticatedApi);
     this.carApi = new CarApi(this.authenticatedApi);
     this.smartChargingApi = new SmartChargingApi(this.authenticatedApi);
+    this.tariffApi = new TariffApi(this.authenticatedApi);
     this.carApiSuperTenant = new CarApi(this.authenticatedSuperAdminApi);
   }
 
@@ -53,6 +53,26 @@ export default class ChargingStationApi extends CrudApi {
     return super.update(data, `/v1/api/${ServerRoute.REST_CHARGING_STATIONS}/${data.chargingStationID}/remote/start`);
   }
 
+  public async readReservations(chargingStationID: string, params: Record<string, unknown> = {}): Promise<any> {
+    return super.read(params, `/v1/api/${ServerRoute.REST_CHARGING_STATIONS}/${chargingStationID}/reservations`);
+  }
+
+  public async reserveNow(chargingStationID: string, args: Record<string, unknown>): Promise<any> {
+    return super.create({ args }, `/v1/api/${ServerRoute.REST_CHARGING_STATIONS}/${chargingStationID}/reservations`);
+  }
+
+  public async triggerMessage(chargingStationID: string, args: Record<string, unknown>): Promise<any> {
+    return super.update({ args }, `/v1/api/${ServerRoute.REST_CHARGING_STATIONS}/${chargingStationID}/trigger`);
+  }
+
+  public async updateSecurityProfile(chargingStationID: string, securityProfile: number): Promise<any> {
+    return super.update({ securityProfile }, `/v1/api/${ServerRoute.REST_CHARGING_STATIONS}/${chargingStationID}/security-profile`);
+  }
+
+  public async readPriceEstimate(chargingStationID: string, connectorID: number, params: Record<string, unknown>): Promise<any> {
+    return super.read(params, `/v1/api/${ServerRoute.REST_CHARGING_STATIONS}/${chargingStationID}/connectors/${connectorID}/price/estimate`);
+  }
+
   public async checkConnector(chargingStation, connectorId, connectorData) {
     // Check
     expect(chargingStation).to.not.be.null;
@@ -0,0 +1,31 @@
+import AuthenticatedBaseApi from './utils/AuthenticatedBaseApi';
+import CrudApi from './utils/CrudApi';
+import { ServerRoute } from '../../../src/types/Server';
+import Tariff from '../../../src/types/Tariff';
+import TestConstants from './utils/TestConstants';
+
+export default class TariffApi extends CrudApi {
+  public constructor(authenticatedApi: AuthenticatedBaseApi) {
+    super(authenticatedApi);
+  }
+
+  public async readById(id: string): Promise<any> {
+    return super.read({}, this.buildRestEndpointUrl(ServerRoute.REST_TARIFF, { id }));
+  }
+
+  public async readAll(params: Record<string, unknown>, paging = TestConstants.DEFAULT_PAGING, ordering = TestConstants.DEFAULT_ORDERING): Promise<any> {
+    return super.readAll(params, paging, ordering, this.buildRestEndpointUrl(ServerRoute.REST_TARIFFS));
+  }
+
+  public async create(data: Partial<Tariff>): Promise<any> {
+    return super.create(data, this.buildRestEndpointUrl(ServerRoute.REST_TARIFFS));
+  }
+
+  public async update(data: Partial<Tariff>): Promise<any> {
+    return super.update(data, this.buildRestEndpointUrl(ServerRoute.REST_TARIFF, { id: data.id }));
+  }
+
+  public async delete(id: string): Promise<any> {
+    return super.delete(id, this.buildRestEndpointUrl(ServerRoute.REST_TARIFF, { id }));
+  }
+}
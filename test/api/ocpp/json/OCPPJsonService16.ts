@@ -181,9 +181,9 @@ export default class OCPPJsonService16 extends OCPPService {
   }
 
   private buildResponse(messageId, payload: any) {
-    // Build the request
+    // Build the response
     return [
-      OCPPMessageType.CALL_MESSAGE,
+      OCPPMessageType.CALL_RESULT_MESSAGE,
       messageId,
       payload];
   }
@@ -0,0 +1,160 @@
+import { OCPP20AuthorizeRequest, OCPP20AuthorizeResponse, OCPP20BootNotificationRequest, OCPP20BootNotificationResponse, OCPP20MeterValuesRequest, OCPP20MeterValuesResponse, OCPP20NotifyReportRequest, OCPP20NotifyReportResponse, OCPP20StatusNotificationRequest, OCPP20StatusNotificationResponse, OCPP20TransactionEventRequest, OCPP20TransactionEventResponse } from '../../../../src/types/ocpp/OCPP20Server';
+import { OCPPHeartbeatRequest, OCPPHeartbeatResponse, OCPPVersion } from '../../../../src/types/ocpp/OCPPServer';
+import { OCPPIncomingRequest, OCPPMessageType } from '../../../../src/types/ocpp/OCPPCommon';
+import { ServerAction, WSServerProtocol } from '../../../../src/types/Server';
+
+import Utils from '../../../../src/utils/Utils';
+import WSClient from '../../../../src/client/websocket/WSClient';
+import { WSClientOptions } from '../../../../src/types/WebSocket';
+import config from '../../../config';
+
+type OCPPJsonRequest = [OCPPMessageType, string, ServerAction, unknown];
+
+interface OCPPJsonSession {
+  connection: WSClient;
+  requests: Record<string, { resolve: (payload: unknown) => void; reject: (reason: unknown) => void }>;
+}
+
+export default class OCPPJsonService20 {
+  public serverUrl: string;
+  private wsSessions: Map<string, OCPPJsonSession>;
+  private requestHandler: any;
+
+  public constructor(serverUrl: string, requestHandler = null) {
+    this.serverUrl = serverUrl;
+    this.wsSessions = new Map<string, OCPPJsonSession>();
+    this.requestHandler = requestHandler;
+  }
+
+  public getVersion(): OCPPVersion {
+    return OCPPVersion.VERSION_20;
+  }
+
+  public async openConnection(chargeBoxIdentity: string): Promise<OCPPJsonSession> {
+    return new Promise((resolve, reject) => {
+      // Create WS
+      const sentRequests: OCPPJsonSession['requests'] = {};
+      const wsClientOptions: WSClientOptions = {
+        protocols: WSServerProtocol.OCPP201,
+        autoReconnectTimeout: config.get('wsClient').autoReconnectTimeout,
+        autoReconnectMaxRetries: config.get('wsClient').autoReconnectMaxRetries
+      };
+      const wsConnection = new WSClient(`${this.serverUrl}/${chargeBoxIdentity}`, wsClientOptions, false);
+      // Opened
+      wsConnection.onopen = () => {
+        // Connection is opened and ready to use
+        resolve({ connection: wsConnection, requests: sentRequests });
+      };
+      // Handle Error Message
+      wsConnection.onerror = (error: Error) => {
+        // An error occurred when sending/receiving data
+        reject(error);
+      };
+      wsConnection.onclose = (code: number) => {
+        for (const property in sentRequests) {
+          sentRequests[property].reject(code);
+        }
+        reject(code);
+      };
+      wsConnection.onmaximum = (error: Error) => {
+        reject(error);
+      };
+      // Handle Server Message
+      wsConnection.onmessage = async (message) => {
+        try {
+          // Parse the message
+          const [messageType, messageId, payload, commandPayload]: OCPPIncomingRequest = JSON.parse(message.data) as OCPPIncomingRequest;
+          // Check if this corresponds to a request
+          if (messageType === OCPPMessageType.CALL_RESULT_MESSAGE && sentRequests[messageId]) {
+            // Respond to the request
+            sentRequests[messageId].resolve(payload);
+          } else if (messageType === OCPPMessageType.CALL_ERROR_MESSAGE && sentRequests[messageId]) {
+            sentRequests[messageId].reject(JSON.parse(message.data));
+          } else if (messageType === OCPPMessageType.CALL_MESSAGE) {
+            await this.handleRequest(chargeBoxIdentity, messageId, payload, commandPayload);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
+    });
+  }
+
+  public async handleRequest(chargeBoxIdentity: string, messageId: string, commandName: ServerAction, commandPayload: Record<string, unknown> | string): Promise<void> {
+    let result = {};
+    const methodName = `handle${commandName}`;
+    if (this.requestHandler && typeof this.requestHandler[methodName] === 'function') {
+      result = await this.requestHandler[methodName](commandPayload);
+    }
+    this.wsSessions.get(chargeBoxIdentity).connection.send(JSON.stringify([OCPPMessageType.CALL_RESULT_MESSAGE, messageId, result]));
+  }
+
+  public closeConnection(): void {
+    // Close
+    if (this.wsSessions) {
+      this.wsSessions.forEach((session) => session.connection.close());
+      this.wsSessions = null;
+    }
+  }
+
+  public async executeBootNotification(chargingStationID: string, bootNotification: OCPP20BootNotificationRequest): Promise<OCPP20BootNotificationResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.BOOT_NOTIFICATION, bootNotification));
+  }
+
+  public async executeHeartbeat(chargingStationID: string, heartbeat: OCPPHeartbeatRequest): Promise<OCPPHeartbeatResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.HEARTBEAT, heartbeat));
+  }
+
+  public async executeStatusNotification(chargingStationID: string, statusNotification: OCPP20StatusNotificationRequest): Promise<OCPP20StatusNotificationResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.STATUS_NOTIFICATION, statusNotification));
+  }
+
+  public async executeAuthorize(chargingStationID: string, authorize: OCPP20AuthorizeRequest): Promise<OCPP20AuthorizeResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.AUTHORIZE, authorize));
+  }
+
+  public async executeTransactionEvent(chargingStationID: string, transactionEvent: OCPP20TransactionEventRequest): Promise<OCPP20TransactionEventResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.TRANSACTION_EVENT, transactionEvent));
+  }
+
+  public async executeMeterValues(chargingStationID: string, meterValues: OCPP20MeterValuesRequest): Promise<OCPP20MeterValuesResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.METER_VALUES, meterValues));
+  }
+
+  public async executeNotifyReport(chargingStationID: string, notifyReport: OCPP20NotifyReportRequest): Promise<OCPP20NotifyReportResponse> {
+    return this.send(chargingStationID, this.buildRequest(ServerAction.NOTIFY_REPORT, notifyReport));
+  }
+
+  private async send<T>(chargeBoxIdentity: string, message: OCPPJsonRequest): Promise<T> {
+    // Debug
+    if (config.trace_logs) {
+      console.debug('OCPP Request ====================================');
+      console.debug({ chargeBoxIdentity, message });
+      console.debug('====================================');
+    }
+    // WS Opened?
+    if (!this.wsSessions?.get(chargeBoxIdentity)?.connection?.isConnectionOpen()) {
+      // Open WS
+      const ws = await this.openConnection(chargeBoxIdentity);
+      this.wsSessions.set(chargeBoxIdentity, ws);
+    }
+    // Send
+    this.wsSessions.get(chargeBoxIdentity).connection.send(JSON.stringify(message), {}, (error?: Error) => {
+      config.trace_logs && console.debug(`Sending error to '${chargeBoxIdentity}', error '${JSON.stringify(error)}', message: '${JSON.stringify(message)}'`);
+    });
+    // Return a promise
+    return new Promise((resolve, reject) => {
+      // Set the resolve function
+      this.wsSessions.get(chargeBoxIdentity).requests[message[1]] = { resolve, reject };
+    });
+  }
+
+  private buildRequest(command: ServerAction, payload: unknown): OCPPJsonRequest {
+    // Build the request
+    return [
+      OCPPMessageType.CALL_MESSAGE,
+      Utils.generateUUID(),
+      command,
+      payload];
+  }
+}
@@ -11,6 +11,7 @@ const userFactory = Factory.define('user')
     sendSessionStarted: true,
     sendOptimalChargeReached: true,
     sendEndOfCharge: true,
+    sendIdleFeeWarning: true,
     sendEndOfSession: true,
     sendUserAccountStatusChanged: true,
     sendNewRegisteredUser: false,